@@ -0,0 +1,310 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    Font,
+    FontMetrics,
+    GlyphRasterizer,
+    RasterizedGlyph,
+    SdfGlyphAtlas,
+    SdfGlyphGenerator,
+    SdfUtils,
+    TrueTypeGlyphRasterizer,
+    UnicodeBlock
+} from "@here/harp-text-canvas";
+import * as path from "path";
+import { FileSystem } from "./FileSystem";
+import { getLogger, Logger, LogLevel } from "./Logger";
+import { findUnicodeBlock, unicodeBlocks } from "./UnicodeBlocks";
+
+/**
+ * Name of the font storing the replacement glyph, expected by `FontCatalog`.
+ */
+const REPLACEMENT_FONT = "Extra";
+
+/**
+ * Code point of the replacement character.
+ */
+const REPLACEMENT_CODE_POINT = 0xfffd;
+
+export interface FontCatalogOptions {
+    readonly input: string[];
+    readonly output: string;
+    readonly name: string;
+    readonly size: number;
+    readonly distanceRange: number;
+    readonly pageSize: number;
+    readonly charset?: string;
+    readonly verbose: boolean;
+}
+
+/**
+ * Builds a font catalog from TrueType font files, in the format loaded by `FontCatalog`:
+ * - `<name>_FontCatalog.json` listing the fonts and the Unicode blocks they support.
+ * - `<name>_Assets/<font>/<block>.json` and `.png` files with the SDF glyphs of each block, in the
+ * BMFont format.
+ * - `<name>_Assets/Extra/Specials.json` and `.png` with the replacement glyph.
+ *
+ * The fonts are listed in the order of the input files, the first font supporting a block is used
+ * by default to render it.
+ *
+ * @param options Font catalog options.
+ * @returns Promise with the path of the font catalog file.
+ */
+export async function generateFontCatalog(options: FontCatalogOptions): Promise<string> {
+    const logger: Logger = getLogger(options.verbose);
+    const outputDir = path.relative(process.cwd(), options.output);
+    const assetsDir = path.join(outputDir, `${options.name}_Assets`);
+    FileSystem.createDirSync(assetsDir);
+
+    const fonts: Font[] = [];
+    const blocks = new Map<string, UnicodeBlock>();
+    const maxSize = { width: 0, height: 0 };
+    let replacement: { rasterizer: GlyphRasterizer; metrics: FontMetrics } | undefined;
+
+    for (const inputFile of options.input) {
+        const rasterizer = new TrueTypeGlyphRasterizer(await FileSystem.readFile(inputFile));
+        const fontName = path.basename(inputFile, path.extname(inputFile));
+        const metrics = rasterizer.getFontMetrics(options.size, options.distanceRange);
+        const generator = new SdfGlyphGenerator(rasterizer, metrics);
+        logger.log(LogLevel.INFO, `Generating glyphs of '${fontName}'`);
+
+        if (replacement === undefined && rasterizer.hasGlyph(REPLACEMENT_CODE_POINT)) {
+            replacement = { rasterizer, metrics };
+        }
+
+        const codePointsPerBlock = new Map<string, number[]>();
+        for (const codePoint of rasterizer.codePoints) {
+            const block = findUnicodeBlock(codePoint);
+            const isIncluded =
+                options.charset === undefined ||
+                options.charset.indexOf(String.fromCodePoint(codePoint)) !== -1;
+            if (block === undefined || codePoint < 0x20 || !isIncluded) {
+                continue;
+            }
+            const blockCodePoints = codePointsPerBlock.get(block.name);
+            if (blockCodePoints === undefined) {
+                codePointsPerBlock.set(block.name, [codePoint]);
+            } else {
+                blockCodePoints.push(codePoint);
+            }
+        }
+
+        let charset = "";
+        for (const [blockName, codePoints] of codePointsPerBlock) {
+            logger.log(LogLevel.DEBUG, `${fontName}: ${blockName} (${codePoints.length} glyphs)`);
+            const fontDir = path.join(assetsDir, fontName);
+            const blockCharset = await writeBlock(
+                generator,
+                codePoints,
+                fontName,
+                blockName,
+                fontDir,
+                options,
+                maxSize
+            );
+            charset += blockCharset;
+
+            const block = blocks.get(blockName);
+            if (block !== undefined) {
+                block.fonts.push(fontName);
+            } else {
+                const range = unicodeBlocks.find(element => element.name === blockName)!;
+                blocks.set(blockName, {
+                    name: blockName,
+                    min: Math.max(range.min, 0x20),
+                    max: range.max,
+                    fonts: [fontName]
+                });
+            }
+        }
+        fonts.push({ name: fontName, metrics, charset });
+    }
+
+    // The replacement glyph is taken from the first font having it, or drawn as an empty box.
+    if (replacement === undefined) {
+        const metrics: FontMetrics =
+            fonts.length > 0
+                ? fonts[0].metrics
+                : {
+                      size: options.size,
+                      distanceRange: options.distanceRange,
+                      base: options.size,
+                      lineHeight: options.size,
+                      lineGap: 0,
+                      capHeight: Math.round(options.size * 0.7),
+                      xHeight: Math.round(options.size * 0.5)
+                  };
+        replacement = { rasterizer: new BoxGlyphRasterizer(metrics.capHeight), metrics };
+    }
+    const replacementGenerator = new SdfGlyphGenerator(replacement.rasterizer, replacement.metrics);
+    await writeBlock(
+        replacementGenerator,
+        [REPLACEMENT_CODE_POINT],
+        REPLACEMENT_FONT,
+        "Specials",
+        path.join(assetsDir, REPLACEMENT_FONT),
+        options,
+        maxSize
+    );
+    fonts.push({
+        name: REPLACEMENT_FONT,
+        metrics: replacement.metrics,
+        charset: String.fromCodePoint(REPLACEMENT_CODE_POINT)
+    });
+    const specials = blocks.get("Specials");
+    if (specials !== undefined) {
+        specials.fonts.push(REPLACEMENT_FONT);
+    } else {
+        blocks.set("Specials", {
+            name: "Specials",
+            min: 0xfff0,
+            max: 0xffff,
+            fonts: [REPLACEMENT_FONT]
+        });
+    }
+
+    const catalogPath = path.join(outputDir, `${options.name}_FontCatalog.json`);
+    const catalog = {
+        name: options.name,
+        type: "sdf",
+        size: options.size,
+        maxWidth: maxSize.width,
+        maxHeight: maxSize.height,
+        distanceRange: options.distanceRange,
+        fonts,
+        supportedBlocks: unicodeBlocks
+            .filter(element => blocks.has(element.name))
+            .map(element => blocks.get(element.name)!)
+    };
+    logger.log(LogLevel.DEBUG, "Writing font catalog:", catalogPath);
+    await FileSystem.writeFile(catalogPath, JSON.stringify(catalog, undefined, 4));
+    return catalogPath;
+}
+
+/**
+ * Generates the glyphs of a Unicode block and stores them in BMFont format.
+ *
+ * @returns The characters of the generated glyphs.
+ */
+async function writeBlock(
+    generator: SdfGlyphGenerator,
+    codePoints: number[],
+    fontName: string,
+    blockName: string,
+    outputDir: string,
+    options: FontCatalogOptions,
+    maxSize: { width: number; height: number }
+): Promise<string> {
+    const fileName = blockName.replace(/ /g, "_");
+    const atlas = new SdfGlyphAtlas(options.pageSize, options.pageSize);
+    const chars: any[] = [];
+    let charset = "";
+    for (const codePoint of codePoints) {
+        const glyph = generator.generate(codePoint);
+        if (glyph === undefined) {
+            continue;
+        }
+        const location = atlas.add(glyph);
+        const char = String.fromCodePoint(codePoint);
+        chars.push({
+            id: codePoint,
+            index: chars.length,
+            char,
+            width: glyph.width,
+            height: glyph.height,
+            xoffset: Math.round(glyph.offsetX),
+            yoffset: Math.round(glyph.offsetY),
+            xadvance: Math.round(glyph.advanceX),
+            chnl: 15,
+            x: location.x,
+            y: location.y,
+            page: location.page
+        });
+        charset += char;
+        maxSize.width = Math.max(maxSize.width, glyph.width);
+        maxSize.height = Math.max(maxSize.height, glyph.height);
+    }
+
+    FileSystem.createDirSync(outputDir);
+    const pages: string[] = [];
+    for (let i = 0; i < atlas.pages.length; ++i) {
+        const pageName = i === 0 ? `${fileName}.png` : `${fileName}_${i}.png`;
+        const height =
+            i === atlas.pages.length - 1 ? Math.max(1, atlas.lastPageHeight) : atlas.height;
+        await writePage(path.join(outputDir, pageName), atlas.pages[i], atlas.width, height);
+        pages.push(pageName);
+    }
+
+    const metrics = generator.metrics;
+    const json = {
+        pages,
+        info: {
+            face: fontName,
+            size: metrics.size,
+            bold: 0,
+            italic: 0,
+            charset: Array.from(charset),
+            unicode: 1,
+            stretchH: 100,
+            smooth: 1,
+            aa: 1,
+            padding: [0, 0, 0, 0],
+            spacing: [atlas.spacing, atlas.spacing]
+        },
+        common: {
+            lineHeight: metrics.lineHeight,
+            base: metrics.base,
+            scaleW: atlas.width,
+            scaleH: pages.length > 1 ? atlas.height : Math.max(1, atlas.lastPageHeight),
+            pages: pages.length,
+            packed: 0,
+            alphaChnl: 0,
+            redChnl: 0,
+            greenChnl: 0,
+            blueChnl: 0
+        },
+        distanceField: { fieldType: "sdf", distanceRange: metrics.distanceRange },
+        chars,
+        kernings: []
+    };
+    await FileSystem.writeFile(path.join(outputDir, `${fileName}.json`), JSON.stringify(json));
+    return charset;
+}
+
+function writePage(filePath: string, data: Uint8Array, width: number, height: number) {
+    // pngjs comes without typings.
+    const { PNG } = require("pngjs");
+    const png = new PNG({ width, height });
+    png.data = Buffer.from(data.buffer, data.byteOffset, width * height * 4);
+    return FileSystem.writeFile(filePath, PNG.sync.write(png));
+}
+
+/**
+ * Draws an empty box, used as replacement glyph when no font has one.
+ */
+class BoxGlyphRasterizer implements GlyphRasterizer {
+    constructor(private readonly m_height: number) {}
+
+    rasterize(codePoint: number, size: number): RasterizedGlyph {
+        const width = Math.round(size / 2);
+        const height = this.m_height;
+        const stroke = Math.max(1, Math.round(size / 16));
+        const outer = [0, 0, width, 0, width, height, 0, height];
+        const inner = [
+            stroke,
+            stroke,
+            stroke,
+            height - stroke,
+            width - stroke,
+            height - stroke,
+            width - stroke,
+            stroke
+        ];
+        const data = SdfUtils.rasterizeContours([outer, inner], width, height);
+        return { width, height, data, left: stroke, top: height, advance: width + stroke * 2 };
+    }
+}
@@ -0,0 +1,226 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Continuous range of Unicode code points.
+ */
+export interface UnicodeBlockRange {
+    name: string;
+    min: number;
+    max: number;
+}
+
+/**
+ * Unicode blocks of the Basic Multilingual Plane and of the most used supplementary blocks, in
+ * ascending order. Font catalogs store their glyphs per Unicode block, under these names.
+ */
+export const unicodeBlocks: UnicodeBlockRange[] = [
+    { name: "Basic Latin", min: 0x0000, max: 0x007f },
+    { name: "Latin-1 Supplement", min: 0x0080, max: 0x00ff },
+    { name: "Latin Extended-A", min: 0x0100, max: 0x017f },
+    { name: "Latin Extended-B", min: 0x0180, max: 0x024f },
+    { name: "IPA Extensions", min: 0x0250, max: 0x02af },
+    { name: "Spacing Modifier Letters", min: 0x02b0, max: 0x02ff },
+    { name: "Combining Diacritical Marks", min: 0x0300, max: 0x036f },
+    { name: "Greek and Coptic", min: 0x0370, max: 0x03ff },
+    { name: "Cyrillic", min: 0x0400, max: 0x04ff },
+    { name: "Cyrillic Supplement", min: 0x0500, max: 0x052f },
+    { name: "Armenian", min: 0x0530, max: 0x058f },
+    { name: "Hebrew", min: 0x0590, max: 0x05ff },
+    { name: "Arabic", min: 0x0600, max: 0x06ff },
+    { name: "Syriac", min: 0x0700, max: 0x074f },
+    { name: "Arabic Supplement", min: 0x0750, max: 0x077f },
+    { name: "Thaana", min: 0x0780, max: 0x07bf },
+    { name: "NKo", min: 0x07c0, max: 0x07ff },
+    { name: "Samaritan", min: 0x0800, max: 0x083f },
+    { name: "Mandaic", min: 0x0840, max: 0x085f },
+    { name: "Syriac Supplement", min: 0x0860, max: 0x086f },
+    { name: "Arabic Extended-A", min: 0x08a0, max: 0x08ff },
+    { name: "Devanagari", min: 0x0900, max: 0x097f },
+    { name: "Bengali", min: 0x0980, max: 0x09ff },
+    { name: "Gurmukhi", min: 0x0a00, max: 0x0a7f },
+    { name: "Gujarati", min: 0x0a80, max: 0x0aff },
+    { name: "Oriya", min: 0x0b00, max: 0x0b7f },
+    { name: "Tamil", min: 0x0b80, max: 0x0bff },
+    { name: "Telugu", min: 0x0c00, max: 0x0c7f },
+    { name: "Kannada", min: 0x0c80, max: 0x0cff },
+    { name: "Malayalam", min: 0x0d00, max: 0x0d7f },
+    { name: "Sinhala", min: 0x0d80, max: 0x0dff },
+    { name: "Thai", min: 0x0e00, max: 0x0e7f },
+    { name: "Lao", min: 0x0e80, max: 0x0eff },
+    { name: "Tibetan", min: 0x0f00, max: 0x0fff },
+    { name: "Myanmar", min: 0x1000, max: 0x109f },
+    { name: "Georgian", min: 0x10a0, max: 0x10ff },
+    { name: "Hangul Jamo", min: 0x1100, max: 0x11ff },
+    { name: "Ethiopic", min: 0x1200, max: 0x137f },
+    { name: "Ethiopic Supplement", min: 0x1380, max: 0x139f },
+    { name: "Cherokee", min: 0x13a0, max: 0x13ff },
+    { name: "Unified Canadian Aboriginal Syllabics", min: 0x1400, max: 0x167f },
+    { name: "Ogham", min: 0x1680, max: 0x169f },
+    { name: "Runic", min: 0x16a0, max: 0x16ff },
+    { name: "Tagalog", min: 0x1700, max: 0x171f },
+    { name: "Hanunoo", min: 0x1720, max: 0x173f },
+    { name: "Buhid", min: 0x1740, max: 0x175f },
+    { name: "Tagbanwa", min: 0x1760, max: 0x177f },
+    { name: "Khmer", min: 0x1780, max: 0x17ff },
+    { name: "Mongolian", min: 0x1800, max: 0x18af },
+    { name: "Unified Canadian Aboriginal Syllabics Extended", min: 0x18b0, max: 0x18ff },
+    { name: "Limbu", min: 0x1900, max: 0x194f },
+    { name: "Tai Le", min: 0x1950, max: 0x197f },
+    { name: "New Tai Lue", min: 0x1980, max: 0x19df },
+    { name: "Khmer Symbols", min: 0x19e0, max: 0x19ff },
+    { name: "Buginese", min: 0x1a00, max: 0x1a1f },
+    { name: "Tai Tham", min: 0x1a20, max: 0x1aaf },
+    { name: "Combining Diacritical Marks Extended", min: 0x1ab0, max: 0x1aff },
+    { name: "Balinese", min: 0x1b00, max: 0x1b7f },
+    { name: "Sundanese", min: 0x1b80, max: 0x1bbf },
+    { name: "Batak", min: 0x1bc0, max: 0x1bff },
+    { name: "Lepcha", min: 0x1c00, max: 0x1c4f },
+    { name: "Ol Chiki", min: 0x1c50, max: 0x1c7f },
+    { name: "Cyrillic Extended-C", min: 0x1c80, max: 0x1c8f },
+    { name: "Georgian Extended", min: 0x1c90, max: 0x1cbf },
+    { name: "Sundanese Supplement", min: 0x1cc0, max: 0x1ccf },
+    { name: "Vedic Extensions", min: 0x1cd0, max: 0x1cff },
+    { name: "Phonetic Extensions", min: 0x1d00, max: 0x1d7f },
+    { name: "Phonetic Extensions Supplement", min: 0x1d80, max: 0x1dbf },
+    { name: "Combining Diacritical Marks Supplement", min: 0x1dc0, max: 0x1dff },
+    { name: "Latin Extended Additional", min: 0x1e00, max: 0x1eff },
+    { name: "Greek Extended", min: 0x1f00, max: 0x1fff },
+    { name: "General Punctuation", min: 0x2000, max: 0x206f },
+    { name: "Superscripts and Subscripts", min: 0x2070, max: 0x209f },
+    { name: "Currency Symbols", min: 0x20a0, max: 0x20cf },
+    { name: "Combining Diacritical Marks for Symbols", min: 0x20d0, max: 0x20ff },
+    { name: "Letterlike Symbols", min: 0x2100, max: 0x214f },
+    { name: "Number Forms", min: 0x2150, max: 0x218f },
+    { name: "Arrows", min: 0x2190, max: 0x21ff },
+    { name: "Mathematical Operators", min: 0x2200, max: 0x22ff },
+    { name: "Miscellaneous Technical", min: 0x2300, max: 0x23ff },
+    { name: "Control Pictures", min: 0x2400, max: 0x243f },
+    { name: "Optical Character Recognition", min: 0x2440, max: 0x245f },
+    { name: "Enclosed Alphanumerics", min: 0x2460, max: 0x24ff },
+    { name: "Box Drawing", min: 0x2500, max: 0x257f },
+    { name: "Block Elements", min: 0x2580, max: 0x259f },
+    { name: "Geometric Shapes", min: 0x25a0, max: 0x25ff },
+    { name: "Miscellaneous Symbols", min: 0x2600, max: 0x26ff },
+    { name: "Dingbats", min: 0x2700, max: 0x27bf },
+    { name: "Miscellaneous Mathematical Symbols-A", min: 0x27c0, max: 0x27ef },
+    { name: "Supplemental Arrows-A", min: 0x27f0, max: 0x27ff },
+    { name: "Braille Patterns", min: 0x2800, max: 0x28ff },
+    { name: "Supplemental Arrows-B", min: 0x2900, max: 0x297f },
+    { name: "Miscellaneous Mathematical Symbols-B", min: 0x2980, max: 0x29ff },
+    { name: "Supplemental Mathematical Operators", min: 0x2a00, max: 0x2aff },
+    { name: "Miscellaneous Symbols and Arrows", min: 0x2b00, max: 0x2bff },
+    { name: "Glagolitic", min: 0x2c00, max: 0x2c5f },
+    { name: "Latin Extended-C", min: 0x2c60, max: 0x2c7f },
+    { name: "Coptic", min: 0x2c80, max: 0x2cff },
+    { name: "Georgian Supplement", min: 0x2d00, max: 0x2d2f },
+    { name: "Tifinagh", min: 0x2d30, max: 0x2d7f },
+    { name: "Ethiopic Extended", min: 0x2d80, max: 0x2ddf },
+    { name: "Cyrillic Extended-A", min: 0x2de0, max: 0x2dff },
+    { name: "Supplemental Punctuation", min: 0x2e00, max: 0x2e7f },
+    { name: "CJK Radicals Supplement", min: 0x2e80, max: 0x2eff },
+    { name: "Kangxi Radicals", min: 0x2f00, max: 0x2fdf },
+    { name: "Ideographic Description Characters", min: 0x2ff0, max: 0x2fff },
+    { name: "CJK Symbols and Punctuation", min: 0x3000, max: 0x303f },
+    { name: "Hiragana", min: 0x3040, max: 0x309f },
+    { name: "Katakana", min: 0x30a0, max: 0x30ff },
+    { name: "Bopomofo", min: 0x3100, max: 0x312f },
+    { name: "Hangul Compatibility Jamo", min: 0x3130, max: 0x318f },
+    { name: "Kanbun", min: 0x3190, max: 0x319f },
+    { name: "Bopomofo Extended", min: 0x31a0, max: 0x31bf },
+    { name: "CJK Strokes", min: 0x31c0, max: 0x31ef },
+    { name: "Katakana Phonetic Extensions", min: 0x31f0, max: 0x31ff },
+    { name: "Enclosed CJK Letters and Months", min: 0x3200, max: 0x32ff },
+    { name: "CJK Compatibility", min: 0x3300, max: 0x33ff },
+    { name: "CJK Unified Ideographs Extension A", min: 0x3400, max: 0x4dbf },
+    { name: "Yijing Hexagram Symbols", min: 0x4dc0, max: 0x4dff },
+    { name: "CJK Unified Ideographs", min: 0x4e00, max: 0x9fff },
+    { name: "Yi Syllables", min: 0xa000, max: 0xa48f },
+    { name: "Yi Radicals", min: 0xa490, max: 0xa4cf },
+    { name: "Lisu", min: 0xa4d0, max: 0xa4ff },
+    { name: "Vai", min: 0xa500, max: 0xa63f },
+    { name: "Cyrillic Extended-B", min: 0xa640, max: 0xa69f },
+    { name: "Bamum", min: 0xa6a0, max: 0xa6ff },
+    { name: "Modifier Tone Letters", min: 0xa700, max: 0xa71f },
+    { name: "Latin Extended-D", min: 0xa720, max: 0xa7ff },
+    { name: "Syloti Nagri", min: 0xa800, max: 0xa82f },
+    { name: "Common Indic Number Forms", min: 0xa830, max: 0xa83f },
+    { name: "Phags-pa", min: 0xa840, max: 0xa87f },
+    { name: "Saurashtra", min: 0xa880, max: 0xa8df },
+    { name: "Devanagari Extended", min: 0xa8e0, max: 0xa8ff },
+    { name: "Kayah Li", min: 0xa900, max: 0xa92f },
+    { name: "Rejang", min: 0xa930, max: 0xa95f },
+    { name: "Hangul Jamo Extended-A", min: 0xa960, max: 0xa97f },
+    { name: "Javanese", min: 0xa980, max: 0xa9df },
+    { name: "Myanmar Extended-B", min: 0xa9e0, max: 0xa9ff },
+    { name: "Cham", min: 0xaa00, max: 0xaa5f },
+    { name: "Myanmar Extended-A", min: 0xaa60, max: 0xaa7f },
+    { name: "Tai Viet", min: 0xaa80, max: 0xaadf },
+    { name: "Meetei Mayek Extensions", min: 0xaae0, max: 0xaaff },
+    { name: "Ethiopic Extended-A", min: 0xab00, max: 0xab2f },
+    { name: "Latin Extended-E", min: 0xab30, max: 0xab6f },
+    { name: "Cherokee Supplement", min: 0xab70, max: 0xabbf },
+    { name: "Meetei Mayek", min: 0xabc0, max: 0xabff },
+    { name: "Hangul Syllables", min: 0xac00, max: 0xd7af },
+    { name: "Hangul Jamo Extended-B", min: 0xd7b0, max: 0xd7ff },
+    { name: "Private Use Area", min: 0xe000, max: 0xf8ff },
+    { name: "CJK Compatibility Ideographs", min: 0xf900, max: 0xfaff },
+    { name: "Alphabetic Presentation Forms", min: 0xfb00, max: 0xfb4f },
+    { name: "Arabic Presentation Forms-A", min: 0xfb50, max: 0xfdff },
+    { name: "Variation Selectors", min: 0xfe00, max: 0xfe0f },
+    { name: "Vertical Forms", min: 0xfe10, max: 0xfe1f },
+    { name: "Combining Half Marks", min: 0xfe20, max: 0xfe2f },
+    { name: "CJK Compatibility Forms", min: 0xfe30, max: 0xfe4f },
+    { name: "Small Form Variants", min: 0xfe50, max: 0xfe6f },
+    { name: "Arabic Presentation Forms-B", min: 0xfe70, max: 0xfeff },
+    { name: "Halfwidth and Fullwidth Forms", min: 0xff00, max: 0xffef },
+    { name: "Specials", min: 0xfff0, max: 0xffff },
+    { name: "Mahjong Tiles", min: 0x1f000, max: 0x1f02f },
+    { name: "Domino Tiles", min: 0x1f030, max: 0x1f09f },
+    { name: "Playing Cards", min: 0x1f0a0, max: 0x1f0ff },
+    { name: "Enclosed Alphanumeric Supplement", min: 0x1f100, max: 0x1f1ff },
+    { name: "Enclosed Ideographic Supplement", min: 0x1f200, max: 0x1f2ff },
+    { name: "Miscellaneous Symbols and Pictographs", min: 0x1f300, max: 0x1f5ff },
+    { name: "Emoticons", min: 0x1f600, max: 0x1f64f },
+    { name: "Ornamental Dingbats", min: 0x1f650, max: 0x1f67f },
+    { name: "Transport and Map Symbols", min: 0x1f680, max: 0x1f6ff },
+    { name: "Alchemical Symbols", min: 0x1f700, max: 0x1f77f },
+    { name: "Geometric Shapes Extended", min: 0x1f780, max: 0x1f7ff },
+    { name: "Supplemental Arrows-C", min: 0x1f800, max: 0x1f8ff },
+    { name: "Supplemental Symbols and Pictographs", min: 0x1f900, max: 0x1f9ff },
+    { name: "Chess Symbols", min: 0x1fa00, max: 0x1fa6f },
+    { name: "Symbols and Pictographs Extended-A", min: 0x1fa70, max: 0x1faff },
+    { name: "CJK Unified Ideographs Extension B", min: 0x20000, max: 0x2a6df },
+    { name: "CJK Unified Ideographs Extension C", min: 0x2a700, max: 0x2b73f },
+    { name: "CJK Unified Ideographs Extension D", min: 0x2b740, max: 0x2b81f },
+    { name: "CJK Unified Ideographs Extension E", min: 0x2b820, max: 0x2ceaf },
+    { name: "CJK Unified Ideographs Extension F", min: 0x2ceb0, max: 0x2ebef },
+    { name: "CJK Compatibility Ideographs Supplement", min: 0x2f800, max: 0x2fa1f }
+];
+
+/**
+ * Finds the Unicode block containing a code point.
+ *
+ * @param codePoint Character's Unicode code point.
+ *
+ * @returns The block containing this code point, or `undefined` if it is not in a known block.
+ */
+export function findUnicodeBlock(codePoint: number): UnicodeBlockRange | undefined {
+    let low = 0;
+    let high = unicodeBlocks.length - 1;
+    while (low <= high) {
+        const middle = Math.floor((low + high) / 2);
+        const block = unicodeBlocks[middle];
+        if (codePoint < block.min) {
+            high = middle - 1;
+        } else if (codePoint > block.max) {
+            low = middle + 1;
+        } else {
+            return block;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as program from "commander";
+import * as fs from "fs";
+import * as path from "path";
+import { FontCatalogOptions, generateFontCatalog } from "./FontCatalogGenerator";
+import { getLogger, Logger, LogLevel } from "./Logger";
+
+const version = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8"))
+    .version;
+
+const _defaultOutputDir: string = "./output";
+const _defaultName: string = "Default";
+const _defaultSize: number = 32;
+const _defaultDistanceRange: number = 8;
+const _defaultPageSize: number = 512;
+
+program
+    .version(version)
+    .description("CLI tool for generating SDF font catalogs from TrueType font files.")
+    .usage("[options]")
+    .option("-i, --in [paths]", "Comma separated list of font files, in order of preference")
+    .option("-o, --out [path]", "Output directory", _defaultOutputDir)
+    .option("-n, --name [name]", "Font catalog name", _defaultName)
+    .option("-s, --size [num]", "Font size in pixels", _defaultSize)
+    .option("-r, --distanceRange [num]", "Distance range in pixels", _defaultDistanceRange)
+    .option("-p, --pageSize [num]", "Size of the glyph pages in pixels", _defaultPageSize)
+    .option("-c, --charset [path]", "Text file with the characters to include (default: all)")
+    .option("-v, --verbose", "Verbose mode")
+    .parse(process.argv);
+
+// Parse processing options
+const cliOptions = program.opts();
+const options: FontCatalogOptions = {
+    input: cliOptions.in !== undefined ? cliOptions.in.split(",") : [],
+    output: cliOptions.out,
+    name: cliOptions.name,
+    size: parseInt(cliOptions.size, 10),
+    distanceRange: parseInt(cliOptions.distanceRange, 10),
+    pageSize: parseInt(cliOptions.pageSize, 10),
+    charset:
+        cliOptions.charset !== undefined ? fs.readFileSync(cliOptions.charset, "utf8") : undefined,
+    verbose: cliOptions.verbose !== undefined ? true : false
+};
+
+const logger: Logger = getLogger(options.verbose);
+
+if (options.verbose) {
+    logger.log(LogLevel.DEBUG, "\nVerbose mode active, params list:");
+    logger.log(LogLevel.DEBUG, "Input fonts: '%s'", options.input.join(", "));
+    logger.log(LogLevel.DEBUG, "Output directory: '%s'", options.output);
+    logger.log(LogLevel.DEBUG, "Font catalog name: '%s'", options.name);
+    logger.log(LogLevel.DEBUG, "Font size: %s px", options.size);
+    logger.log(LogLevel.DEBUG, "Distance range: %s px", options.distanceRange);
+    logger.log(LogLevel.DEBUG, "Page size: %s px\n", options.pageSize);
+}
+
+// Validate input/output parameters
+if (options.input.length < 1) {
+    logger.log(LogLevel.ERROR, "\nMissing input fonts!\n");
+    program.outputHelp();
+    process.exit(1);
+} else if (options.output.length < 1) {
+    logger.log(LogLevel.ERROR, "\nInvalid output path, please specify -o [path]\n");
+    program.outputHelp();
+    process.exit(1);
+}
+
+// Run font catalog generator
+generateFontCatalog(options)
+    .then(catalogPath => {
+        logger.log(LogLevel.INFO, "Font catalog generated in: ", catalogPath);
+        process.exit(0);
+    })
+    .catch((err: Error) => {
+        logger.log(LogLevel.ERROR, "Could not generate font catalog.\nError: ", err);
+        process.exit(1);
+    });
@@ -81,6 +81,14 @@ export interface InterleavedBufferAttribute {
     }>;
 }
 
+/**
+ * Vertex attributes of an extrusion mapping, see [[Geometry.extrusionMappings]].
+ */
+export interface ExtrusionMappingAttributes {
+    extrusionAxis: BufferAttribute;
+    color?: BufferAttribute;
+}
+
 /**
  * Geometry types supported by [[Geometry]] objects.
  */
@@ -122,6 +130,19 @@ export interface Geometry {
      */
     featureStarts?: number[];
 
+    /**
+     * Optional list of feature start indices into the edge index attribute, one for every entry
+     * of [[featureIds]].
+     */
+    edgeFeatureStarts?: number[];
+
+    /**
+     * Optional extrusion axes and colors of extruded polygons, by name of the mapping in
+     * [[ExtrudedPolygonTechniqueParams.extrusionMappings]]. They have the same layout as the
+     * `extrusionAxis` and `color` vertex attributes.
+     */
+    extrusionMappings?: { [name: string]: ExtrusionMappingAttributes };
+
     /**
      * Optional array of objects. It can be used to pass user data from the geometry to the mesh.
      */
@@ -3,6 +3,9 @@
  * Licensed under Apache 2.0, see full license in LICENSE
  * SPDX-License-Identifier: Apache-2.0
  */
+
+import * as THREE from "three";
+
 /**
  * Abstract class defining a shape of a [[Theme]]'s expression
  */
@@ -28,7 +31,7 @@ export abstract class Expr {
 /**
  * @hidden
  */
-type UnaryOp = "has" | "!";
+type UnaryOp = "has" | "!" | "-";
 
 /**
  * @hidden
@@ -40,6 +43,11 @@ type RelationalOp = "<" | ">" | "<=" | ">=";
  */
 type EqualityOp = "~=" | "^=" | "$=" | "==" | "!=";
 
+/**
+ * @hidden
+ */
+type ArithmeticOp = "+" | "-" | "*" | "/" | "%";
+
 /**
  * @hidden
  */
@@ -58,7 +66,16 @@ type Literal = "boolean" | "number" | "string";
 /**
  * @hidden
  */
-type ExprKind = "var" | "in" | Literal | UnaryOp | RelationalOp | EqualityOp | LogicalOp;
+type ExprKind =
+    | "var"
+    | "in"
+    | "call"
+    | Literal
+    | UnaryOp
+    | RelationalOp
+    | EqualityOp
+    | LogicalOp
+    | ArithmeticOp;
 
 /**
  * @hidden
@@ -285,6 +302,184 @@ class LogicalExpr extends Expr {
     }
 }
 
+/**
+ * A unary minus expression, for example `-height`.
+ */
+class NegateExpr extends Expr {
+    constructor(readonly expr: Expr) {
+        super("-");
+    }
+
+    evaluate(env: Env): Value | never {
+        const value = this.expr.evaluate(env);
+        return typeof value === "number" ? -value : undefined;
+    }
+}
+
+/**
+ * Arithmetic expression, for example `height * 1.5`.
+ *
+ * Both operands must evaluate to numbers, otherwise the result is `undefined`. Use `to-number` to
+ * convert string properties.
+ */
+class ArithmeticExpr extends Expr {
+    constructor(readonly op: ArithmeticOp, readonly left: Expr, readonly right: Expr) {
+        super(op);
+    }
+
+    evaluate(env: Env): Value | never {
+        const left = this.left.evaluate(env);
+        const right = this.right.evaluate(env);
+        if (typeof left !== "number" || typeof right !== "number") {
+            return undefined;
+        }
+        switch (this.op) {
+            case "+":
+                return left + right;
+            case "-":
+                return left - right;
+            case "*":
+                return left * right;
+            case "/":
+                return left / right;
+            case "%":
+                return left % right;
+        }
+        throw new Error(`invalid arithmetic op ${this.op}`);
+    }
+}
+
+/**
+ * A call to one of the [[ExprBuiltins]], for example `min(population / 1000, 20)`.
+ */
+class CallExpr extends Expr {
+    constructor(readonly name: string, readonly args: Expr[]) {
+        super("call");
+    }
+
+    evaluate(env: Env): Value | never {
+        const fn = ExprBuiltins[this.name];
+        if (fn === undefined) {
+            throw new Error(`unknown function '${this.name}'`);
+        }
+        return fn(this.args.map(arg => arg.evaluate(env)));
+    }
+}
+
+/**
+ * Signature of the functions that can be called from expressions.
+ */
+export type ExprFunction = (args: Value[]) => Value;
+
+/**
+ * Returns the first argument as a number, or `undefined` if it cannot be converted.
+ */
+function toNumber(value: Value): number | undefined {
+    switch (typeof value) {
+        case "number":
+            return value;
+        case "boolean":
+            return value ? 1 : 0;
+        case "string": {
+            const result = Number(value);
+            return value.trim().length > 0 && !isNaN(result) ? result : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Applies `fn` to the numeric value of all arguments. Returns `undefined` if any of the arguments
+ * is not a number.
+ */
+function numericFunction(fn: (...args: number[]) => number): ExprFunction {
+    return (args: Value[]) => {
+        for (const arg of args) {
+            if (typeof arg !== "number") {
+                return undefined;
+            }
+        }
+        return fn(...(args as number[]));
+    };
+}
+
+/**
+ * Functions that can be called from expressions, for example `to-number(height)`,
+ * `coalesce(name_en, name)` or `upcase(ref)`.
+ */
+export const ExprBuiltins: { [name: string]: ExprFunction } = {
+    "to-number": args => {
+        for (const arg of args) {
+            const value = toNumber(arg);
+            if (value !== undefined) {
+                return value;
+            }
+        }
+        return undefined;
+    },
+    "to-string": ([value]) => (value !== undefined ? String(value) : undefined),
+    "to-boolean": ([value]) => (value !== undefined ? Boolean(value) : undefined),
+    coalesce: args => args.find(arg => arg !== undefined),
+    concat: args => args.map(arg => (arg !== undefined ? String(arg) : "")).join(""),
+    upcase: ([value]) => (typeof value === "string" ? value.toUpperCase() : undefined),
+    downcase: ([value]) => (typeof value === "string" ? value.toLowerCase() : undefined),
+    length: ([value]) => (typeof value === "string" ? value.length : undefined),
+    min: numericFunction(Math.min),
+    max: numericFunction(Math.max),
+    abs: numericFunction(Math.abs),
+    floor: numericFunction(Math.floor),
+    ceil: numericFunction(Math.ceil),
+    round: numericFunction(Math.round),
+    sqrt: numericFunction(Math.sqrt),
+    pow: numericFunction(Math.pow),
+    log10: numericFunction(Math.log10),
+    match: ([value, ...cases]) => {
+        // `cases` holds label/result pairs, followed by an optional fallback value.
+        for (let i = 0; i + 1 < cases.length; i += 2) {
+            if (value === cases[i]) {
+                return cases[i + 1];
+            }
+        }
+        return cases.length % 2 === 1 ? cases[cases.length - 1] : undefined;
+    },
+    interpolate: ([value, ...stops]) => {
+        // `stops` holds input/output pairs sorted by input. Values outside of the range are
+        // clamped to the first or last output. The outputs are either numbers or colors.
+        if (typeof value !== "number" || stops.length < 2) {
+            return undefined;
+        }
+        const inputs = stops.filter((_, i) => i % 2 === 0) as number[];
+        const outputs = stops.filter((_, i) => i % 2 === 1);
+        const isColor = outputs.every(output => typeof output === "string");
+        if (
+            inputs.some(input => typeof input !== "number") ||
+            (!isColor && outputs.some(output => typeof output !== "number"))
+        ) {
+            return undefined;
+        }
+        if (value <= inputs[0]) {
+            return outputs[0];
+        }
+        for (let i = 1; i < outputs.length; ++i) {
+            if (value <= inputs[i]) {
+                const t = (value - inputs[i - 1]) / (inputs[i] - inputs[i - 1]);
+                if (isColor) {
+                    return (
+                        "#" +
+                        new THREE.Color(outputs[i - 1] as string)
+                            .lerp(new THREE.Color(outputs[i] as string), t)
+                            .getHexString()
+                    );
+                }
+                const from = outputs[i - 1] as number;
+                return from + t * ((outputs[i] as number) - from);
+            }
+        }
+        return outputs[outputs.length - 1];
+    }
+};
+
 /**
  * Character value
  */
@@ -317,7 +512,12 @@ enum Character {
     Less = 60,
     Greater = 62,
     Bar = 124,
-    Amp = 38
+    Amp = 38,
+    Plus = 43,
+    Minus = 45,
+    Star = 42,
+    Slash = 47,
+    Percent = 37
 }
 
 /**
@@ -398,7 +598,12 @@ enum Token {
     LessEqual,
     GreaterEqual,
     BarBar,
-    AmpAmp
+    AmpAmp,
+    Plus,
+    Minus,
+    Star,
+    Slash,
+    Percent
 }
 
 /**
@@ -450,6 +655,16 @@ function tokenSpell(token: Token): string {
             return "||";
         case Token.AmpAmp:
             return "&&";
+        case Token.Plus:
+            return "+";
+        case Token.Minus:
+            return "-";
+        case Token.Star:
+            return "*";
+        case Token.Slash:
+            return "/";
+        case Token.Percent:
+            return "%";
         default:
             throw new Error(`invalid token ${token}`);
     }
@@ -520,6 +735,16 @@ class Lexer {
                 return Token.RBracket;
             case Character.Comma:
                 return Token.Comma;
+            case Character.Plus:
+                return Token.Plus;
+            case Character.Minus:
+                return Token.Minus;
+            case Character.Star:
+                return Token.Star;
+            case Character.Slash:
+                return Token.Slash;
+            case Character.Percent:
+                return Token.Percent;
 
             case Character.SingleQuote:
             case Character.DoubleQuote: {
@@ -599,6 +824,15 @@ class Lexer {
                     ch === Character._ ||
                     (ch === Character.Dollar && isIdentChar(this.m_char))
                 ) {
+                    // Function names like `to-number` contain a `-`, which would otherwise be
+                    // scanned as a subtraction.
+                    const functionName = this.matchHyphenatedFunctionName(start);
+                    if (functionName !== undefined) {
+                        this.m_index = start + functionName.length;
+                        this.yyinp();
+                        this.m_text = functionName;
+                        return Token.Identifier;
+                    }
                     while (isIdentChar(this.m_char)) {
                         this.yyinp();
                     }
@@ -628,6 +862,22 @@ class Lexer {
 
         return Token.Error;
     }
+
+    private matchHyphenatedFunctionName(start: number): string | undefined {
+        for (const name in ExprBuiltins) {
+            if (name.indexOf("-") === -1 || !this.code.startsWith(name, start)) {
+                continue;
+            }
+            let index = start + name.length;
+            while (isSpace(this.code.codePointAt(index) || 0)) {
+                ++index;
+            }
+            if (this.code.codePointAt(index) === Character.LParen) {
+                return name;
+            }
+        }
+        return undefined;
+    }
 }
 
 function getEqualityOp(token: Token): EqualityOp | undefined {
@@ -662,6 +912,30 @@ function getRelationalOp(token: Token): RelationalOp | undefined {
     } // switch
 }
 
+function getAdditiveOp(token: Token): ArithmeticOp | undefined {
+    switch (token) {
+        case Token.Plus:
+            return "+";
+        case Token.Minus:
+            return "-";
+        default:
+            return undefined;
+    } // switch
+}
+
+function getMultiplicativeOp(token: Token): ArithmeticOp | undefined {
+    switch (token) {
+        case Token.Star:
+            return "*";
+        case Token.Slash:
+            return "/";
+        case Token.Percent:
+            return "%";
+        default:
+            return undefined;
+    } // switch
+}
+
 export class Parser {
     private readonly lex: Lexer;
 
@@ -689,9 +963,11 @@ export class Parser {
             case Token.Identifier: {
                 const text = this.lex.text();
                 if (text !== "has") {
-                    const expr = new VarExpr(text);
                     this.lex.next();
-                    return expr;
+                    if (this.lex.token() === Token.LParen) {
+                        return this.parseCall(text);
+                    }
+                    return new VarExpr(text);
                 }
                 this.lex.next(); // skip has
                 this.yyexpect(Token.LParen);
@@ -724,16 +1000,65 @@ export class Parser {
         throw new Error("Syntax error");
     }
 
+    private parseCall(name: string): Expr | never {
+        if (ExprBuiltins[name] === undefined) {
+            throw new Error(`Syntax error: Unknown function '${name}'`);
+        }
+        this.yyexpect(Token.LParen);
+        const args: Expr[] = [];
+        if (this.lex.token() !== Token.RParen) {
+            args.push(this.parseLogicalOr());
+            while (this.lex.token() === Token.Comma) {
+                this.lex.next();
+                args.push(this.parseLogicalOr());
+            }
+        }
+        this.yyexpect(Token.RParen);
+        return new CallExpr(name, args);
+    }
+
     private parseUnary(): Expr | never {
         if (this.lex.token() === Token.Exclaim) {
             this.lex.next();
             return new NotExpr(this.parseUnary());
         }
+        if (this.lex.token() === Token.Minus) {
+            this.lex.next();
+            return new NegateExpr(this.parseUnary());
+        }
         return this.parsePrimary();
     }
 
-    private parseRelational(): Expr | never {
+    private parseMultiplicative(): Expr | never {
         let expr = this.parseUnary();
+        while (true) {
+            const op = getMultiplicativeOp(this.lex.token());
+            if (op === undefined) {
+                break;
+            }
+            this.lex.next();
+            const right = this.parseUnary();
+            expr = new ArithmeticExpr(op, expr, right);
+        }
+        return expr;
+    }
+
+    private parseAdditive(): Expr | never {
+        let expr = this.parseMultiplicative();
+        while (true) {
+            const op = getAdditiveOp(this.lex.token());
+            if (op === undefined) {
+                break;
+            }
+            this.lex.next();
+            const right = this.parseMultiplicative();
+            expr = new ArithmeticExpr(op, expr, right);
+        }
+        return expr;
+    }
+
+    private parseRelational(): Expr | never {
+        let expr = this.parseAdditive();
         while (true) {
             if (this.lex.token() === Token.Identifier && this.lex.text() === "in") {
                 this.lex.next();
@@ -751,7 +1076,7 @@ export class Parser {
                     break;
                 }
                 this.lex.next();
-                const right = this.parseUnary();
+                const right = this.parseAdditive();
                 expr = new BinaryExpr(op, expr, right);
             }
         }
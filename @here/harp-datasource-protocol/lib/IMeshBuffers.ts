@@ -37,4 +37,9 @@ export interface IMeshBuffers {
      * Optional list of feature start indices. The indices point into the index attribute.
      */
     readonly featureStarts: number[];
+
+    /**
+     * Optional list of feature start indices into the edge indices.
+     */
+    readonly edgeFeatureStarts?: number[];
 }
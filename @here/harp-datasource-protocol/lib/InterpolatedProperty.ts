@@ -9,6 +9,7 @@ import { CubicInterpolant, DiscreteInterpolant, LinearInterpolant } from "three"
 import { ExponentialInterpolant } from "./ExponentialInterpolant";
 
 import {
+    ExpressionPropertyDefinition,
     InterpolatedProperty,
     InterpolatedPropertyDefinition,
     InterpolationMode,
@@ -34,7 +35,10 @@ export function getPropertyValue<T>(
     level: number
 ): T | undefined {
     if (!isInterpolatedProperty(property)) {
-        if (isInterpolatedPropertyDefinition(property)) {
+        if (
+            isInterpolatedPropertyDefinition(property) ||
+            isExpressionPropertyDefinition(property)
+        ) {
             throw new Error("Invalid property definition");
         }
         return property;
@@ -87,6 +91,14 @@ export function isInterpolatedPropertyDefinition<T>(
     return false;
 }
 
+/**
+ * Checks if a property is computed from the feature properties.
+ * @param p property to be checked
+ */
+export function isExpressionPropertyDefinition(p: any): p is ExpressionPropertyDefinition {
+    return p !== undefined && p !== null && typeof p === "object" && typeof p.expr === "string";
+}
+
 /**
  * Type guard to check if an object is an instance of `InterpolatedProperty`.
  */
@@ -32,7 +32,23 @@ export interface InterpolatedPropertyDefinition<T> {
     exponent?: number;
 }
 
-export type MaybeInterpolatedProperty<T> = T | InterpolatedPropertyDefinition<T>;
+/**
+ * Property whose value is computed for every feature by evaluating an expression against the
+ * feature's properties.
+ *
+ * Here is an example of a property computed from a feature property in a map style:
+ * "lineWidth": {
+ *  "expr": "min(lanes * 1.5, 10)"
+ * }
+ */
+export interface ExpressionPropertyDefinition {
+    expr: string;
+}
+
+export type MaybeInterpolatedProperty<T> =
+    | T
+    | InterpolatedPropertyDefinition<T>
+    | ExpressionPropertyDefinition;
 
 /**
  * Property which value is interpolated across different zoom levels.
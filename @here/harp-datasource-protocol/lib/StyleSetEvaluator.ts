@@ -6,14 +6,23 @@
 
 import { LoggerManager } from "@here/harp-utils";
 
-import { Expr, MapEnv } from "./Expr";
-import { isInterpolatedPropertyDefinition } from "./InterpolatedProperty";
+import { Expr, MapEnv, Value } from "./Expr";
+import {
+    isExpressionPropertyDefinition,
+    isInterpolatedPropertyDefinition
+} from "./InterpolatedProperty";
 import { InterpolatedPropertyDefinition, InterpolationMode } from "./InterpolatedPropertyDefs";
 import { IndexedTechnique, Technique } from "./Techniques";
 import { Style, StyleSet } from "./Theme";
 
 export const logger = LoggerManager.instance.create("StyleSetEvaluator");
 
+/**
+ * Names of the techniques which store a `color` computed from feature properties per vertex,
+ * instead of creating one technique per distinct color.
+ */
+const VERTEX_COLOR_TECHNIQUES = ["fill", "standard", "extruded-polygon"];
+
 interface StyleInternalParams {
     /**
      * Optimization: Lazy creation and storage of expression in a style object.
@@ -21,20 +30,65 @@ interface StyleInternalParams {
     _whenExpr?: Expr;
 
     /**
-     * Optimization: Index into table in StyleSetEvaluator.
+     * Optimization: StyleSet index.
      * @hidden
      */
-    _index?: number;
+    _styleSetIndex?: number;
 
     /**
-     * Optimization: StyleSet index.
+     * Parsed expressions of the technique attributes that are computed from feature properties.
+     * Only set if the style has such attributes.
      * @hidden
      */
-    _styleSetIndex?: number;
+    _dynamicAttrs?: Array<[string, Expr]>;
+
+    /**
+     * Technique assembled from the static attributes of the style and its parent styles, used as
+     * template for the techniques created in every decoding run.
+     * @hidden
+     */
+    _technique?: Technique;
+
+    /**
+     * Techniques created for this style since the last [[StyleSetEvaluator.resetTechniques]],
+     * keyed by the values of [[_dynamicAttrs]].
+     * @hidden
+     */
+    _techniques?: Map<string, IndexedTechnique>;
 }
 
 type InternalStyle = Style & Partial<StyleInternalParams>;
 
+/**
+ * Parsed height and color of an extrusion mapping, either as expression or as constant value.
+ */
+interface ExtrusionMappingExpr {
+    name: string;
+    height: Expr | Value;
+    color: Expr | Value;
+}
+
+/**
+ * The height and color of a feature in one of the
+ * [[ExtrudedPolygonTechniqueParams.extrusionMappings]].
+ */
+export interface ExtrusionMappingValue {
+    /**
+     * The name of the mapping.
+     */
+    name: string;
+
+    /**
+     * The height of the feature, not validated.
+     */
+    height: Value;
+
+    /**
+     * The color of the feature, not validated. `undefined` if the mapping doesn't define a color.
+     */
+    color: Value;
+}
+
 /**
  * Combine data from datasource and apply the rules from a specified theme to show it on the map.
  */
@@ -42,7 +96,10 @@ export class StyleSetEvaluator {
     readonly styleSet: InternalStyle[];
 
     private readonly m_renderOrderBiasGroups: Map<string, number> = new Map();
-    private readonly m_techniques: IndexedTechnique[] = [];
+    private readonly m_techniqueStyles: Set<InternalStyle> = new Set();
+    private readonly m_vertexColorExprs: Map<number, Expr> = new Map();
+    private readonly m_extrusionMappingExprs: Map<number, ExtrusionMappingExpr[]> = new Map();
+    private m_techniques: IndexedTechnique[] = [];
 
     constructor(styleSet: StyleSet) {
         let techniqueRenderOrder = 0;
@@ -137,11 +194,63 @@ export class StyleSetEvaluator {
         return result;
     }
     /**
-     * Get the (current) array of techniques that have been created during decoding.
+     * Get the (current) array of techniques that have been created during decoding, since the
+     * last call to [[resetTechniques]]. The `_index` of a technique is its index in this array.
      */
     get techniques(): IndexedTechnique[] {
         return this.m_techniques;
     }
+
+    /**
+     * Start a new array of techniques, so that it only contains the techniques used by the
+     * features of the next decoded tile. Call before decoding a tile.
+     *
+     * Techniques returned before are not modified, and the array returned by [[techniques]] before
+     * remains valid.
+     */
+    resetTechniques() {
+        this.m_techniqueStyles.forEach(style => style._techniques!.clear());
+        this.m_techniqueStyles.clear();
+        this.m_techniques = [];
+    }
+
+    /**
+     * Evaluate the color of a feature for a technique which has its `color` computed from the
+     * feature properties and stored per vertex. Such techniques have `vertexColors` set to `true`.
+     *
+     * @param technique Technique returned by [[getMatchingTechniques]].
+     * @param env The objects environment.
+     * @returns The color of the feature, or `undefined` if the technique doesn't have a per-vertex
+     *          color.
+     */
+    getVertexColor(technique: IndexedTechnique, env: MapEnv): Value {
+        const expr = this.m_vertexColorExprs.get(technique._styleSetIndex);
+        return expr !== undefined ? expr.evaluate(env) : undefined;
+    }
+
+    /**
+     * Evaluate the [[ExtrudedPolygonTechniqueParams.extrusionMappings]] of a technique for a
+     * feature.
+     *
+     * @param technique Technique returned by [[getMatchingTechniques]].
+     * @param env The objects environment.
+     * @returns The height and color of the feature in every mapping, or `undefined` if the
+     *          technique doesn't have extrusion mappings.
+     */
+    getExtrusionMappings(
+        technique: IndexedTechnique,
+        env: MapEnv
+    ): ExtrusionMappingValue[] | undefined {
+        const exprs = this.m_extrusionMappingExprs.get(technique._styleSetIndex);
+        if (exprs === undefined) {
+            return undefined;
+        }
+        return exprs.map(({ name, height, color }) => ({
+            name,
+            height: height instanceof Expr ? height.evaluate(env) : height,
+            color: color instanceof Expr ? color.evaluate(env) : color
+        }));
+    }
     /**
      * Shorten the style object for debug log. Remove special strings (starting with "_") as well
      * as the sub-styles of style groups.
@@ -211,24 +320,23 @@ export class StyleSetEvaluator {
             if (style.technique !== undefined) {
                 if (style.technique !== "none") {
                     // Check if we already assembled the technique for exactly this style. If we
-                    // have, we return the preassembled technique object. Otherwise we assemble the
-                    // technique from all parent styles' attributes and the current stales'
-                    // attributes, and add it to the cached techniques.
-                    if (style._index === undefined) {
-                        const technique = this.createTechnique(style, styleStack);
-                        result.push(technique);
-                        if (style.debug) {
-                            logger.log(
-                                "\n======== style w/ technique =========\nenv:",
-                                JSON.stringify(env.unmap(), undefined, 2),
-                                "\nstyle:",
-                                JSON.stringify(style, this.cleanupStyle, 2),
-                                "\ntechnique:",
-                                JSON.stringify(technique, this.cleanupStyle, 2)
-                            );
-                        }
-                    } else {
-                        result.push(this.m_techniques[style._index]);
+                    // haven't, we assemble the technique from all parent styles' attributes and the
+                    // current styles' attributes, and store it as template in the style.
+                    const isNewStyle = style._technique === undefined;
+                    if (isNewStyle) {
+                        this.createTechnique(style, styleStack);
+                    }
+                    const technique = this.getTechnique(style, env);
+                    result.push(technique);
+                    if (isNewStyle && style.debug) {
+                        logger.log(
+                            "\n======== style w/ technique =========\nenv:",
+                            JSON.stringify(env.unmap(), undefined, 2),
+                            "\nstyle:",
+                            JSON.stringify(style, this.cleanupStyle, 2),
+                            "\ntechnique:",
+                            JSON.stringify(technique, this.cleanupStyle, 2)
+                        );
                     }
                 }
                 // stop processing if "final" is set
@@ -238,9 +346,17 @@ export class StyleSetEvaluator {
         return false;
     }
 
+    /**
+     * Assemble the technique for a style from the attributes of all its parent styles and its own
+     * attributes.
+     *
+     * The assembled technique is stored as template in the style. The techniques used by the
+     * features are created from it in [[getTechnique]].
+     */
     private createTechnique(style: InternalStyle, styleStack: InternalStyle[]) {
         const technique = {} as any;
         technique.name = style.technique;
+        const dynamicAttrs = new Map<string, Expr>();
         const addAttributes = (currStyle: InternalStyle) => {
             if (currStyle.renderOrder !== undefined) {
                 technique.renderOrder = currStyle.renderOrder;
@@ -266,7 +382,11 @@ export class StyleSetEvaluator {
             if (currStyle.attr !== undefined) {
                 Object.getOwnPropertyNames(currStyle.attr).forEach(property => {
                     const prop = (currStyle.attr as any)[property];
-                    if (isInterpolatedPropertyDefinition(prop)) {
+                    dynamicAttrs.delete(property);
+                    if (isExpressionPropertyDefinition(prop)) {
+                        delete technique[property];
+                        dynamicAttrs.set(property, Expr.parse(prop.expr));
+                    } else if (isInterpolatedPropertyDefinition(prop)) {
                         switch (typeof prop.values[0]) {
                             default:
                             case "number":
@@ -296,12 +416,98 @@ export class StyleSetEvaluator {
         }
         addAttributes(style);
 
-        style._index = this.m_techniques.length;
-        (technique as IndexedTechnique)._index = style._index;
-        (technique as IndexedTechnique)._styleSetIndex = style._styleSetIndex!;
-        this.m_techniques.push(technique as IndexedTechnique);
+        const vertexColorExpr = dynamicAttrs.get("color");
+        if (vertexColorExpr !== undefined && VERTEX_COLOR_TECHNIQUES.includes(technique.name)) {
+            dynamicAttrs.delete("color");
+            technique.vertexColors = true;
+            this.m_vertexColorExprs.set(style._styleSetIndex!, vertexColorExpr);
+        }
 
-        return technique as Technique;
+        const extrusionMappings = technique.extrusionMappings;
+        if (technique.name === "extruded-polygon" && extrusionMappings !== undefined) {
+            const parse = (value: any): Expr | Value =>
+                isExpressionPropertyDefinition(value) ? Expr.parse(value.expr) : value;
+            const mappingExprs = Object.keys(extrusionMappings).map(name => ({
+                name,
+                height: parse(extrusionMappings[name].height),
+                color: parse(extrusionMappings[name].color)
+            }));
+            this.m_extrusionMappingExprs.set(style._styleSetIndex!, mappingExprs);
+            // The colors of the mappings replace the vertex colors.
+            if (mappingExprs.some(mapping => mapping.color !== undefined)) {
+                technique.vertexColors = true;
+            }
+        }
+
+        // The colors of the heatmap color ramp may be interpolated, too.
+        const colorRamp = technique.colorRamp;
+        if (technique.name === "heatmap" && Array.isArray(colorRamp)) {
+            technique.colorRamp = colorRamp.map(stop => ({
+                density: stop.density,
+                color: isInterpolatedPropertyDefinition(stop.color)
+                    ? createInterpolatedProperty(stop.color as InterpolatedPropertyDefinition<
+                          string
+                      >)
+                    : stop.color
+            }));
+        }
+
+        // The attributes of feature states are evaluated at the current zoom level when rendering.
+        const featureStates = technique.featureStates;
+        if (featureStates !== undefined) {
+            technique.featureStates = {};
+            Object.keys(featureStates).forEach(state => {
+                const attributes: any = {};
+                Object.keys(featureStates[state]).forEach(attribute => {
+                    const value = featureStates[state][attribute];
+                    attributes[attribute] = isInterpolatedPropertyDefinition(value)
+                        ? createInterpolatedProperty(value)
+                        : value;
+                });
+                technique.featureStates[state] = attributes;
+            });
+        }
+
+        if (dynamicAttrs.size > 0) {
+            style._dynamicAttrs = Array.from(dynamicAttrs.entries());
+        }
+        style._technique = technique as Technique;
+        style._techniques = new Map();
+    }
+
+    /**
+     * Get the technique of a style for a feature. The technique is created from the template
+     * technique of the style, with the attributes computed from the feature properties. Features
+     * with equal computed values share the same technique until the next [[resetTechniques]], so
+     * the number of techniques is bounded by the features of a tile.
+     *
+     * @param style The style, already processed by [[createTechnique]].
+     * @param env The environment of the feature.
+     */
+    private getTechnique(style: InternalStyle, env: MapEnv): IndexedTechnique {
+        const dynamicAttrs = style._dynamicAttrs;
+        const values: Value[] =
+            dynamicAttrs !== undefined ? dynamicAttrs.map(([, expr]) => expr.evaluate(env)) : [];
+        const key = values.length > 0 ? JSON.stringify(values) : "";
+
+        let technique = style._techniques!.get(key);
+        if (technique === undefined) {
+            const newTechnique = { ...style._technique } as any;
+            if (dynamicAttrs !== undefined) {
+                dynamicAttrs.forEach(([property], i) => {
+                    if (values[i] !== undefined) {
+                        newTechnique[property] = values[i];
+                    }
+                });
+            }
+            newTechnique._index = this.m_techniques.length;
+            newTechnique._styleSetIndex = style._styleSetIndex!;
+            technique = newTechnique as IndexedTechnique;
+            this.m_techniques.push(technique);
+            style._techniques!.set(key, technique);
+            this.m_techniqueStyles.add(style);
+        }
+        return technique;
     }
 }
 
@@ -4,7 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { MaybeInterpolatedProperty } from "./InterpolatedPropertyDefs";
+import {
+    ExpressionPropertyDefinition,
+    MaybeInterpolatedProperty
+} from "./InterpolatedPropertyDefs";
 
 /**
  * Common attributes or all [[Technique]]s.
@@ -55,6 +58,42 @@ export interface BaseTechniqueParams {
      * opacity and stops fading out. A value of <= 0.0 disables fading.
      */
     fadeFar?: MaybeInterpolatedProperty<number>;
+
+    /**
+     * Attributes that override the attributes of this technique for features in a given state, by
+     * state name. The state of a feature is set at runtime with `MapView.setFeatureState`, for
+     * example:
+     *
+     * ```json
+     * "featureStates": {
+     *     "hover": { "color": "#ffaa00" },
+     *     "selected": { "color": "#ff0000", "opacity": 0.5 }
+     * }
+     * ```
+     *
+     * If a feature is in several states, the attributes are applied in the order of this object.
+     * Up to 8 states are supported per technique. Only features with an ID can have a state, see
+     * `OmvDataSource` option `gatherFeatureIds`.
+     */
+    featureStates?: { [state: string]: FeatureStateAttributes };
+}
+
+/**
+ * Technique attributes applied to features in a certain state, see
+ * [[BaseTechniqueParams.featureStates]]. The attributes are applied in the shaders, so only the
+ * color and the opacity of features can change.
+ */
+export interface FeatureStateAttributes {
+    /**
+     * Color of the features in this state.
+     * @format color-hex
+     */
+    color?: MaybeInterpolatedProperty<string>;
+
+    /**
+     * Opacity of the features in this state, replacing the opacity of the technique.
+     */
+    opacity?: MaybeInterpolatedProperty<number>;
 }
 
 export enum TextureCoordinateType {
@@ -248,6 +287,62 @@ export interface PointTechniqueParams extends BaseTechniqueParams {
     enablePicking?: boolean;
 }
 
+/**
+ * A color of the [[HeatmapTechniqueParams.colorRamp]].
+ */
+export interface HeatmapColorStop {
+    /**
+     * The accumulated density at which this color is used, between `0` and `1`.
+     */
+    density: number;
+    /**
+     * Color in hexadecimal or CSS-style notation, for example: `"#e4e9ec"`, `"#fff"`,
+     * `"rgb(255, 0, 0)"`, or `"hsl(35, 11%, 88%)"`.
+     * @format color-hex
+     */
+    color: MaybeInterpolatedProperty<string>;
+}
+
+/**
+ * Declares a technique that renders the density of point features as a heatmap.
+ *
+ * Every point adds a kernel of the given `radius` to an offscreen density buffer, which is then
+ * colored with the `colorRamp`. The density is clamped to `1`.
+ */
+export interface HeatmapTechniqueParams extends BaseTechniqueParams {
+    /**
+     * Radius of the area around a point that contributes to the density, in pixels.
+     * @default `20`
+     */
+    radius?: MaybeInterpolatedProperty<number>;
+    /**
+     * Weight of every point.
+     * @default `1`
+     */
+    weight?: MaybeInterpolatedProperty<number>;
+    /**
+     * Name of a numeric feature property that the `weight` of a point is multiplied with. Points
+     * without a numeric value of this property don't contribute to the density.
+     */
+    weightProperty?: string;
+    /**
+     * Factor applied to the density of all points, usually increased with the zoom level to
+     * compensate for the points getting farther apart.
+     * @default `1`
+     */
+    intensity?: MaybeInterpolatedProperty<number>;
+    /**
+     * Colors of the accumulated density, sorted by density. Densities below the first color fade
+     * out to transparent.
+     */
+    colorRamp?: HeatmapColorStop[];
+    /**
+     * Opacity of the heatmap, between 0.0 for totally transparent and 1.0 for totally opaque.
+     * @default `1`
+     */
+    opacity?: MaybeInterpolatedProperty<number>;
+}
+
 /**
  * Define the stacking option. Enum values for theme file are in "kebab-case".
  */
@@ -266,6 +361,21 @@ export enum PoiStackMode {
     ShowParent = "show-parent"
 }
 
+/**
+ * Position of the text of a marker, relative to its icon (or to its position if it has no icon).
+ * For example, `"TopRight"` places the text above and to the right of the icon.
+ */
+export type TextAnchor =
+    | "Center"
+    | "Top"
+    | "Bottom"
+    | "Left"
+    | "Right"
+    | "TopLeft"
+    | "TopRight"
+    | "BottomLeft"
+    | "BottomRight";
+
 /**
  * Technique that describes icons with labels. Used in [[PoiTechnique]] and [[LineMarkerTechnique]]
  * (for road shields).
@@ -378,6 +488,13 @@ export interface MarkerTechniqueParams extends BaseTechniqueParams {
      * Vertical offset (up) in screen pixels.
      */
     yOffset?: number;
+    /**
+     * Candidate positions of the text around the icon, tried in order until one where the text
+     * doesn't collide with other labels is found. `xOffset` and `yOffset` are then the distances
+     * between the text and the icon. If not set, the text is placed according to `hAlignment`,
+     * `vAlignment`, `xOffset` and `yOffset`.
+     */
+    textAnchors?: TextAnchor[];
     /**
      * Horizontal offset (to the right) in screen pixels.
      */
@@ -658,10 +775,15 @@ export interface BasicExtrudedLineTechniqueParams
      */
     wireframe?: boolean;
     /**
-     * Style of both end caps. Possible values: `"None"`, `"Circle"`. A value of undefined maps to
-     * `"Circle"`.
+     * Style of both end caps. Possible values: `"None"`, `"Circle"`, `"Round"`, `"Square"`,
+     * `"Triangle"`. `"Circle"` is the same as `"Round"`. A value of undefined maps to `"Circle"`.
      */
-    caps?: "None" | "Circle";
+    caps?: "None" | "Circle" | "Round" | "Square" | "Triangle";
+    /**
+     * Style of the joins between line segments. Possible values: `"Round"`, `"Miter"`,
+     * `"Bevel"`. A value of undefined maps to `"Miter"`.
+     */
+    joins?: "Round" | "Miter" | "Bevel";
 }
 
 /**
@@ -683,10 +805,15 @@ export interface StandardExtrudedLineTechniqueParams
      */
     lineWidth: MaybeInterpolatedProperty<number>;
     /**
-     * Style of both end caps. Possible values: `"None"`, `"Circle"`. A value of undefined maps to
-     * `"Circle"`.
+     * Style of both end caps. Possible values: `"None"`, `"Circle"`, `"Round"`, `"Square"`,
+     * `"Triangle"`. `"Circle"` is the same as `"Round"`. A value of undefined maps to `"Circle"`.
+     */
+    caps?: "None" | "Circle" | "Round" | "Square" | "Triangle";
+    /**
+     * Style of the joins between line segments. Possible values: `"Round"`, `"Miter"`,
+     * `"Bevel"`. A value of undefined maps to `"Miter"`.
      */
-    caps?: "None" | "Circle";
+    joins?: "Round" | "Miter" | "Bevel";
 }
 
 /**
@@ -713,11 +840,26 @@ export interface SolidLineTechniqueParams extends BaseTechniqueParams, Polygonal
     /**
      * Units in which different size properties are specified. Either `Meter` (default) or `Pixel`.
      */
-    metricUnit?: string;
+    metricUnit?: "Meter" | "Pixel";
     /**
      * Width of a line in `metricUnit`s for different zoom levels.
      */
     lineWidth: MaybeInterpolatedProperty<number>;
+    /**
+     * Distance in `metricUnit`s the line is shifted sideways from its geometry. Positive values
+     * shift the line to the right of its direction, negative values to the left. Defaults to `0`.
+     */
+    offset?: MaybeInterpolatedProperty<number>;
+    /**
+     * Style of both end caps. Possible values: `"None"`, `"Round"`, `"Square"`, `"Triangle"`.
+     * Defaults to `"Round"`.
+     */
+    caps?: "None" | "Round" | "Square" | "Triangle";
+    /**
+     * Style of the joins between line segments. Possible values: `"Round"`, `"Miter"`,
+     * `"Bevel"`. Defaults to `"Round"`.
+     */
+    joins?: "Round" | "Miter" | "Bevel";
     /**
      * Clip the line outside the tile if `true`.
      */
@@ -767,6 +909,21 @@ export interface DashedLineTechniqueParams extends BaseTechniqueParams, Polygona
      * Width of a line in `metricUnit`s for different zoom levels.
      */
     lineWidth: MaybeInterpolatedProperty<number>;
+    /**
+     * Distance in `metricUnit`s the line is shifted sideways from its geometry. Positive values
+     * shift the line to the right of its direction, negative values to the left. Defaults to `0`.
+     */
+    offset?: MaybeInterpolatedProperty<number>;
+    /**
+     * Style of both end caps. Possible values: `"None"`, `"Round"`, `"Square"`, `"Triangle"`.
+     * Defaults to `"Round"`.
+     */
+    caps?: "None" | "Round" | "Square" | "Triangle";
+    /**
+     * Style of the joins between line segments. Possible values: `"Round"`, `"Miter"`,
+     * `"Bevel"`. Defaults to `"Round"`.
+     */
+    joins?: "Round" | "Miter" | "Bevel";
     /**
      * Length of a line in meters for different zoom levels.
      */
@@ -781,6 +938,75 @@ export interface DashedLineTechniqueParams extends BaseTechniqueParams, Polygona
     clipping?: boolean;
 }
 
+/**
+ * Declares a geometry as a line with an image repeated along it, like railway hatches or one-way
+ * arrows.
+ */
+export interface TexturedLineTechniqueParams extends BaseTechniqueParams, PolygonalTechniqueParams {
+    /**
+     * Name of the image to repeat along the line. Either the name of an [[ImageTexture]] from the
+     * `imageTextures` of the theme, or the name of an image in the `ImageCache` of the map. The
+     * x axis of the image follows the direction of the line, the y axis spans the line width.
+     */
+    imageTexture: string;
+    /**
+     * Color the image is multiplied with, in hexadecimal or CSS-style notation. Defaults to
+     * `"#ffffff"`, which leaves the colors of the image unchanged.
+     * @format color-hex
+     */
+    color?: MaybeInterpolatedProperty<string>;
+    /**
+     * Set to `true` if line should appear transparent. Rendering transparent lines may come with a
+     * slight performance impact.
+     */
+    transparent?: boolean;
+    /**
+     * For transparent lines, set a value between `0.0` for fully transparent, to `1.0` for fully
+     * opaque.
+     */
+    opacity?: MaybeInterpolatedProperty<number>;
+    /**
+     * Units in which different size properties are specified. Either `Meter` (default) or `Pixel`.
+     */
+    metricUnit?: "Meter" | "Pixel";
+    /**
+     * Width of a line in `metricUnit`s for different zoom levels.
+     */
+    lineWidth: MaybeInterpolatedProperty<number>;
+    /**
+     * Distance in `metricUnit`s the line is shifted sideways from its geometry. Positive values
+     * shift the line to the right of its direction, negative values to the left. Defaults to `0`.
+     */
+    offset?: MaybeInterpolatedProperty<number>;
+    /**
+     * Style of both end caps. Possible values: `"None"`, `"Round"`, `"Square"`, `"Triangle"`.
+     * Defaults to `"Round"`.
+     */
+    caps?: "None" | "Round" | "Square" | "Triangle";
+    /**
+     * Style of the joins between line segments. Possible values: `"Round"`, `"Miter"`,
+     * `"Bevel"`. Defaults to `"Round"`.
+     */
+    joins?: "Round" | "Miter" | "Bevel";
+    /**
+     * Length of one image along the line in `metricUnit`s. Defaults to the length that keeps the
+     * aspect ratio of the image at the current line width.
+     */
+    patternLength?: MaybeInterpolatedProperty<number>;
+    /**
+     * Distance between two images along the line in `metricUnit`s. Defaults to `0`.
+     */
+    patternSpacing?: MaybeInterpolatedProperty<number>;
+    /**
+     * Distance of the first image from the start of the line in `metricUnit`s. Defaults to `0`.
+     */
+    patternOffset?: MaybeInterpolatedProperty<number>;
+    /**
+     * Clip the line outside the tile if `true`.
+     */
+    clipping?: boolean;
+}
+
 /**
  * Technique used to draw filled polygons.
  */
@@ -805,6 +1031,11 @@ export interface FillTechniqueParams extends BaseTechniqueParams, PolygonalTechn
      * A value of `true` creates a wireframe geometry. (May not be supported with all techniques).
      */
     wireframe?: boolean;
+    /**
+     * If `vertexColors` is `true`, every vertex has color information. Set automatically if
+     * `color` is computed from the feature properties.
+     */
+    vertexColors?: boolean;
     /**
      * Width of the lines. Currently limited to the [0, 1] range.
      */
@@ -887,6 +1118,15 @@ export interface ExtrudedPolygonTechniqueParams extends StandardTechniqueParams
      */
     animateExtrusionDuration?: number;
 
+    /**
+     * Alternative heights and colors of the extruded polygons, by name of the mapping. They are
+     * typically computed from feature properties, for example to show a statistical value instead
+     * of the real height of the buildings. The mapping is selected at runtime with
+     * [[MapView.extrusionMapping]], the buildings transition smoothly to the new heights and
+     * colors.
+     */
+    extrusionMappings?: { [name: string]: ExtrusionMapping };
+
     /**
      * Control rendering of depth prepass before the actual geometry.
      *
@@ -900,6 +1140,25 @@ export interface ExtrudedPolygonTechniqueParams extends StandardTechniqueParams
     enableDepthPrePass?: boolean;
 }
 
+/**
+ * A mapping of feature properties to the height and color of extruded polygons, see
+ * [[ExtrudedPolygonTechniqueParams.extrusionMappings]].
+ */
+export interface ExtrusionMapping {
+    /**
+     * Height of the extruded polygon, for example `{ "expr": "population / 10" }`. Features
+     * without a valid height keep their default height.
+     */
+    height: number | ExpressionPropertyDefinition;
+
+    /**
+     * Color of the extruded polygon, for example a color ramp computed with `interpolate`. Features
+     * without a valid color keep their default color.
+     * @format color-hex
+     */
+    color?: string | ExpressionPropertyDefinition;
+}
+
 export interface ShaderTechniqueMaterialParameters {
     [name: string]: any;
 }
@@ -943,6 +1202,12 @@ export interface TerrainTechniqueParams extends StandardTechniqueParams {
      * gradient texture (defaults to `128`).
      */
     heightGradientWidth?: number;
+
+    /**
+     * Shades the terrain with the illumination of the sun, for decoders generating the terrain
+     * from elevation data, see [[HillshadeParams]].
+     */
+    hillshade?: HillshadeParams;
 }
 
 /**
@@ -993,6 +1258,16 @@ export interface TextTechniqueParams extends BaseTechniqueParams {
      * @default `true`
      */
     reserveSpace?: boolean;
+    /**
+     * Minimum distance between repetitions of a label along a line, in screen pixels. If not set,
+     * the label is placed once per line.
+     */
+    repeatDistance?: number;
+    /**
+     * Maximum angle (radians) between two consecutive glyphs of a label placed along a line.
+     * Labels are not placed where the line bends more. Defaults to `Math.PI / 4`.
+     */
+    maxAngleBetweenGlyphs?: number;
     /**
      * Fading time for labels in seconds.
      */
@@ -1185,6 +1460,26 @@ export interface HeightBasedColors {
     colorArray: string[];
 }
 
+/**
+ * Interface containing the parameters of the hillshading of the [[TerrainTechnique]].
+ */
+export interface HillshadeParams {
+    /**
+     * Direction of the sun in degrees, clockwise from north (defaults to `315`, north-west).
+     */
+    azimuth?: number;
+
+    /**
+     * Angle of the sun above the horizon in degrees (defaults to `45`).
+     */
+    altitude?: number;
+
+    /**
+     * Factor to exaggerate the elevations with, to emphasize the relief (defaults to `1`).
+     */
+    exaggeration?: number;
+}
+
 export type PixelFormat =
     | "Alpha"
     | "RGB"
@@ -9,6 +9,7 @@ import {
     DashedLineTechniqueParams,
     ExtrudedPolygonTechniqueParams,
     FillTechniqueParams,
+    HeatmapTechniqueParams,
     isTextureBuffer,
     LineTechniqueParams,
     MarkerTechniqueParams,
@@ -20,7 +21,8 @@ import {
     StandardTechniqueParams,
     TerrainTechniqueParams,
     TextTechniqueParams,
-    TextureCoordinateType
+    TextureCoordinateType,
+    TexturedLineTechniqueParams
 } from "./TechniqueParams";
 
 /**
@@ -51,6 +53,13 @@ export interface CirclesTechnique extends PointTechniqueParams {
     name: "circles";
 }
 
+/**
+ * Runtime representation of [[HeatmapStyle]] as parsed by [[StyleSetEvaluator]].
+ */
+export interface HeatmapTechnique extends HeatmapTechniqueParams {
+    name: "heatmap";
+}
+
 /**
  * Runtime representation of [[PoiStyle]] as parsed by [[StyleSetEvaluator]].
  */
@@ -100,6 +109,13 @@ export interface DashedLineTechnique extends DashedLineTechniqueParams {
     name: "dashed-line";
 }
 
+/**
+ * Runtime representation of [[TexturedLineStyle]] as parsed by [[StyleSetEvaluator]].
+ */
+export interface TexturedLineTechnique extends TexturedLineTechniqueParams {
+    name: "textured-line";
+}
+
 /**
  * Runtime representation of [[LineStyle]] as parsed by [[StyleSetEvaluator]].
  */
@@ -155,12 +171,14 @@ export interface TerrainTechnique extends TerrainTechniqueParams {
 export type Technique =
     | SquaresTechnique
     | CirclesTechnique
+    | HeatmapTechnique
     | PoiTechnique
     | LineMarkerTechnique
     | LineTechnique
     | SegmentsTechnique
     | SolidLineTechnique
     | DashedLineTechnique
+    | TexturedLineTechnique
     | FillTechnique
     | StandardTechnique
     | TerrainTechnique
@@ -206,6 +224,13 @@ export function isSquaresTechnique(technique: Technique): technique is SquaresTe
     return technique.name === "squares";
 }
 
+/**
+ * Type guard to check if an object is an instance of [[HeatmapTechnique]].
+ */
+export function isHeatmapTechnique(technique: Technique): technique is HeatmapTechnique {
+    return technique.name === "heatmap";
+}
+
 /**
  * Type guard to check if an object is an instance of [[PoiTechnique]].
  */
@@ -227,6 +252,13 @@ export function isDashedLineTechnique(technique: Technique): technique is Dashed
     return technique.name === "dashed-line";
 }
 
+/**
+ * Type guard to check if an object is an instance of [[TexturedLineTechnique]].
+ */
+export function isTexturedLineTechnique(technique: Technique): technique is TexturedLineTechnique {
+    return technique.name === "textured-line";
+}
+
 /**
  * Type guard to check if an object is an instance of [[LineTechnique]].
  */
@@ -10,6 +10,7 @@ import {
     DashedLineTechniqueParams,
     ExtrudedPolygonTechniqueParams,
     FillTechniqueParams,
+    HeatmapTechniqueParams,
     MarkerTechniqueParams,
     PointTechniqueParams,
     SegmentsTechniqueParams,
@@ -18,7 +19,8 @@ import {
     StandardExtrudedLineTechniqueParams,
     StandardTechniqueParams,
     TerrainTechniqueParams,
-    TextTechniqueParams
+    TextTechniqueParams,
+    TexturedLineTechniqueParams
 } from "./TechniqueParams";
 
 /**
@@ -36,6 +38,21 @@ export interface Theme {
      */
     url?: string;
 
+    /**
+     * The [[Theme]]s this theme is based on, given as URL or inline [[Theme]] object. Relative
+     * URLs are resolved against the URL of this theme.
+     *
+     * The base themes are merged in the order of the list, then this theme is merged on top:
+     *
+     * - `styles` are merged per style set. Styles with the same `id` are replaced in place, all
+     *   other styles are appended to the style set of the base theme.
+     * - `textStyles`, `imageTextures`, `poiTables`, `fontCatalogs` and `lights` are merged by
+     *   `name`. Entries with the same name are replaced, other entries are appended.
+     * - `images` are merged by key.
+     * - All other properties are replaced if they are defined.
+     */
+    extends?: string | Theme | Array<string | Theme>;
+
     /**
      * Color to be used as a clear background - no map objects.
      * @format color-hex
@@ -113,6 +130,12 @@ export type StyleSet = Style[];
  * shown.
  */
 export interface BaseStyle {
+    /**
+     * Optional identifier of the style. A [[Theme]] which `extends` another theme replaces the
+     * style with the same `id` in the base theme's style set.
+     */
+    id?: string;
+
     /**
      * Human readable description.
      */
@@ -125,7 +148,7 @@ export interface BaseStyle {
 
     /**
      * Technique name. Must be one of `"line"`, `"fill"`, `"solid-line"`, `"dashed-line"`,
-     * `"extruded-line"`, `"extruded-polygon"`, `"text"`, or `"none"`.
+     * `"textured-line"`, `"extruded-line"`, `"extruded-polygon"`, `"text"`, or `"none"`.
      */
     technique?: string;
 
@@ -395,12 +418,14 @@ export interface BaseStyle {
 export type Style =
     | SquaresStyle
     | CirclesStyle
+    | HeatmapStyle
     | PoiStyle
     | LineMarkerStyle
     | LineStyle
     | SegmentsStyle
     | SolidLineStyle
     | DashedLineStyle
+    | TexturedLineStyle
     | FillStyle
     | StandardStyle
     | BasicExtrudedLineStyle
@@ -431,6 +456,16 @@ export interface CirclesStyle extends BaseStyle {
     attr?: Partial<PointTechniqueParams>;
 }
 
+/**
+ * Render the density of point features as heatmap.
+ *
+ * @see [[HeatmapTechniqueParams]].
+ */
+export interface HeatmapStyle extends BaseStyle {
+    technique: "heatmap";
+    attr?: Partial<HeatmapTechniqueParams>;
+}
+
 /**
  * Render feature as POIs (icons and text) rendered in screen space.
  *
@@ -479,6 +514,11 @@ export interface DashedLineStyle extends BaseStyle {
     attr?: Partial<DashedLineTechniqueParams>;
 }
 
+export interface TexturedLineStyle extends BaseStyle {
+    technique: "textured-line";
+    attr?: Partial<TexturedLineTechniqueParams>;
+}
+
 export interface FillStyle extends BaseStyle {
     technique: "fill";
     attr?: Partial<FillTechniqueParams>;
@@ -0,0 +1,595 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Parser } from "./Expr";
+import {
+    isExpressionPropertyDefinition,
+    isInterpolatedPropertyDefinition
+} from "./InterpolatedProperty";
+import { Theme } from "./Theme";
+
+/**
+ * An issue found in a [[Theme]] by the [[ThemeValidator]].
+ */
+export interface ThemeValidationError {
+    /**
+     * JSON path of the offending value, for example `styles.tilezen[3].attr.lineWidth`.
+     */
+    path: string;
+
+    /**
+     * Human readable description of the issue.
+     */
+    message: string;
+}
+
+/**
+ * JSON schema of a [[Theme]], as written to `theme.schema.json` by the `generate-json-schema`
+ * script of this package.
+ */
+export interface ThemeSchema {
+    definitions: { [name: string]: any };
+}
+
+/**
+ * Type of a value in a theme, derived from its JSON schema.
+ */
+interface ValueType {
+    /**
+     * JSON types of the value: `"number"`, `"string"`, `"boolean"`, `"object"` or `"array"`. Empty
+     * if any value is accepted.
+     */
+    types: string[];
+
+    /**
+     * The allowed values, if they are restricted.
+     */
+    values?: any[];
+
+    /**
+     * `true` for colors.
+     */
+    color?: boolean;
+
+    /**
+     * Type of the elements of arrays.
+     */
+    items?: ValueType;
+
+    /**
+     * `true` if the value can be an [[InterpolatedPropertyDefinition]].
+     */
+    interpolated?: boolean;
+}
+
+interface ValueTypes {
+    [name: string]: ValueType;
+}
+
+/**
+ * The types of the properties of themes, styles and technique attributes.
+ */
+interface ThemeTypes {
+    themeProperties: ValueTypes;
+    styleProperties: ValueTypes;
+
+    /**
+     * The attributes of every technique, by technique name. `undefined` means any attribute is
+     * accepted.
+     */
+    techniqueAttributes: { [technique: string]: ValueTypes | undefined };
+    extrusionMappingAttributes: ValueTypes;
+    requiredExtrusionMappingAttributes: string[];
+
+    /**
+     * The attributes that can be set by a feature state.
+     */
+    featureStateAttributes: ValueTypes;
+}
+
+const DEFINITIONS_PREFIX = "#/definitions/";
+
+/**
+ * Type of the colors of heatmap color stops.
+ */
+const colorType: ValueType = { types: ["string"], color: true };
+
+/**
+ * Collects the types of the properties of theme objects from the definitions of the schema.
+ */
+function getThemeTypes(schema: ThemeSchema): ThemeTypes {
+    const definitions = schema.definitions;
+    const getDefinition = (name: string) => {
+        const definition = definitions[name];
+        if (definition === undefined) {
+            throw new Error(`ThemeValidator: Missing definition '${name}' in the theme schema`);
+        }
+        return definition;
+    };
+
+    const styleProperties: ValueTypes = {};
+    const techniqueAttributes: { [technique: string]: ValueTypes | undefined } = {};
+    for (const style of getDefinition("Style").anyOf) {
+        const properties = resolveSchema(style, definitions).properties;
+        mergeValueTypes(styleProperties, getValueTypes(properties, definitions));
+
+        // Styles of the same technique may have different attributes, like the shading of
+        // extruded lines.
+        const attr = properties.attr;
+        for (const technique of properties.technique.enum) {
+            if (attr === undefined || attr.properties === undefined) {
+                techniqueAttributes[technique] = undefined;
+            } else {
+                const attributes = techniqueAttributes[technique] || {};
+                techniqueAttributes[technique] = attributes;
+                mergeValueTypes(attributes, getValueTypes(attr.properties, definitions));
+            }
+        }
+    }
+    // Techniques are checked separately, to report unknown techniques.
+    styleProperties.technique = { types: ["string"] };
+
+    const extrusionMapping = getDefinition("ExtrusionMapping");
+    return {
+        themeProperties: getValueTypes(getDefinition("Theme").properties, definitions),
+        styleProperties,
+        techniqueAttributes,
+        extrusionMappingAttributes: getValueTypes(extrusionMapping.properties, definitions),
+        requiredExtrusionMappingAttributes: extrusionMapping.required || [],
+        featureStateAttributes: getValueTypes(
+            getDefinition("FeatureStateAttributes").properties,
+            definitions
+        )
+    };
+}
+
+function resolveSchema(schema: any, definitions: ThemeSchema["definitions"]): any {
+    while (schema.$ref !== undefined) {
+        schema = definitions[schema.$ref.substr(DEFINITIONS_PREFIX.length)];
+    }
+    return schema;
+}
+
+function getValueTypes(properties: any, definitions: ThemeSchema["definitions"]): ValueTypes {
+    const types: ValueTypes = {};
+    for (const name of Object.keys(properties)) {
+        types[name] = getValueType(properties[name], definitions);
+    }
+    return types;
+}
+
+function getValueType(schema: any, definitions: ThemeSchema["definitions"]): ValueType {
+    const type: ValueType = { types: [] };
+    addValueType(type, schema, definitions);
+    return type;
+}
+
+function addValueType(type: ValueType, schema: any, definitions: ThemeSchema["definitions"]) {
+    if (schema.format === "color-hex") {
+        type.color = true;
+    }
+    if (schema.$ref !== undefined) {
+        const name = schema.$ref.substr(DEFINITIONS_PREFIX.length);
+        if (name.startsWith("InterpolatedPropertyDefinition")) {
+            type.interpolated = true;
+        } else if (name !== "ExpressionPropertyDefinition") {
+            // Expressions are accepted for any attribute and checked separately.
+            addValueType(type, definitions[name], definitions);
+        }
+        return;
+    }
+    if (Array.isArray(schema.anyOf)) {
+        for (const member of schema.anyOf) {
+            addValueType(type, member, definitions);
+        }
+        return;
+    }
+    if (Array.isArray(schema.enum)) {
+        type.values = (type.values || []).concat(schema.enum);
+    }
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    for (const name of types) {
+        const typeName = name === "integer" ? "number" : name;
+        if (typeName !== undefined && type.types.indexOf(typeName) === -1) {
+            type.types.push(typeName);
+        }
+    }
+    if (isObject(schema.items) && !Array.isArray(schema.items)) {
+        type.items = getValueType(schema.items, definitions);
+    }
+}
+
+// Adds the types of `source` to `target`, accepting the values of both for the same name.
+function mergeValueTypes(target: ValueTypes, source: ValueTypes) {
+    for (const name of Object.keys(source)) {
+        const type = target[name];
+        const sourceType = source[name];
+        if (type === undefined) {
+            target[name] = sourceType;
+        } else if (type.values !== undefined && sourceType.values !== undefined) {
+            const values = sourceType.values.filter(value => type.values!.indexOf(value) === -1);
+            target[name] = { ...type, values: type.values.concat(values) };
+        }
+    }
+}
+
+/**
+ * Validates a [[Theme]] against the [[ThemeSchema]] generated from the [[Style]] and [[Technique]]
+ * definitions.
+ *
+ * Reports unknown properties, techniques and technique attributes, values of the wrong type,
+ * `when` conditions and attribute expressions that cannot be parsed, as well as references to
+ * text styles, image textures and POI tables that are not defined in the theme.
+ *
+ * The validator does not resolve [[Theme.extends]]; validate the theme returned by
+ * `ThemeLoader.loadAsync` to include the base themes.
+ */
+export class ThemeValidator {
+    private readonly m_errors: ThemeValidationError[] = [];
+    private readonly m_types: ThemeTypes;
+    private m_textStyleNames = new Set<string>();
+    private m_imageTextureNames = new Set<string>();
+    private m_poiTableNames = new Set<string>();
+    private m_hasImageAtlas = false;
+
+    /**
+     * Creates a validator for a theme.
+     *
+     * @param theme The theme to validate. Can be any value, for example parsed JSON.
+     * @param schema The schema to validate the theme against, the content of `theme.schema.json`.
+     */
+    constructor(readonly theme: Theme, schema: ThemeSchema) {
+        this.m_types = getThemeTypes(schema);
+    }
+
+    /**
+     * Validates the theme.
+     *
+     * @returns The list of issues found, empty if the theme is valid.
+     */
+    validate(): ThemeValidationError[] {
+        this.m_errors.length = 0;
+
+        const theme = this.theme as any;
+        if (!isObject(theme)) {
+            this.addError("", "theme must be an object");
+            return this.m_errors;
+        }
+        this.checkProperties(theme, this.m_types.themeProperties, "");
+        this.collectNames();
+        this.validateImageTextures();
+
+        if (isObject(theme.styles)) {
+            for (const styleSetName of Object.keys(theme.styles)) {
+                const styleSet = theme.styles[styleSetName];
+                const path = joinPath("styles", styleSetName);
+                if (!Array.isArray(styleSet)) {
+                    this.addError(path, "style set must be an array of styles");
+                    continue;
+                }
+                styleSet.forEach((style, i) => {
+                    this.validateStyle(style, `${path}[${i}]`, undefined);
+                });
+            }
+        }
+        return this.m_errors;
+    }
+
+    private collectNames() {
+        const theme = this.theme;
+        const names = (entries: any) =>
+            new Set<string>(
+                Array.isArray(entries)
+                    ? entries.filter(entry => isObject(entry)).map(entry => entry.name)
+                    : []
+            );
+        this.m_textStyleNames = names(theme.textStyles);
+        this.m_imageTextureNames = names(theme.imageTextures);
+        this.m_poiTableNames = names(theme.poiTables);
+        const images: any = theme.images;
+        this.m_hasImageAtlas =
+            isObject(images) &&
+            Object.keys(images).some(name => {
+                const image = images[name];
+                return isObject(image) && image.atlas !== undefined;
+            });
+    }
+
+    private validateImageTextures() {
+        const { images, imageTextures } = this.theme;
+        if (!Array.isArray(imageTextures)) {
+            return;
+        }
+        imageTextures.forEach((imageTexture, i) => {
+            if (
+                isObject(imageTexture) &&
+                (!isObject(images) || (images as any)[imageTexture.image] === undefined)
+            ) {
+                this.addError(
+                    `imageTextures[${i}].image`,
+                    `undefined image '${imageTexture.image}'`
+                );
+            }
+        });
+    }
+
+    private validateStyle(style: any, path: string, parentTechnique: string | undefined) {
+        if (!isObject(style)) {
+            this.addError(path, "style must be an object");
+            return;
+        }
+        this.checkProperties(style, this.m_types.styleProperties, path);
+
+        if (typeof style.when === "string") {
+            this.checkExpression(style.when, joinPath(path, "when"));
+        }
+
+        let technique = parentTechnique;
+        if (typeof style.technique === "string") {
+            if (!this.m_types.techniqueAttributes.hasOwnProperty(style.technique)) {
+                this.addError(
+                    joinPath(path, "technique"),
+                    `unknown technique '${style.technique}'`
+                );
+            } else {
+                technique = style.technique;
+            }
+        }
+
+        if (isObject(style.attr)) {
+            this.validateAttributes(style.attr, joinPath(path, "attr"), technique);
+        }
+
+        if (Array.isArray(style.styles)) {
+            style.styles.forEach((subStyle: any, i: number) => {
+                this.validateStyle(subStyle, `${joinPath(path, "styles")}[${i}]`, technique);
+            });
+        }
+    }
+
+    private validateAttributes(attr: any, path: string, technique: string | undefined) {
+        const attributes =
+            technique !== undefined ? this.m_types.techniqueAttributes[technique] : undefined;
+        if (technique !== undefined && attributes === undefined) {
+            return;
+        }
+        for (const name of Object.keys(attr)) {
+            const value = attr[name];
+            const attrPath = joinPath(path, name);
+            const type = attributes !== undefined ? attributes[name] : this.findAnyAttribute(name);
+            if (type === undefined) {
+                this.addError(
+                    attrPath,
+                    technique !== undefined
+                        ? `unknown attribute '${name}' for technique '${technique}'`
+                        : `unknown attribute '${name}'`
+                );
+                continue;
+            }
+            if (name === "featureStates" && isObject(value)) {
+                for (const state of Object.keys(value)) {
+                    if (isObject(value[state])) {
+                        this.validateFeatureState(
+                            value[state],
+                            joinPath(attrPath, state),
+                            technique
+                        );
+                    } else {
+                        this.addError(joinPath(attrPath, state), "feature state must be an object");
+                    }
+                }
+                continue;
+            }
+            if (name === "extrusionMappings" && isObject(value)) {
+                for (const mapping of Object.keys(value)) {
+                    this.validateExtrusionMapping(value[mapping], joinPath(attrPath, mapping));
+                }
+                continue;
+            }
+            if (name === "colorRamp" && Array.isArray(value)) {
+                value.forEach((stop: any, i: number) => {
+                    this.validateColorStop(stop, `${attrPath}[${i}]`);
+                });
+                continue;
+            }
+            if (isExpressionPropertyDefinition(value)) {
+                this.checkExpression(value.expr, joinPath(attrPath, "expr"));
+                continue;
+            }
+            if (type.interpolated === true && isObject(value) && !Array.isArray(value)) {
+                if (!isInterpolatedPropertyDefinition(value)) {
+                    this.addError(
+                        attrPath,
+                        "interpolated property needs 'zoomLevels' and 'values' of equal length"
+                    );
+                    continue;
+                }
+                value.values.forEach((v: any, i: number) => {
+                    this.checkType(v, type, `${joinPath(attrPath, "values")}[${i}]`);
+                });
+                continue;
+            }
+            this.checkType(value, type, attrPath);
+        }
+
+        this.checkReference(attr.style, this.m_textStyleNames, "text style", path, "style");
+        this.checkReference(attr.poiTable, this.m_poiTableNames, "POI table", path, "poiTable");
+        // Textured lines may also refer to the images of the theme directly.
+        const isImageName =
+            technique === "textured-line" &&
+            isObject(this.theme.images) &&
+            (this.theme.images as any)[attr.imageTexture] !== undefined;
+        if (!this.m_hasImageAtlas && !isImageName) {
+            this.checkReference(
+                attr.imageTexture,
+                this.m_imageTextureNames,
+                "image texture",
+                path,
+                "imageTexture"
+            );
+        }
+    }
+
+    private checkReference(
+        value: any,
+        names: Set<string>,
+        kind: string,
+        path: string,
+        name: string
+    ) {
+        if (typeof value === "string" && !names.has(value)) {
+            this.addError(joinPath(path, name), `undefined ${kind} '${value}'`);
+        }
+    }
+
+    private checkProperties(object: any, properties: ValueTypes, path: string) {
+        for (const name of Object.keys(object)) {
+            const type = properties[name];
+            const propertyPath = joinPath(path, name);
+            if (type === undefined) {
+                this.addError(propertyPath, `unknown property '${name}'`);
+            } else {
+                this.checkType(object[name], type, propertyPath);
+            }
+        }
+    }
+
+    private validateFeatureState(state: any, path: string, technique: string | undefined) {
+        const attributes = this.m_types.featureStateAttributes;
+        const stateAttributes: any = {};
+        for (const name of Object.keys(state)) {
+            if (attributes[name] === undefined) {
+                this.addError(
+                    joinPath(path, name),
+                    `attribute '${name}' cannot be changed by a feature state`
+                );
+            } else {
+                stateAttributes[name] = state[name];
+            }
+        }
+        this.validateAttributes(stateAttributes, path, technique);
+    }
+
+    private validateExtrusionMapping(mapping: any, path: string) {
+        if (!isObject(mapping)) {
+            this.addError(path, "extrusion mapping must be an object");
+            return;
+        }
+        for (const name of this.m_types.requiredExtrusionMappingAttributes) {
+            if (mapping[name] === undefined) {
+                this.addError(joinPath(path, name), `extrusion mapping needs a '${name}'`);
+            }
+        }
+        for (const name of Object.keys(mapping)) {
+            const value = mapping[name];
+            const attrPath = joinPath(path, name);
+            const type = this.m_types.extrusionMappingAttributes[name];
+            if (type === undefined) {
+                this.addError(attrPath, `unknown attribute '${name}' for extrusion mapping`);
+            } else if (isExpressionPropertyDefinition(value)) {
+                this.checkExpression(value.expr, joinPath(attrPath, "expr"));
+            } else {
+                this.checkType(value, type, attrPath);
+            }
+        }
+    }
+
+    private validateColorStop(stop: any, path: string) {
+        if (!isObject(stop) || Array.isArray(stop)) {
+            this.addError(path, "color stop must be an object");
+            return;
+        }
+        for (const name of Object.keys(stop)) {
+            if (name !== "density" && name !== "color") {
+                this.addError(joinPath(path, name), `unknown attribute '${name}' for color stop`);
+            }
+        }
+        if (typeof stop.density !== "number") {
+            this.addError(joinPath(path, "density"), "color stop needs a numeric 'density'");
+        }
+        const colorPath = joinPath(path, "color");
+        if (stop.color === undefined) {
+            this.addError(colorPath, "color stop needs a 'color'");
+        } else if (isInterpolatedPropertyDefinition(stop.color)) {
+            stop.color.values.forEach((v: any, i: number) => {
+                this.checkType(v, colorType, `${joinPath(colorPath, "values")}[${i}]`);
+            });
+        } else {
+            this.checkType(stop.color, colorType, colorPath);
+        }
+    }
+
+    private checkType(value: any, type: ValueType, path: string) {
+        if (value === undefined) {
+            return;
+        }
+        let valid: boolean;
+        let expected: string;
+        if (type.color === true) {
+            valid = typeof value === "string" || typeof value === "number";
+            expected = "color string";
+        } else if (type.values !== undefined) {
+            valid = type.values.indexOf(value) !== -1;
+            expected = `one of ${type.values.map(v => `'${v}'`).join(", ")}`;
+        } else {
+            valid = type.types.length === 0 || type.types.some(name => hasType(value, name));
+            expected = type.types.join(" or ");
+        }
+        if (!valid) {
+            this.addError(path, `expected ${expected}, found ${JSON.stringify(value)}`);
+        } else if (type.items !== undefined && Array.isArray(value)) {
+            value.forEach((item, i) => {
+                this.checkType(item, type.items!, `${path}[${i}]`);
+            });
+        }
+    }
+
+    private checkExpression(code: string, path: string) {
+        try {
+            new Parser(code).parse();
+        } catch (error) {
+            this.addError(path, `cannot parse expression '${code}': ${error.message}`);
+        }
+    }
+
+    // Looks up an attribute in all techniques, used for styles without technique.
+    private findAnyAttribute(name: string): ValueType | undefined {
+        const techniqueAttributes = this.m_types.techniqueAttributes;
+        for (const technique of Object.keys(techniqueAttributes)) {
+            const attributes = techniqueAttributes[technique];
+            if (attributes !== undefined && attributes[name] !== undefined) {
+                return attributes[name];
+            }
+        }
+        return undefined;
+    }
+
+    private addError(path: string, message: string) {
+        this.m_errors.push({ path, message });
+    }
+}
+
+function hasType(value: any, type: string): boolean {
+    switch (type) {
+        case "object":
+            return isObject(value) && !Array.isArray(value);
+        case "array":
+            return Array.isArray(value);
+        case "null":
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function isObject(value: any): boolean {
+    return typeof value === "object" && value !== null;
+}
+
+function joinPath(path: string, name: string): string {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : `["${name}"]`;
+    return path.length === 0 ? key : key.startsWith("[") ? path + key : `${path}.${key}`;
+}
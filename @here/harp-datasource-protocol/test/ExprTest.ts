@@ -0,0 +1,98 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import { Expr, MapEnv } from "../lib/Expr";
+
+describe("Expr", function() {
+    const env = new MapEnv({
+        height: 20,
+        population: 45000,
+        lanes: "3",
+        name: "Invalidenstraße",
+        ref: "B96"
+    });
+
+    function evaluate(code: string) {
+        return Expr.parse(code).evaluate(env);
+    }
+
+    it("evaluates arithmetic operators", function() {
+        assert.equal(evaluate("height * 1.5"), 30);
+        assert.equal(evaluate("height + 2 * 3"), 26);
+        assert.equal(evaluate("(height + 2) * 3"), 66);
+        assert.equal(evaluate("height - 5 - 5"), 10);
+        assert.equal(evaluate("height / 8"), 2.5);
+        assert.equal(evaluate("height % 6"), 2);
+        assert.equal(evaluate("-height + 1"), -19);
+    });
+
+    it("returns undefined for arithmetic on non-numbers", function() {
+        assert.isUndefined(evaluate("lanes * 2"));
+        assert.isUndefined(evaluate("missing + 1"));
+    });
+
+    it("binds arithmetic stronger than comparisons", function() {
+        assert.isTrue(evaluate("height * 2 > 30"));
+        assert.isTrue(evaluate("height - 20 == 0 && population / 1000 >= 45"));
+    });
+
+    it("calls numeric functions", function() {
+        assert.equal(evaluate("min(population / 1000, 20)"), 20);
+        assert.equal(evaluate("max(height, 50)"), 50);
+        assert.equal(evaluate("pow(2, 3)"), 8);
+        assert.equal(evaluate("round(2.5)"), 3);
+        assert.isUndefined(evaluate("min(height, name)"));
+    });
+
+    it("calls conversion functions", function() {
+        assert.equal(evaluate("to-number(lanes) * 2"), 6);
+        assert.equal(evaluate("to-number(name, height)"), 20);
+        assert.isUndefined(evaluate("to-number(name)"));
+        assert.equal(evaluate("to-string(height)"), "20");
+        assert.isTrue(evaluate("to-boolean(ref)"));
+    });
+
+    it("calls string functions", function() {
+        assert.equal(evaluate("concat(name, ' ', ref)"), "Invalidenstraße B96");
+        assert.equal(evaluate("coalesce(name_en, name)"), "Invalidenstraße");
+        assert.equal(evaluate("upcase(ref)"), "B96");
+        assert.equal(evaluate("downcase(ref)"), "b96");
+        assert.equal(evaluate("length(ref)"), 3);
+    });
+
+    it("matches values", function() {
+        assert.equal(
+            evaluate("match(ref, 'A1', 'motorway', 'B96', 'federal', 'other')"),
+            "federal"
+        );
+        assert.equal(evaluate("match(name, 'A1', 'motorway', 'other')"), "other");
+        assert.isUndefined(evaluate("match(name, 'A1', 'motorway')"));
+    });
+
+    it("interpolates between stops", function() {
+        assert.equal(evaluate("interpolate(to-number(lanes), 1, 2, 5, 10)"), 6);
+        assert.equal(evaluate("interpolate(height, 1, 2, 5, 10)"), 10);
+        assert.equal(evaluate("interpolate(0, 1, 2, 5, 10)"), 2);
+        assert.isUndefined(evaluate("interpolate(name, 1, 2, 5, 10)"));
+        assert.equal(evaluate("interpolate(3, 1, '#000000', 5, '#ff0000')"), "#7f0000");
+        assert.equal(evaluate("interpolate(0, 1, '#000000', 5, '#ff0000')"), "#000000");
+        assert.isUndefined(evaluate("interpolate(3, 1, '#000000', 5, 10)"));
+    });
+
+    it("distinguishes hyphenated function names from subtraction", function() {
+        const subtraction = new MapEnv({ to: 10, number: 4 });
+        assert.equal(Expr.parse("to-number").evaluate(subtraction), 6);
+        assert.equal(Expr.parse("to - number").evaluate(subtraction), 6);
+    });
+
+    it("rejects unknown functions", function() {
+        assert.throws(() => Expr.parse("foo(height)"), /Unknown function 'foo'/);
+    });
+});
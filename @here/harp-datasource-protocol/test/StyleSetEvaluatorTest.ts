@@ -9,6 +9,7 @@
 
 import { assert } from "chai";
 import { MapEnv } from "../lib/Expr";
+import { getPropertyValue, isInterpolatedProperty } from "../lib/InterpolatedProperty";
 import { StyleSetEvaluator } from "../lib/StyleSetEvaluator";
 import { Style } from "../lib/Theme";
 
@@ -158,4 +159,154 @@ describe("StyleSetEvaluator", function() {
         assert.equal(parsedStyles[0].renderOrder, 0);
         assert.equal(parsedStyles[1].renderOrder, 1001);
     });
+
+    it("computes technique attributes from expressions", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "solid-line",
+                when: "kind == 'road'",
+                attr: {
+                    color: "#f00",
+                    lineWidth: { expr: "to-number(lanes) * 2" }
+                }
+            }
+        ]);
+        const first = ev.getMatchingTechniques(new MapEnv({ kind: "road", lanes: "2" }));
+        const second = ev.getMatchingTechniques(new MapEnv({ kind: "road", lanes: "3" }));
+        const third = ev.getMatchingTechniques(new MapEnv({ kind: "road", lanes: "2" }));
+
+        assert.equal(first.length, 1);
+        assert.deepNestedInclude(first[0], { name: "solid-line", color: "#f00", lineWidth: 4 });
+        assert.deepNestedInclude(second[0], { name: "solid-line", color: "#f00", lineWidth: 6 });
+        assert.notEqual(first[0]._index, second[0]._index);
+        assert.strictEqual(first[0], third[0]);
+        assert.equal(ev.techniques.length, 2);
+    });
+
+    it("only keeps the techniques used since the last reset", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "solid-line",
+                when: "kind == 'road'",
+                attr: { lineWidth: { expr: "to-number(lanes) * 2" } }
+            },
+            { technique: "fill", when: "kind == 'park'", attr: { color: "#0f0" } }
+        ]);
+        const road = ev.getMatchingTechniques(new MapEnv({ kind: "road", lanes: "2" }));
+        const park = ev.getMatchingTechniques(new MapEnv({ kind: "park" }));
+        const firstTechniques = ev.techniques;
+        assert.deepEqual(firstTechniques, [road[0], park[0]]);
+
+        ev.resetTechniques();
+        assert.equal(ev.techniques.length, 0);
+        const otherPark = ev.getMatchingTechniques(new MapEnv({ kind: "park" }));
+        const otherRoad = ev.getMatchingTechniques(new MapEnv({ kind: "road", lanes: "3" }));
+        assert.deepEqual(ev.techniques, [otherPark[0], otherRoad[0]]);
+        assert.equal(otherPark[0]._index, 0);
+        assert.equal(otherRoad[0]._index, 1);
+        assert.equal((otherRoad[0] as any).lineWidth, 6);
+
+        // Techniques handed out before the reset are not modified.
+        assert.deepEqual(firstTechniques, [road[0], park[0]]);
+        assert.equal(road[0]._index, 0);
+        assert.equal(park[0]._index, 1);
+        assert.equal(park[0]._styleSetIndex, otherPark[0]._styleSetIndex);
+    });
+
+    it("stores colors computed from expressions per vertex", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "fill",
+                when: "kind == 'park' || kind == 'forest'",
+                attr: { color: { expr: "match(kind, 'park', '#0f0', '#060')" } }
+            }
+        ]);
+        const parkEnv = new MapEnv({ kind: "park" });
+        const forestEnv = new MapEnv({ kind: "forest" });
+        const park = ev.getMatchingTechniques(parkEnv);
+        const forest = ev.getMatchingTechniques(forestEnv);
+
+        assert.strictEqual(park[0], forest[0]);
+        assert.isTrue((park[0] as any).vertexColors);
+        assert.isUndefined((park[0] as any).color);
+        assert.equal(ev.getVertexColor(park[0], parkEnv), "#0f0");
+        assert.equal(ev.getVertexColor(forest[0], forestEnv), "#060");
+    });
+
+    it("evaluates the extrusion mappings of extruded polygons", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "extruded-polygon",
+                when: "1",
+                attr: {
+                    extrusionMappings: {
+                        population: {
+                            height: { expr: "population / 10" },
+                            color: { expr: "match(kind, 'dense', '#f00', '#0f0')" }
+                        },
+                        flat: { height: 1 }
+                    }
+                }
+            }
+        ]);
+        const env = new MapEnv({ kind: "dense", population: 500 });
+        const techniques = ev.getMatchingTechniques(env);
+
+        assert.isTrue((techniques[0] as any).vertexColors);
+        assert.deepEqual(ev.getExtrusionMappings(techniques[0], env), [
+            { name: "population", height: 50, color: "#f00" },
+            { name: "flat", height: 1, color: undefined }
+        ]);
+    });
+
+    it("interpolates the colors of heatmap color ramps", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "heatmap",
+                when: "1",
+                attr: {
+                    colorRamp: [
+                        { density: 0.5, color: "#00f" },
+                        {
+                            density: 1,
+                            color: { zoomLevels: [5, 15], values: ["#ff0000", "#ffff00"] }
+                        }
+                    ]
+                }
+            }
+        ]);
+        const techniques = ev.getMatchingTechniques(new MapEnv({}));
+        const colorRamp = (techniques[0] as any).colorRamp;
+
+        assert.equal(colorRamp[0].color, "#00f");
+        assert.isTrue(isInterpolatedProperty(colorRamp[1].color));
+        assert.equal(getPropertyValue(colorRamp[1].color, 15), "#ffff00");
+    });
+
+    it("interpolates the attributes of feature states", function() {
+        const ev = new StyleSetEvaluator([
+            {
+                technique: "fill",
+                when: "1",
+                attr: {
+                    featureStates: {
+                        selected: {
+                            color: "#f00",
+                            opacity: {
+                                zoomLevels: [10, 20],
+                                values: [0, 1],
+                                interpolation: "Linear"
+                            }
+                        }
+                    }
+                }
+            }
+        ]);
+        const techniques = ev.getMatchingTechniques(new MapEnv({}));
+        const selected = techniques[0].featureStates!.selected;
+
+        assert.equal(selected.color, "#f00");
+        assert.isTrue(isInterpolatedProperty(selected.opacity));
+        assert.closeTo(getPropertyValue(selected.opacity, 15)!, 0.5, 1e-6);
+    });
 });
@@ -0,0 +1,350 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { loadTestResource } from "@here/harp-test-utils";
+import { assert } from "chai";
+import { Theme } from "../lib/Theme";
+import { ThemeSchema, ThemeValidationError, ThemeValidator } from "../lib/ThemeValidator";
+
+let schema: ThemeSchema;
+
+function validate(theme: any): ThemeValidationError[] {
+    return new ThemeValidator(theme as Theme, schema).validate();
+}
+
+function paths(errors: ThemeValidationError[]): string[] {
+    return errors.map(error => error.path);
+}
+
+describe("ThemeValidator", function() {
+    before(async function() {
+        schema = await loadTestResource(
+            "@here/harp-datasource-protocol",
+            "theme.schema.json",
+            "json"
+        );
+    });
+
+    it("accepts a valid theme", function() {
+        const theme: any = {
+            clearColor: "#f8fbfd",
+            textStyles: [{ name: "smallSign", size: 10 }],
+            images: { icons: { url: "icons.png", preload: true } },
+            imageTextures: [{ name: "park", image: "icons" }],
+            poiTables: [{ name: "pois", url: "pois.json" }],
+            styles: {
+                tilezen: [
+                    {
+                        when: "$geometryType == 'polygon' && kind == 'park'",
+                        technique: "fill",
+                        attr: {
+                            color: {
+                                interpolation: "Linear",
+                                zoomLevels: [10, 15],
+                                values: ["#0f0", "#0a0"]
+                            },
+                            lineWidth: 1
+                        }
+                    },
+                    {
+                        when: "kind == 'road'",
+                        technique: "solid-line",
+                        attr: { lineWidth: { expr: "max(1, width * 2)" }, metricUnit: "Pixel" }
+                    },
+                    {
+                        when: "$geometryType == 'point'",
+                        technique: "labeled-icon",
+                        attr: { style: "smallSign", imageTexture: "park", poiTable: "pois" }
+                    },
+                    {
+                        when: "$layer == 'places'",
+                        styles: [{ when: "kind == 'city'", technique: "text", attr: { size: 12 } }]
+                    }
+                ]
+            }
+        };
+        assert.deepEqual(validate(theme), []);
+    });
+
+    it("reports unknown properties and techniques", function() {
+        const errors = validate({
+            colour: "#fff",
+            styles: {
+                tilezen: [
+                    { when: "1", technique: "fil" },
+                    { when: "1", technique: "fill", atr: {} }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "colour",
+            "styles.tilezen[0].technique",
+            "styles.tilezen[1].atr"
+        ]);
+        assert.include(errors[1].message, "unknown technique 'fil'");
+    });
+
+    it("reports unknown attributes of the technique", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    { when: "1", technique: "fill", attr: { dashSize: 2 } },
+                    {
+                        when: "1",
+                        technique: "dashed-line",
+                        styles: [{ when: "1", attr: { dashSize: 2, lineWidht: 3 } }]
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].attr.dashSize",
+            "styles.tilezen[1].styles[0].attr.lineWidht"
+        ]);
+        assert.include(errors[1].message, "for technique 'dashed-line'");
+    });
+
+    it("reports values of the wrong type", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "solid-line",
+                        final: "yes",
+                        attr: {
+                            lineWidth: "2",
+                            metricUnit: "Inch",
+                            color: { interpolation: "Linear", zoomLevels: [1, 2], values: [1] },
+                            opacity: { interpolation: "Linear", zoomLevels: [1], values: ["a"] }
+                        }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].final",
+            "styles.tilezen[0].attr.lineWidth",
+            "styles.tilezen[0].attr.metricUnit",
+            "styles.tilezen[0].attr.color",
+            "styles.tilezen[0].attr.opacity.values[0]"
+        ]);
+    });
+
+    it("reports expressions that cannot be parsed", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    { when: "kind ==", technique: "fill" },
+                    { when: "1", technique: "fill", attr: { color: { expr: "unknown(kind)" } } }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].when",
+            "styles.tilezen[1].attr.color.expr"
+        ]);
+        assert.include(errors[1].message, "Unknown function 'unknown'");
+    });
+
+    it("reports undefined references", function() {
+        const errors = validate({
+            textStyles: [{ name: "smallSign" }],
+            images: {},
+            imageTextures: [{ name: "park", image: "icons" }],
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "labeled-icon",
+                        attr: { style: "bigSign", imageTexture: "forest", poiTable: "pois" }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "imageTextures[0].image",
+            "styles.tilezen[0].attr.style",
+            "styles.tilezen[0].attr.poiTable",
+            "styles.tilezen[0].attr.imageTexture"
+        ]);
+        assert.include(errors[1].message, "undefined text style 'bigSign'");
+    });
+
+    it("reports invalid extrusion mappings", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "extruded-polygon",
+                        attr: {
+                            extrusionMappings: {
+                                population: { height: { expr: "population *" }, colour: "#f00" },
+                                flat: { color: true }
+                            }
+                        }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].attr.extrusionMappings.population.height.expr",
+            "styles.tilezen[0].attr.extrusionMappings.population.colour",
+            "styles.tilezen[0].attr.extrusionMappings.flat.height",
+            "styles.tilezen[0].attr.extrusionMappings.flat.color"
+        ]);
+    });
+
+    it("reports feature states changing other attributes than color and opacity", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "solid-line",
+                        attr: {
+                            featureStates: {
+                                hover: {
+                                    color: { zoomLevels: [10, 15], values: ["#f00", "#ff0"] },
+                                    opacity: 0.5
+                                },
+                                selected: { lineWidth: 4, opacity: "0.5" },
+                                hidden: true
+                            }
+                        }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].attr.featureStates.selected.lineWidth",
+            "styles.tilezen[0].attr.featureStates.selected.opacity",
+            "styles.tilezen[0].attr.featureStates.hidden"
+        ]);
+    });
+
+    it("reports invalid heatmap color ramps", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "heatmap",
+                        attr: {
+                            radius: {
+                                interpolation: "Linear",
+                                zoomLevels: [5, 15],
+                                values: [10, 40]
+                            },
+                            weightProperty: "population",
+                            colorRamp: [
+                                { density: 0.5, color: "#00f" },
+                                {
+                                    density: 1,
+                                    color: { zoomLevels: [5, 15], values: ["#f00", "#ff0"] }
+                                },
+                                { color: "#0f0", opacity: 1 },
+                                "#fff"
+                            ]
+                        }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[0].attr.colorRamp[2].opacity",
+            "styles.tilezen[0].attr.colorRamp[2].density",
+            "styles.tilezen[0].attr.colorRamp[3]"
+        ]);
+    });
+
+    it("accepts images as the texture of textured lines", function() {
+        const errors = validate({
+            images: { arrows: { url: "arrows.png" } },
+            imageTextures: [{ name: "oneway", image: "arrows", width: 32 }],
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "textured-line",
+                        attr: { imageTexture: "oneway", lineWidth: 8, patternSpacing: 20 }
+                    },
+                    {
+                        when: "1",
+                        technique: "textured-line",
+                        attr: { imageTexture: "arrows", lineWidth: 8, patternOffset: "10" }
+                    },
+                    {
+                        when: "1",
+                        technique: "textured-line",
+                        attr: { imageTexture: "railway", lineWidth: 8 }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[1].attr.patternOffset",
+            "styles.tilezen[2].attr.imageTexture"
+        ]);
+    });
+
+    it("validates caps and joins of lines", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "solid-line",
+                        attr: { lineWidth: 2, offset: 4, caps: "Square", joins: "Bevel" }
+                    },
+                    {
+                        when: "1",
+                        technique: "dashed-line",
+                        attr: { lineWidth: 2, caps: "Circle", joins: "Miter" }
+                    },
+                    {
+                        when: "1",
+                        technique: "extruded-line",
+                        attr: { color: "#f00", lineWidth: 2, caps: "Circle", joins: "Round" }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), ["styles.tilezen[1].attr.caps"]);
+    });
+
+    it("validates text anchors of markers", function() {
+        const errors = validate({
+            styles: {
+                tilezen: [
+                    {
+                        when: "1",
+                        technique: "labeled-icon",
+                        attr: { textAnchors: ["TopRight", "Left", "Bottom"] }
+                    },
+                    {
+                        when: "1",
+                        technique: "labeled-icon",
+                        attr: { textAnchors: ["Top", "Above"] }
+                    },
+                    {
+                        when: "1",
+                        technique: "labeled-icon",
+                        attr: { textAnchors: "Top" }
+                    }
+                ]
+            }
+        });
+        assert.deepEqual(paths(errors), [
+            "styles.tilezen[1].attr.textAnchors[1]",
+            "styles.tilezen[2].attr.textAnchors"
+        ]);
+    });
+});
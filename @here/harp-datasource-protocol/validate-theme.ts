@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+// tslint:disable:no-console
+
+import * as fs from "fs";
+import * as path from "path";
+import { ThemeSchema, ThemeValidator } from "./lib/ThemeValidator";
+
+/**
+ * Validates theme files, for use in CI:
+ *
+ *     harp-validate-theme resources/berlin_tilezen_base.json [more themes...]
+ *
+ * Themes are checked against the `theme.schema.json` of this package. Prints the issues found and
+ * exits with code 1 if any theme is invalid.
+ */
+function main(files: string[]): number {
+    if (files.length === 0) {
+        console.error("usage: harp-validate-theme <theme.json> [theme.json...]");
+        return 2;
+    }
+    const schemaFile = path.join(__dirname, "theme.schema.json");
+    let schema: ThemeSchema;
+    try {
+        schema = JSON.parse(fs.readFileSync(schemaFile, "utf8"));
+    } catch (error) {
+        console.error(`${schemaFile}: ${error.message}, run 'yarn generate-json-schema'`);
+        return 2;
+    }
+    let errorCount = 0;
+    for (const file of files) {
+        let theme: any;
+        try {
+            theme = JSON.parse(fs.readFileSync(file, "utf8"));
+        } catch (error) {
+            console.error(`${file}: ${error.message}`);
+            ++errorCount;
+            continue;
+        }
+        for (const error of new ThemeValidator(theme, schema).validate()) {
+            console.error(`${file}: ${error.path}: ${error.message}`);
+            ++errorCount;
+        }
+    }
+    return errorCount > 0 ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
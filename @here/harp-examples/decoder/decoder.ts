@@ -12,7 +12,9 @@ self.importScripts("three.min.js");
 
 import { GeoJsonTileDecoderService } from "@here/harp-geojson-datasource/index-worker";
 import { OmvTileDecoderService, OmvTilerService } from "@here/harp-omv-datasource/index-worker";
+import { DemTileDecoderService } from "@here/harp-terrain-datasource/index-worker";
 
 OmvTileDecoderService.start();
 OmvTilerService.start();
 GeoJsonTileDecoderService.start();
+DemTileDecoderService.start();
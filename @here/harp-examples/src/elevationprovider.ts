@@ -83,12 +83,13 @@ class SceneElevationProvider implements ElevationProvider {
         return (bestResult.point as THREE.Vector3).add(this.m_mapView.worldCenter);
     }
 
+    // No displacement maps are provided, so the map is not draped over the scene.
     getDisplacementMap(tileKey: TileKey): DisplacementMap | undefined {
-        throw new Error("Not yet implemented");
+        return undefined;
     }
 
     getTilingSceme(): TilingScheme | undefined {
-        throw new Error("Not yet implemented");
+        return undefined;
     }
 }
 
@@ -16,12 +16,43 @@ declare const global: any;
 
 class AbortSignal {
     aborted = false;
+    onabort: ((event: Event) => void) | null = null;
+    private m_listeners: Array<(event: Event) => void> = [];
+
+    addEventListener(type: string, listener: (event: Event) => void) {
+        if (type === "abort" && this.m_listeners.indexOf(listener) === -1) {
+            this.m_listeners.push(listener);
+        }
+    }
+
+    removeEventListener(type: string, listener: (event: Event) => void) {
+        const index = this.m_listeners.indexOf(listener);
+        if (type === "abort" && index !== -1) {
+            this.m_listeners.splice(index, 1);
+        }
+    }
+
+    dispatchEvent(event: Event): boolean {
+        if (event.type === "abort") {
+            if (this.onabort !== null) {
+                this.onabort(event);
+            }
+            for (const listener of this.m_listeners.slice()) {
+                listener(event);
+            }
+        }
+        return true;
+    }
 }
 
 class AbortController {
     signal = new AbortSignal();
     abort() {
-        this.signal.aborted = true;
+        if (!this.signal.aborted) {
+            this.signal.aborted = true;
+            // Node.js has no `Event` class, so the listeners get a plain object.
+            this.signal.dispatchEvent(({ type: "abort", target: this.signal } as any) as Event);
+        }
     }
 }
 
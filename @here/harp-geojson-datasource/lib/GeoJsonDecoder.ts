@@ -116,6 +116,9 @@ class GeoJsonDecoder {
             writer: tileInfoWriter
         };
 
+        // The decoded tile only gets the techniques used by its features.
+        this.m_styleSetEvaluator.resetTechniques();
+
         const geometries: GeoJsonTileGeometries = GeoJsonGeometryCreator.createGeometries(
             data,
             center,
@@ -251,7 +251,7 @@ export class GeoJsonGeometryCreator {
         geometryData: GeometryData,
         techniqueIndex: number
     ): GeoJsonGeometry {
-        return {
+        const geometry: GeoJsonGeometry = {
             type: GeometryType.Point,
             vertexAttributes: [
                 {
@@ -270,6 +270,17 @@ export class GeoJsonGeometryCreator {
             ],
             objInfos: geometryData.points.geojsonProperties
         };
+
+        if (geometryData.points.weights.length > 0) {
+            geometry.vertexAttributes.push({
+                name: "weight",
+                buffer: new Float32Array(geometryData.points.weights).buffer as ArrayBuffer,
+                itemCount: 1,
+                type: "float"
+            });
+        }
+
+        return geometry;
     }
 
     private static createSolidLineGeometry(
@@ -352,7 +363,7 @@ export class GeoJsonGeometryCreator {
                 }
             }
 
-            featureStarts.push(indices.length / 3);
+            featureStarts.push(indices.length);
             // featureIds should be the id of the feature, but for geoJSON datasource we do not have
             // it in integers, and we do not use them. Therefore, zeroes are added.
             featureIds.push(0);
@@ -455,7 +466,7 @@ export class GeoJsonGeometryCreator {
                 }
             }
 
-            featureStarts.push(indices.length / 3);
+            featureStarts.push(indices.length);
             // featureIds should be the id of the feature, but for geoJSON datasource we do not have
             // it in integers, and we do not use them. Therefore, zeroes are added.
             featureIds.push(0);
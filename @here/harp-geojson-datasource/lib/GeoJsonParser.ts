@@ -14,10 +14,12 @@ import {
     isCirclesTechnique,
     isDashedLineTechnique,
     isFillTechnique,
+    isHeatmapTechnique,
     isPoiTechnique,
     isSolidLineTechnique,
     isSquaresTechnique,
     isTextTechnique,
+    isTexturedLineTechnique,
     LineFeatureGroup
 } from "@here/harp-datasource-protocol";
 import { MapEnv, StyleSetEvaluator, Value } from "@here/harp-datasource-protocol/index-decoder";
@@ -44,6 +46,10 @@ export interface PolygonsData {
 interface PointsData {
     vertices: number[];
     geojsonProperties: Array<{} | undefined>;
+    /**
+     * Weights of the points of a heatmap, only filled if the technique has a `weightProperty`.
+     */
+    weights: number[];
 }
 
 /**
@@ -74,7 +80,7 @@ export class GeometryData {
      */
     labelProperty?: string;
     type: string | undefined;
-    points: PointsData = { vertices: [], geojsonProperties: [] };
+    points: PointsData = { vertices: [], geojsonProperties: [], weights: [] };
     lines: LinesData = { vertices: [], geojsonProperties: [] };
     polygons: PolygonsData[] = [];
 }
@@ -193,14 +199,19 @@ export class GeoJsonParser {
                             buffers.textGeometryBuffer,
                             feature.properties
                         );
-                    } else if (isCirclesTechnique(technique) || isSquaresTechnique(technique)) {
+                    } else if (
+                        isCirclesTechnique(technique) ||
+                        isSquaresTechnique(technique) ||
+                        isHeatmapTechnique(technique)
+                    ) {
                         this.processPoints(
                             [feature.geometry.coordinates],
                             center,
                             projection,
                             techniqueIndex,
                             buffers.geometryBuffer,
-                            feature.properties
+                            feature.properties,
+                            isHeatmapTechnique(technique) ? technique.weightProperty : undefined
                         );
                     }
                 }
@@ -229,14 +240,19 @@ export class GeoJsonParser {
                             buffers.textGeometryBuffer,
                             feature.properties
                         );
-                    } else if (isCirclesTechnique(technique) || isSquaresTechnique(technique)) {
+                    } else if (
+                        isCirclesTechnique(technique) ||
+                        isSquaresTechnique(technique) ||
+                        isHeatmapTechnique(technique)
+                    ) {
                         this.processPoints(
                             feature.geometry.coordinates,
                             center,
                             projection,
                             techniqueIndex,
                             buffers.geometryBuffer,
-                            feature.properties
+                            feature.properties,
+                            isHeatmapTechnique(technique) ? technique.weightProperty : undefined
                         );
                     }
                 }
@@ -268,7 +284,10 @@ export class GeoJsonParser {
                             buffers.textPathGeometryBuffer,
                             feature.properties
                         );
-                    } else if (isDashedLineTechnique(technique)) {
+                    } else if (
+                        isDashedLineTechnique(technique) ||
+                        isTexturedLineTechnique(technique)
+                    ) {
                         this.processDashedLines(
                             extendedTile,
                             [feature.geometry.coordinates],
@@ -399,11 +418,21 @@ export class GeoJsonParser {
         projection: Projection,
         techniqueIndex: number,
         geometryBuffer: Map<number, GeometryData>,
-        geojsonProperties?: {}
+        geojsonProperties?: {},
+        weightProperty?: string
     ): void {
         const buffer = this.findOrCreateGeometryBuffer(techniqueIndex, geometryBuffer);
         buffer.type = "point";
 
+        let weight: number | undefined;
+        if (weightProperty !== undefined) {
+            const weightValue =
+                geojsonProperties !== undefined
+                    ? (geojsonProperties as any)[weightProperty]
+                    : undefined;
+            weight = typeof weightValue === "number" ? weightValue : 0;
+        }
+
         for (const location of pointLocations) {
             this.m_cached_geoCoord.latitude = location[1];
             this.m_cached_geoCoord.longitude = location[0];
@@ -416,6 +445,9 @@ export class GeoJsonParser {
             );
             const pointIndex = buffer.points.vertices.length / 3 - 1;
             buffer.points.geojsonProperties[pointIndex] = geojsonProperties;
+            if (weight !== undefined) {
+                buffer.points.weights[pointIndex] = weight;
+            }
         }
     }
 
@@ -241,6 +241,8 @@ export class GeoJsonTile extends Tile {
         textElement.mayOverlap = mayOverlap;
         textElement.reserveSpace = reserveSpace;
         textElement.distanceScale = distanceScale;
+        textElement.repeatDistance = technique.repeatDistance;
+        textElement.maxAngleBetweenGlyphs = technique.maxAngleBetweenGlyphs;
 
         this.addUserTextElement(textElement);
     }
@@ -415,6 +417,7 @@ export class GeoJsonTile extends Tile {
         textElement.reserveSpace = reserveSpace;
         textElement.distanceScale = distanceScale;
         textElement.alwaysOnTop = alwaysOnTop;
+        textElement.textAnchors = technique.textAnchors;
 
         const textIsOptional =
             technique.textIsOptional === undefined
@@ -45,7 +45,8 @@ const TEST_JSON: GeoJson = {
                 coordinates: [10, 20] // Random coordinates.
             },
             properties: {
-                name: "blabla"
+                name: "blabla",
+                population: 42
             }
         },
         {
@@ -245,6 +246,22 @@ describe("@here-geojson-datasource", () => {
         ]);
     });
 
+    it("stores the weights of heatmap points", async () => {
+        const styleSet: StyleSet = [
+            {
+                when: "type == 'point'",
+                technique: "heatmap",
+                attr: { weightProperty: "population" }
+            }
+        ];
+        const decodedTile = await getDecodedTile(styleSet);
+
+        const pointGeometry = decodedTile.geometries.find(o => o.type === GeometryType.Point)!;
+        const weights = pointGeometry.vertexAttributes.find(attr => attr.name === "weight");
+        assert.isDefined(weights);
+        assert.deepEqual(Array.from(new Float32Array(weights!.buffer)), [42]);
+    });
+
     it("tests GeoJsonTile text generation", async () => {
         class FakeDataProvider implements DataProvider {
             ready(): boolean {
@@ -4,4 +4,5 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./lib/OrientedBox2";
 export * from "./lib/OrientedBox3";
@@ -0,0 +1,181 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Box2, Vector2 } from "three";
+
+const tmpBox = new Box2();
+const tmpCenterDistance = new Vector2();
+
+export class OrientedBox2 {
+    /**
+     * The position of the center of this `OrientedBox2`.
+     */
+    readonly position = new Vector2();
+
+    /**
+     * The x-axis of this `OrientedBox2`.
+     */
+    readonly xAxis = new Vector2(1, 0);
+
+    /**
+     * The y-axis of this `OrientedBox2`.
+     */
+    readonly yAxis = new Vector2(0, 1);
+
+    /**
+     * The extents of this `OrientedBox2`, i.e. half of its width and height.
+     */
+    readonly extents = new Vector2();
+
+    /**
+     * Creates a new `OrientedBox2`.
+     */
+    constructor();
+
+    /**
+     * Creates a new `OrientedBox2` with the given position, rotation and extents.
+     *
+     * @param position The position of the center of the `OrientedBox2`.
+     * @param rotation The counter-clockwise rotation of the `OrientedBox2` in radians.
+     * @param extents The extents of the `OrientedBox2`.
+     */
+    constructor(position: Vector2, rotation: number, extents: Vector2);
+
+    /**
+     * Creates a new `OrientedBox2`.
+     *
+     * @hideconstructor
+     */
+    constructor(position?: Vector2, rotation?: number, extents?: Vector2) {
+        if (position !== undefined) {
+            this.position.copy(position);
+        }
+
+        if (rotation !== undefined) {
+            this.setRotation(rotation);
+        }
+
+        if (extents !== undefined) {
+            this.extents.copy(extents);
+        }
+    }
+
+    /**
+     * Sets the axes of this `OrientedBox2` from a rotation angle.
+     *
+     * @param rotation The counter-clockwise rotation in radians.
+     */
+    setRotation(rotation: number): this {
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        this.xAxis.set(cos, sin);
+        this.yAxis.set(-sin, cos);
+        return this;
+    }
+
+    /**
+     * Copies the values of the given `OrientedBox2` to this one.
+     *
+     * @param other The `OrientedBox2` to copy.
+     */
+    copy(other: OrientedBox2): this {
+        this.position.copy(other.position);
+        this.xAxis.copy(other.xAxis);
+        this.yAxis.copy(other.yAxis);
+        this.extents.copy(other.extents);
+        return this;
+    }
+
+    /**
+     * Creates a copy of this `OrientedBox2`.
+     */
+    clone(): OrientedBox2 {
+        return new OrientedBox2().copy(this);
+    }
+
+    /**
+     * Computes the axis aligned bounding box of this `OrientedBox2`.
+     *
+     * @param target The output bounding box.
+     */
+    getBounds(target: Box2 = new Box2()): Box2 {
+        const halfWidth =
+            Math.abs(this.xAxis.x) * this.extents.x + Math.abs(this.yAxis.x) * this.extents.y;
+        const halfHeight =
+            Math.abs(this.xAxis.y) * this.extents.x + Math.abs(this.yAxis.y) * this.extents.y;
+        target.min.set(this.position.x - halfWidth, this.position.y - halfHeight);
+        target.max.set(this.position.x + halfWidth, this.position.y + halfHeight);
+        return target;
+    }
+
+    /**
+     * Checks intersection with the given axis aligned `THREE.Box2`. Boxes that only touch each
+     * other don't intersect.
+     *
+     * @param box The box to check.
+     */
+    intersectsBox(box: Box2): boolean {
+        // The box is tested like an oriented box without rotation.
+        tmpCenterDistance
+            .addVectors(box.min, box.max)
+            .multiplyScalar(0.5)
+            .sub(this.position);
+        const extentsX = (box.max.x - box.min.x) / 2;
+        const extentsY = (box.max.y - box.min.y) / 2;
+
+        // Separating axes of the axis aligned box. The bounds of this box are its projection on
+        // these axes.
+        this.getBounds(tmpBox);
+        if (
+            Math.abs(tmpCenterDistance.x) >= extentsX + (tmpBox.max.x - tmpBox.min.x) / 2 ||
+            Math.abs(tmpCenterDistance.y) >= extentsY + (tmpBox.max.y - tmpBox.min.y) / 2
+        ) {
+            return false;
+        }
+
+        // Separating axes of this box.
+        return (
+            Math.abs(tmpCenterDistance.dot(this.xAxis)) <
+                this.extents.x +
+                    Math.abs(this.xAxis.x) * extentsX +
+                    Math.abs(this.xAxis.y) * extentsY &&
+            Math.abs(tmpCenterDistance.dot(this.yAxis)) <
+                this.extents.y +
+                    Math.abs(this.yAxis.x) * extentsX +
+                    Math.abs(this.yAxis.y) * extentsY
+        );
+    }
+
+    /**
+     * Checks intersection with the given `OrientedBox2`. Boxes that only touch each other don't
+     * intersect.
+     *
+     * @param other The box to check.
+     */
+    intersects(other: OrientedBox2): boolean {
+        tmpCenterDistance.subVectors(other.position, this.position);
+        return (
+            !this.isSeparatingAxis(this.xAxis, other) &&
+            !this.isSeparatingAxis(this.yAxis, other) &&
+            !this.isSeparatingAxis(other.xAxis, other) &&
+            !this.isSeparatingAxis(other.yAxis, other)
+        );
+    }
+
+    /**
+     * Checks if the projections of this box and `other` on `axis` are disjoint. Expects the
+     * distance between the box centers in `tmpCenterDistance`.
+     */
+    private isSeparatingAxis(axis: Vector2, other: OrientedBox2): boolean {
+        const radius =
+            this.extents.x * Math.abs(this.xAxis.dot(axis)) +
+            this.extents.y * Math.abs(this.yAxis.dot(axis));
+        const otherRadius =
+            other.extents.x * Math.abs(other.xAxis.dot(axis)) +
+            other.extents.y * Math.abs(other.yAxis.dot(axis));
+        return Math.abs(tmpCenterDistance.dot(axis)) >= radius + otherRadius;
+    }
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import { OrientedBox2 } from "../lib/OrientedBox2";
+
+import * as THREE from "three";
+
+describe("OrientedBox2", function() {
+    // A 20x2 box rotated by 45 degrees, along the diagonal through the origin.
+    const diagonal = new OrientedBox2(
+        new THREE.Vector2(0, 0),
+        Math.PI / 4,
+        new THREE.Vector2(10, 1)
+    );
+
+    it("computes its bounds", function() {
+        const bounds = diagonal.getBounds();
+        const halfSize = 11 * Math.SQRT1_2;
+        assert.closeTo(bounds.min.x, -halfSize, 1e-9);
+        assert.closeTo(bounds.min.y, -halfSize, 1e-9);
+        assert.closeTo(bounds.max.x, halfSize, 1e-9);
+        assert.closeTo(bounds.max.y, halfSize, 1e-9);
+    });
+
+    it("checks intersection with axis aligned boxes", function() {
+        // Inside the bounds of the rotated box, but away from the diagonal.
+        const corner = new THREE.Box2(new THREE.Vector2(4, -7), new THREE.Vector2(7, -4));
+        assert.isTrue(diagonal.getBounds().intersectsBox(corner));
+        assert.isFalse(diagonal.intersectsBox(corner));
+
+        const center = new THREE.Box2(new THREE.Vector2(-1, -1), new THREE.Vector2(1, 1));
+        assert.isTrue(diagonal.intersectsBox(center));
+
+        const end = new THREE.Box2(new THREE.Vector2(6, 6), new THREE.Vector2(8, 8));
+        assert.isTrue(diagonal.intersectsBox(end));
+    });
+
+    it("checks intersection with oriented boxes", function() {
+        const parallel = new OrientedBox2(
+            new THREE.Vector2(-3, 3),
+            Math.PI / 4,
+            new THREE.Vector2(10, 1)
+        );
+        assert.isFalse(diagonal.intersects(parallel));
+        assert.isFalse(parallel.intersects(diagonal));
+
+        const crossing = new OrientedBox2(
+            new THREE.Vector2(-3, 3),
+            -Math.PI / 4,
+            new THREE.Vector2(10, 1)
+        );
+        assert.isTrue(diagonal.intersects(crossing));
+        assert.isTrue(crossing.intersects(diagonal));
+    });
+
+    it("doesn't intersect with boxes it only touches", function() {
+        const box = new OrientedBox2(new THREE.Vector2(0, 0), 0, new THREE.Vector2(1, 1));
+        const neighbour = new OrientedBox2(new THREE.Vector2(2, 0), 0, new THREE.Vector2(1, 1));
+        assert.isFalse(box.intersects(neighbour));
+        assert.isFalse(
+            box.intersectsBox(new THREE.Box2(new THREE.Vector2(1, -1), new THREE.Vector2(3, 1)))
+        );
+    });
+});
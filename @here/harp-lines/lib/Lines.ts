@@ -30,11 +30,12 @@ const LINE_VERTEX_ATTRIBUTES: VertexAttributeDescriptor[] = [
     { name: "texcoord", itemSize: 2, offset: 0 },
     { name: "position", itemSize: 3, offset: 2 },
     { name: "tangent", itemSize: 3, offset: 5 },
-    { name: "bitangent", itemSize: 4, offset: 8 }
+    { name: "bitangent", itemSize: 4, offset: 8 },
+    { name: "segmentEnds", itemSize: 4, offset: 12 }
 ];
 
 /** Stride size for line vertex data. */
-const LINE_STRIDE = 12;
+const LINE_STRIDE = 16;
 
 /**
  * Declares all the vertex attributes used for rendering a line using the
@@ -45,11 +46,12 @@ const HP_LINE_VERTEX_ATTRIBUTES: VertexAttributeDescriptor[] = [
     { name: "position", itemSize: 3, offset: 2 },
     { name: "positionLow", itemSize: 3, offset: 5 },
     { name: "tangent", itemSize: 3, offset: 8 },
-    { name: "bitangent", itemSize: 4, offset: 11 }
+    { name: "bitangent", itemSize: 4, offset: 11 },
+    { name: "segmentEnds", itemSize: 4, offset: 15 }
 ];
 
 /** Stride size for high precision line vertex data. */
-const HP_LINE_STRIDE = 15;
+const HP_LINE_STRIDE = 19;
 
 /**
  * Class that holds the vertex and index attributes for a [[Lines]] object.
@@ -112,97 +114,88 @@ export function createLineGeometry(
         isClosed = isClosed && polyline[j] === polyline[polyline.length - 3 + j];
     }
 
+    // Compute the tangents, the bitangents and the join angles of all points.
+    const pointTangents = new Array<number>(pointCount * 3);
+    const pointBitangents = new Array<number>(pointCount * 4);
     for (let i = 0; i < pointCount; ++i) {
         // Retrieve the per-point tangents.
         const T1 = isClosed && i === 0 ? tangents.length - 3 : Math.max(0, i - 1) * 3;
         const T2 = isClosed && i === pointCount - 1 ? 0 : Math.min(i * 3, tangents.length - 3);
 
+        for (let j = 0; j < 3; ++j) {
+            tmpNormal.setComponent(j, polyline[i * 3 + j]);
+            tmpTangent0.setComponent(j, tangents[T1 + j]);
+            tmpTangent1.setComponent(j, tangents[T2 + j]);
+        }
+        tmpTangent0.normalize().toArray(pointTangents, i * 3);
+        const angle = computeBitangent(
+            isFlat ? tmpNormal.set(0, 0, 1) : tmpNormal.add(center).normalize(),
+            tmpTangent0,
+            tmpTangent1.normalize(),
+            tmpBitangent
+        );
+        tmpBitangent.toArray(pointBitangents, i * 4);
+        pointBitangents[i * 4 + 3] = angle;
+    }
+
+    const addVertex = (pointIndex: number, segmentIndex: number, u: number, v: number) => {
+        // Store the segment and texcoord attributes.
+        geometry.vertices.push(u, v);
+
+        // Store the position attribute (component-dependant).
+        for (let j = 0; j < 3; ++j) {
+            if (!highPrecision) {
+                geometry.vertices.push(polyline[pointIndex * 3 + j]);
+            } else {
+                const highComp = Math.fround(polyline[pointIndex * 3 + j]);
+                const lowComp = polyline[pointIndex * 3 + j] - highComp;
+                geometry.vertices.push(highComp, lowComp);
+            }
+        }
+
+        // Store the tangent and bitangent attributes.
+        for (let j = 0; j < 3; ++j) {
+            geometry.vertices.push(pointTangents[pointIndex * 3 + j]);
+        }
+        for (let j = 0; j < 4; ++j) {
+            geometry.vertices.push(pointBitangents[pointIndex * 4 + j]);
+        }
+
+        // Store the join angles at both ends of the segment, and whether the ends are caps.
+        geometry.vertices.push(
+            pointBitangents[segmentIndex * 4 + 3],
+            pointBitangents[(segmentIndex + 1) * 4 + 3],
+            !isClosed && segmentIndex === 0 ? 1 : 0,
+            !isClosed && segmentIndex === pointCount - 2 ? 1 : 0
+        );
+
+        // Add vertex colors (if supplied).
+        if (vertexColors) {
+            geometry.vertexColors.push(
+                colors![pointIndex * 3],
+                colors![pointIndex * 3 + 1],
+                colors![pointIndex * 3 + 2]
+            );
+        }
+    };
+
+    for (let i = 0; i < pointCount; ++i) {
         // Process v0 and v1.
         if (i > 0) {
             for (let v = -1; v <= 1; v += 2) {
-                // Store the segment and texcoord attributes.
-                geometry.vertices.push(segments[i - 1], segments[i] * v);
-
-                // Store the position attribute (component-dependant).
-                for (let j = 0; j < 3; ++j) {
-                    if (!highPrecision) {
-                        geometry.vertices.push(polyline[i * 3 + j]);
-                    } else {
-                        const highComp = Math.fround(polyline[i * 3 + j]);
-                        const lowComp = polyline[i * 3 + j] - highComp;
-                        geometry.vertices.push(highComp, lowComp);
-                    }
-                    tmpNormal.setComponent(j, polyline[i * 3 + j]);
-                }
-
-                // Store the bitangent attribute (component-dependant).
-                for (let j = 0; j < 3; ++j) {
-                    tmpTangent0.setComponent(j, tangents[T1 + j]);
-                    tmpTangent1.setComponent(j, tangents[T2 + j]);
-                }
-                geometry.vertices.push(...tmpTangent0.normalize().toArray());
-                const angle = computeBitangent(
-                    isFlat ? tmpNormal.set(0, 0, 1) : tmpNormal.add(center).normalize(),
-                    tmpTangent0.normalize(),
-                    tmpTangent1.normalize(),
-                    tmpBitangent
-                );
-                geometry.vertices.push(...tmpBitangent.toArray(), angle);
-
-                // Add vertex colors (if supplied).
-                if (vertexColors) {
-                    geometry.vertexColors.push(
-                        colors![i * 3],
-                        colors![i * 3 + 1],
-                        colors![i * 3 + 2]
-                    );
-                }
+                addVertex(i, i - 1, segments[i - 1], segments[i] * v);
             }
         }
 
         // Process v2 and v3.
         if (i + 1 < pointCount) {
             for (let v = -1; v <= 1; v += 2) {
-                // Store the segment and texcoord attributes.
-                geometry.vertices.push(
+                addVertex(
+                    i,
+                    i,
                     segments[Math.min(i, segments.length - 1)] * -1,
                     segments[Math.min(i + 1, segments.length - 1)] * v
                 );
-
-                // Store the position attribute (component-dependant).
-                for (let j = 0; j < 3; ++j) {
-                    if (!highPrecision) {
-                        geometry.vertices.push(polyline[i * 3 + j]);
-                    } else {
-                        const highComp = Math.fround(polyline[i * 3 + j]);
-                        const lowComp = polyline[i * 3 + j] - highComp;
-                        geometry.vertices.push(highComp, lowComp);
-                    }
-                    tmpNormal.setComponent(j, polyline[i * 3 + j]);
-                }
-
-                // Store the bitangent attribute (component-dependant).
-                for (let j = 0; j < 3; ++j) {
-                    tmpTangent0.setComponent(j, tangents[T1 + j]);
-                    tmpTangent1.setComponent(j, tangents[T2 + j]);
-                }
-                geometry.vertices.push(...tmpTangent0.normalize().toArray());
-                const angle = computeBitangent(
-                    isFlat ? tmpNormal.set(0, 0, 1) : tmpNormal.add(center).normalize(),
-                    tmpTangent0.normalize(),
-                    tmpTangent1.normalize(),
-                    tmpBitangent
-                );
-                geometry.vertices.push(...tmpBitangent.toArray(), angle);
-
-                // Add vertex colors (if supplied).
-                if (vertexColors) {
-                    geometry.vertexColors.push(
-                        colors![i * 3],
-                        colors![i * 3 + 1],
-                        colors![i * 3 + 2]
-                    );
-                }
             }
         }
     }
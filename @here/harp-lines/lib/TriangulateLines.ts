@@ -4,15 +4,23 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { LineCapStyle, LineJoinStyle } from "@here/harp-materials";
 import * as THREE from "three";
 
 const UNIT_Z = new THREE.Vector3(0, 0, 1);
 const POINTS = [0, 1, 2, 1, 3, 2];
 const BEVEL_POINTS = [0, 1, 3, 3, 1, 2, 0, 3, 4, 5, 4, 3];
+// Joins without a miter tip, outer vertices are on the right side for left turns
+// (inner, prevOuter, nextOuter) and on the left side for right turns (prevOuter, inner, nextOuter).
+const LEFT_JOIN_POINTS = [0, 1, 2, 0, 2, 3, 2, 4, 3];
+const RIGHT_JOIN_POINTS = [0, 1, 2, 2, 1, 3, 1, 4, 3];
 
 const SECTORS_IN_CIRCLE = 8;
 const STEP = Math.PI / SECTORS_IN_CIRCLE;
 
+// Minimum angle between two segments for which a bevel or round join is created.
+const MIN_JOIN_ANGLE = 0.01;
+
 /**
  * Adds a half-circle geometry to original line
  *
@@ -48,6 +56,91 @@ function addCircle(
     }
 }
 
+/**
+ * Adds a cap to the end of a line.
+ *
+ * @param x The line end X.
+ * @param y The line end Y.
+ * @param lineAngle The angle of the direction pointing from the line end into the line.
+ * @param radius Half of the line width.
+ * @param capStyle The style of the cap, `"None"` adds no geometry.
+ * @param vertices The input vertex buffer (cap vertices are added there).
+ * @param indices The input index buffer (cap indices are is added there).
+ */
+function addCap(
+    x: number,
+    y: number,
+    lineAngle: number,
+    radius: number,
+    capStyle: LineCapStyle,
+    vertices: number[],
+    indices: number[]
+) {
+    if (capStyle === "Round") {
+        addCircle(x, y, lineAngle, radius, vertices, indices);
+        return;
+    }
+    if (capStyle !== "Square" && capStyle !== "Triangle") {
+        return;
+    }
+
+    const baseVertex = vertices.length / 3;
+    const dx = Math.cos(lineAngle) * radius;
+    const dy = Math.sin(lineAngle) * radius;
+
+    // Both sides of the line end.
+    vertices.push(x - dy, y + dx, 0, x + dy, y - dx, 0);
+
+    if (capStyle === "Square") {
+        vertices.push(x - dy - dx, y + dx - dy, 0, x + dy - dx, y - dx - dy, 0);
+        indices.push(baseVertex, baseVertex + 2, baseVertex + 1);
+        indices.push(baseVertex + 1, baseVertex + 2, baseVertex + 3);
+    } else {
+        vertices.push(x - dx, y - dy, 0);
+        indices.push(baseVertex, baseVertex + 2, baseVertex + 1);
+    }
+}
+
+/**
+ * Adds a circle sector filling the outer side of a round join.
+ *
+ * @param center The joint of the two line segments.
+ * @param startAngle The angle of the outer side of the previous segment.
+ * @param sweepAngle The angle between the two segments, positive for left turns.
+ * @param radius Half of the line width.
+ * @param vertices The input vertex buffer (join vertices are added there).
+ * @param indices The input index buffer (join indices are added there).
+ */
+function addRoundJoin(
+    center: THREE.Vector3,
+    startAngle: number,
+    sweepAngle: number,
+    radius: number,
+    vertices: number[],
+    indices: number[]
+) {
+    const baseVertex = vertices.length / 3;
+    const sectors = Math.max(1, Math.ceil(Math.abs(sweepAngle) / STEP));
+
+    vertices.push(center.x, center.y, center.z);
+    for (let i = 0; i <= sectors; ++i) {
+        const angle = startAngle + (sweepAngle * i) / sectors;
+        vertices.push(
+            center.x + radius * Math.cos(angle),
+            center.y + radius * Math.sin(angle),
+            center.z
+        );
+        if (i > 0) {
+            // Keep counter-clockwise winding for both turn directions.
+            if (sweepAngle > 0) {
+                indices.push(baseVertex, baseVertex + i, baseVertex + i + 1);
+            } else {
+                indices.push(baseVertex, baseVertex + i + 1, baseVertex + i);
+            }
+        }
+    }
+}
+
 /**
  * Returns the number of points in circle used for caps.
  *
@@ -65,32 +158,37 @@ export function numCirclePoints(lineWidth: number): number {
  * @param width The width of the extruded line.
  * @param vertices The output vertex buffer.
  * @param indices The output index buffer.
- * @param startWithCircle `true` if the line should start will a circle.
- * @param endWithCircle `true` if the line should end with a circle.
+ * @param startWithCap `true` if the line should start with a cap.
+ * @param endWithCap `true` if the line should end with a cap.
+ * @param capStyle The style of the caps, defaults to `"Round"`.
+ * @param joinStyle The style of the joins. If not set, sharp corners are connected with miter
+ * joins without limiting their length, which is the behavior of `"Miter"`.
  */
 export function triangulateLine(
     points: ArrayLike<number>,
     width: number,
     vertices: number[],
     indices: number[],
-    startWithCircle = true,
-    endWithCircle = startWithCircle
+    startWithCap = true,
+    endWithCap = startWithCap,
+    capStyle: LineCapStyle = "Round",
+    joinStyle?: LineJoinStyle
 ) {
     if (points.length < 3) {
         return;
     }
 
+    const N = points.length / 3;
+
     // This vector is used for computing cap angle
     const angleVec = new THREE.Vector2();
 
-    if (startWithCircle) {
+    if (startWithCap) {
         // Define lineAngle as (direction - origin) vector angle to X axis
         const lineAngle =
-            points.length !== 3
-                ? angleVec.set(points[3] - points[0], points[4] - points[1]).angle()
-                : 0;
+            N > 1 ? angleVec.set(points[3] - points[0], points[4] - points[1]).angle() : 0;
 
-        addCircle(points[0], points[1], lineAngle, width, vertices, indices);
+        addCap(points[0], points[1], lineAngle, width, capStyle, vertices, indices);
     }
 
     const baseVertex = vertices.length / 3;
@@ -106,11 +204,13 @@ export function triangulateLine(
     const p2 = new THREE.Vector3();
     const p3 = new THREE.Vector3();
 
-    const N = points.length / 3;
+    // Round joins are added after the line body, which has to be continuous.
+    const roundJoins: Array<{ center: THREE.Vector3; startAngle: number; sweepAngle: number }> = [];
 
     let vertexOffset = 0;
     for (let i = 0; i < N; ++i) {
         let useBevel = false;
+        let joinPoints: number[] | undefined;
         p.set(points[i * 3], points[i * 3 + 1], points[i * 3 + 2]);
 
         if (i + 1 < N) {
@@ -126,7 +226,50 @@ export function triangulateLine(
             if (i > 0) {
                 averageBt.add(prevBt).multiplyScalar(1.0 - 0.5 * bt.dot(prevBt));
 
-                useBevel = prevBt.angleTo(bt) > Math.PI / 2;
+                const angle = prevBt.angleTo(bt);
+
+                if (joinStyle === "Bevel" || joinStyle === "Round") {
+                    if (angle > MIN_JOIN_ANGLE) {
+                        // The outer side of a left turn is on the right (positive bitangent).
+                        const leftTurn = prevBt.x * bt.y - prevBt.y * bt.x > 0;
+                        const side = leftTurn ? 1 : -1;
+                        const inclineWidth = width / Math.cos(angle / 2);
+
+                        // p0: inner, p1: outer end of previous segment, p2: outer start of
+                        // next segment.
+                        p0.copy(bt)
+                            .add(prevBt)
+                            .normalize()
+                            .multiplyScalar(-side * inclineWidth)
+                            .add(p);
+
+                        p1.copy(prevBt)
+                            .multiplyScalar(side * width)
+                            .add(p);
+
+                        p2.copy(bt)
+                            .multiplyScalar(side * width)
+                            .add(p);
+
+                        if (leftTurn) {
+                            vertices.push(p0.x, p0.y, p0.z, p1.x, p1.y, p1.z, p2.x, p2.y, p2.z);
+                            joinPoints = LEFT_JOIN_POINTS;
+                        } else {
+                            vertices.push(p1.x, p1.y, p1.z, p0.x, p0.y, p0.z, p2.x, p2.y, p2.z);
+                            joinPoints = RIGHT_JOIN_POINTS;
+                        }
+
+                        if (joinStyle === "Round") {
+                            roundJoins.push({
+                                center: p.clone(),
+                                startAngle: Math.atan2(side * prevBt.y, side * prevBt.x),
+                                sweepAngle: side * angle
+                            });
+                        }
+                    }
+                } else {
+                    useBevel = angle > Math.PI / 2;
+                }
 
                 if (useBevel) {
                     const inclineWidth = width / Math.cos(bt.angleTo(prevBt) / 2);
@@ -154,7 +297,9 @@ export function triangulateLine(
                 }
             }
 
-            if (useBevel) {
+            if (joinPoints !== undefined) {
+                // Join vertices have already been added.
+            } else if (useBevel) {
                 vertices.push(
                     p0.x,
                     p0.y,
@@ -195,29 +340,34 @@ export function triangulateLine(
         }
 
         if (i !== N - 1) {
-            (useBevel ? BEVEL_POINTS : POINTS).forEach(o =>
-                indices.push(baseVertex + vertexOffset + o)
-            );
-            vertexOffset += useBevel ? 4 : 2;
+            const offsets =
+                joinPoints !== undefined ? joinPoints : useBevel ? BEVEL_POINTS : POINTS;
+            offsets.forEach(o => indices.push(baseVertex + vertexOffset + o));
+            vertexOffset += joinPoints !== undefined ? 3 : useBevel ? 4 : 2;
         }
     }
 
-    if (endWithCircle) {
+    for (const join of roundJoins) {
+        addRoundJoin(join.center, join.startAngle, join.sweepAngle, width, vertices, indices);
+    }
+
+    if (endWithCap) {
         const lineAngle =
-            points.length !== 2
+            N > 1
                 ? angleVec
                       .set(
-                          points[(N - 3) * 3] - points[(N - 2) * 3],
-                          points[(N - 3) * 3 + 1] - points[(N - 2) * 3 + 1]
+                          points[(N - 2) * 3] - points[(N - 1) * 3],
+                          points[(N - 2) * 3 + 1] - points[(N - 1) * 3 + 1]
                       )
                       .angle()
                 : Math.PI;
 
-        addCircle(
-            points[(N - 2) * 3],
-            points[(N - 2) * 3 + 1],
+        addCap(
+            points[(N - 1) * 3],
+            points[(N - 1) * 3 + 1],
             lineAngle,
             width,
+            capStyle,
             vertices,
             indices
         );
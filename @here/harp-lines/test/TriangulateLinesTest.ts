@@ -0,0 +1,138 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import * as THREE from "three";
+import { createLineGeometry } from "../lib/Lines";
+import { numCirclePoints, triangulateLine } from "../lib/TriangulateLines";
+
+/**
+ * Returns twice the signed area of every triangle, positive for counter-clockwise winding.
+ */
+function triangleAreas(vertices: number[], indices: number[]): number[] {
+    const areas: number[] = [];
+    for (let i = 0; i < indices.length; i += 3) {
+        const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]].map(index => [
+            vertices[index * 3],
+            vertices[index * 3 + 1]
+        ]);
+        areas.push((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+    }
+    return areas;
+}
+
+describe("TriangulateLines", function() {
+    const straightLine = [0, 0, 0, 10, 0, 0];
+    // Turns left and then right.
+    const zigzagLine = [0, 0, 0, 10, 0, 0, 10, 10, 0, 20, 10, 0];
+
+    it("adds round caps at both ends", function() {
+        const vertices: number[] = [];
+        const indices: number[] = [];
+        triangulateLine(straightLine, 1, vertices, indices);
+
+        assert.equal(vertices.length / 3, 4 + 2 * (numCirclePoints(1) + 1));
+        // The end cap is centered at the last point.
+        const endCenter = (4 + numCirclePoints(1) + 1) * 3;
+        assert.deepEqual(vertices.slice(endCenter, endCenter + 3), [10, 0, 0]);
+    });
+
+    it("adds square and triangle caps", function() {
+        const vertices: number[] = [];
+        const indices: number[] = [];
+        triangulateLine(straightLine, 1, vertices, indices, true, true, "Square");
+
+        assert.equal(vertices.length / 3, 4 + 2 * 4);
+        assert.equal(indices.length / 3, 2 + 2 * 2);
+        const xs = vertices.filter((_, i) => i % 3 === 0);
+        assert.closeTo(Math.min(...xs), -1, 1e-6);
+        assert.closeTo(Math.max(...xs), 11, 1e-6);
+
+        vertices.length = 0;
+        indices.length = 0;
+        triangulateLine(straightLine, 1, vertices, indices, true, true, "Triangle");
+
+        assert.equal(vertices.length / 3, 4 + 2 * 3);
+        assert.equal(indices.length / 3, 2 + 2);
+
+        vertices.length = 0;
+        indices.length = 0;
+        triangulateLine(straightLine, 1, vertices, indices, true, true, "None");
+
+        assert.equal(vertices.length / 3, 4);
+    });
+
+    it("creates counter-clockwise triangles for all cap and join styles", function() {
+        for (const capStyle of ["Round", "Square", "Triangle"] as const) {
+            for (const joinStyle of [undefined, "Round", "Miter", "Bevel"] as const) {
+                const vertices: number[] = [];
+                const indices: number[] = [];
+                triangulateLine(zigzagLine, 1, vertices, indices, true, true, capStyle, joinStyle);
+
+                triangleAreas(vertices, indices).forEach(area => {
+                    assert.isAtLeast(area, -1e-6, `${capStyle} caps, ${joinStyle} joins`);
+                });
+            }
+        }
+    });
+
+    it("cuts off the corners of bevel joins", function() {
+        const vertices: number[] = [];
+        const indices: number[] = [];
+        triangulateLine(zigzagLine, 1, vertices, indices, false, false, "None", "Bevel");
+
+        // Two vertices at the ends and three at each join.
+        assert.equal(vertices.length / 3, 2 + 3 + 3 + 2);
+        // No vertex reaches the miter tip at (11, -1) of the left turn.
+        for (let i = 0; i < vertices.length; i += 3) {
+            assert.isFalse(vertices[i] > 10.5 && vertices[i + 1] < -0.5);
+        }
+    });
+
+    it("adds circle sectors to round joins", function() {
+        const bevelVertices: number[] = [];
+        const bevelIndices: number[] = [];
+        triangulateLine(zigzagLine, 1, bevelVertices, bevelIndices, false, false, "None", "Bevel");
+
+        const vertices: number[] = [];
+        const indices: number[] = [];
+        triangulateLine(zigzagLine, 1, vertices, indices, false, false, "None", "Round");
+
+        assert.isAbove(indices.length, bevelIndices.length);
+        // The line body is the same, the sectors are added behind it.
+        assert.deepEqual(vertices.slice(0, bevelVertices.length), bevelVertices);
+    });
+});
+
+describe("Lines", function() {
+    it("stores join angles and cap flags of segments", function() {
+        const geometry = createLineGeometry(new THREE.Vector3(), [0, 0, 0, 10, 0, 0, 10, 10, 0]);
+        // Vertex layout: texcoord (2), position (3), tangent (3), bitangent (4), segmentEnds (4).
+        const stride = 16;
+        const segmentEnds = { offset: 12 };
+
+        assert.equal(geometry.vertices.length, stride * 8);
+
+        // Second vertex pair of the first segment.
+        const first = geometry.vertices.slice(
+            2 * stride + segmentEnds.offset,
+            2 * stride + segmentEnds.offset + 4
+        );
+        assert.closeTo(first[0], 0, 1e-6);
+        assert.closeTo(Math.abs(first[1]), Math.PI / 2, 1e-6);
+        assert.deepEqual(first.slice(2), [1, 0]);
+
+        // First vertex pair of the last segment.
+        const last = geometry.vertices.slice(
+            4 * stride + segmentEnds.offset,
+            4 * stride + segmentEnds.offset + 4
+        );
+        assert.deepEqual(last.slice(2), [0, 1]);
+    });
+});
@@ -7,7 +7,7 @@
 import { GeoCoordinates, GeoCoordinatesLike, MathUtils } from "@here/harp-geoutils";
 import { EventNames, MapControls } from "./MapControls";
 
-import { MapView } from "@here/harp-mapview";
+import { MapView, MapViewUtils } from "@here/harp-mapview";
 import { PerformanceTimer } from "@here/harp-utils";
 
 import * as TWEEN from "@tweenjs/tween.js";
@@ -459,6 +459,15 @@ export class CameraPanAnimation extends CameraAnimation {
         this.tween.interpolation(this.interpolation);
         this.tween.start(time);
 
+        // Let the map view prefetch the tiles along the path, if prefetching is enabled.
+        this.mapView.prefetchPath = [from, ...this.m_geoCoordinates].map((pos, i) => ({
+            geoCoordinates: new GeoCoordinates(pos.latitude, pos.longitude),
+            zoomLevel: MapViewUtils.calculateZoomLevelFromDistance(
+                i > 0 ? to.altitude[i - 1] : from.altitude!,
+                this.mapView
+            )
+        }));
+
         this.mapView.beginAnimation();
     }
 
@@ -472,6 +481,7 @@ export class CameraPanAnimation extends CameraAnimation {
 
         this.running = false;
 
+        this.mapView.prefetchPath = [];
         this.mapView.endAnimation();
 
         if (this.tween) {
@@ -7,10 +7,38 @@
 // tslint:disable:only-arrow-functions
 //    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
 
+import { ThemeValidator } from "@here/harp-datasource-protocol";
+import { loadTestResource } from "@here/harp-test-utils";
 import { assert } from "chai";
 
+const themes = [
+    "berlin_tilezen_base.json",
+    "berlin_tilezen_base_globe.json",
+    "berlin_tilezen_day_reduced.json",
+    "berlin_tilezen_effects_outlines.json",
+    "berlin_tilezen_effects_streets.json",
+    "berlin_tilezen_night_reduced.json"
+];
+
 describe("DefaultTheme", function() {
     it("ok", function() {
         assert.isTrue(true);
     });
+
+    it("contains only valid themes", async function() {
+        const schema = await loadTestResource(
+            "@here/harp-datasource-protocol",
+            "theme.schema.json",
+            "json"
+        );
+        for (const theme of themes) {
+            const json = await loadTestResource(
+                "@here/harp-map-theme",
+                `resources/${theme}`,
+                "json"
+            );
+            const errors = new ThemeValidator(json, schema).validate();
+            assert.deepEqual(errors.map(error => `${error.path}: ${error.message}`), [], theme);
+        }
+    });
 });
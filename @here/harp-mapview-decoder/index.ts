@@ -4,6 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./lib/CachedDataProvider";
 export * from "./lib/DataProvider";
 export * from "./lib/TileDataSource";
 export * from "./lib/TileLoader";
+export * from "./lib/TilePackage";
+export * from "./lib/TilePackageDataProvider";
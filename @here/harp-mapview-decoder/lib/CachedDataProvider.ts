@@ -0,0 +1,124 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RequestController } from "@here/harp-datasource-protocol";
+import { TileKey } from "@here/harp-geoutils";
+import { PerformanceStatistics } from "@here/harp-mapview";
+import { TileCache } from "@here/harp-transfer-manager";
+import { DataProvider } from "./DataProvider";
+
+/**
+ * Options of a [[CachedDataProvider]].
+ */
+export interface CachedDataProviderOptions {
+    /**
+     * The cache storing the tiles.
+     */
+    cache: TileCache;
+
+    /**
+     * Prefix of the cache keys, to share a cache between several data providers.
+     *
+     * @default `""`
+     */
+    namespace?: string;
+
+    /**
+     * Time in milliseconds the cached tiles are used before they are loaded again. By default,
+     * cached tiles are used until they are evicted from the cache.
+     */
+    maxAge?: number;
+}
+
+/**
+ * [[DataProvider]] keeping the tiles loaded by another [[DataProvider]] in a [[TileCache]], keyed
+ * by their [[TileKey]]. Only binary tiles are cached.
+ *
+ * The hits and misses are recorded as `tileCache.hits` and `tileCache.misses` in the current frame
+ * of the [[PerformanceStatistics]].
+ *
+ * Example:
+ *
+ * ```typescript
+ * const dataProvider = new CachedDataProvider(new OmvRestClient(params), {
+ *     cache: new TileCache({ storage: new IndexedDbTileCacheStorage() }),
+ *     namespace: "herebase"
+ * });
+ * ```
+ */
+export class CachedDataProvider implements DataProvider {
+    /**
+     * The cache storing the tiles.
+     */
+    readonly cache: TileCache;
+
+    private readonly m_namespace: string;
+    private readonly m_maxAge?: number;
+
+    /**
+     * Constructs a new `CachedDataProvider`.
+     *
+     * @param dataProvider The data provider loading the tiles missing in the cache.
+     * @param options The options of the cache.
+     */
+    constructor(readonly dataProvider: DataProvider, options: CachedDataProviderOptions) {
+        this.cache = options.cache;
+        this.m_namespace = options.namespace !== undefined ? options.namespace : "";
+        this.m_maxAge = options.maxAge;
+    }
+
+    connect(): Promise<void> {
+        return this.dataProvider.connect();
+    }
+
+    ready(): boolean {
+        return this.dataProvider.ready();
+    }
+
+    /**
+     * Returns the cached tile, or loads it with the wrapped [[DataProvider]] and caches it.
+     *
+     * @param tileKey The tile key of the tile.
+     * @param abortSignal Optional AbortSignal to cancel the request.
+     * @param requestController Optional [[RequestController]] holding the priority of the request.
+     */
+    async getTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        requestController?: RequestController
+    ): Promise<ArrayBufferLike | {}> {
+        const key = `${this.m_namespace}/${tileKey.mortonCode()}`;
+        const stats = PerformanceStatistics.instance;
+
+        const cached = await this.cache.get(key);
+        if (cached !== undefined && this.cache.isFresh(cached)) {
+            ++this.cache.statistics.hits;
+            if (stats.enabled) {
+                stats.currentFrame.addValue("tileCache.hits", 1);
+            }
+            return cached.data;
+        }
+
+        ++this.cache.statistics.misses;
+        if (stats.enabled) {
+            stats.currentFrame.addValue("tileCache.misses", 1);
+        }
+        const data = await this.dataProvider.getTile(tileKey, abortSignal, requestController);
+        if (data instanceof ArrayBuffer) {
+            const storedAt = Date.now();
+            this.cache
+                .set(key, {
+                    data,
+                    storedAt,
+                    expires: this.m_maxAge !== undefined ? storedAt + this.m_maxAge : undefined
+                })
+                .catch(() => {
+                    // Caching is best effort, the loaded tile is used even if it was not stored.
+                });
+        }
+        return data;
+    }
+}
@@ -5,6 +5,8 @@
  */
 
 import "@here/harp-fetch";
+
+import { RequestController } from "@here/harp-datasource-protocol";
 import { TileKey } from "@here/harp-geoutils";
 
 /**
@@ -30,7 +32,14 @@ export interface DataProvider {
      *
      * @param tileKey Address of a tile.
      * @param abortSignal Optional AbortSignal to cancel the request.
+     * @param requestController Optional [[RequestController]] holding the priority of the request,
+     *      which is kept up to date by [[TileLoader.updatePriority]]. Data providers downloading
+     *      with a `TransferManager` pass it as `priority` of the download.
      * @returns A promise delivering the data as an [[ArrayBufferLike]], or any object.
      */
-    getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<ArrayBufferLike | {}>;
+    getTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        requestController?: RequestController
+    ): Promise<ArrayBufferLike | {}>;
 }
@@ -97,6 +97,17 @@ export class TileDecoderService extends WorkerService {
                     transferList.push(geom.index.buffer);
                 }
 
+                if (geom.extrusionMappings !== undefined) {
+                    const mappings = geom.extrusionMappings;
+                    Object.keys(mappings).forEach(name => {
+                        const { extrusionAxis, color } = mappings[name];
+                        transferList.push(extrusionAxis.buffer);
+                        if (color !== undefined) {
+                            transferList.push(color.buffer);
+                        }
+                    });
+                }
+
                 if (
                     geom.objInfos !== undefined &&
                     geom.objInfos.length === 1 &&
@@ -48,9 +48,10 @@ export class TileLoader {
     decodedTile?: DecodedTile;
 
     /**
-     * The abort controller notifying the [[DataProvider]] to cancel loading.
+     * The abort controller notifying the [[DataProvider]] to cancel loading. It also holds the
+     * priority of the loading job.
      */
-    protected loadAbortController = new AbortController();
+    protected loadAbortController = new RequestController(this.priority);
 
     /**
      * The  notifying the [[ITileDecoder]] to cancel decoding.
@@ -153,7 +154,7 @@ export class TileLoader {
         switch (this.state) {
             case TileLoaderState.Loading:
                 this.loadAbortController.abort();
-                this.loadAbortController = new AbortController();
+                this.loadAbortController = new RequestController(this.priority);
                 break;
 
             case TileLoaderState.Decoding:
@@ -179,11 +180,12 @@ export class TileLoader {
     }
 
     /**
-     * Update the priority of this [[Tile]]'s priority. Is effective to sort the decoding requests
-     * in the request queue (used during heavy load).
+     * Update the priority of this [[Tile]]'s priority. Is effective to sort the download and
+     * decoding requests in the request queues (used during heavy load).
      */
     updatePriority(priority: number): void {
         this.priority = priority;
+        this.loadAbortController.priority = priority;
         if (this.requestController !== undefined) {
             this.requestController.priority = priority;
         }
@@ -217,9 +219,10 @@ export class TileLoader {
      * Start loading. Only call if loading did not start yet.
      */
     protected doStartLoad() {
-        const myLoadCancellationToken = this.loadAbortController.signal;
+        const loadController = this.loadAbortController;
+        const myLoadCancellationToken = loadController.signal;
         this.dataProvider
-            .getTile(this.tileKey, myLoadCancellationToken)
+            .getTile(this.tileKey, myLoadCancellationToken, loadController)
             .then(payload => {
                 if (myLoadCancellationToken.aborted) {
                     // safety belt if getTile doesn't really support cancellation tokens
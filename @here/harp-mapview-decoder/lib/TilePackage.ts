@@ -0,0 +1,485 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { getOptionValue } from "@here/harp-utils";
+import { DataProvider } from "./DataProvider";
+
+/**
+ * Metadata stored in a tile package. Besides the properties listed here, any JSON serializable
+ * property can be stored.
+ */
+export interface TilePackageMetadata {
+    /**
+     * Name of the package.
+     */
+    name?: string;
+
+    /**
+     * Format of the tiles, for example `"omv"`, `"png"` or `"terrarium"`.
+     */
+    format?: string;
+
+    /**
+     * Minimum level of the tiles.
+     */
+    minLevel?: number;
+
+    /**
+     * Maximum level of the tiles.
+     */
+    maxLevel?: number;
+
+    /**
+     * Area covered by the tiles as `[west, south, east, north]` in degrees.
+     */
+    bounds?: [number, number, number, number];
+
+    [key: string]: any;
+}
+
+/**
+ * Random access to the bytes of a tile package, for example to a file that is too large to be
+ * loaded at once.
+ */
+export interface TilePackageSource {
+    /**
+     * Reads a range of bytes of the package.
+     *
+     * @param offset The position of the first byte.
+     * @param length The number of bytes to read.
+     */
+    read(offset: number, length: number): Promise<ArrayBuffer>;
+}
+
+/**
+ * Tile package held in memory, in an `ArrayBuffer` or a `Blob`, or any other [[TilePackageSource]].
+ */
+export type TilePackageInput = ArrayBuffer | Blob | TilePackageSource;
+
+/**
+ * Encoding of the data of a tile in a package.
+ */
+enum TileEncoding {
+    /**
+     * The bytes returned by the [[DataProvider]].
+     */
+    Binary = 0,
+
+    /**
+     * An object returned by the [[DataProvider]], stored as UTF-8 encoded JSON.
+     */
+    Json = 1
+}
+
+/**
+ * Identifies tile packages, the ASCII characters `HTPK`.
+ */
+const MAGIC = 0x4b505448;
+const VERSION = 1;
+
+/**
+ * Size of the header: magic, version, metadata offset and length, directory offset and number of
+ * entries.
+ */
+const HEADER_SIZE = 24;
+
+/**
+ * Size of a directory entry: morton code as double, offset, length and encoding.
+ */
+const ENTRY_SIZE = 20;
+
+interface DirectoryEntry {
+    offset: number;
+    length: number;
+    encoding: TileEncoding;
+}
+
+function readInput(input: TilePackageInput, offset: number, length: number): Promise<ArrayBuffer> {
+    if (input instanceof ArrayBuffer) {
+        return Promise.resolve(input.slice(offset, offset + length));
+    }
+    if (typeof Blob !== "undefined" && input instanceof Blob) {
+        return new Response(input.slice(offset, offset + length)).arrayBuffer();
+    }
+    return (input as TilePackageSource).read(offset, length);
+}
+
+/**
+ * Encodes a string as UTF-8. `TextEncoder` is not available in all supported environments.
+ */
+function encodeUtf8(text: string): Uint8Array {
+    const bytes: number[] = [];
+    for (let i = 0; i < text.length; ++i) {
+        let codePoint = text.charCodeAt(i);
+        if (codePoint >= 0xd800 && codePoint < 0xdc00 && i + 1 < text.length) {
+            const low = text.charCodeAt(i + 1);
+            if (low >= 0xdc00 && low < 0xe000) {
+                codePoint = 0x10000 + (codePoint - 0xd800) * 0x400 + (low - 0xdc00);
+                ++i;
+            }
+        }
+        if (codePoint < 0x80) {
+            bytes.push(codePoint);
+        } else if (codePoint < 0x800) {
+            bytes.push(0xc0 + Math.floor(codePoint / 0x40), 0x80 + (codePoint % 0x40));
+        } else if (codePoint < 0x10000) {
+            bytes.push(
+                0xe0 + Math.floor(codePoint / 0x1000),
+                0x80 + (Math.floor(codePoint / 0x40) % 0x40),
+                0x80 + (codePoint % 0x40)
+            );
+        } else {
+            bytes.push(
+                0xf0 + Math.floor(codePoint / 0x40000),
+                0x80 + (Math.floor(codePoint / 0x1000) % 0x40),
+                0x80 + (Math.floor(codePoint / 0x40) % 0x40),
+                0x80 + (codePoint % 0x40)
+            );
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes UTF-8 encoded data written by [[encodeUtf8]].
+ */
+function decodeUtf8(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    const codeUnits: number[] = [];
+    let text = "";
+    let i = 0;
+    while (i < bytes.length) {
+        const byte = bytes[i++];
+        let codePoint: number;
+        if (byte < 0x80) {
+            codePoint = byte;
+        } else if (byte < 0xe0) {
+            codePoint = (byte - 0xc0) * 0x40 + (bytes[i++] - 0x80);
+        } else if (byte < 0xf0) {
+            codePoint = (byte - 0xe0) * 0x1000 + (bytes[i++] - 0x80) * 0x40;
+            codePoint += bytes[i++] - 0x80;
+        } else {
+            codePoint = (byte - 0xf0) * 0x40000 + (bytes[i++] - 0x80) * 0x1000;
+            codePoint += (bytes[i++] - 0x80) * 0x40 + (bytes[i++] - 0x80);
+        }
+        if (codePoint >= 0x10000) {
+            codePoint -= 0x10000;
+            codeUnits.push(0xd800 + Math.floor(codePoint / 0x400), 0xdc00 + (codePoint % 0x400));
+        } else {
+            codeUnits.push(codePoint);
+        }
+        // Convert in chunks to stay below the argument limit of `String.fromCharCode`.
+        if (codeUnits.length >= 4096) {
+            text += String.fromCharCode(...codeUnits);
+            codeUnits.length = 0;
+        }
+    }
+    return text + String.fromCharCode(...codeUnits);
+}
+
+/**
+ * Writes tiles into a tile package, a single file containing the tiles of a [[DataProvider]]
+ * together with [[TilePackageMetadata]], to be served without connectivity by a
+ * [[TilePackageDataProvider]].
+ *
+ * The package consists of a header, the tiles, the metadata as JSON and a directory of the tiles
+ * sorted by the morton codes of their tile keys, similar to PMTiles archives. All numbers are
+ * stored in little endian byte order.
+ *
+ * @see [[exportTilePackage]]
+ */
+export class TilePackageWriter {
+    private readonly m_tiles = new Map<number, { data: ArrayBuffer; encoding: TileEncoding }>();
+
+    /**
+     * Creates a new `TilePackageWriter`.
+     *
+     * @param metadata The metadata to store in the package.
+     */
+    constructor(public metadata: TilePackageMetadata = {}) {}
+
+    /**
+     * The number of tiles added to the package.
+     */
+    get tileCount(): number {
+        return this.m_tiles.size;
+    }
+
+    /**
+     * Adds a tile to the package, replacing the tile with the same tile key.
+     *
+     * @param tileKey The tile key of the tile.
+     * @param data The data of the tile as returned by [[DataProvider.getTile]], objects are stored
+     * as JSON.
+     */
+    addTile(tileKey: TileKey, data: ArrayBufferLike | {}) {
+        if (data instanceof ArrayBuffer) {
+            this.m_tiles.set(tileKey.mortonCode(), { data, encoding: TileEncoding.Binary });
+        } else if (ArrayBuffer.isView(data)) {
+            const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+            this.m_tiles.set(tileKey.mortonCode(), {
+                data: bytes.slice().buffer,
+                encoding: TileEncoding.Binary
+            });
+        } else {
+            const json = encodeUtf8(JSON.stringify(data));
+            this.m_tiles.set(tileKey.mortonCode(), {
+                data: json.buffer as ArrayBuffer,
+                encoding: TileEncoding.Json
+            });
+        }
+    }
+
+    /**
+     * Returns the package with the added tiles and the metadata.
+     */
+    finish(): ArrayBuffer {
+        const metadata = encodeUtf8(JSON.stringify(this.metadata));
+        const mortonCodes = Array.from(this.m_tiles.keys()).sort((a, b) => a - b);
+        let tilesLength = 0;
+        this.m_tiles.forEach(tile => {
+            tilesLength += tile.data.byteLength;
+        });
+
+        const metadataOffset = HEADER_SIZE + tilesLength;
+        const directoryOffset = metadataOffset + metadata.byteLength;
+        const result = new ArrayBuffer(directoryOffset + mortonCodes.length * ENTRY_SIZE);
+        const view = new DataView(result);
+        const bytes = new Uint8Array(result);
+
+        view.setUint32(0, MAGIC, true);
+        view.setUint32(4, VERSION, true);
+        view.setUint32(8, metadataOffset, true);
+        view.setUint32(12, metadata.byteLength, true);
+        view.setUint32(16, directoryOffset, true);
+        view.setUint32(20, mortonCodes.length, true);
+
+        let offset = HEADER_SIZE;
+        mortonCodes.forEach((mortonCode, index) => {
+            const { data, encoding } = this.m_tiles.get(mortonCode)!;
+            bytes.set(new Uint8Array(data), offset);
+
+            const entry = directoryOffset + index * ENTRY_SIZE;
+            view.setFloat64(entry, mortonCode, true);
+            view.setUint32(entry + 8, offset, true);
+            view.setUint32(entry + 12, data.byteLength, true);
+            view.setUint32(entry + 16, encoding, true);
+            offset += data.byteLength;
+        });
+        bytes.set(metadata, metadataOffset);
+        return result;
+    }
+}
+
+/**
+ * Reads the tiles of a tile package written by a [[TilePackageWriter]]. Only the header, the
+ * metadata and the directory are loaded when opening the package, the tiles are read when they
+ * are requested.
+ */
+export class TilePackageReader {
+    /**
+     * Opens a tile package.
+     *
+     * @param input The package.
+     * @returns A promise resolved with the reader once the metadata and the directory are loaded.
+     */
+    static async open(input: TilePackageInput): Promise<TilePackageReader> {
+        const header = new DataView(await readInput(input, 0, HEADER_SIZE));
+        if (header.byteLength < HEADER_SIZE || header.getUint32(0, true) !== MAGIC) {
+            throw new Error("TilePackageReader#open: Not a tile package");
+        }
+        const version = header.getUint32(4, true);
+        if (version !== VERSION) {
+            throw new Error(`TilePackageReader#open: Unsupported version ${version}`);
+        }
+
+        const metadataOffset = header.getUint32(8, true);
+        const metadataLength = header.getUint32(12, true);
+        const directoryOffset = header.getUint32(16, true);
+        const entryCount = header.getUint32(20, true);
+
+        const metadata = JSON.parse(
+            decodeUtf8(await readInput(input, metadataOffset, metadataLength))
+        );
+        const directory = new DataView(
+            await readInput(input, directoryOffset, entryCount * ENTRY_SIZE)
+        );
+        const entries = new Map<number, DirectoryEntry>();
+        for (let entry = 0; entry < directory.byteLength; entry += ENTRY_SIZE) {
+            entries.set(directory.getFloat64(entry, true), {
+                offset: directory.getUint32(entry + 8, true),
+                length: directory.getUint32(entry + 12, true),
+                encoding: directory.getUint32(entry + 16, true)
+            });
+        }
+        return new TilePackageReader(input, metadata, entries);
+    }
+
+    private constructor(
+        private readonly m_input: TilePackageInput,
+        readonly metadata: TilePackageMetadata,
+        private readonly m_entries: Map<number, DirectoryEntry>
+    ) {}
+
+    /**
+     * The number of tiles in the package.
+     */
+    get tileCount(): number {
+        return this.m_entries.size;
+    }
+
+    /**
+     * Returns `true` if the package contains a tile.
+     *
+     * @param tileKey The tile key of the tile.
+     */
+    hasTile(tileKey: TileKey): boolean {
+        return this.m_entries.has(tileKey.mortonCode());
+    }
+
+    /**
+     * Reads a tile.
+     *
+     * @param tileKey The tile key of the tile.
+     * @returns A promise resolved with the data of the tile as it was added to the package, or
+     * with `undefined` if the package doesn't contain the tile.
+     */
+    async getTile(tileKey: TileKey): Promise<ArrayBufferLike | {} | undefined> {
+        const entry = this.m_entries.get(tileKey.mortonCode());
+        if (entry === undefined) {
+            return undefined;
+        }
+        const data = await readInput(this.m_input, entry.offset, entry.length);
+        return entry.encoding === TileEncoding.Json ? JSON.parse(decodeUtf8(data)) : data;
+    }
+}
+
+/**
+ * Options of [[exportTilePackage]].
+ */
+export interface TilePackageExportOptions {
+    /**
+     * The tiling scheme of the tiles requested from the [[DataProvider]].
+     */
+    tilingScheme: TilingScheme;
+
+    /**
+     * The area to export.
+     */
+    geoBox: GeoBox;
+
+    /**
+     * The minimum level of the exported tiles.
+     */
+    minLevel: number;
+
+    /**
+     * The maximum level of the exported tiles.
+     */
+    maxLevel: number;
+
+    /**
+     * Additional metadata to store in the package, for example its [[TilePackageMetadata.name]]
+     * and the [[TilePackageMetadata.format]] of the tiles.
+     */
+    metadata?: TilePackageMetadata;
+
+    /**
+     * Maximum number of tiles requested at the same time.
+     *
+     * @default `8`
+     */
+    concurrency?: number;
+
+    /**
+     * Called after each tile has been exported.
+     *
+     * @param exportedTiles The number of tiles exported so far.
+     * @param totalTiles The number of tiles to export.
+     */
+    onProgress?: (exportedTiles: number, totalTiles: number) => void;
+
+    /**
+     * Optional AbortSignal to cancel the export.
+     */
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * Exports the tiles of an area and a range of levels from a [[DataProvider]], for example an
+ * `OmvRestClient`, into a tile package. Empty tiles are not stored.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const restClient = new OmvRestClient({ baseUrl, apiFormat, authenticationCode });
+ * const tilePackage = await exportTilePackage(restClient, {
+ *     tilingScheme: webMercatorTilingScheme,
+ *     geoBox: new GeoBox(new GeoCoordinates(52.5, 13.3), new GeoCoordinates(52.55, 13.45)),
+ *     minLevel: 1,
+ *     maxLevel: 16,
+ *     metadata: { name: "Berlin", format: "omv" }
+ * });
+ * ```
+ *
+ * @param dataProvider The data provider to request the tiles from.
+ * @param options The tiles to export.
+ * @returns A promise resolved with the package, to be served by a [[TilePackageDataProvider]].
+ */
+export async function exportTilePackage(
+    dataProvider: DataProvider,
+    options: TilePackageExportOptions
+): Promise<ArrayBuffer> {
+    const { tilingScheme, geoBox, minLevel, maxLevel, abortSignal } = options;
+    const writer = new TilePackageWriter({
+        minLevel,
+        maxLevel,
+        bounds: [geoBox.west, geoBox.south, geoBox.east, geoBox.north],
+        ...options.metadata
+    });
+
+    const tileKeys: TileKey[] = [];
+    for (let level = minLevel; level <= maxLevel; ++level) {
+        tileKeys.push(...tilingScheme.getTileKeys(geoBox, level));
+    }
+
+    if (!dataProvider.ready()) {
+        await dataProvider.connect();
+    }
+
+    let next = 0;
+    let exportedTiles = 0;
+    const exportTiles = async () => {
+        while (next < tileKeys.length) {
+            if (abortSignal !== undefined && abortSignal.aborted) {
+                const error = new Error("Aborted");
+                error.name = "AbortError";
+                throw error;
+            }
+            const tileKey = tileKeys[next++];
+            const data = await dataProvider.getTile(tileKey, abortSignal);
+            const isEmpty =
+                (data as ArrayBufferLike).byteLength !== undefined
+                    ? (data as ArrayBufferLike).byteLength === 0
+                    : Object.keys(data).length === 0;
+            if (!isEmpty) {
+                writer.addTile(tileKey, data);
+            }
+            if (options.onProgress !== undefined) {
+                options.onProgress(++exportedTiles, tileKeys.length);
+            }
+        }
+    };
+
+    const concurrency = Math.max(getOptionValue(options.concurrency, 8), 1);
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < concurrency; ++i) {
+        workers.push(exportTiles());
+    }
+    await Promise.all(workers);
+    return writer.finish();
+}
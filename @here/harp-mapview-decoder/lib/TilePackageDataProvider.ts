@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileKey } from "@here/harp-geoutils";
+import { DataProvider } from "./DataProvider";
+import { TilePackageInput, TilePackageMetadata, TilePackageReader } from "./TilePackage";
+
+/**
+ * [[DataProvider]] serving the tiles of a tile package without connectivity, for example a package
+ * created with [[exportTilePackage]]. It can be used with any data source taking a
+ * [[DataProvider]], like `OmvDataSource`, `DemDataSource` and `RasterTileDataSource`.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const response = await fetch("berlin.htpk");
+ * const dataSource = new OmvDataSource({
+ *     dataProvider: new TilePackageDataProvider(await response.blob())
+ * });
+ * ```
+ *
+ * In Node.js, packages can be read from files with a `TilePackageFileSource` from
+ * `@here/harp-mapview-decoder/lib/TilePackageFileSource`.
+ */
+export class TilePackageDataProvider implements DataProvider {
+    private m_reader?: TilePackageReader;
+    private m_readerPromise?: Promise<TilePackageReader>;
+
+    /**
+     * Constructs a new `TilePackageDataProvider`.
+     *
+     * @param m_input The package, as `ArrayBuffer`, `Blob` or [[TilePackageSource]].
+     */
+    constructor(private readonly m_input: TilePackageInput) {}
+
+    /**
+     * Opens the package.
+     */
+    async connect(): Promise<void> {
+        if (this.m_readerPromise === undefined) {
+            this.m_readerPromise = TilePackageReader.open(this.m_input);
+        }
+        this.m_reader = await this.m_readerPromise;
+    }
+
+    ready(): boolean {
+        return this.m_reader !== undefined;
+    }
+
+    /**
+     * The metadata of the package, available once connected.
+     */
+    get metadata(): TilePackageMetadata | undefined {
+        return this.m_reader !== undefined ? this.m_reader.metadata : undefined;
+    }
+
+    /**
+     * Reads a tile from the package. Tiles missing in the package are returned as empty tiles.
+     *
+     * @param tileKey The tile key of the tile.
+     */
+    async getTile(tileKey: TileKey): Promise<ArrayBufferLike | {}> {
+        if (this.m_reader === undefined) {
+            await this.connect();
+        }
+        const data = await this.m_reader!.getTile(tileKey);
+        return data !== undefined ? data : new ArrayBuffer(0);
+    }
+}
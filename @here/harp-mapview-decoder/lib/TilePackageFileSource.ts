@@ -0,0 +1,61 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import * as fs from "fs";
+import { TilePackageSource } from "./TilePackage";
+
+/**
+ * [[TilePackageSource]] reading a tile package from a file in Node.js. Only the requested ranges
+ * of the file are read, so packages larger than the available memory can be served.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const dataProvider = new TilePackageDataProvider(new TilePackageFileSource("berlin.htpk"));
+ * ```
+ */
+export class TilePackageFileSource implements TilePackageSource {
+    private m_fileDescriptor?: Promise<number>;
+
+    /**
+     * Constructs a new `TilePackageFileSource`.
+     *
+     * @param path The path of the file.
+     */
+    constructor(readonly path: string) {}
+
+    async read(offset: number, length: number): Promise<ArrayBuffer> {
+        if (this.m_fileDescriptor === undefined) {
+            this.m_fileDescriptor = new Promise((resolve, reject) => {
+                fs.open(this.path, "r", (error, fd) => (error ? reject(error) : resolve(fd)));
+            });
+        }
+        const fileDescriptor = await this.m_fileDescriptor;
+        const buffer = Buffer.alloc(length);
+        const bytesRead = await new Promise<number>((resolve, reject) => {
+            fs.read(fileDescriptor, buffer, 0, length, offset, (error, count) =>
+                error ? reject(error) : resolve(count)
+            );
+        });
+        return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead);
+    }
+
+    /**
+     * Closes the file.
+     */
+    async close(): Promise<void> {
+        if (this.m_fileDescriptor === undefined) {
+            return;
+        }
+        const fileDescriptor = await this.m_fileDescriptor;
+        this.m_fileDescriptor = undefined;
+        await new Promise<void>((resolve, reject) => {
+            fs.close(fileDescriptor, error => (error ? reject(error) : resolve()));
+        });
+    }
+}
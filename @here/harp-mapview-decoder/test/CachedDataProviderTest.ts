@@ -0,0 +1,62 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+import { TileKey } from "@here/harp-geoutils";
+import { TileCache } from "@here/harp-transfer-manager";
+import { assert } from "chai";
+import * as sinon from "sinon";
+import { CachedDataProvider, DataProvider } from "../index";
+
+describe("CachedDataProvider", function() {
+    function createDataProvider(getTile: sinon.SinonStub): DataProvider {
+        return {
+            async connect() {
+                // not needed
+            },
+            ready() {
+                return true;
+            },
+            getTile
+        };
+    }
+
+    it("loads tiles missing in the cache only once", async function() {
+        const getTile = sinon.stub().callsFake(async (tileKey: TileKey) => {
+            return new Uint8Array([tileKey.level]).buffer;
+        });
+        const cache = new TileCache();
+        const dataProvider = new CachedDataProvider(createDataProvider(getTile), {
+            cache,
+            namespace: "omv"
+        });
+
+        const first = (await dataProvider.getTile(new TileKey(1, 2, 3))) as ArrayBuffer;
+        const second = (await dataProvider.getTile(new TileKey(1, 2, 3))) as ArrayBuffer;
+
+        assert.deepEqual(Array.from(new Uint8Array(first)), [3]);
+        assert.deepEqual(Array.from(new Uint8Array(second)), [3]);
+        assert.equal(getTile.callCount, 1);
+        assert.deepInclude(cache.statistics, { hits: 1, misses: 1 });
+        assert.isDefined(await cache.get(`omv/${new TileKey(1, 2, 3).mortonCode()}`));
+    });
+
+    it("loads tiles again once they are older than the maximum age", async function() {
+        const getTile = sinon.stub().resolves(new ArrayBuffer(1));
+        const dataProvider = new CachedDataProvider(createDataProvider(getTile), {
+            cache: new TileCache(),
+            maxAge: -1
+        });
+
+        await dataProvider.getTile(new TileKey(0, 0, 0));
+        await dataProvider.getTile(new TileKey(0, 0, 0));
+
+        assert.equal(getTile.callCount, 2);
+    });
+});
@@ -0,0 +1,155 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+import { GeoBox, GeoCoordinates, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    DataProvider,
+    exportTilePackage,
+    TilePackageDataProvider,
+    TilePackageReader,
+    TilePackageWriter
+} from "../index";
+import { TilePackageFileSource } from "../lib/TilePackageFileSource";
+
+function createTilePackage() {
+    const writer = new TilePackageWriter({ name: "test", format: "omv" });
+    writer.addTile(new TileKey(1, 2, 3), new Uint8Array([1, 2, 3]).buffer);
+    writer.addTile(new TileKey(0, 0, 1), new Uint8Array([4, 5]));
+    writer.addTile(new TileKey(0, 0, 0), { type: "FeatureCollection", features: [] });
+    return writer.finish();
+}
+
+describe("TilePackage", function() {
+    it("reads the tiles and metadata written to a package", async function() {
+        const reader = await TilePackageReader.open(createTilePackage());
+
+        assert.deepEqual(reader.metadata, { name: "test", format: "omv" });
+        assert.equal(reader.tileCount, 3);
+        assert.isTrue(reader.hasTile(new TileKey(1, 2, 3)));
+        assert.isFalse(reader.hasTile(new TileKey(1, 1, 3)));
+
+        const binary = (await reader.getTile(new TileKey(1, 2, 3))) as ArrayBuffer;
+        assert.deepEqual(Array.from(new Uint8Array(binary)), [1, 2, 3]);
+        const view = (await reader.getTile(new TileKey(0, 0, 1))) as ArrayBuffer;
+        assert.deepEqual(Array.from(new Uint8Array(view)), [4, 5]);
+        assert.deepEqual(await reader.getTile(new TileKey(0, 0, 0)), {
+            type: "FeatureCollection",
+            features: []
+        });
+        assert.isUndefined(await reader.getTile(new TileKey(1, 1, 3)));
+    });
+
+    it("keeps non-ASCII text of tiles and metadata", async function() {
+        const writer = new TilePackageWriter({ name: "Zürich – 東京 🗺" });
+        writer.addTile(new TileKey(0, 0, 0), { name: "Straße", labels: ["القاهرة", "😀"] });
+
+        const reader = await TilePackageReader.open(writer.finish());
+        assert.equal(reader.metadata.name, "Zürich – 東京 🗺");
+        assert.deepEqual(await reader.getTile(new TileKey(0, 0, 0)), {
+            name: "Straße",
+            labels: ["القاهرة", "😀"]
+        });
+    });
+
+    it("reads packages from blobs and files", async function() {
+        const tilePackage = createTilePackage();
+
+        // Blobs are only available in browsers and newer versions of node.
+        if (typeof Blob !== "undefined") {
+            const blobReader = await TilePackageReader.open(new Blob([tilePackage]));
+            const blobTile = (await blobReader.getTile(new TileKey(1, 2, 3))) as ArrayBuffer;
+            assert.deepEqual(Array.from(new Uint8Array(blobTile)), [1, 2, 3]);
+        }
+
+        const fileName = path.join(os.tmpdir(), `harp-tile-package-${process.pid}.htpk`);
+        fs.writeFileSync(fileName, Buffer.from(tilePackage));
+        const fileSource = new TilePackageFileSource(fileName);
+        try {
+            const fileReader = await TilePackageReader.open(fileSource);
+            assert.equal(fileReader.metadata.name, "test");
+            const fileTile = (await fileReader.getTile(new TileKey(1, 2, 3))) as ArrayBuffer;
+            assert.deepEqual(Array.from(new Uint8Array(fileTile)), [1, 2, 3]);
+        } finally {
+            await fileSource.close();
+            fs.unlinkSync(fileName);
+        }
+    });
+
+    it("rejects data which is not a tile package", async function() {
+        let error: Error | undefined;
+        try {
+            await TilePackageReader.open(new ArrayBuffer(32));
+        } catch (e) {
+            error = e;
+        }
+        assert.isDefined(error);
+        assert.include(error!.message, "Not a tile package");
+    });
+
+    it("exports the tiles of a data provider to be served offline", async function() {
+        const requestedTiles: number[] = [];
+        const onlineProvider: DataProvider = {
+            async connect() {
+                // not needed
+            },
+            ready() {
+                return true;
+            },
+            async getTile(tileKey: TileKey) {
+                requestedTiles.push(tileKey.mortonCode());
+                // Tiles in the west are empty.
+                return tileKey.column < tileKey.columnCount() / 2
+                    ? new ArrayBuffer(0)
+                    : new Uint8Array([tileKey.level]).buffer;
+            }
+        };
+        const geoBox = new GeoBox(new GeoCoordinates(-10, -10), new GeoCoordinates(10, 10));
+        const progress: number[] = [];
+
+        const tilePackage = await exportTilePackage(onlineProvider, {
+            tilingScheme: webMercatorTilingScheme,
+            geoBox,
+            minLevel: 1,
+            maxLevel: 2,
+            metadata: { name: "equator" },
+            concurrency: 2,
+            onProgress: (exportedTiles, totalTiles) => {
+                assert.equal(totalTiles, 8);
+                progress.push(exportedTiles);
+            }
+        });
+
+        // Four tiles around the equator at levels 1 and 2.
+        assert.equal(requestedTiles.length, 8);
+        assert.deepEqual(progress, [1, 2, 3, 4, 5, 6, 7, 8]);
+
+        const offlineProvider = new TilePackageDataProvider(tilePackage);
+        assert.isFalse(offlineProvider.ready());
+        await offlineProvider.connect();
+        assert.isTrue(offlineProvider.ready());
+        assert.deepEqual(offlineProvider.metadata, {
+            name: "equator",
+            minLevel: 1,
+            maxLevel: 2,
+            bounds: [-10, -10, 10, 10]
+        });
+
+        const eastTile = (await offlineProvider.getTile(new TileKey(1, 2, 2))) as ArrayBuffer;
+        assert.deepEqual(Array.from(new Uint8Array(eastTile)), [2]);
+        const westTile = (await offlineProvider.getTile(new TileKey(1, 1, 2))) as ArrayBuffer;
+        assert.equal(westTile.byteLength, 0);
+    });
+});
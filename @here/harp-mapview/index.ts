@@ -20,6 +20,8 @@ export * from "./lib/DepthPrePass";
 export * from "./lib/DisplacementMap";
 export * from "./lib/ElevationProvider";
 export * from "./lib/ElevationRangeSource";
+export * from "./lib/FeatureState";
+export * from "./lib/HeatmapPoints";
 export * from "./lib/image/Image";
 export * from "./lib/image/ImageCache";
 export * from "./lib/image/MapViewImageCache";
@@ -32,11 +34,13 @@ export * from "./lib/poi/PoiManager";
 export * from "./lib/poi/PoiTableManager";
 export * from "./lib/RoadPicker";
 export * from "./lib/Statistics";
+export * from "./lib/TerrainDraping";
 export * from "./lib/text/TextElement";
 export * from "./lib/text/TextElementsRenderer";
 export * from "./lib/text/TextStyleCache";
 export * from "./lib/ThemeLoader";
 export * from "./lib/Tile";
+export * from "./lib/TileCrossFade";
 export * from "./lib/geometry/TileDataAccessor";
 export * from "./lib/geometry/TileGeometry";
 export * from "./lib/Utils";
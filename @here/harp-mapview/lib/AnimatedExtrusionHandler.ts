@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ExtrusionMappingAttributes } from "@here/harp-datasource-protocol";
 import { TileKey } from "@here/harp-geoutils";
 import { ExtrusionFeature } from "@here/harp-materials";
 import { MathUtils } from "@here/harp-utils";
@@ -46,6 +47,8 @@ export class AnimatedExtrusionHandler {
     private m_zoomDirection: number = 0;
     private m_forceAnimatedExtrusion: boolean | undefined;
     private m_forceAnimatedExtrusionDuration: number | undefined;
+    private m_extrusionMapping: string | undefined;
+    private m_mappingTileHandlerMap: Map<Tile, ExtrusionMappingTileHandler> = new Map();
 
     /**
      * Creates an [[AnimatedExtrusionHandler]] in [[MapView]].
@@ -116,6 +119,45 @@ export class AnimatedExtrusionHandler {
         this.m_forceAnimatedExtrusionDuration = extrusionDuration;
     }
 
+    /**
+     * Name of the active mapping in the `extrusionMappings` of the extruded polygon techniques, or
+     * `undefined` if the buildings are extruded to their default height.
+     */
+    get extrusionMapping(): string | undefined {
+        return this.m_extrusionMapping;
+    }
+
+    /**
+     * Selects the active mapping in the `extrusionMappings` of the extruded polygon techniques.
+     * The buildings of the loaded tiles transition to the heights and colors of the mapping within
+     * [[duration]] milliseconds, buildings of tiles loaded later use the mapping right away.
+     */
+    set extrusionMapping(mapping: string | undefined) {
+        if (mapping === this.m_extrusionMapping) {
+            return;
+        }
+        this.m_extrusionMapping = mapping;
+        this.m_mappingTileHandlerMap.forEach(tileHandler => {
+            tileHandler.startTransition(mapping, this.duration);
+        });
+    }
+
+    /**
+     * Adds an [[ExtrusionMappingTileHandler]] to [[AnimatedExtrusionHandler]], and applies the
+     * active extrusion mapping to its [[Tile]].
+     */
+    addMappingTileHandler(tileHandler: ExtrusionMappingTileHandler): void {
+        this.m_mappingTileHandlerMap.set(tileHandler.tile, tileHandler);
+        tileHandler.startTransition(this.m_extrusionMapping, 0);
+    }
+
+    /**
+     * Removes a tile from the list subscribed for extrusion mapping updates.
+     */
+    removeMappingTile(tile: Tile): void {
+        this.m_mappingTileHandlerMap.delete(tile);
+    }
+
     /**
      * Adds an [[AnimatedExtrusionTileHandler]] to [[AnimatedExtrusionHandler]]
      */
@@ -357,3 +399,237 @@ export class AnimatedExtrusionTileHandler {
         this.m_tile.dataSource.requestUpdate();
     };
 }
+
+/**
+ * Buffers of a geometry with extrusion mappings, see [[ExtrusionMappingTileHandler]].
+ */
+interface ExtrusionMappingGeometry {
+    /**
+     * Extrusion axes and colors of the default mapping and the named mappings.
+     */
+    defaultMapping: ExtrusionMappingArrays;
+    mappings: Map<string, ExtrusionMappingArrays>;
+
+    /**
+     * Attributes with the extrusion axes and colors at the start and the end of the current
+     * transition.
+     */
+    source: ExtrusionMappingBuffers;
+    target: ExtrusionMappingBuffers;
+}
+
+interface ExtrusionMappingArrays {
+    extrusionAxis: ArrayLike<number>;
+    color?: ArrayLike<number>;
+}
+
+interface ExtrusionMappingBuffers {
+    extrusionAxis: THREE.BufferAttribute;
+    color?: THREE.BufferAttribute;
+}
+
+/**
+ * Animates the transition of the extruded objects in a [[Tile]] between the height and color
+ * mappings of their technique, see [[ExtrudedPolygonTechniqueParams.extrusionMappings]].
+ *
+ * The extrusion axes and colors at the start and the end of a transition are stored in vertex
+ * attributes, which are interpolated in the shaders by the ratio of the transition, see
+ * [[ExtrusionFeature.enableMapping]]. The attributes are only written when a transition starts,
+ * the animation itself only updates a uniform shared by the materials of all objects in the tile.
+ */
+export class ExtrusionMappingTileHandler {
+    private m_geometries: ExtrusionMappingGeometry[] = [];
+    private m_ratio = new THREE.Uniform(1);
+    private m_startTime: number | undefined;
+    private m_duration: number = 0;
+    private m_mapView: MapView;
+
+    /**
+     * Creates an `ExtrusionMappingTileHandler`.
+     *
+     * @param m_tile The [[Tile]] containing the geometries.
+     * @param geometries The geometries with the attributes of their extrusion mappings, and the
+     * objects rendering them, for example the mesh, its depth pre-pass mesh and its edges.
+     */
+    constructor(
+        private m_tile: Tile,
+        geometries: Array<{
+            geometry: THREE.BufferGeometry;
+            objects: THREE.Object3D[];
+            mappings: { [name: string]: ExtrusionMappingAttributes };
+        }>
+    ) {
+        this.m_mapView = m_tile.mapView;
+
+        for (const { geometry, objects, mappings } of geometries) {
+            const extrusionAxis = geometry.getAttribute("extrusionAxis") as THREE.BufferAttribute;
+            const color = geometry.getAttribute("color") as THREE.BufferAttribute | undefined;
+            if (extrusionAxis === undefined) {
+                continue;
+            }
+            const mappingArrays = new Map<string, ExtrusionMappingArrays>();
+            for (const name of Object.keys(mappings)) {
+                const mapping = mappings[name];
+                mappingArrays.set(name, {
+                    extrusionAxis: new Float32Array(mapping.extrusionAxis.buffer),
+                    color:
+                        mapping.color !== undefined
+                            ? new Float32Array(mapping.color.buffer)
+                            : undefined
+                });
+            }
+            const defaultMapping: ExtrusionMappingArrays = {
+                extrusionAxis: extrusionAxis.array,
+                color: color !== undefined ? color.array : undefined
+            };
+            const createBuffers = (): ExtrusionMappingBuffers => ({
+                extrusionAxis: new THREE.BufferAttribute(
+                    new Float32Array(defaultMapping.extrusionAxis),
+                    3
+                ),
+                color:
+                    defaultMapping.color !== undefined
+                        ? new THREE.BufferAttribute(new Float32Array(defaultMapping.color), 3)
+                        : undefined
+            });
+            const entry: ExtrusionMappingGeometry = {
+                defaultMapping,
+                mappings: mappingArrays,
+                source: createBuffers(),
+                target: createBuffers()
+            };
+            this.m_geometries.push(entry);
+
+            for (const object of objects) {
+                this.addObject(object, entry);
+            }
+        }
+    }
+
+    /**
+     * Returns the [[Tile]] related to the `ExtrusionMappingTileHandler`.
+     */
+    get tile(): Tile {
+        return this.m_tile;
+    }
+
+    /**
+     * Starts the transition of the geometries to a mapping, starting from their current state.
+     *
+     * @param mapping The name of the mapping, `undefined` for the default mapping.
+     * @param duration The duration of the transition in milliseconds, `0` to apply the mapping
+     * immediately.
+     */
+    startTransition(mapping: string | undefined, duration: number) {
+        const ratio = this.m_ratio.value as number;
+        for (const entry of this.m_geometries) {
+            const to = mapping !== undefined ? entry.mappings.get(mapping) : undefined;
+            // Geometries without the mapping transition to their default mapping.
+            const toAxes = to !== undefined ? to.extrusionAxis : entry.defaultMapping.extrusionAxis;
+            const toColors =
+                to !== undefined && to.color !== undefined ? to.color : entry.defaultMapping.color;
+
+            this.startBufferTransition(
+                entry.source.extrusionAxis,
+                entry.target.extrusionAxis,
+                toAxes,
+                ratio
+            );
+            if (entry.source.color !== undefined && entry.target.color !== undefined) {
+                this.startBufferTransition(
+                    entry.source.color,
+                    entry.target.color,
+                    toColors!,
+                    ratio
+                );
+            }
+        }
+        this.m_duration = duration;
+        this.m_startTime = undefined;
+        this.stopTransition();
+        if (duration > 0) {
+            this.m_mapView.addEventListener(MapViewEventNames.AfterRender, this.animateTransition);
+        }
+        this.animateTransition();
+    }
+
+    /**
+     * Cancels the transition and removes the handler from the [[AnimatedExtrusionHandler]].
+     */
+    dispose() {
+        this.stopTransition();
+        this.m_mapView.animatedExtrusionHandler.removeMappingTile(this.m_tile);
+    }
+
+    /**
+     * Adds the attributes of the transition to the geometry of an object, and enables the
+     * transition in its material.
+     */
+    private addObject(object: THREE.Object3D, entry: ExtrusionMappingGeometry) {
+        const mesh = object as THREE.Mesh;
+        const geometry = mesh.geometry;
+        const material = mesh.material;
+        if (!(geometry instanceof THREE.BufferGeometry) || material === undefined) {
+            return;
+        }
+        geometry.addAttribute("extrusionSourceAxis", entry.source.extrusionAxis);
+        geometry.addAttribute("extrusionTargetAxis", entry.target.extrusionAxis);
+        const colors =
+            geometry.getAttribute("color") !== undefined &&
+            entry.source.color !== undefined &&
+            entry.target.color !== undefined;
+        if (colors) {
+            geometry.addAttribute("extrusionSourceColor", entry.source.color!);
+            geometry.addAttribute("extrusionTargetColor", entry.target.color!);
+        }
+        const materials = material instanceof Array ? material : [material];
+        for (const objectMaterial of materials) {
+            ExtrusionFeature.enableMapping(objectMaterial, this.m_ratio, colors);
+        }
+    }
+
+    /**
+     * Sets the source of a transition to its current state, and its target to the given values.
+     *
+     * @param source The attribute with the values at the start of the transition.
+     * @param target The attribute with the values at the end of the transition.
+     * @param values The new values at the end of the transition.
+     * @param ratio The current ratio of the transition.
+     */
+    private startBufferTransition(
+        source: THREE.BufferAttribute,
+        target: THREE.BufferAttribute,
+        values: ArrayLike<number>,
+        ratio: number
+    ) {
+        const sourceArray = source.array as Float32Array;
+        const targetArray = target.array as Float32Array;
+        for (let i = 0; i < sourceArray.length; ++i) {
+            sourceArray[i] += (targetArray[i] - sourceArray[i]) * ratio;
+        }
+        targetArray.set(values);
+        source.needsUpdate = true;
+        target.needsUpdate = true;
+    }
+
+    private stopTransition() {
+        this.m_mapView.removeEventListener(MapViewEventNames.AfterRender, this.animateTransition);
+    }
+
+    private animateTransition = () => {
+        const currentTime = Date.now();
+        if (this.m_startTime === undefined) {
+            this.m_startTime = currentTime;
+        }
+        const progress =
+            this.m_duration > 0
+                ? Math.min((currentTime - this.m_startTime) / this.m_duration, 1)
+                : 1;
+        this.m_ratio.value = MathUtils.easeInOutCubic(0, 1, progress);
+
+        if (progress >= 1) {
+            this.stopTransition();
+        }
+        this.m_tile.dataSource.requestUpdate();
+    };
+}
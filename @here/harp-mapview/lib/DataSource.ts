@@ -7,6 +7,7 @@ import { StyleSet } from "@here/harp-datasource-protocol";
 import { Projection, TileKey, TilingScheme } from "@here/harp-geoutils";
 import { assert } from "@here/harp-utils";
 import * as THREE from "three";
+import { FeaturePredicate, FeatureState } from "./FeatureState";
 import { MapView } from "./MapView";
 import { Tile } from "./Tile";
 
@@ -85,6 +86,16 @@ export abstract class DataSource extends THREE.EventDispatcher {
      */
     private m_storageLevelOffset: number = 0;
 
+    /**
+     * The states of the features of this `DataSource`, by feature ID.
+     */
+    private readonly m_featureStates = new Map<number, FeatureState>();
+
+    /**
+     * The predicate selecting the hidden features of this `DataSource`.
+     */
+    private m_hiddenFeatures?: FeaturePredicate;
+
     /**
      * Constructs a new `DataSource`.
      *
@@ -356,10 +367,105 @@ export abstract class DataSource extends THREE.EventDispatcher {
         return true;
     }
 
+    /**
+     * The states of the features of this `DataSource`, by feature ID.
+     */
+    get featureStates(): ReadonlyMap<number, FeatureState> {
+        return this.m_featureStates;
+    }
+
+    /**
+     * Returns the state of a feature, or `undefined` if the feature has no state.
+     *
+     * @param featureId The ID of the feature.
+     */
+    getFeatureState(featureId: number): FeatureState | undefined {
+        return this.m_featureStates.get(featureId);
+    }
+
+    /**
+     * Sets the state of a feature. The given state is merged into the current state of the
+     * feature, a state set to `false` is removed.
+     *
+     * The features in the loaded tiles are updated without decoding the tiles again. Their shaders
+     * apply the color and opacity defined in the `featureStates` of their technique.
+     *
+     * @param featureId The ID of the feature.
+     * @param state The states to set, for example `{ hover: true }`.
+     */
+    setFeatureState(featureId: number, state: FeatureState) {
+        const newState: FeatureState = { ...this.m_featureStates.get(featureId), ...state };
+        for (const name of Object.keys(newState)) {
+            if (newState[name] !== true) {
+                delete newState[name];
+            }
+        }
+        if (Object.keys(newState).length > 0) {
+            this.m_featureStates.set(featureId, newState);
+        } else {
+            this.m_featureStates.delete(featureId);
+        }
+        this.updateFeatureStates(featureId);
+    }
+
+    /**
+     * Removes the state of a feature, or of all features if `featureId` is `undefined`.
+     *
+     * @param featureId The ID of the feature.
+     */
+    removeFeatureState(featureId?: number) {
+        if (featureId === undefined) {
+            this.m_featureStates.clear();
+        } else {
+            this.m_featureStates.delete(featureId);
+        }
+        this.updateFeatureStates(featureId);
+    }
+
+    /**
+     * The predicate selecting the hidden features of this `DataSource`, or `undefined` if all
+     * features are visible.
+     */
+    get hiddenFeatures(): FeaturePredicate | undefined {
+        return this.m_hiddenFeatures;
+    }
+
+    /**
+     * Hides the features matching a predicate, or shows all features if `predicate` is
+     * `undefined`.
+     *
+     * The loaded tiles are updated without loading or decoding them again, their shaders discard
+     * the hidden features. Only features with a feature ID can be hidden, so decoders have to
+     * gather feature IDs, for example with the `gatherFeatureIds` option of the `OmvDataSource`.
+     * The properties passed to the predicate are the `objInfos` of the geometry or the `userData`
+     * of text elements, if the decoder provides them.
+     *
+     * @param predicate Returns `true` for the features to hide.
+     */
+    setHiddenFeatures(predicate: FeaturePredicate | undefined) {
+        if (predicate === this.m_hiddenFeatures) {
+            return;
+        }
+        this.m_hiddenFeatures = predicate;
+        this.updateFeatureStates();
+    }
+
     /**
      * Sends a request to the [[MapView]] to redraw the scene.
      */
     requestUpdate() {
         this.dispatchEvent(UPDATE_EVENT);
     }
+
+    private updateFeatureStates(featureId?: number) {
+        if (this.m_mapView === undefined) {
+            return;
+        }
+        this.m_mapView.forEachCachedTile(tile => {
+            if (tile.dataSource === this) {
+                tile.updateFeatureStates(featureId);
+            }
+        });
+        this.requestUpdate();
+    }
 }
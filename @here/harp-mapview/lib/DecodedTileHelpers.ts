@@ -21,13 +21,16 @@ import {
 import {
     CirclePointsMaterial,
     DashedLineMaterial,
+    HeatmapMaterial,
     HighPrecisionLineMaterial,
     MapMeshBasicMaterial,
     MapMeshStandardMaterial,
-    SolidLineMaterial
+    SolidLineMaterial,
+    TexturedLineMaterial
 } from "@here/harp-materials";
 import { LoggerManager } from "@here/harp-utils";
 import * as THREE from "three";
+import { HeatmapPoints } from "./HeatmapPoints";
 import { Circles, Squares } from "./MapViewPoints";
 import { toPixelFormat, toTextureDataType, toTextureFilter, toWrappingMode } from "./ThemeHelpers";
 
@@ -285,12 +288,15 @@ export function getObjectConstructor(technique: Technique): ObjectConstructor |
         case "fill":
         case "solid-line":
         case "dashed-line":
+        case "textured-line":
             return THREE.Mesh as ObjectConstructor;
 
         case "circles":
             return Circles as ObjectConstructor;
         case "squares":
             return Squares as ObjectConstructor;
+        case "heatmap":
+            return HeatmapPoints as ObjectConstructor;
 
         case "line":
             return THREE.LineSegments as ObjectConstructor;
@@ -333,7 +339,8 @@ export const BASE_TECHNIQUE_NON_MATERIAL_PROPS = [
     "renderOrderBiasProperty",
     "renderOrderBiasGroup",
     "renderOrderBiasRange",
-    "transient"
+    "transient",
+    "featureStates"
 ];
 
 /**
@@ -371,6 +378,9 @@ export function getMaterialConstructor(technique: Technique): MaterialConstructo
         case "dashed-line":
             return DashedLineMaterial;
 
+        case "textured-line":
+            return TexturedLineMaterial;
+
         case "fill":
             return MapMeshBasicMaterial;
 
@@ -380,6 +390,9 @@ export function getMaterialConstructor(technique: Technique): MaterialConstructo
         case "circles":
             return CirclePointsMaterial;
 
+        case "heatmap":
+            return HeatmapMaterial;
+
         case "line":
         case "segments":
             return THREE.LineBasicMaterial;
@@ -5,6 +5,7 @@
  */
 
 import { TileKey } from "@here/harp-geoutils";
+import * as THREE from "three";
 
 export interface DisplacementMapTexture {
     texture: Float32Array;
@@ -17,3 +18,29 @@ export interface DisplacementMap {
 
     texture: DisplacementMapTexture;
 }
+
+/**
+ * Samples a [[DisplacementMap]] with bilinear interpolation.
+ *
+ * @param displacementMap The displacement map to sample.
+ * @param u Horizontal position in the tile from `0` (west) to `1` (east).
+ * @param v Vertical position in the tile from `0` (south) to `1` (north).
+ * @returns The interpolated elevation.
+ */
+export function sampleDisplacementMap(displacementMap: DisplacementMap, u: number, v: number) {
+    const { texture, width, height } = displacementMap.texture;
+
+    // Elevations are stored at the pixel centers.
+    const x = THREE.Math.clamp(u * width - 0.5, 0, width - 1);
+    const y = THREE.Math.clamp(v * height - 0.5, 0, height - 1);
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const bottom = texture[y0 * width + x0] * (1 - fx) + texture[y0 * width + x1] * fx;
+    const top = texture[y1 * width + x0] * (1 - fx) + texture[y1 * width + x1] * fx;
+    return bottom * (1 - fy) + top * fy;
+}
@@ -0,0 +1,299 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getPropertyValue, Technique } from "@here/harp-datasource-protocol";
+import { FeatureStateFeature, HiddenThreeJSMaterialProperties } from "@here/harp-materials";
+import { chainCallbacks } from "@here/harp-utils";
+import * as THREE from "three";
+import { ColorCache } from "./ColorCache";
+import { MapView } from "./MapView";
+
+/**
+ * Maximum width of the textures holding the states of the features of an object.
+ */
+const MAX_FEATURE_STATE_MAP_WIDTH = 1024;
+
+/**
+ * Value of the green channel of the feature state map for hidden features.
+ */
+const HIDDEN_FEATURE = 255;
+
+/**
+ * The materials rendering the features of an object with feature states.
+ */
+const featureStateMaterials = new WeakSet<THREE.Material>();
+
+/**
+ * The runtime state of a feature, for example `{ hover: true }`. For every state set to `true`,
+ * the attributes defined for that state in [[BaseTechniqueParams.featureStates]] are applied to the
+ * feature.
+ *
+ * @see [[MapView.setFeatureState]]
+ */
+export interface FeatureState {
+    [state: string]: boolean;
+}
+
+/**
+ * A predicate over the features of a [[DataSource]]. Features for which it returns `true` are
+ * hidden, see [[DataSource.setHiddenFeatures]].
+ *
+ * @param featureId The ID of the feature, if the decoder gathered feature IDs.
+ * @param properties The properties of the feature, if the decoder provided them, for example as
+ * `objInfos` of the geometry or `userData` of a text element.
+ */
+export type FeaturePredicate = (featureId: number | undefined, properties?: {}) => boolean;
+
+/**
+ * Data stored in `userData.featureStates` of objects created from geometry with feature IDs.
+ *
+ * @hidden
+ */
+interface FeatureStateData {
+    /**
+     * The technique the object was created from.
+     */
+    technique: Technique;
+
+    /**
+     * The feature IDs of the geometry.
+     */
+    ids: Array<number | undefined>;
+
+    /**
+     * The properties of every feature in [[ids]], if available.
+     */
+    objInfos?: Array<{} | undefined>;
+
+    /**
+     * The names of the states of the technique, in the order of their bits in the feature state
+     * map.
+     */
+    stateNames: string[];
+
+    /**
+     * The texture with the states of the features, with one texel per feature in [[ids]].
+     */
+    map: THREE.DataTexture;
+
+    /**
+     * The texels of [[map]]. The red channel holds the bitmask of the states of a feature, the
+     * green channel is set for hidden features.
+     */
+    texels: Uint8Array;
+}
+
+/**
+ * Prepares an object to render its features in different states, and to hide single features.
+ *
+ * The states of the features are stored in a texture, from which the shaders of the object's
+ * material read the state of every fragment. The colors and opacities of the states are evaluated
+ * at the zoom level of every frame. Changing the state of a feature or the hidden features only
+ * updates the texture, so neither the geometry nor the material of the object change.
+ *
+ * Objects with materials that don't support feature states are left unchanged, see
+ * [[FeatureStateFeature.enable]].
+ *
+ * @param object The object to prepare.
+ * @param technique The technique the object was created from.
+ * @param ids The feature IDs of the geometry.
+ * @param starts The first index of every feature in `ids`, or the first vertex if the geometry has
+ * no index.
+ * @param mapView The [[MapView]] rendering the object.
+ * @param objInfos The properties of every feature in `ids`, if available.
+ * @param applyStates `false` to only hide features, without applying the feature states of the
+ * technique, for example for edges or depth pre-pass meshes.
+ */
+export function addFeatureStateData(
+    object: THREE.Object3D,
+    technique: Technique,
+    ids: Array<number | undefined>,
+    starts: number[],
+    mapView: MapView,
+    objInfos?: Array<{} | undefined>,
+    applyStates: boolean = true
+) {
+    let material = (object as THREE.Mesh).material;
+    if (material === undefined || material instanceof Array || ids.length !== starts.length) {
+        return;
+    }
+    if (featureStateMaterials.has(material)) {
+        // The feature state map is a uniform, so every object needs its own material.
+        material = material.clone();
+        (object as THREE.Mesh).material = material;
+    }
+    const uniforms = FeatureStateFeature.enable(material);
+    if (uniforms === undefined) {
+        return;
+    }
+    featureStateMaterials.add(material);
+    const geometry = (object as THREE.Mesh).geometry as THREE.BufferGeometry;
+    if (geometry.getAttribute("featureIndex") === undefined) {
+        geometry.addAttribute("featureIndex", createFeatureIndexAttribute(geometry, starts));
+    }
+
+    const width = Math.max(Math.min(ids.length, MAX_FEATURE_STATE_MAP_WIDTH), 1);
+    const height = Math.max(Math.ceil(ids.length / width), 1);
+    const texels = new Uint8Array(width * height * 4);
+    const map = new THREE.DataTexture(
+        texels,
+        width,
+        height,
+        THREE.RGBAFormat,
+        THREE.UnsignedByteType
+    );
+    map.magFilter = THREE.NearestFilter;
+    map.minFilter = THREE.NearestFilter;
+    map.generateMipmaps = false;
+    map.needsUpdate = true;
+    uniforms.featureStateMap.value = map;
+    uniforms.featureStateMapSize.value.set(width, height);
+
+    const featureStates = technique.featureStates;
+    const stateNames =
+        featureStates !== undefined
+            ? Object.keys(featureStates).slice(0, FeatureStateFeature.MAX_FEATURE_STATES)
+            : [];
+    const data: FeatureStateData = { technique, ids, objInfos, stateNames, map, texels };
+    object.userData.featureStates = data;
+
+    if (!applyStates || featureStates === undefined || stateNames.length === 0) {
+        return;
+    }
+    // Blending is needed to render features with the opacity of a state, but the object must
+    // stay in the render queue of its material.
+    const hasOpacity = stateNames.some(name => featureStates[name].opacity !== undefined);
+    let transparent = false;
+
+    object.onBeforeRender = chainCallbacks(
+        object.onBeforeRender,
+        (renderer, scene, camera, renderGeometry, renderMaterial, group) => {
+            const colors = uniforms.featureStateColors.value as THREE.Vector4[];
+            const opacities = uniforms.featureStateOpacities.value as THREE.Vector2[];
+            stateNames.forEach((name, i) => {
+                const attributes = featureStates[name];
+                const color = getPropertyValue(attributes.color, mapView.zoomLevel);
+                if (color !== undefined) {
+                    const stateColor = ColorCache.instance.getColor(color);
+                    colors[i].set(stateColor.r, stateColor.g, stateColor.b, 1);
+                } else {
+                    colors[i].set(0, 0, 0, 0);
+                }
+                const opacity = getPropertyValue(attributes.opacity, mapView.zoomLevel);
+                opacities[i].set(
+                    opacity !== undefined ? opacity : 0,
+                    opacity !== undefined ? 1 : 0
+                );
+            });
+            (renderMaterial as HiddenThreeJSMaterialProperties).uniformsNeedUpdate = true;
+
+            if (hasOpacity) {
+                transparent = renderMaterial.transparent;
+                renderMaterial.transparent = true;
+            }
+        }
+    );
+
+    if (hasOpacity) {
+        object.onAfterRender = chainCallbacks(
+            object.onAfterRender,
+            (renderer, scene, camera, renderGeometry, renderMaterial, group) => {
+                renderMaterial.transparent = transparent;
+            }
+        );
+    }
+}
+
+/**
+ * Applies the feature states and hides features of an object prepared with
+ * [[addFeatureStateData]]. Objects without feature state data are ignored.
+ *
+ * @param object The object to update.
+ * @param featureStates The states of the features, by feature ID.
+ * @param featureId If defined, only this feature is updated.
+ * @param hiddenFeatures If defined, the features matching this predicate are not rendered.
+ */
+export function applyFeatureStates(
+    object: THREE.Object3D,
+    featureStates: ReadonlyMap<number, FeatureState>,
+    featureId?: number,
+    hiddenFeatures?: FeaturePredicate
+) {
+    const data = object.userData.featureStates as FeatureStateData | undefined;
+    if (data === undefined) {
+        return;
+    }
+    const { ids, objInfos, stateNames, texels } = data;
+    let changed = false;
+
+    for (let i = 0; i < ids.length; ++i) {
+        const id = ids[i];
+        if (featureId !== undefined && id !== featureId) {
+            continue;
+        }
+        const state = id !== undefined && stateNames.length > 0 ? featureStates.get(id) : undefined;
+        let states = 0;
+        if (state !== undefined) {
+            stateNames.forEach((name, bit) => {
+                if (state[name] === true) {
+                    states += Math.pow(2, bit);
+                }
+            });
+        }
+        const hidden =
+            hiddenFeatures !== undefined &&
+            hiddenFeatures(id, objInfos !== undefined ? objInfos[i] : undefined)
+                ? HIDDEN_FEATURE
+                : 0;
+
+        if (texels[i * 4] !== states || texels[i * 4 + 1] !== hidden) {
+            texels[i * 4] = states;
+            texels[i * 4 + 1] = hidden;
+            changed = true;
+        }
+    }
+
+    if (changed) {
+        data.map.needsUpdate = true;
+    }
+}
+
+/**
+ * Frees the feature state map of an object prepared with [[addFeatureStateData]].
+ *
+ * @param object The object to dispose the feature state data of.
+ */
+export function disposeFeatureStateData(object: THREE.Object3D) {
+    const data = object.userData.featureStates as FeatureStateData | undefined;
+    if (data !== undefined) {
+        data.map.dispose();
+    }
+}
+
+/**
+ * Creates the attribute with the index of the feature of every vertex, which the shaders use to
+ * read the state of the feature.
+ *
+ * @param geometry The geometry of the features.
+ * @param starts The first index of every feature, or the first vertex if the geometry has no index.
+ */
+function createFeatureIndexAttribute(
+    geometry: THREE.BufferGeometry,
+    starts: number[]
+): THREE.BufferAttribute {
+    const index = geometry.getIndex();
+    const vertexCount = geometry.getAttribute("position").count;
+    const featureIndices = new Float32Array(vertexCount);
+    const end = index !== null ? index.count : vertexCount;
+
+    for (let i = 0; i < starts.length; ++i) {
+        const featureEnd = i + 1 < starts.length ? starts[i + 1] : end;
+        for (let j = starts[i]; j < featureEnd; ++j) {
+            featureIndices[index !== null ? index.getX(j) : j] = i;
+        }
+    }
+    return new THREE.BufferAttribute(featureIndices, 1);
+}
@@ -0,0 +1,79 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+/**
+ * A color of the color ramp of [[HeatmapPoints]], evaluated for the current zoom level.
+ */
+export interface HeatmapColorStopValue {
+    /**
+     * The accumulated density at which this color is used, between `0` and `1`.
+     */
+    density: number;
+
+    /**
+     * The color in hexadecimal or CSS-style notation.
+     */
+    color: string;
+}
+
+/**
+ * The color ramp used for heatmaps that don't define a `colorRamp`.
+ */
+export const DEFAULT_HEATMAP_COLOR_RAMP: HeatmapColorStopValue[] = [
+    { density: 0.2, color: "#0000ff" },
+    { density: 0.4, color: "#00ffff" },
+    { density: 0.6, color: "#00ff00" },
+    { density: 0.8, color: "#ffff00" },
+    { density: 1, color: "#ff0000" }
+];
+
+/**
+ * `HeatmapPoints` are the points of the `"heatmap"` [[Technique]]. They are on their own
+ * [[HeatmapPoints.LAYER]] and are therefore not rendered with the rest of the map. Instead, the
+ * [[MapRenderingManager]] accumulates their density offscreen and colors it with the `colorRamp`.
+ *
+ * Points with the same `styleKey` are accumulated together, their `colorRamp` and `opacity` have
+ * to be updated before they are rendered, for example in `onBeforeRender`.
+ */
+export class HeatmapPoints extends THREE.Points {
+    /**
+     * The layer of the heatmap points.
+     */
+    static readonly LAYER = 1;
+
+    /**
+     * Key of the style the points were created with. Points with the same key are accumulated
+     * into the same density buffer.
+     */
+    styleKey: string = "";
+
+    /**
+     * The colors of the accumulated density.
+     */
+    colorRamp: HeatmapColorStopValue[] = DEFAULT_HEATMAP_COLOR_RAMP;
+
+    /**
+     * The opacity of the colored density.
+     */
+    opacity: number = 1;
+
+    constructor(
+        geometry?: THREE.Geometry | THREE.BufferGeometry,
+        material?: THREE.Material | THREE.Material[]
+    ) {
+        super(geometry, material);
+        this.layers.set(HeatmapPoints.LAYER);
+    }
+
+    /**
+     * Heatmaps can't be picked.
+     */
+    raycast() {
+        // Nothing to intersect.
+    }
+}
@@ -0,0 +1,134 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ImageTexture, TexturedLineTechnique } from "@here/harp-datasource-protocol";
+import { TexturedLineMaterial } from "@here/harp-materials";
+import { LoggerManager } from "@here/harp-utils";
+import * as THREE from "three";
+
+import { ImageItem } from "./image/Image";
+import { MapView } from "./MapView";
+
+const logger = LoggerManager.instance.create("LinePattern");
+
+/**
+ * Computes the region of an image that is repeated along a textured line, in texture coordinates
+ * `(minU, minV, maxU, maxV)`. The image data is stored upside down, like for the POI icons.
+ *
+ * @param imageWidth Width of the whole image in pixels.
+ * @param imageHeight Height of the whole image in pixels.
+ * @param imageTexture Optional [[ImageTexture]] defining the used region of the image.
+ * @param target Optional vector to store the result in.
+ */
+export function getLinePatternRect(
+    imageWidth: number,
+    imageHeight: number,
+    imageTexture?: ImageTexture,
+    target: THREE.Vector4 = new THREE.Vector4()
+): THREE.Vector4 {
+    if (imageTexture === undefined) {
+        return target.set(0, 0, 1, 1);
+    }
+    const width = imageTexture.width !== undefined ? imageTexture.width : imageWidth;
+    const height = imageTexture.height !== undefined ? imageTexture.height : imageHeight;
+    const xOffset = imageTexture.xOffset !== undefined ? imageTexture.xOffset : 0;
+    const yOffset = imageTexture.yOffset !== undefined ? imageTexture.yOffset : 0;
+
+    return target.set(
+        xOffset / imageWidth,
+        (imageHeight - yOffset - height) / imageHeight,
+        (xOffset + width) / imageWidth,
+        (imageHeight - yOffset) / imageHeight
+    );
+}
+
+/**
+ * Returns the ratio of width to height of the image repeated by a [[TexturedLineMaterial]], or
+ * `undefined` if the image has not been loaded yet.
+ *
+ * @param material The material of the textured line.
+ */
+export function getLinePatternAspectRatio(material: TexturedLineMaterial): number | undefined {
+    const map = material.map;
+    if (map === null || map.image === undefined || map.image.height === 0) {
+        return undefined;
+    }
+    const rect = material.mapRect;
+    return ((rect.z - rect.x) * map.image.width) / ((rect.w - rect.y) * map.image.height);
+}
+
+/**
+ * Loads the image of a [[TexturedLineTechnique]] and assigns it to the material once it is
+ * available. The `imageTexture` of the technique is looked up in the image textures of the theme
+ * first, and in the `ImageCache` of the [[MapView]] otherwise.
+ *
+ * @param mapView The [[MapView]] holding the images.
+ * @param technique The technique of the textured line.
+ * @param material The material to assign the texture to.
+ * @param textureReadyCallback Optional callback when the texture has been assigned.
+ */
+export function loadLinePattern(
+    mapView: MapView,
+    technique: TexturedLineTechnique,
+    material: TexturedLineMaterial,
+    textureReadyCallback?: (texture: THREE.Texture) => void
+) {
+    const imageTexture = mapView.poiManager.getImageTexture(technique.imageTexture);
+    const imageName = imageTexture !== undefined ? imageTexture.image : technique.imageTexture;
+
+    const imageItem = mapView.imageCache.findImageByName(imageName);
+    if (imageItem === undefined) {
+        logger.error(`loadLinePattern: No imageItem found with name '${imageName}'`);
+        return;
+    }
+
+    const onLoad = (loadedImageItem: ImageItem) => {
+        const imageData = loadedImageItem.imageData;
+        if (imageData === undefined) {
+            logger.error(`loadLinePattern: No imageData found for '${imageName}'`);
+            return;
+        }
+        const texture = new THREE.Texture(
+            imageData as any,
+            THREE.UVMapping,
+            THREE.ClampToEdgeWrapping,
+            THREE.ClampToEdgeWrapping,
+            THREE.LinearFilter,
+            THREE.LinearFilter,
+            THREE.RGBAFormat
+        );
+        texture.needsUpdate = true;
+        texture.generateMipmaps = false;
+
+        getLinePatternRect(imageData.width, imageData.height, imageTexture, material.mapRect);
+        material.map = texture;
+
+        if (textureReadyCallback !== undefined) {
+            textureReadyCallback(texture);
+        }
+    };
+
+    if (imageItem.loaded) {
+        onLoad(imageItem);
+        return;
+    }
+    const loading = mapView.imageCache.loadImage(imageItem);
+    if (loading instanceof Promise) {
+        loading
+            .then(loadedImageItem => {
+                if (loadedImageItem === undefined) {
+                    logger.error(`loadLinePattern: Failed to load image '${imageName}'`);
+                    return;
+                }
+                onLoad(loadedImageItem);
+            })
+            .catch(error => {
+                logger.error(`loadLinePattern: Failed to load image '${imageName}'`, error);
+            });
+    } else {
+        onLoad(loading);
+    }
+}
@@ -9,7 +9,9 @@ import {
     Light,
     PostEffects,
     Sky,
-    Theme
+    Theme,
+    ThemeSchema,
+    ThemeValidator
 } from "@here/harp-datasource-protocol";
 import {
     EarthConstants,
@@ -19,6 +21,7 @@ import {
     Projection,
     ProjectionType
 } from "@here/harp-geoutils";
+import { GlyphRasterizer } from "@here/harp-text-canvas";
 import { assert, getOptionValue, LoggerManager, PerformanceTimer } from "@here/harp-utils";
 import * as THREE from "three";
 
@@ -30,6 +33,7 @@ import { CopyrightInfo } from "./CopyrightInfo";
 import { DataSource } from "./DataSource";
 import { ElevationProvider } from "./ElevationProvider";
 import { ElevationRangeSource } from "./ElevationRangeSource";
+import { FeaturePredicate, FeatureState } from "./FeatureState";
 import { SimpleTileGeometryManager, TileGeometryManager } from "./geometry/TileGeometryManager";
 import { MapViewImageCache } from "./image/MapViewImageCache";
 import { MapViewFog } from "./MapViewFog";
@@ -46,8 +50,15 @@ import { TextLayoutStyleCache, TextRenderStyleCache } from "./text/TextStyleCach
 import { createLight } from "./ThemeHelpers";
 import { ThemeLoader } from "./ThemeLoader";
 import { Tile } from "./Tile";
+import { addCrossFadeRenderHelper } from "./TileCrossFade";
 import { MapViewUtils } from "./Utils";
-import { ResourceComputationType, VisibleTileSet, VisibleTileSetOptions } from "./VisibleTileSet";
+import {
+    PrefetchPathPoint,
+    ResourceComputationType,
+    TilePrefetchOptions,
+    VisibleTileSet,
+    VisibleTileSetOptions
+} from "./VisibleTileSet";
 
 declare const process: any;
 
@@ -254,6 +265,13 @@ export interface MapViewOptions {
      */
     fontCatalog?: string;
 
+    /**
+     * Rasterizer used to generate at runtime the glyphs of the characters missing from the font
+     * catalogs, for example a [[CanvasGlyphRasterizer]] drawing them with the system fonts. By
+     * default, these characters are rendered with a replacement glyph.
+     */
+    glyphRasterizer?: GlyphRasterizer;
+
     /**
      * `Projection` used by the `MapView`.
      *
@@ -290,9 +308,18 @@ export interface MapViewOptions {
      *
      * Relative URLs are resolved to full URL using the document's base URL
      * (see: https://www.w3.org/TR/WD-html40-970917/htmlweb.html#h-5.1.2).
+     *
+     * Themes referenced in [[Theme.extends]] are loaded with [[ThemeLoader.loadAsync]].
      */
     theme?: string | Theme | Promise<Theme>;
 
+    /**
+     * Schema to validate the theme with [[ThemeValidator]] after it is loaded, or the URL of the
+     * schema. Every issue found is logged as a warning. The schema is the `theme.schema.json` file
+     * of `@here/harp-datasource-protocol`.
+     */
+    themeSchema?: string | ThemeSchema;
+
     /**
      * The minimum zoom level; default is `1`.
      */
@@ -368,6 +395,31 @@ export interface MapViewOptions {
      */
     quadTreeSearchDistanceDown?: number;
 
+    /**
+     * Duration in milliseconds of the cross-fade between the tiles of different levels when
+     * zooming. Tiles replacing the tiles of another level, like the fallback tiles found with
+     * [[quadTreeSearchDistanceUp]] and [[quadTreeSearchDistanceDown]], fade in over this duration
+     * while the replaced tiles fade out, instead of popping in.
+     *
+     * To disable the cross-fade, set the value to `0`.
+     *
+     * @default `0`
+     */
+    tileCrossFadeDuration?: number;
+
+    /**
+     * Prefetch the tiles one ring around the visible tiles, one level above and below them and
+     * along [[MapView.prefetchPath]], for the data sources returning `true` in
+     * [[DataSource.shouldPreloadTiles]]. The prefetched tiles are loaded with a lower priority
+     * than the visible tiles.
+     *
+     * Set to `true` to prefetch with the default budget, or pass [[TilePrefetchOptions]] to limit
+     * the number of prefetched tiles.
+     *
+     * @default `false`
+     */
+    tilePrefetch?: boolean | TilePrefetchOptions;
+
     /**
      * Set to `true` to measure performance statistics.
      */
@@ -495,6 +547,15 @@ export interface MapViewOptions {
      */
     maxFps?: number;
 
+    /**
+     * Set to `false` to render ground-level geometries like fills, lines, raster tiles and icons
+     * flat, instead of draping them over the terrain of the elevation source, see
+     * [[setElevationSource]].
+     *
+     * @default `true`
+     */
+    drapeOverTerrain?: boolean;
+
     /**
      * @hidden
      * Disable all fading animations for debugging and performance measurement.
@@ -515,6 +576,7 @@ export const MapViewDefaults = {
     resourceComputationType: ResourceComputationType.EstimationInMb,
     quadTreeSearchDistanceUp: 3,
     quadTreeSearchDistanceDown: 2,
+    tileCrossFadeDuration: 0,
 
     pixelRatio:
         typeof window !== "undefined" && window.devicePixelRatio !== undefined
@@ -532,6 +594,12 @@ export class MapView extends THREE.EventDispatcher {
      */
     defaultFontCatalog: string = DEFAULT_FONT_CATALOG;
 
+    /**
+     * The rasterizer generating the glyphs missing from the font catalogs, see
+     * [[MapViewOptions.glyphRasterizer]].
+     */
+    glyphRasterizer?: GlyphRasterizer;
+
     dumpNext = false;
 
     /**
@@ -560,6 +628,7 @@ export class MapView extends THREE.EventDispatcher {
 
     private m_elevationRangeSource?: ElevationRangeSource;
     private m_elevationProvider?: ElevationProvider;
+    private m_drapeOverTerrain: boolean;
     private m_visibleTileSetLock: boolean = false;
     private m_tileGeometryManager: TileGeometryManager;
 
@@ -682,6 +751,7 @@ export class MapView extends THREE.EventDispatcher {
         if (this.m_options.fontCatalog !== undefined) {
             this.defaultFontCatalog = this.m_options.fontCatalog;
         }
+        this.glyphRasterizer = this.m_options.glyphRasterizer;
 
         if (this.m_options.decoderUrl !== undefined) {
             ConcurrentDecoderFacade.defaultScriptUrl = this.m_options.decoderUrl;
@@ -724,6 +794,15 @@ export class MapView extends THREE.EventDispatcher {
                 options.quadTreeSearchDistanceDown;
         }
 
+        if (options.tileCrossFadeDuration !== undefined) {
+            this.m_visibleTileSetOptions.tileCrossFadeDuration = options.tileCrossFadeDuration;
+        }
+
+        if (options.tilePrefetch !== undefined && options.tilePrefetch !== false) {
+            this.m_visibleTileSetOptions.tilePrefetch =
+                options.tilePrefetch === true ? {} : options.tilePrefetch;
+        }
+
         this.m_pixelRatio = options.pixelRatio;
 
         if (options.maxFps !== undefined) {
@@ -731,6 +810,7 @@ export class MapView extends THREE.EventDispatcher {
         }
 
         this.m_options.enableStatistics = this.m_options.enableStatistics === true;
+        this.m_drapeOverTerrain = this.m_options.drapeOverTerrain !== false;
 
         this.m_languages = this.m_options.languages;
 
@@ -869,6 +949,21 @@ export class MapView extends THREE.EventDispatcher {
         return this.m_animatedExtrusionHandler;
     }
 
+    /**
+     * Name of the active mapping in the `extrusionMappings` of the extruded polygon techniques, or
+     * `undefined` if the buildings are extruded to their default height. Changing the mapping
+     * animates the buildings to their new heights and colors, see
+     * [[AnimatedExtrusionHandler.extrusionMapping]].
+     */
+    get extrusionMapping(): string | undefined {
+        return this.m_animatedExtrusionHandler.extrusionMapping;
+    }
+
+    set extrusionMapping(mapping: string | undefined) {
+        this.m_animatedExtrusionHandler.extrusionMapping = mapping;
+        this.update();
+    }
+
     /**
      * Disposes this `MapView`.
      *
@@ -892,6 +987,7 @@ export class MapView extends THREE.EventDispatcher {
             dataSource.dispose();
         }
         this.m_visibleTiles.clearTileCache();
+        this.mapRenderingManager.dispose();
         this.m_renderer.dispose();
         this.m_imageCache.clear();
 
@@ -1536,6 +1632,20 @@ export class MapView extends THREE.EventDispatcher {
         return this.m_visibleTiles;
     }
 
+    /**
+     * The path along which tiles are prefetched if [[MapViewOptions.tilePrefetch]] is enabled,
+     * for example the path of a camera animation. Set to an empty array to stop prefetching along
+     * a path.
+     */
+    get prefetchPath(): PrefetchPathPoint[] {
+        return this.m_visibleTiles.prefetchPath;
+    }
+
+    set prefetchPath(path: PrefetchPathPoint[]) {
+        this.m_visibleTiles.prefetchPath = path;
+        this.update();
+    }
+
     /**
      * Adds new overlay text elements to this `MapView`.
      *
@@ -1952,6 +2062,53 @@ export class MapView extends THREE.EventDispatcher {
         this.m_visibleTiles.forEachCachedTile(visitor);
     }
 
+    /**
+     * Sets the state of a feature, for example to highlight it on hover. The given state is merged
+     * into the current state of the feature, a state set to `false` is removed.
+     *
+     * Styles reference the states in the `featureStates` attribute of their technique. The loaded
+     * tiles are updated without decoding them again.
+     *
+     * @param dataSource The [[DataSource]] of the feature.
+     * @param featureId The ID of the feature, for example [[IntersectionDetails.featureId]].
+     * @param state The states to set, for example `{ selected: true }`.
+     */
+    setFeatureState(dataSource: DataSource, featureId: number, state: FeatureState) {
+        dataSource.setFeatureState(featureId, state);
+    }
+
+    /**
+     * Returns the state of a feature, or `undefined` if the feature has no state.
+     *
+     * @param dataSource The [[DataSource]] of the feature.
+     * @param featureId The ID of the feature.
+     */
+    getFeatureState(dataSource: DataSource, featureId: number): FeatureState | undefined {
+        return dataSource.getFeatureState(featureId);
+    }
+
+    /**
+     * Removes the state of a feature, or of all features of the [[DataSource]] if `featureId` is
+     * `undefined`.
+     *
+     * @param dataSource The [[DataSource]] of the feature.
+     * @param featureId The ID of the feature.
+     */
+    removeFeatureState(dataSource: DataSource, featureId?: number) {
+        dataSource.removeFeatureState(featureId);
+    }
+
+    /**
+     * Hides the features of a [[DataSource]] matching a predicate, for example to filter the map
+     * by feature properties. The loaded tiles are updated without loading or decoding them again.
+     *
+     * @param dataSource The [[DataSource]] of the features.
+     * @param predicate Returns `true` for the features to hide, `undefined` shows all features.
+     */
+    setHiddenFeatures(dataSource: DataSource, predicate: FeaturePredicate | undefined) {
+        dataSource.setHiddenFeatures(predicate);
+    }
+
     /**
      * Visit each tile in visible, rendered, and cached sets.
      *
@@ -1989,6 +2146,28 @@ export class MapView extends THREE.EventDispatcher {
         this.m_elevationRangeSource = elevationRangeSource;
         this.m_elevationRangeSource.connect();
         this.m_elevationProvider = elevationProvider;
+
+        if (this.m_drapeOverTerrain) {
+            // Tiles loaded so far are flat.
+            this.clearTileCache();
+        }
+    }
+
+    /**
+     * `true` if ground-level geometries like fills, lines, raster tiles and icons are draped over
+     * the terrain of the elevation source. Changing it reloads all tiles.
+     */
+    get drapeOverTerrain(): boolean {
+        return this.m_drapeOverTerrain;
+    }
+
+    set drapeOverTerrain(drapeOverTerrain: boolean) {
+        if (drapeOverTerrain === this.m_drapeOverTerrain) {
+            return;
+        }
+        this.m_drapeOverTerrain = drapeOverTerrain;
+        this.clearTileCache();
+        this.update();
     }
 
     /**
@@ -2307,6 +2486,10 @@ export class MapView extends THREE.EventDispatcher {
                 this.getEnabledTileDataSources(),
                 this.m_elevationRangeSource
             );
+            if (this.m_visibleTiles.updateCrossFade(time)) {
+                // Render the next frame of the fading.
+                this.m_updatePending = true;
+            }
         }
 
         if (gatherStatistics) {
@@ -2326,6 +2509,11 @@ export class MapView extends THREE.EventDispatcher {
                 tile.frameNumLastVisible = this.m_frameNumber;
             });
         });
+        renderList.forEach(({ zoomLevel, fadingTiles }) => {
+            fadingTiles.forEach(tile => {
+                this.renderTileObjects(tile, zoomLevel);
+            });
+        });
 
         this.m_mapAnchors.children.forEach((childObject: MapAnchor) => {
             if (childObject.geoPosition === undefined) {
@@ -2432,6 +2620,7 @@ export class MapView extends THREE.EventDispatcher {
             currentFrameEvent.setValue("render.textDrawTime", textDrawTime! - drawTime!);
             currentFrameEvent.setValue("render.cleanupTime", endTime - textDrawTime!);
             currentFrameEvent.setValue("render.frameRenderTime", endTime - frameStartTime);
+            this.m_screenCollisions.addStatistics(currentFrameEvent);
 
             PerformanceStatistics.instance.storeFrameInfo(this.m_renderer.info);
         }
@@ -2443,6 +2632,9 @@ export class MapView extends THREE.EventDispatcher {
     private renderTileObjects(tile: Tile, zoomLevel: number) {
         const worldOffsetX = this.projection.worldExtent(0, 0).max.x * tile.offset;
         if (tile.willRender(zoomLevel)) {
+            if (tile.terrainDraping !== undefined) {
+                tile.terrainDraping.update();
+            }
             for (const object of tile.objects) {
                 object.position.copy(tile.center);
                 if (object.displacement !== undefined) {
@@ -2450,6 +2642,9 @@ export class MapView extends THREE.EventDispatcher {
                 }
                 object.position.x += worldOffsetX;
                 object.position.sub(this.m_camera.position);
+                if (tile.crossFadeOpacity < 1) {
+                    addCrossFadeRenderHelper(object, tile);
+                }
                 this.m_mapTilesRoot.add(object);
             }
         }
@@ -2499,18 +2694,36 @@ export class MapView extends THREE.EventDispatcher {
             return;
         }
 
-        const themePromise =
-            typeof this.m_options.theme === "string"
-                ? ThemeLoader.loadAsync(this.m_options.theme)
-                : Promise.resolve<Theme>(this.m_options.theme);
+        const themePromise = Promise.resolve<string | Theme>(this.m_options.theme).then(theme =>
+            ThemeLoader.loadAsync(theme)
+        );
 
         themePromise.then((theme: Theme) => {
+            if (this.m_options.themeSchema !== undefined) {
+                this.validateTheme(theme, this.m_options.themeSchema);
+            }
             this.theme = theme;
             THEME_LOADED_EVENT.time = Date.now();
             this.dispatchEvent(THEME_LOADED_EVENT);
         });
     }
 
+    private validateTheme(theme: Theme, themeSchema: string | ThemeSchema) {
+        const schemaPromise: Promise<ThemeSchema> =
+            typeof themeSchema === "string"
+                ? fetch(themeSchema).then(response => response.json())
+                : Promise.resolve(themeSchema);
+        schemaPromise
+            .then(schema => {
+                for (const error of new ThemeValidator(theme, schema).validate()) {
+                    logger.warn(`Theme validation: ${error.path}: ${error.message}`);
+                }
+            })
+            .catch(error => {
+                logger.warn(`Theme validation failed: ${error.message}`);
+            });
+    }
+
     private setupCamera() {
         const { width, height } = this.getCanvasClientSize();
 
@@ -175,8 +175,7 @@ export class PickHandler {
                 this.addObjInfo(featureData, intersect, pickResult);
 
                 if (featureData.ids !== undefined) {
-                    const featureId = featureData.ids.length === 1 ? featureData.ids[0] : undefined;
-                    pickResult.featureId = featureId;
+                    pickResult.featureId = this.getFeatureId(featureData, intersect);
                 }
 
                 let pickObjectType: PickObjectType;
@@ -231,6 +230,26 @@ export class PickHandler {
         return pickResults;
     }
 
+    private getFeatureId(
+        featureData: TileFeatureData,
+        intersect: THREE.Intersection
+    ): number | undefined {
+        const ids = featureData.ids!;
+        if (ids.length === 1) {
+            return ids[0];
+        }
+        if (featureData.starts === undefined || intersect.faceIndex === undefined) {
+            return undefined;
+        }
+        // The feature starts point into the index attribute, which has three indices per face.
+        const index = intersect.faceIndex * 3;
+        let i = featureData.starts.length - 1;
+        while (i > 0 && featureData.starts[i] > index) {
+            --i;
+        }
+        return ids[i];
+    }
+
     private addObjInfo(
         featureData: TileFeatureData,
         intersect: THREE.Intersection,
@@ -248,9 +267,11 @@ export class PickHandler {
         }
 
         if (featureData.starts.length > 1) {
+            // The feature starts point into the index attribute, which has three indices per face.
+            const index = intersect.faceIndex * 3;
             let objInfosIndex = 0;
-            for (const polygonStartFace of featureData.starts) {
-                if (polygonStartFace > intersect.faceIndex) {
+            for (const featureStart of featureData.starts) {
+                if (featureStart > index) {
                     break;
                 }
                 objInfosIndex++;
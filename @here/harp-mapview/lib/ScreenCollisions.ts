@@ -4,9 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { LoggerManager, Math2D } from "@here/harp-utils";
+import { OrientedBox2 } from "@here/harp-geometry";
+import { LoggerManager, Math2D, PerformanceTimer } from "@here/harp-utils";
 import * as THREE from "three";
 import { debugContext } from "./DebugContext";
+import { FrameStats, PerformanceStatistics } from "./Statistics";
 
 declare const require: any;
 // tslint:disable-next-line:no-var-requires
@@ -14,6 +16,21 @@ const RTree = require("rtree");
 
 const logger = LoggerManager.instance.create("ScreenCollissions");
 
+const tmpThreeBox = new THREE.Box2();
+const tmpBox = new Math2D.Box();
+
+/**
+ * Node of the [[ScreenCollisions]] tree, holding the bounding box of an allocation and the
+ * oriented box it was computed from, if any.
+ */
+interface CollisionNode {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    leaf: OrientedBox2 | null;
+}
+
 /**
  * @hidden
  */
@@ -34,13 +51,24 @@ export class ScreenCollisions {
     /** The screen bounding box. */
     readonly screenBounds = new Math2D.Box();
 
-    /** Tree of allocated bounds. */
+    /**
+     * Tree of allocated bounds. Oriented boxes are indexed by their bounding boxes and checked
+     * precisely against the candidates found in the tree.
+     */
     protected rtree = new RTree();
 
     /**
      * An array of temporary variables used when converting boxes to reduce allocations.
      */
-    private m_returnArray: Math2D.Box[] = [];
+    private m_returnArray: CollisionNode[] = [];
+
+    private m_numAllocated = 0;
+    private m_numTests = 0;
+    private m_numCandidates = 0;
+    private m_numLinearCandidates = 0;
+    private m_testTime = 0;
+    private m_gatherStatistics = false;
+
     /**
      * Constructs a new ScreenCollisions object.
      */
@@ -53,6 +81,13 @@ export class ScreenCollisions {
      */
     reset() {
         this.rtree = new RTree();
+
+        this.m_numAllocated = 0;
+        this.m_numTests = 0;
+        this.m_numCandidates = 0;
+        this.m_numLinearCandidates = 0;
+        this.m_testTime = 0;
+        this.m_gatherStatistics = PerformanceStatistics.instance.enabled;
     }
 
     /**
@@ -69,31 +104,106 @@ export class ScreenCollisions {
     /**
      * Marks the region of the screen intersecting with the given bounding box as allocated.
      *
-     * @param bounds The bounding box in world coordinates.
+     * @param bounds The bounding box in world coordinates, or an oriented box like the bounds of
+     * a glyph placed on a path.
      */
-    allocate(bounds: Math2D.Box): void {
-        this.rtree.insert(bounds, null);
+    allocate(bounds: Math2D.Box | OrientedBox2): void {
+        if (bounds instanceof OrientedBox2) {
+            this.rtree.insert(this.getBoundingBox(bounds), bounds.clone());
+        } else {
+            this.rtree.insert(bounds, null);
+        }
+        ++this.m_numAllocated;
     }
 
     /**
      * Checks if the given bounding box is already allocated.
      *
-     * @param bounds The bounding box in world coordinates.
+     * @param bounds The bounding box in world coordinates, or an oriented box.
      */
-    isAllocated(bounds: Math2D.Box): boolean {
+    isAllocated(bounds: Math2D.Box | OrientedBox2): boolean {
+        const startTime = this.m_gatherStatistics ? PerformanceTimer.now() : 0;
+
         // Re-use array to reduce allocations.
         this.m_returnArray.length = 0;
-        this.m_returnArray = this.rtree.search(bounds, undefined, this.m_returnArray);
-        return this.m_returnArray.length !== 0;
+        this.m_returnArray = this.rtree.search(
+            this.getBoundingBox(bounds),
+            true,
+            this.m_returnArray
+        );
+        let isAllocated = false;
+        for (const node of this.m_returnArray) {
+            if (this.intersects(node, bounds)) {
+                isAllocated = true;
+                break;
+            }
+        }
+
+        ++this.m_numTests;
+        this.m_numCandidates += this.m_returnArray.length;
+        this.m_numLinearCandidates += this.m_numAllocated;
+        if (this.m_gatherStatistics) {
+            this.m_testTime += PerformanceTimer.now() - startTime;
+        }
+        return isAllocated;
     }
 
     /**
      * Checks if the given screen bounds intersects with the frustum of the active camera.
      *
-     * @param bounds The bounding box in world coordinates.
+     * @param bounds The bounding box in world coordinates, or an oriented box.
      */
-    isVisible(bounds: Math2D.Box): boolean {
-        return this.screenBounds.intersects(bounds);
+    isVisible(bounds: Math2D.Box | OrientedBox2): boolean {
+        return this.screenBounds.intersects(this.getBoundingBox(bounds));
+    }
+
+    /**
+     * Adds the numbers of collision tests done since the last [[reset]] to the given frame
+     * statistics. `collisions.numCandidates` counts the allocations found in the tree, which are
+     * checked precisely, and `collisions.numLinearCandidates` the allocations a linear search
+     * would have checked.
+     *
+     * @param frameStats The statistics of the current frame.
+     */
+    addStatistics(frameStats: FrameStats) {
+        frameStats.addValue("collisions.numAllocations", this.m_numAllocated);
+        frameStats.addValue("collisions.numTests", this.m_numTests);
+        frameStats.addValue("collisions.numCandidates", this.m_numCandidates);
+        frameStats.addValue("collisions.numLinearCandidates", this.m_numLinearCandidates);
+        frameStats.addValue("collisions.testTime", this.m_testTime);
+    }
+
+    /**
+     * Returns the box itself for axis aligned boxes, otherwise the bounding box of the oriented
+     * box in a temporary.
+     */
+    private getBoundingBox(bounds: Math2D.Box | OrientedBox2): Math2D.Box {
+        if (bounds instanceof OrientedBox2) {
+            ScreenCollisions.toBox2D(bounds.getBounds(tmpThreeBox), tmpBox);
+            return tmpBox;
+        }
+        return bounds;
+    }
+
+    /**
+     * Checks if an allocation found in the tree really intersects with the given bounds. The
+     * bounding boxes are already known to intersect.
+     */
+    private intersects(node: CollisionNode, bounds: Math2D.Box | OrientedBox2): boolean {
+        if (bounds instanceof OrientedBox2) {
+            if (node.leaf !== null) {
+                return node.leaf.intersects(bounds);
+            }
+            tmpThreeBox.min.set(node.x, node.y);
+            tmpThreeBox.max.set(node.x + node.w, node.y + node.h);
+            return bounds.intersectsBox(tmpThreeBox);
+        }
+        if (node.leaf !== null) {
+            tmpThreeBox.min.set(bounds.x, bounds.y);
+            tmpThreeBox.max.set(bounds.x + bounds.w, bounds.y + bounds.h);
+            return node.leaf.intersectsBox(tmpThreeBox);
+        }
+        return true;
     }
 }
 
@@ -171,19 +281,14 @@ export class ScreenCollisionsDebug extends ScreenCollisions {
      *
      * @param bounds the bounding box in world coordinates.
      */
-    allocate(bounds: Math2D.Box): void {
+    allocate(bounds: Math2D.Box | OrientedBox2): void {
         super.allocate(bounds);
 
         this.m_numAllocations++;
 
         if (this.m_renderingEnabled && this.m_renderContext !== null) {
             this.m_renderContext.strokeStyle = "#6666ff";
-            this.m_renderContext.strokeRect(
-                bounds.x - this.screenBounds.x,
-                this.screenBounds.y + this.screenBounds.h - bounds.y - 1,
-                bounds.w,
-                -bounds.h
-            );
+            this.strokeBox(this.m_renderContext, bounds, 0);
         }
     }
 
@@ -192,18 +297,12 @@ export class ScreenCollisionsDebug extends ScreenCollisions {
      *
      * @param bounds The bounding box in world coordinates.
      */
-    isAllocated(bounds: Math2D.Box): boolean {
+    isAllocated(bounds: Math2D.Box | OrientedBox2): boolean {
         const isFailed = super.isAllocated(bounds);
 
         if (this.m_renderingEnabled && this.m_renderContext !== null) {
-            const offset = isFailed ? 2 : 0;
             this.m_renderContext.strokeStyle = isFailed ? "#FF0000" : "#00ff00";
-            this.m_renderContext.strokeRect(
-                bounds.x - this.screenBounds.x - offset,
-                this.screenBounds.y + this.screenBounds.h - bounds.y - 1 + offset,
-                bounds.w + 2 * offset,
-                -bounds.h - 2 * offset
-            );
+            this.strokeBox(this.m_renderContext, bounds, isFailed ? 2 : 0);
         }
 
         if (isFailed) {
@@ -220,7 +319,7 @@ export class ScreenCollisionsDebug extends ScreenCollisions {
      *
      * @param bounds The bounding box in world coordinates.
      */
-    isVisible(bounds: Math2D.Box): boolean {
+    isVisible(bounds: Math2D.Box | OrientedBox2): boolean {
         const visible = super.isVisible(bounds);
 
         if (visible) {
@@ -230,4 +329,37 @@ export class ScreenCollisionsDebug extends ScreenCollisions {
         }
         return visible;
     }
+
+    /**
+     * Draws the outline of a box, grown by `offset` pixels on each side.
+     */
+    private strokeBox(
+        context: CanvasRenderingContext2D,
+        bounds: Math2D.Box | OrientedBox2,
+        offset: number
+    ) {
+        if (!(bounds instanceof OrientedBox2)) {
+            context.strokeRect(
+                bounds.x - this.screenBounds.x - offset,
+                this.screenBounds.y + this.screenBounds.h - bounds.y - 1 + offset,
+                bounds.w + 2 * offset,
+                -bounds.h - 2 * offset
+            );
+            return;
+        }
+        const { position, xAxis, yAxis, extents } = bounds;
+        const extentsX = extents.x + offset;
+        const extentsY = extents.y + offset;
+        context.beginPath();
+        for (const [sx, sy] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+            const x = position.x + sx * extentsX * xAxis.x + sy * extentsY * yAxis.x;
+            const y = position.y + sx * extentsX * xAxis.y + sy * extentsY * yAxis.y;
+            context.lineTo(
+                x - this.screenBounds.x,
+                this.screenBounds.y + this.screenBounds.h - y - 1
+            );
+        }
+        context.closePath();
+        context.stroke();
+    }
 }
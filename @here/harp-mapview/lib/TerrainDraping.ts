@@ -0,0 +1,265 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    isDashedLineTechnique,
+    isFillTechnique,
+    isSolidLineTechnique,
+    isTerrainTechnique,
+    isTexturedLineTechnique,
+    Technique
+} from "@here/harp-datasource-protocol";
+import { GeoCoordinates } from "@here/harp-geoutils";
+import * as THREE from "three";
+
+import { DisplacementMap, sampleDisplacementMap } from "./DisplacementMap";
+import { TextElement } from "./text/TextElement";
+import { Tile } from "./Tile";
+
+/**
+ * Polygon offset factor of draped geometries, pulling them towards the camera to avoid z-fighting
+ * with the terrain.
+ */
+const DRAPED_POLYGON_OFFSET_FACTOR = -1;
+
+/**
+ * Polygon offset units of draped fills.
+ */
+const DRAPED_FILL_POLYGON_OFFSET_UNITS = -2;
+
+/**
+ * Polygon offset units of draped lines, which are pulled further than fills to stay on top of them
+ * where the triangulations of both differ.
+ */
+const DRAPED_LINE_POLYGON_OFFSET_UNITS = -4;
+
+const tmpPoint = new THREE.Vector3();
+const tmpNormal = new THREE.Vector3();
+const tmpBox = new THREE.Box3();
+
+/**
+ * Returns `true` if the geometries of the technique lie on the ground and are draped over the
+ * terrain. This includes `terrain` geometries without a `displacementMap`, like hillshading.
+ *
+ * @param technique The technique to check.
+ */
+export function isDrapedTechnique(technique: Technique): boolean {
+    return (
+        isFillTechnique(technique) ||
+        isSolidLineTechnique(technique) ||
+        isDashedLineTechnique(technique) ||
+        isTexturedLineTechnique(technique) ||
+        (isTerrainTechnique(technique) && technique.displacementMap === undefined)
+    );
+}
+
+/**
+ * Draped vertices and the elevations they have been displaced by.
+ */
+interface DrapedAttribute {
+    attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute;
+    elevations: Float32Array;
+}
+
+/**
+ * Drapes the ground-level geometries and the icon anchors of a [[Tile]] over the terrain of the
+ * [[ElevationProvider]] of its [[MapView]].
+ *
+ * Vertices are displaced along the surface normal by the elevations in the [[DisplacementMap]] of
+ * the tile. Until the displacement map of the tile itself is loaded, the one of its deepest loaded
+ * ancestor is used, and the vertices are displaced again by [[update]] once a better one is
+ * available.
+ */
+export class TerrainDraping {
+    private readonly m_geometries: THREE.BufferGeometry[] = [];
+    private readonly m_attributes: DrapedAttribute[] = [];
+    private readonly m_buffers = new Set<ArrayBufferLike>();
+    private readonly m_anchors: Array<{ position: THREE.Vector3; elevation: number }> = [];
+    private m_displacementMap: DisplacementMap | undefined;
+
+    /**
+     * Creates a new `TerrainDraping`.
+     *
+     * @param m_tile The [[Tile]] containing the geometries to drape.
+     */
+    constructor(private readonly m_tile: Tile) {
+        this.m_displacementMap = this.findDisplacementMap();
+    }
+
+    /**
+     * The [[DisplacementMap]] the geometries are currently draped with, `undefined` if no
+     * elevations have been loaded for the tile yet.
+     */
+    get displacementMap(): DisplacementMap | undefined {
+        return this.m_displacementMap;
+    }
+
+    /**
+     * Drapes the `position` attribute of a geometry over the terrain. Attributes sharing their
+     * buffer with an attribute that has already been added are displaced only once.
+     *
+     * @param geometry The geometry to drape.
+     */
+    addGeometry(geometry: THREE.BufferGeometry) {
+        this.m_geometries.push(geometry);
+
+        const attribute = geometry.getAttribute("position");
+        if (attribute === undefined) {
+            return;
+        }
+        const buffer =
+            attribute instanceof THREE.InterleavedBufferAttribute
+                ? (attribute.data.array as Float32Array).buffer
+                : (attribute.array as Float32Array).buffer;
+        if (this.m_buffers.has(buffer)) {
+            return;
+        }
+        this.m_buffers.add(buffer);
+
+        const drapedAttribute = { attribute, elevations: new Float32Array(attribute.count) };
+        this.m_attributes.push(drapedAttribute);
+        if (this.m_displacementMap !== undefined) {
+            this.drapeAttribute(drapedAttribute);
+        }
+    }
+
+    /**
+     * Drapes the anchor of an icon over the terrain. [[TextElement]]s placed along a path are
+     * ignored.
+     *
+     * @param textElement The text element of the icon.
+     */
+    addTextElement(textElement: TextElement) {
+        if (textElement.path !== undefined) {
+            return;
+        }
+        const anchor = { position: textElement.position, elevation: 0 };
+        this.m_anchors.push(anchor);
+        if (this.m_displacementMap !== undefined) {
+            anchor.elevation = this.displace(anchor.position, anchor.elevation);
+        }
+    }
+
+    /**
+     * Sets the polygon offset of the material of a draped technique, unless it already has one.
+     * `terrain` geometries are the ground the other geometries are pulled above, they keep no
+     * offset.
+     *
+     * @param material The material to set the polygon offset for.
+     * @param technique The technique of the material.
+     */
+    applyPolygonOffset(material: THREE.Material, technique: Technique) {
+        if (material.polygonOffset || isTerrainTechnique(technique)) {
+            return;
+        }
+        material.polygonOffset = true;
+        material.polygonOffsetFactor = DRAPED_POLYGON_OFFSET_FACTOR;
+        material.polygonOffsetUnits = isFillTechnique(technique)
+            ? DRAPED_FILL_POLYGON_OFFSET_UNITS
+            : DRAPED_LINE_POLYGON_OFFSET_UNITS;
+    }
+
+    /**
+     * Drapes the geometries again if the [[DisplacementMap]] of the tile changed, for example
+     * because the elevations of the tile itself have been loaded.
+     *
+     * @returns `true` if the geometries have been draped again.
+     */
+    update(): boolean {
+        const displacementMap = this.findDisplacementMap();
+        if (displacementMap === this.m_displacementMap) {
+            return false;
+        }
+        this.m_displacementMap = displacementMap;
+
+        for (const drapedAttribute of this.m_attributes) {
+            this.drapeAttribute(drapedAttribute);
+        }
+        // Bounds are computed lazily, e.g. for picking, and need to be updated if present.
+        for (const geometry of this.m_geometries) {
+            if (geometry.boundingBox !== null) {
+                geometry.computeBoundingBox();
+            }
+            if (geometry.boundingSphere !== null) {
+                geometry.computeBoundingSphere();
+            }
+        }
+        for (const anchor of this.m_anchors) {
+            anchor.elevation = this.displace(anchor.position, anchor.elevation);
+        }
+        if (this.m_anchors.length > 0) {
+            this.m_tile.textElementsChanged = true;
+        }
+        return true;
+    }
+
+    private findDisplacementMap(): DisplacementMap | undefined {
+        const elevationProvider = this.m_tile.mapView.elevationProvider;
+        if (elevationProvider === undefined) {
+            return undefined;
+        }
+        const tilingScheme = elevationProvider.getTilingSceme();
+        if (tilingScheme === undefined) {
+            return undefined;
+        }
+        const tileKey =
+            tilingScheme === this.m_tile.dataSource.getTilingScheme()
+                ? this.m_tile.tileKey
+                : tilingScheme.getTileKey(this.m_tile.geoBox.center, this.m_tile.tileKey.level);
+        return tileKey !== null ? elevationProvider.getDisplacementMap(tileKey) : undefined;
+    }
+
+    private drapeAttribute(drapedAttribute: DrapedAttribute) {
+        const { attribute, elevations } = drapedAttribute;
+        for (let i = 0; i < attribute.count; ++i) {
+            tmpPoint.set(attribute.getX(i), attribute.getY(i), attribute.getZ(i));
+            elevations[i] = this.displace(tmpPoint, elevations[i]);
+            attribute.setXYZ(i, tmpPoint.x, tmpPoint.y, tmpPoint.z);
+        }
+        if (attribute instanceof THREE.InterleavedBufferAttribute) {
+            attribute.data.needsUpdate = true;
+        } else {
+            attribute.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Displaces a point relative to the tile center from its previous elevation to the elevation
+     * of the terrain.
+     *
+     * @returns The new elevation of the point.
+     */
+    private displace(point: THREE.Vector3, previousElevation: number): number {
+        const projection = this.m_tile.projection;
+        point.add(this.m_tile.center);
+        const elevation = this.getElevation(projection.unprojectPoint(point));
+        projection.surfaceNormal(point, tmpNormal);
+        point.addScaledVector(tmpNormal, elevation - previousElevation).sub(this.m_tile.center);
+        return elevation;
+    }
+
+    private getElevation(geoPoint: GeoCoordinates): number {
+        const displacementMap = this.m_displacementMap;
+        const elevationProvider = this.m_tile.mapView.elevationProvider;
+        const tilingScheme =
+            elevationProvider !== undefined ? elevationProvider.getTilingSceme() : undefined;
+        if (displacementMap === undefined || tilingScheme === undefined) {
+            return 0;
+        }
+
+        tilingScheme.getWorldBox(displacementMap.tileKey, tmpBox);
+        const worldPoint = tilingScheme.projection.projectPoint(geoPoint, new THREE.Vector3());
+        const u = (worldPoint.x - tmpBox.min.x) / (tmpBox.max.x - tmpBox.min.x);
+        const v = (worldPoint.y - tmpBox.min.y) / (tmpBox.max.y - tmpBox.min.y);
+        if (u >= 0 && u <= 1 && v >= 0 && v <= 1) {
+            return sampleDisplacementMap(displacementMap, u, v);
+        }
+
+        // Geometries may exceed the tile, or the tile may not match a tile of the elevations.
+        const height = elevationProvider!.getHeight(geoPoint);
+        return height !== undefined ? height : sampleDisplacementMap(displacementMap, u, v);
+    }
+}
@@ -20,23 +20,72 @@ export class ThemeLoader {
      * Relative URLs are resolved to full URL using the document's base URL
      * (see: https://www.w3.org/TR/WD-html40-970917/htmlweb.html#h-5.1.2).
      *
-     * @param themeUrl The URL to the theme.
+     * The themes referenced in [[Theme.extends]] are loaded recursively and merged into the
+     * resulting theme, see [[mergeThemes]].
+     *
+     * @param theme The URL to the theme, or an already loaded [[Theme]] whose base themes should
+     *              be resolved.
      */
-    static async loadAsync(themeUrl: string): Promise<Theme> {
-        themeUrl = defaultUrlResolver(themeUrl);
+    static async loadAsync(theme: string | Theme): Promise<Theme> {
+        if (typeof theme === "string") {
+            theme = await this.loadThemeFile(theme);
+        }
+        return this.resolveBaseThemes(theme, []);
+    }
 
-        const response = await fetch(themeUrl);
-        if (!response.ok) {
-            throw new Error(`ThemeLoader#loadAsync: cannot load theme: ${response.statusText}`);
+    /**
+     * Merges a [[Theme]] on top of a base [[Theme]], following the rules documented in
+     * [[Theme.extends]]. Neither of the input themes is modified.
+     *
+     * @param baseTheme The theme to be extended.
+     * @param theme The theme overriding the properties of `baseTheme`.
+     * @returns The merged theme, without `extends` property.
+     */
+    static mergeThemes(baseTheme: Theme, theme: Theme): Theme {
+        const result: Theme = { ...baseTheme };
+        for (const key of Object.keys(theme) as Array<keyof Theme>) {
+            if (theme[key] !== undefined) {
+                result[key] = theme[key] as any;
+            }
         }
-        const theme = (await response.json()) as Theme | null;
-        if (theme === null) {
-            throw new Error("ThemeLoader#loadAsync: loaded resource is not valid JSON");
+        delete result.extends;
+
+        if (baseTheme.styles !== undefined && theme.styles !== undefined) {
+            result.styles = { ...baseTheme.styles };
+            for (const styleSetName of Object.keys(theme.styles)) {
+                const baseStyleSet = baseTheme.styles[styleSetName];
+                const styleSet = theme.styles[styleSetName];
+                result.styles[styleSetName] =
+                    baseStyleSet !== undefined
+                        ? mergeByKey(baseStyleSet, styleSet, style => style.id)
+                        : styleSet;
+            }
+        }
+        if (baseTheme.images !== undefined && theme.images !== undefined) {
+            result.images = { ...baseTheme.images, ...theme.images };
         }
-        // Remember the URL where the theme has been loaded from.
-        theme.url = themeUrl;
 
-        return this.resolveUrls(theme);
+        const getName = (entry: { name?: string }) => entry.name;
+        result.textStyles = mergeOptionalByKey(baseTheme.textStyles, theme.textStyles, getName);
+        result.imageTextures = mergeOptionalByKey(
+            baseTheme.imageTextures,
+            theme.imageTextures,
+            getName
+        );
+        result.poiTables = mergeOptionalByKey(baseTheme.poiTables, theme.poiTables, getName);
+        result.fontCatalogs = mergeOptionalByKey(
+            baseTheme.fontCatalogs,
+            theme.fontCatalogs,
+            getName
+        );
+        result.lights = mergeOptionalByKey(baseTheme.lights, theme.lights, getName);
+
+        for (const key of Object.keys(result) as Array<keyof Theme>) {
+            if (result[key] === undefined) {
+                delete result[key];
+            }
+        }
+        return result;
     }
 
     /**
@@ -106,4 +155,105 @@ export class ThemeLoader {
         }
         return theme;
     }
+
+    private static async loadThemeFile(themeUrl: string): Promise<Theme> {
+        themeUrl = defaultUrlResolver(themeUrl);
+
+        const response = await fetch(themeUrl);
+        if (!response.ok) {
+            throw new Error(`ThemeLoader#loadAsync: cannot load theme: ${response.statusText}`);
+        }
+        const theme = (await response.json()) as Theme | null;
+        if (theme === null) {
+            throw new Error("ThemeLoader#loadAsync: loaded resource is not valid JSON");
+        }
+        // Remember the URL where the theme has been loaded from.
+        theme.url = themeUrl;
+
+        return this.resolveUrls(theme);
+    }
+
+    /**
+     * Loads the base themes of `theme` recursively and merges `theme` on top of them.
+     *
+     * @param theme The theme to resolve.
+     * @param parents The chain of themes extended by `theme`, used to detect cycles.
+     */
+    private static async resolveBaseThemes(
+        theme: Theme,
+        parents: Array<string | Theme>
+    ): Promise<Theme> {
+        if (theme.extends === undefined) {
+            return theme;
+        }
+        const chain = [...parents, theme.url !== undefined ? theme.url : theme];
+        const baseThemeRefs = Array.isArray(theme.extends) ? theme.extends : [theme.extends];
+
+        let result: Theme | undefined;
+        for (const baseThemeRef of baseThemeRefs) {
+            let baseTheme: Theme;
+            if (typeof baseThemeRef === "string") {
+                const baseThemeUrl = defaultUrlResolver(
+                    resolveReferenceUrl(theme.url, baseThemeRef)
+                );
+                checkCycle(chain, baseThemeUrl, baseThemeUrl);
+                baseTheme = await this.loadThemeFile(baseThemeUrl);
+            } else {
+                checkCycle(chain, baseThemeRef, "<inline theme>");
+                baseTheme = baseThemeRef;
+                if (baseTheme.url === undefined && theme.url !== undefined) {
+                    // Inline themes reference their resources relative to the extending theme.
+                    baseTheme = this.resolveUrls({ ...baseTheme, url: theme.url });
+                }
+            }
+            baseTheme = await this.resolveBaseThemes(baseTheme, chain);
+            result = result === undefined ? baseTheme : this.mergeThemes(result, baseTheme);
+        }
+        return this.mergeThemes(result!, theme);
+    }
+}
+
+/**
+ * Throws if `ref` already appears in the chain of extended themes.
+ */
+function checkCycle(chain: Array<string | Theme>, ref: string | Theme, description: string) {
+    if (chain.indexOf(ref) !== -1) {
+        const names = chain.map(entry => (typeof entry === "string" ? entry : "<inline theme>"));
+        throw new Error(
+            "ThemeLoader#loadAsync: cyclic theme inheritance: " +
+                [...names, description].join(" -> ")
+        );
+    }
+}
+
+/**
+ * Merges two lists. Entries of `overrides` replace the entries of `base` with the same key in
+ * place, entries without key or with a new key are appended.
+ */
+function mergeByKey<T>(base: T[], overrides: T[], getKey: (entry: T) => string | undefined): T[] {
+    const result = [...base];
+    for (const entry of overrides) {
+        const key = getKey(entry);
+        const index = key !== undefined ? result.findIndex(e => getKey(e) === key) : -1;
+        if (index !== -1) {
+            result[index] = entry;
+        } else {
+            result.push(entry);
+        }
+    }
+    return result;
+}
+
+function mergeOptionalByKey<T>(
+    base: T[] | undefined,
+    overrides: T[] | undefined,
+    getKey: (entry: T) => string | undefined
+): T[] | undefined {
+    if (base === undefined) {
+        return overrides;
+    }
+    if (overrides === undefined) {
+        return base;
+    }
+    return mergeByKey(base, overrides, getKey);
 }
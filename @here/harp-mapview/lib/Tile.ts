@@ -13,12 +13,18 @@ import { GeoBox, Projection, TileKey } from "@here/harp-geoutils";
 import { CachedResource, GroupedPriorityList } from "@here/harp-utils";
 import * as THREE from "three";
 
-import { AnimatedExtrusionTileHandler } from "./AnimatedExtrusionHandler";
+import {
+    AnimatedExtrusionTileHandler,
+    ExtrusionMappingTileHandler
+} from "./AnimatedExtrusionHandler";
 import { CopyrightInfo } from "./CopyrightInfo";
 import { DataSource } from "./DataSource";
+import { applyFeatureStates, disposeFeatureStateData } from "./FeatureState";
 import { TileGeometryLoader } from "./geometry/TileGeometryLoader";
+import { HeatmapPoints } from "./HeatmapPoints";
 import { MapView } from "./MapView";
 import { PerformanceStatistics } from "./Statistics";
+import { TerrainDraping } from "./TerrainDraping";
 import { TextElement } from "./text/TextElement";
 import { MapViewUtils } from "./Utils";
 
@@ -320,6 +326,14 @@ export class Tile implements CachedResource {
      */
     numFramesVisible: number = 0;
 
+    /**
+     * The opacity of the `Tile` while it fades in or out in place of tiles of other levels, from
+     * `0` to `1`.
+     *
+     * @see [[MapViewOptions.tileCrossFadeDuration]]
+     */
+    crossFadeOpacity: number = 1;
+
     /**
      * @hidden
      *
@@ -360,6 +374,8 @@ export class Tile implements CachedResource {
     private m_ownedTextures: WeakSet<THREE.Texture> = new WeakSet();
 
     private m_animatedExtrusionTileHandler: AnimatedExtrusionTileHandler | undefined;
+    private m_extrusionMappingTileHandler: ExtrusionMappingTileHandler | undefined;
+    private m_terrainDraping: TerrainDraping | undefined;
 
     /**
      * Creates a new [[Tile]].
@@ -747,6 +763,33 @@ export class Tile implements CachedResource {
         this.dataSource.updateTile(this);
     }
 
+    /**
+     * Applies the feature states and the hidden features of the [[DataSource]] to the objects and
+     * text elements of this `Tile`, see [[DataSource.setFeatureState]] and
+     * [[DataSource.setHiddenFeatures]].
+     *
+     * @param featureId If defined, only the objects containing this feature are updated.
+     */
+    updateFeatureStates(featureId?: number) {
+        const featureStates = this.dataSource.featureStates;
+        const hiddenFeatures = this.dataSource.hiddenFeatures;
+        for (const object of this.objects) {
+            applyFeatureStates(object, featureStates, featureId, hiddenFeatures);
+        }
+        if (featureId !== undefined) {
+            return;
+        }
+        this.textElementGroups.forEach(textElement => {
+            const featureHidden =
+                hiddenFeatures !== undefined &&
+                hiddenFeatures(textElement.featureId, textElement.userData);
+            if (textElement.featureHidden !== featureHidden) {
+                textElement.featureHidden = featureHidden;
+                this.textElementsChanged = true;
+            }
+        });
+    }
+
     /**
      * Handler for animation of `Tile` geometries.
      */
@@ -758,6 +801,29 @@ export class Tile implements CachedResource {
         this.m_animatedExtrusionTileHandler = handler;
     }
 
+    /**
+     * Handler for the transitions between extrusion mappings of `Tile` geometries.
+     */
+    get extrusionMappingTileHandler(): ExtrusionMappingTileHandler | undefined {
+        return this.m_extrusionMappingTileHandler;
+    }
+
+    set extrusionMappingTileHandler(handler: ExtrusionMappingTileHandler | undefined) {
+        this.m_extrusionMappingTileHandler = handler;
+    }
+
+    /**
+     * Drapes the ground-level geometries of this `Tile` over the terrain, `undefined` if they are
+     * not draped.
+     */
+    get terrainDraping(): TerrainDraping | undefined {
+        return this.m_terrainDraping;
+    }
+
+    set terrainDraping(terrainDraping: TerrainDraping | undefined) {
+        this.m_terrainDraping = terrainDraping;
+    }
+
     /**
      * Frees the rendering resources allocated by this `Tile`.
      *
@@ -785,6 +851,12 @@ export class Tile implements CachedResource {
                 object.geometry.dispose();
             }
 
+            disposeFeatureStateData(object);
+
+            if (object instanceof HeatmapPoints) {
+                this.mapView.mapRenderingManager.removeHeatmap(object);
+            }
+
             if (object.material !== undefined && this.shouldDisposeObjectMaterial(object)) {
                 if (object.material instanceof Array) {
                     object.material.forEach((material: THREE.Material | undefined) => {
@@ -815,6 +887,13 @@ export class Tile implements CachedResource {
             this.m_animatedExtrusionTileHandler.dispose();
         }
 
+        if (this.m_extrusionMappingTileHandler !== undefined) {
+            this.m_extrusionMappingTileHandler.dispose();
+            this.m_extrusionMappingTileHandler = undefined;
+        }
+
+        this.m_terrainDraping = undefined;
+
         this.placedTextElements.clear();
         this.textElementGroups.clear();
         this.userTextElements.length = 0;
@@ -0,0 +1,103 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FadingFeature } from "@here/harp-materials";
+import { chainCallbacks } from "@here/harp-utils";
+import * as THREE from "three";
+
+import { Tile } from "./Tile";
+
+/**
+ * The uniforms with the [[Tile.crossFadeOpacity]] of the tiles, shared by the materials of their
+ * objects.
+ */
+const crossFadeUniforms = new WeakMap<Tile, THREE.IUniform>();
+
+/**
+ * The transparency of the cross-faded materials without cross-fade.
+ */
+const materialTransparency = new WeakMap<THREE.Material, boolean>();
+
+/**
+ * The objects prepared by [[addCrossFadeRenderHelper]].
+ */
+const crossFadedObjects = new WeakSet<THREE.Object3D>();
+
+/**
+ * Prepares an object of a [[Tile]] to be rendered with the [[Tile.crossFadeOpacity]] of the tile.
+ * To be called every frame for the objects of tiles with a `crossFadeOpacity` below `1`, before the
+ * objects are rendered.
+ *
+ * The opacity is applied by the cross-fade shader chunks of the fading feature, with a uniform
+ * shared by all materials of the tile, see [[FadingFeature.enableCrossFade]]. The materials are
+ * made transparent while the tile fades, so the tile is rendered after the opaque tiles it fades
+ * in or out on top of. Objects with materials that don't support the cross-fade are rendered
+ * unchanged.
+ *
+ * @param object The object of the tile.
+ * @param tile The tile the object belongs to.
+ */
+export function addCrossFadeRenderHelper(object: THREE.Object3D, tile: Tile) {
+    const material = (object as THREE.Mesh).material;
+    if (material === undefined) {
+        return;
+    }
+    const materials = material instanceof Array ? material : [material];
+
+    const tileOpacity = getCrossFadeUniform(tile);
+
+    let crossFaded = false;
+    for (const objectMaterial of materials) {
+        if (!FadingFeature.enableCrossFade(objectMaterial, tileOpacity)) {
+            continue;
+        }
+        crossFaded = true;
+        // The render queue of the object depends on the transparency of its material before it is
+        // rendered.
+        if (!materialTransparency.has(objectMaterial)) {
+            materialTransparency.set(objectMaterial, objectMaterial.transparent);
+        }
+        objectMaterial.transparent = true;
+    }
+    if (!crossFaded || crossFadedObjects.has(object)) {
+        return;
+    }
+    crossFadedObjects.add(object);
+
+    // The transparency is set before other helpers run, so the transparency they set is restored
+    // after they have restored it themselves.
+    object.onBeforeRender = chainCallbacks(
+        (renderer, scene, camera, geometry, renderMaterial: THREE.Material, group) => {
+            tileOpacity.value = tile.crossFadeOpacity;
+            if (tile.crossFadeOpacity < 1 && materialTransparency.has(renderMaterial)) {
+                renderMaterial.transparent = true;
+            }
+        },
+        object.onBeforeRender
+    );
+
+    object.onAfterRender = chainCallbacks(
+        object.onAfterRender,
+        (renderer, scene, camera, geometry, renderMaterial: THREE.Material, group) => {
+            const transparent = materialTransparency.get(renderMaterial);
+            if (transparent !== undefined) {
+                renderMaterial.transparent = transparent;
+            }
+        }
+    );
+}
+
+/**
+ * Returns the uniform with the [[Tile.crossFadeOpacity]] of a tile, shared by its materials.
+ */
+function getCrossFadeUniform(tile: Tile): THREE.IUniform {
+    let opacity = crossFadeUniforms.get(tile);
+    if (opacity === undefined) {
+        opacity = new THREE.Uniform(tile.crossFadeOpacity);
+        crossFadeUniforms.set(tile, opacity);
+    }
+    return opacity;
+}
@@ -4,8 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { OrientedBox3 } from "@here/harp-geometry";
-import { MathUtils, Projection, ProjectionType, TileKey, TilingScheme } from "@here/harp-geoutils";
+import {
+    GeoCoordinates,
+    MathUtils,
+    Projection,
+    ProjectionType,
+    TileKey,
+    TilingScheme
+} from "@here/harp-geoutils";
 import { LRUCache } from "@here/harp-lrucache";
+import { getOptionValue } from "@here/harp-utils";
 import * as THREE from "three";
 import { DataSource } from "./DataSource";
 import { CalculationStatus, ElevationRangeSource } from "./ElevationRangeSource";
@@ -61,6 +69,59 @@ export interface VisibleTileSetOptions {
      * Number of levels to go down when searching for fallback tiles.
      */
     quadTreeSearchDistanceDown: number;
+
+    /**
+     * Duration of the cross-fade between tiles of different levels in milliseconds, `0` disables
+     * it.
+     *
+     * @see [[MapViewOptions.tileCrossFadeDuration]]
+     */
+    tileCrossFadeDuration: number;
+
+    /**
+     * Prefetching of the tiles around the visible tiles and along [[VisibleTileSet.prefetchPath]],
+     * disabled if `undefined`.
+     *
+     * @see [[MapViewOptions.tilePrefetch]]
+     */
+    tilePrefetch?: TilePrefetchOptions;
+}
+
+/**
+ * Options of the tile prefetching of [[VisibleTileSet]]. Tiles are prefetched for the
+ * [[DataSource]]s which return `true` in [[DataSource.shouldPreloadTiles]].
+ */
+export interface TilePrefetchOptions {
+    /**
+     * Maximum number of prefetched tiles per [[DataSource]] which are loaded at the same time, to
+     * limit the bandwidth used for prefetching.
+     *
+     * @default `4`
+     */
+    maxLoadingTiles?: number;
+
+    /**
+     * Maximum number of prefetched tiles per [[DataSource]], to limit the memory used for
+     * prefetching.
+     *
+     * @default `64`
+     */
+    maxTiles?: number;
+}
+
+/**
+ * A point of a path along which tiles are prefetched, see [[VisibleTileSet.prefetchPath]].
+ */
+export interface PrefetchPathPoint {
+    /**
+     * The geo coordinates of the point.
+     */
+    geoCoordinates: GeoCoordinates;
+
+    /**
+     * The zoom level of the [[MapView]] at the point.
+     */
+    zoomLevel: number;
 }
 
 /**
@@ -76,6 +137,45 @@ class TileKeyEntry {
 
 const MB_FACTOR = 1.0 / (1024.0 * 1024.0);
 
+const DEFAULT_PREFETCH_MAX_LOADING_TILES = 4;
+const DEFAULT_PREFETCH_MAX_TILES = 64;
+
+/**
+ * Maximum number of points sampled between two points of a prefetch path.
+ */
+const MAX_PREFETCH_PATH_SAMPLES = 64;
+
+/**
+ * Returns a function testing if a tile overlaps one of the given tiles, i.e. if one of them is the
+ * tile itself, one of its ancestors or one of its descendants.
+ */
+function createOverlapTest(tiles: Iterable<Tile>): (tile: Tile) => boolean {
+    const tileCodes = new Set<number>();
+    const ancestorCodes = new Set<number>();
+    for (const tile of tiles) {
+        let tileCode = TileOffsetUtils.getKeyForTileKeyAndOffset(tile.tileKey, tile.offset);
+        tileCodes.add(tileCode);
+        for (let level = tile.tileKey.level; level > 0; --level) {
+            tileCode = TileOffsetUtils.getParentKeyFromKey(tileCode);
+            ancestorCodes.add(tileCode);
+        }
+    }
+
+    return (tile: Tile) => {
+        let tileCode = TileOffsetUtils.getKeyForTileKeyAndOffset(tile.tileKey, tile.offset);
+        if (ancestorCodes.has(tileCode)) {
+            return true;
+        }
+        for (let level = tile.tileKey.level; level >= 0; --level) {
+            if (tileCodes.has(tileCode)) {
+                return true;
+            }
+            tileCode = TileOffsetUtils.getParentKeyFromKey(tileCode);
+        }
+        return false;
+    };
+}
+
 /**
  * Missing Typedoc
  */
@@ -83,6 +183,22 @@ class DataSourceCache {
     readonly tileCache: LRUCache<number, Tile>;
     readonly disposedTiles: Tile[] = [];
 
+    /**
+     * The tiles with geometry rendered in the last frame, not including the tiles fading out.
+     */
+    renderedTiles = new Set<Tile>();
+
+    /**
+     * The start times of the tiles fading in.
+     */
+    readonly fadingInTiles = new Map<Tile, number>();
+
+    /**
+     * The start times of the tiles fading out, and whether they are covered by the tiles fading
+     * in, because they were opaque when they started to fade out.
+     */
+    readonly fadingOutTiles = new Map<Tile, { startTime: number; covered: boolean }>();
+
     resourceComputationType: ResourceComputationType = ResourceComputationType.EstimationInMb;
 
     constructor(options: VisibleTileSetOptions, readonly dataSource: DataSource) {
@@ -166,6 +282,14 @@ export interface DataSourceTileList {
      * [[visibleTiles]] list but that are used as fallbacks b/c they are still in the cache.
      */
     renderedTiles: Tile[];
+
+    /**
+     * List of tiles that are no longer in [[renderedTiles]], but are still rendered while they
+     * fade out in place of tiles of other levels.
+     *
+     * @see [[VisibleTileSet.updateCrossFade]]
+     */
+    fadingTiles: Tile[];
 }
 
 /**
@@ -185,6 +309,13 @@ export class VisibleTileSet {
     allVisibleTilesLoaded: boolean = false;
     options: VisibleTileSetOptions;
 
+    /**
+     * Points of a path along which tiles are prefetched if [[VisibleTileSetOptions.tilePrefetch]]
+     * is set, for example the path of a camera animation. The tiles are prefetched from the point
+     * closest to the current camera position onwards.
+     */
+    prefetchPath: PrefetchPathPoint[] = [];
+
     private readonly m_dataSourceCache = new Map<string, DataSourceCache>();
 
     // used to project global coordinates into camera local coordinates
@@ -343,6 +474,19 @@ export class VisibleTileSet {
                 tile.visibleArea = tileEntry.area;
             }
 
+            if (
+                this.options.tilePrefetch !== undefined &&
+                dataSource.cacheable &&
+                dataSource.shouldPreloadTiles()
+            ) {
+                this.prefetchTiles(
+                    dataSource,
+                    actuallyVisibleTiles,
+                    this.options.tilePrefetch,
+                    worldCenter
+                );
+            }
+
             this.m_tileGeometryManager.updateTiles(actuallyVisibleTiles);
 
             this.dataSourceTileList.push({
@@ -352,7 +496,8 @@ export class VisibleTileSet {
                 allVisibleTileLoaded: allDataSourceTilesLoaded,
                 numTilesLoading,
                 visibleTiles: actuallyVisibleTiles,
-                renderedTiles: actuallyVisibleTiles
+                renderedTiles: actuallyVisibleTiles,
+                fadingTiles: []
             });
             allVisibleTilesLoaded = allVisibleTilesLoaded && allDataSourceTilesLoaded;
         }
@@ -381,6 +526,89 @@ export class VisibleTileSet {
         });
     }
 
+    /**
+     * Cross-fades the rendered tiles with the tiles of other levels they replace, if
+     * [[VisibleTileSetOptions.tileCrossFadeDuration]] is set. To be called after
+     * [[updateRenderList]].
+     *
+     * Tiles that start to be rendered in place of tiles of other levels fade in, while the tiles
+     * they replace are kept in [[DataSourceTileList.fadingTiles]] until they have faded out. The
+     * fading is applied with the [[Tile.crossFadeOpacity]] of the tiles. Tiles that are opaque when
+     * they start to fade out stay opaque, and are covered by the tiles fading in on top of them, so
+     * the overlapping tiles are not blended with each other.
+     *
+     * @param time The time of the frame in milliseconds.
+     * @returns `true` if tiles are still fading, so more frames have to be rendered.
+     */
+    updateCrossFade(time: number): boolean {
+        const duration = this.options.tileCrossFadeDuration;
+        if (!(duration > 0)) {
+            return false;
+        }
+
+        let fading = false;
+        for (const renderListEntry of this.dataSourceTileList) {
+            const cache = this.m_dataSourceCache.get(renderListEntry.dataSource.name);
+            if (cache === undefined) {
+                continue;
+            }
+            const { fadingInTiles, fadingOutTiles } = cache;
+            const lastRenderedTiles = cache.renderedTiles;
+            const renderedTiles = new Set(
+                renderListEntry.renderedTiles.filter(tile => tile.hasGeometry)
+            );
+            const overlapsLastRendered = createOverlapTest(lastRenderedTiles);
+            const overlapsRendered = createOverlapTest(renderedTiles);
+
+            // The fades continue from the current opacity of the tiles when they are reversed.
+            lastRenderedTiles.forEach(tile => {
+                if (!renderedTiles.has(tile) && !tile.disposed && overlapsRendered(tile)) {
+                    fadingOutTiles.set(tile, {
+                        startTime: time - (1 - tile.crossFadeOpacity) * duration,
+                        covered: tile.crossFadeOpacity >= 1
+                    });
+                }
+            });
+            renderedTiles.forEach(tile => {
+                if (lastRenderedTiles.has(tile)) {
+                    return;
+                }
+                if (fadingOutTiles.has(tile)) {
+                    fadingOutTiles.delete(tile);
+                    fadingInTiles.set(tile, time - tile.crossFadeOpacity * duration);
+                } else if (overlapsLastRendered(tile)) {
+                    fadingInTiles.set(tile, time);
+                }
+            });
+
+            fadingInTiles.forEach((startTime, tile) => {
+                const opacity = (time - startTime) / duration;
+                if (opacity >= 1 || !renderedTiles.has(tile)) {
+                    tile.crossFadeOpacity = 1;
+                    fadingInTiles.delete(tile);
+                } else {
+                    tile.crossFadeOpacity = Math.max(opacity, 0);
+                }
+            });
+
+            renderListEntry.fadingTiles = [];
+            fadingOutTiles.forEach(({ startTime, covered }, tile) => {
+                const opacity = 1 - (time - startTime) / duration;
+                if (opacity <= 0 || tile.disposed || !tile.hasGeometry) {
+                    tile.crossFadeOpacity = 1;
+                    fadingOutTiles.delete(tile);
+                } else {
+                    tile.crossFadeOpacity = covered ? 1 : Math.min(opacity, 1);
+                    renderListEntry.fadingTiles.push(tile);
+                }
+            });
+
+            cache.renderedTiles = renderedTiles;
+            fading = fading || fadingInTiles.size > 0 || fadingOutTiles.size > 0;
+        }
+        return fading;
+    }
+
     getTile(dataSource: DataSource, tileKey: TileKey, offset: number = 0): Tile | undefined {
         function updateTile(tileToUpdate?: Tile) {
             if (tileToUpdate === undefined) {
@@ -791,6 +1019,173 @@ export class VisibleTileSet {
         });
     }
 
+    /**
+     * Requests the tiles around the visible tiles, one level above and below them and along the
+     * [[prefetchPath]], so they are loaded before they become visible. The prefetched tiles are
+     * loaded with a lower priority than the visible tiles, their geometry is only created when they
+     * become visible.
+     */
+    private prefetchTiles(
+        dataSource: DataSource,
+        visibleTiles: Tile[],
+        prefetchOptions: TilePrefetchOptions,
+        worldCenter: THREE.Vector3
+    ) {
+        const tilingScheme = dataSource.getTilingScheme();
+        const subdivisionScheme = tilingScheme.subdivisionScheme;
+        const wrapping = this.tileWrappingEnabled;
+        const visibleCodes = new Set<number>();
+        for (const tile of visibleTiles) {
+            visibleCodes.add(TileOffsetUtils.getKeyForTileKeyAndOffset(tile.tileKey, tile.offset));
+        }
+
+        // Insertion order is the prefetch order.
+        const candidates = new Map<number, { tileKey: TileKey; offset: number }>();
+        const addCandidate = (tileKey: TileKey, offset: number) => {
+            if (
+                tileKey.level < dataSource.minZoomLevel ||
+                tileKey.level > dataSource.maxZoomLevel ||
+                !dataSource.shouldRender(tileKey.level, tileKey)
+            ) {
+                return;
+            }
+            const tileCode = TileOffsetUtils.getKeyForTileKeyAndOffset(tileKey, offset);
+            if (!visibleCodes.has(tileCode) && !candidates.has(tileCode)) {
+                candidates.set(tileCode, { tileKey, offset });
+            }
+        };
+        const addNeighbors = (tileKey: TileKey, offset: number) => {
+            const columnCount = subdivisionScheme.getLevelDimensionX(tileKey.level);
+            const rowCount = subdivisionScheme.getLevelDimensionY(tileKey.level);
+            for (let row = tileKey.row - 1; row <= tileKey.row + 1; row++) {
+                if (row < 0 || row >= rowCount) {
+                    continue;
+                }
+                for (let column = tileKey.column - 1; column <= tileKey.column + 1; column++) {
+                    const columnOffset = Math.floor(column / columnCount);
+                    if (columnOffset !== 0 && !wrapping) {
+                        continue;
+                    }
+                    addCandidate(
+                        TileKey.fromRowColumnLevel(
+                            row,
+                            column - columnOffset * columnCount,
+                            tileKey.level
+                        ),
+                        offset + columnOffset
+                    );
+                }
+            }
+        };
+
+        for (const tile of visibleTiles) {
+            addNeighbors(tile.tileKey, tile.offset);
+        }
+        for (const tile of visibleTiles) {
+            if (tile.tileKey.level > 0) {
+                addCandidate(tile.tileKey.parent(), tile.offset);
+            }
+        }
+        for (const geoPoint of this.getPrefetchPathSamples(dataSource, worldCenter)) {
+            const tileKey = tilingScheme.getTileKey(geoPoint, geoPoint.altitude!);
+            if (tileKey !== null) {
+                addNeighbors(tileKey, 0);
+            }
+        }
+        for (const tile of visibleTiles) {
+            for (const childTileKey of tilingScheme.getSubTileKeys(tile.tileKey)) {
+                addCandidate(childTileKey, tile.offset);
+            }
+        }
+
+        const maxTiles = getOptionValue(prefetchOptions.maxTiles, DEFAULT_PREFETCH_MAX_TILES);
+        const maxLoadingTiles = getOptionValue(
+            prefetchOptions.maxLoadingTiles,
+            DEFAULT_PREFETCH_MAX_LOADING_TILES
+        );
+        const { tileCache } = this.getOrCreateCache(dataSource);
+        let numTiles = 0;
+        let numLoadingTiles = 0;
+        for (const [tileCode, { tileKey, offset }] of candidates) {
+            if (numTiles >= maxTiles) {
+                break;
+            }
+            if (numLoadingTiles >= maxLoadingTiles && !tileCache.has(tileCode)) {
+                // Only keep the tiles which are already prefetched.
+                continue;
+            }
+            const tile = this.getTile(dataSource, tileKey, offset);
+            if (tile === undefined) {
+                continue;
+            }
+            ++numTiles;
+            if (tile.tileLoader !== undefined && !tile.tileLoader.isFinished) {
+                ++numLoadingTiles;
+                // Load after the visible tiles, whose priority is their visible area.
+                tile.tileLoader.updatePriority(-numTiles);
+            }
+        }
+    }
+
+    /**
+     * Samples the [[prefetchPath]] from the point closest to the camera onwards, with about one
+     * sample per tile. The display level of the tiles for the [[DataSource]] is returned as
+     * altitude of the samples.
+     */
+    private getPrefetchPathSamples(
+        dataSource: DataSource,
+        worldCenter: THREE.Vector3
+    ): GeoCoordinates[] {
+        const path = this.prefetchPath;
+        if (path.length === 0) {
+            return [];
+        }
+        const center = this.projection.unprojectPoint(worldCenter);
+        let startIndex = 0;
+        let minDistance = Infinity;
+        path.forEach((point, index) => {
+            const distance =
+                Math.abs(point.geoCoordinates.latitude - center.latitude) +
+                Math.abs(point.geoCoordinates.longitude - center.longitude);
+            if (distance < minDistance) {
+                minDistance = distance;
+                startIndex = index;
+            }
+        });
+
+        const samples: GeoCoordinates[] = [];
+        const addSample = (latitude: number, longitude: number, zoomLevel: number) => {
+            const level = Math.floor(dataSource.getDisplayZoomLevel(Math.floor(zoomLevel)));
+            samples.push(new GeoCoordinates(latitude, longitude, level));
+        };
+        const start = path[startIndex];
+        addSample(start.geoCoordinates.latitude, start.geoCoordinates.longitude, start.zoomLevel);
+        for (let i = startIndex + 1; i < path.length; i++) {
+            const from = path[i - 1];
+            const to = path[i];
+            const level = dataSource.getDisplayZoomLevel(Math.min(from.zoomLevel, to.zoomLevel));
+            const tileSize = 360 / Math.pow(2, Math.floor(level));
+            const distance = Math.max(
+                Math.abs(to.geoCoordinates.latitude - from.geoCoordinates.latitude),
+                Math.abs(to.geoCoordinates.longitude - from.geoCoordinates.longitude)
+            );
+            const numSamples = MathUtils.clamp(
+                Math.ceil(distance / tileSize),
+                1,
+                MAX_PREFETCH_PATH_SAMPLES
+            );
+            for (let j = 1; j <= numSamples; j++) {
+                const t = j / numSamples;
+                addSample(
+                    THREE.Math.lerp(from.geoCoordinates.latitude, to.geoCoordinates.latitude, t),
+                    THREE.Math.lerp(from.geoCoordinates.longitude, to.geoCoordinates.longitude, t),
+                    THREE.Math.lerp(from.zoomLevel, to.zoomLevel, t)
+                );
+            }
+        }
+        return samples;
+    }
+
     private getOrCreateCache(dataSource: DataSource): DataSourceCache {
         const dataSourceName = dataSource.name;
 
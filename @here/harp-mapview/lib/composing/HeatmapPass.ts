@@ -0,0 +1,260 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { HeatmapShader } from "@here/harp-materials";
+import * as THREE from "three";
+
+import { HeatmapColorStopValue, HeatmapPoints } from "../HeatmapPoints";
+import { Pass, ShaderPass } from "./Pass";
+
+/**
+ * The number of colors in the color ramp texture.
+ */
+const COLOR_RAMP_SIZE = 256;
+
+/**
+ * Fills an RGBA color ramp with the colors of the given stops, linearly interpolated by density.
+ * Densities below the first stop fade out to transparent.
+ *
+ * @param stops The color stops, sorted by density.
+ * @param data The RGBA data of the color ramp, its texels are distributed evenly between the
+ * densities `0` and `1`.
+ */
+export function fillHeatmapColorRamp(stops: HeatmapColorStopValue[], data: Uint8Array) {
+    const size = data.length / 4;
+    const color = new THREE.Color();
+    const upperColor = new THREE.Color();
+
+    for (let i = 0; i < size; ++i) {
+        const density = i / (size - 1);
+        const upper = stops.findIndex(stop => stop.density >= density);
+        let alpha = 1;
+
+        if (stops.length === 0) {
+            color.setRGB(0, 0, 0);
+            alpha = 0;
+        } else if (upper === -1) {
+            color.set(stops[stops.length - 1].color);
+        } else if (upper === 0) {
+            color.set(stops[0].color);
+            alpha = stops[0].density > 0 ? density / stops[0].density : 1;
+        } else {
+            const lowerStop = stops[upper - 1];
+            const upperStop = stops[upper];
+            const t = (density - lowerStop.density) / (upperStop.density - lowerStop.density);
+            color.set(lowerStop.color).lerp(upperColor.set(upperStop.color), t);
+        }
+
+        data[i * 4] = Math.round(color.r * 255);
+        data[i * 4 + 1] = Math.round(color.g * 255);
+        data[i * 4 + 2] = Math.round(color.b * 255);
+        data[i * 4 + 3] = Math.round(alpha * 255);
+    }
+}
+
+/**
+ * The `HeatmapPass` renders the [[HeatmapPoints]] added to it with [[addHeatmap]]. The density of
+ * the points is accumulated into an offscreen render target, which is then colored with the color
+ * ramp of the points and blended onto the `writeBuffer`. Points with different `styleKey`s are
+ * accumulated separately.
+ *
+ * The accumulation target has 8 bits per channel, so densities above `1` are clamped. It is only
+ * allocated while the pass has heatmaps to render.
+ */
+export class HeatmapPass extends Pass {
+    private m_densityTarget: THREE.WebGLRenderTarget | null = null;
+    private m_width: number = 1;
+    private m_height: number = 1;
+    private readonly m_heatmaps = new Set<HeatmapPoints>();
+    private readonly m_colorRampData = new Uint8Array(COLOR_RAMP_SIZE * 4);
+    private readonly m_colorRamp = new THREE.DataTexture(
+        this.m_colorRampData,
+        COLOR_RAMP_SIZE,
+        1,
+        THREE.RGBAFormat
+    );
+    private m_colorRampKey?: string;
+    private readonly m_colorPass: ShaderPass;
+    private readonly m_clearColor = new THREE.Color();
+
+    constructor() {
+        super();
+        this.enabled = true;
+        this.m_colorRamp.magFilter = THREE.LinearFilter;
+        this.m_colorRamp.minFilter = THREE.LinearFilter;
+        this.m_colorPass = new ShaderPass(
+            new THREE.ShaderMaterial({
+                uniforms: THREE.UniformsUtils.clone(HeatmapShader.uniforms),
+                vertexShader: HeatmapShader.vertexShader,
+                fragmentShader: HeatmapShader.fragmentShader,
+                transparent: true,
+                depthTest: false,
+                depthWrite: false
+            }),
+            "tDensity"
+        );
+        this.m_colorPass.uniforms.tColorRamp.value = this.m_colorRamp;
+    }
+
+    /**
+     * Adds [[HeatmapPoints]] to render, for example when the [[Tile]] containing them is created.
+     * The points are only rendered while they are part of the rendered scene.
+     *
+     * @param points The points to render.
+     */
+    addHeatmap(points: HeatmapPoints) {
+        this.m_heatmaps.add(points);
+    }
+
+    /**
+     * Removes [[HeatmapPoints]] added with [[addHeatmap]], for example when the [[Tile]]
+     * containing them is disposed. The accumulation target is released with the last points.
+     *
+     * @param points The points to remove.
+     */
+    removeHeatmap(points: HeatmapPoints) {
+        this.m_heatmaps.delete(points);
+        if (this.m_heatmaps.size === 0) {
+            this.disposeDensityTarget();
+        }
+    }
+
+    /**
+     * Releases all used resources.
+     */
+    dispose() {
+        this.m_heatmaps.clear();
+        this.disposeDensityTarget();
+        this.m_colorRamp.dispose();
+        this.m_colorPass.material.dispose();
+    }
+
+    setSize(width: number, height: number) {
+        this.m_width = width;
+        this.m_height = height;
+        if (this.m_densityTarget !== null) {
+            this.m_densityTarget.setSize(width, height);
+        }
+    }
+
+    /**
+     * Renders the heatmaps of the scene onto the `writeBuffer`, or the screen if it is `null`.
+     * Does nothing if none of the [[HeatmapPoints]] added to the pass are visible in the scene.
+     *
+     * @param renderer The ThreeJS WebGLRenderer instance to render the scene with.
+     * @param scene The ThreeJS Scene instance to render the scene with.
+     * @param camera The ThreeJS Camera instance to render the scene with.
+     * @param writeBuffer A ThreeJS WebGLRenderTarget instance to render the heatmaps to.
+     */
+    render(
+        renderer: THREE.WebGLRenderer,
+        scene: THREE.Scene,
+        camera: THREE.Camera,
+        writeBuffer: THREE.WebGLRenderTarget | null
+    ) {
+        if (!this.enabled || this.m_heatmaps.size === 0) {
+            return;
+        }
+
+        const heatmaps = new Map<string, HeatmapPoints[]>();
+        this.m_heatmaps.forEach(object => {
+            if (isVisibleInScene(object, scene)) {
+                const points = heatmaps.get(object.styleKey);
+                if (points === undefined) {
+                    heatmaps.set(object.styleKey, [object]);
+                } else {
+                    points.push(object);
+                }
+            }
+        });
+        if (heatmaps.size === 0) {
+            return;
+        }
+
+        // Initiates the density target with the size of the pass, if not available.
+        if (this.m_densityTarget === null) {
+            this.m_densityTarget = new THREE.WebGLRenderTarget(this.m_width, this.m_height, {
+                minFilter: THREE.LinearFilter,
+                magFilter: THREE.LinearFilter,
+                format: THREE.RGBAFormat,
+                depthBuffer: false,
+                stencilBuffer: false
+            });
+            this.m_densityTarget.texture.name = "HeatmapPass.density";
+        }
+        const densityTarget = this.m_densityTarget;
+
+        const oldRenderTarget = renderer.getRenderTarget();
+        const oldClearAlpha = renderer.getClearAlpha();
+        this.m_clearColor.copy(renderer.getClearColor());
+        const oldLayers = camera.layers.mask;
+        const oldBackground = scene.background;
+
+        scene.background = null;
+        camera.layers.set(HeatmapPoints.LAYER);
+        renderer.setClearColor(0x000000, 0);
+
+        heatmaps.forEach(points => {
+            // Only accumulate the points of this style.
+            heatmaps.forEach(otherPoints => {
+                if (otherPoints !== points) {
+                    otherPoints.forEach(object => (object.visible = false));
+                }
+            });
+            renderer.setRenderTarget(densityTarget);
+            renderer.clear(true, false, false);
+            renderer.render(scene, camera);
+            heatmaps.forEach(otherPoints => {
+                otherPoints.forEach(object => (object.visible = true));
+            });
+
+            // The color ramp and opacity have been updated while rendering the points.
+            this.updateColorRamp(points[0].colorRamp);
+            this.m_colorPass.uniforms.opacity.value = points[0].opacity;
+            this.m_colorPass.renderToScreen = writeBuffer === null;
+            this.m_colorPass.render(renderer, scene, camera, writeBuffer!, densityTarget);
+        });
+
+        scene.background = oldBackground;
+        camera.layers.mask = oldLayers;
+        renderer.setClearColor(this.m_clearColor, oldClearAlpha);
+        renderer.setRenderTarget(oldRenderTarget);
+    }
+
+    private disposeDensityTarget() {
+        if (this.m_densityTarget !== null) {
+            this.m_densityTarget.dispose();
+            this.m_densityTarget = null;
+        }
+    }
+
+    private updateColorRamp(stops: HeatmapColorStopValue[]) {
+        const key = JSON.stringify(stops);
+        if (key === this.m_colorRampKey) {
+            return;
+        }
+        this.m_colorRampKey = key;
+        fillHeatmapColorRamp(stops, this.m_colorRampData);
+        this.m_colorRamp.needsUpdate = true;
+    }
+}
+
+/**
+ * Checks if an object is rendered as part of a scene, that is if it and all its ancestors are
+ * visible and the scene is its root.
+ */
+function isVisibleInScene(object: THREE.Object3D, scene: THREE.Scene): boolean {
+    let current: THREE.Object3D | null = object;
+    while (current !== null) {
+        if (!current.visible) {
+            return false;
+        }
+        if (current === scene) {
+            return true;
+        }
+        current = current.parent;
+    }
+    return false;
+}
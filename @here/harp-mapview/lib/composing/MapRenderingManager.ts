@@ -12,6 +12,8 @@ import {
     IVignetteEffect
 } from "@here/harp-datasource-protocol";
 import { SepiaShader, VignetteShader } from "@here/harp-materials";
+import { HeatmapPoints } from "../HeatmapPoints";
+import { HeatmapPass } from "./HeatmapPass";
 import { IPassManager } from "./IPassManager";
 import { LowResRenderPass } from "./LowResRenderPass";
 import { MSAARenderPass, MSAASampling } from "./MSAARenderPass";
@@ -134,6 +136,27 @@ export interface IMapRenderingManager extends IPassManager {
         color: string;
         ghostExtrudedPolygons: boolean;
     }): void;
+
+    /**
+     * Adds [[HeatmapPoints]] to the heatmaps rendered on top of the map, for example when the
+     * [[Tile]] containing them is created.
+     *
+     * @param points The points to render while they are part of the scene.
+     */
+    addHeatmap(points: HeatmapPoints): void;
+
+    /**
+     * Removes [[HeatmapPoints]] added with [[addHeatmap]], for example when the [[Tile]]
+     * containing them is disposed.
+     *
+     * @param points The points to remove.
+     */
+    removeHeatmap(points: HeatmapPoints): void;
+
+    /**
+     * Releases the render targets and materials of all passes.
+     */
+    dispose(): void;
 }
 
 /**
@@ -179,6 +202,7 @@ export class MapRenderingManager implements IMapRenderingManager {
     private m_dynamicMsaaSamplingLevel: MSAASampling;
     private m_staticMsaaSamplingLevel: MSAASampling;
     private m_lowResPass: LowResRenderPass;
+    private m_heatmapPass: HeatmapPass = new HeatmapPass();
 
     /**
      * The constructor of `MapRenderingManager`.
@@ -220,6 +244,33 @@ export class MapRenderingManager implements IMapRenderingManager {
         this.outline.needsUpdate = true;
     }
 
+    addHeatmap(points: HeatmapPoints) {
+        this.m_heatmapPass.addHeatmap(points);
+    }
+
+    removeHeatmap(points: HeatmapPoints) {
+        this.m_heatmapPass.removeHeatmap(points);
+    }
+
+    /**
+     * Releases the render targets and materials of all passes. The `MapRenderingManager` can't be
+     * used afterwards.
+     */
+    dispose() {
+        this.m_readBuffer.dispose();
+        this.m_target1.dispose();
+        this.m_target2.dispose();
+        this.m_msaaPass.dispose();
+        this.m_lowResPass.dispose();
+        this.m_heatmapPass.dispose();
+        this.m_sepiaPass.material.dispose();
+        this.m_vignettePass.material.dispose();
+        if (this.m_bloomPass !== undefined) {
+            this.m_bloomPass.dispose();
+            this.m_bloomPass = undefined;
+        }
+    }
+
     /**
      * The method to call to render the map with the `MapRenderingManager` instance. It contains the
      * chain of sub-passes that can transfer the write and read buffers, and other sheer rendering
@@ -242,6 +293,7 @@ export class MapRenderingManager implements IMapRenderingManager {
             // Not designed to be combined with our own MSAA
             this.m_lowResPass.renderToScreen = true;
             this.m_lowResPass.render(renderer, scene, camera, target, this.m_readBuffer);
+            this.m_heatmapPass.render(renderer, scene, camera, target);
             return;
         }
 
@@ -299,6 +351,10 @@ export class MapRenderingManager implements IMapRenderingManager {
             this.m_outlineEffect.render(scene, camera);
         }
 
+        // Color the density of the heatmaps on top of the map and its outlines, before the
+        // remaining effects are applied.
+        this.m_heatmapPass.render(renderer, scene, camera, activeTarget);
+
         if (this.bloom.enabled) {
             if (this.m_bloomPass === undefined) {
                 this.m_bloomPass = new BloomPass(
@@ -352,6 +408,7 @@ export class MapRenderingManager implements IMapRenderingManager {
             this.m_bloomPass.setSize(width, height);
         }
         this.m_lowResPass.setSize(width, height);
+        this.m_heatmapPass.setSize(width, height);
         this.m_target1.setSize(width, height);
         this.m_target2.setSize(width, height);
         this.m_width = width;
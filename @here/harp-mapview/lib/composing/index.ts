@@ -10,5 +10,6 @@ export {
     IMapRenderingManager,
     MapRenderingManager
 } from "./MapRenderingManager";
+export { HeatmapPass } from "./HeatmapPass";
 export { IPass, Pass } from "./Pass";
 export { MSAARenderPass, MSAASampling } from "./MSAARenderPass";
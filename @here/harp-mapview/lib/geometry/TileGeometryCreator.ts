@@ -8,15 +8,18 @@ import {
     BufferAttribute,
     DecodedTile,
     ExtrudedPolygonTechnique,
+    ExtrusionMappingAttributes,
     FillTechnique,
     Geometry,
     getArrayConstructor,
     getPropertyValue,
+    IndexedTechnique,
     isCirclesTechnique,
     isDashedLineTechnique,
     isExtrudedLineTechnique,
     isExtrudedPolygonTechnique,
     isFillTechnique,
+    isHeatmapTechnique,
     isInterpolatedProperty,
     isLineTechnique,
     isSegmentsTechnique,
@@ -24,6 +27,7 @@ import {
     isSquaresTechnique,
     isTerrainTechnique,
     isTextTechnique,
+    isTexturedLineTechnique,
     LineMarkerTechnique,
     needsVertexNormals,
     PoiTechnique,
@@ -41,9 +45,11 @@ import {
     EdgeMaterial,
     EdgeMaterialParameters,
     FadingFeature,
+    HeatmapMaterial,
     MapMeshBasicMaterial,
     MapMeshStandardMaterial,
-    SolidLineMaterial
+    SolidLineMaterial,
+    TexturedLineMaterial
 } from "@here/harp-materials";
 import {
     ContextualArabicConverter,
@@ -59,7 +65,10 @@ import {
 import { getOptionValue } from "@here/harp-utils";
 import * as THREE from "three";
 
-import { AnimatedExtrusionTileHandler } from "../AnimatedExtrusionHandler";
+import {
+    AnimatedExtrusionTileHandler,
+    ExtrusionMappingTileHandler
+} from "../AnimatedExtrusionHandler";
 import { ColorCache } from "../ColorCache";
 import { createMaterial, getBufferAttribute, getObjectConstructor } from "../DecodedTileHelpers";
 import {
@@ -67,7 +76,11 @@ import {
     isRenderDepthPrePassEnabled,
     setDepthPrePassStencil
 } from "../DepthPrePass";
+import { addFeatureStateData } from "../FeatureState";
+import { DEFAULT_HEATMAP_COLOR_RAMP, HeatmapPoints } from "../HeatmapPoints";
+import { getLinePatternAspectRatio, loadLinePattern } from "../LinePattern";
 import { MapViewPoints } from "../MapViewPoints";
+import { isDrapedTechnique, TerrainDraping } from "../TerrainDraping";
 import { TextElement } from "../text/TextElement";
 import { DEFAULT_TEXT_DISTANCE_SCALE } from "../text/TextElementsRenderer";
 import { computeStyleCacheId } from "../text/TextStyleCache";
@@ -130,11 +143,25 @@ export class TileGeometryCreator {
      */
     createAllGeometries(tile: Tile, decodedTile: DecodedTile) {
         tile.clear();
+        this.prepareTerrainDraping(tile);
         this.preparePois(tile, decodedTile);
         this.createTextElements(tile, decodedTile);
         this.createObjects(tile, decodedTile);
     }
 
+    /**
+     * Prepares the draping of the [[Tile]]s ground-level geometries over the terrain, if the
+     * [[MapView]] has an elevation source and draping is enabled.
+     *
+     * @param tile The [[Tile]] to process.
+     */
+    prepareTerrainDraping(tile: Tile) {
+        const mapView = tile.mapView;
+        if (mapView.drapeOverTerrain && mapView.elevationProvider !== undefined) {
+            tile.terrainDraping = new TerrainDraping(tile);
+        }
+    }
+
     /**
      * Adds a THREE object to the root of the tile. Sets the owning tiles datasource.name and the
      * tileKey in the `userData` property of the object, such that the tile it belongs to can be
@@ -307,6 +334,8 @@ export class TileGeometryCreator {
                         : DEFAULT_TEXT_DISTANCE_SCALE;
                 textElement.mayOverlap = technique.mayOverlap === true;
                 textElement.reserveSpace = technique.reserveSpace !== false;
+                textElement.repeatDistance = technique.repeatDistance;
+                textElement.maxAngleBetweenGlyphs = technique.maxAngleBetweenGlyphs;
 
                 tile.addTextElement(textElement);
             }
@@ -393,11 +422,18 @@ export class TileGeometryCreator {
         const dataSource = tile.dataSource;
         const displayZoomLevel = Math.floor(mapView.zoomLevel);
         const objects = tile.objects;
+        const extrusionMappingGeometries: Array<{
+            geometry: THREE.BufferGeometry;
+            objects: THREE.Object3D[];
+            mappings: { [name: string]: ExtrusionMappingAttributes };
+        }> = [];
 
         if (dataSource.addTileBackground) {
             this.addGroundPlane(tile);
         }
 
+        const terrainDraping = tile.terrainDraping;
+
         for (const srcGeometry of decodedTile.geometries) {
             const groups = srcGeometry.groups;
             const groupCount = groups.length;
@@ -449,6 +485,14 @@ export class TileGeometryCreator {
                     if (material === undefined) {
                         continue;
                     }
+                    if (isTexturedLineTechnique(technique)) {
+                        loadLinePattern(
+                            mapView,
+                            technique,
+                            material as TexturedLineMaterial,
+                            onMaterialUpdated
+                        );
+                    }
                     materials[techniqueIndex] = material;
                 }
 
@@ -544,7 +588,11 @@ export class TileGeometryCreator {
 
                 bufferGeometry.addGroup(start, count);
 
-                if (isSolidLineTechnique(technique) || isDashedLineTechnique(technique)) {
+                if (
+                    isSolidLineTechnique(technique) ||
+                    isDashedLineTechnique(technique) ||
+                    isTexturedLineTechnique(technique)
+                ) {
                     const lineMaterial = material as THREE.RawShaderMaterial;
                     lineMaterial.uniforms.opacity.value = material.opacity;
 
@@ -576,6 +624,11 @@ export class TileGeometryCreator {
                     material.polygonOffsetUnits = 4.0;
                 }
 
+                if (terrainDraping !== undefined && isDrapedTechnique(technique)) {
+                    terrainDraping.addGeometry(bufferGeometry);
+                    terrainDraping.applyPolygonOffset(material, technique);
+                }
+
                 // Add the solid line outlines as a separate object.
                 const hasSolidLinesOutlines: boolean =
                     isSolidLineTechnique(technique) && technique.secondaryWidth !== undefined;
@@ -602,6 +655,50 @@ export class TileGeometryCreator {
                     (object as MapViewPoints).enableRayTesting = technique.enablePicking!;
                 }
 
+                if (isHeatmapTechnique(technique)) {
+                    const heatmap = object as HeatmapPoints;
+                    const heatmapMaterial = material as HeatmapMaterial;
+                    if (bufferGeometry.getAttribute("weight") !== undefined) {
+                        heatmapMaterial.defines.USE_WEIGHT = 1;
+                    }
+                    heatmap.styleKey = `${dataSource.name}:${
+                        (technique as IndexedTechnique)._styleSetIndex
+                    }`;
+                    // The heatmap points are only rendered by the heatmap pass, which uses the
+                    // color ramp and opacity updated here.
+                    heatmap.onBeforeRender = () => {
+                        const zoomLevel = mapView.zoomLevel;
+                        heatmapMaterial.radius = getOptionValue(
+                            getPropertyValue(technique.radius, zoomLevel),
+                            HeatmapMaterial.DEFAULT_RADIUS
+                        );
+                        heatmapMaterial.weight = getOptionValue(
+                            getPropertyValue(technique.weight, zoomLevel),
+                            HeatmapMaterial.DEFAULT_WEIGHT
+                        );
+                        heatmapMaterial.intensity = getOptionValue(
+                            getPropertyValue(technique.intensity, zoomLevel),
+                            HeatmapMaterial.DEFAULT_INTENSITY
+                        );
+                        heatmap.opacity = getOptionValue(
+                            getPropertyValue(technique.opacity, zoomLevel),
+                            1
+                        );
+                        heatmap.colorRamp =
+                            technique.colorRamp !== undefined
+                                ? technique.colorRamp.map(stop => ({
+                                      density: stop.density,
+                                      color: getOptionValue(
+                                          getPropertyValue(stop.color, zoomLevel),
+                                          "#000000"
+                                      )
+                                  }))
+                                : DEFAULT_HEATMAP_COLOR_RAMP;
+                    };
+                    // Removed from the rendering manager when the tile is cleared.
+                    mapView.mapRenderingManager.addHeatmap(heatmap);
+                }
+
                 if (isLineTechnique(technique) || isSegmentsTechnique(technique)) {
                     if (isInterpolatedProperty(technique.color)) {
                         const fadingParams = this.getFadingParams(displayZoomLevel, technique);
@@ -628,7 +725,11 @@ export class TileGeometryCreator {
                 // Lines renderOrder fix: Render them as transparent objects, but make sure they end
                 // up in the opaque rendering queue (by disabling transparency onAfterRender, and
                 // enabling it onBeforeRender).
-                if (isSolidLineTechnique(technique) || isDashedLineTechnique(technique)) {
+                if (
+                    isSolidLineTechnique(technique) ||
+                    isDashedLineTechnique(technique) ||
+                    isTexturedLineTechnique(technique)
+                ) {
                     const fadingParams = this.getFadingParams(displayZoomLevel, technique);
                     FadingFeature.addRenderHelper(
                         object,
@@ -646,10 +747,11 @@ export class TileGeometryCreator {
                             const unitFactor =
                                 metricUnits === "Pixel" ? mapView.pixelToWorld * 0.5 : 1.0;
 
+                            // Textured lines keep the colors of their image by default.
                             lineMaterial.color.set(
                                 getOptionValue(
                                     getPropertyValue(technique.color, mapView.zoomLevel),
-                                    "#000000"
+                                    isTexturedLineTechnique(technique) ? "#ffffff" : "#000000"
                                 )
                             );
 
@@ -659,6 +761,13 @@ export class TileGeometryCreator {
                                     SolidLineMaterial.DEFAULT_WIDTH
                                 ) * unitFactor;
 
+                            // The offset is not halved like the line width.
+                            lineMaterial.offset =
+                                getOptionValue(
+                                    getPropertyValue(technique.offset, mapView.zoomLevel),
+                                    SolidLineMaterial.DEFAULT_OFFSET
+                                ) * (metricUnits === "Pixel" ? mapView.pixelToWorld : 1.0);
+
                             // Do the same for dashSize and gapSize for dashed lines.
                             if (isDashedLineTechnique(technique)) {
                                 const dashedLineMaterial = lineMaterial as DashedLineMaterial;
@@ -675,6 +784,49 @@ export class TileGeometryCreator {
                                         DashedLineMaterial.DEFAULT_GAP_SIZE
                                     ) * unitFactor;
                             }
+
+                            // The pattern of textured lines is measured along the line, so the
+                            // lengths are not halved like the line width.
+                            if (isTexturedLineTechnique(technique)) {
+                                const texturedLineMaterial = lineMaterial as TexturedLineMaterial;
+                                const lengthFactor = unitFactor * 2;
+
+                                const patternLength = getPropertyValue(
+                                    technique.patternLength,
+                                    mapView.zoomLevel
+                                );
+                                if (patternLength !== undefined) {
+                                    texturedLineMaterial.patternLength =
+                                        patternLength * lengthFactor;
+                                } else {
+                                    // Keep the aspect ratio of the image across the line.
+                                    const aspectRatio = getLinePatternAspectRatio(
+                                        texturedLineMaterial
+                                    );
+                                    texturedLineMaterial.patternLength =
+                                        aspectRatio !== undefined
+                                            ? 2 * texturedLineMaterial.lineWidth * aspectRatio
+                                            : TexturedLineMaterial.DEFAULT_PATTERN_LENGTH;
+                                }
+
+                                texturedLineMaterial.patternSpacing =
+                                    getOptionValue(
+                                        getPropertyValue(
+                                            technique.patternSpacing,
+                                            mapView.zoomLevel
+                                        ),
+                                        TexturedLineMaterial.DEFAULT_PATTERN_SPACING
+                                    ) * lengthFactor;
+
+                                texturedLineMaterial.patternOffset =
+                                    getOptionValue(
+                                        getPropertyValue(
+                                            technique.patternOffset,
+                                            mapView.zoomLevel
+                                        ),
+                                        TexturedLineMaterial.DEFAULT_PATTERN_OFFSET
+                                    ) * lengthFactor;
+                            }
                         }
                     );
                 }
@@ -718,6 +870,33 @@ export class TileGeometryCreator {
                 this.addFeatureData(srcGeometry, technique, object);
                 this.addGeometryObjInfos(srcGeometry, object);
 
+                if (
+                    srcGeometry.featureIds !== undefined &&
+                    srcGeometry.featureStarts !== undefined
+                ) {
+                    addFeatureStateData(
+                        object,
+                        technique,
+                        srcGeometry.featureIds,
+                        srcGeometry.featureStarts,
+                        mapView,
+                        srcGeometry.objInfos
+                    );
+                }
+
+                // The depth pre-pass mesh and the edges of the object are added below.
+                const extrusionMappingObjects: THREE.Object3D[] = [object];
+                if (
+                    isExtrudedPolygonTechnique(technique) &&
+                    srcGeometry.extrusionMappings !== undefined
+                ) {
+                    extrusionMappingGeometries.push({
+                        geometry: bufferGeometry,
+                        objects: extrusionMappingObjects,
+                        mappings: srcGeometry.extrusionMappings
+                    });
+                }
+
                 if (isExtrudedPolygonTechnique(technique) || isFillTechnique(technique)) {
                     // filled polygons are normal meshes, and need transparency only when fading or
                     // dynamic properties is defined.
@@ -808,7 +987,19 @@ export class TileGeometryCreator {
 
                 if (renderDepthPrePass) {
                     const depthPassMesh = createDepthPrePassMesh(object as THREE.Mesh);
+                    if (object.userData.featureStates !== undefined) {
+                        addFeatureStateData(
+                            depthPassMesh,
+                            technique,
+                            srcGeometry.featureIds!,
+                            srcGeometry.featureStarts!,
+                            mapView,
+                            srcGeometry.objInfos,
+                            false
+                        );
+                    }
                     objects.push(depthPassMesh);
+                    extrusionMappingObjects.push(depthPassMesh);
 
                     if (extrusionAnimationEnabled) {
                         extrudedObjects.push({
@@ -863,6 +1054,8 @@ export class TileGeometryCreator {
                     // Set the correct render order.
                     edgeObj.renderOrder = object.renderOrder + 0.1;
 
+                    this.addEdgeFeatureStateData(srcGeometry, technique, edgeObj, tile);
+
                     FadingFeature.addRenderHelper(
                         edgeObj,
                         fadingParams.lineFadeNear,
@@ -893,6 +1086,7 @@ export class TileGeometryCreator {
 
                     this.registerTileObject(tile, edgeObj);
                     objects.push(edgeObj);
+                    extrusionMappingObjects.push(edgeObj);
                 }
 
                 // animate the extrusion of buildings
@@ -943,6 +1137,8 @@ export class TileGeometryCreator {
                     const outlineObj = new THREE.LineSegments(outlineGeometry, outlineMaterial);
                     outlineObj.renderOrder = object.renderOrder + 0.1;
 
+                    this.addEdgeFeatureStateData(srcGeometry, technique, outlineObj, tile);
+
                     FadingFeature.addRenderHelper(
                         outlineObj,
                         fadingParams.lineFadeNear,
@@ -981,6 +1177,17 @@ export class TileGeometryCreator {
                     );
                     outlineMaterial.uniforms.diffuse.value = outlineColor;
                     const outlineObj = new ObjectCtor(bufferGeometry, outlineMaterial);
+                    if (object.userData.featureStates !== undefined) {
+                        addFeatureStateData(
+                            outlineObj,
+                            technique,
+                            srcGeometry.featureIds!,
+                            srcGeometry.featureStarts!,
+                            mapView,
+                            srcGeometry.objInfos,
+                            false
+                        );
+                    }
 
                     outlineObj.renderOrder =
                         outlineTechnique.secondaryRenderOrder !== undefined
@@ -1026,6 +1233,12 @@ export class TileGeometryCreator {
                                     ),
                                     SolidLineMaterial.DEFAULT_WIDTH
                                 ) * unitFactor;
+
+                            lineMaterial.offset =
+                                getOptionValue(
+                                    getPropertyValue(outlineTechnique.offset, mapView.zoomLevel),
+                                    SolidLineMaterial.DEFAULT_OFFSET
+                                ) * (metricUnits === "Pixel" ? mapView.pixelToWorld : 1.0);
                         }
                     );
 
@@ -1034,6 +1247,23 @@ export class TileGeometryCreator {
                 }
             }
         }
+
+        if (extrusionMappingGeometries.length > 0) {
+            tile.extrusionMappingTileHandler = new ExtrusionMappingTileHandler(
+                tile,
+                extrusionMappingGeometries
+            );
+            mapView.animatedExtrusionHandler.addMappingTileHandler(
+                tile.extrusionMappingTileHandler
+            );
+        }
+
+        if (
+            tile.dataSource.featureStates.size > 0 ||
+            tile.dataSource.hiddenFeatures !== undefined
+        ) {
+            tile.updateFeatureStates();
+        }
     }
 
     /**
@@ -1307,11 +1537,43 @@ export class TileGeometryCreator {
         return plane;
     }
 
+    /**
+     * Prepares the edges of polygons to hide single features, see [[addFeatureStateData]].
+     *
+     * @param srcGeometry The geometry the edges were created from.
+     * @param technique The technique of the geometry.
+     * @param object The object rendering the edges.
+     * @param tile The [[Tile]] of the edges.
+     */
+    private addEdgeFeatureStateData(
+        srcGeometry: Geometry,
+        technique: Technique,
+        object: THREE.Object3D,
+        tile: Tile
+    ) {
+        if (
+            srcGeometry.featureIds === undefined ||
+            srcGeometry.edgeFeatureStarts === undefined ||
+            srcGeometry.edgeIndex === undefined
+        ) {
+            return;
+        }
+        addFeatureStateData(
+            object,
+            technique,
+            srcGeometry.featureIds,
+            srcGeometry.edgeFeatureStarts,
+            tile.mapView,
+            srcGeometry.objInfos,
+            false
+        );
+    }
+
     /**
      * Pass the feature data on to the object, so it can be used in picking
      * `MapView.intersectMapObjects()`. Do not pass the feature data if the technique is a
-     * dashed-line or a solid-line, because the line picking functionality for the lines is not
-     * object based, but tile based.
+     * dashed-line, a solid-line or a textured-line, because the line picking functionality for the
+     * lines is not object based, but tile based.
      *
      * @param srcGeometry The original [[Geometry]].
      * @param technique The corresponding [[Technique]].
@@ -1323,7 +1585,8 @@ export class TileGeometryCreator {
                 isCirclesTechnique(technique) ||
                 isSquaresTechnique(technique)) &&
             !isSolidLineTechnique(technique) &&
-            !isDashedLineTechnique(technique)
+            !isDashedLineTechnique(technique) &&
+            !isTexturedLineTechnique(technique)
         ) {
             const featureData: TileFeatureData = {
                 geometryType: srcGeometry.type,
@@ -202,6 +202,12 @@ export class PoiManager {
                     );
 
                     if (textElement !== undefined) {
+                        if (
+                            tile.terrainDraping !== undefined &&
+                            technique.name === "labeled-icon"
+                        ) {
+                            tile.terrainDraping.addTextElement(textElement);
+                        }
                         tile.addTextElement(textElement);
                     }
                 }
@@ -509,6 +515,7 @@ export class PoiManager {
             textElement.mayOverlap = technique.textMayOverlap === true;
             textElement.reserveSpace = technique.textReserveSpace !== false;
             textElement.alwaysOnTop = technique.alwaysOnTop === true;
+            textElement.textAnchors = technique.textAnchors;
 
             const textIsOptional = technique.textIsOptional === true;
             const iconIsOptional = technique.iconIsOptional !== false;
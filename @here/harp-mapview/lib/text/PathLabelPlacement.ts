@@ -0,0 +1,320 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OrientedBox2 } from "@here/harp-geometry";
+import { Math2D } from "@here/harp-utils";
+import * as THREE from "three";
+
+/**
+ * Distance in screen pixels between two candidate label positions along a path.
+ */
+const CANDIDATE_STEP = 8;
+
+/**
+ * Bend differences (radians) below this value are considered equal when comparing candidates, the
+ * candidate closer to the center of its stretch of path is then preferred.
+ */
+const BEND_TOLERANCE = 1e-3;
+
+/**
+ * Points closer than this distance in screen pixels are merged.
+ */
+const MIN_SEGMENT_LENGTH = 1e-3;
+
+/**
+ * @hidden
+ * Parameters of [[computePathLabelPlacements]].
+ */
+export interface PathLabelPlacementParameters {
+    /**
+     * Length of the label along the path, in screen pixels.
+     */
+    labelWidth: number;
+
+    /**
+     * Minimum distance between repetitions of the label, in screen pixels. If `undefined`, the
+     * label is placed only once.
+     */
+    repeatDistance?: number;
+
+    /**
+     * Maximum angle (radians) between two consecutive segments covered by a label.
+     */
+    maxAngle: number;
+
+    /**
+     * Screen area where labels have to be fully contained.
+     */
+    screenBounds: Math2D.Box;
+}
+
+/**
+ * @hidden
+ * Computes where a label is placed along a path in screen space.
+ *
+ * The path is split in stretches of `labelWidth + repeatDistance` pixels, starting at the first
+ * point of the path, so that the stretches stay in place while the map is panned. In every
+ * stretch, the label is put on the straightest part of the path which is visible on screen and
+ * doesn't bend more than `maxAngle`. Without `repeatDistance`, the whole path is a single stretch.
+ *
+ * @param points Screen points of the path.
+ * @param params Placement parameters.
+ *
+ * @returns The paths to place the label on, one per repetition. Every path is oriented from left
+ * to right, so that the label is never rendered upside down.
+ */
+export function computePathLabelPlacements(
+    points: THREE.Vector2[],
+    params: PathLabelPlacementParameters
+): THREE.Vector2[][] {
+    const path = new ScreenPath(points);
+    const labelWidth = params.labelWidth;
+    if (path.length < labelWidth || labelWidth <= 0) {
+        return [];
+    }
+
+    const repeatDistance =
+        params.repeatDistance !== undefined ? Math.max(params.repeatDistance, 0) : undefined;
+    const stretchLength = repeatDistance !== undefined ? labelWidth + repeatDistance : path.length;
+
+    const placements: THREE.Vector2[][] = [];
+    let minStart = 0;
+    for (let stretchStart = 0; stretchStart < path.length; stretchStart += stretchLength) {
+        const stretchEnd = Math.min(stretchStart + stretchLength, path.length);
+        const stretchCenter = (stretchStart + stretchEnd) / 2;
+        const firstStart = Math.max(stretchStart, minStart);
+        const lastStart = stretchEnd - labelWidth;
+
+        let bestStart: number | undefined;
+        let bestBend = Infinity;
+        let bestCenterDistance = Infinity;
+        const evaluate = (start: number) => {
+            const bend = path.getBend(start, start + labelWidth, params.maxAngle);
+            if (
+                bend === undefined ||
+                !path.isVisible(start, start + labelWidth, params.screenBounds)
+            ) {
+                return;
+            }
+            const centerDistance = Math.abs(start + labelWidth / 2 - stretchCenter);
+            if (
+                bend < bestBend - BEND_TOLERANCE ||
+                (bend < bestBend + BEND_TOLERANCE && centerDistance < bestCenterDistance)
+            ) {
+                bestStart = start;
+                bestBend = bend;
+                bestCenterDistance = centerDistance;
+            }
+        };
+        for (let start = firstStart; start <= lastStart; start += CANDIDATE_STEP) {
+            evaluate(start);
+        }
+        if (lastStart >= firstStart) {
+            evaluate(lastStart);
+            evaluate(Math.max(stretchCenter - labelWidth / 2, firstStart));
+        }
+
+        if (bestStart !== undefined) {
+            placements.push(path.getSubPath(bestStart, bestStart + labelWidth));
+            minStart = bestStart + labelWidth + (repeatDistance !== undefined ? repeatDistance : 0);
+        }
+    }
+    return placements;
+}
+
+/**
+ * @hidden
+ * Computes the oriented boxes of the glyphs of a label placed on a path, which cover the glyphs
+ * more tightly than their axis aligned bounds when the path is not horizontal.
+ *
+ * Every glyph box is centered on the axis aligned bounds of the glyph on the path, has the size of
+ * the glyph on a straight line, and follows the direction of the path segment closest to it.
+ *
+ * @param placement The screen points of the path the label is placed on.
+ * @param pathBounds The bounds of the glyphs on the path, relative to its first point.
+ * @param lineBounds The bounds of the same glyphs on a straight line.
+ * @param boxes The output boxes. Existing boxes are reused.
+ * @returns `false` if the glyph bounds don't match, in which case no boxes are computed.
+ */
+export function computePathGlyphBoxes(
+    placement: THREE.Vector2[],
+    pathBounds: THREE.Box2[],
+    lineBounds: THREE.Box2[],
+    boxes: OrientedBox2[]
+): boolean {
+    if (pathBounds.length !== lineBounds.length || placement.length < 2) {
+        return false;
+    }
+    const origin = placement[0];
+    for (let i = 0; i < pathBounds.length; ++i) {
+        if (boxes[i] === undefined) {
+            boxes[i] = new OrientedBox2();
+        }
+        const box = boxes[i];
+        pathBounds[i].getCenter(box.position).add(origin);
+        lineBounds[i].getSize(box.extents).multiplyScalar(0.5);
+
+        let closestSegment = 0;
+        let closestDistance = Infinity;
+        for (let j = 0; j < placement.length - 1; ++j) {
+            const distance = Math2D.distToSegmentSquared(
+                box.position.x,
+                box.position.y,
+                placement[j].x,
+                placement[j].y,
+                placement[j + 1].x,
+                placement[j + 1].y
+            );
+            if (distance < closestDistance) {
+                closestDistance = distance;
+                closestSegment = j;
+            }
+        }
+        const start = placement[closestSegment];
+        const end = placement[closestSegment + 1];
+        box.setRotation(Math.atan2(end.y - start.y, end.x - start.x));
+    }
+    boxes.length = pathBounds.length;
+    return true;
+}
+
+/**
+ * Polyline in screen space with the distance along the path of each point, and the angle between
+ * its segments.
+ */
+class ScreenPath {
+    readonly points: THREE.Vector2[] = [];
+    readonly distances: number[] = [];
+    readonly turns: number[] = [];
+
+    constructor(points: THREE.Vector2[]) {
+        for (const point of points) {
+            const last = this.points[this.points.length - 1];
+            if (last === undefined) {
+                this.points.push(point);
+                this.distances.push(0);
+                continue;
+            }
+            const segmentLength = last.distanceTo(point);
+            if (segmentLength > MIN_SEGMENT_LENGTH) {
+                this.points.push(point);
+                this.distances.push(this.length + segmentLength);
+            }
+        }
+
+        this.turns.push(0);
+        for (let i = 1; i < this.points.length - 1; ++i) {
+            const prev = this.points[i - 1];
+            const point = this.points[i];
+            const next = this.points[i + 1];
+            let turn = Math.abs(
+                Math.atan2(next.y - point.y, next.x - point.x) -
+                    Math.atan2(point.y - prev.y, point.x - prev.x)
+            );
+            if (turn > Math.PI) {
+                turn = 2 * Math.PI - turn;
+            }
+            this.turns.push(turn);
+        }
+        this.turns.push(0);
+    }
+
+    get length(): number {
+        return this.distances.length > 0 ? this.distances[this.distances.length - 1] : 0;
+    }
+
+    /**
+     * Returns the sum of the angles between the segments from `start` to `end`, or `undefined` if
+     * one of them is above `maxAngle`.
+     */
+    getBend(start: number, end: number, maxAngle: number): number | undefined {
+        let bend = 0;
+        for (let i = this.findSegment(start) + 1; i < this.points.length; ++i) {
+            if (this.distances[i] >= end) {
+                break;
+            }
+            if (this.turns[i] > maxAngle) {
+                return undefined;
+            }
+            bend += this.turns[i];
+        }
+        return bend;
+    }
+
+    /**
+     * Checks if the part of the path from `start` to `end` is within the screen bounds.
+     */
+    isVisible(start: number, end: number, bounds: Math2D.Box): boolean {
+        const startPoint = this.getPoint(start);
+        const endPoint = this.getPoint(end);
+        if (
+            !bounds.contains(startPoint.x, startPoint.y) ||
+            !bounds.contains(endPoint.x, endPoint.y)
+        ) {
+            return false;
+        }
+        for (let i = this.findSegment(start) + 1; i < this.points.length; ++i) {
+            if (this.distances[i] >= end) {
+                break;
+            }
+            if (!bounds.contains(this.points[i].x, this.points[i].y)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns the points of the path from `start` to `end`, ordered from left to right.
+     */
+    getSubPath(start: number, end: number): THREE.Vector2[] {
+        const subPath = [this.getPoint(start)];
+        for (let i = this.findSegment(start) + 1; i < this.points.length; ++i) {
+            if (this.distances[i] >= end) {
+                break;
+            }
+            if (this.distances[i] > start) {
+                subPath.push(this.points[i].clone());
+            }
+        }
+        subPath.push(this.getPoint(end));
+
+        if (subPath[subPath.length - 1].x < subPath[0].x) {
+            subPath.reverse();
+        }
+        return subPath;
+    }
+
+    /**
+     * Returns the point of the path at distance `distance` from its first point.
+     */
+    getPoint(distance: number): THREE.Vector2 {
+        const i = this.findSegment(distance);
+        if (i === this.points.length - 1) {
+            return this.points[i].clone();
+        }
+        const segmentStart = this.distances[i];
+        const t = (distance - segmentStart) / (this.distances[i + 1] - segmentStart);
+        return new THREE.Vector2().lerpVectors(this.points[i], this.points[i + 1], t);
+    }
+
+    /**
+     * Returns the index of the last point of the path before distance `distance`.
+     */
+    private findSegment(distance: number): number {
+        let low = 0;
+        let high = this.points.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.distances[mid] <= distance) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+}
@@ -9,7 +9,8 @@ import {
     isLineMarkerTechnique,
     LineMarkerTechnique,
     PoiStackMode,
-    PoiTechnique
+    PoiTechnique,
+    TextAnchor
 } from "@here/harp-datasource-protocol";
 import {
     GlyphData,
@@ -302,6 +303,12 @@ export class TextElement {
      */
     visible: boolean = true;
 
+    /**
+     * If `true`, the feature of the `TextElement` is hidden by its [[DataSource]], see
+     * [[DataSource.setHiddenFeatures]].
+     */
+    featureHidden: boolean = false;
+
     /**
      * Determines minimum zoom level for visibility. Can be used to reduce the number of visible
      * `TextElement`s based on zoom level.
@@ -326,6 +333,31 @@ export class TextElement {
      */
     reserveSpace?: boolean;
 
+    /**
+     * Minimum distance in screen pixels between repetitions of a path label along its path. If
+     * `undefined`, the label is placed once.
+     */
+    repeatDistance?: number;
+
+    /**
+     * Maximum angle (radians) between two consecutive glyphs of a path label. The label is not
+     * placed where its path bends more.
+     */
+    maxAngleBetweenGlyphs?: number;
+
+    /**
+     * Candidate positions of the text of a point label around its icon, tried in order until the
+     * text fits. If `undefined`, the text is placed according to its [[TextLayoutStyle]] and
+     * offsets.
+     */
+    textAnchors?: TextAnchor[];
+
+    /**
+     * Index in [[textAnchors]] of the anchor the text was last placed at. This anchor is tried
+     * first, to prevent the text from jumping between anchors.
+     */
+    textAnchorIndex?: number;
+
     /**
      * If `true`, the label will always be rendered on top. If overlapping with other labels, the
      * render order is undefined;
@@ -3,7 +3,13 @@
  * Licensed under Apache 2.0, see full license in LICENSE
  * SPDX-License-Identifier: Apache-2.0
  */
-import { LineMarkerTechnique, TextStyleDefinition, Theme } from "@here/harp-datasource-protocol";
+import {
+    LineMarkerTechnique,
+    TextAnchor,
+    TextStyleDefinition,
+    Theme
+} from "@here/harp-datasource-protocol";
+import { OrientedBox2 } from "@here/harp-geometry";
 import { ProjectionType } from "@here/harp-geoutils";
 import {
     AdditionParameters,
@@ -43,6 +49,7 @@ import { ScreenCollisions } from "../ScreenCollisions";
 import { ScreenProjector } from "../ScreenProjector";
 import { Tile } from "../Tile";
 import { MapViewUtils } from "../Utils";
+import { computePathGlyphBoxes, computePathLabelPlacements } from "./PathLabelPlacement";
 import { SimpleLineCurve, SimplePath } from "./SimplePath";
 import { FadingState, LoadingState, RenderState, TextElement, TextPickResult } from "./TextElement";
 import { DEFAULT_TEXT_STYLE_CACHE_ID } from "./TextStyleCache";
@@ -82,6 +89,28 @@ const DEFAULT_MAX_NUM_RENDERED_TEXT_ELEMENTS = 500;
  */
 export const DEFAULT_TEXT_DISTANCE_SCALE = 0.5;
 
+/**
+ * Default maximum angle (radians) between two consecutive glyphs of a path label. Will be applied
+ * if maxAngleBetweenGlyphs is not defined in the technique.
+ */
+const DEFAULT_MAX_ANGLE_BETWEEN_GLYPHS = Math.PI / 4;
+
+/**
+ * Horizontal and vertical direction (screen space, y up) of the text from its icon, for each
+ * [[TextAnchor]].
+ */
+const TEXT_ANCHOR_DIRECTIONS: { [anchor in TextAnchor]: [number, number] } = {
+    Center: [0, 0],
+    Top: [0, 1],
+    Bottom: [0, -1],
+    Left: [-1, 0],
+    Right: [1, 0],
+    TopLeft: [-1, 1],
+    TopRight: [1, 1],
+    BottomLeft: [-1, -1],
+    BottomRight: [1, -1]
+};
+
 /**
  * Number of elements that are put into second queue. This second chance queue is used to render
  * TextElements that have not been on screen before. This is a quick source for elements that can
@@ -145,11 +174,15 @@ const logger = LoggerManager.instance.create("TextElementsRenderer");
 
 const tempBox = new THREE.Box2();
 const tempBoxes: THREE.Box2[] = [];
+const tempLineBoxes: THREE.Box2[] = [];
+const tempGlyphBoxes: OrientedBox2[] = [];
 const tempBox2D = new Math2D.Box();
 
 const tempPosition = new THREE.Vector3();
 const tempPoiPosition = new THREE.Vector3(0, 0, 0);
 const tempScreenPosition = new THREE.Vector2();
+const tempAnchorPosition = new THREE.Vector2();
+const tempAnchorBox = new Math2D.Box();
 const tempPoiScreenPosition = new THREE.Vector2();
 
 class TileTextElements {
@@ -686,6 +719,7 @@ export class TextElementsRenderer {
             const fontCatalogPromise: Promise<void> = FontCatalog.load(fontCatalogConfig.url, 1024)
                 .then((loadedFontCatalog: FontCatalog) => {
                     this.m_catalogsLoading -= 1;
+                    loadedFontCatalog.glyphRasterizer = this.m_mapView.glyphRasterizer;
                     const loadedTextCanvas = new TextCanvas({
                         renderer: this.m_mapView.renderer,
                         fontCatalog: loadedFontCatalog,
@@ -1053,7 +1087,7 @@ export class TextElementsRenderer {
             const tile = tileTextElements.tile;
             const worldOffsetX = this.m_mapView.projection.worldExtent(0, 0).max.x * tile.offset;
             for (const textElement of tileTextElements.textElements) {
-                if (!textElement.visible) {
+                if (!textElement.visible || textElement.featureHidden) {
                     continue;
                 }
 
@@ -1168,7 +1202,10 @@ export class TextElementsRenderer {
                     textElement.loadingState = LoadingState.Loaded;
                 } else {
                     textCanvas.fontCatalog
-                        .loadCharset(textElement.text, textElement.renderStyle)
+                        .loadCharset(
+                            textCanvas.shapeText(textElement.text),
+                            textElement.renderStyle
+                        )
                         .then(() => {
                             textElement.loadingState = LoadingState.Loaded;
                             this.m_mapView.update();
@@ -1181,7 +1218,7 @@ export class TextElementsRenderer {
                     textCanvas.textLayoutStyle = textElement.layoutStyle!;
                     textElement.glyphCaseArray = [];
                     textElement.glyphs = textCanvas.fontCatalog.getGlyphs(
-                        textElement.text,
+                        textCanvas.shapeText(textElement.text),
                         textCanvas.textRenderStyle,
                         textElement.glyphCaseArray
                     );
@@ -1379,7 +1416,10 @@ export class TextElementsRenderer {
                     textElement.loadingState = LoadingState.Loaded;
                 } else {
                     textCanvas.fontCatalog
-                        .loadCharset(textElement.text, textElement.renderStyle)
+                        .loadCharset(
+                            textCanvas.shapeText(textElement.text),
+                            textElement.renderStyle
+                        )
                         .then(() => {
                             textElement.loadingState = LoadingState.Loaded;
                             this.m_mapView.update();
@@ -1392,7 +1432,7 @@ export class TextElementsRenderer {
                     textCanvas.textLayoutStyle = textElement.layoutStyle!;
                     textElement.glyphCaseArray = [];
                     textElement.glyphs = textCanvas.fontCatalog.getGlyphs(
-                        textElement.text,
+                        textCanvas.shapeText(textElement.text),
                         textCanvas.textRenderStyle,
                         textElement.glyphCaseArray
                     );
@@ -1601,21 +1641,22 @@ export class TextElementsRenderer {
 
                 // Render the label's text...
                 if (doRenderText && textElement.text !== "") {
+                    // Move the text to the first of its anchors where it fits, if any.
+                    if (pointLabel.textAnchors !== undefined && pointLabel.textAnchors.length > 0) {
+                        this.findTextAnchor(
+                            pointLabel,
+                            tempPoiScreenPosition,
+                            textScale,
+                            tempScreenPosition
+                        );
+                    }
+
                     // Adjust the label positioning to match its bounding box.
                     tempPosition.x = tempScreenPosition.x;
                     tempPosition.y = tempScreenPosition.y;
                     tempPosition.z = textElement.renderDistance;
 
-                    tempBox2D.x = tempScreenPosition.x + pointLabel.bounds!.min.x * textScale;
-                    tempBox2D.y = tempScreenPosition.y + pointLabel.bounds!.min.y * textScale;
-                    tempBox2D.w = (pointLabel.bounds!.max.x - pointLabel.bounds!.min.x) * textScale;
-                    tempBox2D.h = (pointLabel.bounds!.max.y - pointLabel.bounds!.min.y) * textScale;
-
-                    // TODO: Make the margin configurable
-                    tempBox2D.x -= 4 * textScale;
-                    tempBox2D.y -= 2 * textScale;
-                    tempBox2D.w += 8 * textScale;
-                    tempBox2D.h += 4 * textScale;
+                    this.computeTextBox(pointLabel, tempScreenPosition, textScale, tempBox2D);
 
                     // Check the text visibility.
                     if (!this.m_screenCollisions.isVisible(tempBox2D)) {
@@ -1945,22 +1986,6 @@ export class TextElementsRenderer {
                 let textScale = textCanvas.textRenderStyle.fontSize.size / 100.0;
                 let opacity = 1.0;
 
-                // Get the screen points that define the label's segments and create a path with
-                // them.
-                let textPath = new THREE.Path();
-                tempScreenPosition.copy(screenPoints[0]);
-                for (let i = 0; i < screenPoints.length - 1; ++i) {
-                    textPath.add(new SimpleLineCurve(screenPoints[i], screenPoints[i + 1]));
-                }
-                // Flip the path if the label is gonna be rendered downwards.
-                if (textPath.getPoint(0.5).x - textPath.getPoint(0.51).x > 0) {
-                    tempScreenPosition.copy(screenPoints[screenPoints.length - 1]);
-                    textPath = new THREE.Path();
-                    for (let i = screenPoints.length - 1; i > 0; --i) {
-                        textPath.add(new SimpleLineCurve(screenPoints[i], screenPoints[i - 1]));
-                    }
-                }
-
                 // Update the real rendering distance to have smooth fading and scaling
                 this.updateViewDistance(this.m_mapView.worldCenter, pathLabel);
                 const textRenderDistance = pathLabel.renderDistance;
@@ -1979,34 +2004,99 @@ export class TextElementsRenderer {
                 const prevSize = textCanvas.textRenderStyle.fontSize.size;
                 textCanvas.textRenderStyle.fontSize.size = textScale * 100;
 
-                // Recalculate the text bounds for this path label. If measurement fails, the whole
-                // label doesn't fit the path and should be discarded.
-                tempMeasurementParams.path = textPath;
-                tempMeasurementParams.outputCharacterBounds = tempBoxes;
-                tempMeasurementParams.letterCaseArray = pathLabel.glyphCaseArray!;
-                if (!textCanvas.measureText(pathLabel.glyphs!, tempBox, tempMeasurementParams)) {
-                    textCanvas.textRenderStyle.fontSize.size = prevSize;
-                    return false;
-                }
+                // Measure the label to find the parts of the path it can be placed on: the
+                // straightest visible ones, repeated along the path if requested.
+                // The glyph sizes on a straight line are kept to compute the oriented boxes of the
+                // glyphs on the path.
+                tempPoiMeasurementParams.letterCaseArray = pathLabel.glyphCaseArray!;
+                tempPoiMeasurementParams.outputCharacterBounds = tempLineBoxes;
+                textCanvas.measureText(pathLabel.glyphs!, tempBox, tempPoiMeasurementParams);
+                tempPoiMeasurementParams.outputCharacterBounds = undefined;
+                const maxAngleBetweenGlyphs =
+                    pathLabel.maxAngleBetweenGlyphs !== undefined
+                        ? pathLabel.maxAngleBetweenGlyphs
+                        : DEFAULT_MAX_ANGLE_BETWEEN_GLYPHS;
+                const placements = computePathLabelPlacements(screenPoints, {
+                    labelWidth: tempBox.max.x - tempBox.min.x,
+                    repeatDistance: pathLabel.repeatDistance,
+                    maxAngle: maxAngleBetweenGlyphs,
+                    screenBounds: this.m_screenCollisions.screenBounds
+                });
+
+                const textPaths: THREE.Path[] = [];
+                for (const placement of placements) {
+                    // Create a path with the screen points of this placement.
+                    const textPath = new THREE.Path();
+                    tempScreenPosition.copy(placement[0]);
+                    for (let i = 0; i < placement.length - 1; ++i) {
+                        textPath.add(new SimpleLineCurve(placement[i], placement[i + 1]));
+                    }
 
-                // Perform per-character collision checks.
-                for (const charBounds of tempBoxes) {
-                    tempBox2D.x = tempScreenPosition.x + charBounds.min.x;
-                    tempBox2D.y = tempScreenPosition.y + charBounds.min.y;
-                    tempBox2D.w = charBounds.max.x - charBounds.min.x;
-                    tempBox2D.h = charBounds.max.y - charBounds.min.y;
+                    // Recalculate the text bounds for this placement. If measurement fails, the
+                    // label doesn't fit the path there.
+                    tempMeasurementParams.path = textPath;
+                    tempMeasurementParams.maxAngleBetweenGlyphs = maxAngleBetweenGlyphs;
+                    tempMeasurementParams.outputCharacterBounds = tempBoxes;
+                    tempMeasurementParams.letterCaseArray = pathLabel.glyphCaseArray!;
                     if (
-                        !this.m_screenCollisions.isVisible(tempBox2D) ||
-                        (!textElement.textMayOverlap &&
-                            this.m_screenCollisions.isAllocated(tempBox2D))
+                        !textCanvas.measureText(pathLabel.glyphs!, tempBox, tempMeasurementParams)
                     ) {
-                        textCanvas.textRenderStyle.fontSize.size = prevSize;
-                        return false;
+                        continue;
+                    }
+
+                    // Perform per-character collision checks, with boxes following the path if
+                    // possible.
+                    const hasGlyphBoxes = computePathGlyphBoxes(
+                        placement,
+                        tempBoxes,
+                        tempLineBoxes,
+                        tempGlyphBoxes
+                    );
+                    const isColliding = hasGlyphBoxes
+                        ? tempGlyphBoxes.some(
+                              glyphBox =>
+                                  !this.m_screenCollisions.isVisible(glyphBox) ||
+                                  (!textElement.textMayOverlap &&
+                                      this.m_screenCollisions.isAllocated(glyphBox))
+                          )
+                        : tempBoxes.some(charBounds => {
+                              tempBox2D.x = tempScreenPosition.x + charBounds.min.x;
+                              tempBox2D.y = tempScreenPosition.y + charBounds.min.y;
+                              tempBox2D.w = charBounds.max.x - charBounds.min.x;
+                              tempBox2D.h = charBounds.max.y - charBounds.min.y;
+                              return (
+                                  !this.m_screenCollisions.isVisible(tempBox2D) ||
+                                  (!textElement.textMayOverlap &&
+                                      this.m_screenCollisions.isAllocated(tempBox2D))
+                              );
+                          });
+                    if (isColliding) {
+                        continue;
+                    }
+
+                    // Allocate collision info if needed, also preventing repetitions of the label
+                    // from overlapping each other.
+                    if (pathLabel.textReservesSpace) {
+                        if (hasGlyphBoxes) {
+                            for (const glyphBox of tempGlyphBoxes) {
+                                this.m_screenCollisions.allocate(glyphBox);
+                            }
+                        } else {
+                            tempBox2D.x = tempScreenPosition.x + tempBox.min.x;
+                            tempBox2D.y = tempScreenPosition.y + tempBox.min.y;
+                            tempBox2D.w = tempBox.max.x - tempBox.min.x;
+                            tempBox2D.h = tempBox.max.y - tempBox.min.y;
+                            this.m_screenCollisions.allocate(tempBox2D);
+                        }
                     }
+                    textPaths.push(textPath);
+                }
+                if (textPaths.length === 0) {
+                    textCanvas.textRenderStyle.fontSize.size = prevSize;
+                    return false;
                 }
 
                 // Fade-in after skipping rendering during movement.
-                // NOTE: Shouldn't this only happen once we know the label is gonna be visible?
                 if (pathLabel.textRenderState === undefined) {
                     pathLabel.textRenderState = new RenderState();
                     pathLabel.textRenderState.fadingTime = this.m_mapView.fadingDisabled
@@ -2038,18 +2128,12 @@ export class TextElementsRenderer {
 
                 tempPosition.z = textElement.renderDistance;
 
-                tempAdditionParams.path = textPath;
+                tempAdditionParams.maxAngleBetweenGlyphs = maxAngleBetweenGlyphs;
                 tempAdditionParams.layer = pathLabel.renderOrder;
                 tempAdditionParams.letterCaseArray = pathLabel.glyphCaseArray;
-                textCanvas.addText(pathLabel.glyphs!, tempPosition, tempAdditionParams);
-
-                // Allocate collision info if needed.
-                if (pathLabel.textReservesSpace) {
-                    tempBox2D.x = tempScreenPosition.x + tempBox.min.x;
-                    tempBox2D.y = tempScreenPosition.y + tempBox.min.y;
-                    tempBox2D.w = tempBox.max.x - tempBox.min.x;
-                    tempBox2D.h = tempBox.max.y - tempBox.min.y;
-                    this.m_screenCollisions.allocate(tempBox2D);
+                for (const textPath of textPaths) {
+                    tempAdditionParams.path = textPath;
+                    textCanvas.addText(pathLabel.glyphs!, tempPosition, tempAdditionParams);
                 }
 
                 // Add this label to the list of rendered elements.
@@ -2097,6 +2181,107 @@ export class TextElementsRenderer {
         return numRenderedTextElements;
     }
 
+    /**
+     * Computes the screen box reserved by the text of a point label.
+     *
+     * @param pointLabel The point label.
+     * @param screenPosition Screen position of the text.
+     * @param textScale Scale of the text.
+     * @param outBox Computed box.
+     */
+    private computeTextBox(
+        pointLabel: TextElement,
+        screenPosition: THREE.Vector2,
+        textScale: number,
+        outBox: Math2D.Box
+    ) {
+        outBox.x = screenPosition.x + pointLabel.bounds!.min.x * textScale;
+        outBox.y = screenPosition.y + pointLabel.bounds!.min.y * textScale;
+        outBox.w = (pointLabel.bounds!.max.x - pointLabel.bounds!.min.x) * textScale;
+        outBox.h = (pointLabel.bounds!.max.y - pointLabel.bounds!.min.y) * textScale;
+
+        // TODO: Make the margin configurable
+        outBox.x -= 4 * textScale;
+        outBox.y -= 2 * textScale;
+        outBox.w += 8 * textScale;
+        outBox.h += 4 * textScale;
+    }
+
+    /**
+     * Finds the first of the [[TextElement.textAnchors]] of a point label where its text is
+     * visible and doesn't collide with other labels, starting with the anchor it was last placed
+     * at. If there is no such anchor, the text stays at the last used (or first) anchor.
+     *
+     * @param pointLabel The point label.
+     * @param anchorPosition Screen position of the label's icon (or of the label if it has none).
+     * @param textScale Scale of the text.
+     * @param outPosition Screen position of the text at the anchor found.
+     *
+     * @returns `true` if the text fits at the anchor found.
+     */
+    private findTextAnchor(
+        pointLabel: TextElement,
+        anchorPosition: THREE.Vector2,
+        textScale: number,
+        outPosition: THREE.Vector2
+    ): boolean {
+        const anchors = pointLabel.textAnchors!;
+        const bounds = pointLabel.bounds!;
+        const poiInfo = pointLabel.poiInfo;
+        const iconHalfWidth = poiInfo !== undefined ? poiInfo.computedWidth! / 2 : 0;
+        const iconHalfHeight = poiInfo !== undefined ? poiInfo.computedHeight! / 2 : 0;
+        const textWidth = (bounds.max.x - bounds.min.x) * textScale;
+        const textHeight = (bounds.max.y - bounds.min.y) * textScale;
+        const xOffset = pointLabel.xOffset || 0.0;
+        const yOffset = pointLabel.yOffset || 0.0;
+
+        const preferredIndex =
+            pointLabel.textAnchorIndex !== undefined && pointLabel.textAnchorIndex < anchors.length
+                ? pointLabel.textAnchorIndex
+                : 0;
+        for (let i = 0; i < anchors.length; ++i) {
+            // Try the preferred anchor first, then the others in order.
+            const index = i === 0 ? preferredIndex : i <= preferredIndex ? i - 1 : i;
+            const direction = TEXT_ANCHOR_DIRECTIONS[anchors[index]];
+            if (direction === undefined) {
+                continue;
+            }
+
+            // Place the text box next to the icon, in the anchor's direction.
+            const [dirX, dirY] = direction;
+            const left =
+                dirX === 0
+                    ? anchorPosition.x - textWidth / 2
+                    : dirX > 0
+                    ? anchorPosition.x + iconHalfWidth + xOffset
+                    : anchorPosition.x - iconHalfWidth - xOffset - textWidth;
+            const bottom =
+                dirY === 0
+                    ? anchorPosition.y - textHeight / 2
+                    : dirY > 0
+                    ? anchorPosition.y + iconHalfHeight + yOffset
+                    : anchorPosition.y - iconHalfHeight - yOffset - textHeight;
+            tempAnchorPosition.set(
+                left - bounds.min.x * textScale,
+                bottom - bounds.min.y * textScale
+            );
+
+            if (i === 0) {
+                outPosition.copy(tempAnchorPosition);
+            }
+            this.computeTextBox(pointLabel, tempAnchorPosition, textScale, tempAnchorBox);
+            if (
+                this.m_screenCollisions.isVisible(tempAnchorBox) &&
+                (pointLabel.textMayOverlap || !this.m_screenCollisions.isAllocated(tempAnchorBox))
+            ) {
+                outPosition.copy(tempAnchorPosition);
+                pointLabel.textAnchorIndex = index;
+                return true;
+            }
+        }
+        return false;
+    }
+
     private checkForSmallLabels(textElement: TextElement): THREE.Vector2[] | undefined {
         let indexOfFirstVisibleScreenPoint = -1;
         // Get the screen points that define the label's segments and create a path with
@@ -0,0 +1,187 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { EdgeMaterial, ExtrusionFeature, MapMeshBasicMaterial } from "@here/harp-materials";
+import { assert } from "chai";
+import * as THREE from "three";
+import { ExtrusionMappingTileHandler } from "../lib/AnimatedExtrusionHandler";
+import { Tile } from "../lib/Tile";
+
+describe("ExtrusionMappingTileHandler", function() {
+    let listeners: Array<() => void>;
+    let tile: Tile;
+
+    beforeEach(function() {
+        listeners = [];
+        tile = {
+            mapView: {
+                addEventListener: (type: string, listener: () => void) => {
+                    listeners.push(listener);
+                },
+                removeEventListener: (type: string, listener: () => void) => {
+                    listeners = listeners.filter(l => l !== listener);
+                },
+                animatedExtrusionHandler: { removeMappingTile: () => undefined }
+            },
+            dataSource: { requestUpdate: () => undefined }
+        } as any;
+    });
+
+    function createGeometry(): THREE.BufferGeometry {
+        // One footprint vertex at the ground and one roof vertex at a height of 10.
+        const geometry = new THREE.BufferGeometry();
+        geometry.addAttribute(
+            "position",
+            new THREE.BufferAttribute(new Float32Array([1, 2, 0, 1, 2, 10]), 3)
+        );
+        geometry.addAttribute(
+            "extrusionAxis",
+            new THREE.BufferAttribute(new Float32Array([0, 0, 0, 0, 0, 10]), 3)
+        );
+        geometry.addAttribute("color", new THREE.BufferAttribute(new Float32Array(6).fill(1), 3));
+        return geometry;
+    }
+
+    function attribute(geometry: THREE.BufferGeometry, name: string): number[] {
+        return Array.from((geometry.getAttribute(name) as THREE.BufferAttribute)
+            .array as Float32Array);
+    }
+
+    function ratio(edges: THREE.LineSegments): number {
+        return (edges.material as EdgeMaterial).uniforms.extrusionMappingRatio.value;
+    }
+
+    it("applies a mapping and restores the default mapping", function() {
+        const geometry = createGeometry();
+        const mesh = new THREE.Mesh(
+            geometry,
+            new MapMeshBasicMaterial({ vertexColors: THREE.VertexColors })
+        );
+        const edges = new THREE.LineSegments(geometry, new EdgeMaterial({}));
+        const handler = new ExtrusionMappingTileHandler(tile, [
+            {
+                geometry,
+                objects: [mesh, edges],
+                mappings: {
+                    population: {
+                        extrusionAxis: {
+                            name: "extrusionAxis",
+                            buffer: new Float32Array([0, 0, 0, 0, 0, 40]).buffer as ArrayBuffer,
+                            itemCount: 3,
+                            type: "float"
+                        },
+                        color: {
+                            name: "color",
+                            buffer: new Float32Array([1, 0, 0, 1, 0, 0]).buffer as ArrayBuffer,
+                            itemCount: 3,
+                            type: "float"
+                        }
+                    }
+                }
+            }
+        ]);
+
+        const meshDefines = (mesh.material as ExtrusionFeature).defines;
+        assert.isDefined(meshDefines.USE_EXTRUSION_MAPPING);
+        assert.isDefined(meshDefines.USE_EXTRUSION_MAPPING_COLOR);
+        assert.isDefined((edges.material as EdgeMaterial).defines.USE_EXTRUSION_MAPPING);
+
+        handler.startTransition("population", 0);
+
+        // The decoded attributes are left unchanged.
+        assert.deepEqual(attribute(geometry, "position"), [1, 2, 0, 1, 2, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionSourceAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetAxis"), [0, 0, 0, 0, 0, 40]);
+        assert.deepEqual(attribute(geometry, "extrusionSourceColor"), [1, 1, 1, 1, 1, 1]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetColor"), [1, 0, 0, 1, 0, 0]);
+        assert.equal(ratio(edges), 1);
+        assert.equal(listeners.length, 0);
+
+        handler.startTransition(undefined, 0);
+
+        assert.deepEqual(attribute(geometry, "extrusionSourceAxis"), [0, 0, 0, 0, 0, 40]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetColor"), [1, 1, 1, 1, 1, 1]);
+        assert.equal(ratio(edges), 1);
+    });
+
+    it("animates the transition after rendering", function() {
+        const geometry = createGeometry();
+        const edges = new THREE.LineSegments(geometry, new EdgeMaterial({}));
+        const handler = new ExtrusionMappingTileHandler(tile, [
+            {
+                geometry,
+                objects: [edges],
+                mappings: {
+                    flat: {
+                        extrusionAxis: {
+                            name: "extrusionAxis",
+                            buffer: new Float32Array([0, 0, 0, 0, 0, 1]).buffer as ArrayBuffer,
+                            itemCount: 3,
+                            type: "float"
+                        }
+                    }
+                }
+            }
+        ]);
+
+        handler.startTransition("flat", 1000);
+
+        assert.equal(listeners.length, 1);
+        assert.equal(ratio(edges), 0);
+        assert.deepEqual(attribute(geometry, "extrusionSourceAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetAxis"), [0, 0, 0, 0, 0, 1]);
+
+        handler.dispose();
+        assert.equal(listeners.length, 0);
+    });
+
+    it("starts a transition from the current state of the running transition", function() {
+        const geometry = createGeometry();
+        const edges = new THREE.LineSegments(geometry, new EdgeMaterial({}));
+        const handler = new ExtrusionMappingTileHandler(tile, [
+            {
+                geometry,
+                objects: [edges],
+                mappings: {
+                    flat: {
+                        extrusionAxis: {
+                            name: "extrusionAxis",
+                            buffer: new Float32Array([0, 0, 0, 0, 0, 0]).buffer as ArrayBuffer,
+                            itemCount: 3,
+                            type: "float"
+                        }
+                    }
+                }
+            }
+        ]);
+
+        handler.startTransition("flat", 1000);
+        (edges.material as EdgeMaterial).uniforms.extrusionMappingRatio.value = 0.5;
+        handler.startTransition(undefined, 0);
+
+        assert.deepEqual(attribute(geometry, "extrusionSourceAxis"), [0, 0, 0, 0, 0, 5]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.equal(listeners.length, 0);
+    });
+
+    it("keeps the default mapping of geometries without the mapping", function() {
+        const geometry = createGeometry();
+        const mesh = new THREE.Mesh(geometry);
+        const handler = new ExtrusionMappingTileHandler(tile, [
+            { geometry, objects: [mesh], mappings: {} }
+        ]);
+
+        handler.startTransition("population", 0);
+
+        assert.deepEqual(attribute(geometry, "extrusionTargetAxis"), [0, 0, 0, 0, 0, 10]);
+        assert.deepEqual(attribute(geometry, "extrusionTargetColor"), [1, 1, 1, 1, 1, 1]);
+    });
+});
@@ -0,0 +1,225 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { FillTechnique, InterpolationMode } from "@here/harp-datasource-protocol";
+import { FeatureStateFeature } from "@here/harp-materials";
+import { assert } from "chai";
+import * as THREE from "three";
+import { addFeatureStateData, applyFeatureStates, FeatureState } from "../lib/FeatureState";
+import { MapView } from "../lib/MapView";
+import { FakeOmvDataSource } from "./FakeOmvDataSource";
+
+describe("FeatureState", function() {
+    const technique: FillTechnique = {
+        name: "fill",
+        renderOrder: 0,
+        color: "#888888",
+        featureStates: {
+            hover: { color: "#ffaa00" },
+            selected: {
+                color: "#ff0000",
+                opacity: {
+                    interpolationMode: InterpolationMode.Linear,
+                    zoomLevels: new Float32Array([10, 20]),
+                    values: new Float32Array([0, 1])
+                } as any
+            }
+        }
+    };
+    const mapView = ({ zoomLevel: 15 } as any) as MapView;
+
+    function createMesh(material: THREE.Material = new THREE.MeshBasicMaterial()): THREE.Mesh {
+        const geometry = new THREE.BufferGeometry();
+        geometry.addAttribute("position", new THREE.BufferAttribute(new Float32Array(18), 3));
+        geometry.setIndex(new THREE.BufferAttribute(new Uint16Array([0, 1, 2, 3, 4, 5, 3, 5]), 1));
+        const mesh = new THREE.Mesh(geometry, material);
+        // Three features, the last one without triangles.
+        addFeatureStateData(mesh, technique, [10, 11, 12], [0, 3, 8], mapView);
+        return mesh;
+    }
+
+    function getTexels(mesh: THREE.Mesh): number[] {
+        return Array.from(mesh.userData.featureStates.texels as Uint8Array);
+    }
+
+    it("adds the index of the feature of every vertex to the geometry", function() {
+        const mesh = createMesh();
+        const geometry = mesh.geometry as THREE.BufferGeometry;
+
+        assert.deepEqual(Array.from(geometry.getAttribute("featureIndex").array), [
+            0,
+            0,
+            0,
+            1,
+            1,
+            1
+        ]);
+        const uniforms = FeatureStateFeature.enable(mesh.material as THREE.Material)!;
+        assert.instanceOf(uniforms.featureStateMap.value, THREE.DataTexture);
+        assert.deepEqual(uniforms.featureStateMapSize.value.toArray(), [3, 1]);
+        assert.deepEqual(getTexels(mesh), new Array(12).fill(0));
+    });
+
+    it("writes the states of the features to the feature state map", function() {
+        const mesh = createMesh();
+        const map = mesh.userData.featureStates.map as THREE.DataTexture;
+        const version = map.version;
+        const states = new Map<number, FeatureState>([
+            [11, { hover: true }],
+            [12, { hover: true, selected: true }]
+        ]);
+
+        applyFeatureStates(mesh, states);
+
+        assert.deepEqual(getTexels(mesh), [0, 0, 0, 0, 1, 0, 0, 0, 3, 0, 0, 0]);
+        assert.isAbove(map.version, version);
+    });
+
+    it("only updates the given feature", function() {
+        const mesh = createMesh();
+        const map = mesh.userData.featureStates.map as THREE.DataTexture;
+        const version = map.version;
+
+        applyFeatureStates(mesh, new Map([[11, { hover: true }]]), 42);
+
+        assert.deepEqual(getTexels(mesh), new Array(12).fill(0));
+        assert.equal(map.version, version);
+
+        applyFeatureStates(mesh, new Map([[11, { hover: true }], [12, { hover: true }]]), 11);
+
+        assert.deepEqual(getTexels(mesh), [0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it("hides the features matching a predicate", function() {
+        const mesh = createMesh();
+        const states = new Map<number, FeatureState>([[10, { hover: true }]]);
+
+        applyFeatureStates(mesh, states, undefined, featureId => featureId !== 11);
+
+        assert.deepEqual(getTexels(mesh), [1, 255, 0, 0, 0, 0, 0, 0, 0, 255, 0, 0]);
+    });
+
+    it("passes the feature properties to the predicate", function() {
+        const geometry = new THREE.BufferGeometry();
+        geometry.addAttribute("position", new THREE.BufferAttribute(new Float32Array(18), 3));
+        const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial());
+        addFeatureStateData(
+            mesh,
+            technique,
+            [1, 2],
+            [0, 3],
+            mapView,
+            [{ kind: "park" }, { kind: "forest" }],
+            false
+        );
+
+        applyFeatureStates(
+            mesh,
+            new Map(),
+            undefined,
+            (featureId, properties) => (properties as any).kind === "forest"
+        );
+
+        // Without index, the features start at vertices.
+        assert.deepEqual(Array.from(geometry.getAttribute("featureIndex").array), [
+            0,
+            0,
+            0,
+            1,
+            1,
+            1
+        ]);
+        assert.deepEqual(getTexels(mesh), [0, 0, 0, 0, 0, 255, 0, 0]);
+    });
+
+    it("evaluates the attributes of the states when rendering", function() {
+        const mesh = createMesh();
+        const material = mesh.material as THREE.MeshBasicMaterial;
+        const uniforms = FeatureStateFeature.enable(material)!;
+        const render = (callback: (...args: any[]) => void) =>
+            callback(undefined, undefined, undefined, mesh.geometry, material, undefined);
+
+        render(mesh.onBeforeRender);
+
+        const colors = uniforms.featureStateColors.value as THREE.Vector4[];
+        const opacities = uniforms.featureStateOpacities.value as THREE.Vector2[];
+        assert.deepEqual(colors[0].toArray(), [1, 170 / 255, 0, 1]);
+        assert.deepEqual(colors[1].toArray(), [1, 0, 0, 1]);
+        assert.deepEqual(colors[2].toArray(), [0, 0, 0, 0]);
+        assert.deepEqual(opacities[0].toArray(), [0, 0]);
+        assert.closeTo(opacities[1].x, 0.5, 1e-6);
+        assert.equal(opacities[1].y, 1);
+        // States with opacity require blending.
+        assert.isTrue(material.transparent);
+
+        render(mesh.onAfterRender);
+        assert.isFalse(material.transparent);
+    });
+
+    it("renders every object with its own material", function() {
+        const material = new THREE.MeshBasicMaterial();
+        const mesh = createMesh(material);
+        const otherMesh = createMesh(material);
+
+        assert.strictEqual(mesh.material, material);
+        assert.notStrictEqual(otherMesh.material, material);
+        assert.notStrictEqual(
+            mesh.userData.featureStates.map,
+            otherMesh.userData.featureStates.map
+        );
+    });
+
+    it("ignores objects with materials that don't support feature states", function() {
+        const mesh = createMesh(new THREE.MeshLambertMaterial());
+
+        assert.isUndefined(mesh.userData.featureStates);
+        assert.isUndefined((mesh.geometry as THREE.BufferGeometry).getAttribute("featureIndex"));
+    });
+
+    describe("DataSource", function() {
+        it("merges feature states", function() {
+            const dataSource = new FakeOmvDataSource();
+
+            dataSource.setFeatureState(1, { hover: true });
+            dataSource.setFeatureState(1, { selected: true });
+            assert.deepEqual(dataSource.getFeatureState(1), { hover: true, selected: true });
+
+            dataSource.setFeatureState(1, { hover: false });
+            assert.deepEqual(dataSource.getFeatureState(1), { selected: true });
+
+            dataSource.setFeatureState(1, { selected: false });
+            assert.isUndefined(dataSource.getFeatureState(1));
+            assert.equal(dataSource.featureStates.size, 0);
+        });
+
+        it("removes feature states", function() {
+            const dataSource = new FakeOmvDataSource();
+            dataSource.setFeatureState(1, { hover: true });
+            dataSource.setFeatureState(2, { hover: true });
+
+            dataSource.removeFeatureState(1);
+            assert.isUndefined(dataSource.getFeatureState(1));
+            assert.isDefined(dataSource.getFeatureState(2));
+
+            dataSource.removeFeatureState();
+            assert.equal(dataSource.featureStates.size, 0);
+        });
+
+        it("stores the predicate of hidden features", function() {
+            const dataSource = new FakeOmvDataSource();
+            const predicate = (featureId: number | undefined) => featureId === 1;
+
+            dataSource.setHiddenFeatures(predicate);
+            assert.strictEqual(dataSource.hiddenFeatures, predicate);
+
+            dataSource.setHiddenFeatures(undefined);
+            assert.isUndefined(dataSource.hiddenFeatures);
+        });
+    });
+});
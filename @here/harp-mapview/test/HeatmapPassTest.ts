@@ -0,0 +1,108 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+import { fillHeatmapColorRamp, HeatmapPass } from "../lib/composing/HeatmapPass";
+import { HeatmapPoints } from "../lib/HeatmapPoints";
+
+describe("HeatmapPass", function() {
+    function texel(data: Uint8Array, index: number): number[] {
+        return Array.from(data.slice(index * 4, index * 4 + 4));
+    }
+
+    it("fills the color ramp with interpolated colors", function() {
+        // Five texels at the densities 0, 0.25, 0.5, 0.75 and 1.
+        const data = new Uint8Array(5 * 4);
+
+        fillHeatmapColorRamp(
+            [{ density: 0.5, color: "#0000ff" }, { density: 1, color: "#ff0000" }],
+            data
+        );
+
+        assert.deepEqual(texel(data, 0), [0, 0, 255, 0]);
+        assert.deepEqual(texel(data, 1), [0, 0, 255, 128]);
+        assert.deepEqual(texel(data, 2), [0, 0, 255, 255]);
+        assert.deepEqual(texel(data, 3), [128, 0, 128, 255]);
+        assert.deepEqual(texel(data, 4), [255, 0, 0, 255]);
+    });
+
+    it("uses the last color above the last stop", function() {
+        const data = new Uint8Array(3 * 4);
+
+        fillHeatmapColorRamp(
+            [{ density: 0, color: "#00ff00" }, { density: 0.5, color: "#ffffff" }],
+            data
+        );
+
+        assert.deepEqual(texel(data, 0), [0, 255, 0, 255]);
+        assert.deepEqual(texel(data, 2), [255, 255, 255, 255]);
+    });
+
+    it("puts heatmap points on their own layer", function() {
+        const points = new HeatmapPoints();
+
+        // Cameras only see the default layer, unless configured otherwise.
+        assert.isFalse(points.layers.test(new THREE.Camera().layers));
+
+        const heatmapLayers = new THREE.Layers();
+        heatmapLayers.set(HeatmapPoints.LAYER);
+        assert.isTrue(points.layers.test(heatmapLayers));
+    });
+
+    it("renders the added heatmaps of the scene with a density target", function() {
+        const renderer = {
+            getRenderTarget: sinon.stub().returns(null),
+            getClearAlpha: sinon.stub().returns(1),
+            getClearColor: sinon.stub().returns(new THREE.Color()),
+            setClearColor: sinon.stub(),
+            setRenderTarget: sinon.stub(),
+            clear: sinon.stub(),
+            render: sinon.stub()
+        };
+        const scene = new THREE.Scene();
+        const camera = new THREE.Camera();
+        const points = new HeatmapPoints();
+        const pass = new HeatmapPass();
+        pass.setSize(20, 10);
+        const render = () =>
+            pass.render((renderer as any) as THREE.WebGLRenderer, scene, camera, null);
+
+        // Points in the scene are only rendered once they are added to the pass.
+        scene.add(points);
+        render();
+        assert.isFalse(renderer.render.called);
+
+        pass.addHeatmap(points);
+        scene.remove(points);
+        render();
+        assert.isFalse(renderer.render.called);
+
+        scene.add(points);
+        render();
+        // The points are accumulated into the density target, which is then colored.
+        assert.equal(renderer.render.callCount, 2);
+        const densityTarget = renderer.setRenderTarget.firstCall.args[0];
+        assert.instanceOf(densityTarget, THREE.WebGLRenderTarget);
+        assert.equal(densityTarget.width, 20);
+        assert.equal(densityTarget.height, 10);
+        assert.isTrue(points.visible);
+
+        const disposed = sinon.spy();
+        densityTarget.addEventListener("dispose", disposed);
+        pass.removeHeatmap(points);
+        assert.isTrue(disposed.calledOnce);
+
+        renderer.render.resetHistory();
+        render();
+        assert.isFalse(renderer.render.called);
+        pass.dispose();
+    });
+});
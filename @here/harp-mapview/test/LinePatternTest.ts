@@ -0,0 +1,49 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { TexturedLineMaterial } from "@here/harp-materials";
+import { assert } from "chai";
+import * as THREE from "three";
+import { getLinePatternAspectRatio, getLinePatternRect } from "../lib/LinePattern";
+
+describe("LinePattern", function() {
+    it("uses the whole image without an image texture", function() {
+        const rect = getLinePatternRect(64, 32);
+
+        assert.deepEqual(rect.toArray(), [0, 0, 1, 1]);
+    });
+
+    it("uses the region of the image texture", function() {
+        // The data of the image is stored upside down, so the top of the image is at `v = 1`.
+        const rect = getLinePatternRect(128, 64, {
+            name: "oneway",
+            image: "icons",
+            xOffset: 32,
+            yOffset: 16,
+            width: 64,
+            height: 16
+        });
+
+        assert.deepEqual(rect.toArray(), [0.25, 0.5, 0.75, 0.75]);
+    });
+
+    it("computes the aspect ratio of the repeated image", function() {
+        const material = new TexturedLineMaterial();
+        assert.isUndefined(getLinePatternAspectRatio(material));
+
+        material.map = new THREE.Texture({ width: 128, height: 64 } as any);
+        material.mapRect = getLinePatternRect(128, 64, {
+            name: "oneway",
+            image: "icons",
+            width: 64,
+            height: 16
+        });
+        assert.equal(getLinePatternAspectRatio(material), 4);
+    });
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { OrientedBox2 } from "@here/harp-geometry";
+import { Math2D } from "@here/harp-utils";
+import { assert } from "chai";
+import * as THREE from "three";
+
+import { computePathGlyphBoxes, computePathLabelPlacements } from "../lib/text/PathLabelPlacement";
+
+function createPath(...coordinates: number[]): THREE.Vector2[] {
+    const points: THREE.Vector2[] = [];
+    for (let i = 0; i < coordinates.length; i += 2) {
+        points.push(new THREE.Vector2(coordinates[i], coordinates[i + 1]));
+    }
+    return points;
+}
+
+function toCoordinates(placement: THREE.Vector2[]): number[] {
+    const coordinates: number[] = [];
+    for (const point of placement) {
+        coordinates.push(point.x, point.y);
+    }
+    return coordinates;
+}
+
+describe("PathLabelPlacement", function() {
+    const screenBounds = new Math2D.Box(-1000, -1000, 2000, 2000);
+    const maxAngle = Math.PI / 4;
+
+    it("places a label once in the middle of a straight path", function() {
+        const placements = computePathLabelPlacements(createPath(0, 0, 200, 0), {
+            labelWidth: 50,
+            maxAngle,
+            screenBounds
+        });
+        assert.deepEqual(placements.map(toCoordinates), [[75, 0, 125, 0]]);
+    });
+
+    it("orients the placements from left to right", function() {
+        const placements = computePathLabelPlacements(createPath(160, 120, 0, 0), {
+            labelWidth: 100,
+            maxAngle,
+            screenBounds
+        });
+        assert.deepEqual(placements.map(toCoordinates), [[40, 30, 120, 90]]);
+    });
+
+    it("repeats a label along a path", function() {
+        const placements = computePathLabelPlacements(createPath(0, 0, 400, 0), {
+            labelWidth: 50,
+            repeatDistance: 50,
+            maxAngle,
+            screenBounds
+        });
+        assert.deepEqual(placements.map(toCoordinates), [
+            [25, 0, 75, 0],
+            [125, 0, 175, 0],
+            [225, 0, 275, 0],
+            [325, 0, 375, 0]
+        ]);
+    });
+
+    it("keeps the repeat distance between placements", function() {
+        // The only straight part of the first stretch is at its end.
+        const placements = computePathLabelPlacements(createPath(0, 0, 20, 10, 40, 0, 400, 0), {
+            labelWidth: 40,
+            repeatDistance: 60,
+            maxAngle,
+            screenBounds
+        });
+        assert.isAtLeast(placements.length, 3);
+        assert.isAbove(placements[0][0].x, 40);
+        for (let i = 1; i < placements.length; ++i) {
+            const gap = placements[i][0].x - placements[i - 1][1].x;
+            assert.isAtLeast(gap, 60 - 1e-6);
+        }
+    });
+
+    it("places labels on the straightest part of a path", function() {
+        const placements = computePathLabelPlacements(
+            createPath(0, 0, 60, 0, 90, 10, 120, 0, 300, 0),
+            { labelWidth: 50, maxAngle, screenBounds }
+        );
+        assert.equal(placements.length, 1);
+        const [start, end] = placements[0];
+        assert.equal(placements[0].length, 2);
+        assert.isAtLeast(start.x, 120);
+        assert.equal(start.y, 0);
+        assert.equal(end.y, 0);
+    });
+
+    it("skips parts of paths bending more than the maximum angle", function() {
+        const corner = createPath(0, 0, 40, 0, 40, 40);
+        assert.lengthOf(
+            computePathLabelPlacements(corner, { labelWidth: 50, maxAngle, screenBounds }),
+            0
+        );
+        assert.lengthOf(
+            computePathLabelPlacements(corner, {
+                labelWidth: 50,
+                maxAngle: Math.PI / 2 + 0.01,
+                screenBounds
+            }),
+            1
+        );
+    });
+
+    it("places labels on the visible part of a path", function() {
+        const placements = computePathLabelPlacements(createPath(-200, 0, 400, 0), {
+            labelWidth: 50,
+            maxAngle,
+            screenBounds: new Math2D.Box(-100, -100, 200, 200)
+        });
+        assert.equal(placements.length, 1);
+        const [start, end] = placements[0];
+        assert.isAtLeast(start.x, -100);
+        assert.isAtMost(end.x, 100);
+
+        assert.lengthOf(
+            computePathLabelPlacements(createPath(200, 0, 400, 0), {
+                labelWidth: 50,
+                maxAngle,
+                screenBounds: new Math2D.Box(-100, -100, 200, 200)
+            }),
+            0
+        );
+    });
+
+    it("computes oriented boxes of glyphs along a path", function() {
+        const placement = createPath(0, 0, 30, 30, 60, 0);
+        // Glyphs of 10x4 pixels centered on the path, relative to its start.
+        const pathBounds = [
+            new THREE.Box2(new THREE.Vector2(5, 5), new THREE.Vector2(15, 15)),
+            new THREE.Box2(new THREE.Vector2(35, 5), new THREE.Vector2(45, 15))
+        ];
+        const lineBounds = [
+            new THREE.Box2(new THREE.Vector2(0, 0), new THREE.Vector2(10, 4)),
+            new THREE.Box2(new THREE.Vector2(10, 0), new THREE.Vector2(20, 4))
+        ];
+        const boxes: OrientedBox2[] = [];
+        assert.isTrue(computePathGlyphBoxes(placement, pathBounds, lineBounds, boxes));
+        assert.lengthOf(boxes, 2);
+
+        assert.deepEqual(boxes[0].position.toArray(), [10, 10]);
+        assert.deepEqual(boxes[0].extents.toArray(), [5, 2]);
+        assert.closeTo(boxes[0].xAxis.x, Math.SQRT1_2, 1e-9);
+        assert.closeTo(boxes[0].xAxis.y, Math.SQRT1_2, 1e-9);
+
+        assert.deepEqual(boxes[1].position.toArray(), [40, 10]);
+        assert.closeTo(boxes[1].xAxis.x, Math.SQRT1_2, 1e-9);
+        assert.closeTo(boxes[1].xAxis.y, -Math.SQRT1_2, 1e-9);
+
+        assert.isFalse(computePathGlyphBoxes(placement, pathBounds, [lineBounds[0]], boxes));
+    });
+});
@@ -7,9 +7,11 @@
 // tslint:disable:only-arrow-functions
 //    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
 
+import { OrientedBox2 } from "@here/harp-geometry";
 import { Math2D } from "@here/harp-utils";
 
 import { ScreenCollisions } from "../lib/ScreenCollisions";
+import { FrameStats } from "../lib/Statistics";
 
 import { assert } from "chai";
 import * as THREE from "three";
@@ -7345,4 +7347,73 @@ describe("ScreenCollisions", function() {
             true
         );
     });
+
+    it("checks collisions of oriented boxes precisely", function() {
+        const sc = new ScreenCollisions();
+        sc.update(800, 600);
+
+        // A diagonal label, its bounding box covers the corners next to it.
+        sc.allocate(
+            new OrientedBox2(new THREE.Vector2(0, 0), Math.PI / 4, new THREE.Vector2(50, 5))
+        );
+
+        assert.isFalse(sc.isAllocated(new Math2D.Box(20, -30, 10, 10)));
+        assert.isTrue(sc.isAllocated(new Math2D.Box(-5, -5, 10, 10)));
+        assert.isFalse(
+            sc.isAllocated(
+                new OrientedBox2(new THREE.Vector2(10, -10), Math.PI / 4, new THREE.Vector2(50, 5))
+            )
+        );
+        assert.isTrue(
+            sc.isAllocated(
+                new OrientedBox2(new THREE.Vector2(10, -10), -Math.PI / 4, new THREE.Vector2(50, 5))
+            )
+        );
+
+        // Oriented boxes are checked against axis aligned allocations as well.
+        sc.allocate(new Math2D.Box(100, 100, 20, 20));
+        assert.isTrue(
+            sc.isAllocated(
+                new OrientedBox2(new THREE.Vector2(95, 95), Math.PI / 4, new THREE.Vector2(10, 2))
+            )
+        );
+        assert.isFalse(
+            sc.isAllocated(
+                new OrientedBox2(new THREE.Vector2(95, 95), -Math.PI / 4, new THREE.Vector2(10, 2))
+            )
+        );
+    });
+
+    it("checks visibility of oriented boxes", function() {
+        const sc = new ScreenCollisions();
+        sc.update(800, 600);
+
+        const box = new OrientedBox2(new THREE.Vector2(405, 0), 0, new THREE.Vector2(10, 2));
+        assert.isTrue(sc.isVisible(box));
+        box.position.x = 415;
+        assert.isFalse(sc.isVisible(box));
+    });
+
+    it("reports statistics of the collision tests", function() {
+        const sc = new ScreenCollisions();
+        sc.update(800, 600);
+
+        for (let i = 0; i < 10; ++i) {
+            sc.allocate(new Math2D.Box(i * 20, 0, 10, 10));
+        }
+        assert.isFalse(sc.isAllocated(new Math2D.Box(12, 0, 5, 10)));
+        assert.isTrue(sc.isAllocated(new Math2D.Box(25, 5, 10, 10)));
+
+        const frameStats = new FrameStats();
+        sc.addStatistics(frameStats);
+        assert.equal(frameStats.getValue("collisions.numAllocations"), 10);
+        assert.equal(frameStats.getValue("collisions.numTests"), 2);
+        assert.equal(frameStats.getValue("collisions.numLinearCandidates"), 20);
+        assert.isAtMost(frameStats.getValue("collisions.numCandidates")!, 2);
+
+        sc.reset();
+        const resetStats = new FrameStats();
+        sc.addStatistics(resetStats);
+        assert.equal(resetStats.getValue("collisions.numTests"), 0);
+    });
 });
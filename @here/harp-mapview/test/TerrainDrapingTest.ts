@@ -0,0 +1,126 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { FillTechnique, SolidLineTechnique } from "@here/harp-datasource-protocol";
+import { mercatorProjection, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { assert } from "chai";
+import * as THREE from "three";
+import { DisplacementMap } from "../lib/DisplacementMap";
+import { ElevationProvider } from "../lib/ElevationProvider";
+import { MapView } from "../lib/MapView";
+import { TerrainDraping } from "../lib/TerrainDraping";
+import { TextElement } from "../lib/text/TextElement";
+import { Tile } from "../lib/Tile";
+import { FakeOmvDataSource } from "./FakeOmvDataSource";
+
+describe("TerrainDraping", function() {
+    const tileKey = TileKey.fromRowColumnLevel(1, 1, 2);
+    let displacementMap: DisplacementMap | undefined;
+    let tile: Tile;
+
+    function createDisplacementMap(elevation: number): DisplacementMap {
+        return {
+            tileKey,
+            texture: { texture: new Float32Array(4).fill(elevation), width: 2, height: 2 }
+        };
+    }
+
+    function createGeometry(positions: Float32Array): THREE.BufferGeometry {
+        const geometry = new THREE.BufferGeometry();
+        geometry.addAttribute("position", new THREE.BufferAttribute(positions, 3));
+        return geometry;
+    }
+
+    beforeEach(function() {
+        displacementMap = undefined;
+        const elevationProvider: Partial<ElevationProvider> = {
+            getHeight: () => undefined,
+            getDisplacementMap: () => displacementMap,
+            getTilingSceme: () => webMercatorTilingScheme
+        };
+        const dataSource = new FakeOmvDataSource();
+        dataSource.attach(({
+            projection: mercatorProjection,
+            elevationProvider
+        } as any) as MapView);
+        tile = new Tile(dataSource, tileKey);
+    });
+
+    it("displaces vertices by the elevations of the tile", function() {
+        displacementMap = createDisplacementMap(100);
+        const draping = new TerrainDraping(tile);
+        const geometry = createGeometry(new Float32Array([0, 0, 0, 10, 10, 5]));
+
+        draping.addGeometry(geometry);
+
+        const position = geometry.getAttribute("position");
+        assert.equal(position.getZ(0), 100);
+        assert.equal(position.getZ(1), 105);
+        assert.equal(position.getX(1), 10);
+    });
+
+    it("displaces vertices of shared buffers once", function() {
+        displacementMap = createDisplacementMap(100);
+        const draping = new TerrainDraping(tile);
+        const positions = new Float32Array([0, 0, 0]);
+
+        draping.addGeometry(createGeometry(positions));
+        draping.addGeometry(createGeometry(new Float32Array(positions.buffer)));
+
+        assert.equal(positions[2], 100);
+    });
+
+    it("drapes again once better elevations are available", function() {
+        const draping = new TerrainDraping(tile);
+        const geometry = createGeometry(new Float32Array([0, 0, 0]));
+        const anchor = new THREE.Vector3(0, 0, 0);
+        draping.addGeometry(geometry);
+        draping.addTextElement(({ position: anchor, path: undefined } as any) as TextElement);
+        assert.isFalse(draping.update());
+        assert.equal(geometry.getAttribute("position").getZ(0), 0);
+
+        displacementMap = createDisplacementMap(100);
+        assert.isTrue(draping.update());
+        assert.equal(geometry.getAttribute("position").getZ(0), 100);
+        assert.equal(anchor.z, 100);
+        assert.isTrue(tile.textElementsChanged);
+
+        displacementMap = createDisplacementMap(250);
+        assert.isTrue(draping.update());
+        assert.isFalse(draping.update());
+        assert.equal(geometry.getAttribute("position").getZ(0), 250);
+        assert.equal(anchor.z, 250);
+    });
+
+    it("pulls draped lines further towards the camera than fills", function() {
+        const draping = new TerrainDraping(tile);
+        const fill: FillTechnique = { name: "fill", renderOrder: 0 };
+        const line: SolidLineTechnique = {
+            name: "solid-line",
+            renderOrder: 1,
+            color: "#fff",
+            lineWidth: 1
+        };
+        const fillMaterial = new THREE.MeshBasicMaterial();
+        const lineMaterial = new THREE.MeshBasicMaterial();
+        const outlinedMaterial = new THREE.MeshBasicMaterial({
+            polygonOffset: true,
+            polygonOffsetFactor: 0.75
+        });
+
+        draping.applyPolygonOffset(fillMaterial, fill);
+        draping.applyPolygonOffset(lineMaterial, line);
+        draping.applyPolygonOffset(outlinedMaterial, fill);
+
+        assert.isTrue(fillMaterial.polygonOffset);
+        assert.isBelow(fillMaterial.polygonOffsetFactor, 0);
+        assert.isBelow(lineMaterial.polygonOffsetUnits, fillMaterial.polygonOffsetUnits);
+        assert.equal(outlinedMaterial.polygonOffsetFactor, 0.75);
+    });
+});
@@ -0,0 +1,150 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { Theme } from "@here/harp-datasource-protocol";
+import { assert } from "chai";
+import * as sinon from "sinon";
+import { ThemeLoader } from "../lib/ThemeLoader";
+
+declare const global: any;
+
+const root = typeof window !== "undefined" ? window : global;
+
+describe("ThemeLoader", function() {
+    describe("#mergeThemes", function() {
+        const baseTheme: Theme = {
+            clearColor: "#000000",
+            styles: {
+                tilezen: [
+                    { id: "water", when: "$layer == 'water'", technique: "fill" },
+                    { when: "$layer == 'roads'", technique: "solid-line" }
+                ],
+                geojson: [{ when: "1", technique: "fill" }]
+            },
+            textStyles: [{ name: "small", size: 10 }, { name: "large", size: 20 }],
+            images: { icons: { url: "icons.png", preload: true } },
+            lights: [{ type: "ambient", name: "ambient", color: "#ffffff" }]
+        };
+
+        it("overrides properties and merges lists", function() {
+            const theme: Theme = {
+                clearColor: "#ffffff",
+                styles: {
+                    tilezen: [
+                        { id: "water", when: "$layer == 'water'", technique: "none" },
+                        { when: "$layer == 'buildings'", technique: "extruded-polygon" }
+                    ]
+                },
+                textStyles: [{ name: "large", size: 30 }, { name: "huge", size: 40 }],
+                images: { pois: { url: "pois.png", preload: false } }
+            };
+
+            const result = ThemeLoader.mergeThemes(baseTheme, theme);
+
+            assert.equal(result.clearColor, "#ffffff");
+            assert.deepEqual(result.styles!.tilezen.map(style => style.technique), [
+                "none",
+                "solid-line",
+                "extruded-polygon"
+            ]);
+            assert.strictEqual(result.styles!.geojson, baseTheme.styles!.geojson);
+            assert.deepEqual(result.textStyles, [
+                { name: "small", size: 10 },
+                { name: "large", size: 30 },
+                { name: "huge", size: 40 }
+            ]);
+            assert.hasAllKeys(result.images, ["icons", "pois"]);
+            assert.strictEqual(result.lights, baseTheme.lights);
+        });
+
+        it("doesn't modify the input themes", function() {
+            const theme: Theme = {
+                styles: { tilezen: [{ when: "1", technique: "fill" }] }
+            };
+            ThemeLoader.mergeThemes(baseTheme, theme);
+
+            assert.equal(baseTheme.styles!.tilezen.length, 2);
+            assert.equal(theme.styles!.tilezen.length, 1);
+        });
+    });
+
+    describe("#loadAsync", function() {
+        let fetchStub: sinon.SinonStub;
+        const themeFiles: { [url: string]: Theme } = {};
+
+        beforeEach(function() {
+            fetchStub = sinon.stub(root, "fetch").callsFake((url: string) => {
+                const theme = themeFiles[url];
+                return Promise.resolve({
+                    ok: theme !== undefined,
+                    statusText: theme !== undefined ? "OK" : "Not Found",
+                    json: () => Promise.resolve(JSON.parse(JSON.stringify(theme)))
+                });
+            });
+        });
+
+        afterEach(function() {
+            fetchStub.restore();
+        });
+
+        it("resolves base themes relative to the extending theme", async function() {
+            themeFiles["https://example.com/themes/base/base.json"] = {
+                clearColor: "#000000",
+                images: { icons: { url: "icons.png", preload: true } }
+            };
+            themeFiles["https://example.com/themes/day.json"] = {
+                extends: "base/base.json",
+                clearColor: "#ffffff"
+            };
+
+            const theme = await ThemeLoader.loadAsync("https://example.com/themes/day.json");
+
+            assert.equal(theme.clearColor, "#ffffff");
+            assert.isUndefined(theme.extends);
+            assert.equal(theme.url, "https://example.com/themes/day.json");
+            assert.equal(theme.images!.icons.url, "https://example.com/themes/base/icons.png");
+        });
+
+        it("merges multiple base themes in order", async function() {
+            themeFiles["https://example.com/a.json"] = { clearColor: "#aaaaaa" };
+            themeFiles["https://example.com/b.json"] = {
+                clearColor: "#bbbbbb",
+                sky: {
+                    type: "gradient",
+                    topColor: "#fff",
+                    bottomColor: "#000",
+                    groundColor: "#000"
+                }
+            };
+
+            const theme = await ThemeLoader.loadAsync({
+                url: "https://example.com/c.json",
+                extends: ["a.json", "b.json", { fog: { color: "#ccc", startRatio: 0.5 } }]
+            });
+
+            assert.equal(theme.clearColor, "#bbbbbb");
+            assert.isDefined(theme.sky);
+            assert.isDefined(theme.fog);
+        });
+
+        it("detects cycles", async function() {
+            themeFiles["https://example.com/x.json"] = { extends: "y.json" };
+            themeFiles["https://example.com/y.json"] = { extends: "x.json" };
+
+            let error: Error | undefined;
+            try {
+                await ThemeLoader.loadAsync("https://example.com/x.json");
+            } catch (e) {
+                error = e;
+            }
+            assert.isDefined(error);
+            assert.include(error!.message, "cyclic theme inheritance");
+        });
+    });
+});
@@ -4,13 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { TileKey } from "@here/harp-geoutils";
+import { HiddenThreeJSMaterialProperties, MapMeshBasicMaterial } from "@here/harp-materials";
 import { assert } from "chai";
 import * as sinon from "sinon";
 import * as THREE from "three";
 
 import { SimpleTileGeometryManager } from "../lib/geometry/TileGeometryManager";
 import { MapView, MapViewDefaults } from "../lib/MapView";
-import { Tile } from "../lib/Tile";
+import { ITileLoader, Tile, TileLoaderState } from "../lib/Tile";
+import { addCrossFadeRenderHelper } from "../lib/TileCrossFade";
 import { VisibleTileSet } from "../lib/VisibleTileSet";
 import { FakeOmvDataSource } from "./FakeOmvDataSource";
 
@@ -147,6 +149,154 @@ describe("VisibleTileSet", function() {
         assert.equal(renderedTiles[0].tileKey.mortonCode(), parentCode);
     });
 
+    it("#updateCrossFade fades between parent and child tiles", function() {
+        const { camera, worldCenter } = createBerlinCenterCameraFromSamples();
+        const ds = new FakeOmvDataSource();
+
+        const mapView = new FakeMapView() as MapView;
+        ds.attach(mapView);
+        const tileGeometryManager = new SimpleTileGeometryManager(mapView);
+        // The tiles only pretend to have geometry, so no geometry is created for them.
+        sinon.stub(tileGeometryManager, "updateTiles");
+        const vts = new VisibleTileSet(camera, tileGeometryManager, {
+            ...MapViewDefaults,
+            tileCrossFadeDuration: 200
+        });
+        const zoomLevel = 15;
+        const storageLevel = 14;
+
+        const parentCode = TileKey.parentMortonCode(371506851);
+        const parentTile = vts.getTile(ds, TileKey.fromMortonCode(parentCode)) as Tile;
+        parentTile.forceHasGeometry(true);
+
+        // The parent is rendered as fallback while the visible tiles are loading.
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        assert.isFalse(vts.updateCrossFade(0));
+        assert.deepEqual(vts.dataSourceTileList[0].renderedTiles, [parentTile]);
+
+        // The loaded tiles fade in, while the parent they replace fades out.
+        const visibleTiles = vts.dataSourceTileList[0].visibleTiles;
+        visibleTiles.forEach(tile => tile.forceHasGeometry(true));
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        assert.isTrue(vts.updateCrossFade(100));
+        assert.sameMembers(vts.dataSourceTileList[0].renderedTiles, visibleTiles);
+        assert.deepEqual(vts.dataSourceTileList[0].fadingTiles, [parentTile]);
+        assert.equal(visibleTiles[0].crossFadeOpacity, 0);
+        assert.equal(parentTile.crossFadeOpacity, 1);
+
+        // The parent stays opaque below the tiles fading in, so they are not blended with it.
+        assert.isTrue(vts.updateCrossFade(150));
+        assert.equal(visibleTiles[0].crossFadeOpacity, 0.25);
+        assert.equal(visibleTiles[1].crossFadeOpacity, 0.25);
+        assert.equal(parentTile.crossFadeOpacity, 1);
+
+        // The objects of the tiles fading in are rendered transparent with the opacity of the tile.
+        const material = new MapMeshBasicMaterial();
+        const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+        addCrossFadeRenderHelper(mesh, visibleTiles[0]);
+        assert.isTrue(material.transparent);
+        assert.property((material as HiddenThreeJSMaterialProperties).defines, "USE_CROSS_FADE");
+
+        const shader: THREE.Shader = {
+            uniforms: {},
+            vertexShader: THREE.ShaderLib.basic.vertexShader,
+            fragmentShader: THREE.ShaderLib.basic.fragmentShader
+        };
+        material.onBeforeCompile(shader, (undefined as any) as THREE.WebGLRenderer);
+        assert.include(shader.fragmentShader, "#include <cross_fade_fragment>");
+        assert.equal(shader.uniforms.crossFadeOpacity.value, 0.25);
+
+        assert.isTrue(vts.updateCrossFade(200));
+        const renderArgs: [any, any, any, any, any, any] = [
+            undefined,
+            undefined,
+            undefined,
+            mesh.geometry,
+            material,
+            undefined
+        ];
+        mesh.onBeforeRender(...renderArgs);
+        assert.equal(shader.uniforms.crossFadeOpacity.value, 0.5);
+        assert.isTrue(material.transparent);
+        mesh.onAfterRender(...renderArgs);
+        assert.isFalse(material.transparent);
+
+        assert.isFalse(vts.updateCrossFade(300));
+        assert.deepEqual(vts.dataSourceTileList[0].fadingTiles, []);
+        assert.equal(visibleTiles[0].crossFadeOpacity, 1);
+        assert.equal(parentTile.crossFadeOpacity, 1);
+    });
+
+    it("#updateRenderList prefetches tiles around the visible tiles within budget", function() {
+        const { camera, worldCenter } = createBerlinCenterCameraFromSamples();
+        const ds = new FakeOmvDataSource();
+        ds.shouldPreloadTiles = () => true;
+        const loaders: ITileLoader[] = [];
+        ds.getTile = (tileKey: TileKey) => {
+            const tile = new Tile(ds, tileKey);
+            const loader = {
+                state: TileLoaderState.Loading,
+                isFinished: false,
+                loadAndDecode: sinon.stub(),
+                waitSettled: sinon.stub(),
+                updatePriority: sinon.spy(),
+                cancel: sinon.spy()
+            };
+            loaders.push(loader);
+            tile.tileLoader = loader;
+            return tile;
+        };
+
+        const mapView = new FakeMapView() as MapView;
+        ds.attach(mapView);
+        const tileGeometryManager = new SimpleTileGeometryManager(mapView);
+        sinon.stub(tileGeometryManager, "updateTiles");
+        const vts = new VisibleTileSet(camera, tileGeometryManager, {
+            ...MapViewDefaults,
+            tilePrefetch: { maxLoadingTiles: 4, maxTiles: 11 }
+        });
+        const zoomLevel = 15;
+        const storageLevel = 14;
+
+        function getPrefetchedTiles() {
+            const visibleTiles = vts.dataSourceTileList[0].visibleTiles;
+            const tiles: Tile[] = [];
+            vts.forEachCachedTile(tile => {
+                if (visibleTiles.indexOf(tile) === -1) {
+                    tiles.push(tile);
+                }
+            });
+            return tiles;
+        }
+
+        // Only a limited number of tiles is loaded at the same time, with a low priority.
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        assert.equal(vts.dataSourceTileList[0].visibleTiles.length, 2);
+        let prefetchedTiles = getPrefetchedTiles();
+        assert.equal(prefetchedTiles.length, 4);
+        for (const tile of prefetchedTiles) {
+            assert.equal(tile.tileKey.level, storageLevel);
+            const updatePriority = tile.tileLoader!.updatePriority as sinon.SinonSpy;
+            assert.isBelow(updatePriority.lastCall.args[0], 0);
+        }
+
+        // More tiles are prefetched once the previous ones are loaded.
+        loaders.forEach(loader => (loader.isFinished = true));
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        assert.equal(getPrefetchedTiles().length, 8);
+
+        // The ring around the visible tiles is followed by their parent, up to the maximum.
+        loaders.forEach(loader => (loader.isFinished = true));
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        vts.updateRenderList(worldCenter, zoomLevel, storageLevel, [ds]);
+        prefetchedTiles = getPrefetchedTiles();
+        assert.equal(prefetchedTiles.length, 11);
+        assert.include(
+            prefetchedTiles.map(tile => tile.tileKey.mortonCode()),
+            TileKey.parentMortonCode(371506851)
+        );
+    });
+
     it("#markTilesDirty properly handles cached & visible tiles", async function() {
         const { camera, worldCenter } = createBerlinCenterCameraFromSamples();
         const ds = new FakeOmvDataSource();
@@ -14,6 +14,10 @@ export * from "./lib/HighPrecisionLineMaterial";
 export * from "./lib/HighPrecisionPointMaterial";
 export * from "./lib/IconMaterial";
 export * from "./lib/SolidLineMaterial";
+export * from "./lib/TexturedLineMaterial";
 export * from "./lib/CirclePointsMaterial";
+export * from "./lib/HeatmapMaterial";
+export * from "./lib/HeatmapShader";
 export * from "./lib/MSAAMaterial";
+export * from "./lib/RasterTileMaterial";
 export * from "./lib/LuminosityHighPassShader";
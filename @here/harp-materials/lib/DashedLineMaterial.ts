@@ -44,6 +44,15 @@ export class DashedLineMaterial extends SolidLineMaterial {
         if (params !== undefined && params.opacity !== undefined) {
             shaderParams.opacity = params.opacity;
         }
+        if (params !== undefined && params.offset !== undefined) {
+            shaderParams.offset = params.offset;
+        }
+        if (params !== undefined && params.caps !== undefined) {
+            shaderParams.caps = params.caps;
+        }
+        if (params !== undefined && params.joins !== undefined) {
+            shaderParams.joins = params.joins;
+        }
         if (params !== undefined && params.fog !== undefined) {
             shaderParams.fog = params.fog;
         }
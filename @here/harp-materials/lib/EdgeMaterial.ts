@@ -7,7 +7,12 @@
 import * as THREE from "three";
 
 import { AnimatedExtrusionTileHandler } from "../../harp-mapview/lib/AnimatedExtrusionHandler";
-import { ExtrusionFeature, FadingFeature, FadingFeatureParameters } from "./MapMeshMaterials";
+import {
+    ExtrusionFeature,
+    FadingFeature,
+    FadingFeatureParameters,
+    FeatureStateFeature
+} from "./MapMeshMaterials";
 
 const vertexSource: string = `
 attribute vec3 position;
@@ -22,15 +27,26 @@ varying vec3 vColor;
 
 #ifdef USE_EXTRUSION
 #include <extrusion_pars_vertex>
+#elif defined(USE_EXTRUSION_MAPPING)
+attribute vec3 extrusionAxis;
+#include <extrusion_mapping_pars_vertex>
 #endif
 
 #ifdef USE_FADING
 #include <fading_pars_vertex>
 #endif
 
+#ifdef USE_FEATURE_STATE
+#include <feature_state_pars_vertex>
+#endif
+
 void main() {
     #ifdef USE_COLOR
+    #ifdef USE_EXTRUSION_MAPPING_COLOR
+    vColor = mix(edgeColor.rgb, getExtrusionMappingColor(), edgeColorMix);
+    #else
     vColor = mix(edgeColor.rgb, color.rgb, edgeColorMix);
+    #endif
     #else
     vColor = edgeColor.rgb;
     #endif
@@ -39,6 +55,8 @@ void main() {
 
     #ifdef USE_EXTRUSION
     #include <extrusion_vertex>
+    #elif defined(USE_EXTRUSION_MAPPING)
+    #include <extrusion_mapping_vertex>
     #endif
 
     vec4 mvPosition = modelViewMatrix * vec4( transformed, 1.0 );
@@ -48,6 +66,10 @@ void main() {
     #ifdef USE_FADING
     #include <fading_vertex>
     #endif
+
+    #ifdef USE_FEATURE_STATE
+    #include <feature_state_vertex>
+    #endif
 }`;
 
 const fragmentSource: string = `
@@ -64,9 +86,25 @@ varying vec3 vColor;
 #include <fading_pars_fragment>
 #endif
 
+#ifdef USE_CROSS_FADE
+#include <cross_fade_pars_fragment>
+#endif
+
+#ifdef USE_FEATURE_STATE
+#include <feature_state_pars_fragment>
+#endif
+
 void main() {
+    vec3 color = vColor;
     float alphaValue = 1.0;
-    gl_FragColor = vec4(vColor, alphaValue);
+
+    #ifdef USE_FEATURE_STATE
+    if (!applyFeatureState(color, alphaValue)) {
+        discard;
+    }
+    #endif
+
+    gl_FragColor = vec4(color, alphaValue);
 
     #ifdef USE_EXTRUSION
     #include <extrusion_fragment>
@@ -75,6 +113,10 @@ void main() {
     #ifdef USE_FADING
     #include <fading_fragment>
     #endif
+
+    #ifdef USE_CROSS_FADE
+    #include <cross_fade_fragment>
+    #endif
 }`;
 
 /**
@@ -115,7 +157,8 @@ export class EdgeMaterial extends THREE.RawShaderMaterial
                 edgeColorMix: new THREE.Uniform(EdgeMaterial.DEFAULT_COLOR_MIX),
                 fadeNear: new THREE.Uniform(FadingFeature.DEFAULT_FADE_NEAR),
                 fadeFar: new THREE.Uniform(FadingFeature.DEFAULT_FADE_FAR),
-                extrusionRatio: new THREE.Uniform(AnimatedExtrusionTileHandler.DEFAULT_RATIO_MIN)
+                extrusionRatio: new THREE.Uniform(AnimatedExtrusionTileHandler.DEFAULT_RATIO_MIN),
+                ...FeatureStateFeature.createUniforms()
             },
             depthWrite: false
         };
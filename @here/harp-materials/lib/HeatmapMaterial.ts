@@ -0,0 +1,158 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+const vertexShader: string = `
+uniform float radius;
+uniform float weightFactor;
+
+#ifdef USE_WEIGHT
+attribute float weight;
+#endif
+
+varying float vWeight;
+
+void main() {
+    #ifdef USE_WEIGHT
+    vWeight = weight * weightFactor;
+    #else
+    vWeight = weightFactor;
+    #endif
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = radius * 2.0;
+}
+`;
+
+const fragmentShader: string = `
+uniform float intensity;
+
+varying float vWeight;
+
+void main() {
+    vec2 coords = gl_PointCoord.xy * 2.0 - 1.0;
+    float distanceSq = dot(coords, coords);
+    if (distanceSq > 1.0) {
+        discard;
+    }
+
+    // Gaussian kernel, the radius is at three standard deviations.
+    float density = exp(-4.5 * distanceSq) * vWeight * intensity;
+
+    gl_FragColor = vec4(density, 0.0, 0.0, 1.0);
+}`;
+
+/**
+ * Parameters used when constructing a new [[HeatmapMaterial]].
+ */
+export interface HeatmapMaterialParameters extends THREE.ShaderMaterialParameters {
+    /**
+     * Radius of the kernel around every point, in pixels.
+     */
+    radius?: number;
+
+    /**
+     * Weight of every point, multiplied with the `weight` attribute if the geometry has one.
+     */
+    weight?: number;
+
+    /**
+     * Factor applied to the density of all points.
+     */
+    intensity?: number;
+}
+
+/**
+ * Material designed to accumulate the density of points into the red channel of a render target.
+ * The contributions of all points are added up, so the target should be cleared to black before.
+ *
+ * If the `USE_WEIGHT` define is set, every point is weighted by its `weight` attribute.
+ */
+export class HeatmapMaterial extends THREE.ShaderMaterial {
+    static readonly DEFAULT_RADIUS = 20;
+    static readonly DEFAULT_WEIGHT = 1;
+    static readonly DEFAULT_INTENSITY = 1;
+
+    isHeatmapMaterial: true;
+    uniforms: { [uniform: string]: THREE.IUniform };
+    vertexShader: string;
+    fragmentShader: string;
+
+    /**
+     * Constructs a new `HeatmapMaterial`.
+     *
+     * @param parameters The constructor's parameters.
+     */
+    constructor(parameters: HeatmapMaterialParameters = {}) {
+        const { radius, weight, intensity, ...shaderParameters } = parameters;
+        shaderParameters.depthTest = false;
+        shaderParameters.depthWrite = false;
+
+        super(shaderParameters);
+
+        this.isHeatmapMaterial = true;
+        this.type = "HeatmapMaterial";
+        this.vertexShader = vertexShader;
+        this.fragmentShader = fragmentShader;
+        this.transparent = true;
+        this.blending = THREE.AdditiveBlending;
+
+        this.uniforms = {
+            radius: new THREE.Uniform(
+                radius !== undefined ? radius : HeatmapMaterial.DEFAULT_RADIUS
+            ),
+            weightFactor: new THREE.Uniform(
+                weight !== undefined ? weight : HeatmapMaterial.DEFAULT_WEIGHT
+            ),
+            intensity: new THREE.Uniform(
+                intensity !== undefined ? intensity : HeatmapMaterial.DEFAULT_INTENSITY
+            )
+        };
+    }
+
+    /**
+     * Gets the radius of the kernel, in pixels.
+     */
+    get radius(): number {
+        return this.uniforms.radius.value;
+    }
+
+    /**
+     * Sets the radius of the kernel, in pixels.
+     */
+    set radius(radius: number) {
+        this.uniforms.radius.value = radius;
+    }
+
+    /**
+     * Gets the weight of every point.
+     */
+    get weight(): number {
+        return this.uniforms.weightFactor.value;
+    }
+
+    /**
+     * Sets the weight of every point.
+     */
+    set weight(weight: number) {
+        this.uniforms.weightFactor.value = weight;
+    }
+
+    /**
+     * Gets the factor applied to the density.
+     */
+    get intensity(): number {
+        return this.uniforms.intensity.value;
+    }
+
+    /**
+     * Sets the factor applied to the density.
+     */
+    set intensity(intensity: number) {
+        this.uniforms.intensity.value = intensity;
+    }
+}
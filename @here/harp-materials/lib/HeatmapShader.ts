@@ -0,0 +1,34 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as THREE from "three";
+
+/**
+ * `HeatmapShader` colors the density accumulated with the [[HeatmapMaterial]] with a color ramp
+ * texture, whose u coordinate is the density.
+ */
+export const HeatmapShader: THREE.Shader = {
+    uniforms: {
+        tDensity: { value: null },
+        tColorRamp: { value: null },
+        opacity: { value: 1.0 }
+    },
+    vertexShader: `
+        varying vec2 vUv;
+        void main() {
+            vUv = uv;
+            gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }`,
+    fragmentShader: `
+        uniform sampler2D tDensity;
+        uniform sampler2D tColorRamp;
+        uniform float opacity;
+        varying vec2 vUv;
+        void main() {
+            float density = clamp(texture2D( tDensity, vUv ).r, 0.0, 1.0);
+            vec4 color = texture2D( tColorRamp, vec2( density, 0.5 ) );
+            gl_FragColor = vec4( color.rgb, color.a * opacity );
+        }`
+};
@@ -12,6 +12,7 @@ import * as THREE from "three";
 
 import extrusionShaderChunk from "./ShaderChunks/ExtrusionChunks";
 import fadingShaderChunk from "./ShaderChunks/FadingChunks";
+import featureStateShaderChunk from "./ShaderChunks/FeatureStateChunks";
 
 /**
  * The MapMeshMaterials [[MapMeshBasicMaterial]] and [[MapMeshStandardMaterial]] are the standard
@@ -142,6 +143,12 @@ export namespace FadingFeature {
     export const DEFAULT_FADE_NEAR: number = -1.0;
     export const DEFAULT_FADE_FAR: number = -1.0;
 
+    /**
+     * The uniforms added to the materials by [[enableCrossFade]], kept for materials that are not
+     * a [[THREE.ShaderMaterial]].
+     */
+    const crossFadeUniforms = new WeakMap<THREE.Material, THREE.IUniform>();
+
     /**
      * Patch the THREE.ShaderChunk on first call with some extra shader chunks.
      */
@@ -224,6 +231,82 @@ export namespace FadingFeature {
         );
     }
 
+    /**
+     * Enables the cross-fade in the shaders of a material, which multiplies the alpha of every
+     * fragment with the `crossFadeOpacity` uniform.
+     *
+     * Shader materials support the cross-fade if they have the distance fading uniforms and include
+     * the cross-fade shader chunks if `USE_CROSS_FADE` is defined. The shaders of other materials
+     * that are not a [[THREE.ShaderMaterial]] are patched.
+     *
+     * @param material The material to cross-fade.
+     * @param opacity The uniform with the opacity of the cross-fade. It can be shared by several
+     * materials.
+     * @returns `false` if the material doesn't support the cross-fade.
+     */
+    export function enableCrossFade(material: THREE.Material, opacity: THREE.IUniform): boolean {
+        const fadingMaterial = material as THREE.Material & HiddenThreeJSMaterialProperties;
+        if (material instanceof THREE.ShaderMaterial) {
+            if (material.uniforms.fadeNear === undefined) {
+                return false;
+            }
+            material.uniforms.crossFadeOpacity = opacity;
+        } else {
+            const enabled = crossFadeUniforms.has(material);
+            crossFadeUniforms.set(material, opacity);
+            if (enabled) {
+                return true;
+            }
+            material.onBeforeCompile = chainCallbacks(
+                material.onBeforeCompile,
+                (shader: any, renderer: THREE.WebGLRenderer) => {
+                    onBeforeCompileCrossFade(material, shader);
+                }
+            );
+        }
+        patchGlobalShaderChunks();
+
+        if (fadingMaterial.defines === undefined) {
+            fadingMaterial.defines = {};
+        }
+        if (fadingMaterial.defines.USE_CROSS_FADE === undefined) {
+            fadingMaterial.defines.USE_CROSS_FADE = "";
+            fadingMaterial.needsUpdate = true;
+        }
+        return true;
+    }
+
+    /**
+     * Adds the cross-fade uniform and shader code to the shaders of a material that is not a
+     * [[THREE.ShaderMaterial]].
+     *
+     * @param material The material prepared with [[enableCrossFade]].
+     * @param shader [[THREE.WebGLShader]] containing the vertex and fragment shaders to add the
+     *                  special includes to.
+     */
+    function onBeforeCompileCrossFade(material: THREE.Material, shader: any) {
+        const opacity = crossFadeUniforms.get(material);
+        if (opacity === undefined) {
+            return;
+        }
+        // The uniform object is shared with the shader, so the opacity can be changed without
+        // accessing the renderer.
+        (shader.uniforms as UniformsType).crossFadeOpacity = opacity;
+
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "fog_pars_fragment",
+            "cross_fade_pars_fragment"
+        );
+
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "fog_fragment",
+            "cross_fade_fragment",
+            true
+        );
+    }
+
     /**
      * As threejs is rendering the transparent objects last (internally), regardless of their
      * renderOrder value, we set the transparent value to false in the [[onAfterRenderCall]]. In
@@ -414,6 +497,12 @@ export class FadingFeatureMixin implements FadingFeature {
 }
 
 export namespace ExtrusionFeature {
+    /**
+     * The uniforms added to the materials by [[enableMapping]], kept for materials that are not a
+     * [[THREE.ShaderMaterial]].
+     */
+    const mappingRatioUniforms = new WeakMap<THREE.Material, THREE.IUniform>();
+
     /**
      * Patch the THREE.ShaderChunk on first call with some extra shader chunks.
      */
@@ -444,6 +533,59 @@ export namespace ExtrusionFeature {
         }
     }
 
+    /**
+     * Enables the transition between two extrusion mappings in the shaders of a material.
+     *
+     * The extrusion axis of every vertex is interpolated between the `extrusionSourceAxis` and the
+     * `extrusionTargetAxis` attributes of the geometry, and with `colors` set, its color between
+     * the `extrusionSourceColor` and the `extrusionTargetColor` attributes. Shader materials
+     * support the transition if they have an `extrusionRatio` uniform and include the extrusion
+     * mapping shader chunks if `USE_EXTRUSION_MAPPING` is defined.
+     *
+     * @param material The material to render the transition with.
+     * @param ratio The uniform with the ratio of the transition, from `0` at the source to `1` at
+     * the target. It can be shared by several materials.
+     * @param colors `true` to interpolate the colors of the vertices.
+     * @returns `false` if the material doesn't support extrusion mappings.
+     */
+    export function enableMapping(
+        material: THREE.Material,
+        ratio: THREE.IUniform,
+        colors: boolean
+    ): boolean {
+        if (material instanceof THREE.ShaderMaterial) {
+            if (material.uniforms.extrusionRatio === undefined) {
+                return false;
+            }
+            material.uniforms.extrusionMappingRatio = ratio;
+        } else if (
+            material instanceof MapMeshBasicMaterial ||
+            material instanceof MapMeshStandardMaterial
+        ) {
+            mappingRatioUniforms.set(material, ratio);
+            // The extrusion shader chunks are only added to materials with an extrusion ratio.
+            if (material.extrusionRatio === undefined) {
+                material.extrusionRatio = AnimatedExtrusionTileHandler.DEFAULT_RATIO_MAX;
+            }
+        } else {
+            return false;
+        }
+        patchGlobalShaderChunks();
+
+        const extrusionMaterial = material as ExtrusionFeature;
+        if (extrusionMaterial.defines === undefined) {
+            extrusionMaterial.defines = {};
+        }
+        extrusionMaterial.defines.USE_EXTRUSION_MAPPING = "";
+        if (colors) {
+            extrusionMaterial.defines.USE_EXTRUSION_MAPPING_COLOR = "";
+        } else {
+            delete extrusionMaterial.defines.USE_EXTRUSION_MAPPING_COLOR;
+        }
+        extrusionMaterial.needsUpdate = true;
+        return true;
+    }
+
     /**
      * This function should be called on implementors of ExtrusionFeature in the `onBeforeCompile`
      * callback of that material. It adds the required code to the shaders and declares the new
@@ -478,6 +620,20 @@ export namespace ExtrusionFeature {
             true
         );
 
+        const mappingRatio = mappingRatioUniforms.get(extrusionMaterial as THREE.Material);
+        if (mappingRatio !== undefined) {
+            // The uniform object is shared with the shader, so the transition is animated without
+            // accessing the renderer.
+            uniforms.extrusionMappingRatio = mappingRatio;
+
+            shader.vertexShader = insertShaderInclude(
+                shader.vertexShader,
+                "color_vertex",
+                "extrusion_mapping_color_vertex",
+                true
+            );
+        }
+
         shader.fragmentShader = insertShaderInclude(
             shader.fragmentShader,
             "fog_pars_fragment",
@@ -599,6 +755,152 @@ export class ExtrusionFeatureMixin implements ExtrusionFeature {
     }
 }
 
+/**
+ * Namespace with support functions for materials rendering the features of a geometry in different
+ * states, see [[BaseTechniqueParams.featureStates]].
+ *
+ * The states of the features are stored in a texture with one texel per feature, which the
+ * fragment shader reads at the `featureIndex` attribute of the vertices. Changing the state of a
+ * feature only updates this texture, while the colors and opacities of the states are uniforms that
+ * can change in every frame.
+ */
+export namespace FeatureStateFeature {
+    /**
+     * The maximum number of states a material can render.
+     */
+    export const MAX_FEATURE_STATES: number = 8;
+
+    /**
+     * The uniforms added to the materials by [[enable]], kept for materials that are not a
+     * [[THREE.ShaderMaterial]].
+     */
+    const materialUniforms = new WeakMap<THREE.Material, UniformsType>();
+
+    /**
+     * Patch the THREE.ShaderChunk on first call with some extra shader chunks.
+     */
+    export function patchGlobalShaderChunks() {
+        if (THREE.ShaderChunk.feature_state_pars_vertex === undefined) {
+            Object.assign(THREE.ShaderChunk, featureStateShaderChunk);
+        }
+    }
+
+    /**
+     * Creates the uniforms used by the feature state shader chunks. Shader materials supporting
+     * feature states add them to their uniforms.
+     */
+    export function createUniforms(): UniformsType {
+        const colors: THREE.Vector4[] = [];
+        const opacities: THREE.Vector2[] = [];
+        for (let i = 0; i < MAX_FEATURE_STATES; ++i) {
+            colors.push(new THREE.Vector4(0, 0, 0, 0));
+            opacities.push(new THREE.Vector2(0, 0));
+        }
+        return {
+            featureStateMap: new THREE.Uniform(null),
+            featureStateMapSize: new THREE.Uniform(new THREE.Vector2(1, 1)),
+            featureStateColors: new THREE.Uniform(colors),
+            featureStateOpacities: new THREE.Uniform(opacities)
+        };
+    }
+
+    /**
+     * Enables the feature states in the shaders of a material.
+     *
+     * Shader materials support feature states if they declare the uniforms of [[createUniforms]]
+     * and include the feature state shader chunks if `USE_FEATURE_STATE` is defined. The shaders
+     * of the basic and standard mesh materials and of the basic line material are patched.
+     *
+     * @param material The material to render with feature states.
+     * @returns The uniforms controlling the feature states, or `undefined` if the material doesn't
+     * support feature states.
+     */
+    export function enable(material: THREE.Material): UniformsType | undefined {
+        if (material instanceof THREE.ShaderMaterial) {
+            if (material.uniforms.featureStateMap === undefined) {
+                return undefined;
+            }
+            patchGlobalShaderChunks();
+            // Cloned materials share the vectors of uniform arrays, so the uniforms are replaced.
+            Object.assign(material.uniforms, createUniforms());
+            material.defines.USE_FEATURE_STATE = "";
+            material.needsUpdate = true;
+            return material.uniforms;
+        }
+        if (
+            !(material instanceof THREE.MeshBasicMaterial) &&
+            !(material instanceof THREE.MeshStandardMaterial) &&
+            !(material instanceof THREE.LineBasicMaterial)
+        ) {
+            return undefined;
+        }
+        let uniforms = materialUniforms.get(material);
+        if (uniforms !== undefined) {
+            return uniforms;
+        }
+        patchGlobalShaderChunks();
+        uniforms = createUniforms();
+        materialUniforms.set(material, uniforms);
+
+        const featureStateMaterial = material as THREE.Material & HiddenThreeJSMaterialProperties;
+        if (featureStateMaterial.defines === undefined) {
+            featureStateMaterial.defines = {};
+        }
+        // Add this define to differentiate it internally from other materials of the same type.
+        featureStateMaterial.defines.FEATURE_STATE_MATERIAL = "";
+        featureStateMaterial.needsUpdate = true;
+
+        const stateUniforms = uniforms;
+        material.onBeforeCompile = chainCallbacks(
+            material.onBeforeCompile,
+            (shader: any, renderer: THREE.WebGLRenderer) => {
+                onBeforeCompile(stateUniforms, shader);
+            }
+        );
+        return uniforms;
+    }
+
+    /**
+     * Adds the feature state uniforms and shader code to the shaders of a material that is not a
+     * [[THREE.ShaderMaterial]].
+     *
+     * @param uniforms The feature state uniforms of the material.
+     * @param shader [[THREE.WebGLShader]] containing the vertex and fragment shaders to add the
+     *                  special includes to.
+     */
+    function onBeforeCompile(uniforms: UniformsType, shader: any) {
+        // The uniform objects are shared with the shader, so their values can be changed without
+        // accessing the renderer.
+        Object.assign(shader.uniforms, uniforms);
+
+        shader.vertexShader = insertShaderInclude(
+            shader.vertexShader,
+            "common",
+            "feature_state_pars_vertex"
+        );
+
+        shader.vertexShader = insertShaderInclude(
+            shader.vertexShader,
+            "begin_vertex",
+            "feature_state_vertex",
+            true
+        );
+
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "fog_pars_fragment",
+            "feature_state_pars_fragment"
+        );
+
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "color_fragment",
+            "feature_state_fragment",
+            true
+        );
+    }
+}
+
 /**
  * Subclass of [[THREE.MeshBasicMaterial]]. Adds new properties required for [[fadeNear]] and
  * [[fadeFar]]. In addition to the new properties (which update their respective uniforms), it is
@@ -0,0 +1,272 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+const vertexShader: string = `
+varying vec2 vUv;
+
+#include <fog_pars_vertex>
+
+void main() {
+    vUv = uv;
+
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+}
+`;
+
+const fragmentShader: string = `
+uniform sampler2D map;
+uniform float opacity;
+uniform float brightness;
+uniform float contrast;
+uniform float saturation;
+uniform float hueRotation;
+
+varying vec2 vUv;
+
+#include <fog_pars_fragment>
+
+// Rotates the color around the gray axis of the RGB cube.
+vec3 rotateHue(vec3 color, float angle) {
+    const vec3 grayAxis = vec3(0.57735);
+    float c = cos(angle);
+    return color * c + cross(grayAxis, color) * sin(angle)
+        + grayAxis * dot(grayAxis, color) * (1.0 - c);
+}
+
+void main() {
+    vec4 texel = texture2D(map, vUv);
+
+    vec3 color = rotateHue(texel.rgb, radians(hueRotation));
+    float luminance = dot(color, vec3(0.2126, 0.7152, 0.0722));
+    color = mix(vec3(luminance), color, 1.0 + saturation);
+    color = (color - 0.5) * (1.0 + contrast) + 0.5;
+    color = clamp(color + brightness, 0.0, 1.0);
+
+    float alpha = texel.a * opacity;
+    #if defined(MULTIPLY_BLENDING)
+    gl_FragColor = vec4(mix(vec3(1.0), color, alpha), 1.0);
+    #elif defined(SCREEN_BLENDING)
+    gl_FragColor = vec4(color * alpha, 1.0);
+    #else
+    gl_FragColor = vec4(color, alpha);
+    #endif
+
+    #include <fog_fragment>
+}`;
+
+/**
+ * Modes to blend raster tiles with the map below them:
+ *  * `"normal"`: Raster tiles are drawn over the map.
+ *  * `"multiply"`: The colors are multiplied, which darkens the map, e.g. to tint it.
+ *  * `"screen"`: The inverted colors are multiplied, which lightens the map.
+ */
+export type RasterBlendMode = "normal" | "multiply" | "screen";
+
+/**
+ * Opacity, color adjustments and blending of raster tiles.
+ */
+export interface RasterStyle {
+    /**
+     * Opacity of the tiles, from `0` to `1`.
+     */
+    opacity: number;
+
+    /**
+     * Value added to the colors, from `-1` (black) to `1` (white).
+     */
+    brightness: number;
+
+    /**
+     * Factor stretching the colors around the mid gray, from `-1` (gray) over `0` (unchanged) to
+     * `1`.
+     */
+    contrast: number;
+
+    /**
+     * Factor stretching the colors around their gray, from `-1` (grayscale) over `0` (unchanged)
+     * to `1`.
+     */
+    saturation: number;
+
+    /**
+     * Rotation of the hue of the colors in degrees.
+     */
+    hueRotation: number;
+
+    /**
+     * Mode to blend the tiles with the map below them.
+     */
+    blendMode: RasterBlendMode;
+}
+
+/**
+ * Parameters used when constructing a new [[RasterTileMaterial]].
+ */
+export interface RasterTileMaterialParameters
+    extends THREE.ShaderMaterialParameters,
+        Partial<RasterStyle> {
+    /**
+     * Texture of the tile.
+     */
+    map?: THREE.Texture;
+}
+
+/**
+ * Material rendering the image of a raster tile with the opacity, color adjustments and blending
+ * of a [[RasterStyle]].
+ */
+export class RasterTileMaterial extends THREE.ShaderMaterial {
+    static readonly DEFAULT_STYLE: Readonly<RasterStyle> = {
+        opacity: 1,
+        brightness: 0,
+        contrast: 0,
+        saturation: 0,
+        hueRotation: 0,
+        blendMode: "normal"
+    };
+
+    isRasterTileMaterial: true;
+    uniforms: { [uniform: string]: THREE.IUniform };
+    vertexShader: string;
+    fragmentShader: string;
+
+    private m_blendMode: RasterBlendMode;
+
+    /**
+     * Constructs a new `RasterTileMaterial`.
+     *
+     * @param parameters The constructor's parameters.
+     */
+    constructor(parameters: RasterTileMaterialParameters = {}) {
+        const {
+            map,
+            opacity,
+            brightness,
+            contrast,
+            saturation,
+            hueRotation,
+            blendMode,
+            ...shaderParameters
+        } = parameters;
+        shaderParameters.fog = true;
+
+        super(shaderParameters);
+
+        this.isRasterTileMaterial = true;
+        this.type = "RasterTileMaterial";
+        this.vertexShader = vertexShader;
+        this.fragmentShader = fragmentShader;
+        this.m_blendMode = "normal";
+
+        const defaults = RasterTileMaterial.DEFAULT_STYLE;
+        this.uniforms = THREE.UniformsUtils.merge([
+            {
+                map: new THREE.Uniform(null),
+                opacity: new THREE.Uniform(defaults.opacity),
+                brightness: new THREE.Uniform(defaults.brightness),
+                contrast: new THREE.Uniform(defaults.contrast),
+                saturation: new THREE.Uniform(defaults.saturation),
+                hueRotation: new THREE.Uniform(defaults.hueRotation)
+            },
+            THREE.UniformsLib.fog
+        ]);
+        // The merge clones the values, so the texture is set afterwards.
+        this.uniforms.map.value = map !== undefined ? map : null;
+
+        this.setStyle({ opacity, brightness, contrast, saturation, hueRotation, blendMode });
+    }
+
+    /**
+     * Gets the texture of the tile.
+     */
+    get map(): THREE.Texture | null {
+        return this.uniforms.map.value;
+    }
+
+    /**
+     * Sets the texture of the tile.
+     */
+    set map(map: THREE.Texture | null) {
+        this.uniforms.map.value = map;
+    }
+
+    /**
+     * Gets the opacity of the tile.
+     */
+    get opacity(): number {
+        return this.uniforms !== undefined
+            ? this.uniforms.opacity.value
+            : RasterTileMaterial.DEFAULT_STYLE.opacity;
+    }
+
+    /**
+     * Sets the opacity of the tile.
+     */
+    set opacity(opacity: number) {
+        // Called by the constructor of `THREE.Material` before the uniforms are created.
+        if (this.uniforms !== undefined) {
+            this.setStyle({ opacity });
+        }
+    }
+
+    /**
+     * Gets the current style of the material.
+     */
+    get style(): RasterStyle {
+        return {
+            opacity: this.uniforms.opacity.value,
+            brightness: this.uniforms.brightness.value,
+            contrast: this.uniforms.contrast.value,
+            saturation: this.uniforms.saturation.value,
+            hueRotation: this.uniforms.hueRotation.value,
+            blendMode: this.m_blendMode
+        };
+    }
+
+    /**
+     * Sets the given properties of the style, the others are left unchanged.
+     *
+     * @param style The properties to change.
+     */
+    setStyle(style: Partial<RasterStyle>) {
+        for (const uniform of [
+            "opacity",
+            "brightness",
+            "contrast",
+            "saturation",
+            "hueRotation"
+        ] as Array<Exclude<keyof RasterStyle, "blendMode">>) {
+            const value = style[uniform];
+            if (value !== undefined) {
+                this.uniforms[uniform].value = value;
+            }
+        }
+        if (style.blendMode !== undefined && style.blendMode !== this.m_blendMode) {
+            this.m_blendMode = style.blendMode;
+            delete this.defines.MULTIPLY_BLENDING;
+            delete this.defines.SCREEN_BLENDING;
+            if (style.blendMode === "multiply") {
+                this.defines.MULTIPLY_BLENDING = "";
+                this.blending = THREE.MultiplyBlending;
+            } else if (style.blendMode === "screen") {
+                this.defines.SCREEN_BLENDING = "";
+                this.blending = THREE.CustomBlending;
+                this.blendSrc = THREE.OneFactor;
+                this.blendDst = THREE.OneMinusSrcColorFactor;
+            } else {
+                this.blending = THREE.NormalBlending;
+            }
+            this.needsUpdate = true;
+        }
+        // Opaque tiles are rendered before transparent objects.
+        this.transparent = this.uniforms.opacity.value < 1 || this.m_blendMode !== "normal";
+    }
+}
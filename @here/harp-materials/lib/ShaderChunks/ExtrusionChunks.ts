@@ -4,18 +4,57 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+/**
+ * With `USE_EXTRUSION_MAPPING` defined, the extrusion axis is interpolated between the source and
+ * the target axis of a transition between extrusion mappings, see
+ * [[ExtrusionFeature.enableMapping]].
+ **/
+
 export default {
     extrusion_pars_vertex: `
 attribute vec3 extrusionAxis;
 uniform float extrusionRatio;
+#ifdef USE_EXTRUSION_MAPPING
+#include <extrusion_mapping_pars_vertex>
+#endif
 `,
     extrusion_vertex: `
+#ifdef USE_EXTRUSION_MAPPING
+transformed = transformed - extrusionAxis + getExtrusionMappingAxis() * extrusionRatio;
+#else
 transformed = transformed - extrusionAxis + extrusionAxis * extrusionRatio;
+#endif
 `,
     extrusion_pars_fragment: `
 uniform float extrusionRatio;
 `,
     extrusion_fragment: `
 gl_FragColor.a *= smoothstep( 0.0, 0.25, extrusionRatio );
+`,
+    extrusion_mapping_pars_vertex: `
+attribute vec3 extrusionSourceAxis;
+attribute vec3 extrusionTargetAxis;
+uniform float extrusionMappingRatio;
+
+vec3 getExtrusionMappingAxis() {
+    return mix( extrusionSourceAxis, extrusionTargetAxis, extrusionMappingRatio );
+}
+
+#ifdef USE_EXTRUSION_MAPPING_COLOR
+attribute vec3 extrusionSourceColor;
+attribute vec3 extrusionTargetColor;
+
+vec3 getExtrusionMappingColor() {
+    return mix( extrusionSourceColor, extrusionTargetColor, extrusionMappingRatio );
+}
+#endif
+`,
+    extrusion_mapping_vertex: `
+transformed = transformed - extrusionAxis + getExtrusionMappingAxis();
+`,
+    extrusion_mapping_color_vertex: `
+#if defined( USE_EXTRUSION_MAPPING_COLOR ) && defined( USE_COLOR )
+vColor.xyz = getExtrusionMappingColor();
+#endif
 `
 };
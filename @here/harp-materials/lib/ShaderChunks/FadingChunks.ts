@@ -8,6 +8,9 @@
  * The shader chunks have their lines "#ifdef USE_FADING" commented out, because currently the
  * mesh materials use individually created shader strings based on the materials settings.
  * @see [[FadingMeshBasicMaterial]]
+ *
+ * The cross-fade chunks fade the objects of a tile in or out in place of the tiles of other levels,
+ * see [[FadingFeature.enableCrossFade]].
  **/
 
 export default {
@@ -37,5 +40,13 @@ gl_FragColor.a *= 1.0 - fadingFactor;
 
 // debugging color:
 // gl_FragColor = vec4(1., fadingFactor, fadingFactor, 1.0);
+`,
+
+    cross_fade_pars_fragment: `
+uniform float crossFadeOpacity;
+`,
+
+    cross_fade_fragment: `
+gl_FragColor.a *= crossFadeOpacity;
 `
 };
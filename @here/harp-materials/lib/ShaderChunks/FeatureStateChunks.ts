@@ -0,0 +1,64 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The state of every feature is read from the texel `featureIndex` of `featureStateMap`, where the
+ * red channel holds the bitmask of the active states and the green channel is set for hidden
+ * features. WebGL 1 has no bitwise operators, so the bits are extracted arithmetically.
+ * @see [[FeatureStateFeature]]
+ **/
+
+export default {
+    feature_state_pars_vertex: `
+attribute float featureIndex;
+varying float vFeatureIndex;
+`,
+
+    feature_state_vertex: `
+vFeatureIndex = featureIndex;
+`,
+
+    feature_state_pars_fragment: `
+#define MAX_FEATURE_STATES 8
+
+varying float vFeatureIndex;
+uniform sampler2D featureStateMap;
+uniform vec2 featureStateMapSize;
+// The rgb components are the color of a state, the alpha component is set if it has a color.
+uniform vec4 featureStateColors[MAX_FEATURE_STATES];
+// The x component is the opacity of a state, the y component is set if it has an opacity.
+uniform vec2 featureStateOpacities[MAX_FEATURE_STATES];
+
+bool applyFeatureState(inout vec3 color, inout float opacity) {
+    float index = floor(vFeatureIndex + 0.5);
+    float row = floor(index / featureStateMapSize.x);
+    vec2 uv = (vec2(index - row * featureStateMapSize.x, row) + 0.5) / featureStateMapSize;
+    vec4 featureState = floor(texture2D(featureStateMap, uv) * 255.0 + 0.5);
+    if (featureState.g > 0.0) {
+        return false;
+    }
+    float states = featureState.r;
+    for (int i = 0; i < MAX_FEATURE_STATES; ++i) {
+        if (mod(states, 2.0) > 0.0) {
+            if (featureStateColors[i].a > 0.0) {
+                color = featureStateColors[i].rgb;
+            }
+            if (featureStateOpacities[i].y > 0.0) {
+                opacity = featureStateOpacities[i].x;
+            }
+        }
+        states = floor(states / 2.0);
+    }
+    return true;
+}
+`,
+
+    feature_state_fragment: `
+if (!applyFeatureState(diffuseColor.rgb, diffuseColor.a)) {
+    discard;
+}
+`
+};
@@ -6,32 +6,100 @@
 
 export default {
     extrude_line_vert_func: `
-void extrudeLine(vec2 segment, vec4 bt, vec3 t, float lineWidth, inout vec3 pos, inout vec2 uv) {
+void extrudeLine(
+    vec2 segment,
+    vec4 bt,
+    vec3 t,
+    float lineWidth,
+    float offset,
+    inout vec3 pos,
+    inout vec2 uv
+) {
     float uu = uv.x / 2.0 + 0.5;
     float ss = mix(segment.x, segment.y, uu);
 
     float angle = bt.w;
     vec3 dir = bt.xyz;
+    // Distance of the vertex from the centerline, the line itself is shifted by the offset.
+    float side = uv.y * lineWidth + offset;
     if (angle != 0.0) {
-        pos += uv.y * lineWidth * dir / cos(angle / 2.0);
+        pos += side * dir / cos(angle / 2.0);
         uv.x = ss + uv.x * lineWidth * uv.y * tan(angle / 2.0);
     }
     else {
-        pos += uv.y * lineWidth * dir + uv.x * lineWidth * t;
+        pos += side * dir + uv.x * lineWidth * t;
         uv.x = ss + uv.x * lineWidth;
     }
 }
 `,
     join_dist_func: `
-float joinDist(vec2 segment, vec2 texcoord) {
+#define LINE_CAPS_NONE 0
+#define LINE_CAPS_ROUND 1
+#define LINE_CAPS_SQUARE 2
+#define LINE_CAPS_TRIANGLE 3
+
+#define LINE_JOINS_ROUND 0
+#define LINE_JOINS_MITER 1
+#define LINE_JOINS_BEVEL 2
+
+float joinDist(vec2 segment, vec4 segmentEnds, vec2 texcoord, float lineWidth) {
     float d = abs(texcoord.y);
     float dx = texcoord.x;
+    float beyond;
+    float angle;
+    bool isCap;
     if (dx < segment.x) {
-        d = max(d, length(texcoord - vec2(segment.x, 0.0)));
+        beyond = segment.x - dx;
+        angle = segmentEnds.x;
+        isCap = segmentEnds.z > 0.5;
     } else if (dx > segment.y) {
-        d = max(d, length(texcoord - vec2(segment.y, 0.0)));
+        beyond = dx - segment.y;
+        angle = segmentEnds.y;
+        isCap = segmentEnds.w > 0.5;
+    } else {
+        return d;
     }
+
+    if (isCap) {
+        #if LINE_CAPS == LINE_CAPS_NONE
+        return lineWidth + beyond;
+        #elif LINE_CAPS == LINE_CAPS_SQUARE
+        return max(d, beyond);
+        #elif LINE_CAPS == LINE_CAPS_TRIANGLE
+        return d + beyond;
+        #else
+        return length(vec2(beyond, d));
+        #endif
+    }
+
+    #if LINE_JOINS == LINE_JOINS_MITER
     return d;
+    #elif LINE_JOINS == LINE_JOINS_BEVEL
+    return d + beyond * tan(abs(angle) / 2.0);
+    #else
+    return length(vec2(beyond, d));
+    #endif
+}
+`,
+    line_pattern_func: `
+bool linePatternCoords(
+    vec2 texcoord,
+    float lineWidth,
+    float patternLength,
+    float patternSpacing,
+    float patternOffset,
+    out vec2 patternUv
+) {
+    float period = patternLength + patternSpacing;
+    if (patternLength <= 0.0 || lineWidth <= 0.0) {
+        return false;
+    }
+    float patternDist = mod(texcoord.x - patternOffset, period);
+    if (patternDist > patternLength) {
+        return false;
+    }
+    patternUv = vec2(patternDist / patternLength, texcoord.y / (2.0 * lineWidth) + 0.5);
+    return true;
 }
 `,
     tile_clip_func: `
@@ -6,7 +6,7 @@
 
 import * as THREE from "three";
 
-import { FadingFeature, FadingFeatureParameters } from "./MapMeshMaterials";
+import { FadingFeature, FadingFeatureParameters, FeatureStateFeature } from "./MapMeshMaterials";
 import linesShaderChunk from "./ShaderChunks/LinesChunks";
 
 const vertexSource: string = `
@@ -16,13 +16,16 @@ attribute vec2 texcoord;
 attribute vec3 position;
 attribute vec4 bitangent;
 attribute vec3 tangent;
+attribute vec4 segmentEnds;
 
 uniform mat4 modelViewMatrix;
 uniform mat4 projectionMatrix;
 uniform float lineWidth;
+uniform float lineOffset;
 
 varying vec2 vTexcoord;
 varying vec2 vSegment;
+varying vec4 vSegmentEnds;
 varying float vLinewidth;
 varying vec3 vPosition;
 
@@ -35,6 +38,10 @@ varying vec3 vColor;
 #include <fading_pars_vertex>
 #endif
 
+#ifdef USE_FEATURE_STATE
+#include <feature_state_pars_vertex>
+#endif
+
 #include <fog_pars_vertex>
 
 #include <extrude_line_vert_func>
@@ -42,11 +49,12 @@ varying vec3 vColor;
 void main() {
     vLinewidth = lineWidth;
     vSegment = abs(texcoord) - SEGMENT_OFFSET;
+    vSegmentEnds = segmentEnds;
 
     vec3 pos = position;
     vec2 uvs = sign(texcoord);
 
-    extrudeLine(vSegment, bitangent, tangent, lineWidth, pos, uvs);
+    extrudeLine(vSegment, bitangent, tangent, lineWidth, lineOffset, pos, uvs);
 
     vPosition = pos;
     vTexcoord = vec2(uvs.x, uvs.y * lineWidth);
@@ -62,6 +70,10 @@ void main() {
     #include <fading_vertex>
     #endif
 
+    #ifdef USE_FEATURE_STATE
+    #include <feature_state_vertex>
+    #endif
+
     #include <fog_vertex>
 }`;
 
@@ -76,9 +88,17 @@ uniform vec2 tileSize;
 uniform float dashSize;
 uniform float gapSize;
 #endif
+#if TEXTURED_LINE
+uniform sampler2D map;
+uniform vec4 mapRect;
+uniform float patternLength;
+uniform float patternSpacing;
+uniform float patternOffset;
+#endif
 
 varying vec2 vTexcoord;
 varying vec2 vSegment;
+varying vec4 vSegmentEnds;
 varying float vLinewidth;
 varying vec3 vPosition;
 
@@ -88,22 +108,43 @@ varying vec3 vColor;
 
 #include <join_dist_func>
 #include <tile_clip_func>
+#include <line_pattern_func>
 
 #ifdef USE_FADING
 #include <fading_pars_fragment>
 #endif
 
+#ifdef USE_CROSS_FADE
+#include <cross_fade_pars_fragment>
+#endif
+
+#ifdef USE_FEATURE_STATE
+#include <feature_state_pars_fragment>
+#endif
+
 #include <fog_pars_fragment>
 
 void main() {
 
     float alpha = opacity;
 
+    #if USE_COLOR
+    vec3 color = diffuse * vColor;
+    #else
+    vec3 color = diffuse;
+    #endif
+
+    #ifdef USE_FEATURE_STATE
+    if (!applyFeatureState(color, alpha)) {
+        discard;
+    }
+    #endif
+
     #if TILE_CLIP
     tileClip(vPosition.xy, tileSize);
     #endif
 
-    float dist = joinDist(vSegment, vTexcoord) - vLinewidth;
+    float dist = joinDist(vSegment, vSegmentEnds, vTexcoord, vLinewidth) - vLinewidth;
     float width = fwidth(dist);
     alpha *= (1.0 - smoothstep(-width, width, dist));
 
@@ -115,19 +156,59 @@ void main() {
     alpha *= smoothstep(-dashWidth, dashWidth, dashDist);
     #endif
 
-    #if USE_COLOR
-    gl_FragColor = vec4( diffuse * vColor, alpha );
-    #else
-    gl_FragColor = vec4( diffuse, alpha );
+    #if TEXTURED_LINE
+    vec2 patternUv;
+    if (!linePatternCoords(vTexcoord, vLinewidth, patternLength, patternSpacing, patternOffset,
+            patternUv)) {
+        discard;
+    }
+    vec4 texel = texture2D(map, mix(mapRect.xy, mapRect.zw, patternUv));
+    color *= texel.rgb;
+    alpha *= texel.a;
     #endif
 
+    gl_FragColor = vec4( color, alpha );
+
     #include <fog_fragment>
 
     #ifdef USE_FADING
     #include <fading_fragment>
     #endif
+
+    #ifdef USE_CROSS_FADE
+    #include <cross_fade_fragment>
+    #endif
 }`;
 
+/**
+ * Style of the caps at the ends of lines.
+ */
+export type LineCapStyle = "None" | "Round" | "Square" | "Triangle";
+
+/**
+ * Style of the joins between the segments of lines.
+ */
+export type LineJoinStyle = "Round" | "Miter" | "Bevel";
+
+/**
+ * Values of the `LINE_CAPS` define for the [[LineCapStyle]]s.
+ */
+const LINE_CAPS_DEFINES: { [style: string]: number } = {
+    None: 0,
+    Round: 1,
+    Square: 2,
+    Triangle: 3
+};
+
+/**
+ * Values of the `LINE_JOINS` define for the [[LineJoinStyle]]s.
+ */
+const LINE_JOINS_DEFINES: { [style: string]: number } = {
+    Round: 0,
+    Miter: 1,
+    Bevel: 2
+};
+
 /**
  * Parameters used when constructing a new [[SolidLineMaterial]].
  */
@@ -162,6 +243,22 @@ export interface SolidLineMaterialParameters extends FadingFeatureParameters {
      * Line opacity.
      */
     opacity?: number;
+
+    /**
+     * Distance of the line from its centerline, to the right of the line direction for positive
+     * values.
+     */
+    offset?: number;
+
+    /**
+     * Style of the caps at the ends of the line.
+     */
+    caps?: LineCapStyle;
+
+    /**
+     * Style of the joins between the segments of the line.
+     */
+    joins?: LineJoinStyle;
 }
 
 /**
@@ -171,6 +268,9 @@ export class SolidLineMaterial extends THREE.RawShaderMaterial implements Fading
     static DEFAULT_COLOR: number = 0xff0000;
     static DEFAULT_WIDTH: number = 1.0;
     static DEFAULT_OPACITY: number = 1.0;
+    static DEFAULT_OFFSET: number = 0.0;
+    static DEFAULT_CAPS: LineCapStyle = "Round";
+    static DEFAULT_JOINS: LineJoinStyle = "Round";
 
     /**
      * Constructs a new `SolidLineMaterial`.
@@ -184,8 +284,11 @@ export class SolidLineMaterial extends THREE.RawShaderMaterial implements Fading
 
         const defines: { [key: string]: any } = {
             DASHED_LINE: 0,
+            TEXTURED_LINE: 0,
             TILE_CLIP: 0,
-            USE_COLOR: 0
+            USE_COLOR: 0,
+            LINE_CAPS: LINE_CAPS_DEFINES[SolidLineMaterial.DEFAULT_CAPS],
+            LINE_JOINS: LINE_JOINS_DEFINES[SolidLineMaterial.DEFAULT_JOINS]
         };
 
         const hasFog = params !== undefined && params.fog === true;
@@ -202,10 +305,12 @@ export class SolidLineMaterial extends THREE.RawShaderMaterial implements Fading
                 {
                     diffuse: new THREE.Uniform(new THREE.Color(SolidLineMaterial.DEFAULT_COLOR)),
                     lineWidth: new THREE.Uniform(SolidLineMaterial.DEFAULT_WIDTH),
+                    lineOffset: new THREE.Uniform(SolidLineMaterial.DEFAULT_OFFSET),
                     opacity: new THREE.Uniform(SolidLineMaterial.DEFAULT_OPACITY),
                     tileSize: new THREE.Uniform(new THREE.Vector2()),
                     fadeNear: new THREE.Uniform(FadingFeature.DEFAULT_FADE_NEAR),
-                    fadeFar: new THREE.Uniform(FadingFeature.DEFAULT_FADE_FAR)
+                    fadeFar: new THREE.Uniform(FadingFeature.DEFAULT_FADE_FAR),
+                    ...FeatureStateFeature.createUniforms()
                 },
                 // We need the fog uniforms available when we use `updateFog` as the internal
                 // recompilation cannot add or remove uniforms.
@@ -230,6 +335,15 @@ export class SolidLineMaterial extends THREE.RawShaderMaterial implements Fading
             if (params.opacity !== undefined) {
                 this.opacity = params.opacity;
             }
+            if (params.offset !== undefined) {
+                this.offset = params.offset;
+            }
+            if (params.caps !== undefined) {
+                this.caps = params.caps;
+            }
+            if (params.joins !== undefined) {
+                this.joins = params.joins;
+            }
             if (params.depthTest !== undefined) {
                 this.depthTest = params.depthTest;
             }
@@ -291,6 +405,51 @@ export class SolidLineMaterial extends THREE.RawShaderMaterial implements Fading
         this.uniforms.lineWidth.value = value;
     }
 
+    /**
+     * Distance of the line from its centerline, to the right of the line direction for positive
+     * values.
+     */
+    get offset(): number {
+        return this.uniforms.lineOffset.value as number;
+    }
+    set offset(value: number) {
+        this.uniforms.lineOffset.value = value;
+    }
+
+    /**
+     * Style of the caps at the ends of the line.
+     */
+    get caps(): LineCapStyle {
+        const define = this.defines.LINE_CAPS;
+        return Object.keys(LINE_CAPS_DEFINES).find(
+            style => LINE_CAPS_DEFINES[style] === define
+        ) as LineCapStyle;
+    }
+    set caps(value: LineCapStyle) {
+        const define = LINE_CAPS_DEFINES[value];
+        if (define !== undefined && define !== this.defines.LINE_CAPS) {
+            this.defines.LINE_CAPS = define;
+            this.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Style of the joins between the segments of the line.
+     */
+    get joins(): LineJoinStyle {
+        const define = this.defines.LINE_JOINS;
+        return Object.keys(LINE_JOINS_DEFINES).find(
+            style => LINE_JOINS_DEFINES[style] === define
+        ) as LineJoinStyle;
+    }
+    set joins(value: LineJoinStyle) {
+        const define = LINE_JOINS_DEFINES[value];
+        if (define !== undefined && define !== this.defines.LINE_JOINS) {
+            this.defines.LINE_JOINS = define;
+            this.needsUpdate = true;
+        }
+    }
+
     get fadeNear(): number {
         return this.uniforms.fadeNear.value as number;
     }
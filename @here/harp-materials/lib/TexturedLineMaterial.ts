@@ -0,0 +1,151 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+import { SolidLineMaterial, SolidLineMaterialParameters } from "./SolidLineMaterial";
+
+/**
+ * Parameters used when constructing a new [[TexturedLineMaterial]].
+ */
+export interface TexturedLineMaterialParameters extends SolidLineMaterialParameters {
+    /**
+     * Texture holding the image repeated along the line.
+     */
+    map?: THREE.Texture;
+    /**
+     * Length of one image along the line.
+     */
+    patternLength?: number;
+    /**
+     * Distance between two images along the line.
+     */
+    patternSpacing?: number;
+    /**
+     * Distance of the first image from the start of the line.
+     */
+    patternOffset?: number;
+}
+
+/**
+ * Material designed to render variable-width lines with an image repeated along them. The image
+ * spans the width of the line and is multiplied with the line color. Nothing is rendered until a
+ * `map` is set.
+ */
+export class TexturedLineMaterial extends SolidLineMaterial {
+    static DEFAULT_COLOR: number = 0xffffff;
+    static DEFAULT_PATTERN_LENGTH: number = 1.0;
+    static DEFAULT_PATTERN_SPACING: number = 0.0;
+    static DEFAULT_PATTERN_OFFSET: number = 0.0;
+
+    /**
+     * Constructs a new `TexturedLineMaterial`.
+     *
+     * @param params `TexturedLineMaterial` parameters.
+     */
+    constructor(params?: TexturedLineMaterialParameters) {
+        const shaderParams: SolidLineMaterialParameters = {
+            color: TexturedLineMaterial.DEFAULT_COLOR
+        };
+        if (params !== undefined && params.color !== undefined) {
+            shaderParams.color = params.color as any;
+        }
+        if (params !== undefined && params.lineWidth !== undefined) {
+            shaderParams.lineWidth = params.lineWidth;
+        }
+        if (params !== undefined && params.opacity !== undefined) {
+            shaderParams.opacity = params.opacity;
+        }
+        if (params !== undefined && params.offset !== undefined) {
+            shaderParams.offset = params.offset;
+        }
+        if (params !== undefined && params.caps !== undefined) {
+            shaderParams.caps = params.caps;
+        }
+        if (params !== undefined && params.joins !== undefined) {
+            shaderParams.joins = params.joins;
+        }
+        if (params !== undefined && params.fog !== undefined) {
+            shaderParams.fog = params.fog;
+        }
+        super(shaderParams);
+        this.name = "TexturedLineMaterial";
+        this.defines.TEXTURED_LINE = 1;
+        Object.assign(this.uniforms, {
+            map: new THREE.Uniform(null),
+            mapRect: new THREE.Uniform(new THREE.Vector4(0, 0, 1, 1)),
+            patternLength: new THREE.Uniform(TexturedLineMaterial.DEFAULT_PATTERN_LENGTH),
+            patternSpacing: new THREE.Uniform(TexturedLineMaterial.DEFAULT_PATTERN_SPACING),
+            patternOffset: new THREE.Uniform(TexturedLineMaterial.DEFAULT_PATTERN_OFFSET)
+        });
+
+        // Apply initial parameter values.
+        if (params !== undefined) {
+            if (params.map !== undefined) {
+                this.map = params.map;
+            }
+            if (params.patternLength !== undefined) {
+                this.patternLength = params.patternLength;
+            }
+            if (params.patternSpacing !== undefined) {
+                this.patternSpacing = params.patternSpacing;
+            }
+            if (params.patternOffset !== undefined) {
+                this.patternOffset = params.patternOffset;
+            }
+        }
+    }
+
+    /**
+     * Texture holding the image repeated along the line.
+     */
+    get map(): THREE.Texture | null {
+        return this.uniforms.map.value as THREE.Texture | null;
+    }
+    set map(value: THREE.Texture | null) {
+        this.uniforms.map.value = value;
+    }
+
+    /**
+     * Region of the `map` holding the image, as `(minU, minV, maxU, maxV)`. Allows to use a
+     * single image of a texture atlas.
+     */
+    get mapRect(): THREE.Vector4 {
+        return this.uniforms.mapRect.value as THREE.Vector4;
+    }
+    set mapRect(value: THREE.Vector4) {
+        this.uniforms.mapRect.value = value;
+    }
+
+    /**
+     * Length of one image along the line.
+     */
+    get patternLength(): number {
+        return this.uniforms.patternLength.value as number;
+    }
+    set patternLength(value: number) {
+        this.uniforms.patternLength.value = value;
+    }
+
+    /**
+     * Distance between two images along the line.
+     */
+    get patternSpacing(): number {
+        return this.uniforms.patternSpacing.value as number;
+    }
+    set patternSpacing(value: number) {
+        this.uniforms.patternSpacing.value = value;
+    }
+
+    /**
+     * Distance of the first image from the start of the line.
+     */
+    get patternOffset(): number {
+        return this.uniforms.patternOffset.value as number;
+    }
+    set patternOffset(value: number) {
+        this.uniforms.patternOffset.value = value;
+    }
+}
@@ -19,6 +19,7 @@ import {
     isExtrudedLineTechnique,
     isExtrudedPolygonTechnique,
     isFillTechnique,
+    isHeatmapTechnique,
     isInterpolatedPropertyDefinition,
     isLineMarkerTechnique,
     isLineTechnique,
@@ -26,6 +27,7 @@ import {
     isSolidLineTechnique,
     isStandardTechnique,
     isTextTechnique,
+    isTexturedLineTechnique,
     LineMarkerTechnique,
     PoiGeometry,
     PoiTechnique,
@@ -96,6 +98,22 @@ const SIZE_ESTIMATION_FACTOR = 0.5;
  */
 const INVALID_ARRAY_INDEX = -1;
 // for tilezen by default extrude all buildings even those without height data
+/**
+ * Buffers of an extrusion mapping, see [[ExtrudedPolygonTechniqueParams.extrusionMappings]].
+ */
+interface ExtrusionMappingBuffers {
+    readonly extrusionAxis: number[];
+    readonly colors: number[];
+}
+
+/**
+ * Height and color of the feature currently processed in an extrusion mapping.
+ */
+interface FeatureExtrusionMapping extends ExtrusionMappingBuffers {
+    height: number;
+    color?: THREE.Color;
+}
+
 class MeshBuffers implements IMeshBuffers {
     readonly positions: number[] = [];
     readonly textureCoordinates: number[] = [];
@@ -109,6 +127,12 @@ class MeshBuffers implements IMeshBuffers {
     readonly stringCatalog: Array<string | undefined> = [];
     readonly imageTextures: number[] = [];
 
+    /**
+     * Optional list of point weights of heatmaps, taken from the
+     * [[HeatmapTechniqueParams.weightProperty]].
+     */
+    readonly weights: number[] = [];
+
     /**
      * Optional list of feature IDs. Currently only Number is supported, will fail if features have
      * IDs with type Long.
@@ -120,6 +144,16 @@ class MeshBuffers implements IMeshBuffers {
      */
     readonly featureStarts: number[] = [];
 
+    /**
+     * Optional list of feature start indices into the edge index attribute.
+     */
+    readonly edgeFeatureStarts: number[] = [];
+
+    /**
+     * Extrusion axes and colors of the extrusion mappings, by name of the mapping.
+     */
+    readonly extrusionMappings: Map<string, ExtrusionMappingBuffers> = new Map();
+
     constructor(readonly type: GeometryType) {}
 
     addText(text: string) {
@@ -149,6 +183,7 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
     private readonly m_simpleLines: LinesGeometry[] = [];
     private readonly m_solidLines: LinesGeometry[] = [];
     private readonly m_dashedLines: LinesGeometry[] = [];
+    private readonly m_texturedLines: LinesGeometry[] = [];
 
     private readonly m_sources: string[] = [];
 
@@ -228,6 +263,12 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                 }
             }
 
+            let weight: number | undefined;
+            if (isHeatmapTechnique(technique) && technique.weightProperty !== undefined) {
+                const weightValue = env.lookup(technique.weightProperty);
+                weight = typeof weightValue === "number" ? weightValue : 0;
+            }
+
             const worldPos = new THREE.Vector3();
 
             for (const pos of geometry) {
@@ -263,6 +304,9 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                 if (this.m_gatherFeatureIds) {
                     featureIds.push(featureId);
                 }
+                if (weight !== undefined) {
+                    meshBuffers.weights.push(weight);
+                }
                 if (isPoiTechnique) {
                     if (imageTexture === undefined) {
                         imageTextures.push(INVALID_ARRAY_INDEX);
@@ -327,14 +371,17 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
             if (
                 techniqueName === "line" ||
                 techniqueName === "solid-line" ||
-                techniqueName === "dashed-line"
+                techniqueName === "dashed-line" ||
+                techniqueName === "textured-line"
             ) {
                 const lineGeometry =
                     techniqueName === "line"
                         ? this.m_simpleLines
                         : techniqueName === "solid-line"
                         ? this.m_solidLines
-                        : this.m_dashedLines;
+                        : techniqueName === "dashed-line"
+                        ? this.m_dashedLines
+                        : this.m_texturedLines;
 
                 const lineType = techniqueName === "line" ? LineType.Simple : LineType.Complex;
 
@@ -491,11 +538,24 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                     continue;
                 }
 
-                const addCircle =
-                    wantCircle && (technique.caps === undefined || technique.caps === "Circle");
+                // Caps are only added at higher levels, `"Circle"` is the same as `"Round"`.
+                const capStyle =
+                    technique.caps === undefined || technique.caps === "Circle"
+                        ? "Round"
+                        : technique.caps;
+                const addCaps = capStyle !== "Round" || wantCircle;
 
                 lines.forEach(aLine => {
-                    triangulateLine(aLine, lineWidth, positions, indices, addCircle);
+                    triangulateLine(
+                        aLine,
+                        lineWidth,
+                        positions,
+                        indices,
+                        addCaps,
+                        addCaps,
+                        capStyle,
+                        technique.joins
+                    );
 
                     if (this.m_gatherFeatureIds && featureIds && featureStarts) {
                         featureIds.push(featureId);
@@ -562,6 +622,7 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
             const isLine =
                 isSolidLineTechnique(technique) ||
                 isDashedLineTechnique(technique) ||
+                isTexturedLineTechnique(technique) ||
                 isLineTechnique(technique);
             const isPolygon = isExtruded || isFilled || isStandardTechnique(technique);
 
@@ -651,7 +712,9 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                         ? this.m_simpleLines
                         : technique.name === "solid-line"
                         ? this.m_solidLines
-                        : this.m_dashedLines;
+                        : technique.name === "dashed-line"
+                        ? this.m_dashedLines
+                        : this.m_texturedLines;
 
                 const lineType = technique.name === "line" ? LineType.Simple : LineType.Complex;
                 polygons.forEach(rings => {
@@ -686,6 +749,7 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
         this.processSimpleLines(this.m_simpleLines);
         this.processLines(this.m_solidLines);
         this.processLines(this.m_dashedLines);
+        this.processLines(this.m_texturedLines);
 
         const decodedTile: DecodedTile = {
             techniques: this.m_styleSetEvaluator.techniques,
@@ -764,7 +828,7 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
 
     private applyPolygonTechnique(
         polygons: Ring[][],
-        technique: Technique,
+        technique: IndexedTechnique,
         techniqueIndex: number,
         featureId: number | undefined,
         env: MapEnv
@@ -798,6 +862,10 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
 
         this.m_decodeInfo.tileBounds.getCenter(tempTileOrigin);
 
+        const extrusionMappings = isExtruded
+            ? this.getExtrusionMappings(technique, env, meshBuffers, height)
+            : undefined;
+
         const {
             positions,
             textureCoordinates,
@@ -805,7 +873,10 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
             extrusionAxis,
             indices,
             edgeIndices,
-            groups
+            groups,
+            featureIds,
+            featureStarts,
+            edgeFeatureStarts
         } = meshBuffers;
 
         const stride = texCoordType !== undefined ? 5 : 3;
@@ -815,6 +886,13 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
             const start = indices.length;
             const basePosition = positions.length;
 
+            // if this technique is transient, do not save the featureIds with the geometry
+            if (this.m_gatherFeatureIds && technique.transient !== true) {
+                featureIds.push(featureId);
+                featureStarts.push(start);
+                edgeFeatureStarts.push(edgeIndices.length);
+            }
+
             for (let ringIndex = 0; ringIndex < rings.length; ) {
                 const baseVertex = positions.length / 3;
 
@@ -1002,6 +1080,21 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                             if (texCoordType !== undefined) {
                                 textureCoordinates.push(vertices[i + 3], vertices[i + 4]);
                             }
+                            if (extrusionMappings !== undefined) {
+                                for (const mapping of extrusionMappings) {
+                                    tempRoofDisp
+                                        .copy(tempVertNormal)
+                                        .multiplyScalar(mapping.height * scaleFactor);
+                                    mapping.extrusionAxis.push(
+                                        0,
+                                        0,
+                                        0,
+                                        tempRoofDisp.x - tempFootDisp.x,
+                                        tempRoofDisp.y - tempFootDisp.y,
+                                        tempRoofDisp.z - tempFootDisp.z
+                                    );
+                                }
+                            }
                         }
                     }
 
@@ -1026,21 +1119,25 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                 }
             }
 
-            if (isExtrudedPolygonTechnique(technique) && technique.vertexColors === true) {
+            if ((technique as FillTechnique | ExtrudedPolygonTechnique).vertexColors === true) {
                 const positionCount = (positions.length - basePosition) / 3;
-                const color = new THREE.Color(
-                    isInterpolatedPropertyDefinition(technique.color)
-                        ? getPropertyValue(technique.color, this.m_decodeInfo.tileKey.level)
-                        : this.isColorStringValid(technique.color)
-                        ? technique.color
-                        : this.isColorStringValid(env.lookup("color") as string)
-                        ? (env.lookup("color") as string)
-                        : getPropertyValue(technique.defaultColor, this.m_decodeInfo.tileKey.level)
-                );
+                const color = new THREE.Color(this.getVertexColor(technique, env));
 
                 for (let i = 0; i < positionCount; ++i) {
                     colors.push(color.r, color.g, color.b);
                 }
+
+                if (extrusionMappings !== undefined) {
+                    for (const mapping of extrusionMappings) {
+                        const mappingColor = mapping.color;
+                        if (mappingColor === undefined) {
+                            continue;
+                        }
+                        for (let i = 0; i < positionCount; ++i) {
+                            mapping.colors.push(mappingColor.r, mappingColor.g, mappingColor.b);
+                        }
+                    }
+                }
             }
 
             const count = indices.length - start;
@@ -1181,6 +1278,21 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                 });
             }
 
+            if (meshBuffers.weights.length > 0) {
+                const weights = new Float32Array(meshBuffers.weights);
+                assert(
+                    weights.length * 3 === positionElements.length,
+                    "length of weights buffer is different than the number of positions"
+                );
+
+                geometry.vertexAttributes.push({
+                    name: "weight",
+                    buffer: weights.buffer as ArrayBuffer,
+                    itemCount: 1,
+                    type: "float"
+                });
+            }
+
             if (meshBuffers.indices.length > 0) {
                 // TODO: use uint16 for buffers when possible
                 geometry.index = {
@@ -1202,9 +1314,37 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
                 };
             }
 
+            if (meshBuffers.extrusionMappings.size > 0) {
+                const mappings: Geometry["extrusionMappings"] = {};
+                meshBuffers.extrusionMappings.forEach((buffers, name) => {
+                    mappings[name] = {
+                        extrusionAxis: {
+                            name: "extrusionAxis",
+                            buffer: new Float32Array(buffers.extrusionAxis).buffer as ArrayBuffer,
+                            itemCount: 3,
+                            type: "float"
+                        },
+                        color:
+                            buffers.colors.length > 0
+                                ? {
+                                      name: "color",
+                                      buffer: new Float32Array(buffers.colors)
+                                          .buffer as ArrayBuffer,
+                                      itemCount: 3,
+                                      type: "float"
+                                  }
+                                : undefined
+                    };
+                });
+                geometry.extrusionMappings = mappings;
+            }
+
             if (this.m_gatherFeatureIds) {
                 geometry.featureIds = meshBuffers.featureIds;
                 geometry.featureStarts = meshBuffers.featureStarts;
+                if (geometry.edgeIndex !== undefined) {
+                    geometry.edgeFeatureStarts = meshBuffers.edgeFeatureStarts;
+                }
             }
 
             this.m_geometries.push(geometry);
@@ -1304,6 +1444,75 @@ export class OmvDecodedTileEmitter implements IOmvEmitter {
         }
     }
 
+    /**
+     * Evaluates the extrusion mappings of a technique for a feature, see
+     * [[ExtrudedPolygonTechniqueParams.extrusionMappings]].
+     *
+     * @param technique The extruded polygon technique.
+     * @param env The environment of the feature.
+     * @param meshBuffers The buffers of the technique, receiving the buffers of the mappings.
+     * @param defaultHeight The height used if a mapping computes no valid height.
+     * @returns The height and color of the feature in every mapping, or `undefined` if the
+     *          technique doesn't have extrusion mappings.
+     */
+    private getExtrusionMappings(
+        technique: IndexedTechnique,
+        env: MapEnv,
+        meshBuffers: MeshBuffers,
+        defaultHeight: number
+    ): FeatureExtrusionMapping[] | undefined {
+        const values = this.m_styleSetEvaluator.getExtrusionMappings(technique, env);
+        if (values === undefined) {
+            return undefined;
+        }
+        const definitions = (technique as ExtrudedPolygonTechnique).extrusionMappings!;
+        return values.map(({ name, height, color }) => {
+            let buffers = meshBuffers.extrusionMappings.get(name);
+            if (buffers === undefined) {
+                buffers = { extrusionAxis: [], colors: [] };
+                meshBuffers.extrusionMappings.set(name, buffers);
+            }
+            return {
+                extrusionAxis: buffers.extrusionAxis,
+                colors: buffers.colors,
+                height: typeof height === "number" && isFinite(height) ? height : defaultHeight,
+                color:
+                    definitions[name].color === undefined
+                        ? undefined
+                        : new THREE.Color(
+                              this.isColorStringValid(color)
+                                  ? (color as string)
+                                  : this.getVertexColor(technique, env)
+                          )
+            };
+        });
+    }
+
+    /**
+     * Returns the color of all vertices of a feature, for techniques with `vertexColors` set.
+     *
+     * The color computed by the [[StyleSetEvaluator]] from the feature properties takes
+     * precedence. Extruded polygons fall back to the technique color, the `color` property of the
+     * feature and the `defaultColor` of the technique.
+     */
+    private getVertexColor(technique: IndexedTechnique, env: MapEnv): string | undefined {
+        const vertexColor = this.m_styleSetEvaluator.getVertexColor(technique, env);
+        if (this.isColorStringValid(vertexColor)) {
+            return vertexColor as string;
+        }
+        if (!isExtrudedPolygonTechnique(technique)) {
+            return undefined;
+        }
+        const level = this.m_decodeInfo.tileKey.level;
+        return isInterpolatedPropertyDefinition(technique.color)
+            ? getPropertyValue(technique.color, level)
+            : this.isColorStringValid(technique.color as string)
+            ? (technique.color as string)
+            : this.isColorStringValid(env.lookup("color"))
+            ? (env.lookup("color") as string)
+            : getPropertyValue(technique.defaultColor, level);
+    }
+
     private isColorStringValid(color: Value): boolean {
         return typeof color === "string" && color.length > 0;
     }
@@ -215,6 +215,8 @@ export class OmvDecoder implements IGeometryProcessor {
         const tileSizeOnScreen = this.estimatedTileSizeOnScreen();
         const decodeInfo = new OmvDecoder.DecodeInfo(this.m_projection, tileKey, tileSizeOnScreen);
 
+        // The decoded tile only gets the techniques used by its features.
+        this.m_styleSetEvaluator.resetTechniques();
         this.m_decodedTileEmitter = new OmvDecodedTileEmitter(
             decodeInfo,
             this.m_styleSetEvaluator,
@@ -251,6 +253,7 @@ export class OmvDecoder implements IGeometryProcessor {
         const tileSizeOnScreen = this.estimatedTileSizeOnScreen();
         const decodeInfo = new OmvDecoder.DecodeInfo(this.m_projection, tileKey, tileSizeOnScreen);
 
+        this.m_styleSetEvaluator.resetTechniques();
         const storeExtendedTags = true;
         this.m_infoTileEmitter = new OmvTileInfoEmitter(
             decodeInfo,
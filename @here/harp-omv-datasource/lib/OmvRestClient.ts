@@ -5,9 +5,11 @@
  */
 
 import "@here/harp-fetch";
+
+import { RequestController } from "@here/harp-datasource-protocol";
 import { TileKey, TilingScheme } from "@here/harp-geoutils";
 import { DataProvider } from "@here/harp-mapview-decoder";
-import { TransferManager } from "@here/harp-transfer-manager";
+import { TransferManager, TransferRequestInit } from "@here/harp-transfer-manager";
 import { LoggerManager } from "@here/harp-utils";
 
 const logger = LoggerManager.instance.create("OmvRestClient");
@@ -265,15 +267,16 @@ export class OmvRestClient implements DataProvider {
      * ```
      *
      * @param tileKey The tile key of the tile.
-     * @param tileRequestInit Optional request options to be passed to fetch when downloading a
-     * tile.
+     * @param abortSignal Optional AbortSignal to cancel the request.
+     * @param requestController Optional [[RequestController]] holding the priority of the request.
      * @returns A `Promise` of the HTTP response that contains the payload of the requested tile.
      */
     async getTile(
         tileKey: TileKey,
-        abortSignal?: AbortSignal | undefined
+        abortSignal?: AbortSignal | undefined,
+        requestController?: RequestController
     ): Promise<ArrayBufferLike | {}> {
-        const init: RequestInit = { signal: abortSignal };
+        const init: TransferRequestInit = { signal: abortSignal, priority: requestController };
 
         let tileUrl = this.dataUrl(tileKey);
 
@@ -117,4 +117,252 @@ describe("OmvDecodedTileEmitter", function() {
         assert.closeTo(texCoordsBuffer[6], 0, eps);
         assert.closeTo(texCoordsBuffer[7], 1, eps);
     });
+
+    it("stores colors computed from feature properties per vertex", function() {
+        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+        const decodeInfo = new OmvDecoder.DecodeInfo(mercatorProjection, tileKey, 100);
+        const geoBox = decodeInfo.geoBox;
+
+        const polygons: IPolygonGeometry[] = [
+            {
+                rings: [
+                    {
+                        positions: [
+                            new GeoCoordinates(geoBox.south, geoBox.west),
+                            new GeoCoordinates(geoBox.south, geoBox.east),
+                            new GeoCoordinates(geoBox.north, geoBox.east)
+                        ].map(p => webMercatorProjection.projectPoint(p, new Vector3()))
+                    }
+                ]
+            }
+        ];
+
+        const styleSetEvaluator = new StyleSetEvaluator([
+            {
+                when: "1",
+                technique: "fill",
+                attr: {
+                    color: { expr: "match(kind, 'park', '#00ff00', '#ff0000')" }
+                }
+            }
+        ]);
+        const tileEmitter = new OmvDecodedTileEmitter(decodeInfo, styleSetEvaluator, false, false);
+
+        for (const kind of ["park", "forest"]) {
+            const env = new MapEnv({ kind });
+            const matchedTechniques = styleSetEvaluator.getMatchingTechniques(env);
+            tileEmitter.processPolygonFeature(
+                "mock-layer",
+                polygons,
+                env,
+                matchedTechniques,
+                undefined
+            );
+        }
+
+        const { techniques, geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(techniques.length, 1, "features share a single technique");
+        assert.isTrue((techniques[0] as any).vertexColors);
+        assert.equal(geometries.length, 1);
+
+        const colors = geometries[0].vertexAttributes.find(attribute => attribute.name === "color");
+        assert.isDefined(colors);
+        const colorsBuffer = new Float32Array(colors!.buffer);
+        assert.deepEqual(Array.from(colorsBuffer.slice(0, 3)), [0, 1, 0]);
+        assert.deepEqual(Array.from(colorsBuffer.slice(-3)), [1, 0, 0]);
+    });
+
+    it("gathers feature IDs of polygons and their edges", function() {
+        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+        const decodeInfo = new OmvDecoder.DecodeInfo(mercatorProjection, tileKey, 100);
+        const geoBox = decodeInfo.geoBox;
+
+        const polygons: IPolygonGeometry[] = [
+            {
+                rings: [
+                    {
+                        positions: [
+                            new GeoCoordinates(geoBox.south, geoBox.west),
+                            new GeoCoordinates(geoBox.south, geoBox.east),
+                            new GeoCoordinates(geoBox.north, geoBox.east)
+                        ].map(p => webMercatorProjection.projectPoint(p, new Vector3())),
+                        outlines: [true, true, true]
+                    }
+                ]
+            }
+        ];
+
+        const styleSetEvaluator = new StyleSetEvaluator([
+            { when: "1", technique: "fill", attr: { color: "#00ff00", lineWidth: 1 } }
+        ]);
+        const tileEmitter = new OmvDecodedTileEmitter(decodeInfo, styleSetEvaluator, true, false);
+
+        for (const featureId of [7, 8]) {
+            const env = new MapEnv({ layer: "mock-layer" });
+            const matchedTechniques = styleSetEvaluator.getMatchingTechniques(env);
+            tileEmitter.processPolygonFeature(
+                "mock-layer",
+                polygons,
+                env,
+                matchedTechniques,
+                featureId
+            );
+        }
+
+        const { geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(geometries.length, 1);
+        const geometry = geometries[0];
+        assert.deepEqual(geometry.featureIds, [7, 8]);
+        assert.deepEqual(geometry.featureStarts, [0, 3]);
+        assert.isDefined(geometry.edgeIndex);
+        const edgeCount = new Uint32Array(geometry.edgeIndex!.buffer).length;
+        assert.deepEqual(geometry.edgeFeatureStarts, [0, edgeCount / 2]);
+    });
+
+    it("stores the extrusion axes and colors of extrusion mappings", function() {
+        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+        const decodeInfo = new OmvDecoder.DecodeInfo(mercatorProjection, tileKey, 100);
+        const geoBox = decodeInfo.geoBox;
+
+        const polygons: IPolygonGeometry[] = [
+            {
+                rings: [
+                    {
+                        positions: [
+                            new GeoCoordinates(geoBox.south, geoBox.west),
+                            new GeoCoordinates(geoBox.south, geoBox.east),
+                            new GeoCoordinates(geoBox.north, geoBox.east)
+                        ].map(p => webMercatorProjection.projectPoint(p, new Vector3()))
+                    }
+                ]
+            }
+        ];
+
+        const styleSetEvaluator = new StyleSetEvaluator([
+            {
+                when: "1",
+                technique: "extruded-polygon",
+                attr: {
+                    color: "#ffffff",
+                    constantHeight: true,
+                    extrusionMappings: {
+                        population: {
+                            height: { expr: "population * 2" },
+                            color: { expr: "match(kind, 'dense', '#ff0000', '#0000ff')" }
+                        }
+                    }
+                }
+            }
+        ]);
+        const tileEmitter = new OmvDecodedTileEmitter(decodeInfo, styleSetEvaluator, false, false);
+
+        const env = new MapEnv({ height: 10, population: 30, kind: "dense" });
+        const matchedTechniques = styleSetEvaluator.getMatchingTechniques(env);
+        tileEmitter.processPolygonFeature(
+            "mock-layer",
+            polygons,
+            env,
+            matchedTechniques,
+            undefined
+        );
+
+        const { geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(geometries.length, 1);
+        const geometry = geometries[0];
+        const mapping = geometry.extrusionMappings!.population;
+        assert.isDefined(mapping);
+
+        const findAttribute = (name: string) =>
+            new Float32Array(geometry.vertexAttributes.find(attr => attr.name === name)!.buffer);
+        const extrusionAxis = findAttribute("extrusionAxis");
+        const mappingAxis = new Float32Array(mapping.extrusionAxis.buffer);
+        assert.equal(mappingAxis.length, extrusionAxis.length);
+        // Every footprint vertex is followed by its roof vertex.
+        assert.closeTo(extrusionAxis[5], 10, 1e-5);
+        assert.closeTo(mappingAxis[5], 60, 1e-5);
+
+        const colors = findAttribute("color");
+        const mappingColors = new Float32Array(mapping.color!.buffer);
+        assert.equal(mappingColors.length, colors.length);
+        assert.deepEqual(Array.from(colors.slice(0, 3)), [1, 1, 1]);
+        assert.deepEqual(Array.from(mappingColors.slice(0, 3)), [1, 0, 0]);
+    });
+
+    it("stores the weights of heatmap points", function() {
+        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+        const decodeInfo = new OmvDecoder.DecodeInfo(mercatorProjection, tileKey, 100);
+        const geoBox = decodeInfo.geoBox;
+        const points = [
+            webMercatorProjection.projectPoint(geoBox.center, new Vector3()),
+            webMercatorProjection.projectPoint(
+                new GeoCoordinates(geoBox.south, geoBox.west),
+                new Vector3()
+            )
+        ];
+
+        const styleSetEvaluator = new StyleSetEvaluator([
+            { when: "1", technique: "heatmap", attr: { weightProperty: "population" } }
+        ]);
+        const tileEmitter = new OmvDecodedTileEmitter(decodeInfo, styleSetEvaluator, false, false);
+
+        for (const population of [50, "unknown"]) {
+            const env = new MapEnv({ population });
+            const matchedTechniques = styleSetEvaluator.getMatchingTechniques(env);
+            tileEmitter.processPointFeature(
+                "mock-layer",
+                points,
+                env,
+                matchedTechniques,
+                undefined
+            );
+        }
+
+        const { geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(geometries.length, 1);
+        assert.equal(geometries[0].type, GeometryType.Point);
+        const weights = geometries[0].vertexAttributes.find(attr => attr.name === "weight");
+        assert.isDefined(weights);
+        assert.equal(weights!.itemCount, 1);
+        assert.deepEqual(Array.from(new Float32Array(weights!.buffer)), [50, 50, 0, 0]);
+    });
+
+    it("creates extrudable line geometries for textured lines", function() {
+        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+        const decodeInfo = new OmvDecoder.DecodeInfo(mercatorProjection, tileKey, 100);
+        const geoBox = decodeInfo.geoBox;
+        const positions = [
+            webMercatorProjection.projectPoint(geoBox.center, new Vector3()),
+            webMercatorProjection.projectPoint(
+                new GeoCoordinates(geoBox.south, geoBox.west),
+                new Vector3()
+            )
+        ];
+
+        const styleSetEvaluator = new StyleSetEvaluator([
+            {
+                when: "1",
+                technique: "textured-line",
+                attr: { imageTexture: "oneway", lineWidth: 4 }
+            }
+        ]);
+        const tileEmitter = new OmvDecodedTileEmitter(decodeInfo, styleSetEvaluator, false, false);
+
+        const env = new MapEnv({});
+        tileEmitter.processLineFeature(
+            "mock-layer",
+            [{ positions }],
+            env,
+            styleSetEvaluator.getMatchingTechniques(env),
+            undefined
+        );
+
+        const { geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(geometries.length, 1);
+        assert.equal(geometries[0].type, GeometryType.SolidLine);
+    });
 });
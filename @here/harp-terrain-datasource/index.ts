@@ -0,0 +1,12 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from "./lib/DemDataProvider";
+export * from "./lib/DemDataSource";
+export * from "./lib/DemElevationProvider";
+export * from "./lib/DemElevationRangeSource";
+export * from "./lib/DemEncoding";
+export * from "./lib/DemTile";
@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DisplacementMapTexture } from "@here/harp-mapview";
+
+/**
+ * Contour line connecting points of the same elevation.
+ */
+export interface ContourLine {
+    /**
+     * The elevation of the line in meters.
+     */
+    elevation: number;
+
+    /**
+     * The points of the line as a sequence of (u,v) coordinates, from `0` at the west and south
+     * border to `1` at the east and north border of the tile. Closed lines end with their first
+     * point.
+     */
+    points: number[];
+}
+
+/**
+ * Computes the contour lines of elevations with the marching squares algorithm. The lines run
+ * through the centers of the outer elevations, so they end half an elevation short of the tile
+ * border.
+ *
+ * @param elevations The elevations, stored row by row from south to north.
+ * @param interval The difference in elevation between two consecutive contour lines in meters.
+ * @returns The contour lines at all multiples of `interval` within the range of the elevations.
+ */
+export function computeContours(
+    elevations: DisplacementMapTexture,
+    interval: number
+): ContourLine[] {
+    if (!(interval > 0)) {
+        throw new Error("computeContours: The interval must be positive");
+    }
+
+    let minElevation = Infinity;
+    let maxElevation = -Infinity;
+    for (const elevation of elevations.texture) {
+        minElevation = Math.min(minElevation, elevation);
+        maxElevation = Math.max(maxElevation, elevation);
+    }
+
+    const lines: ContourLine[] = [];
+    for (
+        let elevation = Math.ceil(minElevation / interval) * interval;
+        elevation <= maxElevation;
+        elevation += interval
+    ) {
+        for (const points of computeIsolines(elevations, elevation)) {
+            lines.push({ elevation, points });
+        }
+    }
+    return lines;
+}
+
+/**
+ * Computes the lines of one elevation. Crossings of the lines with the edges between two
+ * elevations are identified by the index of the edge: horizontal edges from elevation `i` to its
+ * east neighbor have index `2 * i`, vertical edges to its north neighbor have index `2 * i + 1`.
+ */
+function computeIsolines(elevations: DisplacementMapTexture, level: number): number[][] {
+    const { texture, width, height } = elevations;
+    const crossings = new Map<number, [number, number]>();
+    const segments: Array<[number, number]> = [];
+
+    const addCrossing = (edge: number, x: number, y: number, a: number, b: number) => {
+        if (!crossings.has(edge)) {
+            const t = (level - a) / (b - a);
+            crossings.set(edge, edge % 2 === 0 ? [x + t, y] : [x, y + t]);
+        }
+        return edge;
+    };
+
+    for (let y = 0; y < height - 1; ++y) {
+        for (let x = 0; x < width - 1; ++x) {
+            const index = y * width + x;
+            const sw = texture[index];
+            const se = texture[index + 1];
+            const nw = texture[index + width];
+            const ne = texture[index + width + 1];
+            const swAbove = sw >= level;
+            const seAbove = se >= level;
+            const neAbove = ne >= level;
+            const nwAbove = nw >= level;
+            if (swAbove === seAbove && seAbove === neAbove && neAbove === nwAbove) {
+                continue;
+            }
+
+            const edges: number[] = [];
+            const bottom = 2 * index;
+            const top = 2 * (index + width);
+            const left = 2 * index + 1;
+            const right = 2 * (index + 1) + 1;
+            if (swAbove !== seAbove) {
+                edges.push(addCrossing(bottom, x, y, sw, se));
+            }
+            if (seAbove !== neAbove) {
+                edges.push(addCrossing(right, x + 1, y, se, ne));
+            }
+            if (neAbove !== nwAbove) {
+                edges.push(addCrossing(top, x, y + 1, nw, ne));
+            }
+            if (nwAbove !== swAbove) {
+                edges.push(addCrossing(left, x, y, sw, nw));
+            }
+
+            if (edges.length === 2) {
+                segments.push([edges[0], edges[1]]);
+                continue;
+            }
+
+            // Saddle, the elevation in the center decides which corners are connected.
+            const centerAbove = (sw + se + ne + nw) / 4 >= level;
+            if (swAbove === centerAbove) {
+                segments.push([bottom, right], [top, left]);
+            } else {
+                segments.push([left, bottom], [right, top]);
+            }
+        }
+    }
+
+    // Join the segments sharing a crossing into lines.
+    const segmentsAtEdge = new Map<number, number[]>();
+    segments.forEach(([a, b], segment) => {
+        for (const edge of [a, b]) {
+            const edgeSegments = segmentsAtEdge.get(edge);
+            if (edgeSegments === undefined) {
+                segmentsAtEdge.set(edge, [segment]);
+            } else {
+                edgeSegments.push(segment);
+            }
+        }
+    });
+
+    const visited = new Array<boolean>(segments.length).fill(false);
+    const follow = (edge: number, line: number[]) => {
+        for (;;) {
+            const next = segmentsAtEdge.get(edge)!.find(segment => !visited[segment]);
+            if (next === undefined) {
+                return;
+            }
+            visited[next] = true;
+            const [a, b] = segments[next];
+            edge = a === edge ? b : a;
+            line.push(edge);
+        }
+    };
+
+    const lines: number[][] = [];
+    segments.forEach(([a, b], segment) => {
+        if (visited[segment]) {
+            return;
+        }
+        visited[segment] = true;
+        const forward = [a, b];
+        follow(b, forward);
+        const backward: number[] = [];
+        follow(a, backward);
+
+        const points: number[] = [];
+        for (const edge of [...backward.reverse(), ...forward]) {
+            const [px, py] = crossings.get(edge)!;
+            points.push((px + 0.5) / width, (py + 0.5) / height);
+        }
+        lines.push(points);
+    });
+    return lines;
+}
@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import "@here/harp-fetch";
+
+import { RequestController } from "@here/harp-datasource-protocol";
+import { TileKey } from "@here/harp-geoutils";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { TransferManager } from "@here/harp-transfer-manager";
+
+/**
+ * Parameters of a [[DemDataProvider]].
+ */
+export interface DemDataProviderParameters {
+    /**
+     * URL of the tiles, with the placeholders `{z}`, `{x}` and `{y}` for the level, column and
+     * row of the tile. Rows are counted from the north like in XYZ tile services, for example
+     * `"https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png"`.
+     */
+    url: string;
+
+    /**
+     * Transfer Manager to use; uses the default instance if none passed.
+     */
+    downloadManager?: TransferManager;
+}
+
+/**
+ * [[DataProvider]] downloading raster DEM tiles from a URL template.
+ */
+export class DemDataProvider implements DataProvider {
+    private readonly m_downloadManager: TransferManager;
+
+    constructor(readonly params: DemDataProviderParameters) {
+        this.m_downloadManager =
+            params.downloadManager === undefined
+                ? TransferManager.instance()
+                : params.downloadManager;
+    }
+
+    /** Overriding abstract method, in this case doing nothing. */
+    async connect(): Promise<void> {
+        // not needed
+    }
+
+    /** Overriding abstract method, in this case always returning `true`. */
+    ready(): boolean {
+        return true;
+    }
+
+    /**
+     * Returns the URL of a tile.
+     *
+     * @param tileKey The tile key of the tile.
+     */
+    tileUrl(tileKey: TileKey): string {
+        return this.params.url
+            .replace("{z}", String(tileKey.level))
+            .replace("{x}", String(tileKey.column))
+            .replace("{y}", String(tileKey.rowCount() - tileKey.row - 1));
+    }
+
+    /**
+     * Downloads a tile.
+     *
+     * @param tileKey The tile key of the tile.
+     * @param abortSignal Optional AbortSignal to cancel the request.
+     * @param requestController Optional [[RequestController]] holding the priority of the request.
+     */
+    getTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        requestController?: RequestController
+    ): Promise<ArrayBufferLike> {
+        return this.m_downloadManager.downloadArrayBuffer(this.tileUrl(tileKey), {
+            signal: abortSignal,
+            priority: requestController
+        });
+    }
+}
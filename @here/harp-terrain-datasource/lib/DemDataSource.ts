@@ -0,0 +1,236 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DecodedTile, ITileDecoder } from "@here/harp-datasource-protocol";
+import { mercatorTilingScheme, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { DisplacementMap, MapView } from "@here/harp-mapview";
+import { DataProvider, TileDataSource, TileFactory } from "@here/harp-mapview-decoder";
+import { DEFAULT_CONTOUR_INTERVAL, isDemDecodedTile } from "./DemDecoder";
+import { DemElevationProvider } from "./DemElevationProvider";
+import { DemElevationRangeSource } from "./DemElevationRangeSource";
+import { DemElevations, DemEncoding } from "./DemEncoding";
+import { DemTile } from "./DemTile";
+
+/**
+ * Parameters to initialize the data source.
+ */
+export interface DemDataSourceParameters {
+    /**
+     * The [[DataProvider]] delivering the raster DEM tiles, for example a [[DemDataProvider]].
+     */
+    dataProvider: DataProvider;
+
+    /**
+     * The encoding of the tiles.
+     *
+     * @default "terrarium"
+     */
+    encoding?: DemEncoding;
+
+    /**
+     * The difference in elevation between two consecutive contour lines of the `contours` layer
+     * in meters.
+     *
+     * @default [[DEFAULT_CONTOUR_INTERVAL]]
+     */
+    contourInterval?: number;
+
+    /**
+     * The unique name of this [[DemDataSource]].
+     */
+    name?: string;
+
+    /**
+     * The [[TilingScheme]] of the tiles.
+     *
+     * @default mercatorTilingScheme
+     */
+    tilingScheme?: TilingScheme;
+
+    /**
+     * Minimum level of the tiles.
+     *
+     * @default 1
+     */
+    minZoomLevel?: number;
+
+    /**
+     * Maximum level of the tiles, deeper levels use the elevations of the tiles at this level.
+     *
+     * @default 15
+     */
+    maxZoomLevel?: number;
+
+    /**
+     * Optional [[ITileDecoder]] to use instead of the decoder service in web workers.
+     */
+    decoder?: ITileDecoder;
+
+    /**
+     * Optional URL of the decoder bundle to be loaded into web workers.
+     */
+    concurrentDecoderScriptUrl?: string;
+}
+
+/**
+ * Displacement map of a tile together with the range of its elevations.
+ */
+export interface DemDisplacementMap extends DisplacementMap {
+    minElevation: number;
+    maxElevation: number;
+}
+
+/**
+ * `DemDataSource` loads raster DEM tiles, like Terrarium or Mapbox Terrain-RGB PNG tiles or raw
+ * `Float32` heightmaps, and decodes them in a web worker into [[DisplacementMap]]s. It provides
+ * the [[ElevationProvider]] and the [[ElevationRangeSource]] of a [[MapView]]:
+ *
+ * ```typescript
+ * const demDataSource = new DemDataSource({
+ *     dataProvider: new DemDataProvider({
+ *         url: "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png"
+ *     }),
+ *     encoding: "terrarium"
+ * });
+ * demDataSource.addTo(mapView);
+ * ```
+ */
+export class DemDataSource extends TileDataSource<DemTile> {
+    /**
+     * Provides the elevations of the loaded tiles.
+     */
+    readonly elevationProvider: DemElevationProvider;
+
+    /**
+     * Provides the elevation ranges of the loaded tiles.
+     */
+    readonly elevationRangeSource: DemElevationRangeSource;
+
+    private readonly m_displacementMaps = new Map<
+        number,
+        { displacementMap: DemDisplacementMap; refCount: number }
+    >();
+
+    /**
+     * Default constructor.
+     *
+     * @param params Data source configuration's parameters.
+     */
+    constructor(readonly params: DemDataSourceParameters) {
+        super(new TileFactory(DemTile), {
+            styleSetName: "terrain",
+            name: params.name,
+            tilingScheme:
+                params.tilingScheme !== undefined ? params.tilingScheme : mercatorTilingScheme,
+            dataProvider: params.dataProvider,
+            decoder: params.decoder,
+            concurrentDecoderServiceName: "dem-tile-decoder",
+            concurrentDecoderScriptUrl: params.concurrentDecoderScriptUrl,
+            minZoomLevel: params.minZoomLevel,
+            maxZoomLevel: params.maxZoomLevel !== undefined ? params.maxZoomLevel : 15
+        });
+
+        this.decoder.configure(undefined, undefined, {
+            demEncoding: params.encoding !== undefined ? params.encoding : "terrarium",
+            demContourInterval:
+                params.contourInterval !== undefined
+                    ? params.contourInterval
+                    : DEFAULT_CONTOUR_INTERVAL
+        });
+
+        this.elevationProvider = new DemElevationProvider(this);
+        this.elevationRangeSource = new DemElevationRangeSource(this);
+    }
+
+    /**
+     * Adds this data source to the [[MapView]] as its elevation source.
+     *
+     * @param mapView The [[MapView]] to provide elevations to.
+     */
+    addTo(mapView: MapView) {
+        mapView.setElevationSource(this, this.elevationRangeSource, this.elevationProvider);
+    }
+
+    /**
+     * Tiles without any other geometry hold elevations.
+     */
+    decodedTileHasGeometry(decodedTile: DecodedTile) {
+        return isDemDecodedTile(decodedTile)
+            ? decodedTile.elevations.texture.length
+            : super.decodedTileHasGeometry(decodedTile);
+    }
+
+    /**
+     * Returns the displacement map of a tile, or of its deepest ancestor whose elevations have
+     * been loaded.
+     *
+     * @param tileKey The tile to get the displacement map for.
+     * @returns The displacement map, or `undefined` if neither the tile nor any of its ancestors
+     * has been loaded.
+     */
+    getDisplacementMap(tileKey: TileKey): DemDisplacementMap | undefined {
+        let key: TileKey | undefined = this.clampTileKey(tileKey);
+        while (key !== undefined) {
+            const entry = this.m_displacementMaps.get(key.mortonCode());
+            if (entry !== undefined) {
+                return entry.displacementMap;
+            }
+            key = key.level > 0 ? key.parent() : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the ancestor of a tile at the maximum level of this data source, or the tile itself
+     * if it is not deeper than that.
+     *
+     * @param tileKey The tile key to clamp.
+     */
+    clampTileKey(tileKey: TileKey): TileKey {
+        return tileKey.level > this.maxZoomLevel
+            ? tileKey.changedLevelTo(this.maxZoomLevel)
+            : tileKey;
+    }
+
+    /**
+     * Makes the elevations of a decoded tile available, called by [[DemTile]].
+     *
+     * @param tileKey The tile key of the tile.
+     * @param elevations The decoded elevations of the tile.
+     */
+    addElevations(tileKey: TileKey, elevations: DemElevations) {
+        const mortonCode = tileKey.mortonCode();
+        const entry = this.m_displacementMaps.get(mortonCode);
+        if (entry !== undefined) {
+            entry.refCount++;
+            return;
+        }
+        const { texture, width, height, minElevation, maxElevation } = elevations;
+        this.m_displacementMaps.set(mortonCode, {
+            displacementMap: {
+                tileKey,
+                texture: { texture, width, height },
+                minElevation,
+                maxElevation
+            },
+            refCount: 1
+        });
+        this.requestUpdate();
+    }
+
+    /**
+     * Releases the elevations of a tile, called by [[DemTile]] when it is disposed.
+     *
+     * @param tileKey The tile key of the tile.
+     */
+    removeElevations(tileKey: TileKey) {
+        const mortonCode = tileKey.mortonCode();
+        const entry = this.m_displacementMaps.get(mortonCode);
+        if (entry !== undefined && --entry.refCount === 0) {
+            this.m_displacementMaps.delete(mortonCode);
+        }
+    }
+}
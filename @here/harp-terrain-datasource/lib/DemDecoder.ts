@@ -0,0 +1,132 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    DecodedTile,
+    ITileDecoder,
+    OptionsMap,
+    StyleSet,
+    TileInfo
+} from "@here/harp-datasource-protocol";
+import { StyleSetEvaluator } from "@here/harp-datasource-protocol/index-decoder";
+import { Projection, TileKey } from "@here/harp-geoutils";
+import { WorkerServiceManager } from "@here/harp-mapview-decoder/index-worker";
+import { TileDecoderService } from "@here/harp-mapview-decoder/lib/TileDecoderService";
+import { decodeDemTile, DemElevations, DemEncoding } from "./DemEncoding";
+import { DemGeometryCreator } from "./DemGeometryCreator";
+
+/**
+ * Default difference in elevation between two consecutive contour lines in meters.
+ */
+export const DEFAULT_CONTOUR_INTERVAL = 100;
+
+/**
+ * Decoded raster DEM tile, holding the elevations of the tile.
+ */
+export interface DemDecodedTile extends DecodedTile {
+    elevations: DemElevations;
+}
+
+/**
+ * Type guard to check if a [[DecodedTile]] is a [[DemDecodedTile]].
+ */
+export function isDemDecodedTile(decodedTile: DecodedTile): decodedTile is DemDecodedTile {
+    return (decodedTile as DemDecodedTile).elevations !== undefined;
+}
+
+/**
+ * `DemTileDecoder` decodes raster DEM tiles into elevations. The encoding of the tiles is set with
+ * the `demEncoding` option of [[configure]], it defaults to `"terrarium"`.
+ *
+ * If a style set is configured, the hillshading and the contour lines of the tiles are created as
+ * described in [[DemGeometryCreator]]. The interval of the contour lines is set with the
+ * `demContourInterval` option, it defaults to [[DEFAULT_CONTOUR_INTERVAL]].
+ */
+export class DemTileDecoder implements ITileDecoder {
+    private m_encoding: DemEncoding = "terrarium";
+    private m_contourInterval = DEFAULT_CONTOUR_INTERVAL;
+    private m_styleSetEvaluator: StyleSetEvaluator | undefined;
+
+    connect(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    dispose() {
+        // Nothing to dispose.
+    }
+
+    async decodeTile(
+        data: ArrayBufferLike,
+        tileKey: TileKey,
+        projection: Projection
+    ): Promise<DecodedTile> {
+        const startTime = Date.now();
+        const elevations = await decodeDemTile(this.m_encoding, data);
+
+        const decodedTile: DemDecodedTile = {
+            techniques: [],
+            geometries: [],
+            elevations,
+            decodeTime: 0
+        };
+        if (this.m_styleSetEvaluator !== undefined) {
+            const { techniques, geometries, textPathGeometries } = new DemGeometryCreator(
+                tileKey,
+                elevations,
+                projection,
+                this.m_styleSetEvaluator
+            ).createGeometries(this.m_contourInterval);
+            decodedTile.techniques = techniques;
+            decodedTile.geometries = geometries;
+            if (textPathGeometries.length > 0) {
+                decodedTile.textPathGeometries = textPathGeometries;
+            }
+        }
+        decodedTile.decodeTime = Date.now() - startTime;
+        return decodedTile;
+    }
+
+    // tslint:disable:no-unused-variable
+    getTileInfo(
+        data: ArrayBufferLike,
+        tileKey: TileKey,
+        projection: Projection
+    ): Promise<TileInfo | undefined> {
+        return Promise.resolve(undefined);
+    }
+
+    // tslint:disable:no-unused-variable
+    configure(styleSet?: StyleSet, languages?: string[], options?: OptionsMap): void {
+        if (styleSet !== undefined) {
+            this.m_styleSetEvaluator = new StyleSetEvaluator(styleSet);
+        }
+        if (options !== undefined) {
+            if (options.demEncoding !== undefined) {
+                this.m_encoding = options.demEncoding;
+            }
+            if (options.demContourInterval !== undefined) {
+                this.m_contourInterval = options.demContourInterval;
+            }
+        }
+    }
+}
+
+/**
+ * Raster DEM tile decoder service.
+ */
+export class DemTileDecoderService {
+    /**
+     * Register raster DEM tile decoder service based on [[DemTileDecoder]] service class in
+     * [[WorkerServiceManager]].
+     */
+    static start() {
+        WorkerServiceManager.getInstance().register({
+            serviceType: "dem-tile-decoder",
+            factory: (serviceId: string) =>
+                TileDecoderService.start(serviceId, new DemTileDecoder())
+        });
+    }
+}
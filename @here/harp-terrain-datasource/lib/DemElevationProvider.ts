@@ -0,0 +1,137 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    EarthConstants,
+    GeoCoordinates,
+    ProjectionType,
+    TileKey,
+    TilingScheme
+} from "@here/harp-geoutils";
+import { DisplacementMap, ElevationProvider, sampleDisplacementMap } from "@here/harp-mapview";
+import * as THREE from "three";
+import { DemDataSource } from "./DemDataSource";
+
+// Number of steps to march along a ray before refining an intersection with the terrain.
+const RAY_MARCHING_STEPS = 128;
+// Number of bisections to refine an intersection with the terrain.
+const RAY_REFINEMENT_STEPS = 16;
+
+const tmpBox = new THREE.Box3();
+const tmpPoint = new THREE.Vector3();
+
+/**
+ * [[ElevationProvider]] of a [[DemDataSource]], providing the elevations of the loaded raster DEM
+ * tiles.
+ */
+export class DemElevationProvider implements ElevationProvider {
+    /**
+     * Creates a new `DemElevationProvider`.
+     *
+     * @param m_dataSource The data source holding the elevations.
+     */
+    constructor(private readonly m_dataSource: DemDataSource) {}
+
+    getHeight(geoPoint: GeoCoordinates, level?: number): number | undefined {
+        const tilingScheme = this.m_dataSource.getTilingScheme();
+        const tileKey = tilingScheme.getTileKey(
+            geoPoint,
+            level !== undefined ? level : this.m_dataSource.maxZoomLevel
+        );
+        if (tileKey === null) {
+            return undefined;
+        }
+
+        const displacementMap =
+            level !== undefined
+                ? this.getExactDisplacementMap(tileKey)
+                : this.m_dataSource.getDisplacementMap(tileKey);
+        if (displacementMap === undefined) {
+            return undefined;
+        }
+
+        tilingScheme.getWorldBox(displacementMap.tileKey, tmpBox);
+        tilingScheme.projection.projectPoint(geoPoint, tmpPoint);
+        const u = (tmpPoint.x - tmpBox.min.x) / (tmpBox.max.x - tmpBox.min.x);
+        const v = (tmpPoint.y - tmpBox.min.y) / (tmpBox.max.y - tmpBox.min.y);
+        return sampleDisplacementMap(displacementMap, u, v);
+    }
+
+    /**
+     * Finds the intersection of a ray through the screen position with the terrain, by marching
+     * along the ray between the maximum and the minimum elevation on earth.
+     */
+    rayCast(x: number, y: number): THREE.Vector3 | undefined {
+        const mapView = this.m_dataSource.mapView;
+        const projection = mapView.projection;
+        const raycaster = new THREE.Raycaster();
+        raycaster.setFromCamera(mapView.getNormalizedScreenCoordinates(x, y), mapView.camera);
+        const ray = raycaster.ray;
+
+        // Marching ends where the ray reaches the minimum elevation on earth.
+        const end = new THREE.Vector3();
+        const hitsGround =
+            projection.type === ProjectionType.Spherical
+                ? ray.intersectSphere(
+                      new THREE.Sphere(
+                          new THREE.Vector3(),
+                          EarthConstants.EQUATORIAL_RADIUS + EarthConstants.MIN_ELEVATION
+                      ),
+                      end
+                  )
+                : ray.intersectPlane(
+                      new THREE.Plane(new THREE.Vector3(0, 0, 1), -EarthConstants.MIN_ELEVATION),
+                      end
+                  );
+        const maxDistance = hitsGround !== null ? end.distanceTo(ray.origin) : mapView.camera.far;
+
+        const point = new THREE.Vector3();
+        const heightAboveTerrain = (distance: number) => {
+            const geoPoint = projection.unprojectPoint(ray.at(distance, point));
+            const height = this.getHeight(geoPoint);
+            return geoPoint.altitude! - (height !== undefined ? height : 0);
+        };
+
+        if (heightAboveTerrain(0) < 0) {
+            return undefined;
+        }
+
+        const step = maxDistance / RAY_MARCHING_STEPS;
+        for (let i = 1; i <= RAY_MARCHING_STEPS; ++i) {
+            if (heightAboveTerrain(i * step) > 0) {
+                continue;
+            }
+            let near = (i - 1) * step;
+            let far = i * step;
+            for (let j = 0; j < RAY_REFINEMENT_STEPS; ++j) {
+                const middle = (near + far) / 2;
+                if (heightAboveTerrain(middle) > 0) {
+                    near = middle;
+                } else {
+                    far = middle;
+                }
+            }
+            return ray.at(far, new THREE.Vector3());
+        }
+        return undefined;
+    }
+
+    getDisplacementMap(tileKey: TileKey): DisplacementMap | undefined {
+        return this.m_dataSource.getDisplacementMap(tileKey);
+    }
+
+    getTilingSceme(): TilingScheme | undefined {
+        return this.m_dataSource.getTilingScheme();
+    }
+
+    private getExactDisplacementMap(tileKey: TileKey): DisplacementMap | undefined {
+        const displacementMap = this.m_dataSource.getDisplacementMap(tileKey);
+        return displacementMap !== undefined &&
+            displacementMap.tileKey.level === this.m_dataSource.clampTileKey(tileKey).level
+            ? displacementMap
+            : undefined;
+    }
+}
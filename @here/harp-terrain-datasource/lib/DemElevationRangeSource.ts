@@ -0,0 +1,53 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EarthConstants, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { CalculationStatus, ElevationRange, ElevationRangeSource } from "@here/harp-mapview";
+import { DemDataSource } from "./DemDataSource";
+
+/**
+ * [[ElevationRangeSource]] of a [[DemDataSource]]. The range of a tile is taken from its own
+ * elevations once loaded, from the elevations of its deepest loaded ancestor until then, and
+ * covers all elevations on earth if no ancestor has been loaded either.
+ */
+export class DemElevationRangeSource implements ElevationRangeSource {
+    /**
+     * Creates a new `DemElevationRangeSource`.
+     *
+     * @param m_dataSource The data source holding the elevations.
+     */
+    constructor(private readonly m_dataSource: DemDataSource) {}
+
+    getElevationRange(tileKey: TileKey): ElevationRange {
+        const displacementMap = this.m_dataSource.getDisplacementMap(tileKey);
+        if (displacementMap === undefined) {
+            return {
+                minElevation: EarthConstants.MIN_ELEVATION,
+                maxElevation: EarthConstants.MAX_ELEVATION,
+                calculationStatus: CalculationStatus.PendingApproximate
+            };
+        }
+
+        // Tiles deeper than the maximum level of the data source won't get any better data.
+        const isFinal =
+            displacementMap.tileKey.level === this.m_dataSource.clampTileKey(tileKey).level;
+        return {
+            minElevation: displacementMap.minElevation,
+            maxElevation: displacementMap.maxElevation,
+            calculationStatus: isFinal
+                ? CalculationStatus.FinalPrecise
+                : CalculationStatus.PendingApproximate
+        };
+    }
+
+    getTilingScheme(): TilingScheme {
+        return this.m_dataSource.getTilingScheme();
+    }
+
+    connect(): Promise<void> {
+        return Promise.resolve();
+    }
+}
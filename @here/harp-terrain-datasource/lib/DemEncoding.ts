@@ -0,0 +1,133 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DisplacementMapTexture } from "@here/harp-mapview/lib/DisplacementMap";
+
+/**
+ * Encoding of the elevations in raster DEM tiles.
+ *
+ * `"terrarium"`: RGB image, the elevation in meters is `R * 256 + G + B / 256 - 32768`.
+ *
+ * `"mapbox"`: RGB image (Mapbox Terrain-RGB), the elevation in meters is
+ * `-10000 + (R * 256 * 256 + G * 256 + B) * 0.1`.
+ *
+ * `"float32"`: Square grid of little-endian `Float32` elevations in meters, row by row from north
+ * to south.
+ */
+export type DemEncoding = "terrarium" | "mapbox" | "float32";
+
+/**
+ * Elevations of a tile together with their range.
+ */
+export interface DemElevations extends DisplacementMapTexture {
+    minElevation: number;
+    maxElevation: number;
+}
+
+/**
+ * Returns the elevation in meters encoded in the color of a pixel.
+ *
+ * @param encoding The encoding of the image, either `"terrarium"` or `"mapbox"`.
+ * @param r The red channel of the pixel, `0` to `255`.
+ * @param g The green channel of the pixel, `0` to `255`.
+ * @param b The blue channel of the pixel, `0` to `255`.
+ */
+export function decodeElevation(encoding: DemEncoding, r: number, g: number, b: number): number {
+    switch (encoding) {
+        case "terrarium":
+            return r * 256 + g + b / 256 - 32768;
+        case "mapbox":
+            return -10000 + (r * 256 * 256 + g * 256 + b) * 0.1;
+        default:
+            throw new Error(`decodeElevation: Unsupported image encoding '${encoding}'`);
+    }
+}
+
+/**
+ * Decodes the RGBA pixels of an image into elevations. The rows of the image are stored from north
+ * to south, the rows of the result from south to north, like the rows of a texture.
+ *
+ * @param encoding The encoding of the image, either `"terrarium"` or `"mapbox"`.
+ * @param pixels The RGBA pixels of the image.
+ * @param width The width of the image.
+ * @param height The height of the image.
+ */
+export function decodeElevationPixels(
+    encoding: DemEncoding,
+    pixels: ArrayLike<number>,
+    width: number,
+    height: number
+): DemElevations {
+    const texture = new Float32Array(width * height);
+    for (let y = 0; y < height; ++y) {
+        const row = (height - 1 - y) * width;
+        for (let x = 0; x < width; ++x) {
+            const i = (y * width + x) * 4;
+            texture[row + x] = decodeElevation(encoding, pixels[i], pixels[i + 1], pixels[i + 2]);
+        }
+    }
+    return createElevations(texture, width, height);
+}
+
+/**
+ * Decodes a raw heightmap of `Float32` elevations. The heightmap must be a square grid stored row
+ * by row from north to south.
+ *
+ * @param data The buffer of the heightmap.
+ */
+export function decodeElevationFloats(data: ArrayBufferLike): DemElevations {
+    const view = new DataView(data);
+    const count = data.byteLength / 4;
+    const size = Math.round(Math.sqrt(count));
+    if (size * size !== count) {
+        throw new Error(`decodeElevationFloats: Heightmap of ${count} values is not square`);
+    }
+
+    const texture = new Float32Array(count);
+    for (let y = 0; y < size; ++y) {
+        const row = (size - 1 - y) * size;
+        for (let x = 0; x < size; ++x) {
+            texture[row + x] = view.getFloat32((y * size + x) * 4, true);
+        }
+    }
+    return createElevations(texture, size, size);
+}
+
+/**
+ * Decodes the data of a raster DEM tile. Images are decoded with `createImageBitmap`, which is
+ * available in web workers.
+ *
+ * @param encoding The encoding of the tile.
+ * @param data The encoded tile.
+ */
+export async function decodeDemTile(
+    encoding: DemEncoding,
+    data: ArrayBufferLike
+): Promise<DemElevations> {
+    if (encoding === "float32") {
+        return decodeElevationFloats(data);
+    }
+
+    const bitmap = await createImageBitmap(new Blob([data]));
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | null;
+    if (context === null) {
+        throw new Error("decodeDemTile: Unable to create a canvas to decode the image");
+    }
+    context.drawImage(bitmap, 0, 0);
+    const imageData = context.getImageData(0, 0, bitmap.width, bitmap.height);
+    return decodeElevationPixels(encoding, imageData.data, imageData.width, imageData.height);
+}
+
+function createElevations(texture: Float32Array, width: number, height: number): DemElevations {
+    let minElevation = Infinity;
+    let maxElevation = -Infinity;
+    for (const elevation of texture) {
+        minElevation = Math.min(minElevation, elevation);
+        maxElevation = Math.max(maxElevation, elevation);
+    }
+    return { texture, width, height, minElevation, maxElevation };
+}
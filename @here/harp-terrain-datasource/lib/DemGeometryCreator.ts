@@ -0,0 +1,309 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    Geometry,
+    GeometryType,
+    IndexedTechnique,
+    isDashedLineTechnique,
+    isLineTechnique,
+    isSolidLineTechnique,
+    isTerrainTechnique,
+    isTextTechnique,
+    isTexturedLineTechnique,
+    TerrainTechnique,
+    TextPathGeometry
+} from "@here/harp-datasource-protocol";
+import { MapEnv, StyleSetEvaluator } from "@here/harp-datasource-protocol/index-decoder";
+import {
+    EarthConstants,
+    mercatorProjection,
+    mercatorTilingScheme,
+    Projection,
+    TileKey
+} from "@here/harp-geoutils";
+import { LineGroup } from "@here/harp-lines/lib/Lines";
+import { DisplacementMapTexture } from "@here/harp-mapview";
+import { Math2D } from "@here/harp-utils";
+import * as THREE from "three";
+import { computeContours } from "./Contours";
+import { computeHillshade } from "./Hillshade";
+
+/**
+ * Number of segments along each side of the hillshade geometry.
+ */
+const HILLSHADE_GRID_SEGMENTS = 16;
+
+/**
+ * Geometries and techniques created from the elevations of a tile.
+ */
+export interface DemGeometries {
+    techniques: IndexedTechnique[];
+    geometries: Geometry[];
+    textPathGeometries: TextPathGeometry[];
+}
+
+/**
+ * Creates the hillshading and the contour lines of the elevations of a tile, styled with the
+ * techniques of the `hillshade` and `contours` layers of the style set:
+ *
+ * - The `hillshade` layer has a single `polygon` covering the tile. Its `terrain` techniques are
+ *   rendered with the shading computed with their [[TerrainTechniqueParams.hillshade]] parameters
+ *   as `map`.
+ * - The `contours` layer has a `line` feature for each contour line with the property `elevation`,
+ *   which can be rendered with `line`, `solid-line`, `dashed-line`, `textured-line` and `text`
+ *   techniques.
+ *
+ * The tiles are expected to be tiles of the [[mercatorTilingScheme]].
+ */
+export class DemGeometryCreator {
+    private readonly m_geoBox = mercatorTilingScheme.getGeoBox(this.m_tileKey);
+    private readonly m_worldBox = mercatorTilingScheme.getWorldBox(
+        this.m_tileKey,
+        new THREE.Box3()
+    ) as THREE.Box3;
+    private readonly m_center = new THREE.Vector3();
+
+    /**
+     * Creates a new `DemGeometryCreator`.
+     *
+     * @param m_tileKey The tile key of the tile.
+     * @param m_elevations The elevations of the tile.
+     * @param m_projection The projection of the created geometries.
+     * @param m_styleSetEvaluator The evaluator of the style set.
+     */
+    constructor(
+        private readonly m_tileKey: TileKey,
+        private readonly m_elevations: DisplacementMapTexture,
+        private readonly m_projection: Projection,
+        private readonly m_styleSetEvaluator: StyleSetEvaluator
+    ) {
+        m_projection.projectBox(this.m_geoBox, new THREE.Box3()).getCenter(this.m_center);
+    }
+
+    /**
+     * Creates the geometries.
+     *
+     * @param contourInterval The difference in elevation between two consecutive contour lines in
+     * meters.
+     */
+    createGeometries(contourInterval: number): DemGeometries {
+        const result: DemGeometries = { techniques: [], geometries: [], textPathGeometries: [] };
+        this.m_styleSetEvaluator.resetTechniques();
+        const hillshadeTechniques = this.createHillshade(result);
+        this.createContours(contourInterval, result);
+
+        // Hillshade techniques hold the shading of this tile, so they are not shared.
+        result.techniques = this.m_styleSetEvaluator.techniques.map(technique => {
+            const hillshadeTechnique = hillshadeTechniques.get(technique._index);
+            return hillshadeTechnique !== undefined ? hillshadeTechnique : technique;
+        });
+        return result;
+    }
+
+    private createHillshade(result: DemGeometries): Map<number, IndexedTechnique> {
+        const hillshadeTechniques = new Map<number, IndexedTechnique>();
+        const techniques = this.m_styleSetEvaluator.getMatchingTechniques(
+            new MapEnv({
+                $layer: "hillshade",
+                $geometryType: "polygon",
+                $level: this.m_tileKey.level
+            })
+        );
+
+        const { width, height } = this.m_elevations;
+        const { north, south, east, west } = this.m_geoBox;
+        const latitude = THREE.Math.degToRad(this.m_geoBox.center.latitude);
+        const cellWidth =
+            (EarthConstants.EQUATORIAL_CIRCUMFERENCE * Math.cos(latitude) * (east - west)) /
+            360 /
+            width;
+        const cellHeight =
+            (EarthConstants.EQUATORIAL_RADIUS * THREE.Math.degToRad(north - south)) / height;
+
+        for (const technique of techniques) {
+            if (!isTerrainTechnique(technique)) {
+                continue;
+            }
+            const pixels = computeHillshade(
+                this.m_elevations,
+                cellWidth,
+                cellHeight,
+                technique.hillshade
+            );
+            const hillshadeTechnique: TerrainTechnique & IndexedTechnique = {
+                ...technique,
+                map: {
+                    buffer: pixels.buffer as ArrayBuffer,
+                    type: "image/raw",
+                    dataTextureProperties: { width, height, format: "RGBA", type: "UnsignedByte" }
+                },
+                mapProperties:
+                    technique.mapProperties !== undefined
+                        ? technique.mapProperties
+                        : { magFilter: "linear", minFilter: "linear" }
+            };
+            hillshadeTechniques.set(technique._index, hillshadeTechnique);
+            result.geometries.push(this.createGrid(technique._index));
+        }
+        return hillshadeTechniques;
+    }
+
+    private createGrid(techniqueIndex: number): Geometry {
+        const segments = HILLSHADE_GRID_SEGMENTS;
+        const positions: number[] = [];
+        const uvs: number[] = [];
+        const indices: number[] = [];
+        for (let y = 0; y <= segments; ++y) {
+            for (let x = 0; x <= segments; ++x) {
+                this.addPoint(x / segments, y / segments, positions);
+                uvs.push(x / segments, y / segments);
+            }
+        }
+        for (let y = 0; y < segments; ++y) {
+            for (let x = 0; x < segments; ++x) {
+                const southWest = y * (segments + 1) + x;
+                const northWest = southWest + segments + 1;
+                indices.push(southWest, southWest + 1, northWest);
+                indices.push(northWest, southWest + 1, northWest + 1);
+            }
+        }
+
+        return {
+            type: GeometryType.Polygon,
+            vertexAttributes: [
+                {
+                    name: "position",
+                    buffer: new Float32Array(positions).buffer as ArrayBuffer,
+                    itemCount: 3,
+                    type: "float"
+                },
+                {
+                    name: "uv",
+                    buffer: new Float32Array(uvs).buffer as ArrayBuffer,
+                    itemCount: 2,
+                    type: "float"
+                }
+            ],
+            index: {
+                name: "index",
+                buffer: new Uint32Array(indices).buffer as ArrayBuffer,
+                itemCount: 1,
+                type: "uint32"
+            },
+            groups: [{ start: 0, count: indices.length, technique: techniqueIndex }]
+        };
+    }
+
+    private createContours(interval: number, result: DemGeometries) {
+        const lineGroups = new Map<number, LineGroup>();
+
+        for (const contour of computeContours(this.m_elevations, interval)) {
+            const env = new MapEnv({
+                $layer: "contours",
+                $geometryType: "line",
+                $level: this.m_tileKey.level,
+                elevation: contour.elevation
+            });
+            const techniques = this.m_styleSetEvaluator.getMatchingTechniques(env);
+            if (techniques.length === 0) {
+                continue;
+            }
+
+            const points: number[] = [];
+            for (let i = 0; i < contour.points.length; i += 2) {
+                this.addPoint(contour.points[i], contour.points[i + 1], points);
+            }
+
+            for (const technique of techniques) {
+                if (isTextTechnique(technique)) {
+                    const text =
+                        technique.label !== undefined
+                            ? env.lookup(technique.label)
+                            : contour.elevation;
+                    if (text === undefined || text === null) {
+                        continue;
+                    }
+                    result.textPathGeometries.push({
+                        technique: technique._index,
+                        path: points,
+                        pathLengthSqr: Math2D.computeSquaredLineLength(points),
+                        text: String(text)
+                    });
+                    continue;
+                }
+
+                const isSimple = isLineTechnique(technique);
+                if (
+                    !isSimple &&
+                    !isSolidLineTechnique(technique) &&
+                    !isDashedLineTechnique(technique) &&
+                    !isTexturedLineTechnique(technique)
+                ) {
+                    continue;
+                }
+                let lineGroup = lineGroups.get(technique._index);
+                if (lineGroup === undefined) {
+                    lineGroup = new LineGroup(undefined, isSimple);
+                    lineGroups.set(technique._index, lineGroup);
+                }
+                lineGroup.add(this.m_center, points);
+            }
+        }
+
+        lineGroups.forEach((lineGroup, technique) => {
+            const index = {
+                name: "index",
+                buffer: new Uint32Array(lineGroup.indices).buffer as ArrayBuffer,
+                itemCount: 1,
+                type: "uint32" as "uint32"
+            };
+            const groups = [{ start: 0, count: lineGroup.indices.length, technique }];
+            const buffer = new Float32Array(lineGroup.vertices).buffer as ArrayBuffer;
+
+            result.geometries.push(
+                lineGroup.isSimple
+                    ? {
+                          type: GeometryType.Line,
+                          vertexAttributes: [
+                              { name: "position", buffer, itemCount: 3, type: "float" }
+                          ],
+                          index,
+                          groups
+                      }
+                    : {
+                          type: GeometryType.SolidLine,
+                          vertexAttributes: [],
+                          interleavedVertexAttributes: [
+                              {
+                                  type: "float",
+                                  stride: lineGroup.stride,
+                                  buffer,
+                                  attributes: lineGroup.vertexAttributes
+                              }
+                          ],
+                          index,
+                          groups
+                      }
+            );
+        });
+    }
+
+    /**
+     * Adds the point at a position in the tile, relative to the center of the tile in the
+     * projection of the geometries.
+     */
+    private addPoint(u: number, v: number, points: number[]) {
+        const { min, max } = this.m_worldBox;
+        const point = new THREE.Vector3(
+            min.x + (max.x - min.x) * u,
+            min.y + (max.y - min.y) * v,
+            0
+        );
+        this.m_projection.reprojectPoint(mercatorProjection, point, point).sub(this.m_center);
+        points.push(point.x, point.y, point.z);
+    }
+}
@@ -0,0 +1,35 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DecodedTile } from "@here/harp-datasource-protocol";
+import { Tile } from "@here/harp-mapview";
+import { DemDataSource } from "./DemDataSource";
+import { isDemDecodedTile } from "./DemDecoder";
+
+/**
+ * [[Tile]] of a [[DemDataSource]]. The elevations of the tile are made available to the
+ * [[ElevationProvider]] of the data source as long as the tile is not disposed.
+ */
+export class DemTile extends Tile {
+    private m_hasElevations = false;
+
+    setDecodedTile(decodedTile: DecodedTile) {
+        super.setDecodedTile(decodedTile);
+
+        if (isDemDecodedTile(decodedTile) && !this.m_hasElevations) {
+            (this.dataSource as DemDataSource).addElevations(this.tileKey, decodedTile.elevations);
+            this.m_hasElevations = true;
+        }
+    }
+
+    dispose() {
+        if (this.m_hasElevations) {
+            (this.dataSource as DemDataSource).removeElevations(this.tileKey);
+            this.m_hasElevations = false;
+        }
+        super.dispose();
+    }
+}
@@ -0,0 +1,93 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HillshadeParams } from "@here/harp-datasource-protocol";
+import { DisplacementMapTexture } from "@here/harp-mapview";
+import * as THREE from "three";
+
+/**
+ * Default direction of the sun in degrees, clockwise from north.
+ */
+export const DEFAULT_HILLSHADE_AZIMUTH = 315;
+
+/**
+ * Default angle of the sun above the horizon in degrees.
+ */
+export const DEFAULT_HILLSHADE_ALTITUDE = 45;
+
+/**
+ * Default factor to exaggerate the elevations with.
+ */
+export const DEFAULT_HILLSHADE_EXAGGERATION = 1;
+
+/**
+ * Computes the hillshading of elevations, the slopes are computed with Horn's method.
+ *
+ * @param elevations The elevations, stored row by row from south to north.
+ * @param cellWidth The distance between two columns of elevations in meters.
+ * @param cellHeight The distance between two rows of elevations in meters.
+ * @param params The position of the sun and the exaggeration of the elevations.
+ * @returns Gray RGBA pixels with the illumination of each elevation, stored row by row from south
+ * to north.
+ */
+export function computeHillshade(
+    elevations: DisplacementMapTexture,
+    cellWidth: number,
+    cellHeight: number,
+    params: HillshadeParams = {}
+): Uint8Array {
+    const { texture, width, height } = elevations;
+    const azimuth = THREE.Math.degToRad(
+        params.azimuth !== undefined ? params.azimuth : DEFAULT_HILLSHADE_AZIMUTH
+    );
+    const altitude = THREE.Math.degToRad(
+        params.altitude !== undefined ? params.altitude : DEFAULT_HILLSHADE_ALTITUDE
+    );
+    const exaggeration =
+        params.exaggeration !== undefined ? params.exaggeration : DEFAULT_HILLSHADE_EXAGGERATION;
+
+    // Direction towards the sun in east, north and up coordinates.
+    const sun = new THREE.Vector3(
+        Math.sin(azimuth) * Math.cos(altitude),
+        Math.cos(azimuth) * Math.cos(altitude),
+        Math.sin(altitude)
+    );
+    const normal = new THREE.Vector3();
+
+    const elevation = (x: number, y: number) =>
+        texture[THREE.Math.clamp(y, 0, height - 1) * width + THREE.Math.clamp(x, 0, width - 1)];
+
+    const pixels = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; ++y) {
+        for (let x = 0; x < width; ++x) {
+            const dzdx =
+                elevation(x + 1, y + 1) +
+                2 * elevation(x + 1, y) +
+                elevation(x + 1, y - 1) -
+                (elevation(x - 1, y + 1) + 2 * elevation(x - 1, y) + elevation(x - 1, y - 1));
+            const dzdy =
+                elevation(x - 1, y + 1) +
+                2 * elevation(x, y + 1) +
+                elevation(x + 1, y + 1) -
+                (elevation(x - 1, y - 1) + 2 * elevation(x, y - 1) + elevation(x + 1, y - 1));
+            normal
+                .set(
+                    (-dzdx * exaggeration) / (8 * cellWidth),
+                    (-dzdy * exaggeration) / (8 * cellHeight),
+                    1
+                )
+                .normalize();
+
+            const shade = Math.round(Math.max(0, normal.dot(sun)) * 255);
+            const offset = (y * width + x) * 4;
+            pixels[offset] = shade;
+            pixels[offset + 1] = shade;
+            pixels[offset + 2] = shade;
+            pixels[offset + 3] = 255;
+        }
+    }
+    return pixels;
+}
@@ -0,0 +1,308 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+
+import { GeometryType, StyleSet } from "@here/harp-datasource-protocol";
+import {
+    GeoCoordinates,
+    mercatorProjection,
+    mercatorTilingScheme,
+    TileKey
+} from "@here/harp-geoutils";
+import { CalculationStatus, sampleDisplacementMap } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+
+import { computeContours } from "../lib/Contours";
+import { DemDataProvider } from "../lib/DemDataProvider";
+import { DemDataSource } from "../lib/DemDataSource";
+import { DemDecodedTile, DemTileDecoder } from "../lib/DemDecoder";
+import {
+    decodeElevation,
+    decodeElevationFloats,
+    decodeElevationPixels,
+    DemElevations
+} from "../lib/DemEncoding";
+import { computeHillshade } from "../lib/Hillshade";
+
+class FakeDataProvider implements DataProvider {
+    async connect() {
+        // not needed
+    }
+
+    ready(): boolean {
+        return true;
+    }
+
+    async getTile(): Promise<ArrayBufferLike> {
+        return new ArrayBuffer(0);
+    }
+}
+
+function createElevations(elevations: number[], size: number): DemElevations {
+    return {
+        texture: new Float32Array(elevations),
+        width: size,
+        height: size,
+        minElevation: Math.min(...elevations),
+        maxElevation: Math.max(...elevations)
+    };
+}
+
+describe("@here/harp-terrain-datasource", function() {
+    describe("DemEncoding", function() {
+        it("decodes terrarium and mapbox elevations", function() {
+            assert.equal(decodeElevation("terrarium", 128, 0, 0), 0);
+            assert.equal(decodeElevation("terrarium", 131, 232, 128), 1000.5);
+            assert.equal(decodeElevation("mapbox", 1, 134, 160), 0);
+            assert.closeTo(decodeElevation("mapbox", 1, 173, 176), 1000, 1e-6);
+            assert.throws(() => decodeElevation("float32", 0, 0, 0));
+        });
+
+        it("flips rows of pixels to start in the south", function() {
+            // 2x2 RGBA image, first row is the northern one.
+            const pixels = new Uint8ClampedArray([
+                128,
+                1,
+                0,
+                255,
+                128,
+                2,
+                0,
+                255,
+                128,
+                3,
+                0,
+                255,
+                128,
+                4,
+                0,
+                255
+            ]);
+            const elevations = decodeElevationPixels("terrarium", pixels, 2, 2);
+
+            assert.deepEqual(Array.from(elevations.texture), [3, 4, 1, 2]);
+            assert.equal(elevations.minElevation, 1);
+            assert.equal(elevations.maxElevation, 4);
+        });
+
+        it("decodes square grids of floats", function() {
+            const elevations = decodeElevationFloats(new Float32Array([1, 2, 3, 4]).buffer);
+
+            assert.equal(elevations.width, 2);
+            assert.equal(elevations.height, 2);
+            assert.deepEqual(Array.from(elevations.texture), [3, 4, 1, 2]);
+            assert.throws(() => decodeElevationFloats(new Float32Array([1, 2, 3]).buffer));
+        });
+    });
+
+    describe("Contours", function() {
+        it("closes lines around peaks", function() {
+            const lines = computeContours(createElevations([0, 0, 0, 0, 150, 0, 0, 0, 0], 3), 100);
+
+            assert.equal(lines.length, 1);
+            assert.equal(lines[0].elevation, 100);
+            const points = lines[0].points;
+            assert.equal(points.length, 10);
+            assert.deepEqual(points.slice(0, 2), points.slice(8));
+            for (let i = 0; i < 8; i += 2) {
+                const distance = Math.abs(points[i] - 0.5) + Math.abs(points[i + 1] - 0.5);
+                assert.closeTo(distance, 1 / 9, 1e-6);
+            }
+        });
+
+        it("creates lines for each multiple of the interval", function() {
+            const lines = computeContours(createElevations([0, 250, 0, 250], 2), 100);
+
+            assert.deepEqual(lines.map(line => line.elevation), [100, 200]);
+            assert.closeTo(lines[0].points[0], 0.25 + 0.5 * 0.4, 1e-6);
+            assert.closeTo(lines[1].points[0], 0.25 + 0.5 * 0.8, 1e-6);
+            assert.throws(() => computeContours(createElevations([0, 0, 0, 0], 2), 0));
+        });
+    });
+
+    describe("Hillshade", function() {
+        it("shades slopes facing the sun brighter", function() {
+            const flat = computeHillshade(createElevations([5, 5, 5, 5], 2), 1, 1, {
+                altitude: 90
+            });
+            assert.deepEqual(Array.from(flat.slice(0, 4)), [255, 255, 255, 255]);
+
+            // Slope rising to the east, lit from the east and from the west.
+            const slope = createElevations([0, 1, 0, 1], 2);
+            const east = computeHillshade(slope, 1, 1, { azimuth: 90 });
+            const west = computeHillshade(slope, 1, 1, { azimuth: 270 });
+            assert.isBelow(east[0], west[0]);
+            assert.isBelow(
+                computeHillshade(slope, 1, 1, { azimuth: 270, exaggeration: 8 })[0],
+                west[0]
+            );
+        });
+    });
+
+    describe("DemTileDecoder", function() {
+        const styleSet: StyleSet = [
+            {
+                when: "$layer == 'hillshade'",
+                technique: "terrain",
+                attr: { hillshade: { azimuth: 0 } }
+            },
+            {
+                when: "$layer == 'contours'",
+                technique: "solid-line",
+                attr: { color: "#f00", lineWidth: 1 }
+            },
+            {
+                when: "$layer == 'contours'",
+                technique: "text",
+                attr: { label: "elevation" }
+            }
+        ];
+
+        it("creates hillshading and contour lines", async function() {
+            const decoder = new DemTileDecoder();
+            decoder.configure(styleSet, undefined, { demEncoding: "float32" });
+            const data = new Float32Array([0, 0, 0, 0, 150, 0, 0, 0, 0]).buffer;
+            const tileKey = TileKey.fromRowColumnLevel(5, 5, 4);
+
+            const decodedTile = (await decoder.decodeTile(
+                data,
+                tileKey,
+                mercatorProjection
+            )) as DemDecodedTile;
+
+            assert.equal(decodedTile.elevations.width, 3);
+            assert.equal(decodedTile.techniques.length, 3);
+            assert.isDefined((decodedTile.techniques[0] as any).map);
+            assert.deepEqual(decodedTile.geometries.map(geometry => geometry.type), [
+                GeometryType.Polygon,
+                GeometryType.SolidLine
+            ]);
+            assert.equal(decodedTile.geometries[1].groups[0].technique, 1);
+            assert.equal(decodedTile.textPathGeometries!.length, 1);
+            assert.equal(decodedTile.textPathGeometries![0].text, "100");
+        });
+
+        it("decodes only elevations without a style set", async function() {
+            const decoder = new DemTileDecoder();
+            decoder.configure(undefined, undefined, { demEncoding: "float32" });
+            const decodedTile = await decoder.decodeTile(
+                new Float32Array([1, 2, 3, 4]).buffer,
+                TileKey.fromRowColumnLevel(0, 0, 0),
+                mercatorProjection
+            );
+
+            assert.equal(decodedTile.geometries.length, 0);
+            assert.isUndefined(decodedTile.textPathGeometries);
+        });
+    });
+
+    describe("DemDataProvider", function() {
+        it("counts rows of the tile URL from the north", function() {
+            const dataProvider = new DemDataProvider({ url: "https://dem/{z}/{x}/{y}.png" });
+
+            assert.equal(
+                dataProvider.tileUrl(TileKey.fromRowColumnLevel(0, 1, 2)),
+                "https://dem/2/1/3.png"
+            );
+            assert.equal(
+                dataProvider.tileUrl(TileKey.fromRowColumnLevel(3, 2, 2)),
+                "https://dem/2/2/0.png"
+            );
+        });
+    });
+
+    describe("DemElevationProvider", function() {
+        it("interpolates elevations between pixel centers", function() {
+            const displacementMap = {
+                tileKey: TileKey.fromRowColumnLevel(0, 0, 0),
+                texture: createElevations([0, 10, 20, 30], 2)
+            };
+
+            assert.equal(sampleDisplacementMap(displacementMap, 0.25, 0.25), 0);
+            assert.equal(sampleDisplacementMap(displacementMap, 0.75, 0.75), 30);
+            assert.equal(sampleDisplacementMap(displacementMap, 0.5, 0.25), 5);
+            assert.equal(sampleDisplacementMap(displacementMap, 0.5, 0.5), 15);
+            assert.equal(sampleDisplacementMap(displacementMap, 0, 1), 20);
+        });
+    });
+
+    describe("DemDataSource", function() {
+        let dataSource: DemDataSource;
+
+        beforeEach(function() {
+            dataSource = new DemDataSource({
+                dataProvider: new FakeDataProvider(),
+                decoder: new DemTileDecoder(),
+                maxZoomLevel: 2
+            });
+        });
+
+        it("falls back to the elevations of ancestors", function() {
+            const parentKey = TileKey.fromRowColumnLevel(0, 0, 1);
+            const childKey = TileKey.fromRowColumnLevel(1, 1, 2);
+            assert.isUndefined(dataSource.getDisplacementMap(childKey));
+
+            dataSource.addElevations(parentKey, createElevations([100, 200, 300, 400], 2));
+            const displacementMap = dataSource.getDisplacementMap(childKey);
+            assert.isDefined(displacementMap);
+            assert.equal(displacementMap!.tileKey, parentKey);
+
+            dataSource.removeElevations(parentKey);
+            assert.isUndefined(dataSource.getDisplacementMap(childKey));
+        });
+
+        it("keeps elevations until all their tiles are removed", function() {
+            const tileKey = TileKey.fromRowColumnLevel(1, 1, 1);
+            dataSource.addElevations(tileKey, createElevations([1, 2, 3, 4], 2));
+            dataSource.addElevations(tileKey, createElevations([1, 2, 3, 4], 2));
+
+            dataSource.removeElevations(tileKey);
+            assert.isDefined(dataSource.getDisplacementMap(tileKey));
+            dataSource.removeElevations(tileKey);
+            assert.isUndefined(dataSource.getDisplacementMap(tileKey));
+        });
+
+        it("provides elevation ranges", function() {
+            const rangeSource = dataSource.elevationRangeSource;
+            const tileKey = TileKey.fromRowColumnLevel(0, 0, 2);
+
+            let range = rangeSource.getElevationRange(tileKey);
+            assert.equal(range.calculationStatus, CalculationStatus.PendingApproximate);
+
+            dataSource.addElevations(tileKey.parent(), createElevations([-5, 0, 5, 10], 2));
+            range = rangeSource.getElevationRange(tileKey);
+            assert.equal(range.minElevation, -5);
+            assert.equal(range.maxElevation, 10);
+            assert.equal(range.calculationStatus, CalculationStatus.PendingApproximate);
+
+            dataSource.addElevations(tileKey, createElevations([1, 2, 3, 4], 2));
+            range = rangeSource.getElevationRange(tileKey);
+            assert.equal(range.minElevation, 1);
+            assert.equal(range.calculationStatus, CalculationStatus.FinalPrecise);
+
+            // Tiles deeper than the maximum level use the tiles at the maximum level.
+            range = rangeSource.getElevationRange(TileKey.fromRowColumnLevel(0, 0, 5));
+            assert.equal(range.maxElevation, 4);
+            assert.equal(range.calculationStatus, CalculationStatus.FinalPrecise);
+        });
+
+        it("provides heights of geo coordinates", function() {
+            const tileKey = TileKey.fromRowColumnLevel(1, 1, 1);
+            dataSource.addElevations(tileKey, createElevations([10, 10, 10, 10], 2));
+            const elevationProvider = dataSource.elevationProvider;
+
+            const geoBox = mercatorTilingScheme.getGeoBox(tileKey);
+            assert.equal(elevationProvider.getHeight(geoBox.center), 10);
+            assert.equal(elevationProvider.getHeight(geoBox.center, 1), 10);
+            assert.isUndefined(elevationProvider.getHeight(geoBox.center, 2));
+            assert.isUndefined(elevationProvider.getHeight(new GeoCoordinates(-45, -90)));
+        });
+    });
+});
@@ -4,13 +4,22 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./lib/rendering/CanvasGlyphRasterizer";
 export * from "./lib/rendering/FontCatalog";
 export * from "./lib/rendering/GlyphData";
+export * from "./lib/rendering/GlyphRasterizer";
+export * from "./lib/rendering/SdfGlyphAtlas";
+export * from "./lib/rendering/SdfGlyphGenerator";
 export * from "./lib/rendering/TextStyle";
 export * from "./lib/rendering/TextBufferObject";
+export * from "./lib/rendering/TrueTypeGlyphRasterizer";
+export * from "./lib/shaping/DefaultTextShaper";
+export * from "./lib/shaping/TextShaper";
 export * from "./lib/TextCanvas";
 
 export * from "./lib/utils/ContextualArabicConverter";
 export * from "./lib/utils/MaterialUtils";
+export * from "./lib/utils/SdfUtils";
 export * from "./lib/utils/TypesettingUtils";
+export * from "./lib/utils/UnicodeBidi";
 export * from "./lib/utils/UnicodeUtils";
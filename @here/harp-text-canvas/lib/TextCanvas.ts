@@ -12,6 +12,8 @@ import { TextBufferObject } from "./rendering/TextBufferObject";
 import { QUAD_VERTEX_MEMORY_FOOTPRINT, TextGeometry } from "./rendering/TextGeometry";
 import { SdfTextMaterial } from "./rendering/TextMaterials";
 import { FontVariant, TextLayoutStyle, TextRenderStyle } from "./rendering/TextStyle";
+import { DefaultTextShaper } from "./shaping/DefaultTextShaper";
+import { TextShaper } from "./shaping/TextShaper";
 import { LineTypesetter } from "./typesetting/LineTypesetter";
 import { PathTypesetter, PathTypesettingParameters } from "./typesetting/PathTypesetter";
 import { TypesettingParameters } from "./typesetting/Typesetter";
@@ -29,6 +31,7 @@ interface TextPlacementParameters {
     layer: TextCanvasLayer;
     textPath?: THREE.Path | THREE.CurvePath<THREE.Vector2>;
     textPathOverflow?: boolean;
+    textPathMaxAngle?: number;
     bounds?: THREE.Box2;
     individualBounds?: THREE.Box2[];
     computeTextBuffer?: boolean;
@@ -49,6 +52,12 @@ export interface MeasurementParameters {
      */
     pathOverflow?: boolean;
 
+    /**
+     * Maximum angle (radians) between two consecutive glyphs of a text placed on a path. If the
+     * path bends more, the text is not placed.
+     */
+    maxAngleBetweenGlyphs?: number;
+
     /**
      * Output per-character bounds.
      */
@@ -75,6 +84,12 @@ export interface AdditionParameters {
      */
     pathOverflow?: boolean;
 
+    /**
+     * Maximum angle (radians) between two consecutive glyphs of a text placed on a path. If the
+     * path bends more, the text is not placed.
+     */
+    maxAngleBetweenGlyphs?: number;
+
     /**
      * Layer where text will be added.
      */
@@ -112,6 +127,12 @@ export interface TextBufferCreationParameters {
      */
     pathOverflow?: boolean;
 
+    /**
+     * Maximum angle (radians) between two consecutive glyphs of a text placed on a path. If the
+     * path bends more, the text is not placed.
+     */
+    maxAngleBetweenGlyphs?: number;
+
     /**
      * Output text bounding-box.
      */
@@ -196,6 +217,13 @@ export interface TextCanvasParameters {
      * Material used to render text background.
      */
     backgroundMaterial?: THREE.Material;
+
+    /**
+     * [[TextShaper]] applied to texts before their glyphs are retrieved from the [[FontCatalog]].
+     *
+     * @default [[DefaultTextShaper]]
+     */
+    shaper?: TextShaper;
 }
 
 /**
@@ -240,6 +268,8 @@ export class TextCanvas {
     private m_lineTypesetter: LineTypesetter;
     private m_pathTypesetter: PathTypesetter;
 
+    private m_shaper: TextShaper;
+
     /**
      * Constructs a new `TextCanvas`.
      *
@@ -290,6 +320,8 @@ export class TextCanvas {
 
         this.m_lineTypesetter = new LineTypesetter();
         this.m_pathTypesetter = new PathTypesetter();
+
+        this.m_shaper = params.shaper !== undefined ? params.shaper : new DefaultTextShaper();
     }
 
     /**
@@ -322,6 +354,16 @@ export class TextCanvas {
         bgMaterial.defines.MSDF = this.m_fontCatalog.type === "msdf" ? 1.0 : 0.0;
     }
 
+    /**
+     * Currently active [[TextShaper]].
+     */
+    get shaper(): TextShaper {
+        return this.m_shaper;
+    }
+    set shaper(value: TextShaper) {
+        this.m_shaper = value;
+    }
+
     /**
      * Currently active text rendering material.
      */
@@ -378,6 +420,19 @@ export class TextCanvas {
         this.m_currentTextLayoutStyle = style;
     }
 
+    /**
+     * Shapes a text with the current [[TextShaper]]. Texts passed as strings to this `TextCanvas`
+     * are shaped automatically, texts whose glyphs are retrieved directly from the [[FontCatalog]]
+     * should be shaped with this function first.
+     *
+     * @param text Text in logical order.
+     *
+     * @returns Text containing the code points of the glyphs to render.
+     */
+    shapeText(text: string): string {
+        return this.m_shaper.shape(text);
+    }
+
     /**
      * Clears all the placed glyphs in this `TextCanvas` (as well as resetting the current style).
      */
@@ -485,11 +540,13 @@ export class TextCanvas {
 
         let path;
         let pathOverflow;
+        let pathMaxAngle;
         let upperCaseArray;
         let outputCharacterBounds;
         if (params !== undefined) {
             path = params.path;
             pathOverflow = params.pathOverflow;
+            pathMaxAngle = params.maxAngleBetweenGlyphs;
             outputCharacterBounds = params.outputCharacterBounds;
             if (params.path !== undefined) {
                 const pathOrigin = params.path.getPoint(0);
@@ -508,6 +565,7 @@ export class TextCanvas {
             layer: this.m_defaultLayer,
             textPath: path,
             textPathOverflow: pathOverflow,
+            textPathMaxAngle: pathMaxAngle,
             bounds: outputBounds,
             individualBounds: outputCharacterBounds,
             letterCaseArray: upperCaseArray
@@ -534,11 +592,13 @@ export class TextCanvas {
 
         let path;
         let pathOverflow;
+        let pathMaxAngle;
         let upperCaseArray;
         let targetLayer = this.m_defaultLayer;
         if (params !== undefined) {
             path = params.path;
             pathOverflow = params.pathOverflow;
+            pathMaxAngle = params.maxAngleBetweenGlyphs;
             if (params.layer !== undefined) {
                 let tempLayer = this.getLayer(params.layer);
                 if (tempLayer === undefined) {
@@ -559,6 +619,7 @@ export class TextCanvas {
             input: text,
             textPath: path,
             textPathOverflow: pathOverflow,
+            textPathMaxAngle: pathMaxAngle,
             layer: targetLayer,
             letterCaseArray: upperCaseArray
         });
@@ -607,7 +668,7 @@ export class TextCanvas {
         } else {
             upperCaseArray = [];
             glyphArray = this.m_fontCatalog.getGlyphs(
-                text,
+                this.shapeText(text),
                 this.m_currentTextRenderStyle,
                 smallCapsEnabled ? upperCaseArray : undefined
             );
@@ -618,6 +679,7 @@ export class TextCanvas {
 
         let path;
         let pathOverflow;
+        let pathMaxAngle;
         let textBounds;
         let characterBounds;
         let renderStyle;
@@ -625,6 +687,7 @@ export class TextCanvas {
         if (params !== undefined) {
             path = params.path;
             pathOverflow = params.pathOverflow;
+            pathMaxAngle = params.maxAngleBetweenGlyphs;
             if (params.outputBounds === true) {
                 textBounds = new THREE.Box2();
             }
@@ -643,6 +706,7 @@ export class TextCanvas {
             computeTextBuffer: true,
             textPath: path,
             textPathOverflow: pathOverflow,
+            textPathMaxAngle: pathMaxAngle,
             bounds: textBounds,
             individualBounds: characterBounds,
             letterCaseArray: upperCaseArray
@@ -776,7 +840,7 @@ export class TextCanvas {
         } else {
             smallCapsTransformations = [];
             glyphArray = this.m_fontCatalog.getGlyphs(
-                params.input,
+                this.shapeText(params.input),
                 this.m_currentTextRenderStyle,
                 smallCapsEnabled ? smallCapsTransformations : undefined
             );
@@ -817,7 +881,8 @@ export class TextCanvas {
         if (isPath) {
             Object.assign(typesettingParams as PathTypesettingParameters, {
                 path: params.textPath,
-                pathOverflow: params.textPathOverflow === true
+                pathOverflow: params.textPathOverflow === true,
+                maxAngleBetweenGlyphs: params.textPathMaxAngle
             });
             result = this.m_pathTypesetter.arrangeGlyphs(
                 typesettingParams as PathTypesettingParameters
@@ -0,0 +1,106 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GlyphRasterizer, RasterizedGlyph } from "./GlyphRasterizer";
+import { FontStyle } from "./TextStyle";
+
+/**
+ * CSS Font Loading API, not part of the DOM typings of TypeScript yet.
+ */
+declare const FontFace: new (family: string, source: string | ArrayBuffer) => {
+    load(): Promise<any>;
+};
+
+/**
+ * [[GlyphRasterizer]] drawing glyphs with the 2D context of a canvas, using the fonts installed on
+ * the system or fonts loaded from TTF/OTF files with [[CanvasGlyphRasterizer.load]].
+ *
+ * As the browser falls back to other fonts for the characters missing from the requested font,
+ * every character is rasterized, including emoji (as monochrome silhouettes).
+ */
+export class CanvasGlyphRasterizer implements GlyphRasterizer {
+    /**
+     * Loads a TTF/OTF font file and creates a `CanvasGlyphRasterizer` using it.
+     *
+     * @param family Font family name under which the font is registered.
+     * @param url URL of the font file.
+     *
+     * @returns `CanvasGlyphRasterizer` Promise.
+     */
+    static async load(family: string, url: string): Promise<CanvasGlyphRasterizer> {
+        const fontFace = new FontFace(family, `url(${url})`);
+        await fontFace.load();
+        (document as any).fonts.add(fontFace);
+        return new CanvasGlyphRasterizer(`"${family}"`);
+    }
+
+    private m_context?: CanvasRenderingContext2D;
+
+    /**
+     * Creates a new `CanvasGlyphRasterizer`.
+     *
+     * @param fontFamily CSS font family used to draw the glyphs.
+     */
+    constructor(readonly fontFamily: string = "sans-serif") {}
+
+    rasterize(codePoint: number, size: number, fontStyle?: FontStyle): RasterizedGlyph {
+        const context = this.getContext();
+        const isBold = fontStyle === FontStyle.Bold || fontStyle === FontStyle.BoldItalic;
+        const isItalic = fontStyle === FontStyle.Italic || fontStyle === FontStyle.BoldItalic;
+        const font =
+            (isItalic ? "italic " : "") + (isBold ? "bold " : "") + `${size}px ${this.fontFamily}`;
+        context.font = font;
+
+        const text = String.fromCodePoint(codePoint);
+        const metrics = context.measureText(text);
+        let left = 0;
+        let right = Math.ceil(metrics.width);
+        let ascent = size;
+        let descent = Math.ceil(size / 4);
+        // Older browsers do not measure the actual bounding box, the full em box is used then.
+        if (metrics.actualBoundingBoxAscent !== undefined) {
+            left = Math.floor(-metrics.actualBoundingBoxLeft);
+            right = Math.ceil(metrics.actualBoundingBoxRight);
+            ascent = Math.ceil(metrics.actualBoundingBoxAscent);
+            descent = Math.ceil(metrics.actualBoundingBoxDescent);
+        }
+
+        const width = right - left;
+        const height = ascent + descent;
+        if (width <= 0 || height <= 0) {
+            return { width: 0, height: 0, data: [], left: 0, top: 0, advance: metrics.width };
+        }
+
+        const canvas = context.canvas;
+        if (canvas.width < width || canvas.height < height) {
+            canvas.width = Math.max(canvas.width, width);
+            canvas.height = Math.max(canvas.height, height);
+            // Resizing the canvas resets the context state.
+            context.font = font;
+        }
+        context.clearRect(0, 0, width, height);
+        context.textBaseline = "alphabetic";
+        context.fillStyle = "black";
+        context.fillText(text, -left, ascent);
+
+        const pixels = context.getImageData(0, 0, width, height).data;
+        const data = new Uint8Array(width * height);
+        for (let i = 0; i < data.length; ++i) {
+            data[i] = pixels[i * 4 + 3];
+        }
+        return { width, height, data, left, top: ascent, advance: metrics.width };
+    }
+
+    private getContext(): CanvasRenderingContext2D {
+        if (this.m_context === undefined) {
+            const canvas = document.createElement("canvas");
+            canvas.width = 64;
+            canvas.height = 64;
+            this.m_context = canvas.getContext("2d")!;
+        }
+        return this.m_context;
+    }
+}
@@ -0,0 +1,530 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Maximum nesting of subroutine calls in a charstring, as defined by the Type 2 charstring format.
+ */
+const MAX_SUBROUTINE_DEPTH = 10;
+
+/**
+ * Two-dimensional point, in font units.
+ */
+export interface CffPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * @hidden
+ * Closed contour of a CFF glyph. The first entry holds the start point, every following entry is
+ * either a line (one point) or a cubic Bézier curve (two control points and the end point).
+ */
+export type CffContour = CffPoint[][];
+
+/**
+ * Location of an INDEX structure of a CFF table.
+ */
+interface CffIndex {
+    count: number;
+    offsets: number[];
+    dataOffset: number;
+    end: number;
+}
+
+/**
+ * Local data of a font in a CID-keyed font, or of the whole font otherwise.
+ */
+interface PrivateData {
+    subrs?: CffIndex;
+}
+
+/**
+ * @hidden
+ * Reads the glyph outlines of the Compact Font Format table (`CFF `) of an OpenType font, encoded
+ * as Type 2 charstrings. CID-keyed fonts are supported, variable fonts (`CFF2`) and the deprecated
+ * `seac` accent composition are not. Hints are ignored.
+ */
+export class CffOutlineReader {
+    private readonly m_charStrings: CffIndex;
+    private readonly m_globalSubrs: CffIndex;
+    private readonly m_privateData: PrivateData[] = [];
+    private readonly m_fdSelect?: number[];
+
+    /**
+     * Creates a new `CffOutlineReader`.
+     *
+     * @param m_view The content of the font file.
+     * @param m_offset The offset of the `CFF ` table in the font file.
+     */
+    constructor(private readonly m_view: DataView, private readonly m_offset: number) {
+        const headerSize = m_view.getUint8(m_offset + 2);
+        const nameIndex = this.readIndex(m_offset + headerSize);
+        const topDictIndex = this.readIndex(nameIndex.end);
+        const stringIndex = this.readIndex(topDictIndex.end);
+        this.m_globalSubrs = this.readIndex(stringIndex.end);
+
+        // Only the first font of a font set is used, like in OpenType fonts.
+        const topDict = this.readDict(
+            topDictIndex.dataOffset + topDictIndex.offsets[0],
+            topDictIndex.offsets[1] - topDictIndex.offsets[0]
+        );
+        const charStrings = topDict.get(17);
+        if (charStrings === undefined) {
+            throw new Error("CffOutlineReader: Missing charstrings");
+        }
+        this.m_charStrings = this.readIndex(m_offset + charStrings[0]);
+
+        const fdArray = topDict.get(1236);
+        const fdSelect = topDict.get(1237);
+        if (fdArray !== undefined && fdSelect !== undefined) {
+            const fontDicts = this.readIndex(m_offset + fdArray[0]);
+            for (let i = 0; i < fontDicts.count; ++i) {
+                const fontDict = this.readDict(
+                    fontDicts.dataOffset + fontDicts.offsets[i],
+                    fontDicts.offsets[i + 1] - fontDicts.offsets[i]
+                );
+                this.m_privateData.push(this.readPrivateData(fontDict.get(18)));
+            }
+            this.m_fdSelect = this.readFdSelect(m_offset + fdSelect[0]);
+        } else {
+            this.m_privateData.push(this.readPrivateData(topDict.get(18)));
+        }
+    }
+
+    /**
+     * Returns the contours of a glyph.
+     *
+     * @param glyphIndex The index of the glyph.
+     */
+    getContours(glyphIndex: number): CffContour[] {
+        if (glyphIndex >= this.m_charStrings.count) {
+            return [];
+        }
+        const fontIndex = this.m_fdSelect !== undefined ? this.m_fdSelect[glyphIndex] : 0;
+        const privateData = this.m_privateData[fontIndex] || this.m_privateData[0];
+        return new CharStringInterpreter(this.m_view, this.m_globalSubrs, privateData.subrs).run(
+            this.getIndexEntry(this.m_charStrings, glyphIndex)
+        );
+    }
+
+    private getIndexEntry(index: CffIndex, entry: number): [number, number] {
+        return [
+            index.dataOffset + index.offsets[entry],
+            index.dataOffset + index.offsets[entry + 1]
+        ];
+    }
+
+    private readIndex(offset: number): CffIndex {
+        const view = this.m_view;
+        const count = view.getUint16(offset);
+        if (count === 0) {
+            return { count, offsets: [0], dataOffset: offset + 2, end: offset + 2 };
+        }
+        const offSize = view.getUint8(offset + 2);
+        const offsets: number[] = [];
+        for (let i = 0; i <= count; ++i) {
+            let value = 0;
+            for (let j = 0; j < offSize; ++j) {
+                value = value * 256 + view.getUint8(offset + 3 + i * offSize + j);
+            }
+            // Offsets are relative to the byte before the data.
+            offsets.push(value - 1);
+        }
+        const dataOffset = offset + 3 + (count + 1) * offSize;
+        return { count, offsets, dataOffset, end: dataOffset + offsets[count] };
+    }
+
+    // Reads a DICT, mapping operators to their operands. Two-byte operators are mapped to
+    // `1200 + second byte`.
+    private readDict(offset: number, length: number): Map<number, number[]> {
+        const view = this.m_view;
+        const dict = new Map<number, number[]>();
+        let operands: number[] = [];
+        let position = offset;
+        while (position < offset + length) {
+            const b0 = view.getUint8(position++);
+            if (b0 <= 21) {
+                const operator = b0 === 12 ? 1200 + view.getUint8(position++) : b0;
+                dict.set(operator, operands);
+                operands = [];
+            } else if (b0 === 28) {
+                operands.push(view.getInt16(position));
+                position += 2;
+            } else if (b0 === 29) {
+                operands.push(view.getInt32(position));
+                position += 4;
+            } else if (b0 === 30) {
+                // Real numbers are stored as nibbles, which don't matter for outlines.
+                let byte: number;
+                do {
+                    byte = view.getUint8(position++);
+                } while (byte % 16 !== 0xf && byte < 0xf0);
+                operands.push(0);
+            } else if (b0 >= 32 && b0 <= 246) {
+                operands.push(b0 - 139);
+            } else if (b0 >= 247 && b0 <= 250) {
+                operands.push((b0 - 247) * 256 + view.getUint8(position++) + 108);
+            } else if (b0 >= 251 && b0 <= 254) {
+                operands.push(-(b0 - 251) * 256 - view.getUint8(position++) - 108);
+            }
+        }
+        return dict;
+    }
+
+    private readPrivateData(sizeAndOffset?: number[]): PrivateData {
+        if (sizeAndOffset === undefined || sizeAndOffset.length < 2) {
+            return {};
+        }
+        const [size, offset] = sizeAndOffset;
+        const privateDict = this.readDict(this.m_offset + offset, size);
+        const subrs = privateDict.get(19);
+        return subrs !== undefined
+            ? { subrs: this.readIndex(this.m_offset + offset + subrs[0]) }
+            : {};
+    }
+
+    private readFdSelect(offset: number): number[] {
+        const view = this.m_view;
+        const format = view.getUint8(offset);
+        const fontIndices: number[] = [];
+        if (format === 0) {
+            for (let i = 0; i < this.m_charStrings.count; ++i) {
+                fontIndices.push(view.getUint8(offset + 1 + i));
+            }
+        } else if (format === 3) {
+            const numRanges = view.getUint16(offset + 1);
+            for (let i = 0; i < numRanges; ++i) {
+                const rangeOffset = offset + 3 + i * 3;
+                const first = view.getUint16(rangeOffset);
+                const fontIndex = view.getUint8(rangeOffset + 2);
+                const next = view.getUint16(rangeOffset + 3);
+                for (let glyphIndex = first; glyphIndex < next; ++glyphIndex) {
+                    fontIndices[glyphIndex] = fontIndex;
+                }
+            }
+        }
+        return fontIndices;
+    }
+}
+
+/**
+ * Computes the bias added to the subroutine numbers of a charstring.
+ */
+function getSubroutineBias(subrs: CffIndex): number {
+    return subrs.count < 1240 ? 107 : subrs.count < 33900 ? 1131 : 32768;
+}
+
+/**
+ * Runs Type 2 charstrings to collect the contours they draw.
+ */
+class CharStringInterpreter {
+    private readonly m_stack: number[] = [];
+    private readonly m_contours: CffContour[] = [];
+    private m_contour?: CffContour;
+    private m_x = 0;
+    private m_y = 0;
+    private m_numStems = 0;
+    private m_hasWidth = false;
+    private m_done = false;
+
+    constructor(
+        private readonly m_view: DataView,
+        private readonly m_globalSubrs: CffIndex,
+        private readonly m_localSubrs?: CffIndex
+    ) {}
+
+    run([start, end]: [number, number]): CffContour[] {
+        this.execute(start, end, 0);
+        this.closeContour();
+        return this.m_contours;
+    }
+
+    private execute(start: number, end: number, depth: number) {
+        const view = this.m_view;
+        const stack = this.m_stack;
+        let position = start;
+        while (position < end && !this.m_done) {
+            const b0 = view.getUint8(position++);
+            if (b0 === 28) {
+                stack.push(view.getInt16(position));
+                position += 2;
+                continue;
+            } else if (b0 >= 32 && b0 <= 246) {
+                stack.push(b0 - 139);
+                continue;
+            } else if (b0 >= 247 && b0 <= 250) {
+                stack.push((b0 - 247) * 256 + view.getUint8(position++) + 108);
+                continue;
+            } else if (b0 >= 251 && b0 <= 254) {
+                stack.push(-(b0 - 251) * 256 - view.getUint8(position++) - 108);
+                continue;
+            } else if (b0 === 255) {
+                stack.push(view.getInt32(position) / 65536);
+                position += 4;
+                continue;
+            }
+
+            switch (b0) {
+                case 1: // hstem
+                case 3: // vstem
+                case 18: // hstemhm
+                case 23: // vstemhm
+                    this.addStems();
+                    break;
+                case 19: // hintmask
+                case 20: // cntrmask
+                    // Stems may be given right before the mask, as an implicit vstem.
+                    this.addStems();
+                    position += Math.ceil(this.m_numStems / 8);
+                    break;
+                case 21: // rmoveto
+                    this.takeWidth(2);
+                    this.moveTo(stack[0], stack[1]);
+                    break;
+                case 22: // hmoveto
+                    this.takeWidth(1);
+                    this.moveTo(stack[0], 0);
+                    break;
+                case 4: // vmoveto
+                    this.takeWidth(1);
+                    this.moveTo(0, stack[0]);
+                    break;
+                case 5: // rlineto
+                    for (let i = 0; i + 1 < stack.length; i += 2) {
+                        this.lineTo(stack[i], stack[i + 1]);
+                    }
+                    break;
+                case 6: // hlineto
+                case 7: // vlineto
+                    for (let i = 0; i < stack.length; ++i) {
+                        const horizontal = (i % 2 === 0) === (b0 === 6);
+                        this.lineTo(horizontal ? stack[i] : 0, horizontal ? 0 : stack[i]);
+                    }
+                    break;
+                case 8: // rrcurveto
+                    for (let i = 0; i + 5 < stack.length; i += 6) {
+                        this.curveTo(...(stack.slice(i, i + 6) as CurveArguments));
+                    }
+                    break;
+                case 24: // rcurveline
+                    {
+                        let i = 0;
+                        for (; i + 7 < stack.length; i += 6) {
+                            this.curveTo(...(stack.slice(i, i + 6) as CurveArguments));
+                        }
+                        this.lineTo(stack[i], stack[i + 1]);
+                    }
+                    break;
+                case 25: // rlinecurve
+                    {
+                        let i = 0;
+                        for (; i + 7 < stack.length; i += 2) {
+                            this.lineTo(stack[i], stack[i + 1]);
+                        }
+                        this.curveTo(...(stack.slice(i, i + 6) as CurveArguments));
+                    }
+                    break;
+                case 26: // vvcurveto
+                    {
+                        let i = stack.length % 2;
+                        let dx1 = i === 1 ? stack[0] : 0;
+                        for (; i + 3 < stack.length; i += 4) {
+                            this.curveTo(
+                                dx1,
+                                stack[i],
+                                stack[i + 1],
+                                stack[i + 2],
+                                0,
+                                stack[i + 3]
+                            );
+                            dx1 = 0;
+                        }
+                    }
+                    break;
+                case 27: // hhcurveto
+                    {
+                        let i = stack.length % 2;
+                        let dy1 = i === 1 ? stack[0] : 0;
+                        for (; i + 3 < stack.length; i += 4) {
+                            this.curveTo(
+                                stack[i],
+                                dy1,
+                                stack[i + 1],
+                                stack[i + 2],
+                                stack[i + 3],
+                                0
+                            );
+                            dy1 = 0;
+                        }
+                    }
+                    break;
+                case 30: // vhcurveto
+                case 31: // hvcurveto
+                    {
+                        let horizontal = b0 === 31;
+                        for (let i = 0; i + 3 < stack.length; i += 4) {
+                            // The last curve may end with an additional, orthogonal delta.
+                            const last = i + 5 === stack.length ? stack[i + 4] : 0;
+                            if (horizontal) {
+                                this.curveTo(
+                                    stack[i],
+                                    0,
+                                    stack[i + 1],
+                                    stack[i + 2],
+                                    last,
+                                    stack[i + 3]
+                                );
+                            } else {
+                                this.curveTo(
+                                    0,
+                                    stack[i],
+                                    stack[i + 1],
+                                    stack[i + 2],
+                                    stack[i + 3],
+                                    last
+                                );
+                            }
+                            horizontal = !horizontal;
+                        }
+                    }
+                    break;
+                case 10: // callsubr
+                case 29: // callgsubr
+                    {
+                        const subrs = b0 === 10 ? this.m_localSubrs : this.m_globalSubrs;
+                        const subr = stack.pop();
+                        if (
+                            subrs !== undefined &&
+                            subr !== undefined &&
+                            depth < MAX_SUBROUTINE_DEPTH
+                        ) {
+                            const index = subr + getSubroutineBias(subrs);
+                            if (index >= 0 && index < subrs.count) {
+                                this.execute(
+                                    subrs.dataOffset + subrs.offsets[index],
+                                    subrs.dataOffset + subrs.offsets[index + 1],
+                                    depth + 1
+                                );
+                            }
+                        }
+                    }
+                    // The operands of the subroutine stay on the stack.
+                    continue;
+                case 11: // return
+                    return;
+                case 14: // endchar
+                    this.takeWidth(0);
+                    this.m_done = true;
+                    break;
+                case 12:
+                    this.executeEscape(view.getUint8(position++));
+                    break;
+            }
+            stack.length = 0;
+        }
+    }
+
+    private executeEscape(operator: number) {
+        const s = this.m_stack;
+        const y = this.m_y;
+        switch (operator) {
+            case 35: // flex
+                this.curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+                this.curveTo(s[6], s[7], s[8], s[9], s[10], s[11]);
+                break;
+            case 34: // hflex
+                this.curveTo(s[0], 0, s[1], s[2], s[3], 0);
+                this.curveTo(s[4], 0, s[5], -s[2], s[6], 0);
+                break;
+            case 36: // hflex1
+                this.curveTo(s[0], s[1], s[2], s[3], s[4], 0);
+                this.curveTo(s[5], 0, s[6], s[7], s[8], 0);
+                // The second curve ends at the height the first one started at.
+                this.m_contour![this.m_contour!.length - 1][2].y = y;
+                this.m_y = y;
+                break;
+            case 37: // flex1
+                {
+                    let dx = 0;
+                    let dy = 0;
+                    for (let i = 0; i < 10; i += 2) {
+                        dx += s[i];
+                        dy += s[i + 1];
+                    }
+                    const horizontal = Math.abs(dx) > Math.abs(dy);
+                    this.curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+                    this.curveTo(
+                        s[6],
+                        s[7],
+                        s[8],
+                        s[9],
+                        horizontal ? s[10] : -dx,
+                        horizontal ? -dy : s[10]
+                    );
+                }
+                break;
+            // Arithmetic and storage operators are not used by common fonts.
+        }
+    }
+
+    // Removes the advance width from the stack. It is given as an extra first operand of the
+    // first stack-clearing operator, which is not needed since widths are read from `hmtx`.
+    private takeWidth(numOperands: number) {
+        if (!this.m_hasWidth && this.m_stack.length > numOperands) {
+            this.m_stack.shift();
+        }
+        this.m_hasWidth = true;
+    }
+
+    private addStems() {
+        if (!this.m_hasWidth && this.m_stack.length % 2 === 1) {
+            this.m_stack.shift();
+        }
+        this.m_hasWidth = true;
+        this.m_numStems += Math.floor(this.m_stack.length / 2);
+    }
+
+    private moveTo(dx: number, dy: number) {
+        this.closeContour();
+        this.m_x += dx;
+        this.m_y += dy;
+        this.m_contour = [[{ x: this.m_x, y: this.m_y }]];
+    }
+
+    private lineTo(dx: number, dy: number) {
+        this.m_x += dx;
+        this.m_y += dy;
+        this.getContour().push([{ x: this.m_x, y: this.m_y }]);
+    }
+
+    private curveTo(dxa: number, dya: number, dxb: number, dyb: number, dxc: number, dyc: number) {
+        const c1 = { x: this.m_x + dxa, y: this.m_y + dya };
+        const c2 = { x: c1.x + dxb, y: c1.y + dyb };
+        this.m_x = c2.x + dxc;
+        this.m_y = c2.y + dyc;
+        this.getContour().push([c1, c2, { x: this.m_x, y: this.m_y }]);
+    }
+
+    // Returns the current contour. Drawing without a preceding moveto starts at the origin.
+    private getContour(): CffContour {
+        if (this.m_contour === undefined) {
+            this.m_contour = [[{ x: this.m_x, y: this.m_y }]];
+        }
+        return this.m_contour;
+    }
+
+    private closeContour() {
+        if (this.m_contour !== undefined && this.m_contour.length > 1) {
+            this.m_contours.push(this.m_contour);
+        }
+        this.m_contour = undefined;
+    }
+}
+
+/**
+ * Relative coordinates of the points of a cubic Bézier curve.
+ */
+type CurveArguments = [number, number, number, number, number, number];
@@ -8,7 +8,10 @@ import * as THREE from "three";
 
 import { MemoryUsage } from "../TextCanvas";
 import { GlyphData } from "./GlyphData";
+import { GlyphRasterizer } from "./GlyphRasterizer";
 import { GlyphTextureCache } from "./GlyphTextureCache";
+import { SdfGlyphAtlas } from "./SdfGlyphAtlas";
+import { SdfGlyphGenerator } from "./SdfGlyphGenerator";
 import { FontStyle, FontVariant, TextRenderStyle } from "./TextStyle";
 
 const ASSETS_PATH = "_Assets/";
@@ -77,6 +80,9 @@ export interface UnicodeBlock {
  * Bitmap information coming from all different fonts is then stored in a unified WebGL GPU Texture
  * resource, which can be sampled to render all currently loaded glyphs.
  *
+ * Characters missing from all fonts are rendered with a replacement glyph, unless a
+ * [[GlyphRasterizer]] is set as [[glyphRasterizer]]. Their SDF glyphs are then generated at
+ * runtime.
  */
 export class FontCatalog {
     /**
@@ -161,6 +167,11 @@ export class FontCatalog {
     private m_loadedPages: Map<string, THREE.Texture>;
     private m_loadedGlyphs: Map<string, Map<number, GlyphData>>;
 
+    private m_glyphRasterizer?: GlyphRasterizer;
+    private m_glyphGenerators = new Map<string, SdfGlyphGenerator>();
+    private m_generatedGlyphAtlas = new SdfGlyphAtlas();
+    private m_generatedPages: THREE.DataTexture[] = [];
+
     /**
      * @hidden
      * Creates a new FontCatalog.
@@ -221,6 +232,7 @@ export class FontCatalog {
         this.m_loadedJson.clear();
         this.m_loadedPages.clear();
         this.m_loadedGlyphs.clear();
+        this.clearGeneratedGlyphs();
     }
 
     /**
@@ -234,6 +246,7 @@ export class FontCatalog {
         this.m_loadedJson.clear();
         this.m_loadedPages.clear();
         this.m_loadedGlyphs.clear();
+        this.clearGeneratedGlyphs();
     }
 
     /**
@@ -260,6 +273,19 @@ export class FontCatalog {
         return this.m_glyphTextureCache.textureSize;
     }
 
+    /**
+     * Rasterizer used to generate the glyphs of the characters missing from all fonts. If
+     * `undefined`, these characters are rendered with a replacement glyph.
+     */
+    get glyphRasterizer(): GlyphRasterizer | undefined {
+        return this.m_glyphRasterizer;
+    }
+
+    set glyphRasterizer(rasterizer: GlyphRasterizer | undefined) {
+        this.m_glyphRasterizer = rasterizer;
+        this.m_glyphGenerators.clear();
+    }
+
     /**
      * Current internal loading state.
      */
@@ -385,9 +411,12 @@ export class FontCatalog {
                 let glyphPromise = this.m_loadingGlyphs.get(glyphHash);
                 if (glyphPromise === undefined) {
                     if (font.charset.indexOf(String.fromCodePoint(codePoint)) === -1) {
-                        const replacementGlyph = this.createReplacementGlyph(codePoint, char, font);
-                        fontGlyphMap!.set(codePoint, replacementGlyph);
-                        this.m_glyphTextureCache.add(glyphHash, replacementGlyph);
+                        let missingGlyph = this.generateGlyph(codePoint, font, fontStyle);
+                        if (missingGlyph === undefined) {
+                            missingGlyph = this.createReplacementGlyph(codePoint, char, font);
+                        }
+                        fontGlyphMap!.set(codePoint, missingGlyph);
+                        this.m_glyphTextureCache.add(glyphHash, missingGlyph);
                         continue;
                     }
 
@@ -528,6 +557,10 @@ export class FontCatalog {
             }
         }
 
+        for (const page of this.m_generatedPages) {
+            textureBytes += page.image.width * page.image.height * 4;
+        }
+
         info.heapSize += numBytes + textureBytes;
         info.gpuSize += textureBytes;
     }
@@ -540,6 +573,78 @@ export class FontCatalog {
         return replacementGlyph;
     }
 
+    // Generates the SDF glyph of a character missing from all fonts, with the metrics of the font
+    // it replaces. Returns `undefined` if no glyph can be generated.
+    private generateGlyph(
+        codePoint: number,
+        font: Font,
+        fontStyle: FontStyle
+    ): GlyphData | undefined {
+        if (this.m_glyphRasterizer === undefined) {
+            return undefined;
+        }
+        let generator = this.m_glyphGenerators.get(font.name);
+        if (generator === undefined) {
+            generator = new SdfGlyphGenerator(this.m_glyphRasterizer, font.metrics);
+            this.m_glyphGenerators.set(font.name, generator);
+        }
+
+        const sdfGlyph = generator.generate(codePoint, fontStyle);
+        if (
+            sdfGlyph === undefined ||
+            sdfGlyph.width > this.maxWidth ||
+            sdfGlyph.height > this.maxHeight
+        ) {
+            return undefined;
+        }
+
+        const atlas = this.m_generatedGlyphAtlas;
+        const location = atlas.add(sdfGlyph);
+        if (location.page === this.m_generatedPages.length) {
+            const newPage = new THREE.DataTexture(
+                atlas.pages[location.page],
+                atlas.width,
+                atlas.height,
+                THREE.RGBAFormat
+            );
+            // Atlas pages are stored from top to bottom, like the loaded PNG pages.
+            newPage.flipY = true;
+            newPage.wrapS = THREE.ClampToEdgeWrapping;
+            newPage.wrapT = THREE.ClampToEdgeWrapping;
+            newPage.minFilter = THREE.NearestFilter;
+            this.m_generatedPages.push(newPage);
+        }
+        const page = this.m_generatedPages[location.page];
+        page.needsUpdate = true;
+
+        const block = this.unicodeBlocks.find(
+            element => codePoint >= element.min && codePoint <= element.max
+        );
+        return new GlyphData(
+            codePoint,
+            block !== undefined ? block.name : "",
+            sdfGlyph.width,
+            sdfGlyph.height,
+            sdfGlyph.advanceX,
+            sdfGlyph.offsetX,
+            sdfGlyph.offsetY,
+            location.x / atlas.width,
+            1.0 - (location.y + sdfGlyph.height) / atlas.height,
+            (location.x + sdfGlyph.width) / atlas.width,
+            1.0 - location.y / atlas.height,
+            page,
+            font
+        );
+    }
+
+    private clearGeneratedGlyphs() {
+        for (const page of this.m_generatedPages) {
+            page.dispose();
+        }
+        this.m_generatedPages.length = 0;
+        this.m_generatedGlyphAtlas.clear();
+    }
+
     private async loadAssets(
         codePoint: number,
         fontStyle: FontStyle,
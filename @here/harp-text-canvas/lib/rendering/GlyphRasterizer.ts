@@ -0,0 +1,59 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FontStyle } from "./TextStyle";
+
+/**
+ * Coverage bitmap of a glyph, as produced by a [[GlyphRasterizer]].
+ */
+export interface RasterizedGlyph {
+    /**
+     * Bitmap width, in pixels.
+     */
+    width: number;
+
+    /**
+     * Bitmap height, in pixels.
+     */
+    height: number;
+
+    /**
+     * Coverage of each pixel (`0` to `255`), rows from top to bottom.
+     */
+    data: ArrayLike<number>;
+
+    /**
+     * Horizontal distance from the pen position to the left side of the bitmap, in pixels.
+     */
+    left: number;
+
+    /**
+     * Vertical distance from the baseline to the top of the bitmap, in pixels (positive upwards).
+     */
+    top: number;
+
+    /**
+     * Amount of pixels to move the pen position after placing this glyph.
+     */
+    advance: number;
+}
+
+/**
+ * Interface of the rasterizers providing the glyph bitmaps from which [[SdfGlyphGenerator]]
+ * generates SDF glyphs at runtime.
+ */
+export interface GlyphRasterizer {
+    /**
+     * Rasterizes a glyph.
+     *
+     * @param codePoint Character's Unicode code point.
+     * @param size Font size (em size), in pixels.
+     * @param fontStyle Requested [[FontStyle]]. Rasterizers may ignore it.
+     *
+     * @returns Glyph bitmap, or `undefined` if the rasterizer has no glyph for this character.
+     */
+    rasterize(codePoint: number, size: number, fontStyle?: FontStyle): RasterizedGlyph | undefined;
+}
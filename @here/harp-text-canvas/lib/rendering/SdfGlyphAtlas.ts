@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SdfGlyph } from "./SdfGlyphGenerator";
+
+/**
+ * Location of a glyph in a [[SdfGlyphAtlas]].
+ */
+export interface SdfGlyphLocation {
+    /**
+     * Index of the page containing the glyph.
+     */
+    page: number;
+
+    /**
+     * Horizontal position of the glyph's left side, in pixels.
+     */
+    x: number;
+
+    /**
+     * Vertical position of the glyph's top side, in pixels (from the top of the page).
+     */
+    y: number;
+}
+
+/**
+ * Packs [[SdfGlyph]]s into RGBA texture atlas pages, row by row. The distances are stored in the
+ * red, green and blue channels, so the pages can be used by both SDF and MSDF font catalogs.
+ */
+export class SdfGlyphAtlas {
+    /**
+     * Pixels of each page, 4 bytes per pixel, rows from top to bottom.
+     */
+    readonly pages: Uint8Array[] = [];
+
+    private m_x: number = 0;
+    private m_y: number = 0;
+    private m_rowHeight: number = 0;
+
+    /**
+     * Creates a new `SdfGlyphAtlas`.
+     *
+     * @param width Page width, in pixels.
+     * @param height Page height, in pixels.
+     * @param spacing Empty pixels between glyphs.
+     */
+    constructor(
+        readonly width: number = 512,
+        readonly height: number = 512,
+        readonly spacing: number = 1
+    ) {}
+
+    /**
+     * Height of the rows filled in the last page, to crop it when storing it.
+     */
+    get lastPageHeight(): number {
+        return this.m_y + this.m_rowHeight;
+    }
+
+    /**
+     * Adds a glyph to the atlas, starting a new page when the current one is full.
+     *
+     * @param glyph Glyph to add.
+     *
+     * @returns Location of the glyph.
+     */
+    add(glyph: SdfGlyph): SdfGlyphLocation {
+        if (glyph.width > this.width || glyph.height > this.height) {
+            throw new Error(
+                `SdfGlyphAtlas#add: Glyph ${glyph.codePoint} (${glyph.width}x${glyph.height}) ` +
+                    `does not fit in ${this.width}x${this.height} pages`
+            );
+        }
+
+        if (this.m_x + glyph.width > this.width) {
+            this.m_x = 0;
+            this.m_y += this.m_rowHeight + this.spacing;
+            this.m_rowHeight = 0;
+        }
+        if (this.pages.length === 0 || this.m_y + glyph.height > this.height) {
+            this.pages.push(new Uint8Array(this.width * this.height * 4));
+            this.m_x = 0;
+            this.m_y = 0;
+            this.m_rowHeight = 0;
+        }
+
+        const page = this.pages[this.pages.length - 1];
+        for (let y = 0; y < glyph.height; ++y) {
+            for (let x = 0; x < glyph.width; ++x) {
+                const value = glyph.data[y * glyph.width + x];
+                const offset = ((this.m_y + y) * this.width + this.m_x + x) * 4;
+                page[offset] = value;
+                page[offset + 1] = value;
+                page[offset + 2] = value;
+                page[offset + 3] = 255;
+            }
+        }
+
+        const location = { page: this.pages.length - 1, x: this.m_x, y: this.m_y };
+        this.m_x += glyph.width + this.spacing;
+        this.m_rowHeight = Math.max(this.m_rowHeight, glyph.height);
+        return location;
+    }
+
+    /**
+     * Removes all pages.
+     */
+    clear() {
+        this.pages.length = 0;
+        this.m_x = 0;
+        this.m_y = 0;
+        this.m_rowHeight = 0;
+    }
+}
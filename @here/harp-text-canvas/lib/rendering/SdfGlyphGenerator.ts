@@ -0,0 +1,121 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SdfUtils } from "../utils/SdfUtils";
+import { FontMetrics } from "./FontCatalog";
+import { GlyphRasterizer } from "./GlyphRasterizer";
+import { FontStyle } from "./TextStyle";
+
+/**
+ * SDF bitmap of a glyph, with the same metrics as the glyphs of a BMFont [[FontCatalog]].
+ */
+export interface SdfGlyph {
+    /**
+     * Character's Unicode code point.
+     */
+    codePoint: number;
+
+    /**
+     * Bitmap width, in pixels.
+     */
+    width: number;
+
+    /**
+     * Bitmap height, in pixels.
+     */
+    height: number;
+
+    /**
+     * Amount of pixels to move after placing this glyph.
+     */
+    advanceX: number;
+
+    /**
+     * Horizontal offset from the glyph's origin.
+     */
+    offsetX: number;
+
+    /**
+     * Vertical offset from the top of the line.
+     */
+    offsetY: number;
+
+    /**
+     * Encoded distance of each pixel (`0` to `255`), rows from top to bottom.
+     */
+    data: Uint8Array;
+}
+
+/**
+ * Generates SDF glyphs from the bitmaps of a [[GlyphRasterizer]], matching the size, distance range
+ * and baseline of a [[Font]] in a [[FontCatalog]].
+ *
+ * Used by [[FontCatalog]] to render characters missing from its fonts, and to build font catalogs
+ * from font files.
+ */
+export class SdfGlyphGenerator {
+    /**
+     * Padding added around the glyph bitmaps to store the distances outside the glyphs.
+     */
+    readonly padding: number;
+
+    /**
+     * Creates a new `SdfGlyphGenerator`.
+     *
+     * @param rasterizer [[GlyphRasterizer]] providing the glyph bitmaps.
+     * @param metrics [[FontMetrics]] of the generated glyphs. Only `size`, `distanceRange` and
+     * `base` are used.
+     */
+    constructor(readonly rasterizer: GlyphRasterizer, readonly metrics: FontMetrics) {
+        this.padding = Math.ceil(metrics.distanceRange / 2);
+    }
+
+    /**
+     * Generates the SDF glyph of a character.
+     *
+     * @param codePoint Character's Unicode code point.
+     * @param fontStyle Requested [[FontStyle]], passed to the [[GlyphRasterizer]].
+     *
+     * @returns Generated glyph, or `undefined` if the rasterizer has no glyph for this character.
+     */
+    generate(codePoint: number, fontStyle?: FontStyle): SdfGlyph | undefined {
+        const glyph = this.rasterizer.rasterize(codePoint, this.metrics.size, fontStyle);
+        if (glyph === undefined) {
+            return undefined;
+        }
+
+        const padding = this.padding;
+        const width = glyph.width + padding * 2;
+        const height = glyph.height + padding * 2;
+        let data: Uint8Array;
+        if (glyph.width === 0 || glyph.height === 0) {
+            data = new Uint8Array(0);
+        } else {
+            const coverage = new Uint8Array(width * height);
+            for (let y = 0; y < glyph.height; ++y) {
+                for (let x = 0; x < glyph.width; ++x) {
+                    coverage[(y + padding) * width + x + padding] = glyph.data[y * glyph.width + x];
+                }
+            }
+            data = SdfUtils.computeDistanceField(
+                coverage,
+                width,
+                height,
+                this.metrics.distanceRange
+            );
+        }
+
+        return {
+            codePoint,
+            width: data.length > 0 ? width : 0,
+            height: data.length > 0 ? height : 0,
+            advanceX: glyph.advance,
+            offsetX: glyph.left - padding,
+            offsetY: this.metrics.base - glyph.top,
+            data
+        };
+    }
+}
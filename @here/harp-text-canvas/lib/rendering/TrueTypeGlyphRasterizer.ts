@@ -0,0 +1,610 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SdfUtils } from "../utils/SdfUtils";
+import { CffContour, CffOutlineReader } from "./CffOutlineReader";
+import { FontMetrics } from "./FontCatalog";
+import { GlyphRasterizer, RasterizedGlyph } from "./GlyphRasterizer";
+
+/**
+ * Maximum nesting of composite glyphs.
+ */
+const MAX_COMPOSITE_DEPTH = 8;
+
+/**
+ * Point of a glyph outline, in font units.
+ */
+interface OutlinePoint {
+    x: number;
+    y: number;
+    onCurve: boolean;
+}
+
+/**
+ * Two-dimensional point.
+ */
+interface Point2D {
+    x: number;
+    y: number;
+}
+
+/**
+ * Location of a table in the font file.
+ */
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+/**
+ * [[GlyphRasterizer]] reading the glyph outlines of a TrueType or OpenType font file (`.ttf` or
+ * `.otf`, with TrueType or CFF outlines) and rasterizing them in JavaScript, so it can be used in
+ * web workers and Node.js as well as in browsers.
+ *
+ * Variable fonts with CFF2 outlines are not supported. Hinting instructions and kerning are
+ * ignored.
+ */
+export class TrueTypeGlyphRasterizer implements GlyphRasterizer {
+    /**
+     * Loads a TrueType font file and creates a `TrueTypeGlyphRasterizer` for it.
+     *
+     * @param url URL of the font file.
+     *
+     * @returns `TrueTypeGlyphRasterizer` Promise.
+     */
+    static async load(url: string): Promise<TrueTypeGlyphRasterizer> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`${url} Status Text:  ${response.statusText}`);
+        }
+        return new TrueTypeGlyphRasterizer(await response.arrayBuffer());
+    }
+
+    /**
+     * Size of the em square, in font units.
+     */
+    readonly unitsPerEm: number;
+
+    /**
+     * Distance from the baseline to the top of the line, in font units.
+     */
+    readonly ascender: number;
+
+    /**
+     * Distance from the baseline to the bottom of the line, in font units (negative).
+     */
+    readonly descender: number;
+
+    /**
+     * Additional space between lines, in font units.
+     */
+    readonly lineGap: number;
+
+    /**
+     * Height of the capital letters, in font units.
+     */
+    readonly capHeight: number;
+
+    /**
+     * Height of the lowercase letters, in font units.
+     */
+    readonly xHeight: number;
+
+    private readonly m_view: DataView;
+    private readonly m_tables = new Map<string, TableRecord>();
+    private readonly m_glyphIndices = new Map<number, number>();
+    private readonly m_indexToLocFormat: number;
+    private readonly m_numGlyphs: number;
+    private readonly m_numberOfHMetrics: number;
+    private readonly m_cffOutlines?: CffOutlineReader;
+
+    /**
+     * Creates a new `TrueTypeGlyphRasterizer`.
+     *
+     * @param data Content of the font file. For font collections, the first font is used.
+     */
+    constructor(data: ArrayBuffer | Uint8Array) {
+        this.m_view =
+            data instanceof ArrayBuffer
+                ? new DataView(data)
+                : new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const view = this.m_view;
+
+        let fontOffset = 0;
+        if (this.readTag(0) === "ttcf") {
+            fontOffset = view.getUint32(12);
+        }
+        const version = this.readTag(fontOffset);
+        const numTables = view.getUint16(fontOffset + 4);
+        for (let i = 0; i < numTables; ++i) {
+            const recordOffset = fontOffset + 12 + i * 16;
+            this.m_tables.set(this.readTag(recordOffset), {
+                offset: view.getUint32(recordOffset + 8),
+                length: view.getUint32(recordOffset + 12)
+            });
+        }
+
+        const head = this.getTable("head");
+        const hhea = this.getTable("hhea");
+        const maxp = this.getTable("maxp");
+        if (version === "OTTO") {
+            this.m_cffOutlines = new CffOutlineReader(view, this.getTable("CFF ").offset);
+        } else {
+            this.getTable("glyf");
+        }
+        this.unitsPerEm = view.getUint16(head.offset + 18);
+        this.m_indexToLocFormat = view.getInt16(head.offset + 50);
+        this.ascender = view.getInt16(hhea.offset + 4);
+        this.descender = view.getInt16(hhea.offset + 6);
+        this.lineGap = view.getInt16(hhea.offset + 8);
+        this.m_numberOfHMetrics = view.getUint16(hhea.offset + 34);
+        this.m_numGlyphs = view.getUint16(maxp.offset + 4);
+
+        const os2 = this.m_tables.get("OS/2");
+        if (os2 !== undefined && view.getUint16(os2.offset) >= 2) {
+            this.xHeight = view.getInt16(os2.offset + 86);
+            this.capHeight = view.getInt16(os2.offset + 88);
+        } else {
+            this.capHeight = Math.round(this.ascender * 0.7);
+            this.xHeight = Math.round(this.ascender * 0.5);
+        }
+
+        this.parseCharacterMap();
+    }
+
+    /**
+     * Code points of all the characters with a glyph in this font, in ascending order.
+     */
+    get codePoints(): number[] {
+        return Array.from(this.m_glyphIndices.keys()).sort((a, b) => a - b);
+    }
+
+    /**
+     * Checks if the font has a glyph for a character.
+     *
+     * @param codePoint Character's Unicode code point.
+     */
+    hasGlyph(codePoint: number): boolean {
+        return this.m_glyphIndices.has(codePoint);
+    }
+
+    /**
+     * Computes the [[FontMetrics]] of this font in a font catalog.
+     *
+     * @param size Font size (em size), in pixels.
+     * @param distanceRange Range of the distances stored in the SDF glyphs, in pixels.
+     */
+    getFontMetrics(size: number, distanceRange: number): FontMetrics {
+        const scale = size / this.unitsPerEm;
+        return {
+            size,
+            distanceRange,
+            base: Math.round(this.ascender * scale) + Math.ceil(distanceRange / 2),
+            lineHeight: Math.round((this.ascender - this.descender + this.lineGap) * scale),
+            lineGap: Math.round(this.lineGap * scale),
+            capHeight: Math.round(this.capHeight * scale),
+            xHeight: Math.round(this.xHeight * scale)
+        };
+    }
+
+    rasterize(codePoint: number, size: number): RasterizedGlyph | undefined {
+        const glyphIndex = this.m_glyphIndices.get(codePoint);
+        if (glyphIndex === undefined) {
+            return undefined;
+        }
+
+        const scale = size / this.unitsPerEm;
+        const advance = this.getAdvanceWidth(glyphIndex) * scale;
+
+        // All points of the outline, including the control points, to compute the bounds.
+        const points: Point2D[] = [];
+        let cffContours: CffContour[] | undefined;
+        let contours: OutlinePoint[][] = [];
+        if (this.m_cffOutlines !== undefined) {
+            cffContours = this.m_cffOutlines.getContours(glyphIndex);
+            for (const contour of cffContours) {
+                for (const segment of contour) {
+                    points.push(...segment);
+                }
+            }
+        } else {
+            contours = this.getOutline(glyphIndex, 0);
+            for (const contour of contours) {
+                points.push(...contour);
+            }
+        }
+
+        let xMin = Infinity;
+        let yMin = Infinity;
+        let xMax = -Infinity;
+        let yMax = -Infinity;
+        for (const point of points) {
+            xMin = Math.min(xMin, point.x);
+            yMin = Math.min(yMin, point.y);
+            xMax = Math.max(xMax, point.x);
+            yMax = Math.max(yMax, point.y);
+        }
+        if (xMin >= xMax || yMin >= yMax) {
+            return { width: 0, height: 0, data: [], left: 0, top: 0, advance };
+        }
+
+        const left = Math.floor(xMin * scale);
+        const top = Math.ceil(yMax * scale);
+        const width = Math.ceil(xMax * scale) - left;
+        const height = top - Math.floor(yMin * scale);
+        const polygons =
+            cffContours !== undefined
+                ? cffContours.map(contour => flattenCubicContour(contour, scale, -left, top))
+                : contours.map(contour => flattenContour(contour, scale, -left, top));
+        const data = SdfUtils.rasterizeContours(polygons, width, height);
+        return { width, height, data, left, top, advance };
+    }
+
+    private getTable(tag: string): TableRecord {
+        const table = this.m_tables.get(tag);
+        if (table === undefined) {
+            throw new Error(`TrueTypeGlyphRasterizer: Missing '${tag}' table`);
+        }
+        return table;
+    }
+
+    private readTag(offset: number): string {
+        let tag = "";
+        for (let i = 0; i < 4; ++i) {
+            tag += String.fromCharCode(this.m_view.getUint8(offset + i));
+        }
+        return tag;
+    }
+
+    private getAdvanceWidth(glyphIndex: number): number {
+        const hmtx = this.getTable("hmtx");
+        const metricIndex = Math.min(glyphIndex, this.m_numberOfHMetrics - 1);
+        return this.m_view.getUint16(hmtx.offset + metricIndex * 4);
+    }
+
+    // Reads the Unicode character map, preferring the full repertoire subtables (format 12) to the
+    // Basic Multilingual Plane ones (format 4).
+    private parseCharacterMap() {
+        const view = this.m_view;
+        const cmap = this.getTable("cmap");
+        const numSubtables = view.getUint16(cmap.offset + 2);
+        let bmpSubtable: number | undefined;
+        let fullSubtable: number | undefined;
+        for (let i = 0; i < numSubtables; ++i) {
+            const recordOffset = cmap.offset + 4 + i * 8;
+            const platformId = view.getUint16(recordOffset);
+            const encodingId = view.getUint16(recordOffset + 2);
+            const subtableOffset = cmap.offset + view.getUint32(recordOffset + 4);
+            const isUnicode = platformId === 0 || (platformId === 3 && encodingId === 1);
+            const isFullUnicode = platformId === 0 || (platformId === 3 && encodingId === 10);
+            const format = view.getUint16(subtableOffset);
+            if (format === 12 && isFullUnicode) {
+                fullSubtable = subtableOffset;
+            } else if (format === 4 && isUnicode) {
+                bmpSubtable = subtableOffset;
+            }
+        }
+
+        if (fullSubtable !== undefined) {
+            const numGroups = view.getUint32(fullSubtable + 12);
+            for (let i = 0; i < numGroups; ++i) {
+                const groupOffset = fullSubtable + 16 + i * 12;
+                const startCode = view.getUint32(groupOffset);
+                const endCode = view.getUint32(groupOffset + 4);
+                const startGlyph = view.getUint32(groupOffset + 8);
+                for (let code = startCode; code <= endCode; ++code) {
+                    this.addGlyphIndex(code, startGlyph + code - startCode);
+                }
+            }
+        } else if (bmpSubtable !== undefined) {
+            const segCount = view.getUint16(bmpSubtable + 6) / 2;
+            const endCodes = bmpSubtable + 14;
+            const startCodes = endCodes + segCount * 2 + 2;
+            const idDeltas = startCodes + segCount * 2;
+            const idRangeOffsets = idDeltas + segCount * 2;
+            for (let i = 0; i < segCount; ++i) {
+                const startCode = view.getUint16(startCodes + i * 2);
+                const endCode = view.getUint16(endCodes + i * 2);
+                const idDelta = view.getUint16(idDeltas + i * 2);
+                const idRangeOffset = view.getUint16(idRangeOffsets + i * 2);
+                for (let code = startCode; code <= endCode && code !== 0xffff; ++code) {
+                    let glyphIndex: number;
+                    if (idRangeOffset === 0) {
+                        glyphIndex = (code + idDelta) % 65536;
+                    } else {
+                        const glyphOffset =
+                            idRangeOffsets + i * 2 + idRangeOffset + (code - startCode) * 2;
+                        glyphIndex = view.getUint16(glyphOffset);
+                        if (glyphIndex !== 0) {
+                            glyphIndex = (glyphIndex + idDelta) % 65536;
+                        }
+                    }
+                    this.addGlyphIndex(code, glyphIndex);
+                }
+            }
+        }
+    }
+
+    private addGlyphIndex(codePoint: number, glyphIndex: number) {
+        if (glyphIndex > 0 && glyphIndex < this.m_numGlyphs) {
+            this.m_glyphIndices.set(codePoint, glyphIndex);
+        }
+    }
+
+    private getGlyphLocation(glyphIndex: number): TableRecord {
+        const view = this.m_view;
+        const loca = this.getTable("loca");
+        let start: number;
+        let end: number;
+        if (this.m_indexToLocFormat === 0) {
+            start = view.getUint16(loca.offset + glyphIndex * 2) * 2;
+            end = view.getUint16(loca.offset + glyphIndex * 2 + 2) * 2;
+        } else {
+            start = view.getUint32(loca.offset + glyphIndex * 4);
+            end = view.getUint32(loca.offset + glyphIndex * 4 + 4);
+        }
+        return { offset: this.getTable("glyf").offset + start, length: end - start };
+    }
+
+    // Returns the contours of a glyph, resolving the components of composite glyphs.
+    private getOutline(glyphIndex: number, depth: number): OutlinePoint[][] {
+        const location = this.getGlyphLocation(glyphIndex);
+        if (location.length === 0 || depth > MAX_COMPOSITE_DEPTH) {
+            return [];
+        }
+        const numberOfContours = this.m_view.getInt16(location.offset);
+        return numberOfContours >= 0
+            ? this.getSimpleOutline(location.offset, numberOfContours)
+            : this.getCompositeOutline(location.offset, depth);
+    }
+
+    private getSimpleOutline(offset: number, numberOfContours: number): OutlinePoint[][] {
+        const view = this.m_view;
+        const endPoints: number[] = [];
+        let position = offset + 10;
+        for (let i = 0; i < numberOfContours; ++i) {
+            endPoints.push(view.getUint16(position));
+            position += 2;
+        }
+        const numPoints = numberOfContours > 0 ? endPoints[numberOfContours - 1] + 1 : 0;
+        position += 2 + view.getUint16(position);
+
+        // tslint:disable:no-bitwise
+        const flags: number[] = [];
+        while (flags.length < numPoints) {
+            const flag = view.getUint8(position++);
+            flags.push(flag);
+            if ((flag & 0x08) !== 0) {
+                let repeat = view.getUint8(position++);
+                while (repeat-- > 0) {
+                    flags.push(flag);
+                }
+            }
+        }
+
+        const points: OutlinePoint[] = [];
+        let x = 0;
+        for (let i = 0; i < numPoints; ++i) {
+            const flag = flags[i];
+            if ((flag & 0x02) !== 0) {
+                const delta = view.getUint8(position++);
+                x += (flag & 0x10) !== 0 ? delta : -delta;
+            } else if ((flag & 0x10) === 0) {
+                x += view.getInt16(position);
+                position += 2;
+            }
+            points.push({ x, y: 0, onCurve: (flag & 0x01) !== 0 });
+        }
+        let y = 0;
+        for (let i = 0; i < numPoints; ++i) {
+            const flag = flags[i];
+            if ((flag & 0x04) !== 0) {
+                const delta = view.getUint8(position++);
+                y += (flag & 0x20) !== 0 ? delta : -delta;
+            } else if ((flag & 0x20) === 0) {
+                y += view.getInt16(position);
+                position += 2;
+            }
+            points[i].y = y;
+        }
+        // tslint:enable:no-bitwise
+
+        const contours: OutlinePoint[][] = [];
+        let start = 0;
+        for (const end of endPoints) {
+            contours.push(points.slice(start, end + 1));
+            start = end + 1;
+        }
+        return contours;
+    }
+
+    private getCompositeOutline(offset: number, depth: number): OutlinePoint[][] {
+        const view = this.m_view;
+        const contours: OutlinePoint[][] = [];
+        let position = offset + 10;
+        let flags: number;
+        // tslint:disable:no-bitwise
+        do {
+            flags = view.getUint16(position);
+            const componentIndex = view.getUint16(position + 2);
+            position += 4;
+
+            let dx = 0;
+            let dy = 0;
+            if ((flags & 0x0001) !== 0) {
+                dx = view.getInt16(position);
+                dy = view.getInt16(position + 2);
+                position += 4;
+            } else {
+                dx = view.getInt8(position);
+                dy = view.getInt8(position + 1);
+                position += 2;
+            }
+            // Components positioned by matching points are placed at the origin.
+            if ((flags & 0x0002) === 0) {
+                dx = 0;
+                dy = 0;
+            }
+
+            let a = 1;
+            let b = 0;
+            let c = 0;
+            let d = 1;
+            if ((flags & 0x0008) !== 0) {
+                a = d = view.getInt16(position) / 16384;
+                position += 2;
+            } else if ((flags & 0x0040) !== 0) {
+                a = view.getInt16(position) / 16384;
+                d = view.getInt16(position + 2) / 16384;
+                position += 4;
+            } else if ((flags & 0x0080) !== 0) {
+                a = view.getInt16(position) / 16384;
+                b = view.getInt16(position + 2) / 16384;
+                c = view.getInt16(position + 4) / 16384;
+                d = view.getInt16(position + 6) / 16384;
+                position += 8;
+            }
+
+            for (const contour of this.getOutline(componentIndex, depth + 1)) {
+                contours.push(
+                    contour.map(point => ({
+                        x: a * point.x + c * point.y + dx,
+                        y: b * point.x + d * point.y + dy,
+                        onCurve: point.onCurve
+                    }))
+                );
+            }
+        } while ((flags & 0x0020) !== 0);
+        // tslint:enable:no-bitwise
+        return contours;
+    }
+}
+
+/**
+ * Converts a contour made of lines and quadratic Bézier curves to a polygon in pixel coordinates,
+ * with y pointing down.
+ */
+function flattenContour(
+    contour: OutlinePoint[],
+    scale: number,
+    offsetX: number,
+    offsetY: number
+): number[] {
+    const polygon: number[] = [];
+    if (contour.length === 0) {
+        return polygon;
+    }
+    const toPixels = (point: Point2D): Point2D => ({
+        x: point.x * scale + offsetX,
+        y: offsetY - point.y * scale
+    });
+    const midpoint = (p0: Point2D, p1: Point2D): Point2D => ({
+        x: (p0.x + p1.x) / 2,
+        y: (p0.y + p1.y) / 2
+    });
+
+    // Start on an on-curve point, or between two off-curve points if there is none.
+    let startIndex = contour.findIndex(point => point.onCurve);
+    let start: Point2D;
+    if (startIndex === -1) {
+        startIndex = 0;
+        start = toPixels(midpoint(contour[contour.length - 1], contour[0]));
+    } else {
+        start = toPixels(contour[startIndex]);
+    }
+    polygon.push(start.x, start.y);
+
+    let current = start;
+    let control: Point2D | undefined = contour[startIndex].onCurve
+        ? undefined
+        : toPixels(contour[startIndex]);
+    const addCurve = (p0: Point2D, p1: Point2D, p2: Point2D) => {
+        const length = Math.hypot(p1.x - p0.x, p1.y - p0.y) + Math.hypot(p2.x - p1.x, p2.y - p1.y);
+        const segments = Math.min(16, Math.max(1, Math.ceil(length / 2)));
+        for (let i = 1; i <= segments; ++i) {
+            const t = i / segments;
+            const u = 1 - t;
+            polygon.push(
+                u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+                u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y
+            );
+        }
+    };
+
+    for (let i = 1; i < contour.length; ++i) {
+        const point = contour[(startIndex + i) % contour.length];
+        const pixel = toPixels(point);
+        if (point.onCurve) {
+            if (control !== undefined) {
+                addCurve(current, control, pixel);
+            } else {
+                polygon.push(pixel.x, pixel.y);
+            }
+            control = undefined;
+            current = pixel;
+        } else if (control !== undefined) {
+            const middle = midpoint(control, pixel);
+            addCurve(current, control, middle);
+            current = middle;
+            control = pixel;
+        } else {
+            control = pixel;
+        }
+    }
+    if (control !== undefined) {
+        addCurve(current, control, start);
+    }
+    return polygon;
+}
+
+/**
+ * Converts a contour made of lines and cubic Bézier curves to a polygon in pixel coordinates,
+ * with y pointing down.
+ */
+function flattenCubicContour(
+    contour: CffContour,
+    scale: number,
+    offsetX: number,
+    offsetY: number
+): number[] {
+    const polygon: number[] = [];
+    const toPixels = (point: Point2D): Point2D => ({
+        x: point.x * scale + offsetX,
+        y: offsetY - point.y * scale
+    });
+
+    let current = toPixels(contour[0][0]);
+    polygon.push(current.x, current.y);
+    for (let i = 1; i < contour.length; ++i) {
+        const [p1, p2, p3] = contour[i].map(toPixels);
+        if (p3 === undefined) {
+            polygon.push(p1.x, p1.y);
+            current = p1;
+            continue;
+        }
+        const length =
+            Math.hypot(p1.x - current.x, p1.y - current.y) +
+            Math.hypot(p2.x - p1.x, p2.y - p1.y) +
+            Math.hypot(p3.x - p2.x, p3.y - p2.y);
+        const segments = Math.min(16, Math.max(1, Math.ceil(length / 2)));
+        for (let j = 1; j <= segments; ++j) {
+            const t = j / segments;
+            const u = 1 - t;
+            polygon.push(
+                u * u * u * current.x +
+                    3 * u * u * t * p1.x +
+                    3 * u * t * t * p2.x +
+                    t * t * t * p3.x,
+                u * u * u * current.y +
+                    3 * u * u * t * p1.y +
+                    3 * u * t * t * p2.y +
+                    t * t * t * p3.y
+            );
+        }
+        current = p3;
+    }
+    return polygon;
+}
@@ -0,0 +1,259 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ContextualArabicConverter } from "../utils/ContextualArabicConverter";
+import { TextShaper } from "./TextShaper";
+
+/**
+ * Ranges of code points of the scripts shaped by [[DefaultTextShaper]], other texts are returned
+ * unchanged.
+ */
+const complexScriptRanges = [
+    [0x0600, 0x08ff], // Arabic
+    [0x0900, 0x0dff], // Indic scripts
+    [0x0e00, 0x0eff], // Thai and Lao
+    [0x1000, 0x109f], // Myanmar
+    [0x1780, 0x17ff] // Khmer
+];
+
+/**
+ * Ranges of consonants of the Indic, Myanmar and Khmer scripts.
+ */
+const consonantRanges = [
+    [0x0915, 0x0939],
+    [0x0958, 0x095f],
+    [0x0978, 0x097f],
+    [0x0995, 0x09b9],
+    [0x09dc, 0x09df],
+    [0x09f0, 0x09f1],
+    [0x0a15, 0x0a39],
+    [0x0a59, 0x0a5e],
+    [0x0a95, 0x0ab9],
+    [0x0b15, 0x0b39],
+    [0x0b5c, 0x0b5f],
+    [0x0b71, 0x0b71],
+    [0x0b95, 0x0bb9],
+    [0x0c15, 0x0c39],
+    [0x0c95, 0x0cb9],
+    [0x0d15, 0x0d3a],
+    [0x0d9a, 0x0dc6],
+    [0x1000, 0x1021],
+    [0x1780, 0x17a2]
+];
+
+/**
+ * Viramas (and the Myanmar and Khmer subscript signs), joining two consonants into a conjunct.
+ */
+const viramas = new Set([
+    0x094d,
+    0x09cd,
+    0x0a4d,
+    0x0acd,
+    0x0b4d,
+    0x0bcd,
+    0x0c4d,
+    0x0ccd,
+    0x0d4d,
+    0x0dca,
+    0x1039,
+    0x17d2
+]);
+
+/**
+ * Consonants forming a reph when followed by a virama at the start of a syllable.
+ */
+const rephConsonants = new Set([0x0930, 0x09b0, 0x0a30, 0x0ab0, 0x0b30, 0x0c30, 0x0cb0]);
+
+/**
+ * Signs which can follow a consonant before its vowel sign: nuktas, zero width (non-)joiners and
+ * the Myanmar medials.
+ */
+const consonantModifiers = new Set([
+    0x093c,
+    0x09bc,
+    0x0a3c,
+    0x0abc,
+    0x0b3c,
+    0x0cbc,
+    0x103b,
+    0x103c,
+    0x103d,
+    0x103e,
+    0x200c,
+    0x200d
+]);
+
+/**
+ * Vowel signs written after the consonant cluster they belong to, but displayed before it.
+ */
+const preBaseVowelSigns = new Set([
+    0x093f,
+    0x094e,
+    0x09bf,
+    0x09c7,
+    0x09c8,
+    0x0a3f,
+    0x0abf,
+    0x0b47,
+    0x0bc6,
+    0x0bc7,
+    0x0bc8,
+    0x0d46,
+    0x0d47,
+    0x0d48,
+    0x0dd9,
+    0x0ddb,
+    0x1031,
+    0x17c1,
+    0x17c2,
+    0x17c3
+]);
+
+/**
+ * Vowel signs made of several parts displayed around the consonant cluster, and their parts.
+ */
+const splitVowelSigns = new Map<number, number[]>([
+    [0x09cb, [0x09c7, 0x09be]],
+    [0x09cc, [0x09c7, 0x09d7]],
+    [0x0b48, [0x0b47, 0x0b56]],
+    [0x0b4b, [0x0b47, 0x0b3e]],
+    [0x0b4c, [0x0b47, 0x0b57]],
+    [0x0bca, [0x0bc6, 0x0bbe]],
+    [0x0bcb, [0x0bc7, 0x0bbe]],
+    [0x0bcc, [0x0bc6, 0x0bd7]],
+    [0x0d4a, [0x0d46, 0x0d3e]],
+    [0x0d4b, [0x0d47, 0x0d3e]],
+    [0x0d4c, [0x0d46, 0x0d57]],
+    [0x0dda, [0x0dd9, 0x0dca]],
+    [0x0ddc, [0x0dd9, 0x0dcf]],
+    [0x0ddd, [0x0dd9, 0x0dcf, 0x0dca]],
+    [0x0dde, [0x0dd9, 0x0ddf]]
+]);
+
+/**
+ * Thai and Lao SARA AM, decomposed into NIKHAHIT and SARA AA, and the tone marks NIKHAHIT is
+ * displayed under.
+ */
+const saraAm = new Map<number, { nikhahit: number; saraAa: number; toneMarks: number[] }>([
+    [0x0e33, { nikhahit: 0x0e4d, saraAa: 0x0e32, toneMarks: [0x0e48, 0x0e4b] }],
+    [0x0eb3, { nikhahit: 0x0ecd, saraAa: 0x0eb2, toneMarks: [0x0ec8, 0x0ecb] }]
+]);
+
+function inRanges(codePoint: number, ranges: number[][]): boolean {
+    for (const range of ranges) {
+        if (codePoint >= range[0] && codePoint <= range[1]) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function isConsonant(codePoint: number): boolean {
+    return inRanges(codePoint, consonantRanges);
+}
+
+/**
+ * [[TextShaper]] implemented in JavaScript, applying the shaping rules of complex scripts which can
+ * be expressed with the code points of the glyphs in a [[FontCatalog]]:
+ * - Arabic contextual forms and ligatures, see [[ContextualArabicConverter]].
+ * - Reordering of the pre-base vowel signs of Indic scripts (Devanagari, Bengali, Gurmukhi,
+ * Gujarati, Oriya, Tamil, Malayalam, Sinhala), Myanmar and Khmer before their consonant cluster.
+ * - Decomposition of the two-part vowel signs of these scripts.
+ * - Decomposition of the Thai and Lao SARA AM.
+ *
+ * Conjuncts, half forms and other ligatures which need the substitution tables of a font are not
+ * formed, they require a shaper with access to the font files.
+ */
+export class DefaultTextShaper implements TextShaper {
+    shape(text: string): string {
+        let isComplex = false;
+        for (const character of text) {
+            if (inRanges(character.codePointAt(0)!, complexScriptRanges)) {
+                isComplex = true;
+                break;
+            }
+        }
+        if (!isComplex) {
+            return text;
+        }
+
+        const codePoints: number[] = [];
+        for (const character of ContextualArabicConverter.instance.convert(text)) {
+            const codePoint = character.codePointAt(0)!;
+            const parts = splitVowelSigns.get(codePoint);
+            if (parts !== undefined) {
+                codePoints.push(...parts);
+            } else {
+                codePoints.push(codePoint);
+            }
+        }
+
+        for (let i = 0; i < codePoints.length; ++i) {
+            const codePoint = codePoints[i];
+            if (preBaseVowelSigns.has(codePoint)) {
+                const clusterStart = this.findClusterStart(codePoints, i);
+                if (clusterStart !== i) {
+                    codePoints.splice(i, 1);
+                    codePoints.splice(clusterStart, 0, codePoint);
+                }
+                continue;
+            }
+
+            const am = saraAm.get(codePoint);
+            if (am !== undefined) {
+                let nikhahitIndex = i;
+                while (
+                    nikhahitIndex > 0 &&
+                    codePoints[nikhahitIndex - 1] >= am.toneMarks[0] &&
+                    codePoints[nikhahitIndex - 1] <= am.toneMarks[1]
+                ) {
+                    --nikhahitIndex;
+                }
+                codePoints[i] = am.saraAa;
+                codePoints.splice(nikhahitIndex, 0, am.nikhahit);
+                ++i;
+            }
+        }
+
+        return String.fromCodePoint(...codePoints);
+    }
+
+    // Returns the index of the first consonant of the cluster preceding a vowel sign, or the index
+    // of the vowel sign if it does not follow a consonant.
+    private findClusterStart(codePoints: number[], vowelIndex: number): number {
+        let index = vowelIndex - 1;
+        while (index >= 0 && consonantModifiers.has(codePoints[index])) {
+            --index;
+        }
+        if (index < 0 || !isConsonant(codePoints[index])) {
+            return vowelIndex;
+        }
+
+        // Include the consonants joined by viramas.
+        for (;;) {
+            let previous = index - 1;
+            if (previous < 1 || !viramas.has(codePoints[previous])) {
+                break;
+            }
+            --previous;
+            while (previous >= 0 && consonantModifiers.has(codePoints[previous])) {
+                --previous;
+            }
+            if (previous < 0 || !isConsonant(codePoints[previous])) {
+                break;
+            }
+            // A leading RA with virama forms a reph, which stays before the vowel sign.
+            const isReph =
+                rephConsonants.has(codePoints[previous]) &&
+                (previous === 0 || !viramas.has(codePoints[previous - 1]));
+            if (isReph) {
+                break;
+            }
+            index = previous;
+        }
+        return index;
+    }
+}
@@ -0,0 +1,27 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Interface of the text shapers used by [[TextCanvas]] to apply the shaping rules of complex
+ * scripts (contextual forms, ligatures, reordering of vowel signs, ...) before the glyphs of a
+ * text are retrieved from the [[FontCatalog]].
+ *
+ * As glyphs in a [[FontCatalog]] are indexed by code point, a shaper outputs the code points of
+ * the glyphs to be rendered, for example presentation forms. The output is still in logical
+ * order, the bidirectional reordering is applied by the typesetters afterwards.
+ *
+ * Shapers backed by a WebAssembly shaping engine can be used by implementing this interface.
+ */
+export interface TextShaper {
+    /**
+     * Shapes a text.
+     *
+     * @param text Text in logical order.
+     *
+     * @returns Text containing the code points of the glyphs to render, in logical order.
+     */
+    shape(text: string): string;
+}
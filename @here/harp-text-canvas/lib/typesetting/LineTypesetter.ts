@@ -9,6 +9,7 @@ import * as THREE from "three";
 import { QUAD_VERTEX_MEMORY_FOOTPRINT } from "../rendering/TextGeometry";
 import { FontStyle, FontVariant, WrappingMode } from "../rendering/TextStyle";
 import { TypesettingUtils } from "../utils/TypesettingUtils";
+import { UnicodeBidi } from "../utils/UnicodeBidi";
 import { UnicodeUtils } from "../utils/UnicodeUtils";
 import { Typesetter, TypesettingParameters } from "./Typesetter";
 
@@ -19,8 +20,7 @@ import { Typesetter, TypesettingParameters } from "./Typesetter";
 export class LineTypesetter implements Typesetter {
     private m_tempTransform: THREE.Matrix3;
     private m_tempCorners: THREE.Vector3[];
-    private m_tempLineDirection: UnicodeUtils.Direction;
-    private m_tempRunDirection: UnicodeUtils.Direction;
+    private m_tempLevels: number[];
     private m_tempPixelSize: number;
     private m_tempPixelBgSize: number;
     private m_tempScale: number;
@@ -41,8 +41,7 @@ export class LineTypesetter implements Typesetter {
             new THREE.Vector3(),
             new THREE.Vector3()
         ];
-        this.m_tempLineDirection = UnicodeUtils.Direction.LTR;
-        this.m_tempRunDirection = UnicodeUtils.Direction.LTR;
+        this.m_tempLevels = [];
         this.m_tempPixelSize = 1.0;
         this.m_tempPixelBgSize = 1.0;
         this.m_tempScale = 1.0;
@@ -51,8 +50,8 @@ export class LineTypesetter implements Typesetter {
 
     /**
      * Arranges the specified glyphs using this `LineTypesetter`. Text will be placed into multiple
-     * bidirectional lines, that will be generated taking into account [[textLayoutStyle]] features,
-     * such as:
+     * bidirectional lines, ordered following the Unicode Bidirectional Algorithm, that will be
+     * generated taking into account [[textLayoutStyle]] features, such as:
      * - Maximum line width.
      * - Word and character wrapping.
      * - Maximum number of lines.
@@ -66,8 +65,9 @@ export class LineTypesetter implements Typesetter {
     arrangeGlyphs(params: TypesettingParameters): boolean {
         // Initializes common typesetting parameters (used across all functions in this class).
         this.m_currentParams = params;
-        this.m_tempLineDirection = TypesettingUtils.getDirection(this.m_currentParams.glyphs, 0);
-        this.m_tempRunDirection = this.m_tempLineDirection;
+        this.m_tempLevels = UnicodeBidi.resolveLevels(
+            this.m_currentParams.glyphs.map(glyph => glyph.codePoint)
+        );
         this.m_tempPixelSize = TypesettingUtils.getPixelSize(
             this.m_currentParams.textRenderStyle.fontSize.size,
             this.m_currentParams.textRenderStyle.fontSize.unit,
@@ -109,7 +109,6 @@ export class LineTypesetter implements Typesetter {
         let wordWrapX = 0;
 
         let lineCount = 0;
-        let isBidirectionalLine = false;
         for (let i = 0; i < this.m_currentParams.glyphs.length; ++i) {
             if (lineCount > this.m_currentParams.textLayoutStyle.maxLines - 1) {
                 break;
@@ -122,10 +121,6 @@ export class LineTypesetter implements Typesetter {
             const isNewLine = UnicodeUtils.isNewLine(glyphData.codePoint);
             const isWhiteSpace = UnicodeUtils.isWhiteSpace(glyphData.codePoint);
 
-            // Check if this line should be treated as bidirectional.
-            if (!isBidirectionalLine && glyphData.direction === -this.m_tempLineDirection) {
-                isBidirectionalLine = true;
-            }
             // Advance the line's current X offset (only for printable characters).
             if (UnicodeUtils.isPrintable(glyphData.codePoint)) {
                 lineCurrX +=
@@ -176,15 +171,10 @@ export class LineTypesetter implements Typesetter {
 
                 // Calculate the correct starting position for the line base on alignment, and place
                 // all glyphs in it.
-                const lineAlignment =
-                    this.m_tempLineDirection === UnicodeUtils.Direction.RTL && isBidirectionalLine
-                        ? 1.0 + this.m_currentParams.textLayoutStyle.horizontalAlignment
-                        : this.m_currentParams.textLayoutStyle.horizontalAlignment;
                 this.m_currentParams.position.x =
-                    this.m_currentParams.position.x + lineCurrX * lineAlignment;
-                if (
-                    !this.placeLine(lineStartIdx, i, this.m_tempLineDirection, isBidirectionalLine)
-                ) {
+                    this.m_currentParams.position.x +
+                    lineCurrX * this.m_currentParams.textLayoutStyle.horizontalAlignment;
+                if (!this.placeLine(lineStartIdx, i)) {
                     return false;
                 }
 
@@ -205,17 +195,6 @@ export class LineTypesetter implements Typesetter {
                     break;
                 }
 
-                // Only reset the line's direction when a new line character is found (to keep
-                // correct bidirectional behaviour when a bidirectional run is placed between
-                // multiple lines).
-                if (isNewLine) {
-                    this.m_tempLineDirection = TypesettingUtils.getDirection(
-                        this.m_currentParams.glyphs,
-                        lineStartIdx
-                    );
-                    this.m_tempRunDirection = this.m_tempLineDirection;
-                }
-
                 // Reset the line placement parameters.
                 lineStartX = 0;
                 lineCurrX = 0;
@@ -223,7 +202,6 @@ export class LineTypesetter implements Typesetter {
                 glyphWrapX = 0;
                 wordWrapIdx = lineStartIdx;
                 wordWrapX = 0;
-                isBidirectionalLine = false;
                 lineCount++;
             }
             // If not, should if we should record any new wrapping points.
@@ -254,138 +232,21 @@ export class LineTypesetter implements Typesetter {
             lineCount <= this.m_currentParams.textLayoutStyle.maxLines - 1 &&
             lineStartIdx <= this.m_currentParams.glyphs.length - 1
         ) {
-            const offset =
-                this.m_tempLineDirection === UnicodeUtils.Direction.RTL && isBidirectionalLine
-                    ? 1.0 + this.m_currentParams.textLayoutStyle.horizontalAlignment
-                    : this.m_currentParams.textLayoutStyle.horizontalAlignment;
             this.m_currentParams.position.setX(
-                this.m_currentParams.position.x + lineCurrX * offset
+                this.m_currentParams.position.x +
+                    lineCurrX * this.m_currentParams.textLayoutStyle.horizontalAlignment
             );
-            if (
-                !this.placeLine(
-                    lineStartIdx,
-                    this.m_currentParams.glyphs.length - 1,
-                    this.m_tempLineDirection,
-                    isBidirectionalLine
-                )
-            ) {
-                return false;
-            }
-        }
-
-        return true;
-    }
-
-    // Place characters alongside a line. Text direction is taken into account, and text is broken
-    // into directional runs.
-    private placeLine(
-        startIdx: number,
-        endIdx: number,
-        direction: UnicodeUtils.Direction,
-        isBidirectional: boolean
-    ): boolean {
-        // If the line is not bidirectional, place it as a single directional run.
-        if (!isBidirectional) {
-            return this.placeRun(startIdx, endIdx, direction);
-        }
-
-        // Gather common typesetting parameters.
-        const glyphDataArray = this.m_currentParams!.glyphs;
-        const smallCapsArray = this.m_currentParams!.smallCapsArray;
-        const textRenderStyle = this.m_currentParams!.textRenderStyle;
-        const textLayoutStyle = this.m_currentParams!.textLayoutStyle;
-        const position = this.m_currentParams!.position;
-
-        // Initialize line placement parameters.
-        const isRTL = direction === UnicodeUtils.Direction.RTL;
-        const origin = position.x;
-        let offset = 0;
-        let runStart = startIdx;
-
-        for (let i = startIdx; i <= endIdx; ++i) {
-            const glyphData = glyphDataArray[i];
-
-            // If the current glyph changes the line direction, place the current run.
-            if (glyphData.direction === -this.m_tempRunDirection) {
-                if (isRTL) {
-                    position.x = origin + offset;
-                }
-                if (!this.placeRun(runStart, i - 1, this.m_tempRunDirection)) {
-                    return false;
-                }
-                if (!isRTL) {
-                    position.x = origin + offset;
-                }
-
-                runStart = i;
-                this.m_tempRunDirection *= -1.0;
-            }
-            // If the current glyph has neutral direction (i.e. white space) and we're in the middle
-            // of a run with direction opposite to the line's main direction, check for the closest
-            // strong direction in the run.
-            else if (
-                glyphData.direction === UnicodeUtils.Direction.Neutral &&
-                this.m_tempRunDirection === -direction
-            ) {
-                let neutralIdx = i;
-                while (
-                    neutralIdx + 1 < glyphDataArray.length &&
-                    Math.abs(glyphDataArray[neutralIdx].direction) !== 1
-                ) {
-                    ++neutralIdx;
-                }
-
-                // If the closest strong direction in the run is not the current run's direction,
-                // place the current run.
-                if (glyphDataArray[neutralIdx].direction !== this.m_tempRunDirection) {
-                    if (isRTL) {
-                        position.x = origin + offset;
-                    }
-                    if (!this.placeRun(runStart, i - 1, this.m_tempRunDirection)) {
-                        return false;
-                    }
-                    if (!isRTL) {
-                        position.x = origin + offset;
-                    }
-
-                    runStart = i;
-                    this.m_tempRunDirection *= -1.0;
-                }
-            }
-
-            // Advance the offset position in the line.
-            offset +=
-                (glyphData.advanceX + textLayoutStyle.tracking) *
-                this.m_tempScale *
-                (this.m_tempSmallCaps
-                    ? TypesettingUtils.getSmallCapsScale(
-                          glyphDataArray,
-                          smallCapsArray!,
-                          i,
-                          textRenderStyle.fontVariant
-                      )
-                    : 1.0) *
-                direction;
-        }
-
-        // If we still haven't placed all characters in the line, place a final run.
-        if (runStart <= endIdx) {
-            if (isRTL) {
-                position.x = origin + offset;
-            }
-            if (!this.placeRun(runStart, endIdx, this.m_tempRunDirection)) {
+            if (!this.placeLine(lineStartIdx, this.m_currentParams.glyphs.length - 1)) {
                 return false;
             }
-            if (!isRTL) {
-                position.x = origin + offset;
-            }
         }
 
         return true;
     }
 
-    // Place a directional run of index inside a line.
-    private placeRun(startIdx: number, endIdx: number, direction: UnicodeUtils.Direction): boolean {
+    // Place characters alongside a line, from left to right in the visual order given by their
+    // bidirectional embedding levels.
+    private placeLine(startIdx: number, endIdx: number): boolean {
         // Gather common typesetting parameters.
         const glyphDataArray = this.m_currentParams!.glyphs;
         const smallCapsArray = this.m_currentParams!.smallCapsArray;
@@ -398,48 +259,14 @@ export class LineTypesetter implements Typesetter {
         const individualBounds = this.m_currentParams!.individualBounds;
         const vertexBuffer = this.m_currentParams!.vertexBuffer;
 
-        // Move through the glyph array following the run's direction (as the order of the glyphs in
-        // memory might not match the order on glyphs on scree).
-        const start = direction === UnicodeUtils.Direction.LTR ? startIdx : endIdx;
-        const end = direction === UnicodeUtils.Direction.LTR ? endIdx : startIdx;
-        for (
-            let i = start;
-            direction === UnicodeUtils.Direction.RTL ? i >= end : i <= end;
-            i += direction
-        ) {
+        // The order of the glyphs in memory might not match the order of the glyphs on screen.
+        for (const i of UnicodeBidi.reorderLine(this.m_tempLevels, startIdx, endIdx)) {
             // Only process printable characters.
             const glyphData = glyphDataArray[i];
             if (!UnicodeUtils.isPrintable(glyphData.codePoint)) {
                 continue;
             }
 
-            // When placing a RTL run, we need to check for weak runs (numerical runs of characters
-            // that don't change the overall run direction, but should always be displayed as LTR
-            // text).
-            if (
-                startIdx !== endIdx &&
-                i !== 0 &&
-                direction === UnicodeUtils.Direction.RTL &&
-                glyphData.direction === UnicodeUtils.Direction.Weak
-            ) {
-                let weakRunStart = i;
-                let weakGlyph = glyphDataArray[weakRunStart - 1];
-                while (
-                    weakRunStart !== startIdx &&
-                    (weakGlyph.direction === UnicodeUtils.Direction.Weak ||
-                        (weakGlyph.direction === UnicodeUtils.Direction.Neutral &&
-                            !UnicodeUtils.isWhiteSpace(weakGlyph.codePoint)))
-                ) {
-                    --weakRunStart;
-                    weakGlyph = glyphDataArray[weakRunStart - 1];
-                }
-
-                this.placeRun(Math.max(weakRunStart, startIdx), i, UnicodeUtils.Direction.LTR);
-
-                i = weakRunStart;
-                continue;
-            }
-
             // Compute various rendering parameters for this glyph.
             const glyphFont = glyphData.font;
             const glyphFontMetrics = glyphFont.metrics;
@@ -471,8 +298,7 @@ export class LineTypesetter implements Typesetter {
                 (0.5 * this.m_tempPixelBgSize!) /
                 (fontCatalog.distanceRange * Math.max(glyphScale, 1.0));
             const isMirrored =
-                UnicodeUtils.isRtlMirrored(glyphData.codePoint) &&
-                direction === UnicodeUtils.Direction.RTL;
+                UnicodeUtils.isRtlMirrored(glyphData.codePoint) && this.m_tempLevels[i] % 2 === 1;
             const verticalOffset =
                 glyphFontMetrics.lineHeight -
                 glyphFontMetrics.base -
@@ -9,6 +9,7 @@ import * as THREE from "three";
 import { QUAD_VERTEX_MEMORY_FOOTPRINT } from "../rendering/TextGeometry";
 import { FontStyle, FontVariant } from "../rendering/TextStyle";
 import { TypesettingUtils } from "../utils/TypesettingUtils";
+import { UnicodeBidi } from "../utils/UnicodeBidi";
 import { UnicodeUtils } from "../utils/UnicodeUtils";
 import { Typesetter, TypesettingParameters } from "./Typesetter";
 
@@ -26,6 +27,12 @@ export interface PathTypesettingParameters extends TypesettingParameters {
      * If `true`, text on a path will be placed even when its size its bigger than the path's size.
      */
     pathOverflow: boolean;
+
+    /**
+     * Maximum angle (radians) between the baselines of two consecutive glyphs. If the path bends
+     * more than this between two glyphs, the text is not placed.
+     */
+    maxAngleBetweenGlyphs?: number;
 }
 
 /**
@@ -35,8 +42,7 @@ export interface PathTypesettingParameters extends TypesettingParameters {
 export class PathTypesetter implements Typesetter {
     private m_tempTransform: THREE.Matrix3;
     private m_tempCorners: THREE.Vector3[];
-    private m_tempLineDirection: UnicodeUtils.Direction;
-    private m_tempRunDirection: UnicodeUtils.Direction;
+    private m_tempLevels: number[];
     private m_tempPixelSize: number;
     private m_tempPixelBgSize: number;
     private m_tempScale: number;
@@ -61,8 +67,7 @@ export class PathTypesetter implements Typesetter {
             new THREE.Vector3(),
             new THREE.Vector3()
         ];
-        this.m_tempLineDirection = UnicodeUtils.Direction.LTR;
-        this.m_tempRunDirection = UnicodeUtils.Direction.LTR;
+        this.m_tempLevels = [];
         this.m_tempPixelSize = 1.0;
         this.m_tempPixelBgSize = 1.0;
         this.m_tempScale = 1.0;
@@ -75,7 +80,8 @@ export class PathTypesetter implements Typesetter {
 
     /**
      * Arranges the specified glyphs using this `PathTypesetter`. Text will be placed into a single
-     * bidirectional line that follows the specified path. Characters will be orientated and placed
+     * bidirectional line that follows the specified path, ordered following the Unicode
+     * Bidirectional Algorithm. Characters will be orientated and placed
      * alongside this path following [[TextLayout]]'s [[VerticalAlignment]] and
      * [[HorizontalAlignment]].
      *
@@ -86,8 +92,9 @@ export class PathTypesetter implements Typesetter {
     arrangeGlyphs(params: PathTypesettingParameters): boolean {
         // Initializes common typesetting parameters (used across all functions in this class).
         this.m_currentParams = params;
-        this.m_tempLineDirection = TypesettingUtils.getDirection(this.m_currentParams.glyphs, 0);
-        this.m_tempRunDirection = this.m_tempLineDirection;
+        this.m_tempLevels = UnicodeBidi.resolveLevels(
+            this.m_currentParams.glyphs.map(glyph => glyph.codePoint)
+        );
         this.m_tempPixelSize = TypesettingUtils.getPixelSize(
             this.m_currentParams.textRenderStyle.fontSize.size,
             this.m_currentParams.textRenderStyle.fontSize.unit,
@@ -114,7 +121,6 @@ export class PathTypesetter implements Typesetter {
         // To be able to properly set the horizontal alignment on a path, we need to first retrieve
         // how much of the path the input text covers, so we can calculate the correct initial
         // offset.
-        let isBidirectional = false;
         let pathWidth = 0.0;
         for (let i = 0; i < this.m_currentParams.glyphs.length; ++i) {
             const glyphData = this.m_currentParams.glyphs[i];
@@ -125,9 +131,6 @@ export class PathTypesetter implements Typesetter {
             if (!UnicodeUtils.isPrintable(glyphData.codePoint)) {
                 continue;
             }
-            if (!isBidirectional && glyphData.direction === -this.m_tempLineDirection) {
-                isBidirectional = true;
-            }
 
             pathWidth +=
                 (glyphData.advanceX + this.m_currentParams.textLayoutStyle.tracking) *
@@ -152,74 +155,12 @@ export class PathTypesetter implements Typesetter {
         );
 
         // Place the input text as a single path line.
-        return this.placeLine(this.m_tempLineDirection, isBidirectional);
+        return this.placeLine();
     }
 
-    // Place characters alongside a path line. Text direction is taken into account, and text is
-    // broken into directional runs.
-    private placeLine(direction: UnicodeUtils.Direction, isBidirectional: boolean): boolean {
-        // If the line is not bidirectional, place it as a single directional run.
-        if (!isBidirectional) {
-            return this.placeRun(0, this.m_currentParams!.glyphs.length - 1, direction);
-        }
-
-        // Gather common typesetting parameters.
-        const glyphDataArray = this.m_currentParams!.glyphs;
-
-        // Initialize line placement parameters.
-        let runStart = 0;
-        for (let i = runStart; i < glyphDataArray.length; ++i) {
-            const glyphData = glyphDataArray[i];
-
-            // If the current glyph changes the line direction, place the current run.
-            if (glyphData.direction === -this.m_tempRunDirection) {
-                if (!this.placeRun(runStart, i - 1, this.m_tempRunDirection)) {
-                    return false;
-                }
-
-                runStart = i;
-                this.m_tempRunDirection *= -1.0;
-            }
-            // If the current glyph has neutral direction (i.e. white space) and we're in the middle
-            // of a run with direction opposite to the line's main direction, check for the closest
-            // strong direction in the run.
-            else if (
-                glyphData.direction === UnicodeUtils.Direction.Neutral &&
-                this.m_tempRunDirection === -direction
-            ) {
-                let neutralIdx = i;
-                while (
-                    neutralIdx + 1 < glyphDataArray.length &&
-                    Math.abs(glyphDataArray[neutralIdx].direction) !== 1
-                ) {
-                    ++neutralIdx;
-                }
-
-                // If the closest strong direction in the run is not the current run's direction,
-                // place the current run.
-                if (glyphDataArray[neutralIdx].direction !== this.m_tempRunDirection) {
-                    if (!this.placeRun(runStart, i - 1, this.m_tempRunDirection)) {
-                        return false;
-                    }
-
-                    runStart = i;
-                    this.m_tempRunDirection *= -1.0;
-                }
-            }
-        }
-
-        // If we still haven't placed all characters in the line, place a final run.
-        if (runStart < glyphDataArray.length) {
-            if (!this.placeRun(runStart, glyphDataArray.length - 1, this.m_tempRunDirection)) {
-                return false;
-            }
-        }
-
-        return true;
-    }
-
-    // Place a directional run of index inside a path line.
-    private placeRun(startIdx: number, endIdx: number, direction: UnicodeUtils.Direction): boolean {
+    // Place characters alongside a path line, in the visual order given by their bidirectional
+    // embedding levels.
+    private placeLine(): boolean {
         // Gather common typesetting parameters.
         const glyphDataArray = this.m_currentParams!.glyphs;
         const smallCapsArray = this.m_currentParams!.smallCapsArray;
@@ -233,54 +174,23 @@ export class PathTypesetter implements Typesetter {
         const vertexBuffer = this.m_currentParams!.vertexBuffer;
         const path = this.m_currentParams!.path;
 
+        const maxAngleBetweenGlyphs = this.m_currentParams!.maxAngleBetweenGlyphs;
+
         const defaultGlyphRotation = textRenderStyle.rotation;
         const normalDisplacement =
             textLayoutStyle.verticalAlignment *
             glyphDataArray[0].font.metrics.capHeight *
             this.m_tempScale;
 
-        // Move through the glyph array following the run's direction (as the order of the glyphs in
-        // memory might not match the order on glyphs on scree).
-        const start = direction === UnicodeUtils.Direction.LTR ? startIdx : endIdx;
-        const end = direction === UnicodeUtils.Direction.LTR ? endIdx : startIdx;
-        for (
-            let i = start;
-            direction === UnicodeUtils.Direction.RTL ? i >= end : i <= end;
-            i += direction
-        ) {
+        // The order of the glyphs in memory might not match the order of the glyphs on screen.
+        let previousAngle: number | undefined;
+        for (const i of UnicodeBidi.reorderLine(this.m_tempLevels, 0, glyphDataArray.length - 1)) {
             // Only process printable characters.
             const glyphData = glyphDataArray[i];
             if (!UnicodeUtils.isPrintable(glyphData.codePoint)) {
                 continue;
             }
 
-            // When placing a RTL run, we need to check for weak runs (numerical runs of characters
-            // that don't change the overall run direction, but should always be displayed as LTR
-            // text).
-            if (
-                startIdx !== endIdx &&
-                i !== 0 &&
-                direction === UnicodeUtils.Direction.RTL &&
-                glyphData.direction === UnicodeUtils.Direction.Weak
-            ) {
-                let weakRunStart = i;
-                let weakGlyph = glyphDataArray[weakRunStart - 1];
-                while (
-                    weakRunStart !== startIdx &&
-                    (weakGlyph.direction === UnicodeUtils.Direction.Weak ||
-                        (weakGlyph.direction === UnicodeUtils.Direction.Neutral &&
-                            !UnicodeUtils.isWhiteSpace(weakGlyph.codePoint)))
-                ) {
-                    --weakRunStart;
-                    weakGlyph = glyphDataArray[weakRunStart - 1];
-                }
-
-                this.placeRun(Math.max(weakRunStart, startIdx), i, UnicodeUtils.Direction.LTR);
-
-                i = weakRunStart;
-                continue;
-            }
-
             // Compute various rendering parameters for this glyph.
             const glyphFont = glyphData.font;
             const glyphFontMetrics = glyphFont.metrics;
@@ -312,8 +222,7 @@ export class PathTypesetter implements Typesetter {
                 (0.5 * this.m_tempPixelBgSize!) /
                 (fontCatalog.distanceRange * Math.max(glyphScale, 1.0));
             const isMirrored =
-                UnicodeUtils.isRtlMirrored(glyphData.codePoint) &&
-                direction === UnicodeUtils.Direction.RTL;
+                UnicodeUtils.isRtlMirrored(glyphData.codePoint) && this.m_tempLevels[i] % 2 === 1;
 
             const verticalOffset =
                 glyphFontMetrics.lineHeight -
@@ -330,6 +239,16 @@ export class PathTypesetter implements Typesetter {
                 normalDisplacement
             );
             const angle = Math.atan2(tangent.y, tangent.x);
+            if (maxAngleBetweenGlyphs !== undefined && previousAngle !== undefined) {
+                let angleDelta = Math.abs(angle - previousAngle);
+                if (angleDelta > Math.PI) {
+                    angleDelta = 2 * Math.PI - angleDelta;
+                }
+                if (angleDelta > maxAngleBetweenGlyphs) {
+                    return false;
+                }
+            }
+            previousAngle = angle;
             this.m_tempPathPosition.set(normal.x + textPoint.x, normal.y + textPoint.y, position.z);
             textRenderStyle.rotation = defaultGlyphRotation + angle;
 
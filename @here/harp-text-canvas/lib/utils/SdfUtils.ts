@@ -0,0 +1,219 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Large value used instead of `Infinity` in the distance transform, where it would produce `NaN`.
+ */
+const INF = 1e20;
+
+/**
+ * Number of sub-scanlines sampled per pixel row by [[SdfUtils.rasterizeContours]].
+ */
+const SUB_SCANLINES = 5;
+
+/**
+ * Collection of functions used to generate signed distance field (SDF) glyph bitmaps at runtime.
+ */
+export namespace SdfUtils {
+    /**
+     * Computes the signed distance field of a coverage bitmap, encoded in the same way as the
+     * glyphs of a [[FontCatalog]]: `0.5` on the outline, increasing inside the glyph and reaching
+     * `0` and `1` at `distanceRange / 2` pixels from the outline.
+     *
+     * The distances are computed with the exact euclidean distance transform from Felzenszwalb and
+     * Huttenlocher, initialized with the coverage of the edge pixels for sub-pixel accuracy.
+     *
+     * @param coverage Coverage of each pixel (`0` to `255`), rows from top to bottom.
+     * @param width Bitmap width.
+     * @param height Bitmap height.
+     * @param distanceRange Range of distances encoded in the result, in pixels.
+     *
+     * @returns Encoded distance of each pixel (`0` to `255`), rows from top to bottom.
+     */
+    export function computeDistanceField(
+        coverage: ArrayLike<number>,
+        width: number,
+        height: number,
+        distanceRange: number
+    ): Uint8Array {
+        const size = width * height;
+        const outer = new Float64Array(size);
+        const inner = new Float64Array(size);
+        for (let i = 0; i < size; ++i) {
+            const alpha = coverage[i] / 255;
+            if (alpha <= 0) {
+                outer[i] = INF;
+                inner[i] = 0;
+            } else if (alpha >= 1) {
+                outer[i] = 0;
+                inner[i] = INF;
+            } else {
+                const d = 0.5 - alpha;
+                outer[i] = d > 0 ? d * d : 0;
+                inner[i] = d < 0 ? d * d : 0;
+            }
+        }
+
+        const length = Math.max(width, height);
+        const f = new Float64Array(length);
+        const v = new Uint16Array(length);
+        const z = new Float64Array(length + 1);
+        transform2D(outer, width, height, f, v, z);
+        transform2D(inner, width, height, f, v, z);
+
+        const result = new Uint8Array(size);
+        for (let i = 0; i < size; ++i) {
+            const distance = Math.sqrt(inner[i]) - Math.sqrt(outer[i]);
+            const value = Math.round(255 * (0.5 + distance / distanceRange));
+            result[i] = Math.min(255, Math.max(0, value));
+        }
+        return result;
+    }
+
+    /**
+     * Rasterizes closed polygons into a coverage bitmap with the non-zero winding rule.
+     *
+     * @param contours Polygons as flat arrays of `x, y` pixel coordinates, y pointing down.
+     * @param width Bitmap width.
+     * @param height Bitmap height.
+     *
+     * @returns Coverage of each pixel (`0` to `255`), rows from top to bottom.
+     */
+    export function rasterizeContours(
+        contours: number[][],
+        width: number,
+        height: number
+    ): Uint8Array {
+        const edges: number[] = [];
+        for (const contour of contours) {
+            const pointCount = contour.length / 2;
+            for (let i = 0; i < pointCount; ++i) {
+                const j = (i + 1) % pointCount;
+                const y0 = contour[i * 2 + 1];
+                const y1 = contour[j * 2 + 1];
+                if (y0 !== y1) {
+                    edges.push(contour[i * 2], y0, contour[j * 2], y1);
+                }
+            }
+        }
+
+        const result = new Uint8Array(width * height);
+        const row = new Float32Array(width);
+        const crossings: Array<{ x: number; winding: number }> = [];
+        const weight = 1 / SUB_SCANLINES;
+        for (let y = 0; y < height; ++y) {
+            row.fill(0);
+            for (let s = 0; s < SUB_SCANLINES; ++s) {
+                const scanY = y + (s + 0.5) * weight;
+                crossings.length = 0;
+                for (let e = 0; e < edges.length; e += 4) {
+                    const y0 = edges[e + 1];
+                    const y1 = edges[e + 3];
+                    if ((scanY >= y0 && scanY < y1) || (scanY >= y1 && scanY < y0)) {
+                        const x0 = edges[e];
+                        const x1 = edges[e + 2];
+                        crossings.push({
+                            x: x0 + ((scanY - y0) * (x1 - x0)) / (y1 - y0),
+                            winding: y1 > y0 ? 1 : -1
+                        });
+                    }
+                }
+                crossings.sort((a, b) => a.x - b.x);
+
+                let winding = 0;
+                for (let i = 0; i < crossings.length - 1; ++i) {
+                    winding += crossings[i].winding;
+                    if (winding !== 0) {
+                        addSpan(row, crossings[i].x, crossings[i + 1].x, weight);
+                    }
+                }
+            }
+            for (let x = 0; x < width; ++x) {
+                result[y * width + x] = Math.min(255, Math.round(row[x] * 255));
+            }
+        }
+        return result;
+    }
+
+    function addSpan(row: Float32Array, start: number, end: number, weight: number) {
+        start = Math.max(0, start);
+        end = Math.min(row.length, end);
+        if (end <= start) {
+            return;
+        }
+        const first = Math.floor(start);
+        const last = Math.floor(end);
+        if (first === last) {
+            row[first] += (end - start) * weight;
+            return;
+        }
+        row[first] += (first + 1 - start) * weight;
+        for (let x = first + 1; x < last; ++x) {
+            row[x] += weight;
+        }
+        if (last < row.length) {
+            row[last] += (end - last) * weight;
+        }
+    }
+
+    // Squared euclidean distance transform of a grid, applied to its columns and then its rows.
+    function transform2D(
+        grid: Float64Array,
+        width: number,
+        height: number,
+        f: Float64Array,
+        v: Uint16Array,
+        z: Float64Array
+    ) {
+        for (let x = 0; x < width; ++x) {
+            transform1D(grid, x, width, height, f, v, z);
+        }
+        for (let y = 0; y < height; ++y) {
+            transform1D(grid, y * width, 1, width, f, v, z);
+        }
+    }
+
+    // One dimensional distance transform, computing the lower envelope of the parabolas rooted at
+    // each sample.
+    function transform1D(
+        grid: Float64Array,
+        offset: number,
+        stride: number,
+        length: number,
+        f: Float64Array,
+        v: Uint16Array,
+        z: Float64Array
+    ) {
+        for (let q = 0; q < length; ++q) {
+            f[q] = grid[offset + q * stride];
+        }
+
+        v[0] = 0;
+        z[0] = -INF;
+        z[1] = INF;
+        let k = 0;
+        for (let q = 1; q < length; ++q) {
+            let s: number;
+            do {
+                const r = v[k];
+                s = (f[q] - f[r] + q * q - r * r) / (q - r) / 2;
+            } while (s <= z[k] && --k > -1);
+            ++k;
+            v[k] = q;
+            z[k] = s;
+            z[k + 1] = INF;
+        }
+
+        k = 0;
+        for (let q = 0; q < length; ++q) {
+            while (z[k + 1] < q) {
+                ++k;
+            }
+            const r = v[k];
+            grid[offset + q * stride] = f[r] + (q - r) * (q - r);
+        }
+    }
+}
@@ -0,0 +1,1191 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Implementation of the Unicode Bidirectional Algorithm (UAX #9):
+ * https://www.unicode.org/reports/tr9/
+ *
+ * The embedding levels of a text are resolved with [[resolveLevels]], the visual order of a line
+ * of this text is computed with [[reorderLine]].
+ */
+export namespace UnicodeBidi {
+    /**
+     * Bidirectional character types (`Bidi_Class` property).
+     */
+    export enum BidiClass {
+        /** Left-to-right. */
+        L,
+        /** Right-to-left. */
+        R,
+        /** Right-to-left Arabic. */
+        AL,
+        /** European number. */
+        EN,
+        /** European number separator. */
+        ES,
+        /** European number terminator. */
+        ET,
+        /** Arabic number. */
+        AN,
+        /** Common number separator. */
+        CS,
+        /** Nonspacing mark. */
+        NSM,
+        /** Boundary neutral. */
+        BN,
+        /** Paragraph separator. */
+        B,
+        /** Segment separator. */
+        S,
+        /** Whitespace. */
+        WS,
+        /** Other neutrals. */
+        ON,
+        /** Left-to-right embedding. */
+        LRE,
+        /** Left-to-right override. */
+        LRO,
+        /** Right-to-left embedding. */
+        RLE,
+        /** Right-to-left override. */
+        RLO,
+        /** Pop directional format. */
+        PDF,
+        /** Left-to-right isolate. */
+        LRI,
+        /** Right-to-left isolate. */
+        RLI,
+        /** First strong isolate. */
+        FSI,
+        /** Pop directional isolate. */
+        PDI
+    }
+
+    const { L, R, AL, EN, ES, ET, AN, CS, NSM, BN, B, S, WS, ON } = BidiClass;
+    const { LRE, LRO, RLE, RLO, PDF, LRI, RLI, FSI, PDI } = BidiClass;
+
+    /**
+     * Ranges of code points and their [[BidiClass]], taken from `DerivedBidiClass.txt` of the
+     * Unicode Character Database for the scripts and symbols commonly found in map labels. Later
+     * ranges override earlier ones, code points outside of all ranges are [[BidiClass.L]].
+     */
+    const bidiClassRanges: Array<[number, number, BidiClass]> = [
+        // Default values of the right-to-left blocks.
+        [0x0590, 0x05ff, R],
+        [0x0600, 0x07bf, AL],
+        [0x07c0, 0x085f, R],
+        [0x0860, 0x08ff, AL],
+        [0xfb1d, 0xfb4f, R],
+        [0xfb50, 0xfdcf, AL],
+        [0xfdf0, 0xfdff, AL],
+        [0xfe70, 0xfeff, AL],
+        [0x10800, 0x10fff, R],
+        [0x10d00, 0x10d3f, AL],
+        [0x10f30, 0x10f6f, AL],
+        [0x1e800, 0x1efff, R],
+        [0x1ec70, 0x1ecbf, AL],
+        [0x1ed00, 0x1ed4f, AL],
+        [0x1ee00, 0x1eeff, AL],
+
+        // Basic Latin and Latin-1 Supplement.
+        [0x0000, 0x0008, BN],
+        [0x0009, 0x0009, S],
+        [0x000a, 0x000a, B],
+        [0x000b, 0x000b, S],
+        [0x000c, 0x000c, WS],
+        [0x000d, 0x000d, B],
+        [0x000e, 0x001b, BN],
+        [0x001c, 0x001e, B],
+        [0x001f, 0x001f, S],
+        [0x0020, 0x0020, WS],
+        [0x0021, 0x0022, ON],
+        [0x0023, 0x0025, ET],
+        [0x0026, 0x002a, ON],
+        [0x002b, 0x002b, ES],
+        [0x002c, 0x002c, CS],
+        [0x002d, 0x002d, ES],
+        [0x002e, 0x002f, CS],
+        [0x0030, 0x0039, EN],
+        [0x003a, 0x003a, CS],
+        [0x003b, 0x0040, ON],
+        [0x005b, 0x0060, ON],
+        [0x007b, 0x007e, ON],
+        [0x007f, 0x0084, BN],
+        [0x0085, 0x0085, B],
+        [0x0086, 0x009f, BN],
+        [0x00a0, 0x00a0, CS],
+        [0x00a1, 0x00a1, ON],
+        [0x00a2, 0x00a5, ET],
+        [0x00a6, 0x00a9, ON],
+        [0x00ab, 0x00ac, ON],
+        [0x00ad, 0x00ad, BN],
+        [0x00ae, 0x00af, ON],
+        [0x00b0, 0x00b1, ET],
+        [0x00b2, 0x00b3, EN],
+        [0x00b4, 0x00b4, ON],
+        [0x00b6, 0x00b8, ON],
+        [0x00b9, 0x00b9, EN],
+        [0x00bb, 0x00bf, ON],
+        [0x00d7, 0x00d7, ON],
+        [0x00f7, 0x00f7, ON],
+
+        // Combining marks.
+        [0x0300, 0x036f, NSM],
+        [0x0483, 0x0489, NSM],
+
+        // Hebrew.
+        [0x0591, 0x05bd, NSM],
+        [0x05bf, 0x05bf, NSM],
+        [0x05c1, 0x05c2, NSM],
+        [0x05c4, 0x05c5, NSM],
+        [0x05c7, 0x05c7, NSM],
+
+        // Arabic.
+        [0x0600, 0x0605, AN],
+        [0x0606, 0x0607, ON],
+        [0x0609, 0x060a, ET],
+        [0x060c, 0x060c, CS],
+        [0x060e, 0x060f, ON],
+        [0x0610, 0x061a, NSM],
+        [0x064b, 0x065f, NSM],
+        [0x0660, 0x0669, AN],
+        [0x066a, 0x066a, ET],
+        [0x066b, 0x066c, AN],
+        [0x0670, 0x0670, NSM],
+        [0x06d6, 0x06dc, NSM],
+        [0x06dd, 0x06dd, AN],
+        [0x06de, 0x06de, ON],
+        [0x06df, 0x06e4, NSM],
+        [0x06e7, 0x06e8, NSM],
+        [0x06e9, 0x06e9, ON],
+        [0x06ea, 0x06ed, NSM],
+        [0x06f0, 0x06f9, EN],
+
+        // Syriac, Thaana, NKo, Samaritan and Mandaic.
+        [0x0711, 0x0711, NSM],
+        [0x0730, 0x074a, NSM],
+        [0x07a6, 0x07b0, NSM],
+        [0x07eb, 0x07f3, NSM],
+        [0x07f6, 0x07f9, ON],
+        [0x07fd, 0x07fd, NSM],
+        [0x0816, 0x0819, NSM],
+        [0x081b, 0x0823, NSM],
+        [0x0825, 0x0827, NSM],
+        [0x0829, 0x082d, NSM],
+        [0x0859, 0x085b, NSM],
+
+        // Arabic Extended-A.
+        [0x08d3, 0x08e1, NSM],
+        [0x08e2, 0x08e2, AN],
+        [0x08e3, 0x08ff, NSM],
+
+        // Indic scripts.
+        [0x0900, 0x0902, NSM],
+        [0x093a, 0x093a, NSM],
+        [0x093c, 0x093c, NSM],
+        [0x0941, 0x0948, NSM],
+        [0x094d, 0x094d, NSM],
+        [0x0951, 0x0957, NSM],
+        [0x0962, 0x0963, NSM],
+        [0x0981, 0x0981, NSM],
+        [0x09bc, 0x09bc, NSM],
+        [0x09c1, 0x09c4, NSM],
+        [0x09cd, 0x09cd, NSM],
+        [0x09e2, 0x09e3, NSM],
+        [0x09f2, 0x09f3, ET],
+        [0x09fb, 0x09fb, ET],
+        [0x0a01, 0x0a02, NSM],
+        [0x0a3c, 0x0a3c, NSM],
+        [0x0a41, 0x0a42, NSM],
+        [0x0a47, 0x0a48, NSM],
+        [0x0a4b, 0x0a4d, NSM],
+        [0x0a70, 0x0a71, NSM],
+        [0x0a81, 0x0a82, NSM],
+        [0x0abc, 0x0abc, NSM],
+        [0x0ac1, 0x0ac5, NSM],
+        [0x0ac7, 0x0ac8, NSM],
+        [0x0acd, 0x0acd, NSM],
+        [0x0af1, 0x0af1, ET],
+        [0x0b01, 0x0b01, NSM],
+        [0x0b3c, 0x0b3c, NSM],
+        [0x0b3f, 0x0b3f, NSM],
+        [0x0b41, 0x0b44, NSM],
+        [0x0b4d, 0x0b4d, NSM],
+        [0x0b82, 0x0b82, NSM],
+        [0x0bc0, 0x0bc0, NSM],
+        [0x0bcd, 0x0bcd, NSM],
+        [0x0bf3, 0x0bf8, ON],
+        [0x0bf9, 0x0bf9, ET],
+        [0x0bfa, 0x0bfa, ON],
+        [0x0c3e, 0x0c40, NSM],
+        [0x0c46, 0x0c48, NSM],
+        [0x0c4a, 0x0c4d, NSM],
+        [0x0c55, 0x0c56, NSM],
+        [0x0cbc, 0x0cbc, NSM],
+        [0x0ccc, 0x0ccd, NSM],
+        [0x0d41, 0x0d44, NSM],
+        [0x0d4d, 0x0d4d, NSM],
+        [0x0dca, 0x0dca, NSM],
+        [0x0dd2, 0x0dd4, NSM],
+        [0x0dd6, 0x0dd6, NSM],
+
+        // Thai and Lao.
+        [0x0e31, 0x0e31, NSM],
+        [0x0e34, 0x0e3a, NSM],
+        [0x0e3f, 0x0e3f, ET],
+        [0x0e47, 0x0e4e, NSM],
+        [0x0eb1, 0x0eb1, NSM],
+        [0x0eb4, 0x0ebc, NSM],
+        [0x0ec8, 0x0ecd, NSM],
+
+        // Myanmar and Khmer.
+        [0x102d, 0x1030, NSM],
+        [0x1032, 0x1037, NSM],
+        [0x1039, 0x103a, NSM],
+        [0x103d, 0x103e, NSM],
+        [0x17b4, 0x17b5, NSM],
+        [0x17b7, 0x17bd, NSM],
+        [0x17c6, 0x17c6, NSM],
+        [0x17c9, 0x17d3, NSM],
+        [0x17db, 0x17db, ET],
+        [0x17dd, 0x17dd, NSM],
+
+        // General punctuation, super- and subscripts, currency and letterlike symbols.
+        [0x1680, 0x1680, WS],
+        [0x180e, 0x180e, BN],
+        [0x1ab0, 0x1aff, NSM],
+        [0x1dc0, 0x1dff, NSM],
+        [0x2000, 0x200a, WS],
+        [0x200b, 0x200d, BN],
+        [0x200e, 0x200e, L],
+        [0x200f, 0x200f, R],
+        [0x2010, 0x2027, ON],
+        [0x2028, 0x2028, WS],
+        [0x2029, 0x2029, B],
+        [0x202a, 0x202a, LRE],
+        [0x202b, 0x202b, RLE],
+        [0x202c, 0x202c, PDF],
+        [0x202d, 0x202d, LRO],
+        [0x202e, 0x202e, RLO],
+        [0x202f, 0x202f, CS],
+        [0x2030, 0x2034, ET],
+        [0x2035, 0x2043, ON],
+        [0x2044, 0x2044, CS],
+        [0x2045, 0x205e, ON],
+        [0x205f, 0x205f, WS],
+        [0x2060, 0x2064, BN],
+        [0x2066, 0x2066, LRI],
+        [0x2067, 0x2067, RLI],
+        [0x2068, 0x2068, FSI],
+        [0x2069, 0x2069, PDI],
+        [0x206a, 0x206f, BN],
+        [0x2070, 0x2070, EN],
+        [0x2074, 0x2079, EN],
+        [0x207a, 0x207b, ES],
+        [0x207c, 0x207e, ON],
+        [0x2080, 0x2089, EN],
+        [0x208a, 0x208b, ES],
+        [0x208c, 0x208e, ON],
+        [0x20a0, 0x20cf, ET],
+        [0x20d0, 0x20f0, NSM],
+        [0x2100, 0x2101, ON],
+        [0x2103, 0x2106, ON],
+        [0x2108, 0x2109, ON],
+        [0x2114, 0x2114, ON],
+        [0x2116, 0x2118, ON],
+        [0x211e, 0x2123, ON],
+        [0x2125, 0x2125, ON],
+        [0x2127, 0x2127, ON],
+        [0x2129, 0x2129, ON],
+        [0x212e, 0x212e, ET],
+        [0x213a, 0x213b, ON],
+        [0x2140, 0x2144, ON],
+        [0x214a, 0x214d, ON],
+        [0x2150, 0x215f, ON],
+        [0x2189, 0x218b, ON],
+
+        // Arrows, mathematical operators and other symbols.
+        [0x2190, 0x2211, ON],
+        [0x2212, 0x2212, ES],
+        [0x2213, 0x2213, ET],
+        [0x2214, 0x2335, ON],
+        [0x237b, 0x2394, ON],
+        [0x2396, 0x2426, ON],
+        [0x2440, 0x244a, ON],
+        [0x2460, 0x2487, ON],
+        [0x2488, 0x249b, EN],
+        [0x24ea, 0x26ab, ON],
+        [0x26ad, 0x27ff, ON],
+        [0x2900, 0x2b73, ON],
+        [0x2b76, 0x2bff, ON],
+        [0x2e00, 0x2e5d, ON],
+        [0x2e80, 0x2fff, ON],
+
+        // CJK symbols and punctuation.
+        [0x3000, 0x3000, WS],
+        [0x3001, 0x3004, ON],
+        [0x3008, 0x3020, ON],
+        [0x302a, 0x302d, NSM],
+        [0x3030, 0x3030, ON],
+        [0x303d, 0x303f, ON],
+        [0x3099, 0x309a, NSM],
+        [0x309b, 0x309c, ON],
+        [0x30a0, 0x30a0, ON],
+        [0x30fb, 0x30fb, ON],
+        [0x31c0, 0x31e3, ON],
+        [0x4dc0, 0x4dff, ON],
+        [0xa490, 0xa4c6, ON],
+        [0xa700, 0xa721, ON],
+        [0xa838, 0xa839, ET],
+
+        // Presentation forms, variation selectors and half- and fullwidth forms.
+        [0xfb1e, 0xfb1e, NSM],
+        [0xfb29, 0xfb29, ES],
+        [0xfd3e, 0xfd3f, ON],
+        [0xfdfd, 0xfdfd, ON],
+        [0xfe00, 0xfe0f, NSM],
+        [0xfe10, 0xfe19, ON],
+        [0xfe20, 0xfe2f, NSM],
+        [0xfe30, 0xfe4f, ON],
+        [0xfe50, 0xfe50, CS],
+        [0xfe51, 0xfe51, ON],
+        [0xfe52, 0xfe52, CS],
+        [0xfe54, 0xfe54, ON],
+        [0xfe55, 0xfe55, CS],
+        [0xfe56, 0xfe5e, ON],
+        [0xfe5f, 0xfe5f, ET],
+        [0xfe60, 0xfe61, ON],
+        [0xfe62, 0xfe63, ES],
+        [0xfe64, 0xfe66, ON],
+        [0xfe68, 0xfe68, ON],
+        [0xfe69, 0xfe6a, ET],
+        [0xfe6b, 0xfe6b, ON],
+        [0xfeff, 0xfeff, BN],
+        [0xff01, 0xff02, ON],
+        [0xff03, 0xff05, ET],
+        [0xff06, 0xff0a, ON],
+        [0xff0b, 0xff0b, ES],
+        [0xff0c, 0xff0c, CS],
+        [0xff0d, 0xff0d, ES],
+        [0xff0e, 0xff0f, CS],
+        [0xff10, 0xff19, EN],
+        [0xff1a, 0xff1a, CS],
+        [0xff1b, 0xff20, ON],
+        [0xff3b, 0xff40, ON],
+        [0xff5b, 0xff65, ON],
+        [0xffe0, 0xffe1, ET],
+        [0xffe2, 0xffe4, ON],
+        [0xffe5, 0xffe6, ET],
+        [0xffe8, 0xffee, ON],
+        [0xfff9, 0xfffd, ON],
+
+        // Supplementary planes.
+        [0x1d7ce, 0x1d7ff, EN],
+        [0x1f000, 0x1f0ff, ON],
+        [0x1f100, 0x1f10a, EN],
+        [0x1f300, 0x1faff, ON],
+        [0xe0001, 0xe0001, BN],
+        [0xe0020, 0xe007f, BN],
+        [0xe0100, 0xe01ef, NSM]
+    ];
+
+    /**
+     * Pairs of opening and closing brackets (`Bidi_Paired_Bracket` property), used to resolve the
+     * direction of paired brackets (rule N0).
+     */
+    const bracketPairs: Array<[number, number]> = [
+        [0x0028, 0x0029],
+        [0x005b, 0x005d],
+        [0x007b, 0x007d],
+        [0x0f3a, 0x0f3b],
+        [0x0f3c, 0x0f3d],
+        [0x169b, 0x169c],
+        [0x2045, 0x2046],
+        [0x207d, 0x207e],
+        [0x208d, 0x208e],
+        [0x2308, 0x2309],
+        [0x230a, 0x230b],
+        [0x2329, 0x232a],
+        [0x2768, 0x2769],
+        [0x276a, 0x276b],
+        [0x276c, 0x276d],
+        [0x276e, 0x276f],
+        [0x2770, 0x2771],
+        [0x2772, 0x2773],
+        [0x2774, 0x2775],
+        [0x27c5, 0x27c6],
+        [0x27e6, 0x27e7],
+        [0x27e8, 0x27e9],
+        [0x27ea, 0x27eb],
+        [0x27ec, 0x27ed],
+        [0x27ee, 0x27ef],
+        [0x3008, 0x3009],
+        [0x300a, 0x300b],
+        [0x300c, 0x300d],
+        [0x300e, 0x300f],
+        [0x3010, 0x3011],
+        [0x3014, 0x3015],
+        [0x3016, 0x3017],
+        [0x3018, 0x3019],
+        [0x301a, 0x301b],
+        [0xfe59, 0xfe5a],
+        [0xfe5b, 0xfe5c],
+        [0xfe5d, 0xfe5e],
+        [0xff08, 0xff09],
+        [0xff3b, 0xff3d],
+        [0xff5b, 0xff5d],
+        [0xff5f, 0xff60],
+        [0xff62, 0xff63]
+    ];
+
+    /**
+     * Maximum explicit embedding level (BD2).
+     */
+    const MAX_DEPTH = 125;
+
+    /**
+     * Maximum number of nested bracket pairs resolved (BD16).
+     */
+    const MAX_BRACKET_STACK_SIZE = 63;
+
+    let sortedRangeStarts: number[] | undefined;
+    let sortedRangeEnds: number[];
+    let sortedRangeClasses: BidiClass[];
+    let openingBrackets: Map<number, number>;
+    let closingBrackets: Map<number, number>;
+
+    // Flattens the overlapping ranges of `bidiClassRanges` into sorted, disjoint ranges.
+    function initializeTables() {
+        const boundaries: number[] = [];
+        for (const [start, end] of bidiClassRanges) {
+            boundaries.push(start, end + 1);
+        }
+        boundaries.sort((a, b) => a - b);
+
+        sortedRangeStarts = [];
+        sortedRangeEnds = [];
+        sortedRangeClasses = [];
+        for (let i = 0; i + 1 < boundaries.length; ++i) {
+            const start = boundaries[i];
+            const end = boundaries[i + 1] - 1;
+            if (end < start) {
+                continue;
+            }
+            let bidiClass: BidiClass | undefined;
+            for (const range of bidiClassRanges) {
+                if (start >= range[0] && end <= range[1]) {
+                    bidiClass = range[2];
+                }
+            }
+            if (bidiClass === undefined || bidiClass === L) {
+                continue;
+            }
+            const last = sortedRangeStarts.length - 1;
+            if (
+                last >= 0 &&
+                sortedRangeEnds[last] === start - 1 &&
+                sortedRangeClasses[last] === bidiClass
+            ) {
+                sortedRangeEnds[last] = end;
+            } else {
+                sortedRangeStarts.push(start);
+                sortedRangeEnds.push(end);
+                sortedRangeClasses.push(bidiClass);
+            }
+        }
+
+        openingBrackets = new Map();
+        closingBrackets = new Map();
+        for (const [opening, closing] of bracketPairs) {
+            openingBrackets.set(opening, closing);
+            closingBrackets.set(closing, opening);
+        }
+    }
+
+    /**
+     * Returns the bidirectional character type of a code point.
+     *
+     * @param codePoint Character's Unicode code point.
+     *
+     * @returns Character's [[BidiClass]].
+     */
+    export function getBidiClass(codePoint: number): BidiClass {
+        if (sortedRangeStarts === undefined) {
+            initializeTables();
+        }
+        const starts = sortedRangeStarts!;
+        let low = 0;
+        let high = starts.length - 1;
+        while (low <= high) {
+            const middle = Math.floor((low + high) / 2);
+            if (codePoint < starts[middle]) {
+                high = middle - 1;
+            } else if (codePoint > sortedRangeEnds[middle]) {
+                low = middle + 1;
+            } else {
+                return sortedRangeClasses[middle];
+            }
+        }
+        return L;
+    }
+
+    /**
+     * Returns the paragraph embedding level of a text, following rules P2 and P3: `1` if the
+     * first strong character (outside of isolates) is right-to-left, `0` otherwise.
+     *
+     * @param codePoints Unicode code points of the text.
+     *
+     * @returns `0` for a left-to-right paragraph, `1` for a right-to-left one.
+     */
+    export function getParagraphLevel(codePoints: ArrayLike<number>): number {
+        const types = Array.from(codePoints, getBidiClass);
+        return firstStrongLevel(types, 0, types.length, false) === 1 ? 1 : 0;
+    }
+
+    /**
+     * Resolves the embedding levels of a text (rules P1 to I2, and L1 for segment separators,
+     * paragraph separators and whitespace at the end of paragraphs). Characters with odd levels
+     * are displayed right-to-left.
+     *
+     * Whitespace at the end of lines wrapped inside of a paragraph is not reset to the paragraph
+     * level, it is expected to be removed by the caller.
+     *
+     * @param codePoints Unicode code points of the text, which may contain several paragraphs.
+     * @param paragraphLevel Embedding level of the paragraphs, `0` for left-to-right and `1` for
+     * right-to-left. If `undefined`, the level is taken from the first strong character of each
+     * paragraph.
+     *
+     * @returns The embedding level of each code point.
+     */
+    export function resolveLevels(
+        codePoints: ArrayLike<number>,
+        paragraphLevel?: number
+    ): number[] {
+        const types = Array.from(codePoints, getBidiClass);
+        const levels = new Array<number>(types.length);
+
+        // Most labels only contain left-to-right text, which needs no further processing.
+        if (
+            paragraphLevel !== 1 &&
+            types.every(type => type === L || (type >= EN && type <= ON && type !== AN))
+        ) {
+            levels.fill(0);
+            return levels;
+        }
+
+        let start = 0;
+        for (let i = 0; i < types.length; ++i) {
+            if (types[i] === B || i === types.length - 1) {
+                resolveParagraph(codePoints, types, levels, start, i + 1, paragraphLevel);
+                start = i + 1;
+            }
+        }
+        return levels;
+    }
+
+    /**
+     * Returns the indices of a line of text in visual order, from left to right (rule L2).
+     *
+     * @param levels Embedding levels of the text returned by [[resolveLevels]].
+     * @param start Index of the first character of the line.
+     * @param end Index of the last character of the line.
+     *
+     * @returns The indices of the line's characters, in visual order.
+     */
+    export function reorderLine(levels: ArrayLike<number>, start: number, end: number): number[] {
+        const order: number[] = [];
+        let highestLevel = 0;
+        let lowestOddLevel = MAX_DEPTH + 2;
+        for (let i = start; i <= end; ++i) {
+            order.push(i);
+            const level = levels[i];
+            highestLevel = Math.max(highestLevel, level);
+            if (level % 2 === 1) {
+                lowestOddLevel = Math.min(lowestOddLevel, level);
+            }
+        }
+
+        // Reverse the runs at each level, from the highest to the lowest odd level.
+        for (let level = highestLevel; level >= lowestOddLevel; --level) {
+            let runStart = 0;
+            while (runStart < order.length) {
+                if (levels[order[runStart]] < level) {
+                    ++runStart;
+                    continue;
+                }
+                let runEnd = runStart;
+                while (runEnd + 1 < order.length && levels[order[runEnd + 1]] >= level) {
+                    ++runEnd;
+                }
+                for (let i = runStart, j = runEnd; i < j; ++i, --j) {
+                    const index = order[i];
+                    order[i] = order[j];
+                    order[j] = index;
+                }
+                runStart = runEnd + 1;
+            }
+        }
+        return order;
+    }
+
+    interface DirectionalStatus {
+        level: number;
+        override: BidiClass | undefined;
+        isolate: boolean;
+    }
+
+    function isIsolateInitiator(type: BidiClass): boolean {
+        return type === LRI || type === RLI || type === FSI;
+    }
+
+    function isRemovedByX9(type: BidiClass): boolean {
+        return (
+            type === RLE ||
+            type === LRE ||
+            type === RLO ||
+            type === LRO ||
+            type === PDF ||
+            type === BN
+        );
+    }
+
+    function isNeutralOrIsolate(type: BidiClass): boolean {
+        return type === B || type === S || type === WS || type === ON || type >= LRI;
+    }
+
+    function leastOddGreaterThan(level: number): number {
+        return level % 2 === 0 ? level + 1 : level + 2;
+    }
+
+    function leastEvenGreaterThan(level: number): number {
+        return level % 2 === 0 ? level + 2 : level + 1;
+    }
+
+    function directionOfLevel(level: number): BidiClass {
+        return level % 2 === 0 ? L : R;
+    }
+
+    // Returns the level of the first strong character in [start, end) skipping isolates (P2/P3),
+    // or `undefined` if there is none. If `stopAtPdi` is `true`, the search ends at the PDI
+    // closing the isolate being searched (used by FSI).
+    function firstStrongLevel(
+        types: BidiClass[],
+        start: number,
+        end: number,
+        stopAtPdi: boolean
+    ): number | undefined {
+        let isolateDepth = 0;
+        for (let i = start; i < end; ++i) {
+            const type = types[i];
+            if (isIsolateInitiator(type)) {
+                ++isolateDepth;
+            } else if (type === PDI) {
+                if (isolateDepth > 0) {
+                    --isolateDepth;
+                } else if (stopAtPdi) {
+                    return undefined;
+                }
+            } else if (type === B) {
+                return undefined;
+            } else if (isolateDepth === 0) {
+                if (type === L) {
+                    return 0;
+                }
+                if (type === R || type === AL) {
+                    return 1;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // Resolves the levels of the paragraph [start, end).
+    function resolveParagraph(
+        codePoints: ArrayLike<number>,
+        originalTypes: BidiClass[],
+        levels: number[],
+        start: number,
+        end: number,
+        forcedParagraphLevel?: number
+    ) {
+        const paragraphLevel =
+            forcedParagraphLevel !== undefined
+                ? forcedParagraphLevel
+                : firstStrongLevel(originalTypes, start, end, false) === 1
+                ? 1
+                : 0;
+        const types = originalTypes.slice();
+
+        // Match the isolate initiators with their PDIs (BD9).
+        const matchingPdi = new Map<number, number>();
+        const matchedPdis = new Set<number>();
+        const openIsolates: number[] = [];
+        for (let i = start; i < end; ++i) {
+            if (isIsolateInitiator(types[i])) {
+                openIsolates.push(i);
+            } else if (types[i] === PDI && openIsolates.length > 0) {
+                const initiator = openIsolates.pop()!;
+                matchingPdi.set(initiator, i);
+                matchedPdis.add(i);
+            }
+        }
+
+        resolveExplicitLevels(types, levels, start, end, paragraphLevel, matchingPdi);
+
+        // Resolve each isolating run sequence (X10).
+        for (const sequence of getIsolatingRunSequences(
+            types,
+            levels,
+            start,
+            end,
+            matchingPdi,
+            matchedPdis
+        )) {
+            const level = levels[sequence[0]];
+            const first = sequence[0];
+            const last = sequence[sequence.length - 1];
+
+            let previous = first - 1;
+            while (previous >= start && isRemovedByX9(originalTypes[previous])) {
+                --previous;
+            }
+            let next = last + 1;
+            while (next < end && isRemovedByX9(originalTypes[next])) {
+                ++next;
+            }
+            const sos = directionOfLevel(
+                Math.max(level, previous >= start ? levels[previous] : paragraphLevel)
+            );
+            const eos = directionOfLevel(
+                Math.max(
+                    level,
+                    next < end && !isIsolateInitiator(types[last]) ? levels[next] : paragraphLevel
+                )
+            );
+
+            resolveWeakTypes(types, sequence, sos);
+            resolvePairedBrackets(codePoints, types, originalTypes, sequence, sos, level);
+            resolveNeutralTypes(types, sequence, sos, eos, level);
+
+            // Resolve the implicit levels (I1, I2).
+            for (const index of sequence) {
+                const type = types[index];
+                if (levels[index] % 2 === 0) {
+                    if (type === R) {
+                        levels[index] += 1;
+                    } else if (type === AN || type === EN) {
+                        levels[index] += 2;
+                    }
+                } else if (type === L || type === AN || type === EN) {
+                    levels[index] += 1;
+                }
+            }
+        }
+
+        // Characters removed by X9 take the level of the preceding character.
+        for (let i = start; i < end; ++i) {
+            if (isRemovedByX9(originalTypes[i])) {
+                levels[i] = i > start ? levels[i - 1] : paragraphLevel;
+            }
+        }
+
+        // Reset separators and trailing whitespace to the paragraph level (L1).
+        let trailing = true;
+        for (let i = end - 1; i >= start; --i) {
+            const type = originalTypes[i];
+            if (type === B || type === S) {
+                levels[i] = paragraphLevel;
+                trailing = true;
+            } else if (type === WS || isIsolateInitiator(type) || type === PDI) {
+                if (trailing) {
+                    levels[i] = paragraphLevel;
+                }
+            } else if (!isRemovedByX9(type)) {
+                trailing = false;
+            } else if (trailing) {
+                levels[i] = paragraphLevel;
+            }
+        }
+    }
+
+    // Applies the explicit embeddings, overrides and isolates (X1 to X8).
+    function resolveExplicitLevels(
+        types: BidiClass[],
+        levels: number[],
+        start: number,
+        end: number,
+        paragraphLevel: number,
+        matchingPdi: Map<number, number>
+    ) {
+        const stack: DirectionalStatus[] = [
+            { level: paragraphLevel, override: undefined, isolate: false }
+        ];
+        let overflowIsolateCount = 0;
+        let overflowEmbeddingCount = 0;
+        let validIsolateCount = 0;
+
+        for (let i = start; i < end; ++i) {
+            const type = types[i];
+            const top = stack[stack.length - 1];
+            switch (type) {
+                case RLE:
+                case LRE:
+                case RLO:
+                case LRO: {
+                    const isRtl = type === RLE || type === RLO;
+                    const level = isRtl
+                        ? leastOddGreaterThan(top.level)
+                        : leastEvenGreaterThan(top.level);
+                    if (
+                        level <= MAX_DEPTH &&
+                        overflowIsolateCount === 0 &&
+                        overflowEmbeddingCount === 0
+                    ) {
+                        stack.push({
+                            level,
+                            override: type === RLO ? R : type === LRO ? L : undefined,
+                            isolate: false
+                        });
+                    } else if (overflowIsolateCount === 0) {
+                        ++overflowEmbeddingCount;
+                    }
+                    levels[i] = top.level;
+                    break;
+                }
+                case RLI:
+                case LRI:
+                case FSI: {
+                    levels[i] = top.level;
+                    if (top.override !== undefined) {
+                        types[i] = top.override;
+                    }
+                    let isRtl = type === RLI;
+                    if (type === FSI) {
+                        const pdi = matchingPdi.get(i);
+                        isRtl =
+                            firstStrongLevel(types, i + 1, pdi !== undefined ? pdi : end, true) ===
+                            1;
+                    }
+                    const level = isRtl
+                        ? leastOddGreaterThan(top.level)
+                        : leastEvenGreaterThan(top.level);
+                    if (
+                        level <= MAX_DEPTH &&
+                        overflowIsolateCount === 0 &&
+                        overflowEmbeddingCount === 0
+                    ) {
+                        ++validIsolateCount;
+                        stack.push({ level, override: undefined, isolate: true });
+                    } else {
+                        ++overflowIsolateCount;
+                    }
+                    break;
+                }
+                case PDI: {
+                    if (overflowIsolateCount > 0) {
+                        --overflowIsolateCount;
+                    } else if (validIsolateCount > 0) {
+                        overflowEmbeddingCount = 0;
+                        while (!stack[stack.length - 1].isolate) {
+                            stack.pop();
+                        }
+                        stack.pop();
+                        --validIsolateCount;
+                    }
+                    const current = stack[stack.length - 1];
+                    levels[i] = current.level;
+                    if (current.override !== undefined) {
+                        types[i] = current.override;
+                    }
+                    break;
+                }
+                case PDF:
+                    if (overflowIsolateCount > 0) {
+                        // Ignored.
+                    } else if (overflowEmbeddingCount > 0) {
+                        --overflowEmbeddingCount;
+                    } else if (!top.isolate && stack.length >= 2) {
+                        stack.pop();
+                    }
+                    levels[i] = top.level;
+                    break;
+                case B:
+                    levels[i] = paragraphLevel;
+                    break;
+                case BN:
+                    levels[i] = top.level;
+                    break;
+                default:
+                    levels[i] = top.level;
+                    if (top.override !== undefined) {
+                        types[i] = top.override;
+                    }
+            }
+        }
+    }
+
+    // Splits the paragraph into isolating run sequences (BD13), ignoring the characters removed
+    // by X9.
+    function getIsolatingRunSequences(
+        types: BidiClass[],
+        levels: number[],
+        start: number,
+        end: number,
+        matchingPdi: Map<number, number>,
+        matchedPdis: Set<number>
+    ): number[][] {
+        const levelRuns: number[][] = [];
+        let currentRun: number[] | undefined;
+        for (let i = start; i < end; ++i) {
+            if (isRemovedByX9(types[i])) {
+                continue;
+            }
+            if (currentRun === undefined || levels[currentRun[0]] !== levels[i]) {
+                currentRun = [];
+                levelRuns.push(currentRun);
+            }
+            currentRun.push(i);
+        }
+
+        const runOfIndex = new Map<number, number[]>();
+        for (const run of levelRuns) {
+            runOfIndex.set(run[0], run);
+        }
+
+        const sequences: number[][] = [];
+        for (const run of levelRuns) {
+            if (matchedPdis.has(run[0])) {
+                // Continuation of the sequence of its isolate initiator.
+                continue;
+            }
+            const sequence = run.slice();
+            let last = sequence[sequence.length - 1];
+            while (isIsolateInitiator(types[last]) && matchingPdi.has(last)) {
+                const nextRun = runOfIndex.get(matchingPdi.get(last)!);
+                if (nextRun === undefined) {
+                    break;
+                }
+                sequence.push(...nextRun);
+                last = sequence[sequence.length - 1];
+            }
+            sequences.push(sequence);
+        }
+        return sequences;
+    }
+
+    // Resolves the weak types (W1 to W7).
+    function resolveWeakTypes(types: BidiClass[], sequence: number[], sos: BidiClass) {
+        // W1: Nonspacing marks take the type of the previous character.
+        let previousType = sos;
+        for (const index of sequence) {
+            if (types[index] === NSM) {
+                types[index] =
+                    isIsolateInitiator(previousType) || previousType === PDI ? ON : previousType;
+            }
+            previousType = types[index];
+        }
+
+        // W2: European numbers after Arabic letters are Arabic numbers. W3: AL becomes R.
+        let lastStrong = sos;
+        for (const index of sequence) {
+            const type = types[index];
+            if (type === EN) {
+                if (lastStrong === AL) {
+                    types[index] = AN;
+                }
+            } else if (type === L || type === R || type === AL) {
+                lastStrong = type;
+            }
+        }
+        for (const index of sequence) {
+            if (types[index] === AL) {
+                types[index] = R;
+            }
+        }
+
+        // W4: Single separators between numbers of the same type.
+        for (let i = 1; i + 1 < sequence.length; ++i) {
+            const type = types[sequence[i]];
+            const before = types[sequence[i - 1]];
+            const after = types[sequence[i + 1]];
+            if (type === ES && before === EN && after === EN) {
+                types[sequence[i]] = EN;
+            } else if (type === CS && before === after && (before === EN || before === AN)) {
+                types[sequence[i]] = before;
+            }
+        }
+
+        // W5: Terminators adjacent to European numbers.
+        for (let i = 0; i < sequence.length; ++i) {
+            if (types[sequence[i]] !== ET) {
+                continue;
+            }
+            let runEnd = i;
+            while (runEnd + 1 < sequence.length && types[sequence[runEnd + 1]] === ET) {
+                ++runEnd;
+            }
+            const adjacentToNumber =
+                (i > 0 && types[sequence[i - 1]] === EN) ||
+                (runEnd + 1 < sequence.length && types[sequence[runEnd + 1]] === EN);
+            if (adjacentToNumber) {
+                for (let j = i; j <= runEnd; ++j) {
+                    types[sequence[j]] = EN;
+                }
+            }
+            i = runEnd;
+        }
+
+        // W6: Remaining separators and terminators become neutral.
+        for (const index of sequence) {
+            const type = types[index];
+            if (type === ES || type === ET || type === CS) {
+                types[index] = ON;
+            }
+        }
+
+        // W7: European numbers in left-to-right context become L.
+        lastStrong = sos;
+        for (const index of sequence) {
+            const type = types[index];
+            if (type === EN) {
+                if (lastStrong === L) {
+                    types[index] = L;
+                }
+            } else if (type === L || type === R) {
+                lastStrong = type;
+            }
+        }
+    }
+
+    // Returns the strong direction of a resolved type for N0 and N1, numbers count as R.
+    function strongDirection(type: BidiClass): BidiClass | undefined {
+        if (type === L) {
+            return L;
+        }
+        if (type === R || type === AN || type === EN) {
+            return R;
+        }
+        return undefined;
+    }
+
+    // Returns the bracket canonically equivalent to a code point, so that the deprecated angle
+    // brackets match the CJK ones.
+    function canonicalBracket(codePoint: number): number {
+        return codePoint === 0x2329 ? 0x3008 : codePoint === 0x232a ? 0x3009 : codePoint;
+    }
+
+    // Resolves the direction of paired brackets (N0).
+    function resolvePairedBrackets(
+        codePoints: ArrayLike<number>,
+        types: BidiClass[],
+        originalTypes: BidiClass[],
+        sequence: number[],
+        sos: BidiClass,
+        level: number
+    ) {
+        // Identify the bracket pairs (BD16).
+        const pairs: Array<[number, number]> = [];
+        const stack: Array<{ closing: number; position: number }> = [];
+        for (let i = 0; i < sequence.length; ++i) {
+            const index = sequence[i];
+            if (types[index] !== ON) {
+                continue;
+            }
+            const codePoint = canonicalBracket(codePoints[index]);
+            const closing = openingBrackets.get(codePoint);
+            if (closing !== undefined) {
+                if (stack.length === MAX_BRACKET_STACK_SIZE) {
+                    break;
+                }
+                stack.push({ closing, position: i });
+            } else if (closingBrackets.has(codePoint)) {
+                for (let j = stack.length - 1; j >= 0; --j) {
+                    if (stack[j].closing === codePoint) {
+                        pairs.push([stack[j].position, i]);
+                        stack.length = j;
+                        break;
+                    }
+                }
+            }
+        }
+        pairs.sort((a, b) => a[0] - b[0]);
+
+        const embeddingDirection = directionOfLevel(level);
+        for (const [opening, closing] of pairs) {
+            let foundEmbedding = false;
+            let foundOpposite = false;
+            for (let i = opening + 1; i < closing; ++i) {
+                const innerDirection = strongDirection(types[sequence[i]]);
+                if (innerDirection === embeddingDirection) {
+                    foundEmbedding = true;
+                    break;
+                } else if (innerDirection !== undefined) {
+                    foundOpposite = true;
+                }
+            }
+
+            let direction: BidiClass | undefined;
+            if (foundEmbedding) {
+                direction = embeddingDirection;
+            } else if (foundOpposite) {
+                let context = sos;
+                for (let i = opening - 1; i >= 0; --i) {
+                    const contextDirection = strongDirection(types[sequence[i]]);
+                    if (contextDirection !== undefined) {
+                        context = contextDirection;
+                        break;
+                    }
+                }
+                direction = context !== embeddingDirection ? context : embeddingDirection;
+            }
+
+            if (direction !== undefined) {
+                for (const position of [opening, closing]) {
+                    types[sequence[position]] = direction;
+                    // Nonspacing marks following a bracket take its new type.
+                    for (
+                        let i = position + 1;
+                        i < sequence.length && originalTypes[sequence[i]] === NSM;
+                        ++i
+                    ) {
+                        types[sequence[i]] = direction;
+                    }
+                }
+            }
+        }
+    }
+
+    // Resolves the neutral and isolate formatting types (N1, N2).
+    function resolveNeutralTypes(
+        types: BidiClass[],
+        sequence: number[],
+        sos: BidiClass,
+        eos: BidiClass,
+        level: number
+    ) {
+        for (let i = 0; i < sequence.length; ++i) {
+            if (!isNeutralOrIsolate(types[sequence[i]])) {
+                continue;
+            }
+            let runEnd = i;
+            while (
+                runEnd + 1 < sequence.length &&
+                isNeutralOrIsolate(types[sequence[runEnd + 1]])
+            ) {
+                ++runEnd;
+            }
+            const before = i > 0 ? strongDirection(types[sequence[i - 1]]) : sos;
+            const after =
+                runEnd + 1 < sequence.length ? strongDirection(types[sequence[runEnd + 1]]) : eos;
+            const direction =
+                before !== undefined && before === after ? before : directionOfLevel(level);
+            for (let j = i; j <= runEnd; ++j) {
+                types[sequence[j]] = direction;
+            }
+            i = runEnd;
+        }
+    }
+}
@@ -172,8 +172,8 @@ export namespace UnicodeUtils {
     }
 
     /**
-     * Some punctuation characters (like: (, ), <, >, [,], {, }) need to be mirrored when rendering
-     * a RTL string to preserve their intrinsic meaning.
+     * Some punctuation characters (like: (, ), <, >, [,], {, }, «, ») need to be mirrored when
+     * rendering a RTL string to preserve their intrinsic meaning.
      * https://en.wikipedia.org/wiki/Basic_Latin_(Unicode_block)#Table_of_characters
      */
     export const rtlMirroredCodePoints = [
@@ -184,7 +184,11 @@ export namespace UnicodeUtils {
         0x005b,
         0x005d,
         0x007b,
-        0x007d
+        0x007d,
+        0x00ab,
+        0x00bb,
+        0x2039,
+        0x203a
     ];
 
     /**
@@ -0,0 +1,49 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import { DefaultTextShaper } from "../index";
+
+describe("DefaultTextShaper", function() {
+    const shaper = new DefaultTextShaper();
+
+    it("returns texts without complex scripts unchanged", function() {
+        const text = "Alexanderplatz (Berlin)";
+        assert.strictEqual(shaper.shape(text), text);
+    });
+
+    it("applies the Arabic contextual forms", function() {
+        assert.equal(shaper.shape("بب"), "ﺑﺐ");
+        // Shaping is idempotent.
+        assert.equal(shaper.shape(shaper.shape("بب")), "ﺑﺐ");
+    });
+
+    it("moves pre-base vowel signs before their consonant cluster", function() {
+        // Devanagari KI.
+        assert.equal(shaper.shape("कि"), "िक");
+        // Devanagari STHI, the conjunct is kept together.
+        assert.equal(shaper.shape("स्थि"), "िस्थ");
+        // Devanagari RKI, the reph is not part of the cluster.
+        assert.equal(shaper.shape("र्कि"), "र्िक");
+        // Vowel signs without consonant are kept in place.
+        assert.equal(shaper.shape("ि"), "ि");
+    });
+
+    it("splits two-part vowel signs", function() {
+        // Bengali KO.
+        assert.equal(shaper.shape("কো"), "েকা");
+        // Tamil KO.
+        assert.equal(shaper.shape("கொ"), "ெகா");
+    });
+
+    it("decomposes the Thai SARA AM", function() {
+        assert.equal(shaper.shape("น้ำ"), "นํ้า");
+        assert.equal(shaper.shape("ทำ"), "ทํา");
+    });
+});
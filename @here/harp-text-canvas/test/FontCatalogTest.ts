@@ -9,7 +9,14 @@ import * as sinon from "sinon";
 import * as THREE from "three";
 
 import { getTestResourceUrl } from "@here/harp-test-utils";
-import { FontCatalog, FontStyle, GlyphData, TextRenderStyle } from "../index";
+import {
+    FontCatalog,
+    FontStyle,
+    GlyphData,
+    SdfGlyphAtlas,
+    SdfGlyphGenerator,
+    TextRenderStyle
+} from "../index";
 
 async function loadTexture(url: string): Promise<THREE.Texture> {
     return new Promise(resolve => {
@@ -90,6 +97,9 @@ function createFontCatalogStub(
         m_loadedJson: new Map<string, any>(),
         m_loadedPages: new Map<string, THREE.Texture>(),
         m_loadedGlyphs: new Map<string, Map<number, GlyphData>>(),
+        m_glyphGenerators: new Map<string, SdfGlyphGenerator>(),
+        m_generatedGlyphAtlas: new SdfGlyphAtlas(),
+        m_generatedPages: [],
         dispose: FontCatalog.prototype.dispose,
         clear: FontCatalog.prototype.clear,
         update: FontCatalog.prototype.update,
@@ -103,6 +113,8 @@ function createFontCatalogStub(
         getGlyphs: FontCatalog.prototype.getGlyphs,
         getFont: FontCatalog.prototype.getFont,
         createReplacementGlyph: (FontCatalog.prototype as any).createReplacementGlyph,
+        generateGlyph: (FontCatalog.prototype as any).generateGlyph,
+        clearGeneratedGlyphs: (FontCatalog.prototype as any).clearGeneratedGlyphs,
         loadAssets: (FontCatalog.prototype as any).loadAssets,
         loadPage: (FontCatalog.prototype as any).loadPage,
         getAssetsPath: (FontCatalog.prototype as any).getAssetsPath
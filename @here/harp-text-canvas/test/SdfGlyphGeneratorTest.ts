@@ -0,0 +1,266 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import {
+    FontMetrics,
+    SdfGlyph,
+    SdfGlyphAtlas,
+    SdfGlyphGenerator,
+    SdfUtils,
+    TrueTypeGlyphRasterizer
+} from "../index";
+
+/**
+ * Builds a TrueType font with 1000 units per em and a glyph for "A": a square from (100, 0) to
+ * (600, 700), advancing by 700 units. With CFF outlines, the font also has a glyph for "B": a
+ * triangle from (0, 0) to (1000, 0) and (0, 1000), with its diagonal drawn as a cubic curve.
+ */
+function createTrueTypeFont(withCffOutlines = false): ArrayBuffer {
+    const tables: Array<[string, number[]]> = [];
+    const u16 = (value: number) => [Math.floor(value / 256) % 256, value % 256];
+    const i16 = (value: number) => u16(value < 0 ? value + 65536 : value);
+    const u32 = (value: number) => [...u16(Math.floor(value / 65536)), ...u16(value % 65536)];
+
+    const head = new Array(54).fill(0);
+    head.splice(18, 2, ...u16(1000));
+    tables.push(["head", head]);
+    const hhea = new Array(36).fill(0);
+    hhea.splice(4, 4, ...i16(800), ...i16(-200));
+    hhea.splice(34, 2, ...u16(2));
+    tables.push(["hhea", hhea]);
+    tables.push(["maxp", [0, 0, 80, 0, ...u16(withCffOutlines ? 3 : 2)]]);
+    tables.push(["hmtx", [...u16(500), ...i16(0), ...u16(700), ...i16(100)]]);
+    tables.push([
+        "cmap",
+        [
+            ...[...u16(0), ...u16(1), ...u16(3), ...u16(1), ...u32(12)],
+            ...[...u16(4), ...u16(32), ...u16(0), ...u16(4), ...u16(0), ...u16(0), ...u16(0)],
+            ...[...u16(0x42), ...u16(0xffff), ...u16(0), ...u16(0x41), ...u16(0xffff)],
+            ...[...u16(1 - 0x41 + 65536), ...u16(1), ...u16(0), ...u16(0)]
+        ]
+    ]);
+    if (withCffOutlines) {
+        tables.push(["CFF ", createCffTable()]);
+    } else {
+        tables.push(["loca", [...u16(0), ...u16(0), ...u16(18)]]);
+        tables.push([
+            "glyf",
+            [
+                ...[...i16(1), ...i16(100), ...i16(0), ...i16(600), ...i16(700), ...u16(3)],
+                ...[...u16(0), 1, 1, 1, 1],
+                ...[...i16(100), ...i16(0), ...i16(500), ...i16(0)],
+                ...[...i16(0), ...i16(700), ...i16(0), ...i16(-700), 0, 0]
+            ]
+        ]);
+    }
+
+    const version = withCffOutlines ? 0x4f54544f : 0x00010000;
+    const bytes: number[] = [...u32(version), ...u16(tables.length), 0, 0, 0, 0, 0, 0];
+    let offset = 12 + tables.length * 16;
+    for (const [tag, data] of tables) {
+        bytes.push(...Array.from(tag).map(c => c.charCodeAt(0)), 0, 0, 0, 0);
+        bytes.push(...u32(offset), ...u32(data.length));
+        offset += data.length;
+    }
+    for (const [, data] of tables) {
+        bytes.push(...data);
+    }
+    return new Uint8Array(bytes).buffer;
+}
+
+/**
+ * Builds the CFF table of the font created by [[createTrueTypeFont]].
+ */
+function createCffTable(): number[] {
+    const int32 = (value: number) => [29, 0, 0, Math.floor(value / 256), value % 256];
+    const num = (value: number) => {
+        const unsigned = (value + 65536) % 65536;
+        return Math.abs(value) <= 107
+            ? [value + 139]
+            : [28, Math.floor(unsigned / 256), unsigned % 256];
+    };
+    const index = (...entries: number[][]) => {
+        const bytes = [0, entries.length, 1, 1];
+        let offset = 1;
+        for (const entry of entries) {
+            offset += entry.length;
+            bytes.push(offset);
+        }
+        return bytes.concat(...entries);
+    };
+
+    const header = [1, 0, 4, 4];
+    const names = index([0x54, 0x65, 0x73, 0x74]);
+    // Draws the sides of the square, called with the bias of the single subroutine subtracted.
+    const globalSubrs = index([...num(500), ...num(700), ...num(-500), 6, 11]);
+    const charStrings = index(
+        [14],
+        [...num(700), ...num(100), 22, ...num(-107), 29, 14],
+        [
+            ...[...num(0), ...num(0), 21, ...num(1000), ...num(0), 5],
+            ...[...num(-250), ...num(250), ...num(-500), ...num(500), ...num(-250), ...num(250), 8],
+            14
+        ]
+    );
+    const topDictSize = 17;
+    const charStringsOffset =
+        header.length + names.length + topDictSize + 5 + 2 + globalSubrs.length;
+    const topDicts = index([...int32(charStringsOffset), 17, ...int32(0), ...int32(0), 18]);
+    return [...header, ...names, ...topDicts, 0, 0, ...globalSubrs, ...charStrings];
+}
+
+function createGlyph(codePoint: number, width: number, height: number): SdfGlyph {
+    return {
+        codePoint,
+        width,
+        height,
+        advanceX: width,
+        offsetX: 0,
+        offsetY: 0,
+        data: new Uint8Array(width * height).fill(255)
+    };
+}
+
+describe("SdfGlyphGenerator", function() {
+    const metrics: FontMetrics = {
+        size: 10,
+        distanceRange: 4,
+        base: 10,
+        lineHeight: 10,
+        lineGap: 0,
+        capHeight: 7,
+        xHeight: 5
+    };
+
+    it("rasterizes polygons with the non-zero winding rule", function() {
+        const square = [1, 1, 5, 1, 5, 5, 1, 5];
+        const coverage = SdfUtils.rasterizeContours([square], 6, 6);
+        assert.equal(coverage[0], 0);
+        assert.equal(coverage[1 * 6 + 1], 255);
+        assert.equal(coverage[4 * 6 + 4], 255);
+        assert.equal(coverage[5 * 6 + 5], 0);
+
+        const halfPixel = SdfUtils.rasterizeContours([[0.5, 0, 2, 0, 2, 1, 0.5, 1]], 2, 1);
+        assert.closeTo(halfPixel[0], 128, 1);
+        assert.equal(halfPixel[1], 255);
+
+        // A hole wound in the opposite direction is left empty.
+        const hole = [2, 2, 2, 4, 4, 4, 4, 2];
+        const ring = SdfUtils.rasterizeContours([[0, 0, 6, 0, 6, 6, 0, 6], hole], 6, 6);
+        assert.equal(ring[1 * 6 + 1], 255);
+        assert.equal(ring[3 * 6 + 3], 0);
+    });
+
+    it("computes signed distances from the outline", function() {
+        const size = 20;
+        const coverage = SdfUtils.rasterizeContours([[5, 5, 15, 5, 15, 15, 5, 15]], size, size);
+        const distances = SdfUtils.computeDistanceField(coverage, size, size, 8);
+
+        const at = (x: number, y: number) => distances[y * size + x];
+        // Distances are 0.5 on the outline, halfway between the pixels on both of its sides.
+        assert.closeTo(at(4, 10) + at(5, 10), 255, 1);
+        assert.closeTo(at(14, 10) + at(15, 10), 255, 1);
+        assert.isAbove(at(5, 10), 128);
+        assert.isBelow(at(4, 10), 128);
+        assert.closeTo(at(10, 10), 255, 1);
+        assert.equal(at(0, 0), 0);
+        for (let x = 1; x < 10; ++x) {
+            assert.isAtLeast(at(x, 10), at(x - 1, 10));
+        }
+    });
+
+    it("packs glyphs row by row into pages", function() {
+        const atlas = new SdfGlyphAtlas(16, 16, 1);
+        assert.deepEqual(atlas.add(createGlyph(1, 8, 4)), { page: 0, x: 0, y: 0 });
+        assert.deepEqual(atlas.add(createGlyph(2, 7, 6)), { page: 0, x: 9, y: 0 });
+        assert.deepEqual(atlas.add(createGlyph(3, 8, 8)), { page: 0, x: 0, y: 7 });
+        assert.equal(atlas.lastPageHeight, 15);
+        assert.deepEqual(atlas.add(createGlyph(4, 12, 4)), { page: 1, x: 0, y: 0 });
+
+        assert.equal(atlas.pages.length, 2);
+        assert.deepEqual(Array.from(atlas.pages[0].subarray(0, 4)), [255, 255, 255, 255]);
+        assert.deepEqual(Array.from(atlas.pages[0].subarray(8 * 4, 9 * 4)), [0, 0, 0, 0]);
+        assert.throws(() => atlas.add(createGlyph(5, 17, 1)));
+    });
+
+    it("reads the glyphs of TrueType fonts", function() {
+        const rasterizer = new TrueTypeGlyphRasterizer(createTrueTypeFont());
+        assert.equal(rasterizer.unitsPerEm, 1000);
+        assert.deepEqual(rasterizer.codePoints, [0x41]);
+        assert.isTrue(rasterizer.hasGlyph(0x41));
+        assert.isUndefined(rasterizer.rasterize(0x42, 10));
+        const fontMetrics = rasterizer.getFontMetrics(10, 4);
+        assert.equal(fontMetrics.base, 10);
+        assert.equal(fontMetrics.lineHeight, 10);
+
+        const glyph = rasterizer.rasterize(0x41, 10)!;
+        const { width, height, left, top, advance } = glyph;
+        assert.deepEqual(
+            { width, height, left, top, advance },
+            {
+                width: 5,
+                height: 7,
+                left: 1,
+                top: 7,
+                advance: 7
+            }
+        );
+        assert.isTrue(Array.from(glyph.data).every(value => value === 255));
+    });
+
+    it("reads the glyphs of OpenType fonts with CFF outlines", function() {
+        const rasterizer = new TrueTypeGlyphRasterizer(createTrueTypeFont(true));
+        assert.deepEqual(rasterizer.codePoints, [0x41, 0x42]);
+
+        const square = rasterizer.rasterize(0x41, 10)!;
+        const { width, height, left, top, advance } = square;
+        assert.deepEqual(
+            { width, height, left, top, advance },
+            {
+                width: 5,
+                height: 7,
+                left: 1,
+                top: 7,
+                advance: 7
+            }
+        );
+        assert.isTrue(Array.from(square.data).every(value => value === 255));
+
+        const triangle = rasterizer.rasterize(0x42, 10)!;
+        assert.equal(triangle.width, 10);
+        assert.equal(triangle.height, 10);
+        assert.equal(triangle.data[8 * 10 + 1], 255);
+        assert.equal(triangle.data[1 * 10 + 8], 0);
+    });
+
+    it("generates padded SDF glyphs with the metrics of the font catalog", function() {
+        const rasterizer = new TrueTypeGlyphRasterizer(createTrueTypeFont());
+        const generator = new SdfGlyphGenerator(rasterizer, metrics);
+        assert.isUndefined(generator.generate(0x42));
+
+        const glyph = generator.generate(0x41)!;
+        const { codePoint, width, height, advanceX, offsetX, offsetY } = glyph;
+        assert.deepEqual(
+            { codePoint, width, height, advanceX, offsetX, offsetY },
+            {
+                codePoint: 0x41,
+                width: 9,
+                height: 11,
+                advanceX: 7,
+                offsetX: -1,
+                offsetY: 3
+            }
+        );
+        assert.equal(glyph.data.length, 9 * 11);
+        // Distances are 0 at the border of the padding and above 0.5 inside the glyph.
+        assert.equal(glyph.data[0], 0);
+        assert.isAbove(glyph.data[5 * 9 + 4], 128);
+    });
+});
@@ -0,0 +1,95 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import { UnicodeBidi } from "../index";
+
+describe("UnicodeBidi", function() {
+    function codePoints(text: string): number[] {
+        return Array.from(text, character => character.codePointAt(0)!);
+    }
+
+    // Returns the text of a single line in visual order, from left to right.
+    function visualText(text: string, paragraphLevel?: number): string {
+        const input = codePoints(text);
+        const levels = UnicodeBidi.resolveLevels(input, paragraphLevel);
+        return String.fromCodePoint(
+            ...UnicodeBidi.reorderLine(levels, 0, input.length - 1).map(i => input[i])
+        );
+    }
+
+    it("returns the bidirectional class of code points", function() {
+        const { BidiClass } = UnicodeBidi;
+        assert.deepEqual(codePoints("aאب 1٣,\u0301").map(UnicodeBidi.getBidiClass), [
+            BidiClass.L,
+            BidiClass.R,
+            BidiClass.AL,
+            BidiClass.WS,
+            BidiClass.EN,
+            BidiClass.AN,
+            BidiClass.CS,
+            BidiClass.NSM
+        ]);
+        assert.equal(UnicodeBidi.getBidiClass(0x0915), BidiClass.L);
+        assert.equal(UnicodeBidi.getBidiClass(0x2067), BidiClass.RLI);
+    });
+
+    it("takes the paragraph level from the first strong character outside of isolates", function() {
+        assert.equal(UnicodeBidi.getParagraphLevel(codePoints("123 א abc")), 1);
+        assert.equal(UnicodeBidi.getParagraphLevel(codePoints("\u2067א\u2069 abc")), 0);
+        assert.equal(UnicodeBidi.getParagraphLevel(codePoints("123")), 0);
+    });
+
+    it("keeps left-to-right text in logical order", function() {
+        const text = "Unter den Linden 1-3";
+        assert.deepEqual(
+            UnicodeBidi.resolveLevels(codePoints(text)),
+            new Array(text.length).fill(0)
+        );
+        assert.equal(visualText(text), text);
+    });
+
+    it("reorders mixed Hebrew, Latin and numbers", function() {
+        assert.equal(visualText("abc אבג 123 דה"), "abc הד 123 גבא");
+        assert.equal(visualText("רחוב Main 25"), "Main 25 בוחר");
+    });
+
+    it("keeps Arabic numbers left-to-right in right-to-left text", function() {
+        assert.equal(visualText("شارع ١٢٣"), "١٢٣ عراش");
+        // European numbers after Arabic letters are Arabic numbers (W2).
+        assert.equal(visualText("ب 12.3"), "12.3 ب");
+    });
+
+    it("resolves paired brackets to the direction of their content and context", function() {
+        const text = "א (abc) ב";
+        const levels = UnicodeBidi.resolveLevels(codePoints(text));
+        // The brackets are right-to-left, they are displayed mirrored.
+        assert.equal(levels[2], 1);
+        assert.equal(levels[6], 1);
+        assert.equal(visualText(text), "ב )abc( א");
+    });
+
+    it("applies explicit embeddings, overrides and isolates", function() {
+        // The formatting characters are not displayed, their position is not checked.
+        const withoutFormatting = (text: string) =>
+            text.replace(/[\u202a-\u202e\u2066-\u2069]/g, "");
+        // Right-to-left override.
+        assert.equal(withoutFormatting(visualText("a\u202ebcd\u202ce")), "adcbe");
+        // The isolate does not change the order of its surroundings.
+        assert.equal(withoutFormatting(visualText("א \u2066abc 1\u2069 ב")), "ב abc 1 א");
+        // Forced right-to-left paragraph.
+        assert.equal(visualText("abc def", 1), "abc def");
+        assert.deepEqual(UnicodeBidi.resolveLevels(codePoints("ab"), 1), [2, 2]);
+    });
+
+    it("resolves each paragraph separately", function() {
+        const text = "אב a\nab ג";
+        assert.deepEqual(UnicodeBidi.resolveLevels(codePoints(text)), [1, 1, 1, 2, 1, 0, 0, 0, 1]);
+    });
+});
@@ -0,0 +1,158 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import * as fs from "fs";
+import * as path from "path";
+import * as util from "util";
+import { TileCacheEntry, TileCacheEntryInfo, TileCacheStorage } from "./TileCache";
+
+const mkdir = util.promisify(fs.mkdir);
+const readdir = util.promisify(fs.readdir);
+const readFile = util.promisify(fs.readFile);
+const unlink = util.promisify(fs.unlink);
+const writeFile = util.promisify(fs.writeFile);
+
+const INFO_EXTENSION = ".json";
+const DATA_EXTENSION = ".bin";
+
+type FileInfo = TileCacheEntryInfo & Pick<TileCacheEntry, "expires" | "etag" | "lastModified">;
+
+/**
+ * Returns the FNV-1a hash of the key, used as file name. Colliding keys are detected by comparing
+ * the key stored with the entry.
+ */
+function fileName(key: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        // tslint:disable-next-line:no-bitwise
+        hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, "0");
+}
+
+async function ignoreMissingFile(promise: Promise<void>): Promise<void> {
+    try {
+        await promise;
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+    }
+}
+
+/**
+ * [[TileCacheStorage]] keeping the entries as files in a directory in Node.js.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const cache = new TileCache({ storage: new FileTileCacheStorage("/tmp/tiles") });
+ * ```
+ */
+export class FileTileCacheStorage implements TileCacheStorage {
+    private m_directoryCreated?: Promise<void>;
+
+    /**
+     * Constructs a new `FileTileCacheStorage`.
+     *
+     * @param directory The directory of the files, created if it does not exist.
+     */
+    constructor(readonly directory: string) {}
+
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const baseName = path.join(this.directory, fileName(key));
+        try {
+            const info: FileInfo = JSON.parse(
+                await readFile(baseName + INFO_EXTENSION, { encoding: "utf8" })
+            );
+            if (info.key !== key) {
+                return undefined;
+            }
+            const buffer = await readFile(baseName + DATA_EXTENSION);
+            const entry: TileCacheEntry = {
+                data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length),
+                storedAt: info.storedAt
+            };
+            if (info.expires !== undefined) {
+                entry.expires = info.expires;
+            }
+            if (info.etag !== undefined) {
+                entry.etag = info.etag;
+            }
+            if (info.lastModified !== undefined) {
+                entry.lastModified = info.lastModified;
+            }
+            return entry;
+        } catch (error) {
+            if (error.code === "ENOENT") {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, entry: TileCacheEntry): Promise<void> {
+        await this.createDirectory();
+        const baseName = path.join(this.directory, fileName(key));
+        const info: FileInfo = {
+            key,
+            size: entry.data.byteLength,
+            storedAt: entry.storedAt,
+            expires: entry.expires,
+            etag: entry.etag,
+            lastModified: entry.lastModified
+        };
+        await writeFile(baseName + DATA_EXTENSION, Buffer.from(entry.data));
+        await writeFile(baseName + INFO_EXTENSION, JSON.stringify(info));
+    }
+
+    async delete(key: string): Promise<void> {
+        const baseName = path.join(this.directory, fileName(key));
+        await ignoreMissingFile(unlink(baseName + INFO_EXTENSION));
+        await ignoreMissingFile(unlink(baseName + DATA_EXTENSION));
+    }
+
+    async list(): Promise<TileCacheEntryInfo[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            if (error.code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+        const infos: TileCacheEntryInfo[] = [];
+        for (const file of files) {
+            if (!file.endsWith(INFO_EXTENSION)) {
+                continue;
+            }
+            const info: FileInfo = JSON.parse(
+                await readFile(path.join(this.directory, file), { encoding: "utf8" })
+            );
+            infos.push({ key: info.key, size: info.size, storedAt: info.storedAt });
+        }
+        return infos;
+    }
+
+    async clear(): Promise<void> {
+        const infos = await this.list();
+        for (const info of infos) {
+            await this.delete(info.key);
+        }
+    }
+
+    private createDirectory(): Promise<void> {
+        if (this.m_directoryCreated === undefined) {
+            this.m_directoryCreated = mkdir(this.directory, { recursive: true }).then(
+                () => undefined
+            );
+        }
+        return this.m_directoryCreated;
+    }
+}
@@ -0,0 +1,496 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LRUCache } from "@here/harp-lrucache";
+
+/**
+ * Default maximum size of a [[TileCache]] in bytes.
+ */
+export const DEFAULT_TILE_CACHE_SIZE = 256 * 1024 * 1024;
+
+/**
+ * Default name of the database used by [[IndexedDbTileCacheStorage]].
+ */
+export const DEFAULT_TILE_CACHE_DATABASE = "harp-tile-cache";
+
+/**
+ * An entry of a [[TileCache]].
+ */
+export interface TileCacheEntry {
+    /**
+     * The cached data.
+     */
+    data: ArrayBuffer;
+
+    /**
+     * The time the entry was stored, in milliseconds since the epoch.
+     */
+    storedAt: number;
+
+    /**
+     * The time the entry becomes stale, in milliseconds since the epoch. Entries without expiry
+     * time never become stale.
+     */
+    expires?: number;
+
+    /**
+     * The `ETag` of the response the entry was created from, used for revalidation.
+     */
+    etag?: string;
+
+    /**
+     * The `Last-Modified` date of the response the entry was created from, used for
+     * revalidation.
+     */
+    lastModified?: string;
+}
+
+/**
+ * Information about an entry stored in a [[TileCacheStorage]], used to rebuild the LRU order of a
+ * [[TileCache]] without reading the cached data.
+ */
+export interface TileCacheEntryInfo {
+    /**
+     * The key of the entry.
+     */
+    key: string;
+
+    /**
+     * The size of the cached data in bytes.
+     */
+    size: number;
+
+    /**
+     * The time the entry was stored, in milliseconds since the epoch.
+     */
+    storedAt: number;
+}
+
+/**
+ * Storage backend of a [[TileCache]].
+ *
+ * Available backends are [[MemoryTileCacheStorage]], [[IndexedDbTileCacheStorage]] for browsers
+ * and `FileTileCacheStorage` from `@here/harp-transfer-manager/src/FileTileCacheStorage` for
+ * Node.js.
+ */
+export interface TileCacheStorage {
+    /**
+     * Reads an entry, resolves to `undefined` if the entry is not stored.
+     *
+     * @param key The key of the entry.
+     */
+    get(key: string): Promise<TileCacheEntry | undefined>;
+
+    /**
+     * Stores an entry, replacing the entry with the same key.
+     *
+     * @param key The key of the entry.
+     * @param entry The entry to store.
+     */
+    set(key: string, entry: TileCacheEntry): Promise<void>;
+
+    /**
+     * Removes an entry.
+     *
+     * @param key The key of the entry.
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Lists all stored entries.
+     */
+    list(): Promise<TileCacheEntryInfo[]>;
+
+    /**
+     * Removes all entries.
+     */
+    clear(): Promise<void>;
+}
+
+/**
+ * Hit and miss counts of a [[TileCache]].
+ */
+export interface TileCacheStatistics {
+    /**
+     * Number of requests served from the cache, including revalidated entries.
+     */
+    hits: number;
+
+    /**
+     * Number of requests which had to be downloaded.
+     */
+    misses: number;
+
+    /**
+     * Number of stale entries confirmed by the server with `304 Not Modified`.
+     */
+    revalidations: number;
+
+    /**
+     * Number of entries removed to stay within the size limit.
+     */
+    evictions: number;
+}
+
+/**
+ * Options of a [[TileCache]].
+ */
+export interface TileCacheOptions {
+    /**
+     * The storage backend.
+     *
+     * @default [[MemoryTileCacheStorage]]
+     */
+    storage?: TileCacheStorage;
+
+    /**
+     * Maximum size of the cached data in bytes. The least recently used entries are removed when
+     * the cache grows larger.
+     *
+     * @default [[DEFAULT_TILE_CACHE_SIZE]]
+     */
+    maxSize?: number;
+
+    /**
+     * Time in milliseconds responses without `Cache-Control` or `Expires` header stay fresh. By
+     * default, such responses are revalidated on every use.
+     *
+     * @default `0`
+     */
+    defaultMaxAge?: number;
+}
+
+/**
+ * [[TileCacheStorage]] keeping the entries in memory, so they are lost when the page is reloaded.
+ */
+export class MemoryTileCacheStorage implements TileCacheStorage {
+    private readonly m_entries = new Map<string, TileCacheEntry>();
+
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const entry = this.m_entries.get(key);
+        // Return a copy, the data may be transferred to a web worker.
+        return entry !== undefined ? { ...entry, data: entry.data.slice(0) } : undefined;
+    }
+
+    async set(key: string, entry: TileCacheEntry): Promise<void> {
+        this.m_entries.set(key, entry);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.m_entries.delete(key);
+    }
+
+    async list(): Promise<TileCacheEntryInfo[]> {
+        return Array.from(this.m_entries, ([key, entry]) => ({
+            key,
+            size: entry.data.byteLength,
+            storedAt: entry.storedAt
+        }));
+    }
+
+    async clear(): Promise<void> {
+        this.m_entries.clear();
+    }
+}
+
+const DATA_STORE = "data";
+const INFO_STORE = "info";
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * [[TileCacheStorage]] keeping the entries in an IndexedDB database of the browser, so they
+ * survive page reloads.
+ */
+export class IndexedDbTileCacheStorage implements TileCacheStorage {
+    private m_database?: Promise<IDBDatabase>;
+
+    /**
+     * Constructs a new `IndexedDbTileCacheStorage`.
+     *
+     * @param databaseName The name of the database.
+     */
+    constructor(readonly databaseName = DEFAULT_TILE_CACHE_DATABASE) {}
+
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const database = await this.open();
+        const store = database.transaction(DATA_STORE).objectStore(DATA_STORE);
+        return requestResult<TileCacheEntry | undefined>(store.get(key));
+    }
+
+    async set(key: string, entry: TileCacheEntry): Promise<void> {
+        const database = await this.open();
+        const transaction = database.transaction([DATA_STORE, INFO_STORE], "readwrite");
+        transaction.objectStore(DATA_STORE).put(entry, key);
+        const info: TileCacheEntryInfo = {
+            key,
+            size: entry.data.byteLength,
+            storedAt: entry.storedAt
+        };
+        transaction.objectStore(INFO_STORE).put(info, key);
+        return transactionDone(transaction);
+    }
+
+    async delete(key: string): Promise<void> {
+        const database = await this.open();
+        const transaction = database.transaction([DATA_STORE, INFO_STORE], "readwrite");
+        transaction.objectStore(DATA_STORE).delete(key);
+        transaction.objectStore(INFO_STORE).delete(key);
+        return transactionDone(transaction);
+    }
+
+    async list(): Promise<TileCacheEntryInfo[]> {
+        const database = await this.open();
+        const store = database.transaction(INFO_STORE).objectStore(INFO_STORE);
+        return requestResult<TileCacheEntryInfo[]>(store.getAll());
+    }
+
+    async clear(): Promise<void> {
+        const database = await this.open();
+        const transaction = database.transaction([DATA_STORE, INFO_STORE], "readwrite");
+        transaction.objectStore(DATA_STORE).clear();
+        transaction.objectStore(INFO_STORE).clear();
+        return transactionDone(transaction);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (this.m_database === undefined) {
+            const request = indexedDB.open(this.databaseName, 1);
+            request.onupgradeneeded = () => {
+                const database: IDBDatabase = request.result;
+                database.createObjectStore(DATA_STORE);
+                database.createObjectStore(INFO_STORE);
+            };
+            this.m_database = requestResult<IDBDatabase>(request);
+        }
+        return this.m_database;
+    }
+}
+
+/**
+ * Persistent cache for tiles and other downloaded resources, keyed by URL or by any other string,
+ * like the morton code of a `TileKey`.
+ *
+ * The entries are kept in a pluggable [[TileCacheStorage]]. The size of the cache is limited,
+ * the least recently used entries are removed first.
+ *
+ * A `TileCache` is used by passing it to a [[TransferManager]], which then serves
+ * [[TransferManager.downloadArrayBuffer]] from the cache, honoring the `Cache-Control`, `Expires`,
+ * `ETag` and `Last-Modified` headers of the responses.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const cache = new TileCache({ storage: new IndexedDbTileCacheStorage() });
+ * const dataSource = new OmvDataSource({
+ *     baseUrl: "https://xyz.api.here.com/tiles/herebase.02",
+ *     downloadManager: new TransferManager(fetch, 5, cache)
+ * });
+ * ```
+ */
+export class TileCache {
+    /**
+     * Hit and miss counts of the cache.
+     */
+    readonly statistics: TileCacheStatistics = {
+        hits: 0,
+        misses: 0,
+        revalidations: 0,
+        evictions: 0
+    };
+
+    /**
+     * The storage backend.
+     */
+    readonly storage: TileCacheStorage;
+
+    /**
+     * Time in milliseconds responses without freshness information stay fresh.
+     */
+    readonly defaultMaxAge: number;
+
+    // Maps the keys of the stored entries to their size.
+    private readonly m_entries: LRUCache<string, number>;
+    private m_ready?: Promise<void>;
+
+    /**
+     * Constructs a new `TileCache`.
+     *
+     * @param options The options of the cache.
+     */
+    constructor(options: TileCacheOptions = {}) {
+        this.storage =
+            options.storage !== undefined ? options.storage : new MemoryTileCacheStorage();
+        this.defaultMaxAge = options.defaultMaxAge !== undefined ? options.defaultMaxAge : 0;
+        this.m_entries = new LRUCache<string, number>(
+            options.maxSize !== undefined ? options.maxSize : DEFAULT_TILE_CACHE_SIZE,
+            size => size
+        );
+        this.m_entries.evictionCallback = key => {
+            ++this.statistics.evictions;
+            this.storage.delete(key).catch(() => {
+                // The entry is not used any more, even if it could not be removed.
+            });
+        };
+    }
+
+    /**
+     * The maximum size of the cached data in bytes.
+     */
+    get maxSize(): number {
+        return this.m_entries.capacity;
+    }
+
+    /**
+     * The size of the cached data in bytes, once the entries of the storage have been listed.
+     */
+    get size(): number {
+        return this.m_entries.size;
+    }
+
+    /**
+     * Reads an entry, which may be stale. Use [[isFresh]] to check if it can be used without
+     * revalidation.
+     *
+     * @param key The key of the entry.
+     * @returns The entry, or `undefined` if there is no entry with this key.
+     */
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        await this.ready();
+        if (this.m_entries.get(key) === undefined) {
+            return undefined;
+        }
+        const entry = await this.storage.get(key);
+        if (entry === undefined) {
+            this.m_entries.delete(key);
+        }
+        return entry;
+    }
+
+    /**
+     * Stores an entry. The data is copied, so it may be transferred or modified afterwards.
+     * Entries larger than [[maxSize]] are not stored.
+     *
+     * @param key The key of the entry.
+     * @param entry The entry to store.
+     */
+    async set(key: string, entry: TileCacheEntry): Promise<void> {
+        const storedEntry = { ...entry, data: entry.data.slice(0) };
+        await this.ready();
+        const size = storedEntry.data.byteLength;
+        if (size > this.maxSize) {
+            await this.delete(key);
+            return;
+        }
+        this.m_entries.set(key, size);
+        await this.storage.set(key, storedEntry);
+    }
+
+    /**
+     * Removes an entry.
+     *
+     * @param key The key of the entry.
+     */
+    async delete(key: string): Promise<void> {
+        await this.ready();
+        this.m_entries.delete(key);
+        await this.storage.delete(key);
+    }
+
+    /**
+     * Removes all entries.
+     */
+    async clear(): Promise<void> {
+        await this.ready();
+        this.m_entries.clear();
+        await this.storage.clear();
+    }
+
+    /**
+     * Checks if an entry can be used without revalidation.
+     *
+     * @param entry The entry to check.
+     * @param now The current time in milliseconds since the epoch.
+     */
+    isFresh(entry: TileCacheEntry, now: number = Date.now()): boolean {
+        return entry.expires === undefined || entry.expires > now;
+    }
+
+    /**
+     * Creates an entry for the data of a response, taking the expiry time and the validators
+     * from the response headers.
+     *
+     * @param data The data of the response.
+     * @param headers The headers of the response.
+     * @param now The current time in milliseconds since the epoch.
+     * @returns The entry, or `undefined` if the response must not be stored.
+     */
+    createEntry(
+        data: ArrayBuffer,
+        headers: Headers,
+        now: number = Date.now()
+    ): TileCacheEntry | undefined {
+        const cacheControl = (headers.get("Cache-Control") || "").toLowerCase();
+        if (/(^|,)\s*no-store/.test(cacheControl)) {
+            return undefined;
+        }
+        const maxAge = /(^|,)\s*max-age\s*=\s*"?(\d+)/.exec(cacheControl);
+        const expiresHeader = headers.get("Expires");
+        const expiresDate = expiresHeader !== null ? Date.parse(expiresHeader) : NaN;
+
+        let expires: number;
+        if (/(^|,)\s*no-cache/.test(cacheControl)) {
+            expires = now;
+        } else if (maxAge !== null) {
+            expires = now + parseInt(maxAge[2], 10) * 1000;
+        } else if (!isNaN(expiresDate)) {
+            expires = expiresDate;
+        } else {
+            expires = now + this.defaultMaxAge;
+        }
+
+        const entry: TileCacheEntry = { data, storedAt: now, expires };
+        const etag = headers.get("ETag");
+        if (etag !== null) {
+            entry.etag = etag;
+        }
+        const lastModified = headers.get("Last-Modified");
+        if (lastModified !== null) {
+            entry.lastModified = lastModified;
+        }
+        return entry;
+    }
+
+    private ready(): Promise<void> {
+        if (this.m_ready === undefined) {
+            this.m_ready = this.storage
+                .list()
+                .then(infos => {
+                    infos.sort((a, b) => a.storedAt - b.storedAt);
+                    for (const info of infos) {
+                        this.m_entries.set(info.key, info.size);
+                    }
+                })
+                .catch(() => {
+                    // Start with an empty cache if the storage cannot be listed.
+                });
+        }
+        return this.m_ready;
+    }
+}
@@ -11,52 +11,88 @@
  */
 
 import "@here/harp-fetch";
+import { TileCache } from "./TileCache";
 
-/** @internal
- * DeferredPromise takes an executor function for executing it later, when [[exec]] is called.
- * This class allows wrapping other promises or long running functions for later execution.
+/**
+ * Object holding the priority of a download, like the `RequestController` of a `TileLoader`. The
+ * priority is read whenever a queued download is picked, so it may change while the download is
+ * waiting.
  */
-class DeferredPromise<T> {
+export interface TransferPriority {
     /**
-     * Internal promise to store the deferred executor function.
+     * The priority of the download. Downloads with higher priority are started first.
      */
-    readonly promise: Promise<T>;
-    private doExec = false;
-    private resolveFunc?: (result?: T) => void;
-    private rejectFunc?: (reason?: any) => void;
-
-    constructor(private readonly executor: () => Promise<T>) {
-        this.promise = new Promise<T>((resolve, reject) => {
-            this.resolveFunc = resolve;
-            this.rejectFunc = reject;
-
-            if (this.doExec) {
-                this.execInnerPromise(this.resolveFunc, this.rejectFunc);
-            }
-        });
-    }
+    readonly priority: number;
+}
 
+/**
+ * Parameters of a download, extending the parameters of `fetch`.
+ */
+export interface TransferRequestInit extends RequestInit {
     /**
-     * When `exec` is called the deferred executor function is executed.
+     * The priority of the download while it is queued.
+     *
+     * @default Priority `0`.
      */
-    exec() {
-        if (this.resolveFunc === undefined || this.rejectFunc === undefined) {
-            // deferred promise not yet initialized - handle it in callback above
-            this.doExec = true;
-            return;
-        }
+    priority?: TransferPriority;
+}
 
-        this.execInnerPromise(this.resolveFunc, this.rejectFunc);
-    }
+/**
+ * Function called before every request sent by a [[TransferManager]], including retries. It may
+ * modify the parameters or return new ones, for example to inject headers.
+ */
+export type TransferRequestHook = (url: string, init: RequestInit) => RequestInit | void;
 
-    private execInnerPromise(
-        resolveFunc: (result?: T) => void,
-        rejectFunc: (reason?: any) => void
-    ) {
-        this.executor()
-            .then(result => resolveFunc(result))
-            .catch(err => rejectFunc(err));
-    }
+/**
+ * Function called for every response received by a [[TransferManager]], including the responses
+ * of requests which are retried.
+ */
+export type TransferResponseHook = (url: string, response: Response) => void;
+
+/**
+ * A download waiting in the queue of a [[TransferManager]].
+ */
+interface QueuedDownload {
+    host: string;
+    init?: TransferRequestInit;
+    start(): void;
+}
+
+/**
+ * HTTP status codes of responses to retry.
+ */
+const RETRY_STATUS_CODES = [429, 500, 502, 503, 504];
+
+/**
+ * Checks if `abort` events can be listened to on the signal. Polyfills may only provide the
+ * `aborted` flag, which then has to be polled.
+ */
+function isEventTarget(signal: AbortSignal): boolean {
+    return typeof signal.addEventListener === "function";
+}
+
+function createAbortError(): Error {
+    const error = new Error("Aborted");
+    error.name = "AbortError";
+    return error;
+}
+
+function getPriority(download: QueuedDownload): number {
+    return download.init !== undefined && download.init.priority !== undefined
+        ? download.init.priority.priority
+        : 0;
+}
+
+/**
+ * Returns the host of an absolute URL, or an empty string for relative URLs.
+ */
+function getHost(url: string): string {
+    const match = /^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i.exec(url);
+    return match !== null ? match[1].toLowerCase() : "";
+}
+
+function ignoreCacheError() {
+    // Caching is best effort, the downloaded data is used even if it could not be stored.
 }
 
 /**
@@ -68,21 +104,34 @@ class DeferredPromise<T> {
  *   once.
  * * Limits the amount of parallel downloads, useful when requesting a large amount of URLs that
  *   would otherwise stall the browser.
- * * Retries the downloads with an increasing timeout on HTTP 503 replies.
+ * * Downloads the queued URLs by priority, see [[TransferRequestInit.priority]]. Queued downloads
+ *   are dropped when their `AbortSignal` is aborted.
+ * * Limits the amount of parallel downloads per host.
+ * * Retries the downloads with an exponentially increasing timeout on HTTP 429 and 5xx replies,
+ *   honoring the `Retry-After` header.
+ * * Calls hooks for every request and response, for example for logging or to inject headers.
+ * * Optionally serves binary downloads from a persistent [[TileCache]].
  *
  * The static method [[instance]] can be used to get a default constructed instance.
  */
 export class TransferManager {
     /**
-     * The timeout in milliseconds to wait between retries. This timeout is multiplied with the
-     * number of retries. First retry waits for 0 ms, second retry for 500 ms, third for 1000 ms and
-     * so on.
+     * The timeout in milliseconds to wait before the first retry. This timeout is doubled with
+     * every retry, unless the server sends a `Retry-After` header.
      */
     static readonly retryTimeout = 500;
+    /**
+     * The maximum timeout in milliseconds to wait between retries.
+     */
+    static readonly maxRetryTimeout = 30000;
     /**
      * The amount of maximum parallel downloads to allow.
      */
     static readonly maxParallelDownloads = 16;
+    /**
+     * The default amount of maximum parallel downloads to allow per host.
+     */
+    static readonly maxParallelDownloadsPerHost = 8;
     /**
      * Returns a default instance of [[TransferManager]].
      */
@@ -90,44 +139,110 @@ export class TransferManager {
         return TransferManager.defaultInstance;
     }
     private static readonly defaultInstance = new TransferManager();
-    private static async fetchRepeatedly(
-        fetchFunction: typeof fetch,
-        retryCount: number,
-        maxRetries: number,
-        url: string,
-        init?: RequestInit
-    ): Promise<Response> {
-        try {
-            const response = await fetchFunction(url, init);
-            if (response.status !== 503 || retryCount > maxRetries) {
-                return response;
+    private static waitFor(milliseconds: number, signal?: AbortSignal | null): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (signal === undefined || signal === null) {
+                setTimeout(resolve, milliseconds);
+                return;
             }
-        } catch (err) {
-            if (
-                err.hasOwnProperty("isCancelled") ||
-                (err.hasOwnProperty("name") && err.name === "AbortError") ||
-                retryCount > maxRetries
-            ) {
-                throw err;
+            if (!isEventTarget(signal)) {
+                setTimeout(() => {
+                    if (signal.aborted) {
+                        reject(createAbortError());
+                    } else {
+                        resolve();
+                    }
+                }, milliseconds);
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timeout);
+                reject(createAbortError());
+            };
+            const timeout = setTimeout(() => {
+                signal.removeEventListener("abort", onAbort);
+                resolve();
+            }, milliseconds);
+            signal.addEventListener("abort", onAbort);
+        });
+    }
+    private static getRetryTimeout(retryCount: number, response?: Response): number {
+        const retryAfter =
+            response !== undefined && response.headers !== undefined
+                ? response.headers.get("Retry-After")
+                : null;
+        if (retryAfter !== null) {
+            const seconds = Number(retryAfter);
+            const timeout = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+            if (!isNaN(timeout)) {
+                return Math.min(Math.max(timeout, 0), TransferManager.maxRetryTimeout);
             }
         }
-        return TransferManager.waitFor(TransferManager.retryTimeout * retryCount).then(() =>
-            TransferManager.fetchRepeatedly(fetchFunction, maxRetries, retryCount + 1, url, init)
+        return Math.min(
+            TransferManager.retryTimeout * Math.pow(2, retryCount),
+            TransferManager.maxRetryTimeout
         );
     }
-    private static waitFor(milliseconds: number): Promise<void> {
-        return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
-    }
+    /**
+     * The amount of maximum parallel downloads to allow per host.
+     */
+    maxParallelDownloadsPerHost = TransferManager.maxParallelDownloadsPerHost;
     private activeDownloadCount = 0;
-    private downloadQueue = new Array<DeferredPromise<Response>>();
+    private activeHostDownloadCounts = new Map<string, number>();
+    private downloadQueue = new Array<QueuedDownload>();
     private activeDownloads = new Map<string, Promise<any>>();
+    private requestHooks = new Array<TransferRequestHook>();
+    private responseHooks = new Array<TransferResponseHook>();
     /**
      * Constructs a new [[TransferManager]].
      *
      * @param fetchFunction The default fetch function to use.
      * @param maxRetries The maximum amount to try to re-fetch a resource.
+     * @param cache The optional cache used by [[downloadArrayBuffer]].
+     */
+    constructor(
+        readonly fetchFunction = fetch,
+        readonly maxRetries: number = 5,
+        readonly cache?: TileCache
+    ) {}
+    /**
+     * Adds a function called before every request, including retries.
+     *
+     * @param hook The function to call.
+     */
+    addRequestHook(hook: TransferRequestHook) {
+        this.requestHooks.push(hook);
+    }
+    /**
+     * Removes a function added with [[addRequestHook]].
+     *
+     * @param hook The function to remove.
      */
-    constructor(readonly fetchFunction = fetch, readonly maxRetries: number = 5) {}
+    removeRequestHook(hook: TransferRequestHook) {
+        const index = this.requestHooks.indexOf(hook);
+        if (index !== -1) {
+            this.requestHooks.splice(index, 1);
+        }
+    }
+    /**
+     * Adds a function called for every response, including the responses of retried requests.
+     *
+     * @param hook The function to call.
+     */
+    addResponseHook(hook: TransferResponseHook) {
+        this.responseHooks.push(hook);
+    }
+    /**
+     * Removes a function added with [[addResponseHook]].
+     *
+     * @param hook The function to remove.
+     */
+    removeResponseHook(hook: TransferResponseHook) {
+        const index = this.responseHooks.indexOf(hook);
+        if (index !== -1) {
+            this.responseHooks.splice(index, 1);
+        }
+    }
     /**
      * Downloads a JSON object. Merges downloads if requested multiple times.
      *
@@ -138,7 +253,7 @@ export class TransferManager {
      * @param url The URL to download
      * @param init Optional extra parameters for the download.
      */
-    downloadJson<T>(url: string, init?: RequestInit): Promise<T> {
+    downloadJson<T>(url: string, init?: TransferRequestInit): Promise<T> {
         return this.downloadAs<T>(response => response.json(), url, init);
     }
     /**
@@ -148,10 +263,20 @@ export class TransferManager {
      * only one request. The init parameter is ignored if the download is merged.
      * Call [[download]] instead to download the resource without merging.
      *
+     * If a [[cache]] is set, `GET` requests are served from the cache while the cached response is
+     * fresh. Stale responses are revalidated with the `ETag` and `Last-Modified` headers they were
+     * received with.
+     *
      * @param url The URL to download
      * @param init Optional extra parameters for the download
      */
-    downloadArrayBuffer(url: string, init?: RequestInit): Promise<ArrayBuffer> {
+    downloadArrayBuffer(url: string, init?: TransferRequestInit): Promise<ArrayBuffer> {
+        if (
+            this.cache !== undefined &&
+            (init === undefined || init.method === undefined || init.method === "GET")
+        ) {
+            return this.downloadCachedArrayBuffer(this.cache, url, init);
+        }
         return this.download(url, init).then(response => response.arrayBuffer());
     }
     /**
@@ -159,44 +284,209 @@ export class TransferManager {
      *
      * Does not merge multiple requests to the same URL.
      *
+     * If the maximum amount of parallel downloads is reached, the download is queued until the
+     * downloads with higher priority are started. Queued downloads are rejected with an
+     * `AbortError` as soon as their `AbortSignal` is aborted.
+     *
      * @param url The URL to download.
      * @param init Optional extra parameters for the download.
      */
-    download(url: string, init?: RequestInit): Promise<Response> {
-        if (this.activeDownloadCount >= TransferManager.maxParallelDownloads) {
-            const deferred = new DeferredPromise<Response>(() => this.doDownload(url, init));
-            this.downloadQueue.push(deferred);
-            return deferred.promise;
+    download(url: string, init?: TransferRequestInit): Promise<Response> {
+        const signal = init !== undefined ? init.signal : undefined;
+        if (signal !== undefined && signal !== null && signal.aborted) {
+            return Promise.reject(createAbortError());
+        }
+        const host = getHost(url);
+        if (this.canStartDownload(host)) {
+            return this.doDownload(url, host, init);
         }
-        return this.doDownload(url, init);
+        return new Promise<Response>((resolve, reject) => {
+            const onAbort = () => {
+                const index = this.downloadQueue.indexOf(queuedDownload);
+                if (index !== -1) {
+                    this.downloadQueue.splice(index, 1);
+                }
+                reject(createAbortError());
+            };
+            const queuedDownload: QueuedDownload = {
+                host,
+                init,
+                start: () => {
+                    if (signal !== undefined && signal !== null) {
+                        if (signal.aborted) {
+                            reject(createAbortError());
+                            return;
+                        }
+                        if (isEventTarget(signal)) {
+                            signal.removeEventListener("abort", onAbort);
+                        }
+                    }
+                    this.doDownload(url, host, init).then(resolve, reject);
+                }
+            };
+            if (signal !== undefined && signal !== null && isEventTarget(signal)) {
+                signal.addEventListener("abort", onAbort);
+            }
+            this.downloadQueue.push(queuedDownload);
+        });
     }
-    private doDownload(url: string, init?: RequestInit): Promise<Response> {
+    private async downloadCachedArrayBuffer(
+        cache: TileCache,
+        url: string,
+        init?: TransferRequestInit
+    ): Promise<ArrayBuffer> {
+        const cached = await cache.get(url);
+        if (cached !== undefined && cache.isFresh(cached)) {
+            ++cache.statistics.hits;
+            return cached.data;
+        }
+
+        let revalidationInit = init;
+        if (
+            cached !== undefined &&
+            (cached.etag !== undefined || cached.lastModified !== undefined)
+        ) {
+            const headers = new Headers(init !== undefined ? init.headers : undefined);
+            if (cached.etag !== undefined) {
+                headers.set("If-None-Match", cached.etag);
+            }
+            if (cached.lastModified !== undefined) {
+                headers.set("If-Modified-Since", cached.lastModified);
+            }
+            revalidationInit = { ...init, headers };
+        }
+
+        const response = await this.download(url, revalidationInit);
+        if (cached !== undefined && response.status === 304) {
+            ++cache.statistics.hits;
+            ++cache.statistics.revalidations;
+            const revalidated = cache.createEntry(cached.data, response.headers);
+            if (revalidated === undefined) {
+                cache.delete(url).catch(ignoreCacheError);
+            } else {
+                if (revalidated.etag === undefined) {
+                    revalidated.etag = cached.etag;
+                }
+                if (revalidated.lastModified === undefined) {
+                    revalidated.lastModified = cached.lastModified;
+                }
+                cache.set(url, revalidated).catch(ignoreCacheError);
+            }
+            return cached.data;
+        }
+
+        ++cache.statistics.misses;
+        const data = await response.arrayBuffer();
+        const entry = response.ok ? cache.createEntry(data, response.headers) : undefined;
+        if (entry !== undefined) {
+            cache.set(url, entry).catch(ignoreCacheError);
+        }
+        return data;
+    }
+    private canStartDownload(host: string): boolean {
+        const hostDownloadCount = this.activeHostDownloadCounts.get(host);
+        return (
+            this.activeDownloadCount < TransferManager.maxParallelDownloads &&
+            (hostDownloadCount === undefined ||
+                hostDownloadCount < this.maxParallelDownloadsPerHost)
+        );
+    }
+    private doDownload(url: string, host: string, init?: TransferRequestInit): Promise<Response> {
         ++this.activeDownloadCount;
-        return TransferManager.fetchRepeatedly(this.fetchFunction, 0, this.maxRetries, url, init)
+        this.activeHostDownloadCounts.set(host, (this.activeHostDownloadCounts.get(host) || 0) + 1);
+        let fetchInit: RequestInit | undefined;
+        if (init !== undefined) {
+            // The priority is only used for queuing, it is not passed to `fetch`.
+            const { priority, ...requestInit } = init;
+            fetchInit = requestInit;
+        }
+        return this.fetchRepeatedly(0, url, fetchInit)
             .then(response => {
-                this.onDownloadDone();
+                this.onDownloadDone(host);
                 return response;
             })
             .catch(err => {
-                this.onDownloadDone();
+                this.onDownloadDone(host);
                 throw err;
             });
     }
-    private onDownloadDone() {
+    private async fetchRepeatedly(
+        retryCount: number,
+        url: string,
+        init?: RequestInit
+    ): Promise<Response> {
+        let response: Response | undefined;
+        try {
+            let requestInit: RequestInit = { ...init };
+            for (const hook of this.requestHooks) {
+                const hookInit = hook(url, requestInit);
+                if (hookInit !== undefined) {
+                    requestInit = hookInit;
+                }
+            }
+            response = await this.fetchFunction(url, requestInit);
+            for (const hook of this.responseHooks) {
+                hook(url, response);
+            }
+            if (
+                RETRY_STATUS_CODES.indexOf(response.status) === -1 ||
+                retryCount >= this.maxRetries
+            ) {
+                return response;
+            }
+        } catch (err) {
+            if (
+                err.hasOwnProperty("isCancelled") ||
+                (err.hasOwnProperty("name") && err.name === "AbortError") ||
+                retryCount >= this.maxRetries
+            ) {
+                throw err;
+            }
+        }
+        await TransferManager.waitFor(
+            TransferManager.getRetryTimeout(retryCount, response),
+            init !== undefined ? init.signal : undefined
+        );
+        return this.fetchRepeatedly(retryCount + 1, url, init);
+    }
+    private onDownloadDone(host: string) {
         --this.activeDownloadCount;
-        this.execDeferredDownload();
+        const hostDownloadCount = this.activeHostDownloadCounts.get(host)! - 1;
+        if (hostDownloadCount > 0) {
+            this.activeHostDownloadCounts.set(host, hostDownloadCount);
+        } else {
+            this.activeHostDownloadCounts.delete(host);
+        }
+        this.execQueuedDownloads();
     }
-    private execDeferredDownload() {
-        const future = this.downloadQueue.pop();
-        if (future === undefined) {
-            return;
+    private execQueuedDownloads() {
+        while (this.downloadQueue.length > 0) {
+            // Pick the download with the highest priority of a host with free download slots. The
+            // priorities may have changed while queued, so they are compared every time.
+            let nextIndex = -1;
+            let nextPriority = 0;
+            for (let i = 0; i < this.downloadQueue.length; i++) {
+                const download = this.downloadQueue[i];
+                const priority = getPriority(download);
+                if (
+                    (nextIndex === -1 || priority > nextPriority) &&
+                    this.canStartDownload(download.host)
+                ) {
+                    nextIndex = i;
+                    nextPriority = priority;
+                }
+            }
+            if (nextIndex === -1) {
+                return;
+            }
+            const [next] = this.downloadQueue.splice(nextIndex, 1);
+            next.start();
         }
-        future.exec();
     }
     private downloadAs<T>(
         converter: (response: Response) => Promise<T>,
         url: string,
-        init?: RequestInit
+        init?: TransferRequestInit
     ): Promise<T> {
         const cacheKey = url;
         const pendingFetch = this.activeDownloads.get(cacheKey);
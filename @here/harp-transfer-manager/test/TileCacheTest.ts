@@ -0,0 +1,147 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+// tslint:disable:completed-docs
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import { TileCache, TransferManager } from "../index";
+import { FileTileCacheStorage } from "../src/FileTileCacheStorage";
+
+describe("TileCache", function() {
+    const fakeDataUrl = `https://download.example.url/1/2/3.mvt`;
+
+    function createMockDownloadResponse(status: number, headers: { [name: string]: string }) {
+        return {
+            status,
+            ok: status >= 200 && status < 300,
+            headers: new Headers(headers),
+            arrayBuffer: sinon.stub().resolves(new Uint8Array([1, 2, 3]).buffer)
+        };
+    }
+
+    function bytes(data: ArrayBuffer | undefined) {
+        return data !== undefined ? Array.from(new Uint8Array(data)) : undefined;
+    }
+
+    it("removes the least recently used entries to stay within its size", async function() {
+        const cache = new TileCache({ maxSize: 8 });
+        await cache.set("a", { data: new ArrayBuffer(4), storedAt: 0 });
+        await cache.set("b", { data: new ArrayBuffer(4), storedAt: 0 });
+        assert.isDefined(await cache.get("a"));
+        await cache.set("c", { data: new ArrayBuffer(4), storedAt: 0 });
+        await cache.set("d", { data: new ArrayBuffer(16), storedAt: 0 });
+
+        assert.isDefined(await cache.get("a"));
+        assert.isUndefined(await cache.get("b"));
+        assert.isDefined(await cache.get("c"));
+        assert.isUndefined(await cache.get("d"));
+        assert.equal(cache.size, 8);
+        assert.equal(cache.statistics.evictions, 1);
+    });
+
+    it("takes the expiry time and validators from the response headers", function() {
+        const cache = new TileCache({ defaultMaxAge: 1000 });
+        const data = new ArrayBuffer(1);
+
+        const entry = cache.createEntry(
+            data,
+            new Headers({ "Cache-Control": "public, max-age=60", ETag: '"abc"' }),
+            0
+        );
+        assert.deepEqual(entry, { data, storedAt: 0, expires: 60000, etag: '"abc"' });
+        assert.equal(
+            cache.createEntry(data, new Headers({ "Cache-Control": "no-cache" }), 0)!.expires,
+            0
+        );
+        assert.equal(cache.createEntry(data, new Headers(), 0)!.expires, 1000);
+        assert.isUndefined(
+            cache.createEntry(data, new Headers({ "Cache-Control": "no-store" }), 0)
+        );
+    });
+
+    it("serves fresh downloads from the cache", async function() {
+        const fetchStub = sinon
+            .stub()
+            .resolves(createMockDownloadResponse(200, { "Cache-Control": "max-age=3600" }));
+        const cache = new TileCache();
+        const transferManager = new TransferManager(fetchStub, 5, cache);
+
+        assert.deepEqual(bytes(await transferManager.downloadArrayBuffer(fakeDataUrl)), [1, 2, 3]);
+        assert.deepEqual(bytes(await transferManager.downloadArrayBuffer(fakeDataUrl)), [1, 2, 3]);
+
+        assert.equal(fetchStub.callCount, 1);
+        assert.deepInclude(cache.statistics, { hits: 1, misses: 1 });
+    });
+
+    it("revalidates stale downloads", async function() {
+        const fetchStub = sinon.stub();
+        fetchStub
+            .onFirstCall()
+            .resolves(createMockDownloadResponse(200, { "Cache-Control": "no-cache", ETag: "v1" }));
+        fetchStub.onSecondCall().resolves(createMockDownloadResponse(304, {}));
+        const cache = new TileCache();
+        const transferManager = new TransferManager(fetchStub, 5, cache);
+
+        await transferManager.downloadArrayBuffer(fakeDataUrl);
+        const data = await transferManager.downloadArrayBuffer(fakeDataUrl);
+
+        assert.deepEqual(bytes(data), [1, 2, 3]);
+        assert.equal(fetchStub.callCount, 2);
+        const init: RequestInit = fetchStub.secondCall.args[1];
+        assert.equal((init.headers as Headers).get("If-None-Match"), "v1");
+        assert.deepEqual(cache.statistics, { hits: 1, misses: 1, revalidations: 1, evictions: 0 });
+    });
+
+    it("does not cache failed downloads", async function() {
+        const fetchStub = sinon.stub().resolves(createMockDownloadResponse(404, {}));
+        const cache = new TileCache({ defaultMaxAge: 3600 });
+        const transferManager = new TransferManager(fetchStub, 5, cache);
+
+        await transferManager.downloadArrayBuffer(fakeDataUrl);
+        await transferManager.downloadArrayBuffer(fakeDataUrl);
+
+        assert.equal(fetchStub.callCount, 2);
+        assert.equal(cache.size, 0);
+    });
+
+    it("keeps the entries of a file storage between sessions", async function() {
+        const directory = path.join(os.tmpdir(), `harp-tile-cache-${process.pid}`);
+        try {
+            const cache = new TileCache({ storage: new FileTileCacheStorage(directory) });
+            await cache.set("a", { data: new Uint8Array([1]).buffer, storedAt: 1, etag: "x" });
+            await cache.set("b", { data: new Uint8Array([2, 3]).buffer, storedAt: 2 });
+
+            const reopenedCache = new TileCache({
+                storage: new FileTileCacheStorage(directory),
+                maxSize: 3
+            });
+            const entry = await reopenedCache.get("a");
+            assert.deepEqual(bytes(entry!.data), [1]);
+            assert.equal(entry!.etag, "x");
+            assert.equal(reopenedCache.size, 3);
+
+            await reopenedCache.set("c", { data: new Uint8Array([4]).buffer, storedAt: 3 });
+            assert.isUndefined(await reopenedCache.get("b"));
+            assert.deepEqual(bytes((await reopenedCache.get("c"))!.data), [4]);
+        } finally {
+            if (fs.existsSync(directory)) {
+                for (const file of fs.readdirSync(directory)) {
+                    fs.unlinkSync(path.join(directory, file));
+                }
+                fs.rmdirSync(directory);
+            }
+        }
+    });
+});
@@ -154,4 +154,178 @@ describe("TransferManager", function() {
         assert.strictEqual(numberOfArrayBufferDownloads, 1);
         assert.isTrue(arrayBufferResult.every(val => val.byteLength === 5));
     });
+
+    describe("queuing", function() {
+        // Fetch function resolving the requests when `respond` is called.
+        function createPendingFetch() {
+            const urls: string[] = [];
+            const pending: Array<() => void> = [];
+            const fetchFunction = sinon.stub().callsFake((url: string) => {
+                urls.push(url);
+                return new Promise(resolve => {
+                    pending.push(() => resolve(createMockDownloadResponse()));
+                });
+            });
+            const respondAll = async () => {
+                while (pending.length > 0) {
+                    pending.shift()!();
+                    // Let the transfer manager start the next download.
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            };
+            return { fetchFunction, urls, respondAll };
+        }
+
+        it("#download starts queued downloads by priority", async function() {
+            const { fetchFunction, urls, respondAll } = createPendingFetch();
+            const downloadMgr = new TransferManager(fetchFunction, 5);
+            downloadMgr.maxParallelDownloadsPerHost = 1;
+
+            const lowPriority = { priority: 1 };
+            const downloads = [
+                downloadMgr.download("https://a.example/first"),
+                downloadMgr.download("https://a.example/low", { priority: lowPriority }),
+                downloadMgr.download("https://a.example/high", { priority: { priority: 2 } }),
+                downloadMgr.download("https://a.example/none")
+            ];
+            // Priorities may change while the downloads are queued.
+            lowPriority.priority = 3;
+
+            await respondAll();
+            await Promise.all(downloads);
+
+            assert.deepEqual(urls, [
+                "https://a.example/first",
+                "https://a.example/low",
+                "https://a.example/high",
+                "https://a.example/none"
+            ]);
+        });
+
+        it("#download drops queued downloads when they are aborted", async function() {
+            const { fetchFunction, urls, respondAll } = createPendingFetch();
+            const downloadMgr = new TransferManager(fetchFunction, 5);
+            downloadMgr.maxParallelDownloadsPerHost = 1;
+
+            const abortController = new AbortController();
+            const first = downloadMgr.download("https://a.example/first");
+            const aborted = downloadMgr.download("https://a.example/aborted", {
+                signal: abortController.signal
+            });
+            const last = downloadMgr.download("https://a.example/last");
+            abortController.abort();
+
+            let error: Error | undefined;
+            try {
+                await aborted;
+            } catch (e) {
+                error = e;
+            }
+            assert.equal(error!.name, "AbortError");
+
+            await respondAll();
+            await Promise.all([first, last]);
+            assert.deepEqual(urls, ["https://a.example/first", "https://a.example/last"]);
+        });
+
+        it("#download drops queued downloads of signals without abort events", async function() {
+            const { fetchFunction, urls, respondAll } = createPendingFetch();
+            const downloadMgr = new TransferManager(fetchFunction, 5);
+            downloadMgr.maxParallelDownloadsPerHost = 1;
+
+            // Some polyfills only provide the `aborted` flag.
+            const signal: { aborted: boolean } = { aborted: false };
+            const first = downloadMgr.download("https://a.example/first");
+            const aborted = downloadMgr.download("https://a.example/aborted", {
+                signal: signal as AbortSignal
+            });
+            // Handle the rejection before the queue is drained, where it happens.
+            const abortedResult = aborted.then(() => undefined, (e: Error) => e);
+            const last = downloadMgr.download("https://a.example/last");
+            signal.aborted = true;
+
+            await respondAll();
+            const error = await abortedResult;
+            assert.equal(error!.name, "AbortError");
+
+            await Promise.all([first, last]);
+            assert.deepEqual(urls, ["https://a.example/first", "https://a.example/last"]);
+        });
+
+        it("#download limits the parallel downloads per host", async function() {
+            const { fetchFunction, urls, respondAll } = createPendingFetch();
+            const downloadMgr = new TransferManager(fetchFunction, 5);
+            downloadMgr.maxParallelDownloadsPerHost = 2;
+
+            const downloads = [
+                downloadMgr.download("https://a.example/1"),
+                downloadMgr.download("https://a.example/2"),
+                downloadMgr.download("https://a.example/3"),
+                downloadMgr.download("https://b.example/1")
+            ];
+            assert.deepEqual(urls, [
+                "https://a.example/1",
+                "https://a.example/2",
+                "https://b.example/1"
+            ]);
+
+            await respondAll();
+            await Promise.all(downloads);
+            assert.equal(urls.length, 4);
+        });
+    });
+
+    it("#download retries on HTTP 429 honoring Retry-After", async function() {
+        const tooManyRequests = createMockDownloadResponse();
+        tooManyRequests.status = 429;
+        tooManyRequests.ok = false;
+        tooManyRequests.headers = new Headers({ "Retry-After": "0" });
+        const fetchStub = sinon.stub();
+        fetchStub.onFirstCall().resolves(tooManyRequests);
+        fetchStub.onSecondCall().resolves(createMockDownloadResponse());
+        const downloadMgr = new TransferManager(fetchStub, 5);
+
+        const response = await downloadMgr.download(fakeDataUrl);
+
+        assert.equal(fetchStub.callCount, 2);
+        assert.equal(response.status, 200);
+    });
+
+    it("#download does not retry more often than maxRetries", async function() {
+        const unavailable = createMockDownloadResponse();
+        unavailable.status = 503;
+        unavailable.ok = false;
+        unavailable.headers = new Headers({ "Retry-After": "0" });
+        const fetchStub = sinon.stub().resolves(unavailable);
+        const downloadMgr = new TransferManager(fetchStub, 2);
+
+        const response = await downloadMgr.download(fakeDataUrl);
+
+        assert.equal(fetchStub.callCount, 3);
+        assert.equal(response.status, 503);
+    });
+
+    it("#download calls the request and response hooks", async function() {
+        const fetchStub = sinon.stub().resolves(createMockDownloadResponse());
+        const downloadMgr = new TransferManager(fetchStub, 5);
+        const responses: string[] = [];
+        const requestHook = (url: string, init: RequestInit) => ({
+            ...init,
+            headers: { Authorization: "Bearer token" }
+        });
+        downloadMgr.addRequestHook(requestHook);
+        downloadMgr.addResponseHook((url, response) => {
+            responses.push(`${url} ${response.status}`);
+        });
+
+        await downloadMgr.download(fakeDataUrl, { priority: { priority: 1 } });
+        downloadMgr.removeRequestHook(requestHook);
+        await downloadMgr.download(fakeDataUrl);
+
+        assert.deepEqual(fetchStub.firstCall.args[1], {
+            headers: { Authorization: "Bearer token" }
+        });
+        assert.deepEqual(fetchStub.secondCall.args[1], {});
+        assert.deepEqual(responses, [`${fakeDataUrl} 200`, `${fakeDataUrl} 200`]);
+    });
 });
@@ -4,4 +4,6 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./lib/RasterTileDataSource";
 export * from "./lib/WebTileDataSource";
+export * from "./lib/WmtsCapabilities";
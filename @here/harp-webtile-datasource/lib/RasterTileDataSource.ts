@@ -0,0 +1,414 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+// tslint:disable-next-line: max-line-length
+import { SphericalGeometrySubdivisionModifier } from "@here/harp-geometry/lib/SphericalGeometrySubdivisionModifier";
+import { mercatorTilingScheme, ProjectionType, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { CopyrightInfo, DataSource, TerrainDraping, Tile } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { RasterStyle, RasterTileMaterial } from "@here/harp-materials";
+import { getOptionValue, LoggerManager } from "@here/harp-utils";
+
+const logger = LoggerManager.instance.create("RasterTileDataSource");
+
+/**
+ * Number of segments along each side of draped tiles.
+ */
+const DRAPED_TILE_SEGMENTS = 16;
+
+const textureLoader = new THREE.TextureLoader();
+textureLoader.crossOrigin = ""; // empty assignment required to support CORS
+
+/**
+ * An interface for the type of parameters that can be passed to the [[RasterTileDataSource]].
+ */
+export interface RasterTileDataSourceParameters {
+    /**
+     * Template of the tile URLs, with the following placeholders:
+     *  * `{z}`: the level of the tile, or its identifier in [[levelIds]],
+     *  * `{x}`: the column of the tile, counted from the west,
+     *  * `{y}`: the row of the tile, counted from the north, or from the south if [[tms]] is set,
+     *  * `{quadkey}`: the quadkey of the tile, as used by Bing Maps,
+     *  * `{s}`: one of the [[subdomains]],
+     *  * `{r}`: `@2x` if [[retina]] is set, empty otherwise.
+     *
+     * For example `https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png`.
+     *
+     * Either the `url` or a [[dataProvider]] is required.
+     */
+    url?: string;
+
+    /**
+     * [[DataProvider]] delivering the images of the tiles instead of the [[url]], for example a
+     * [[TilePackageDataProvider]] serving the tiles without connectivity.
+     */
+    dataProvider?: DataProvider;
+
+    /**
+     * Subdomains to distribute the tile requests to.
+     *
+     * @default `["a", "b", "c"]`
+     */
+    subdomains?: string[];
+
+    /**
+     * Whether the rows of the tiles are counted from the south, as in the Tile Map Service (TMS)
+     * specification.
+     *
+     * @default `false`
+     */
+    tms?: boolean;
+
+    /**
+     * Whether to request the high resolution variant of the tiles for high DPI displays, see the
+     * `{r}` placeholder of [[url]].
+     *
+     * @default `false`
+     */
+    retina?: boolean;
+
+    /**
+     * Identifiers of the levels used for the `{z}` placeholder of [[url]], for example the tile
+     * matrix identifiers of a WMTS layer. By default the level itself is used.
+     */
+    levelIds?: string[];
+
+    /**
+     * The [[TilingScheme]] of the tiles.
+     *
+     * @default [[mercatorTilingScheme]]
+     */
+    tilingScheme?: TilingScheme;
+
+    /**
+     * The resolution of the tile images, defaults to 256.
+     */
+    resolution?: number;
+
+    /**
+     * Copyright info of the tiles.
+     */
+    copyrightInfo?: CopyrightInfo[];
+
+    /**
+     * Opacity, color adjustments and blending of the tiles.
+     *
+     * @default [[RasterTileMaterial.DEFAULT_STYLE]]
+     */
+    style?: Partial<RasterStyle>;
+
+    /**
+     * The unique name of this [[RasterTileDataSource]].
+     */
+    name?: string;
+
+    /**
+     * Minimum level of the tiles.
+     *
+     * @default 1
+     */
+    minZoomLevel?: number;
+
+    /**
+     * Maximum level of the tiles.
+     *
+     * @default 20
+     */
+    maxZoomLevel?: number;
+}
+
+/**
+ * Instances of `RasterTileDataSource` can be used to add raster tiles of any XYZ, TMS or WMTS
+ * tile server to [[MapView]].
+ *
+ * Example:
+ *
+ * ```typescript
+ * const rasterTileDataSource = new RasterTileDataSource({
+ *     url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+ *     copyrightInfo: [{ id: "openstreetmap.org", label: "OpenStreetMap contributors" }]
+ * });
+ * ```
+ * @see [[DataSource]], [[WebTileDataSource]], [[loadWmtsCapabilities]].
+ */
+export class RasterTileDataSource extends DataSource {
+    private readonly m_tilingScheme: TilingScheme;
+    private readonly m_rowsFromNorth: boolean;
+    private readonly m_style: RasterStyle = { ...RasterTileMaterial.DEFAULT_STYLE };
+    private readonly m_materials = new Set<RasterTileMaterial>();
+
+    /**
+     * Constructs a new `RasterTileDataSource`.
+     *
+     * @param m_params Represents the [[RasterTileDataSourceParameters]].
+     */
+    constructor(private readonly m_params: RasterTileDataSourceParameters) {
+        super(
+            m_params.name,
+            undefined,
+            getOptionValue(m_params.minZoomLevel, 1),
+            getOptionValue(m_params.maxZoomLevel, 20)
+        );
+        if (m_params.url === undefined && m_params.dataProvider === undefined) {
+            throw new Error("RasterTileDataSource: missing url or dataProvider params");
+        }
+        this.cacheable = true;
+        // Tiles of 512 pixels cover the area of four tiles of 256 pixels at the same level.
+        this.storageLevelOffset = getOptionValue(m_params.resolution, 256) >= 512 ? -1 : 0;
+        this.m_tilingScheme = getOptionValue(m_params.tilingScheme, mercatorTilingScheme);
+
+        const firstTile = this.m_tilingScheme.getGeoBox(TileKey.fromRowColumnLevel(0, 0, 1));
+        this.m_rowsFromNorth = firstTile.north > 0;
+
+        if (m_params.style !== undefined) {
+            this.setRasterStyle(m_params.style);
+        }
+    }
+
+    /**
+     * The opacity, color adjustments and blending of the tiles.
+     */
+    get rasterStyle(): Readonly<RasterStyle> {
+        return this.m_style;
+    }
+
+    /**
+     * Changes the opacity, color adjustments or blending of the tiles. The loaded tiles are
+     * updated immediately, so the style can be animated by calling this method before every frame
+     * rendered with [[MapView.update]].
+     *
+     * @param style The properties of the style to change, the others are left unchanged.
+     */
+    setRasterStyle(style: Partial<RasterStyle>) {
+        for (const key of Object.keys(style) as Array<keyof RasterStyle>) {
+            if (style[key] !== undefined) {
+                (this.m_style as any)[key] = style[key];
+            }
+        }
+        this.m_materials.forEach(material => material.setStyle(this.m_style));
+        this.requestUpdate();
+    }
+
+    async connect(): Promise<void> {
+        if (this.m_params.dataProvider !== undefined) {
+            await this.m_params.dataProvider.connect();
+        }
+    }
+
+    shouldPreloadTiles(): boolean {
+        return true;
+    }
+
+    getTilingScheme(): TilingScheme {
+        return this.m_tilingScheme;
+    }
+
+    /**
+     * Returns the URL of a tile by replacing the placeholders of the URL template.
+     *
+     * @param tileKey The tile key of the tile.
+     */
+    getTileUrl(tileKey: TileKey): string {
+        const { level, column } = tileKey;
+        const rowFromNorth = this.m_rowsFromNorth
+            ? tileKey.row
+            : tileKey.rowCount() - tileKey.row - 1;
+        const row =
+            this.m_params.tms === true ? tileKey.rowCount() - rowFromNorth - 1 : rowFromNorth;
+
+        const levelIds = this.m_params.levelIds;
+        const subdomains = getOptionValue(this.m_params.subdomains, ["a", "b", "c"]);
+        // Neighbouring tiles are requested from different subdomains, the index is the last digit
+        // of the quadkey.
+        const subdomain =
+            subdomains[((tileKey.row % 2) * 2 + (column % 2)) % Math.max(subdomains.length, 1)];
+
+        if (this.m_params.url === undefined) {
+            throw new Error("RasterTileDataSource#getTileUrl: The tiles have no url");
+        }
+        return this.m_params.url
+            .replace("{z}", levelIds !== undefined ? levelIds[level] : String(level))
+            .replace("{x}", String(column))
+            .replace("{y}", String(row))
+            .replace(
+                "{quadkey}",
+                TileKey.fromRowColumnLevel(rowFromNorth, column, level).toQuadKey()
+            )
+            .replace("{s}", subdomain !== undefined ? subdomain : "")
+            .replace("{r}", this.m_params.retina === true ? "@2x" : "");
+    }
+
+    getTile(tileKey: TileKey): Tile {
+        const tile = new Tile(this, tileKey);
+
+        Promise.all([this.loadTileTexture(tileKey), this.getTileCopyright(tile)])
+            .then(([texture, copyrightInfo]) => {
+                tile.copyrightInfo = copyrightInfo;
+                if (texture === undefined) {
+                    // Tiles missing in the data provider are empty.
+                    tile.forceHasGeometry(true);
+                    this.requestUpdate();
+                    return;
+                }
+
+                texture.minFilter = THREE.LinearFilter;
+                texture.magFilter = THREE.LinearFilter;
+                texture.generateMipmaps = false;
+                tile.addOwnedTexture(texture);
+
+                const geometry = this.createTileGeometry(tile);
+                const material = new RasterTileMaterial({ map: texture, ...this.m_style });
+                this.m_materials.add(material);
+                material.addEventListener("dispose", () => {
+                    this.m_materials.delete(material);
+                });
+
+                const mesh = new THREE.Mesh(geometry, material);
+                tile.objects.push(mesh);
+
+                if (this.mapView.drapeOverTerrain && this.mapView.elevationProvider !== undefined) {
+                    tile.terrainDraping = new TerrainDraping(tile);
+                    tile.terrainDraping.addGeometry(geometry);
+                }
+                tile.invalidateResourceInfo();
+                this.requestUpdate();
+            })
+            .catch(error => {
+                logger.error(`failed to load raster tile ${tileKey.mortonCode()}: ${error}`);
+            });
+        return tile;
+    }
+
+    /**
+     * Returns the copyright info of a tile.
+     *
+     * @param tile The tile to get the copyright info for.
+     */
+    protected getTileCopyright(tile: Tile): Promise<CopyrightInfo[]> {
+        return Promise.resolve(getOptionValue(this.m_params.copyrightInfo, []));
+    }
+
+    private createTileGeometry(tile: Tile): THREE.BufferGeometry {
+        const shouldSubdivide = this.projection.type === ProjectionType.Spherical;
+
+        const sourceProjection = this.getTilingScheme().projection;
+
+        const bounds = new THREE.Box3();
+        sourceProjection.projectBox(tile.geoBox, bounds);
+
+        const size = new THREE.Vector3();
+        bounds.getSize(size);
+
+        // Draped tiles are subdivided to follow the terrain.
+        const drapeOverTerrain =
+            this.mapView.drapeOverTerrain && this.mapView.elevationProvider !== undefined;
+        const segments = drapeOverTerrain ? DRAPED_TILE_SEGMENTS : 1;
+
+        const g = new THREE.Geometry();
+
+        // Vertices start in the south, which is at the maximum y in projections counting rows from
+        // the north.
+        const south = this.m_rowsFromNorth ? bounds.max.y : bounds.min.y;
+        const northward = this.m_rowsFromNorth ? -size.y : size.y;
+
+        for (let y = 0; y <= segments; ++y) {
+            for (let x = 0; x <= segments; ++x) {
+                g.vertices.push(
+                    new THREE.Vector3(
+                        bounds.min.x + (size.x * x) / segments,
+                        south + (northward * y) / segments,
+                        0
+                    )
+                );
+            }
+        }
+
+        for (let y = 0; y < segments; ++y) {
+            for (let x = 0; x < segments; ++x) {
+                const southWest = y * (segments + 1) + x;
+                const southEast = southWest + 1;
+                const northWest = southWest + segments + 1;
+                const northEast = northWest + 1;
+                const u0 = x / segments;
+                const u1 = (x + 1) / segments;
+                const v0 = y / segments;
+                const v1 = (y + 1) / segments;
+
+                g.faceVertexUvs[0].push(
+                    [
+                        new THREE.Vector2(u0, v0),
+                        new THREE.Vector2(u1, v0),
+                        new THREE.Vector2(u0, v1)
+                    ],
+                    [
+                        new THREE.Vector2(u0, v1),
+                        new THREE.Vector2(u1, v0),
+                        new THREE.Vector2(u1, v1)
+                    ]
+                );
+                g.faces.push(
+                    new THREE.Face3(southWest, southEast, northWest),
+                    new THREE.Face3(northWest, southEast, northEast)
+                );
+            }
+        }
+
+        if (shouldSubdivide) {
+            const modifier = new SphericalGeometrySubdivisionModifier(
+                THREE.Math.degToRad(10),
+                sourceProjection
+            );
+
+            modifier.modify(g);
+        }
+
+        g.vertices.forEach(v => {
+            this.projection.reprojectPoint(sourceProjection, v, v);
+            v.sub(tile.center);
+        });
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.fromGeometry(g);
+        return geometry;
+    }
+
+    private async loadTileTexture(tileKey: TileKey): Promise<THREE.Texture | undefined> {
+        const dataProvider = this.m_params.dataProvider;
+        if (dataProvider === undefined) {
+            return this.loadTexture(this.getTileUrl(tileKey));
+        }
+        const data = await dataProvider.getTile(tileKey);
+        const byteLength = (data as ArrayBufferLike).byteLength;
+        if (byteLength === undefined || byteLength === 0) {
+            return undefined;
+        }
+        const url = URL.createObjectURL(new Blob([data as ArrayBuffer]));
+        try {
+            return await this.loadTexture(url);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    private loadTexture(url: string): Promise<THREE.Texture> {
+        return new Promise((resolve, reject) => {
+            textureLoader.load(
+                url,
+                texture => {
+                    resolve(texture);
+                },
+                undefined, // onProgress
+                () => {
+                    // ErrorEvent received here doesn't have any meaningful code/ message to be
+                    // shown
+                    reject(new Error("failed to load texture"));
+                }
+            );
+        });
+    }
+}
@@ -4,29 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import * as THREE from "three";
-
-// tslint:disable-next-line: max-line-length
-import { SphericalGeometrySubdivisionModifier } from "@here/harp-geometry/lib/SphericalGeometrySubdivisionModifier";
-import {
-    GeoCoordinates,
-    mercatorTilingScheme,
-    ProjectionType,
-    TileKey,
-    TilingScheme
-} from "@here/harp-geoutils";
-import { CopyrightInfo, DataSource, Tile } from "@here/harp-mapview";
-import { getOptionValue, LoggerManager } from "@here/harp-utils";
-
-const logger = LoggerManager.instance.create("MapView");
+import { TileKey } from "@here/harp-geoutils";
+import { CopyrightInfo, Tile } from "@here/harp-mapview";
+import { RasterStyle } from "@here/harp-materials";
+import { getOptionValue } from "@here/harp-utils";
+import { RasterTileDataSource } from "./RasterTileDataSource";
 
 declare const require: any;
 // tslint:disable-next-line:no-var-requires
 const RTree = require("rtree");
 
-const textureLoader = new THREE.TextureLoader();
-textureLoader.crossOrigin = ""; // empty assignment required to support CORS
-
 /**
  * An interface for the type of parameters that can be passed to the [[WebTileDataSource]].
  */
@@ -104,6 +91,13 @@ export interface WebTileDataSourceParameters {
      * @default `true`
      */
     gatherCopyrightInfo?: boolean;
+
+    /**
+     * Opacity, color adjustments and blending of the tiles.
+     *
+     * @default [[RasterTileMaterial.DEFAULT_STYLE]]
+     */
+    style?: Partial<RasterStyle>;
 }
 
 /**
@@ -233,6 +227,25 @@ const hereCopyrightInfo: CopyrightInfo = {
     label: "HERE"
 };
 
+/**
+ * Returns the template of the tile URLs of a [[WebTileDataSource]].
+ */
+function getUrlTemplate(options: WebTileDataSourceParameters): string {
+    const tileBaseAddress = options.tileBaseAddress || WebTileDataSource.TILE_BASE_NORMAL;
+    const resolution = getOptionValue(options.resolution, 512);
+    const ppi = getOptionValue(options.ppi, -1);
+    const { appId, appCode } = options;
+    let url =
+        `https://{s}.${tileBaseAddress}/{z}/{x}/{y}/${resolution}/png8` +
+        `?app_id=${appId}&app_code=${appCode}` +
+        getOptionValue(options.additionalRequestParameters, "");
+
+    if (ppi !== -1) {
+        url += `&ppi=${ppi}`;
+    }
+    return url;
+}
+
 /**
  * Instances of `WebTileDataSource` can be used to add Web Tile to [[MapView]].
  *
@@ -244,9 +257,9 @@ const hereCopyrightInfo: CopyrightInfo = {
  *     appCode: <appCode>
  * });
  * ```
- * @see [[DataSource]], [[OmvDataSource]].
+ * @see [[RasterTileDataSource]], [[OmvDataSource]].
  */
-export class WebTileDataSource extends DataSource {
+export class WebTileDataSource extends RasterTileDataSource {
     /**
      * Base address for Base Map rendered using `normal.day` scheme.
      * @see https://developer.here.com/documentation/map-tile/topics/example-normal-day-view.html
@@ -274,8 +287,6 @@ export class WebTileDataSource extends DataSource {
     static readonly TILE_TRAFFIC_NORMAL =
         "traffic.maps.api.here.com/maptile/2.1/traffictile/newest/normal.day";
 
-    private m_resolution: number;
-    private m_ppi: number;
     private m_tileBaseAddress: string;
     private m_languages?: string[];
     private m_cachedCopyrightResponse?: Promise<AreaCopyrightInfo[]>;
@@ -286,22 +297,19 @@ export class WebTileDataSource extends DataSource {
      * @param m_options Represents the [[WebTileDataSourceParameters]].
      */
     constructor(private readonly m_options: WebTileDataSourceParameters) {
-        super("webtile", undefined, 1, 20);
-        this.cacheable = true;
-        this.storageLevelOffset = -1;
-        this.m_resolution = getOptionValue(m_options.resolution, 512);
-        this.m_ppi = getOptionValue(m_options.ppi, -1);
+        super({
+            url: getUrlTemplate(m_options),
+            // Servers are numbered from 1 to 4.
+            subdomains: ["1", "2", "3", "4"],
+            resolution: getOptionValue(m_options.resolution, 512),
+            name: "webtile",
+            minZoomLevel: 1,
+            maxZoomLevel: 20,
+            style: m_options.style
+        });
         this.m_tileBaseAddress = m_options.tileBaseAddress || WebTileDataSource.TILE_BASE_NORMAL;
     }
 
-    shouldPreloadTiles(): boolean {
-        return true;
-    }
-
-    getTilingScheme(): TilingScheme {
-        return mercatorTilingScheme;
-    }
-
     setLanguages(languages?: string[]): void {
         if (languages !== undefined) {
             this.mapIsoLanguageToWebTile(languages);
@@ -309,24 +317,8 @@ export class WebTileDataSource extends DataSource {
         }
     }
 
-    getTile(tileKey: TileKey): Tile {
-        const tile = new Tile(this, tileKey);
-
-        const column = tileKey.column;
-        const row = tileKey.rowCount() - tileKey.row - 1;
-        const level = tileKey.level;
-        const { appId, appCode } = this.m_options;
-        const quadKey = tileKey.toQuadKey();
-        const server = parseInt(quadKey[quadKey.length - 1], 10) + 1;
-        let url =
-            `https://${server}.${this.m_tileBaseAddress}/` +
-            `${level}/${column}/${row}/${this.m_resolution}/png8` +
-            `?app_id=${appId}&app_code=${appCode}` +
-            getOptionValue(this.m_options.additionalRequestParameters, "");
-
-        if (this.m_ppi !== -1) {
-            url += `&ppi=${this.m_ppi}`;
-        }
+    getTileUrl(tileKey: TileKey): string {
+        let url = super.getTileUrl(tileKey);
         if (this.m_languages !== undefined && this.m_languages[0] !== undefined) {
             url += `&lg=${this.m_languages[0]}`;
         }
@@ -334,129 +326,10 @@ export class WebTileDataSource extends DataSource {
         if (this.m_languages !== undefined && this.m_languages[1] !== undefined) {
             url += `&lg2=${this.m_languages[1]}`;
         }
-
-        Promise.all([this.loadTexture(url), this.getTileCopyright(tile)])
-            .then(([texture, copyrightInfo]) => {
-                tile.copyrightInfo = copyrightInfo;
-
-                texture.minFilter = THREE.LinearFilter;
-                texture.magFilter = THREE.LinearFilter;
-                texture.generateMipmaps = false;
-                tile.addOwnedTexture(texture);
-
-                const shouldSubdivide = this.projection.type === ProjectionType.Spherical;
-
-                const sourceProjection = this.getTilingScheme().projection;
-
-                const bounds = new THREE.Box3();
-                sourceProjection.projectBox(tile.geoBox, bounds);
-
-                const size = new THREE.Vector3();
-                bounds.getSize(size);
-
-                const { east, west, north, south } = tile.geoBox;
-
-                const g = new THREE.Geometry();
-
-                g.vertices.push(
-                    sourceProjection.projectPoint(
-                        new GeoCoordinates(south, west),
-                        new THREE.Vector3()
-                    ),
-
-                    sourceProjection.projectPoint(
-                        new GeoCoordinates(south, east),
-                        new THREE.Vector3()
-                    ),
-
-                    sourceProjection.projectPoint(
-                        new GeoCoordinates(north, west),
-                        new THREE.Vector3()
-                    ),
-
-                    sourceProjection.projectPoint(
-                        new GeoCoordinates(north, east),
-                        new THREE.Vector3()
-                    )
-                );
-
-                g.faceVertexUvs[0] = [
-                    [new THREE.Vector2(0, 0), new THREE.Vector2(1, 0), new THREE.Vector2(0, 1)],
-                    [new THREE.Vector2(0, 1), new THREE.Vector2(1, 0), new THREE.Vector2(1, 1)]
-                ];
-
-                g.faces.push(new THREE.Face3(0, 1, 2), new THREE.Face3(2, 1, 3));
-
-                if (shouldSubdivide) {
-                    const modifier = new SphericalGeometrySubdivisionModifier(
-                        THREE.Math.degToRad(10),
-                        sourceProjection
-                    );
-
-                    modifier.modify(g);
-
-                    const center = new THREE.Vector3();
-                    bounds.getCenter(center);
-                }
-
-                g.vertices.forEach(v => {
-                    this.projection.reprojectPoint(sourceProjection, v, v);
-                    v.sub(tile.center);
-                });
-
-                const geometry = new THREE.BufferGeometry();
-                geometry.fromGeometry(g);
-
-                const material = new THREE.MeshBasicMaterial({
-                    map: texture
-                });
-
-                const mesh = new THREE.Mesh(geometry, material);
-                tile.objects.push(mesh);
-                tile.invalidateResourceInfo();
-                this.requestUpdate();
-            })
-            .catch(error => {
-                logger.error(`failed to load webtile ${tileKey.mortonCode()}: ${error}`);
-            });
-        return tile;
-    }
-
-    private parseBaseUrl(url: string): MapTileParams {
-        const parsed = new URL(url.startsWith("https:") ? url : `https://${url}`);
-        const fullPath = parsed.pathname;
-        const maptilePathRegexp = new RegExp("^(/maptile/2.1/)([^/]+)/([^/]+)/([^/]+)");
-        const match = fullPath.match(maptilePathRegexp);
-        if (!match) {
-            throw new Error(`WebTileDataSource: invalid baseUrl: ${url}`);
-        }
-        return {
-            baseUrl: parsed.host,
-            path: match[1],
-            tileType: match[2],
-            mapVestion: match[3],
-            scheme: match[4]
-        };
-    }
-
-    private loadTexture(url: string): Promise<THREE.Texture> {
-        return new Promise((resolve, reject) => {
-            textureLoader.load(
-                url,
-                texture => {
-                    resolve(texture);
-                },
-                undefined, // onProgress
-                () => {
-                    // ErrorEvent received here doesn't have any meaningful code/ message to be
-                    // shown
-                    reject(new Error("failed to load texture"));
-                }
-            );
-        });
+        return url;
     }
 
-    private async getTileCopyright(tile: Tile): Promise<CopyrightInfo[]> {
+    protected async getTileCopyright(tile: Tile): Promise<CopyrightInfo[]> {
         // NOTE:
         // For some reason Map Tile copyright endpoint doesn't return HERE as copyright holder, so
         // add it statically.
@@ -492,6 +365,23 @@ export class WebTileDataSource extends DataSource {
         return result;
     }
 
+    private parseBaseUrl(url: string): MapTileParams {
+        const parsed = new URL(url.startsWith("https:") ? url : `https://${url}`);
+        const fullPath = parsed.pathname;
+        const maptilePathRegexp = new RegExp("^(/maptile/2.1/)([^/]+)/([^/]+)/([^/]+)");
+        const match = fullPath.match(maptilePathRegexp);
+        if (!match) {
+            throw new Error(`WebTileDataSource: invalid baseUrl: ${url}`);
+        }
+        return {
+            baseUrl: parsed.host,
+            path: match[1],
+            tileType: match[2],
+            mapVestion: match[3],
+            scheme: match[4]
+        };
+    }
+
     private getCopyrightCoverageData(): Promise<any> {
         const cachedResponse = this.m_cachedCopyrightResponse;
         if (cachedResponse !== undefined) {
@@ -0,0 +1,184 @@
+/*
+ * Copyright (C) 2017-2019 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RasterTileDataSourceParameters } from "./RasterTileDataSource";
+
+/**
+ * Options to select a layer of a WMTS service.
+ */
+export interface WmtsLayerOptions {
+    /**
+     * Identifier of the layer.
+     */
+    layer: string;
+
+    /**
+     * Identifier of the tile matrix set. It has to be the web mercator quadtree starting at level
+     * `0`, like the `GoogleMapsCompatible` well-known scale set.
+     *
+     * @default The first tile matrix set of the layer.
+     */
+    tileMatrixSet?: string;
+
+    /**
+     * Identifier of the style.
+     *
+     * @default The default style of the layer.
+     */
+    style?: string;
+
+    /**
+     * Mime type of the tiles.
+     *
+     * @default The first format of the layer.
+     */
+    format?: string;
+}
+
+/**
+ * Parameters of a [[RasterTileDataSource]] requesting the tiles of a WMTS layer.
+ */
+export type WmtsLayerParameters = Pick<
+    RasterTileDataSourceParameters,
+    "url" | "levelIds" | "maxZoomLevel"
+>;
+
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+/**
+ * Returns the direct child elements of an element with a local name, ignoring namespaces.
+ */
+function getChildren(element: Element, localName: string): Element[] {
+    return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+/**
+ * Returns the text of the first direct child element of an element with a local name.
+ */
+function getChildText(element: Element, localName: string): string | undefined {
+    const child = getChildren(element, localName)[0];
+    return child !== undefined && child.textContent !== null ? child.textContent.trim() : undefined;
+}
+
+/**
+ * Parses the capabilities document of a WMTS service into the parameters of a
+ * [[RasterTileDataSource]] requesting the tiles of one of its layers. Tiles are requested with the
+ * `ResourceURL` template of the layer if it has one, and with `GetTile` KVP requests otherwise.
+ *
+ * @param capabilities The capabilities document returned by the `GetCapabilities` request.
+ * @param options The layer to request the tiles of.
+ */
+export function parseWmtsCapabilities(
+    capabilities: Document,
+    options: WmtsLayerOptions
+): WmtsLayerParameters {
+    const root = capabilities.documentElement;
+    const contents = getChildren(root, "Contents")[0];
+    if (contents === undefined) {
+        throw new Error("parseWmtsCapabilities: Missing Contents element");
+    }
+
+    const layer = getChildren(contents, "Layer").find(
+        element => getChildText(element, "Identifier") === options.layer
+    );
+    if (layer === undefined) {
+        throw new Error(`parseWmtsCapabilities: Unknown layer ${options.layer}`);
+    }
+
+    const tileMatrixSetId =
+        options.tileMatrixSet !== undefined
+            ? options.tileMatrixSet
+            : getChildren(layer, "TileMatrixSetLink")
+                  .map(link => getChildText(link, "TileMatrixSet"))
+                  .find(id => id !== undefined);
+    const tileMatrixSet = getChildren(contents, "TileMatrixSet").find(
+        element => getChildText(element, "Identifier") === tileMatrixSetId
+    );
+    if (tileMatrixSetId === undefined || tileMatrixSet === undefined) {
+        throw new Error(`parseWmtsCapabilities: Unknown tile matrix set ${tileMatrixSetId}`);
+    }
+    const levelIds = getChildren(tileMatrixSet, "TileMatrix").map(
+        tileMatrix => getChildText(tileMatrix, "Identifier")!
+    );
+
+    const styles = getChildren(layer, "Style");
+    const defaultStyle = styles.find(element => element.getAttribute("isDefault") === "true");
+    const style =
+        options.style !== undefined
+            ? options.style
+            : getChildText(defaultStyle !== undefined ? defaultStyle : styles[0], "Identifier");
+    const format = options.format !== undefined ? options.format : getChildText(layer, "Format");
+
+    const resourceUrl = getChildren(layer, "ResourceURL").find(
+        element =>
+            element.getAttribute("resourceType") === "tile" &&
+            (format === undefined || element.getAttribute("format") === format)
+    );
+    let url: string;
+    if (resourceUrl !== undefined) {
+        url = resourceUrl.getAttribute("template")!;
+    } else {
+        const getTile = Array.from(root.getElementsByTagNameNS("*", "Operation")).find(
+            operation => operation.getAttribute("name") === "GetTile"
+        );
+        const get =
+            getTile !== undefined ? getTile.getElementsByTagNameNS("*", "Get")[0] : undefined;
+        const href = get !== undefined ? get.getAttributeNS(XLINK_NAMESPACE, "href") : null;
+        if (href === null) {
+            throw new Error("parseWmtsCapabilities: Missing ResourceURL and GetTile operation");
+        }
+        const separator = !href.includes("?") ? "?" : /[?&]$/.test(href) ? "" : "&";
+        url =
+            href +
+            separator +
+            "SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0" +
+            `&LAYER=${encodeURIComponent(options.layer)}` +
+            "&STYLE={Style}&TILEMATRIXSET={TileMatrixSet}" +
+            "&TILEMATRIX={TileMatrix}&TILEROW={TileRow}&TILECOL={TileCol}" +
+            (format !== undefined ? `&FORMAT=${encodeURIComponent(format)}` : "");
+    }
+
+    return {
+        url: url
+            .replace("{Style}", style !== undefined ? encodeURIComponent(style) : "")
+            .replace("{TileMatrixSet}", encodeURIComponent(tileMatrixSetId))
+            .replace("{TileMatrix}", "{z}")
+            .replace("{TileRow}", "{y}")
+            .replace("{TileCol}", "{x}"),
+        levelIds,
+        maxZoomLevel: levelIds.length - 1
+    };
+}
+
+/**
+ * Loads the capabilities document of a WMTS service and returns the parameters of a
+ * [[RasterTileDataSource]] requesting the tiles of one of its layers.
+ *
+ * Example:
+ *
+ * ```typescript
+ * const layer = await loadWmtsCapabilities("https://example.com/wmts?REQUEST=GetCapabilities", {
+ *     layer: "orthophotos",
+ *     tileMatrixSet: "GoogleMapsCompatible"
+ * });
+ * const dataSource = new RasterTileDataSource({ ...layer, copyrightInfo });
+ * ```
+ *
+ * @param url The URL of the `GetCapabilities` request.
+ * @param options The layer to request the tiles of.
+ * @see [[parseWmtsCapabilities]]
+ */
+export async function loadWmtsCapabilities(
+    url: string,
+    options: WmtsLayerOptions
+): Promise<WmtsLayerParameters> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`loadWmtsCapabilities: ${response.status} ${response.statusText}`);
+    }
+    const capabilities = new DOMParser().parseFromString(await response.text(), "text/xml");
+    return parseWmtsCapabilities(capabilities, options);
+}
@@ -9,8 +9,133 @@
 
 import { assert } from "chai";
 
+import { TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { TilePackageDataProvider, TilePackageWriter } from "@here/harp-mapview-decoder";
+import { RasterTileMaterial } from "@here/harp-materials";
+import * as THREE from "three";
+import { RasterTileDataSource } from "../lib/RasterTileDataSource";
+import { WebTileDataSource } from "../lib/WebTileDataSource";
+
 describe("WebBoxTile", function() {
     it("ok", function() {
         assert.isTrue(true);
     });
 });
+
+describe("RasterTileDataSource", function() {
+    // Rows of the mercator tiling scheme are counted from the south.
+    const tileKey = TileKey.fromRowColumnLevel(1, 2, 2);
+
+    it("replaces the placeholders of XYZ URLs", function() {
+        const dataSource = new RasterTileDataSource({
+            url: "https://{s}.tiles/{z}/{x}/{y}{r}.png",
+            retina: true
+        });
+
+        assert.equal(dataSource.getTileUrl(tileKey), "https://c.tiles/2/2/2@2x.png");
+        assert.equal(
+            dataSource.getTileUrl(TileKey.fromRowColumnLevel(1, 1, 2)),
+            "https://a.tiles/2/1/2@2x.png"
+        );
+    });
+
+    it("counts rows of TMS tiles from the south", function() {
+        const dataSource = new RasterTileDataSource({ url: "{z}/{x}/{y}", tms: true });
+
+        assert.equal(dataSource.getTileUrl(tileKey), "2/2/1");
+    });
+
+    it("replaces quadkeys and level identifiers", function() {
+        const dataSource = new RasterTileDataSource({
+            url: "{z}/{quadkey}",
+            levelIds: ["EPSG:3857:0", "EPSG:3857:1", "EPSG:3857:2"]
+        });
+
+        assert.equal(dataSource.getTileUrl(tileKey), "EPSG:3857:2/30");
+    });
+
+    it("supports tiling schemes counting rows from the north", function() {
+        const dataSource = new RasterTileDataSource({
+            url: "{z}/{x}/{y}",
+            tilingScheme: webMercatorTilingScheme
+        });
+
+        assert.equal(dataSource.getTileUrl(tileKey), "2/2/1");
+    });
+
+    it("provides static copyright info", async function() {
+        const copyrightInfo = [{ id: "openstreetmap.org", label: "OpenStreetMap contributors" }];
+        const dataSource = new RasterTileDataSource({ url: "{z}/{x}/{y}", copyrightInfo });
+
+        assert.deepEqual(await (dataSource as any).getTileCopyright(), copyrightInfo);
+    });
+
+    it("requires a url or a data provider", async function() {
+        assert.throws(() => new RasterTileDataSource({}), "missing url or dataProvider");
+
+        const dataProvider = new TilePackageDataProvider(new TilePackageWriter().finish());
+        const dataSource = new RasterTileDataSource({ dataProvider });
+        await dataSource.connect();
+        assert.isTrue(dataProvider.ready());
+        assert.throws(() => dataSource.getTileUrl(tileKey), "no url");
+    });
+
+    it("changes the raster style at runtime", function() {
+        const dataSource = new RasterTileDataSource({
+            url: "{z}/{x}/{y}",
+            style: { opacity: 0.5 }
+        });
+        assert.equal(dataSource.rasterStyle.opacity, 0.5);
+        assert.equal(dataSource.rasterStyle.blendMode, "normal");
+
+        let updates = 0;
+        dataSource.addEventListener("update", () => updates++);
+        dataSource.setRasterStyle({ saturation: -1, blendMode: "multiply" });
+
+        assert.equal(updates, 1);
+        assert.deepInclude(dataSource.rasterStyle, {
+            opacity: 0.5,
+            saturation: -1,
+            blendMode: "multiply"
+        });
+    });
+});
+
+describe("RasterTileMaterial", function() {
+    it("sets up blending and transparency for the style", function() {
+        const material = new RasterTileMaterial();
+        assert.isFalse(material.transparent);
+
+        material.opacity = 0.5;
+        assert.isTrue(material.transparent);
+        assert.equal(material.uniforms.opacity.value, 0.5);
+
+        material.setStyle({ opacity: 1, blendMode: "screen" });
+        assert.isTrue(material.transparent);
+        assert.equal(material.blending, THREE.CustomBlending);
+        assert.property(material.defines, "SCREEN_BLENDING");
+
+        material.setStyle({ blendMode: "multiply" });
+        assert.equal(material.blending, THREE.MultiplyBlending);
+        assert.notProperty(material.defines, "SCREEN_BLENDING");
+        assert.property(material.defines, "MULTIPLY_BLENDING");
+    });
+});
+
+describe("WebTileDataSource", function() {
+    it("requests tiles from the Map Tile API", function() {
+        const dataSource = new WebTileDataSource({
+            appId: "id",
+            appCode: "code",
+            tileBaseAddress: WebTileDataSource.TILE_AERIAL_SATELLITE,
+            ppi: 320
+        });
+
+        assert.equal(
+            dataSource.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 2)),
+            `https://3.${WebTileDataSource.TILE_AERIAL_SATELLITE}/2/2/2/512/png8` +
+                "?app_id=id&app_code=code&ppi=320"
+        );
+        assert.equal(dataSource.storageLevelOffset, -1);
+    });
+});
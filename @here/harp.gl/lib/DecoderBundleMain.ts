@@ -14,7 +14,9 @@ if (!(self as any).THREE) {
 
 import { GeoJsonTileDecoderService } from "@here/harp-geojson-datasource/index-worker";
 import { OmvTileDecoderService, OmvTilerService } from "@here/harp-omv-datasource/index-worker";
+import { DemTileDecoderService } from "@here/harp-terrain-datasource/index-worker";
 
 OmvTilerService.start();
 OmvTileDecoderService.start();
 GeoJsonTileDecoderService.start();
+DemTileDecoderService.start();
@@ -19,6 +19,7 @@ export * from "@here/harp-omv-datasource";
 export * from "@here/harp-geojson-datasource";
 export * from "@here/harp-features-datasource";
 export * from "@here/harp-webtile-datasource";
+export * from "@here/harp-terrain-datasource";
 export * from "@here/harp-map-controls/lib/MapControls";
 export * from "@here/harp-map-controls/lib/MapControlsUI";
 export * from "@here/harp-datasource-protocol";